@@ -0,0 +1,104 @@
+import { createClient } from '@supabase/supabase-js';
+
+/**
+ * WooCommerce order webhook receiver (Vercel function)
+ *
+ * Verifies the X-WC-Webhook-Signature HMAC and queues the delivery in order_webhook_events.
+ * The app applies queued events through the same pipeline as the incremental order sync.
+ *
+ * Environment:
+ * - WOOCOMMERCE_WEBHOOK_SECRET: the secret set on the webhooks in WooCommerce
+ * - SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY (falls back to the VITE_ variables)
+ */
+
+const ORDER_TOPICS = ['order.created', 'order.updated', 'order.deleted', 'order.restored'];
+
+// Base64 HMAC-SHA256 of the raw request body, as WooCommerce signs it
+async function signPayload(body: string, secret: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(body));
+
+  let binary = '';
+  new Uint8Array(signature).forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+// Compare signatures without leaking where they differ
+function signaturesMatch(expected: string, received: string): boolean {
+  if (expected.length !== received.length) return false;
+
+  let mismatch = 0;
+  for (let i = 0; i < expected.length; i++) {
+    mismatch |= expected.charCodeAt(i) ^ received.charCodeAt(i);
+  }
+  return mismatch === 0;
+}
+
+export async function POST(request: Request): Promise<Response> {
+  const secret = process.env.WOOCOMMERCE_WEBHOOK_SECRET;
+  const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.VITE_SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!secret || !supabaseUrl || !serviceRoleKey) {
+    console.error('Webhook receiver is missing WOOCOMMERCE_WEBHOOK_SECRET or Supabase credentials');
+    return new Response('Webhook receiver not configured', { status: 500 });
+  }
+
+  const body = await request.text();
+  const topic = request.headers.get('x-wc-webhook-topic');
+
+  // WooCommerce sends an unsigned ping (webhook_id=N) when a webhook is saved
+  if (!topic) {
+    return new Response('OK', { status: 200 });
+  }
+
+  const signature = request.headers.get('x-wc-webhook-signature') || '';
+  const expectedSignature = await signPayload(body, secret);
+
+  if (!signaturesMatch(expectedSignature, signature)) {
+    console.warn(`Rejected ${topic} webhook with an invalid signature`);
+    return new Response('Invalid signature', { status: 401 });
+  }
+
+  if (!ORDER_TOPICS.includes(topic)) {
+    return new Response('Ignored', { status: 202 });
+  }
+
+  let payload: { id?: number };
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return new Response('Invalid JSON', { status: 400 });
+  }
+
+  if (!payload.id) {
+    return new Response('Missing order id', { status: 400 });
+  }
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey);
+  const { error } = await supabase
+    .from('order_webhook_events')
+    .insert({
+      topic,
+      order_id: payload.id,
+      payload,
+      received_at: new Date().toISOString()
+    });
+
+  if (error) {
+    console.error('Error queuing webhook event:', error);
+    // A non-2xx response makes WooCommerce retry the delivery
+    return new Response('Failed to queue event', { status: 500 });
+  }
+
+  return new Response('Queued', { status: 200 });
+}
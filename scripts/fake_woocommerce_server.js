@@ -0,0 +1,295 @@
+#!/usr/bin/env node
+
+// Fake WooCommerce REST API for exercising the incremental order sync, webhook receiver
+// and store stock updates locally
+//
+// Usage:
+//   node scripts/fake_woocommerce_server.js
+//
+// Set the store URL in Settings to http://localhost:8787 (any key/secret works).
+// Environment:
+//   PORT            - port to listen on (default 8787, 0 picks a free port)
+//   WEBHOOK_URL     - where to send signed order webhooks, e.g. http://localhost:3000/api/woocommerce-webhook
+//   WEBHOOK_SECRET  - secret used to sign webhooks (must match WOOCOMMERCE_WEBHOOK_SECRET)
+//
+// Control endpoints (change orders and fire webhooks):
+//   POST   /__fake/orders        create an order from the JSON body
+//   PUT    /__fake/orders/:id    merge the JSON body into an order and bump date_modified
+//   DELETE /__fake/orders/:id    delete an order
+//   POST   /__fake/products      create a product, with optional variations, from the JSON body
+//   PUT    /__fake/products/:id  merge the JSON body into a product
+//   DELETE /__fake/products/:id  delete a product and its variations
+
+import http from 'node:http';
+import crypto from 'node:crypto';
+
+const PORT = Number(process.env.PORT || 8787);
+const WEBHOOK_URL = process.env.WEBHOOK_URL || '';
+const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET || 'secret';
+
+// WooCommerce GMT dates have no timezone suffix
+const gmtNow = () => new Date().toISOString().slice(0, 19);
+
+let nextOrderId = 1000;
+
+const createOrder = (fields = {}) => {
+  const now = gmtNow();
+  const id = nextOrderId++;
+  return {
+    id,
+    number: String(id),
+    status: 'processing',
+    date_created: now,
+    date_created_gmt: now,
+    date_modified: now,
+    date_modified_gmt: now,
+    date_completed: null,
+    total: '25.00',
+    subtotal: '25.00',
+    total_tax: '0.00',
+    shipping_total: '0.00',
+    discount_total: '0.00',
+    customer_id: 0,
+    customer_note: '',
+    payment_method: 'bacs',
+    payment_method_title: 'Direct bank transfer',
+    line_items: [
+      { id: id * 10, name: 'Test Product', product_id: 1, variation_id: 0, quantity: 1, price: 25, total: '25.00', sku: 'TEST-1', meta_data: [] }
+    ],
+    shipping_lines: [],
+    fee_lines: [],
+    coupon_lines: [],
+    refunds: [],
+    ...fields
+  };
+};
+
+let nextProductId = 1;
+
+const createProduct = ({ variations = [], ...fields } = {}) => {
+  const id = nextProductId++;
+  return {
+    id,
+    name: `Product ${id}`,
+    sku: `TEST-${id}`,
+    type: variations.length > 0 ? 'variable' : 'simple',
+    manage_stock: true,
+    stock_quantity: 20,
+    date_modified_gmt: gmtNow(),
+    ...fields,
+    variations: new Map(variations.map((variation, index) => {
+      const variationId = id * 100 + index + 1;
+      return [variationId, { id: variationId, sku: `TEST-${variationId}`, manage_stock: true, stock_quantity: 10, ...variation }];
+    }))
+  };
+};
+
+const products = new Map();
+for (let i = 0; i < 2; i++) {
+  const product = createProduct();
+  products.set(product.id, product);
+}
+
+const productJson = ({ variations, ...product }) => ({ ...product, variations: Array.from(variations.keys()) });
+
+// The product or variation that holds stock for a line item
+const findStockItem = (productId, variationId) => {
+  const product = products.get(productId);
+  if (!product || !variationId) return product;
+  return product.variations.get(variationId);
+};
+
+// New orders take stock the way WooCommerce reduces stock levels on checkout
+const reduceOrderStock = order => {
+  if (!['processing', 'completed', 'on-hold'].includes(order.status)) return;
+  order.line_items.forEach(item => {
+    const stockItem = findStockItem(item.product_id, item.variation_id);
+    if (stockItem?.manage_stock === true && stockItem.stock_quantity !== null) {
+      stockItem.stock_quantity -= item.quantity;
+    }
+  });
+};
+
+const orders = new Map();
+for (let i = 0; i < 5; i++) {
+  const order = createOrder();
+  orders.set(order.id, order);
+}
+
+const sendJson = (res, status, data, headers = {}) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Expose-Headers': 'X-WP-Total, X-WP-TotalPages',
+    ...headers
+  });
+  res.end(JSON.stringify(data));
+};
+
+const readBody = req => new Promise(resolve => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => resolve(body ? JSON.parse(body) : {}));
+});
+
+// Sign and deliver a webhook the same way WooCommerce does
+const sendWebhook = async (topic, payload) => {
+  if (!WEBHOOK_URL) return;
+
+  const body = JSON.stringify(payload);
+  const signature = crypto.createHmac('sha256', WEBHOOK_SECRET).update(body).digest('base64');
+
+  try {
+    const response = await fetch(WEBHOOK_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-WC-Webhook-Topic': topic,
+        'X-WC-Webhook-Signature': signature
+      },
+      body
+    });
+    console.log(`Sent ${topic} webhook for order ${payload.id}: ${response.status}`);
+  } catch (error) {
+    console.error(`Failed to send ${topic} webhook:`, error.message);
+  }
+};
+
+// GET /wp-json/wc/v3/orders with the filters the sync uses
+const listOrders = (res, params) => {
+  const status = params.get('status');
+  const after = params.get('after');
+  const before = params.get('before');
+  const modifiedAfter = params.get('modified_after');
+  const perPage = Number(params.get('per_page') || 10);
+  const page = Number(params.get('page') || 1);
+
+  let results = Array.from(orders.values()).filter(order => {
+    if (status && status !== 'any') {
+      if (order.status !== status) return false;
+    } else if (order.status === 'trash') {
+      return false;
+    }
+    if (after && new Date(order.date_created) <= new Date(after)) return false;
+    if (before && new Date(order.date_created) >= new Date(before)) return false;
+    if (modifiedAfter && new Date(`${order.date_modified_gmt}Z`) <= new Date(modifiedAfter)) return false;
+    return true;
+  });
+
+  results = params.get('orderby') === 'modified'
+    ? results.sort((a, b) => a.date_modified_gmt.localeCompare(b.date_modified_gmt))
+    : results.sort((a, b) => b.date_created.localeCompare(a.date_created));
+
+  const totalPages = Math.max(1, Math.ceil(results.length / perPage));
+  const pageResults = results.slice((page - 1) * perPage, page * perPage);
+
+  sendJson(res, 200, pageResults, {
+    'X-WP-Total': String(results.length),
+    'X-WP-TotalPages': String(totalPages)
+  });
+};
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const path = url.pathname;
+
+  if (req.method === 'OPTIONS') {
+    return sendJson(res, 200, {});
+  }
+
+  console.log(`${req.method} ${path}${url.search}`);
+
+  if (req.method === 'GET' && path === '/wp-json/wc/v3/orders') {
+    return listOrders(res, url.searchParams);
+  }
+
+  const refundsMatch = path.match(/^\/wp-json\/wc\/v3\/orders\/(\d+)\/refunds$/);
+  if (req.method === 'GET' && refundsMatch) {
+    return sendJson(res, 200, []);
+  }
+
+  // GET and PUT /wp-json/wc/v3/products/:id and /products/:id/variations/:id
+  const productMatch = path.match(/^\/wp-json\/wc\/v3\/products\/(\d+)(?:\/variations\/(\d+))?$/);
+  if (productMatch && (req.method === 'GET' || req.method === 'PUT')) {
+    const product = products.get(Number(productMatch[1]));
+    const variationId = productMatch[2] ? Number(productMatch[2]) : undefined;
+    const stockItem = product && (variationId ? product.variations.get(variationId) : product);
+    if (!stockItem) {
+      return sendJson(res, 404, { code: 'woocommerce_rest_product_invalid_id', message: 'Invalid ID.' });
+    }
+
+    if (req.method === 'PUT') {
+      const { stock_quantity, manage_stock } = await readBody(req);
+      if (stock_quantity !== undefined) stockItem.stock_quantity = stock_quantity;
+      if (manage_stock !== undefined) stockItem.manage_stock = manage_stock;
+      product.date_modified_gmt = gmtNow();
+    }
+    return sendJson(res, 200, variationId ? stockItem : productJson(product));
+  }
+
+  if (req.method === 'POST' && path === '/__fake/products') {
+    const product = createProduct(await readBody(req));
+    products.set(product.id, product);
+    return sendJson(res, 201, productJson(product));
+  }
+
+  const fakeProductMatch = path.match(/^\/__fake\/products\/(\d+)$/);
+  if (fakeProductMatch) {
+    const id = Number(fakeProductMatch[1]);
+    const product = products.get(id);
+    if (!product) return sendJson(res, 404, { message: 'Product not found' });
+
+    if (req.method === 'PUT') {
+      const { variations, ...fields } = await readBody(req);
+      Object.assign(product, fields, { id, date_modified_gmt: gmtNow() });
+      (variations || []).forEach(variation => {
+        const existing = product.variations.get(variation.id);
+        if (existing) Object.assign(existing, variation);
+      });
+      return sendJson(res, 200, productJson(product));
+    }
+
+    if (req.method === 'DELETE') {
+      products.delete(id);
+      return sendJson(res, 200, { id });
+    }
+  }
+
+  if (req.method === 'POST' && path === '/__fake/orders') {
+    const order = createOrder(await readBody(req));
+    orders.set(order.id, order);
+    reduceOrderStock(order);
+    await sendWebhook('order.created', order);
+    return sendJson(res, 201, order);
+  }
+
+  const orderMatch = path.match(/^\/__fake\/orders\/(\d+)$/);
+  if (orderMatch) {
+    const id = Number(orderMatch[1]);
+    const order = orders.get(id);
+    if (!order) return sendJson(res, 404, { message: 'Order not found' });
+
+    if (req.method === 'PUT') {
+      const now = gmtNow();
+      const updated = { ...order, ...(await readBody(req)), id, date_modified: now, date_modified_gmt: now };
+      orders.set(id, updated);
+      await sendWebhook('order.updated', updated);
+      return sendJson(res, 200, updated);
+    }
+
+    if (req.method === 'DELETE') {
+      orders.delete(id);
+      await sendWebhook('order.deleted', { id });
+      return sendJson(res, 200, { id });
+    }
+  }
+
+  sendJson(res, 404, { message: `No route for ${req.method} ${path}` });
+});
+
+server.listen(PORT, () => {
+  const { port } = server.address();
+  console.log(`Fake WooCommerce API listening on http://localhost:${port} with ${orders.size} orders and ${products.size} products`);
+});
@@ -13,8 +13,10 @@ import Inventory from './pages/Inventory';
 import ProductExpiry from './pages/expiry';
 import PurchaseOrders from './pages/PurchaseOrders';
 import SuppliersPage from './components/suppliers/SuppliersPage';
+import Reorder from './pages/Reorder';
 import AdditionalRevenuePage from './pages/AdditionalRevenue';
 import StockReconciliation from './pages/StockReconciliation';
+import Stocktake from './pages/Stocktake';
 import CustomerAnalytics from './pages/CustomerAnalytics';
 import OrderTiming from './pages/OrderTiming';
 import { TaskManager } from './features/taskManagement';
@@ -23,7 +25,10 @@ import InitialSetup from './pages/InitialSetup';
 import ProtectedRoute from './components/common/ProtectedRoute';
 import { AuthProvider } from './context/AuthContext';
 import { initializeSupabase } from './utils/initializeSupabase';
-import { scheduleAutomaticDraftCleanup } from './services/api/orders';
+import { scheduleAutomaticDraftCleanup, scheduleWebhookEventProcessing } from './services/api/orders';
+import { scheduleReportPacks } from './db/operations/reportPacks';
+import { settingsService } from './services/settingsService';
+import { setStoreTimezone } from './utils/dateUtils';
 
 // Create a context for the navbar state
 interface NavbarContextType {
@@ -98,7 +103,9 @@ function App() {
                 <Route path="/expiry" element={<ProductExpiry />} />
                 <Route path="/purchase-orders" element={<PurchaseOrders />} />
                 <Route path="/suppliers" element={<SuppliersPage />} />
+                <Route path="/reorder" element={<Reorder />} />
                 <Route path="/stock-reconciliation" element={<StockReconciliation />} />
+                <Route path="/stocktake" element={<Stocktake />} />
                 <Route path="/customer-analytics" element={<CustomerAnalytics />} />
                 <Route path="/order-timing" element={<OrderTiming />} />
                 <Route path="/tasks" element={<TaskManager />} />
@@ -114,6 +121,22 @@ function App() {
 // Layout component that uses the navbar context
 const AppLayout = () => {
   const { isCollapsed } = useNavbar();
+  const [timezoneLoaded, setTimezoneLoaded] = useState(false);
+  
+  // Load the store timezone before any page converts or buckets dates
+  useEffect(() => {
+    settingsService.getTimezone()
+      .then(timezone => setStoreTimezone(timezone))
+      .finally(() => setTimezoneLoaded(true));
+  }, []);
+  
+  // Generate scheduled report packs and apply webhook orders once dates resolve in store time
+  useEffect(() => {
+    if (timezoneLoaded) {
+      scheduleReportPacks(60);
+      scheduleWebhookEventProcessing(1);
+    }
+  }, [timezoneLoaded]);
   
   return (
     <div className="flex min-h-screen bg-gray-100">
@@ -124,10 +147,10 @@ const AppLayout = () => {
         }`}
       >
         <div className="px-3 sm:px-6 py-3 bg-white shadow-sm border-b">
-          <TimeDisplay />
+          {timezoneLoaded && <TimeDisplay />}
         </div>
         <div className="p-2 sm:p-4 md:p-6 overflow-hidden">
-          <Outlet />
+          {timezoneLoaded && <Outlet />}
         </div>
       </div>
       <TableScrollHelper />
@@ -189,6 +189,20 @@ const CategoryManager: React.FC<CategoryManagerProps> = ({ categories, onCategor
               min="0"
             />
           </div>
+          
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Annual Budget (optional)</label>
+            <input
+              type="number"
+              name="budget_annual"
+              value={newCategory.budget_annual || ''}
+              onChange={handleInputChange}
+              className="w-full p-2 border rounded"
+              placeholder="0.00"
+              step="0.01"
+              min="0"
+            />
+          </div>
         </div>
         
         <div className="mt-4">
@@ -262,7 +276,18 @@ const CategoryManager: React.FC<CategoryManagerProps> = ({ categories, onCategor
                         name="budget_monthly"
                         value={editingCategory.budget_monthly || ''}
                         onChange={handleEditInputChange}
+                        className="w-full p-2 border rounded mb-1"
+                        placeholder="Monthly"
+                        step="0.01"
+                        min="0"
+                      />
+                      <input
+                        type="number"
+                        name="budget_annual"
+                        value={editingCategory.budget_annual || ''}
+                        onChange={handleEditInputChange}
                         className="w-full p-2 border rounded"
+                        placeholder="Annual"
                         step="0.01"
                         min="0"
                       />
@@ -301,7 +326,10 @@ const CategoryManager: React.FC<CategoryManagerProps> = ({ categories, onCategor
                       {category.is_taxable ? 'Yes' : 'No'}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                      {category.budget_monthly ? `$${category.budget_monthly.toFixed(2)}` : '-'}
+                      {category.budget_monthly ? `$${Number(category.budget_monthly).toFixed(2)}/mo` : ''}
+                      {category.budget_monthly && category.budget_annual ? ', ' : ''}
+                      {category.budget_annual ? `$${Number(category.budget_annual).toFixed(2)}/yr` : ''}
+                      {!category.budget_monthly && !category.budget_annual && '-'}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       <button
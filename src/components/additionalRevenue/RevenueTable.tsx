@@ -2,7 +2,7 @@ import React, { useState } from 'react';
 import { Trash2, Edit } from 'lucide-react';
 import { AdditionalRevenue, AdditionalRevenueCategory } from '../../types';
 import { deleteAdditionalRevenue } from '../../db/operations/additionalRevenue';
-import { formatNZDate } from '../../services/api/utils';
+import { formatStoreDateOnly } from '../../utils/dateUtils';
 
 interface RevenueTableProps {
   revenues: AdditionalRevenue[];
@@ -149,7 +149,7 @@ const RevenueTable: React.FC<RevenueTableProps> = ({
           {sortedRevenues.map(revenue => (
             <tr key={revenue.id} className="hover:bg-gray-50">
               <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                {formatNZDate(new Date(revenue.date))}
+                {formatStoreDateOnly(new Date(revenue.date))}
               </td>
               <td className="px-6 py-4 whitespace-nowrap">
                 <div className="flex items-center">
@@ -2,17 +2,31 @@ import React, { useState, useRef, useEffect } from 'react';
 import { format, subDays, subMonths, startOfMonth, endOfMonth, isValid } from 'date-fns';
 import { DateRange } from '../../types';
 import { Calendar, ChevronDown, ChevronUp, X } from 'lucide-react';
-import { formatNZDate, getNZTimezone } from '../../services/api/utils';
+import { formatInStoreTimezone, toStoreTime, fromStoreTime, getStoreTimezoneAbbreviation } from '../../utils/dateUtils';
 
 interface DateRangePickerProps {
   dateRange: DateRange;
   onChange: (dateRange: DateRange) => void;
 }
 
+// Get the moments a range of store days starts and ends, from dates holding store wall-clock time
+const toStoreDayRange = (start: Date, end: Date): DateRange => {
+  const startOfDay = new Date(start);
+  startOfDay.setHours(0, 0, 0, 0);
+  
+  const endOfDay = new Date(end);
+  endOfDay.setHours(23, 59, 59, 999);
+  
+  return {
+    startDate: fromStoreTime(startOfDay),
+    endDate: fromStoreTime(endOfDay)
+  };
+};
+
 const DateRangePicker: React.FC<DateRangePickerProps> = ({ dateRange, onChange }) => {
   const [isOpen, setIsOpen] = useState(false);
-  const [localStartDate, setLocalStartDate] = useState<string>(format(dateRange.startDate, 'yyyy-MM-dd'));
-  const [localEndDate, setLocalEndDate] = useState<string>(format(dateRange.endDate, 'yyyy-MM-dd'));
+  const [localStartDate, setLocalStartDate] = useState<string>(formatInStoreTimezone(dateRange.startDate, 'yyyy-MM-dd'));
+  const [localEndDate, setLocalEndDate] = useState<string>(formatInStoreTimezone(dateRange.endDate, 'yyyy-MM-dd'));
   const dropdownRef = useRef<HTMLDivElement>(null);
   const triggerRef = useRef<HTMLDivElement>(null);
   const startDateInputRef = useRef<HTMLInputElement>(null);
@@ -35,8 +49,8 @@ const DateRangePicker: React.FC<DateRangePickerProps> = ({ dateRange, onChange }
 
   // Update local state when props change
   useEffect(() => {
-    setLocalStartDate(format(dateRange.startDate, 'yyyy-MM-dd'));
-    setLocalEndDate(format(dateRange.endDate, 'yyyy-MM-dd'));
+    setLocalStartDate(formatInStoreTimezone(dateRange.startDate, 'yyyy-MM-dd'));
+    setLocalEndDate(formatInStoreTimezone(dateRange.endDate, 'yyyy-MM-dd'));
   }, [dateRange]);
 
   const handleStartDateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -74,93 +88,52 @@ const DateRangePicker: React.FC<DateRangePickerProps> = ({ dateRange, onChange }
     }
   };
 
-  // Format date for display in NZ format (dd/MM/yyyy)
+  // Format date for display in the store timezone (dd/MM/yyyy)
   const formatDateForDisplay = (date: Date) => {
-    return format(date, 'dd/MM/yyyy');
+    return formatInStoreTimezone(date, 'dd/MM/yyyy');
   };
-
-  const handleQuickSelect = (days: number) => {
-    const endDate = new Date();
-    endDate.setHours(23, 59, 59, 999);
-    
-    const startDate = subDays(endDate, days);
-    startDate.setHours(0, 0, 0, 0);
-    
-    console.log('DateRangePicker quick select:', { days, startDate, endDate });
+  
+  // Apply a range of store days and close the dropdown
+  const selectStoreDays = (start: Date, end: Date) => {
+    const range = toStoreDayRange(start, end);
     
-    setLocalStartDate(format(startDate, 'yyyy-MM-dd'));
-    setLocalEndDate(format(endDate, 'yyyy-MM-dd'));
-    
-    onChange({
-      startDate,
-      endDate
-    });
+    setLocalStartDate(format(start, 'yyyy-MM-dd'));
+    setLocalEndDate(format(end, 'yyyy-MM-dd'));
     
+    onChange(range);
     setIsOpen(false);
   };
 
-  const handleMonthSelect = (months: number) => {
-    const endDate = new Date();
-    endDate.setHours(23, 59, 59, 999);
-    
-    const startDate = subMonths(endDate, months);
-    startDate.setHours(0, 0, 0, 0);
+  const handleQuickSelect = (days: number) => {
+    const today = toStoreTime(new Date());
     
-    console.log('DateRangePicker month select:', { months, startDate, endDate });
+    console.log('DateRangePicker quick select:', { days });
     
-    setLocalStartDate(format(startDate, 'yyyy-MM-dd'));
-    setLocalEndDate(format(endDate, 'yyyy-MM-dd'));
+    selectStoreDays(subDays(today, days), today);
+  };
+
+  const handleMonthSelect = (months: number) => {
+    const today = toStoreTime(new Date());
     
-    onChange({
-      startDate,
-      endDate
-    });
+    console.log('DateRangePicker month select:', { months });
     
-    setIsOpen(false);
+    selectStoreDays(subMonths(today, months), today);
   };
 
   const handleThisMonth = () => {
-    const now = new Date();
-    const startDate = startOfMonth(now);
-    startDate.setHours(0, 0, 0, 0);
-    
-    const endDate = endOfMonth(now);
-    endDate.setHours(23, 59, 59, 999);
-    
-    console.log('DateRangePicker this month:', { startDate, endDate });
+    const today = toStoreTime(new Date());
     
-    setLocalStartDate(format(startDate, 'yyyy-MM-dd'));
-    setLocalEndDate(format(endDate, 'yyyy-MM-dd'));
+    console.log('DateRangePicker this month');
     
-    onChange({
-      startDate,
-      endDate
-    });
-    
-    setIsOpen(false);
+    selectStoreDays(startOfMonth(today), endOfMonth(today));
   };
 
   const handleLastMonth = () => {
-    const now = new Date();
-    const lastMonth = subMonths(now, 1);
-    
-    const startDate = startOfMonth(lastMonth);
-    startDate.setHours(0, 0, 0, 0);
+    const lastMonth = subMonths(toStoreTime(new Date()), 1);
     
-    const endDate = endOfMonth(lastMonth);
-    endDate.setHours(23, 59, 59, 999);
+    console.log('DateRangePicker last month');
     
-    console.log('DateRangePicker last month:', { startDate, endDate });
-    
-    setLocalStartDate(format(startDate, 'yyyy-MM-dd'));
-    setLocalEndDate(format(endDate, 'yyyy-MM-dd'));
-    
-    onChange({
-      startDate,
-      endDate
-    });
-    
-    setIsOpen(false);
+    selectStoreDays(startOfMonth(lastMonth), endOfMonth(lastMonth));
   };
 
   const handleApply = (e?: React.MouseEvent) => {
@@ -170,16 +143,15 @@ const DateRangePicker: React.FC<DateRangePickerProps> = ({ dateRange, onChange }
     
     try {
       // Validate dates before applying
-      const startDate = new Date(localStartDate);
-      const endDate = new Date(localEndDate);
-      
-      // Set the time to the start and end of day
-      startDate.setHours(0, 0, 0, 0);
-      endDate.setHours(23, 59, 59, 999);
-      
-      console.log('DateRangePicker applying date range:', { startDate, endDate });
+      const startDay = new Date(`${localStartDate}T00:00:00`);
+      const endDay = new Date(`${localEndDate}T00:00:00`);
       
-      if (isValid(startDate) && isValid(endDate)) {
+      if (isValid(startDay) && isValid(endDay)) {
+        // Cover the whole of each day in the store timezone
+        const { startDate, endDate } = toStoreDayRange(startDay, endDay);
+        
+        console.log('DateRangePicker applying date range:', { startDate, endDate });
+        
         // Ensure end date is not before start date
         if (endDate < startDate) {
           // If end date is before start date, set end date to start date
@@ -215,7 +187,7 @@ const DateRangePicker: React.FC<DateRangePickerProps> = ({ dateRange, onChange }
         <div className="flex items-center">
           <Calendar className="h-5 w-5 text-gray-500 mr-2" />
           <span className="text-sm font-medium">
-            {formatDateForDisplay(dateRange.startDate)} - {formatDateForDisplay(dateRange.endDate)} (NZDT)
+            {formatDateForDisplay(dateRange.startDate)} - {formatDateForDisplay(dateRange.endDate)} ({getStoreTimezoneAbbreviation(dateRange.endDate)})
           </span>
         </div>
         <ChevronDown className="h-4 w-4 text-gray-500" />
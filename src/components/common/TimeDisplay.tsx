@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { RefreshCw, Clock } from 'lucide-react';
-import { formatNZDate, formatRelativeTime, getCurrentNZDate } from '../../utils/dateUtils';
+import { formatStoreDate, formatRelativeTime, getStoreTimezone, getStoreTimezoneAbbreviation } from '../../utils/dateUtils';
 import { syncService } from '../../services';
 
 interface TimeDisplayProps {
@@ -14,7 +14,7 @@ interface SyncInfo {
 }
 
 const TimeDisplay: React.FC<TimeDisplayProps> = ({ className = '' }) => {
-  const [currentTime, setCurrentTime] = useState<Date>(getCurrentNZDate());
+  const [currentTime, setCurrentTime] = useState<Date>(new Date());
   const [lastSyncTimes, setLastSyncTimes] = useState<SyncInfo[]>([]);
   
   // Fetch the last sync times from Supabase
@@ -45,7 +45,7 @@ const TimeDisplay: React.FC<TimeDisplayProps> = ({ className = '' }) => {
   // Update current time every minute
   useEffect(() => {
     const timer = setInterval(() => {
-      setCurrentTime(getCurrentNZDate());
+      setCurrentTime(new Date());
     }, 60000); // Update every minute
     
     return () => clearInterval(timer);
@@ -69,14 +69,15 @@ const TimeDisplay: React.FC<TimeDisplayProps> = ({ className = '' }) => {
       day: 'numeric',
       hour: '2-digit',
       minute: '2-digit',
-      second: '2-digit'
+      second: '2-digit',
+      timeZone: getStoreTimezone()
     }).format(date);
   };
 
   return (
     <div className={`text-sm ${className}`}>
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2">
-        <div className="font-medium text-gray-800">Current Time (NZ): {formatNZDate(currentTime)}</div>
+        <div className="font-medium text-gray-800">Current Time ({getStoreTimezoneAbbreviation(currentTime)}): {formatStoreDate(currentTime)}</div>
         
         <div className="flex flex-wrap gap-4">
           {orderSync && (
@@ -1,4 +1,5 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp } from 'lucide-react';
 import { Customer } from '../../types';
 
 interface CustomerListProps {
@@ -8,6 +9,8 @@ interface CustomerListProps {
   valueType: 'currency' | 'number';
 }
 
+type SortField = 'value' | 'predicted_clv' | 'churn_probability';
+
 const formatCurrency = (amount: number): string => {
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
@@ -17,6 +20,13 @@ const formatCurrency = (amount: number): string => {
   }).format(amount);
 };
 
+const churnColor = (probability?: number): string => {
+  if (probability === undefined) return 'text-gray-400';
+  if (probability >= 0.5) return 'text-red-600';
+  if (probability >= 0.25) return 'text-amber-600';
+  return 'text-green-600';
+};
+
 const CustomerList: React.FC<CustomerListProps> = ({
   title,
   customers,
@@ -45,6 +55,50 @@ const CustomerList: React.FC<CustomerListProps> = ({
     return 0;
   };
 
+  const [sortField, setSortField] = useState<SortField>('value');
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
+
+  // Handle sort
+  const handleSort = (field: SortField) => {
+    if (field === sortField) {
+      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortField(field);
+      setSortDirection('desc');
+    }
+  };
+
+  // Customers without a prediction yet sort last either way
+  const getSortValue = (customer: Customer): number | undefined => {
+    if (sortField === 'predicted_clv') return customer.clv?.predicted_clv;
+    if (sortField === 'churn_probability') return customer.clv?.churn_probability;
+    return getValue(customer);
+  };
+
+  const sortedCustomers = [...customers].sort((a, b) => {
+    const aValue = getSortValue(a);
+    const bValue = getSortValue(b);
+    if (aValue === undefined || bValue === undefined) {
+      return (aValue === undefined ? 1 : 0) - (bValue === undefined ? 1 : 0);
+    }
+    return sortDirection === 'asc' ? aValue - bValue : bValue - aValue;
+  });
+
+  const renderSortHeader = (field: SortField, label: string, description?: string) => (
+    <th
+      className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer"
+      onClick={() => handleSort(field)}
+      title={description}
+    >
+      <div className="flex items-center justify-end">
+        {label}
+        {sortField === field && (
+          sortDirection === 'asc' ? <ChevronUp className="h-4 w-4 ml-1 text-gray-700" /> : <ChevronDown className="h-4 w-4 ml-1 text-gray-700" />
+        )}
+      </div>
+    </th>
+  );
+
   return (
     <div className="bg-white p-4 rounded-lg border shadow-sm">
       <h3 className="text-lg font-medium mb-4">{title}</h3>
@@ -64,13 +118,13 @@ const CustomerList: React.FC<CustomerListProps> = ({
                 <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Email
                 </th>
-                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  {valueLabel}
-                </th>
+                {renderSortHeader('value', valueLabel)}
+                {renderSortHeader('predicted_clv', 'Predicted 12M CLV', 'Expected revenue over the next 12 months')}
+                {renderSortHeader('churn_probability', 'Churn Risk', 'Probability the customer has stopped buying')}
               </tr>
             </thead>
             <tbody className="divide-y divide-gray-200">
-              {customers.map((customer) => (
+              {sortedCustomers.map((customer) => (
                 <tr key={customer.id}>
                   <td className="px-4 py-2 whitespace-nowrap">
                     {customer.first_name} {customer.last_name}
@@ -81,6 +135,12 @@ const CustomerList: React.FC<CustomerListProps> = ({
                   <td className="px-4 py-2 whitespace-nowrap text-right font-medium">
                     {formatValue(getValue(customer))}
                   </td>
+                  <td className="px-4 py-2 whitespace-nowrap text-right">
+                    {customer.clv ? formatCurrency(customer.clv.predicted_clv) : '-'}
+                  </td>
+                  <td className={`px-4 py-2 whitespace-nowrap text-right ${churnColor(customer.clv?.churn_probability)}`}>
+                    {customer.clv ? `${Math.round(customer.clv.churn_probability * 100)}%` : '-'}
+                  </td>
                 </tr>
               ))}
             </tbody>
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { customerBasicService } from '../../services/customer';
+import { customerBasicService, customerIdentityService } from '../../services/customer';
 import { Customer, Order } from '../../types';
 import { ShoppingBag, Plus, ChevronDown, ChevronUp, Package, Tag, Calendar, Clock, DollarSign } from 'lucide-react';
 import { format } from 'date-fns';
@@ -27,11 +27,12 @@ const CustomerOrderProducts: React.FC<CustomerOrderProductsProps> = ({ customer
         setLoading(true);
         setError(null);
         
-        // Get the customer's orders directly from Supabase
+        // Get the customer's orders directly from Supabase, including guest orders placed with their email
+        const orderIds = await customerIdentityService.getCustomerOrderIds(customer.id);
         const { data: orderData, error } = await customerBasicService.supabase
           .from('orders')
           .select('*')
-          .eq('customer_id', customer.id)
+          .in('id', orderIds)
           .order('date_created', { ascending: false });
         
         if (error) {
@@ -1,9 +1,11 @@
 import React from 'react';
-import { DollarSign, TrendingUp, ShoppingCart, CreditCard } from 'lucide-react';
+import { DollarSign, TrendingUp, ShoppingCart, CreditCard, UserMinus } from 'lucide-react';
+import { CustomerCLVSummary } from '../../types';
 
 interface CustomerValueMetricsProps {
   averageOrderValue: number;
   customerLifetimeValue: number;
+  predictedCLV?: CustomerCLVSummary;
 }
 
 const formatCurrency = (amount: number): string => {
@@ -17,7 +19,8 @@ const formatCurrency = (amount: number): string => {
 
 const CustomerValueMetrics: React.FC<CustomerValueMetricsProps> = ({
   averageOrderValue,
-  customerLifetimeValue
+  customerLifetimeValue,
+  predictedCLV
 }) => {
   return (
     <div className="bg-white p-4 rounded-lg border shadow-sm">
@@ -45,10 +48,44 @@ const CustomerValueMetrics: React.FC<CustomerValueMetricsProps> = ({
             <h4 className="text-sm font-medium text-gray-600">Customer Lifetime Value</h4>
             <p className="text-2xl font-bold">{formatCurrency(customerLifetimeValue)}</p>
             <p className="text-xs text-gray-500 mt-1">
-              Predicted revenue from an average customer
+              Average revenue per customer to date
             </p>
           </div>
         </div>
+        
+        <div className="flex items-start">
+          <div className="bg-indigo-100 p-2 rounded-lg">
+            <TrendingUp className="h-5 w-5 text-indigo-600" />
+          </div>
+          <div className="ml-3">
+            <h4 className="text-sm font-medium text-gray-600">Predicted 12-Month CLV</h4>
+            {predictedCLV ? (
+              <>
+                <p className="text-2xl font-bold">{formatCurrency(predictedCLV.averagePredictedCLV)}</p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {formatCurrency(predictedCLV.predictedRevenue)} expected from {predictedCLV.customers.toLocaleString()} customers over the next 12 months
+                </p>
+              </>
+            ) : (
+              <p className="text-sm text-gray-500 mt-1">Sync customers to fit the prediction model</p>
+            )}
+          </div>
+        </div>
+        
+        {predictedCLV && (
+          <div className="flex items-start">
+            <div className="bg-red-100 p-2 rounded-lg">
+              <UserMinus className="h-5 w-5 text-red-600" />
+            </div>
+            <div className="ml-3">
+              <h4 className="text-sm font-medium text-gray-600">Average Churn Risk</h4>
+              <p className="text-2xl font-bold">{Math.round(predictedCLV.averageChurnProbability * 100)}%</p>
+              <p className="text-xs text-gray-500 mt-1">
+                {predictedCLV.likelyChurnedCustomers.toLocaleString()} customers are more likely churned than active
+              </p>
+            </div>
+          </div>
+        )}
       </div>
       
       <div className="mt-6 border-t pt-4">
@@ -63,7 +100,13 @@ const CustomerValueMetrics: React.FC<CustomerValueMetricsProps> = ({
           <li className="flex items-start">
             <div className="min-w-4 mr-2">•</div>
             <div>
-              <span className="font-medium">Customer Lifetime Value (CLV)</span>: The total revenue expected from a customer during their relationship with your business. Increase CLV by improving retention and order frequency.
+              <span className="font-medium">Customer Lifetime Value (CLV)</span>: Total revenue divided by the number of customers so far. Increase CLV by improving retention and order frequency.
+            </div>
+          </li>
+          <li className="flex items-start">
+            <div className="min-w-4 mr-2">•</div>
+            <div>
+              <span className="font-medium">Predicted CLV and Churn Risk</span>: Fitted on your order history with the BG/NBD model for future purchases and the Gamma-Gamma model for order value. Churn risk is the probability a customer has stopped buying. The model only lets customers drop out after a repeat purchase, so one-time buyers show no churn risk and a lapsed one-time buyer shows up as a low predicted CLV instead.
             </div>
           </li>
         </ul>
@@ -0,0 +1,169 @@
+import React, { useState, useEffect } from 'react';
+import { Info, Megaphone } from 'lucide-react';
+import { customerAttributionService } from '../../services/customer';
+import { summarizeAttribution } from '../../services/customer/attribution';
+import { AttributionGrouping, DateRange, MarketingAttributionRow } from '../../types';
+import { formatCurrency } from '../../utils/formatters';
+
+interface MarketingAttributionProps {
+  dateRange: DateRange;
+}
+
+const groupingOptions: { value: AttributionGrouping; label: string }[] = [
+  { value: 'source', label: 'Source' },
+  { value: 'medium', label: 'Source / Medium' },
+  { value: 'campaign', label: 'Source / Medium / Campaign' }
+];
+
+const formatRatio = (value: number | null) => value === null ? '-' : `${value.toFixed(2)}x`;
+const formatOptionalCurrency = (value: number | null) => value === null ? '-' : formatCurrency(value);
+
+// LTV:CAC below 1 means the channel has not yet paid back what it cost
+const ratioColor = (value: number | null) => {
+  if (value === null) return 'text-gray-400';
+  if (value < 1) return 'text-red-600';
+  if (value < 3) return 'text-amber-600';
+  return 'text-green-600';
+};
+
+// Customer acquisition cost, first-order ROAS and LTV:CAC per marketing channel
+const MarketingAttribution: React.FC<MarketingAttributionProps> = ({ dateRange }) => {
+  const [rows, setRows] = useState<MarketingAttributionRow[]>([]);
+  const [grouping, setGrouping] = useState<AttributionGrouping>('medium');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadAttribution = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        setRows(await customerAttributionService.getAttribution(dateRange.startDate, dateRange.endDate));
+      } catch (err) {
+        console.error('Error loading marketing attribution:', err);
+        setError('Failed to load marketing attribution');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadAttribution();
+  }, [dateRange]);
+
+  const channels = summarizeAttribution(rows, grouping);
+  const totals = summarizeAttribution(rows.map(row => ({ ...row, source: 'All channels' })), 'source')[0];
+
+  return (
+    <div className="bg-white p-4 rounded-lg border shadow-sm">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+        <div className="flex items-center">
+          <Megaphone className="h-5 w-5 text-indigo-600 mr-2" />
+          <h3 className="text-lg font-medium">Marketing Attribution</h3>
+        </div>
+        <select
+          value={grouping}
+          onChange={(e) => setGrouping(e.target.value as AttributionGrouping)}
+          className="p-2 border rounded text-sm"
+        >
+          {groupingOptions.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {totals && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+          <div className="p-3 bg-gray-50 rounded">
+            <p className="text-xs text-gray-500">Spend</p>
+            <p className="text-lg font-semibold">{formatCurrency(totals.spend)}</p>
+          </div>
+          <div className="p-3 bg-gray-50 rounded">
+            <p className="text-xs text-gray-500">New Customers</p>
+            <p className="text-lg font-semibold">{totals.customers.toLocaleString()}</p>
+          </div>
+          <div className="p-3 bg-gray-50 rounded">
+            <p className="text-xs text-gray-500">Blended CAC</p>
+            <p className="text-lg font-semibold">{formatOptionalCurrency(totals.cac)}</p>
+          </div>
+          <div className="p-3 bg-gray-50 rounded">
+            <p className="text-xs text-gray-500">First-Order ROAS</p>
+            <p className="text-lg font-semibold">{formatRatio(totals.first_order_roas)}</p>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded text-sm">{error}</div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center items-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Channel</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Customers</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Spend</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">CAC</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">First-Order ROAS</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">90-Day LTV:CAC</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">180-Day LTV:CAC</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">365-Day LTV:CAC</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {channels.map(channel => (
+                <tr key={channel.channel} className="hover:bg-gray-50">
+                  <td className="px-3 py-2 text-sm text-gray-900">
+                    {channel.channel}
+                    {channel.unallocated_spend > 0 && (
+                      <span className="block text-xs text-amber-600">
+                        {formatCurrency(channel.unallocated_spend)} spent in months the channel acquired no customers
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap text-sm text-right text-gray-700">{channel.customers.toLocaleString()}</td>
+                  <td className="px-3 py-2 whitespace-nowrap text-sm text-right text-gray-700">{formatCurrency(channel.spend)}</td>
+                  <td className="px-3 py-2 whitespace-nowrap text-sm text-right text-gray-900 font-medium">{formatOptionalCurrency(channel.cac)}</td>
+                  <td className="px-3 py-2 whitespace-nowrap text-sm text-right text-gray-700">{formatRatio(channel.first_order_roas)}</td>
+                  <td className={`px-3 py-2 whitespace-nowrap text-sm text-right ${ratioColor(channel.ltv_cac_90)}`} title={`LTV ${formatOptionalCurrency(channel.ltv_90)}`}>
+                    {formatRatio(channel.ltv_cac_90)}
+                  </td>
+                  <td className={`px-3 py-2 whitespace-nowrap text-sm text-right ${ratioColor(channel.ltv_cac_180)}`} title={`LTV ${formatOptionalCurrency(channel.ltv_180)}`}>
+                    {formatRatio(channel.ltv_cac_180)}
+                  </td>
+                  <td className={`px-3 py-2 whitespace-nowrap text-sm text-right ${ratioColor(channel.ltv_cac_365)}`} title={`LTV ${formatOptionalCurrency(channel.ltv_365)}`}>
+                    {formatRatio(channel.ltv_cac_365)}
+                  </td>
+                </tr>
+              ))}
+              {channels.length === 0 && (
+                <tr>
+                  <td colSpan={8} className="px-3 py-6 text-center text-sm text-gray-500">
+                    No customers were acquired and no marketing spend was tagged in this period
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="mt-4 bg-blue-50 p-3 rounded-md border border-blue-200 flex">
+        <Info className="h-5 w-5 text-blue-500 mr-2 flex-shrink-0 mt-0.5" />
+        <p className="text-xs text-blue-700">
+          Customers are attributed to the UTM source, medium and campaign of their first order, or direct when it has none.
+          Spend comes from expenses tagged with a marketing channel and is shared across the customers that channel acquired
+          in the same month. CAC is spend divided by new customers. First-order ROAS is first-order revenue divided by spend.
+          LTV is revenue within 90, 180 or 365 days of the first order, averaged over customers acquired at least that long ago.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default MarketingAttribution;
@@ -5,12 +5,13 @@ import {
   LineChart, Line, Legend, AreaChart, Area
 } from 'recharts';
 import { RFMData } from '../../types';
+import RFMSegmentMigration from './RFMSegmentMigration';
 
 interface RFMAnalysisProps {
   rfmData: RFMData;
 }
 
-type ActiveTab = 'segments' | 'recency' | 'frequency' | 'monetary';
+type ActiveTab = 'segments' | 'recency' | 'frequency' | 'monetary' | 'migration';
 
 // RFM score explanations
 const scoreExplanations = {
@@ -67,6 +68,8 @@ const RFMAnalysis: React.FC<RFMAnalysisProps> = ({ rfmData }) => {
         return 'Frequency Distribution';
       case 'monetary':
         return 'Monetary Distribution';
+      case 'migration':
+        return 'Segment Migration';
       default:
         return '';
     }
@@ -83,6 +86,8 @@ const RFMAnalysis: React.FC<RFMAnalysisProps> = ({ rfmData }) => {
         return 'Higher scores indicate more frequent purchases';
       case 'monetary':
         return 'Higher scores indicate higher spending customers';
+      case 'migration':
+        return 'Customers moving between segments from one RFM calculation to another';
       default:
         return '';
     }
@@ -96,7 +101,7 @@ const RFMAnalysis: React.FC<RFMAnalysisProps> = ({ rfmData }) => {
 
   // Get explanations for current tab
   const getScoreExplanations = () => {
-    if (activeTab === 'segments') return null;
+    if (activeTab === 'segments' || activeTab === 'migration') return null;
     return scoreExplanations[activeTab as keyof typeof scoreExplanations];
   };
 
@@ -149,11 +154,19 @@ const RFMAnalysis: React.FC<RFMAnalysisProps> = ({ rfmData }) => {
         >
           Monetary
         </button>
+        <button
+          onClick={() => setActiveTab('migration')}
+          className={`px-4 py-2 ${activeTab === 'migration' ? 'border-b-2 border-indigo-600 text-indigo-600' : 'text-gray-500'}`}
+        >
+          Migration
+        </button>
       </div>
       
       {/* Chart */}
-      <div className="h-72">
-        {!hasData ? (
+      <div className={activeTab === 'migration' ? 'h-96' : 'h-72'}>
+        {activeTab === 'migration' ? (
+          <RFMSegmentMigration />
+        ) : !hasData ? (
           <div className="flex justify-center items-center h-full text-gray-500">
             No data available for {activeTab}
           </div>
@@ -249,7 +262,7 @@ const RFMAnalysis: React.FC<RFMAnalysisProps> = ({ rfmData }) => {
       </div>
       
       {/* Score explanations for the active tab */}
-      {activeTab !== 'segments' && (
+      {activeTab !== 'segments' && activeTab !== 'migration' && (
         <div className="mt-4 border-t pt-3">
           <h4 className="font-medium text-sm mb-2">What the {activeTab} scores mean:</h4>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-sm">
@@ -1,5 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../../services/supabase';
+import { customerRFMService } from '../../services/customer';
+import { settingsService } from '../../services';
 import { Customer } from '../../types';
 
 interface RFMSegmentListProps {
@@ -22,20 +24,6 @@ const formatCurrency = (amount: number): string => {
   }).format(amount);
 };
 
-// RFM segment descriptions for the tooltip
-const rfmSegmentDescriptions: Record<string, string> = {
-  'Champions': 'Customers who bought recently, buy often, and spend the most.',
-  'Loyal Customers': 'Customers who bought recently, buy often, and spend above average.',
-  'Potential Loyalists': 'Recent customers with average frequency and monetary values.',
-  'New Customers': 'Bought most recently, but not often.',
-  'Promising': 'Recent shoppers who haven\'t spent much.',
-  'Needs Attention': 'Above average recency, frequency and monetary values.',
-  'About To Sleep': 'Below average recency, frequency, and monetary values.',
-  'At Risk': 'Customers who purchased often but haven\'t returned for a long time.',
-  'Cant Lose Them': 'Made big purchases and purchased often but haven\'t returned lately.',
-  'Hibernating': 'Customers who last purchased long time ago and have made few purchases.'
-};
-
 const RFMSegmentList: React.FC<RFMSegmentListProps> = ({
   segmentColors
 }) => {
@@ -45,6 +33,8 @@ const RFMSegmentList: React.FC<RFMSegmentListProps> = ({
   const [activeSegment, setActiveSegment] = useState<string>('');
   const [customersByRFM, setCustomersByRFM] = useState<Record<string, CustomerWithRFM[]>>({});
   const [showExplanation, setShowExplanation] = useState<boolean>(false);
+  // Segment descriptions from the RFM segment rules in settings
+  const [rfmSegmentDescriptions, setRfmSegmentDescriptions] = useState<Record<string, string>>({});
 
   // Load RFM data on component mount
   useEffect(() => {
@@ -53,25 +43,19 @@ const RFMSegmentList: React.FC<RFMSegmentListProps> = ({
         setLoading(true);
         setError(null);
         
-        // Get RFM data and join with customers directly
-        const { data: rfmData, error: rfmError } = await supabase
-          .from('customer_rfm')
-          .select('*')
-          .order('calculation_date', { ascending: false });
-          
-        if (rfmError) {
-          throw rfmError;
-        }
-
-        // Get the most recent calculation date
-        if (!rfmData || rfmData.length === 0) {
+        // Get the scores from the latest RFM calculation
+        const latestRFMData = await customerRFMService.getSnapshot();
+        
+        if (latestRFMData.length === 0) {
           setError('No RFM data available');
           setLoading(false);
           return;
         }
-
-        const latestDate = rfmData[0].calculation_date;
-        const latestRFMData = rfmData.filter(r => r.calculation_date === latestDate);
+        
+        const { segments } = await settingsService.getRFMSettings();
+        setRfmSegmentDescriptions(Object.fromEntries(
+          segments.map(segment => [segment.name, segment.description || ''])
+        ));
         
         // Get all customers
         const { data: customers, error: customersError } = await supabase
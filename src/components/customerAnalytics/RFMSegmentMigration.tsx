@@ -0,0 +1,167 @@
+import React, { useState, useEffect } from 'react';
+import { format, subDays } from 'date-fns';
+import { customerRFMService } from '../../services/customer';
+import { RFMSegmentMigration as SegmentMigration, RFMSnapshot } from '../../types';
+
+const formatSnapshot = (snapshot: RFMSnapshot) =>
+  `${format(new Date(snapshot.calculation_date), 'MMM d, yyyy HH:mm')} (${snapshot.customers.toLocaleString()} customers)`;
+
+// Compare against the latest calculation from at least a month before, or the one before it
+const defaultFromDate = (snapshots: RFMSnapshot[]) => {
+  const monthBefore = subDays(new Date(snapshots[0].calculation_date), 28);
+  const previous = snapshots.slice(1).find(snapshot => new Date(snapshot.calculation_date) <= monthBefore);
+  return (previous || snapshots[snapshots.length - 1]).calculation_date;
+};
+
+// Transition matrix of customers moving between RFM segments from one calculation to another
+const RFMSegmentMigration: React.FC = () => {
+  const [snapshots, setSnapshots] = useState<RFMSnapshot[]>([]);
+  const [fromDate, setFromDate] = useState<string>('');
+  const [toDate, setToDate] = useState<string>('');
+  const [migration, setMigration] = useState<SegmentMigration | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadSnapshots = async () => {
+      try {
+        const allSnapshots = await customerRFMService.getSnapshots();
+        setSnapshots(allSnapshots);
+        if (allSnapshots.length >= 2) {
+          setToDate(allSnapshots[0].calculation_date);
+          setFromDate(defaultFromDate(allSnapshots));
+        } else {
+          setLoading(false);
+        }
+      } catch (err) {
+        console.error('Error loading RFM snapshots:', err);
+        setError('Failed to load RFM calculations');
+        setLoading(false);
+      }
+    };
+
+    loadSnapshots();
+  }, []);
+
+  useEffect(() => {
+    if (!fromDate || !toDate) return;
+
+    const loadMigration = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        setMigration(await customerRFMService.getSegmentMigration(fromDate, toDate));
+      } catch (err) {
+        console.error('Error loading segment migration:', err);
+        setError('Failed to compare RFM segments');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadMigration();
+  }, [fromDate, toDate]);
+
+  if (!loading && !error && snapshots.length < 2) {
+    return (
+      <div className="flex justify-center items-center h-full text-gray-500 text-sm text-center px-4">
+        Segment migration needs at least two RFM calculations. Scores are recalculated with each customer sync.
+      </div>
+    );
+  }
+
+  const countFor = (from: string, to: string) =>
+    migration?.transitions.find(transition => transition.from === from && transition.to === to)?.count || 0;
+  const maxMoved = Math.max(1, ...(migration?.transitions || [])
+    .filter(transition => transition.from !== transition.to)
+    .map(transition => transition.count));
+  const largestMoves = (migration?.transitions || [])
+    .filter(transition => transition.from !== transition.to)
+    .sort((a, b) => b.count - a.count)
+    .slice(0, 5);
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex flex-wrap gap-2 mb-3 text-sm">
+        <label className="flex items-center gap-1">
+          From
+          <select value={fromDate} onChange={(e) => setFromDate(e.target.value)} className="p-1 border rounded text-sm">
+            {snapshots.filter(snapshot => snapshot.calculation_date !== toDate).map(snapshot => (
+              <option key={snapshot.calculation_date} value={snapshot.calculation_date}>{formatSnapshot(snapshot)}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          To
+          <select value={toDate} onChange={(e) => setToDate(e.target.value)} className="p-1 border rounded text-sm">
+            {snapshots.filter(snapshot => snapshot.calculation_date !== fromDate).map(snapshot => (
+              <option key={snapshot.calculation_date} value={snapshot.calculation_date}>{formatSnapshot(snapshot)}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {error && (
+        <div className="mb-2 bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded text-sm">{error}</div>
+      )}
+
+      {loading || !migration ? (
+        <div className="flex justify-center items-center flex-1">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+        </div>
+      ) : (
+        <div className="flex-1 overflow-auto">
+          <table className="min-w-full text-xs">
+            <thead>
+              <tr>
+                <th className="px-2 py-1 text-left font-medium text-gray-500">From \ To</th>
+                {migration.segments.map(segment => (
+                  <th key={segment} className="px-2 py-1 text-right font-medium text-gray-500">{segment}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {migration.segments.map(from => (
+                <tr key={from}>
+                  <td className="px-2 py-1 font-medium text-gray-700 whitespace-nowrap">{from}</td>
+                  {migration.segments.map(to => {
+                    const count = countFor(from, to);
+                    // Shade moves by size, customers who stayed put are shown in grey
+                    const style = from !== to && count > 0
+                      ? { backgroundColor: `rgba(79, 70, 229, ${0.1 + 0.5 * (count / maxMoved)})` }
+                      : undefined;
+                    return (
+                      <td
+                        key={to}
+                        className={`px-2 py-1 text-right ${from === to ? 'bg-gray-100 text-gray-500' : 'text-gray-900'}`}
+                        style={style}
+                        title={`${from} → ${to}: ${count.toLocaleString()} customers`}
+                      >
+                        {count > 0 ? count.toLocaleString() : ''}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {largestMoves.length > 0 && (
+            <div className="mt-3 text-sm">
+              <p className="font-medium text-gray-700 mb-1">Largest moves</p>
+              <ul className="space-y-0.5 text-gray-600">
+                {largestMoves.map(move => (
+                  <li key={`${move.from}-${move.to}`}>
+                    {move.from} → {move.to}: <span className="font-medium">{move.count.toLocaleString()}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RFMSegmentMigration;
@@ -0,0 +1,190 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertTriangle, Download, Mail, RefreshCw } from 'lucide-react';
+import { ExpiryAlertDigest } from '../../types';
+import { buildExpiryDigestCsv, buildExpiryDigestEmailBody, loadExpiryAlertDigest } from '../../services/expiryAlerts';
+import { formatCurrency } from '../../services/reports/utils';
+import { formatStoreDateOnly } from '../../utils/dateUtils';
+
+// Number of batches listed before the rest are left to the export
+const MAX_LISTED_ALERTS = 10;
+
+const ExpiryAlertsPanel: React.FC = () => {
+  const [digest, setDigest] = useState<ExpiryAlertDigest | null>(null);
+  const [selectedHorizon, setSelectedHorizon] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadDigest();
+  }, []);
+
+  const loadDigest = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await loadExpiryAlertDigest();
+      setDigest(data);
+      setSelectedHorizon(prev => prev ?? data.settings.horizons[0] ?? null);
+    } catch (err) {
+      console.error('Error loading expiry alerts:', err);
+      setError('Failed to load expiry alerts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Download the whole digest as CSV
+  const exportToCSV = () => {
+    if (!digest) return;
+
+    const blob = new Blob([buildExpiryDigestCsv(digest)], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', `expiry_alerts_${formatStoreDateOnly(new Date(digest.generated_at))}.csv`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  // Open the digest in the default mail client
+  const openEmail = () => {
+    if (!digest) return;
+
+    const { subject, body } = buildExpiryDigestEmailBody(digest);
+    window.location.href = `mailto:?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
+  };
+
+  const alerts = digest && selectedHorizon !== null
+    ? digest.alerts.filter(alert => alert.days_to_expiry <= selectedHorizon)
+    : [];
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold flex items-center">
+          <AlertTriangle className="h-5 w-5 mr-2 text-orange-500" />
+          Expiry Alerts
+        </h2>
+        <div className="flex gap-2">
+          <button
+            onClick={loadDigest}
+            disabled={loading}
+            className="p-2 text-gray-600 hover:bg-gray-100 rounded-md transition-colors disabled:opacity-50"
+            title="Refresh Expiry Alerts"
+          >
+            <RefreshCw size={16} className={loading ? 'animate-spin' : ''} />
+          </button>
+          <button
+            onClick={exportToCSV}
+            disabled={!digest || digest.alerts.length === 0}
+            className="flex items-center px-3 py-2 rounded-md text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors disabled:opacity-50"
+          >
+            <Download size={16} className="mr-1.5" />
+            CSV
+          </button>
+          <button
+            onClick={openEmail}
+            disabled={!digest || digest.alerts.length === 0}
+            className="flex items-center px-3 py-2 rounded-md text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors disabled:opacity-50"
+          >
+            <Mail size={16} className="mr-1.5" />
+            Email
+          </button>
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : loading && !digest ? (
+        <div className="flex items-center justify-center p-8">
+          <RefreshCw className="animate-spin h-6 w-6 text-indigo-600" />
+        </div>
+      ) : digest && (
+        <>
+          <div className={`grid grid-cols-1 gap-4 mb-4 ${digest.horizons.length > 2 ? 'md:grid-cols-3' : 'md:grid-cols-2'}`}>
+            {digest.horizons.map(summary => (
+              <button
+                key={summary.horizon}
+                onClick={() => setSelectedHorizon(summary.horizon)}
+                className={`text-left p-4 rounded-lg border transition-colors ${
+                  selectedHorizon === summary.horizon
+                    ? 'bg-orange-50 border-orange-300'
+                    : 'bg-gray-50 border-gray-200 hover:bg-gray-100'
+                }`}
+              >
+                <p className="text-sm text-gray-600 font-medium">Within {summary.horizon} days</p>
+                <p className="text-2xl font-bold text-gray-800">{formatCurrency(summary.cost_at_risk)}</p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {summary.batch_count} batches, {summary.quantity} units, {formatCurrency(summary.unsold_cost_at_risk)} not expected to sell
+                </p>
+              </button>
+            ))}
+          </div>
+
+          {alerts.length === 0 ? (
+            <p className="text-sm text-gray-500">No batches expire within {selectedHorizon} days.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="text-left font-medium text-gray-500 px-4 py-2">Product</th>
+                    <th className="text-left font-medium text-gray-500 px-4 py-2">Batch</th>
+                    <th className="text-left font-medium text-gray-500 px-4 py-2">Expiry</th>
+                    <th className="text-right font-medium text-gray-500 px-4 py-2">Qty</th>
+                    <th className="text-right font-medium text-gray-500 px-4 py-2">Cost at Risk</th>
+                    <th className="text-right font-medium text-gray-500 px-4 py-2">Projected Unsold</th>
+                    <th className="text-right font-medium text-gray-500 px-4 py-2">Suggested Price</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {alerts.slice(0, MAX_LISTED_ALERTS).map(alert => (
+                    <tr key={alert.product_expiry_id} className="border-t border-gray-200">
+                      <td className="px-4 py-2">
+                        <div className="font-medium text-gray-900">{alert.product_name}</div>
+                        <div className="text-gray-500 font-mono text-xs">{alert.sku}</div>
+                      </td>
+                      <td className="px-4 py-2 text-gray-700">{alert.batch_number || '-'}</td>
+                      <td className="px-4 py-2 text-gray-700">
+                        {formatStoreDateOnly(new Date(alert.expiry_date))}
+                        <span className="text-xs text-gray-500 ml-1">({alert.days_to_expiry}d)</span>
+                      </td>
+                      <td className="px-4 py-2 text-right text-gray-900">{alert.quantity}</td>
+                      <td className="px-4 py-2 text-right text-gray-900">{formatCurrency(alert.cost_at_risk)}</td>
+                      <td className={`px-4 py-2 text-right ${alert.projected_unsold > 0 ? 'text-red-600 font-medium' : 'text-green-600'}`}>
+                        {alert.projected_unsold > 0 ? alert.projected_unsold : 'Sells through'}
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        {alert.suggested_markdown_percent > 0 ? (
+                          <span className="text-orange-700 font-medium">
+                            {formatCurrency(alert.suggested_price)}
+                            <span className="text-xs ml-1">(-{alert.suggested_markdown_percent}%)</span>
+                          </span>
+                        ) : (
+                          <span className="text-gray-500">No markdown</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="flex justify-between items-center mt-3 text-sm">
+                <span className="text-gray-500">
+                  {alerts.length > MAX_LISTED_ALERTS
+                    ? `Showing ${MAX_LISTED_ALERTS} of ${alerts.length} batches, export CSV for the full list`
+                    : `${alerts.length} ${alerts.length === 1 ? 'batch' : 'batches'}`}
+                </span>
+                <Link to="/expiry" className="text-blue-600 hover:text-blue-800">View expiry tracking</Link>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ExpiryAlertsPanel;
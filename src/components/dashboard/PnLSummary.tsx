@@ -11,6 +11,7 @@ interface PnLSummaryProps {
     totalCost: number;
     totalProfit: number;
     totalExpenses: number;
+    totalWriteOffs?: number;
     netProfit: number;
     averageMargin: number;
     orderCount: number;
@@ -149,6 +150,18 @@ const PnLSummary: React.FC<PnLSummaryProps> = ({
                 {formatPercentage(summary.totalRevenue > 0 ? (summary.totalExpenses / summary.totalRevenue) * 100 : 0)} of revenue
               </div>
             </div>
+            
+            {!!summary.totalWriteOffs && (
+              <div className="pt-3 border-t border-gray-100">
+                <div className="flex justify-between items-center">
+                  <span className="text-sm font-medium text-gray-600">Stock Write-offs</span>
+                </div>
+                <div className="text-xl font-semibold text-red-600">{formatCurrency(summary.totalWriteOffs)}</div>
+                <div className="text-xs text-gray-500 mt-1">
+                  {formatPercentage(summary.totalRevenue > 0 ? (summary.totalWriteOffs / summary.totalRevenue) * 100 : 0)} of revenue
+                </div>
+              </div>
+            )}
           </div>
         </div>
         
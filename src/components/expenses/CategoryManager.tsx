@@ -46,7 +46,9 @@ const CategoryManager: React.FC<CategoryManagerProps> = ({ categories, onCategor
     setNewCategory({
       name: category.name,
       description: category.description || '',
-      color: category.color || '#64748b'
+      color: category.color || '#64748b',
+      budget_monthly: category.budget_monthly,
+      budget_annual: category.budget_annual
     });
     setEditingCategoryId(category.id || null);
     setShowForm(true);
@@ -171,6 +173,37 @@ const CategoryManager: React.FC<CategoryManagerProps> = ({ categories, onCategor
                 </div>
               </div>
             </div>
+            
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Monthly Budget
+                </label>
+                <input
+                  type="number"
+                  className="w-full p-2 border rounded"
+                  value={newCategory.budget_monthly ?? ''}
+                  onChange={(e) => setNewCategory({ ...newCategory, budget_monthly: e.target.value ? parseFloat(e.target.value) : undefined })}
+                  placeholder="0.00"
+                  step="0.01"
+                  min="0"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Annual Budget
+                </label>
+                <input
+                  type="number"
+                  className="w-full p-2 border rounded"
+                  value={newCategory.budget_annual ?? ''}
+                  onChange={(e) => setNewCategory({ ...newCategory, budget_annual: e.target.value ? parseFloat(e.target.value) : undefined })}
+                  placeholder={newCategory.budget_monthly ? (newCategory.budget_monthly * 12).toFixed(2) : '0.00'}
+                  step="0.01"
+                  min="0"
+                />
+              </div>
+            </div>
           </div>
           
           <div className="flex justify-end space-x-2">
@@ -204,6 +237,9 @@ const CategoryManager: React.FC<CategoryManagerProps> = ({ categories, onCategor
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Description
               </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Budget
+              </th>
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Actions
               </th>
@@ -224,6 +260,12 @@ const CategoryManager: React.FC<CategoryManagerProps> = ({ categories, onCategor
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                   {category.description || '-'}
                 </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {category.budget_monthly ? `$${Number(category.budget_monthly).toFixed(2)}/mo` : ''}
+                  {category.budget_monthly && category.budget_annual ? ', ' : ''}
+                  {category.budget_annual ? `$${Number(category.budget_annual).toFixed(2)}/yr` : ''}
+                  {!category.budget_monthly && !category.budget_annual && '-'}
+                </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                   <div className="flex space-x-2">
                     <button
@@ -245,7 +287,7 @@ const CategoryManager: React.FC<CategoryManagerProps> = ({ categories, onCategor
             
             {categories.length === 0 && (
               <tr>
-                <td colSpan={4} className="px-6 py-4 text-center text-sm text-gray-500">
+                <td colSpan={5} className="px-6 py-4 text-center text-sm text-gray-500">
                   No categories found. Click "Add Category" to create one.
                 </td>
               </tr>
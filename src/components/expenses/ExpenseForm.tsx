@@ -29,7 +29,7 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({
     category: categories.length > 0 ? categories[0].name : '',
     amount: 0,
     description: '',
-    period: 'monthly',
+    period: null,
     reference: '',
     payment_method: ''
   });
@@ -60,9 +60,12 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({
         category: editingExpense.category,
         amount: editingExpense.amount,
         description: editingExpense.description,
-        period: editingExpense.period || 'monthly',
+        period: editingExpense.period || null,
         reference: editingExpense.reference || '',
-        payment_method: editingExpense.payment_method || ''
+        payment_method: editingExpense.payment_method || '',
+        marketing_source: editingExpense.marketing_source || '',
+        marketing_medium: editingExpense.marketing_medium || '',
+        marketing_campaign: editingExpense.marketing_campaign || ''
       });
     }
   }, [editingExpenseId, editingExpense]);
@@ -300,24 +303,66 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({
             </label>
             <select
               className="w-full p-2 border rounded"
-              value={newExpense.period || 'monthly'}
+              value={newExpense.period || ''}
               onChange={(e) => setNewExpense({
                 ...newExpense,
-                period: e.target.value as 'daily' | 'weekly' | 'monthly' | 'yearly'
+                period: (e.target.value || null) as Expense['period']
               })}
-              required
             >
+              <option value="">Once</option>
               <option value="daily">Daily</option>
               <option value="weekly">Weekly</option>
               <option value="monthly">Monthly</option>
               <option value="yearly">Yearly</option>
             </select>
             <p className="text-xs text-gray-500 mt-1">
-              How often this expense occurs. Used for reporting and forecasting.
+              Expenses with a period type are repeated for every period in the range. Use Recurring for new costs that repeat.
             </p>
           </div>
         </div>
         
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Marketing Channel
+          </label>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <input
+              type="text"
+              className="w-full p-2 border rounded"
+              placeholder="Source, e.g. google"
+              value={newExpense.marketing_source || ''}
+              onChange={(e) => setNewExpense({
+                ...newExpense,
+                marketing_source: e.target.value
+              })}
+            />
+            <input
+              type="text"
+              className="w-full p-2 border rounded"
+              placeholder="Medium, e.g. cpc"
+              value={newExpense.marketing_medium || ''}
+              onChange={(e) => setNewExpense({
+                ...newExpense,
+                marketing_medium: e.target.value
+              })}
+            />
+            <input
+              type="text"
+              className="w-full p-2 border rounded"
+              placeholder="Campaign"
+              value={newExpense.marketing_campaign || ''}
+              onChange={(e) => setNewExpense({
+                ...newExpense,
+                marketing_campaign: e.target.value
+              })}
+            />
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            Optional. Tag ad spend with the UTM source, medium and campaign it paid for to see acquisition cost and ROAS
+            under Customer Analytics. Leave medium or campaign empty to share the spend across all of them.
+          </p>
+        </div>
+        
         <div className="flex justify-end space-x-2">
           <button
             type="button"
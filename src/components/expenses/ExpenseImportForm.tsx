@@ -26,6 +26,9 @@ const ExpenseImportForm: React.FC<ExpenseImportFormProps> = ({
     category: '',
     reference: '',
     payment_method: '',
+    marketing_source: '',
+    marketing_medium: '',
+    marketing_campaign: '',
   });
   const [availableColumns, setAvailableColumns] = useState<string[]>([]);
   const [step, setStep] = useState<'upload' | 'mapping' | 'preview'>('upload');
@@ -56,7 +59,13 @@ const ExpenseImportForm: React.FC<ExpenseImportFormProps> = ({
             headers.forEach(header => {
               const lowerHeader = header.toLowerCase();
               
-              if (lowerHeader.includes('date') || lowerHeader === 'time' || lowerHeader === 'when') {
+              if (lowerHeader.includes('utm_source') || lowerHeader === 'source' || lowerHeader === 'channel') {
+                mapping.marketing_source = header;
+              } else if (lowerHeader.includes('utm_medium') || lowerHeader === 'medium') {
+                mapping.marketing_medium = header;
+              } else if (lowerHeader.includes('campaign')) {
+                mapping.marketing_campaign = header;
+              } else if (lowerHeader.includes('date') || lowerHeader === 'time' || lowerHeader === 'when') {
                 mapping.date = header;
               } else if (lowerHeader.includes('amount') || lowerHeader.includes('sum') || 
                          lowerHeader.includes('total') || lowerHeader.includes('price') || 
@@ -350,6 +359,54 @@ const ExpenseImportForm: React.FC<ExpenseImportFormProps> = ({
               ))}
             </select>
           </div>
+          
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Marketing Source
+            </label>
+            <select
+              className="w-full p-2 border rounded"
+              value={columnMapping.marketing_source}
+              onChange={(e) => handleColumnMappingChange('marketing_source', e.target.value)}
+            >
+              <option value="">-- Select Column --</option>
+              {availableColumns.map((column) => (
+                <option key={column} value={column}>{column}</option>
+              ))}
+            </select>
+          </div>
+          
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Marketing Medium
+            </label>
+            <select
+              className="w-full p-2 border rounded"
+              value={columnMapping.marketing_medium}
+              onChange={(e) => handleColumnMappingChange('marketing_medium', e.target.value)}
+            >
+              <option value="">-- Select Column --</option>
+              {availableColumns.map((column) => (
+                <option key={column} value={column}>{column}</option>
+              ))}
+            </select>
+          </div>
+          
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Marketing Campaign
+            </label>
+            <select
+              className="w-full p-2 border rounded"
+              value={columnMapping.marketing_campaign}
+              onChange={(e) => handleColumnMappingChange('marketing_campaign', e.target.value)}
+            >
+              <option value="">-- Select Column --</option>
+              {availableColumns.map((column) => (
+                <option key={column} value={column}>{column}</option>
+              ))}
+            </select>
+          </div>
         </div>
       </div>
       
@@ -1,13 +1,17 @@
 import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { BudgetVariance } from '../../types';
 
 interface ExpenseSummaryProps {
   totalExpenses: number;
   expenseCount: number;
+  budgetWarnings?: BudgetVariance[];
 }
 
 const ExpenseSummary: React.FC<ExpenseSummaryProps> = ({
   totalExpenses,
-  expenseCount
+  expenseCount,
+  budgetWarnings = []
 }) => {
   // Format currency
   const formatCurrency = (value: number) => {
@@ -31,6 +35,24 @@ const ExpenseSummary: React.FC<ExpenseSummaryProps> = ({
           <p className="text-2xl font-bold">{expenseCount}</p>
         </div>
       </div>
+      
+      {budgetWarnings.length > 0 && (
+        <div className="mt-4 space-y-2">
+          {budgetWarnings.map(warning => (
+            <div
+              key={warning.categoryName}
+              className={`flex items-center text-sm rounded p-2 ${
+                warning.status === 'over_budget' ? 'bg-red-50 text-red-700' : 'bg-yellow-50 text-yellow-800'
+              }`}
+            >
+              <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+              {warning.status === 'over_budget'
+                ? `${warning.categoryName} is over budget: ${formatCurrency(warning.monthToDate)} spent this month of ${formatCurrency(warning.monthlyBudget)} (${formatCurrency(warning.yearToDate)} of ${formatCurrency(warning.annualBudget)} this year)`
+                : `${warning.categoryName} is on track to go over budget: projected ${formatCurrency(warning.projectedMonth)} this month of ${formatCurrency(warning.monthlyBudget)} (${formatCurrency(warning.projectedAnnual)} of ${formatCurrency(warning.annualBudget)} this year)`}
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
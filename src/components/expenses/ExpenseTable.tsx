@@ -2,7 +2,7 @@ import React, { useState } from 'react';
 import { Trash2, Edit } from 'lucide-react';
 import { Expense, ExpenseCategory } from '../../types';
 import { deleteExpense } from '../../db/operations/expenses';
-import { formatNZDate } from '../../services/api/utils';
+import { formatStoreDateOnly } from '../../utils/dateUtils';
 
 interface ExpenseTableProps {
   expenses: Expense[];
@@ -74,7 +74,7 @@ const ExpenseTable: React.FC<ExpenseTableProps> = ({
                 return (
                   <tr key={expense.id} className="hover:bg-gray-50">
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                      {formatNZDate(new Date(expense.date))}
+                      {formatStoreDateOnly(new Date(expense.date))}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="flex items-center">
@@ -87,6 +87,11 @@ const ExpenseTable: React.FC<ExpenseTableProps> = ({
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {expense.description}
+                      {expense.marketing_source && (
+                        <span className="block text-xs text-indigo-600">
+                          {[expense.marketing_source, expense.marketing_medium, expense.marketing_campaign].filter(Boolean).join(' / ')}
+                        </span>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {expense.reference || '-'}
@@ -0,0 +1,357 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Trash2, Edit } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { DateRange, ExpenseCategory, RecurringExpense, RecurringExpenseFrequency } from '../../types';
+import {
+  getRecurringExpenses,
+  saveRecurringExpense,
+  updateRecurringExpense,
+  deleteRecurringExpense
+} from '../../db/operations/recurringExpenses';
+import { materialiseRecurringExpense } from '../../services/pnl/recurringExpenses';
+import CategorySelector from './CategorySelector';
+
+interface RecurringExpenseManagerProps {
+  categories: ExpenseCategory[];
+  dateRange: DateRange;
+  onRecurringExpensesUpdated?: () => void;
+}
+
+const frequencyLabels: Record<RecurringExpenseFrequency, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  yearly: 'Yearly'
+};
+
+const RecurringExpenseManager: React.FC<RecurringExpenseManagerProps> = ({
+  categories,
+  dateRange,
+  onRecurringExpensesUpdated
+}) => {
+  const emptyRecurringExpense = (): RecurringExpense => ({
+    description: '',
+    category: categories.length > 0 ? categories[0].name : '',
+    amount: 0,
+    frequency: 'monthly',
+    start_date: new Date(),
+    end_date: null,
+    day_of_month: null,
+    recognition: 'occurrence',
+    reference: '',
+    payment_method: ''
+  });
+
+  const [recurringExpenses, setRecurringExpenses] = useState<RecurringExpense[]>([]);
+  const [formData, setFormData] = useState<RecurringExpense>(emptyRecurringExpense());
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  // Load recurring expense definitions
+  const loadRecurringExpenses = async () => {
+    setLoading(true);
+    try {
+      setRecurringExpenses(await getRecurringExpenses());
+    } catch (error) {
+      console.error('Error loading recurring expenses:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadRecurringExpenses();
+  }, []);
+
+  // Date-only value for date inputs, stored dates come back as yyyy-MM-dd
+  const toInputDate = (date?: Date | string | null) => {
+    if (!date) return '';
+    return typeof date === 'string' ? date.slice(0, 10) : format(date, 'yyyy-MM-dd');
+  };
+
+  // Amount a recurring expense adds to the selected date range
+  const getAmountInRange = (recurringExpense: RecurringExpense) => {
+    return materialiseRecurringExpense(recurringExpense, dateRange)
+      .reduce((sum, expense) => sum + expense.amount, 0);
+  };
+
+  const handleEdit = (recurringExpense: RecurringExpense) => {
+    setFormData({ ...recurringExpense });
+    setEditingId(recurringExpense.id || null);
+    setShowForm(true);
+  };
+
+  const handleDelete = async (id: number | undefined) => {
+    if (!id) return;
+
+    if (window.confirm('Are you sure you want to delete this recurring expense? It will no longer be included in any period.')) {
+      try {
+        await deleteRecurringExpense(id);
+        setRecurringExpenses(recurringExpenses.filter(item => item.id !== id));
+        onRecurringExpensesUpdated?.();
+      } catch (error) {
+        console.error('Error deleting recurring expense:', error);
+        alert('Failed to delete recurring expense');
+      }
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Save dates as date-only store days
+    const recurringExpense = {
+      ...formData,
+      start_date: toInputDate(formData.start_date),
+      end_date: formData.end_date ? toInputDate(formData.end_date) : null
+    } as unknown as RecurringExpense;
+    delete recurringExpense.id;
+    delete recurringExpense.created_at;
+    delete recurringExpense.updated_at;
+
+    try {
+      if (editingId) {
+        await updateRecurringExpense(editingId, recurringExpense);
+      } else {
+        await saveRecurringExpense(recurringExpense);
+      }
+
+      setShowForm(false);
+      setEditingId(null);
+      setFormData(emptyRecurringExpense());
+      await loadRecurringExpenses();
+      onRecurringExpensesUpdated?.();
+    } catch (error) {
+      console.error('Error saving recurring expense:', error);
+      alert('Failed to save recurring expense');
+    }
+  };
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-NZ', {
+      style: 'currency',
+      currency: 'NZD'
+    }).format(value);
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h2 className="text-lg font-semibold">Recurring Expenses</h2>
+          <p className="text-xs text-gray-500 mt-1">
+            Recurring expenses are added to the dashboard, reports and budgets for every period they run in.
+          </p>
+        </div>
+        <button
+          onClick={() => {
+            setFormData(emptyRecurringExpense());
+            setEditingId(null);
+            setShowForm(true);
+          }}
+          className="flex items-center text-sm bg-indigo-600 text-white px-3 py-2 rounded hover:bg-indigo-700"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Recurring Expense
+        </button>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="mb-6 bg-gray-50 p-4 rounded-lg">
+          <h3 className="text-md font-medium mb-3">
+            {editingId ? 'Edit Recurring Expense' : 'Add Recurring Expense'}
+          </h3>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+              <input
+                type="text"
+                className="w-full p-2 border rounded"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+              <CategorySelector
+                categories={categories}
+                selectedCategory={formData.category}
+                onChange={(category) => setFormData({ ...formData, category })}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Amount</label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                className="w-full p-2 border rounded"
+                value={formData.amount}
+                onChange={(e) => setFormData({ ...formData, amount: parseFloat(e.target.value) || 0 })}
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Frequency</label>
+              <select
+                className="w-full p-2 border rounded"
+                value={formData.frequency}
+                onChange={(e) => setFormData({ ...formData, frequency: e.target.value as RecurringExpenseFrequency })}
+              >
+                {Object.entries(frequencyLabels).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Start Date</label>
+              <input
+                type="date"
+                className="w-full p-2 border rounded"
+                value={toInputDate(formData.start_date)}
+                onChange={(e) => setFormData({ ...formData, start_date: parseISO(e.target.value) })}
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">End Date (optional)</label>
+              <input
+                type="date"
+                className="w-full p-2 border rounded"
+                value={toInputDate(formData.end_date)}
+                min={toInputDate(formData.start_date)}
+                onChange={(e) => setFormData({ ...formData, end_date: e.target.value ? parseISO(e.target.value) : null })}
+              />
+            </div>
+
+            {(formData.frequency === 'monthly' || formData.frequency === 'yearly') && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Day of Month</label>
+                <input
+                  type="number"
+                  min="1"
+                  max="31"
+                  className="w-full p-2 border rounded"
+                  value={formData.day_of_month ?? ''}
+                  placeholder="Same as start date"
+                  onChange={(e) => setFormData({
+                    ...formData,
+                    day_of_month: e.target.value ? Math.min(31, Math.max(1, parseInt(e.target.value))) : null
+                  })}
+                />
+                <p className="text-xs text-gray-500 mt-1">Falls on the last day in shorter months.</p>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Recognition</label>
+              <select
+                className="w-full p-2 border rounded"
+                value={formData.recognition}
+                onChange={(e) => setFormData({ ...formData, recognition: e.target.value as RecurringExpense['recognition'] })}
+              >
+                <option value="occurrence">On each due date</option>
+                <option value="accrual">Spread evenly over each day</option>
+              </select>
+            </div>
+
+            <div className="flex items-center mt-6">
+              <input
+                type="checkbox"
+                className="h-4 w-4 text-indigo-600 border-gray-300 rounded mr-2"
+                checked={formData.tax_deductible ?? false}
+                onChange={(e) => setFormData({ ...formData, tax_deductible: e.target.checked })}
+              />
+              <label className="text-sm font-medium text-gray-700">Tax Deductible</label>
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 border border-gray-300 rounded text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700"
+            >
+              {editingId ? 'Update' : 'Save'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Description</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Runs</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">In Selected Range</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {recurringExpenses.map(recurringExpense => (
+              <tr key={recurringExpense.id} className="hover:bg-gray-50">
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                  {recurringExpense.description}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{recurringExpense.category}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                  {formatCurrency(recurringExpense.amount)} {frequencyLabels[recurringExpense.frequency].toLowerCase()}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {toInputDate(recurringExpense.start_date)} to {recurringExpense.end_date ? toInputDate(recurringExpense.end_date) : 'ongoing'}
+                  {recurringExpense.recognition === 'accrual' && ' (accrued daily)'}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                  {formatCurrency(getAmountInRange(recurringExpense))}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => handleEdit(recurringExpense)}
+                      className="text-indigo-600 hover:text-indigo-900"
+                    >
+                      <Edit className="h-5 w-5" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(recurringExpense.id)}
+                      className="text-red-600 hover:text-red-900"
+                    >
+                      <Trash2 className="h-5 w-5" />
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+
+            {!loading && recurringExpenses.length === 0 && (
+              <tr>
+                <td colSpan={6} className="px-6 py-4 text-center text-sm text-gray-500">
+                  No recurring expenses. Click "Add Recurring Expense" to create one.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default RecurringExpenseManager;
@@ -0,0 +1,112 @@
+import React from 'react';
+import { Archive, RotateCcw, Trash2 } from 'lucide-react';
+import { ExpiryArchiveReason, ProductExpiry } from '../../types';
+import { formatStoreDate } from '../../utils/dateUtils';
+
+interface ArchivedExpiryTableProps {
+  records: ProductExpiry[];
+  loading: boolean;
+  onRestore: (record: ProductExpiry) => void;
+  onDelete: (id: number) => void;
+}
+
+const archiveReasonLabels: Record<ExpiryArchiveReason, string> = {
+  sold_out: 'Sold Out',
+  written_off: 'Written Off',
+  expired: 'Expired',
+  manual: 'Manual'
+};
+
+const archiveReasonColors: Record<ExpiryArchiveReason, string> = {
+  sold_out: 'bg-green-100 text-green-800',
+  written_off: 'bg-orange-100 text-orange-800',
+  expired: 'bg-red-100 text-red-800',
+  manual: 'bg-gray-100 text-gray-800'
+};
+
+const ArchivedExpiryTable: React.FC<ArchivedExpiryTableProps> = ({ records, loading, onRestore, onDelete }) => {
+  return (
+    <div className="overflow-x-auto rounded-lg border border-gray-200 shadow-sm">
+      <table className="w-full border-collapse bg-white text-sm">
+        <thead>
+          <tr className="bg-gray-100">
+            <th className="border-b border-gray-200 p-3 text-left font-medium text-gray-700">Product</th>
+            <th className="border-b border-gray-200 p-3 text-left font-medium text-gray-700">SKU</th>
+            <th className="border-b border-gray-200 p-3 text-left font-medium text-gray-700">Batch</th>
+            <th className="border-b border-gray-200 p-3 text-left font-medium text-gray-700">Expiry</th>
+            <th className="border-b border-gray-200 p-3 text-left font-medium text-gray-700">Quantity</th>
+            <th className="border-b border-gray-200 p-3 text-left font-medium text-gray-700">Reason</th>
+            <th className="border-b border-gray-200 p-3 text-left font-medium text-gray-700">Archived</th>
+            <th className="border-b border-gray-200 p-3 text-left font-medium text-gray-700">Actions</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {loading ? (
+            <tr>
+              <td colSpan={8} className="p-8 text-center">
+                <div className="flex justify-center items-center">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+                  <span className="ml-2">Loading...</span>
+                </div>
+              </td>
+            </tr>
+          ) : records.length === 0 ? (
+            <tr>
+              <td colSpan={8} className="p-8 text-center">
+                <div className="flex flex-col items-center justify-center py-12">
+                  <div className="text-gray-400 mb-4">
+                    <Archive size={48} />
+                  </div>
+                  <h3 className="text-lg font-medium text-gray-900 mb-1">No archived batches</h3>
+                  <p className="text-gray-500">
+                    Batches are archived when they sell out, are written off or pass their expiry date.
+                  </p>
+                </div>
+              </td>
+            </tr>
+          ) : (
+            records.map(record => (
+              <tr key={record.id} className="hover:bg-gray-50 transition-colors">
+                <td className="p-3 font-medium">{record.product_name}</td>
+                <td className="p-3 font-mono text-sm">{record.sku}</td>
+                <td className="p-3">{record.batch_number || '-'}</td>
+                <td className="p-3">{formatStoreDate(new Date(record.expiry_date))}</td>
+                <td className="p-3">{record.quantity}</td>
+                <td className="p-3">
+                  {record.archive_reason && (
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${archiveReasonColors[record.archive_reason]}`}>
+                      {archiveReasonLabels[record.archive_reason]}
+                    </span>
+                  )}
+                </td>
+                <td className="p-3 text-gray-600">
+                  {record.archived_at ? formatStoreDate(new Date(record.archived_at)) : '-'}
+                </td>
+                <td className="px-4 py-3 text-right">
+                  <div className="flex justify-end space-x-2">
+                    <button
+                      onClick={() => onRestore(record)}
+                      className="p-1.5 text-blue-600 hover:text-blue-800 hover:bg-blue-50 rounded-full transition-colors"
+                      title="Restore Batch"
+                    >
+                      <RotateCcw size={16} />
+                    </button>
+                    <button
+                      onClick={() => record.id && onDelete(record.id)}
+                      className="p-1.5 text-red-600 hover:text-red-800 hover:bg-red-50 rounded-full transition-colors"
+                      title="Delete Batch"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default ArchivedExpiryTable;
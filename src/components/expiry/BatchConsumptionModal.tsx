@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { X, RefreshCw, Search, Download } from 'lucide-react';
+import { StockMovementBatch } from '../../types';
+import { getBatchConsumption } from '../../db/operations/expiry';
+import { formatStoreDate, formatStoreDateOnly } from '../../utils/dateUtils';
+
+interface BatchConsumptionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type SearchField = 'batchNumber' | 'sku' | 'referenceId';
+
+const searchFieldLabels: Record<SearchField, string> = {
+  batchNumber: 'Batch Number',
+  sku: 'SKU',
+  referenceId: 'Order Number'
+};
+
+const BatchConsumptionModal: React.FC<BatchConsumptionModalProps> = ({ isOpen, onClose }) => {
+  const [searchField, setSearchField] = useState<SearchField>('batchNumber');
+  const [searchValue, setSearchValue] = useState('');
+  const [results, setResults] = useState<StockMovementBatch[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!searchValue.trim()) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      setResults(await getBatchConsumption({ [searchField]: searchValue.trim() }));
+    } catch (err) {
+      console.error('Error loading batch consumption:', err);
+      setError('Failed to load batch consumption');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Export the consumption list to CSV
+  const exportToCSV = () => {
+    if (!results || results.length === 0) return;
+
+    const headers = ['Date', 'Type', 'Reference', 'SKU', 'Batch Number', 'Expiry Date', 'Quantity'];
+    const csvData = results.map(row => [
+      formatStoreDate(new Date(row.movement_date)),
+      row.movement_type,
+      row.reference_id || '',
+      row.sku,
+      row.batch_number || '',
+      formatStoreDateOnly(new Date(row.expiry_date)),
+      row.quantity.toString()
+    ]);
+
+    const csvContent = [
+      headers.join(','),
+      ...csvData.map(row => row.map(value => `"${value.replace(/"/g, '""')}"`).join(','))
+    ].join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', `batch_consumption_${searchValue.trim()}.csv`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const totalQuantity = (results || []).reduce((sum, row) => sum + row.quantity, 0);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-lg w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-4 border-b">
+          <div>
+            <h2 className="text-xl font-semibold">Batch Consumption</h2>
+            <p className="text-sm text-gray-500">Find which orders took stock from a batch, for recalls</p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-auto">
+          <form onSubmit={handleSearch} className="flex flex-wrap gap-2 mb-4">
+            <select
+              className="p-2 border rounded text-sm"
+              value={searchField}
+              onChange={(e) => setSearchField(e.target.value as SearchField)}
+            >
+              {(Object.keys(searchFieldLabels) as SearchField[]).map(field => (
+                <option key={field} value={field}>{searchFieldLabels[field]}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={searchValue}
+              onChange={(e) => setSearchValue(e.target.value)}
+              placeholder={`Enter ${searchFieldLabels[searchField].toLowerCase()}`}
+              className="flex-grow p-2 border rounded text-sm"
+            />
+            <button
+              type="submit"
+              className="flex items-center px-3 py-2 rounded-md text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+            >
+              <Search size={16} className="mr-1.5" />
+              Search
+            </button>
+            {results && results.length > 0 && (
+              <button
+                type="button"
+                onClick={exportToCSV}
+                className="flex items-center px-3 py-2 rounded-md text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors"
+              >
+                <Download size={16} className="mr-1.5" />
+                Export CSV
+              </button>
+            )}
+          </form>
+
+          {loading ? (
+            <div className="flex items-center justify-center p-8">
+              <RefreshCw className="animate-spin h-6 w-6 text-indigo-600" />
+            </div>
+          ) : error ? (
+            <p className="text-sm text-red-600">{error}</p>
+          ) : results === null ? null : results.length === 0 ? (
+            <p className="text-sm text-gray-500">No stock has been taken from batches matching this search.</p>
+          ) : (
+            <>
+              <p className="text-sm text-gray-600 mb-2">
+                {results.length} {results.length === 1 ? 'allocation' : 'allocations'}, {totalQuantity} units
+              </p>
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="text-left font-medium text-gray-500 px-4 py-2">Date</th>
+                    <th className="text-left font-medium text-gray-500 px-4 py-2">Type</th>
+                    <th className="text-left font-medium text-gray-500 px-4 py-2">Reference</th>
+                    <th className="text-left font-medium text-gray-500 px-4 py-2">SKU</th>
+                    <th className="text-left font-medium text-gray-500 px-4 py-2">Batch</th>
+                    <th className="text-left font-medium text-gray-500 px-4 py-2">Expiry</th>
+                    <th className="text-right font-medium text-gray-500 px-4 py-2">Quantity</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {results.map(row => (
+                    <tr key={row.id} className="border-t border-gray-200">
+                      <td className="px-4 py-2 text-gray-700">{formatStoreDate(new Date(row.movement_date))}</td>
+                      <td className="px-4 py-2 text-gray-500">{row.movement_type === 'sale' ? 'Sale' : 'Adjustment'}</td>
+                      <td className="px-4 py-2 text-gray-900">
+                        {row.reference_id ? `${row.movement_type === 'sale' ? '#' : ''}${row.reference_id}` : '-'}
+                      </td>
+                      <td className="px-4 py-2 font-mono text-gray-900">{row.sku}</td>
+                      <td className="px-4 py-2 text-gray-900">{row.batch_number || '-'}</td>
+                      <td className="px-4 py-2 text-gray-700">{formatStoreDateOnly(new Date(row.expiry_date))}</td>
+                      <td className="px-4 py-2 text-right text-gray-900 font-medium">{row.quantity}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchConsumptionModal;
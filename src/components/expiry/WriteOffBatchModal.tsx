@@ -0,0 +1,152 @@
+import React, { useState, useEffect } from 'react';
+import { X, PackageX } from 'lucide-react';
+import { ProductExpiry } from '../../types';
+import { writeOffExpiryBatch } from '../../db/operations/writeOffs';
+import { formatStoreDate } from '../../utils/dateUtils';
+import { formatCurrency } from '../../services/reports/utils';
+
+interface WriteOffBatchModalProps {
+  batch?: ProductExpiry;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const WriteOffBatchModal: React.FC<WriteOffBatchModalProps> = ({ batch, onClose, onSuccess }) => {
+  const [quantity, setQuantity] = useState('');
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  // Default to writing off the whole batch
+  useEffect(() => {
+    if (batch) {
+      setQuantity(batch.quantity.toString());
+      setNotes('');
+      setError('');
+    }
+  }, [batch]);
+
+  if (!batch) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const writeOffQuantity = parseInt(quantity);
+    if (isNaN(writeOffQuantity) || writeOffQuantity <= 0 || writeOffQuantity > batch.quantity) {
+      setError(`Quantity must be between 1 and ${batch.quantity}`);
+      return;
+    }
+
+    setIsProcessing(true);
+    setError('');
+    try {
+      const writeOff = await writeOffExpiryBatch(batch, writeOffQuantity, notes.trim() || undefined);
+      window.alert(`Wrote off ${writeOff.quantity} units of ${batch.sku} at a cost of ${formatCurrency(writeOff.cost_value)}`);
+      onSuccess();
+      onClose();
+    } catch (err) {
+      console.error('Error writing off batch:', err);
+      setError(err instanceof Error ? err.message : 'Failed to write off batch');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg w-full max-w-md max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold">Write Off Batch</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={20} />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-100 text-red-800 rounded">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit}>
+          <div className="p-3 bg-orange-50 text-orange-800 rounded mb-4">
+            <div className="font-medium">{batch.product_name || batch.sku}</div>
+            <div className="mt-1 text-sm">
+              <span className="text-gray-700">SKU:</span> {batch.sku}
+            </div>
+            <div className="mt-1 text-sm">
+              <span className="text-gray-700">Batch:</span> {batch.batch_number || '-'}
+            </div>
+            <div className="mt-1 text-sm">
+              <span className="text-gray-700">Expiry:</span> {formatStoreDate(new Date(batch.expiry_date))}
+            </div>
+            <div className="mt-1 text-sm">
+              <span className="text-gray-700">Batch Quantity:</span> {batch.quantity}
+            </div>
+          </div>
+
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Quantity to Write Off
+            </label>
+            <input
+              type="number"
+              min={1}
+              max={batch.quantity}
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              className="border p-2 w-full rounded"
+              required
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Stock is reduced by this quantity and its cost is recorded as a write-off in the P&L.
+              Writing off the whole batch archives it.
+            </p>
+          </div>
+
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Notes (Optional)
+            </label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              className="border p-2 w-full rounded"
+              rows={3}
+            />
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={onClose}
+              className="bg-gray-300 hover:bg-gray-400 px-4 py-2 rounded mr-2"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isProcessing}
+              className={`flex items-center px-4 py-2 rounded ${
+                isProcessing
+                  ? 'bg-gray-400 cursor-not-allowed'
+                  : 'bg-orange-500 hover:bg-orange-600 text-white'
+              }`}
+            >
+              {isProcessing ? (
+                <>Processing...</>
+              ) : (
+                <>
+                  <PackageX size={16} className="mr-1" />
+                  Write Off
+                </>
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default WriteOffBatchModal;
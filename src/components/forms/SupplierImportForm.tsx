@@ -1,7 +1,10 @@
-import React, { useState } from 'react';
-import { AlertCircle, Upload, FileText, RefreshCw } from 'lucide-react';
-import { SupplierPriceItem, SupplierPriceImport } from '../../types';
+import React, { useState, useEffect } from 'react';
+import { AlertCircle, Upload, FileText, RefreshCw, AlertTriangle } from 'lucide-react';
+import { SupplierPriceItem, SupplierPriceImport, SupplierPriceChange } from '../../types';
 import { processSupplierPriceData, getSupplierImports, getSupplierImportItems } from '../../db/operations/supplier';
+import { getSupplierPriceChanges } from '../../db/operations/supplierPriceHistory';
+import { settingsService } from '../../services';
+import { formatCurrency } from '../../utils/formatters';
 
 interface SupplierImportFormProps {
   onClose: () => void;
@@ -30,10 +33,46 @@ const SupplierImportForm: React.FC<SupplierImportFormProps> = ({
   const [selectedImportId, setSelectedImportId] = useState<number | null>(null);
   const [importMode, setImportMode] = useState<'file' | 'existing'>('file');
   const [showDebugInfo, setShowDebugInfo] = useState(false);
+  const [alertThreshold, setAlertThreshold] = useState(10);
+  const [pendingImport, setPendingImport] = useState<{
+    items: SupplierPriceItem[];
+    filename: string;
+    supplier: string;
+    changes: SupplierPriceChange[];
+  } | null>(null);
+
+  // Load the price jump alert threshold
+  useEffect(() => {
+    settingsService.getPriceChangeAlertPercent()
+      .then(setAlertThreshold)
+      .catch(error => console.error('Error loading price change alert threshold:', error));
+  }, []);
+
+  const handleAlertThresholdChange = async (value: number) => {
+    setAlertThreshold(value);
+    
+    // Re-flag the pending changes against the new threshold
+    if (pendingImport) {
+      setPendingImport({
+        ...pendingImport,
+        changes: pendingImport.changes.map(change => ({
+          ...change,
+          exceeds_threshold: change.change_percent !== null && Math.abs(change.change_percent) > value
+        }))
+      });
+    }
+    
+    try {
+      await settingsService.setPriceChangeAlertPercent(value);
+    } catch (error) {
+      console.error('Error saving price change alert threshold:', error);
+    }
+  };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
       setImportFile(e.target.files[0]);
+      setPendingImport(null);
     }
   };
 
@@ -114,51 +153,10 @@ const SupplierImportForm: React.FC<SupplierImportFormProps> = ({
         setDebugInfo(prev => [...prev, `Retrieved ${items.length} items from previous import`]);
       }
       
-      // Process the data
-      try {
-        // Process the supplier price data
-        setDebugInfo(prev => [...prev, `Processing ${items.length} items for supplier ${supplier}`]);
-        
-        // Log a sample of the items for debugging
-        if (items.length > 0) {
-          setDebugInfo(prev => [...prev, `Sample item before processing: ${JSON.stringify(items[0])}`]);
-        }
-        
-        const result = await processSupplierPriceData(items, supplier, filename);
-        
-        setDebugInfo(prev => [...prev, `Import completed: ${result.items_updated} updated, ${result.items_skipped} skipped`]);
-        
-        // Show success message
-        setImportSuccess(`Successfully imported ${result.items_updated} items from ${supplier} (${result.items_skipped} skipped)`);
-        
-        // Refresh the recent imports list
-        const imports = await getSupplierImports();
-        const formattedImports = imports.map(imp => ({
-          id: imp.id,
-          date: new Date(imp.date).toLocaleDateString(),
-          supplier: imp.supplier_name,
-          filename: imp.filename,
-          updated: imp.items_updated,
-          skipped: imp.items_skipped
-        })).slice(0, 5);
-        
-        // Call the onSuccess callback with the updated imports
-        onSuccess(formattedImports);
-        
-        // Reset form
-        setSupplierName('');
-        setImportFile(null);
-        setSelectedImportId(null);
-        
-        // Close the form after a delay
-        setTimeout(() => {
-          onClose();
-        }, 3000);
-      } catch (error) {
-        console.error('Error during processing:', error);
-        setDebugInfo(prev => [...prev, `Error during processing: ${error instanceof Error ? error.message : JSON.stringify(error)}`]);
-        setImportError(`Error processing supplier data: ${error instanceof Error ? error.message : JSON.stringify(error)}`);
-      }
+      // Show the price changes for review before anything is saved
+      const changes = await getSupplierPriceChanges(items, alertThreshold);
+      setDebugInfo(prev => [...prev, `Found ${changes.length} price changes`]);
+      setPendingImport({ items, filename, supplier, changes });
     } catch (error) {
       console.error('Import error:', error);
       setImportError(`Import error: ${error instanceof Error ? error.message : JSON.stringify(error)}`);
@@ -167,6 +165,63 @@ const SupplierImportForm: React.FC<SupplierImportFormProps> = ({
     }
   };
 
+  const handleConfirmImport = async () => {
+    if (!pendingImport) return;
+    
+    const { items, supplier, filename } = pendingImport;
+    
+    setImportLoading(true);
+    setImportError(null);
+    
+    try {
+      // Process the supplier price data
+      setDebugInfo(prev => [...prev, `Processing ${items.length} items for supplier ${supplier}`]);
+      
+      // Log a sample of the items for debugging
+      if (items.length > 0) {
+        setDebugInfo(prev => [...prev, `Sample item before processing: ${JSON.stringify(items[0])}`]);
+      }
+      
+      const result = await processSupplierPriceData(items, supplier, filename);
+      
+      setDebugInfo(prev => [...prev, `Import completed: ${result.items_updated} updated, ${result.items_skipped} skipped`]);
+      
+      // Show success message
+      setImportSuccess(`Successfully imported ${result.items_updated} items from ${supplier} (${result.items_skipped} skipped)`);
+      
+      // Refresh the recent imports list
+      const imports = await getSupplierImports();
+      const formattedImports = imports.map(imp => ({
+        id: imp.id,
+        date: new Date(imp.date).toLocaleDateString(),
+        supplier: imp.supplier_name,
+        filename: imp.filename,
+        updated: imp.items_updated,
+        skipped: imp.items_skipped
+      })).slice(0, 5);
+      
+      // Call the onSuccess callback with the updated imports
+      onSuccess(formattedImports);
+      
+      // Reset form
+      setPendingImport(null);
+      setSupplierName('');
+      setImportFile(null);
+      setSelectedImportId(null);
+      
+      // Close the form after a delay
+      setTimeout(() => {
+        onClose();
+      }, 3000);
+    } catch (error) {
+      console.error('Error during processing:', error);
+      setDebugInfo(prev => [...prev, `Error during processing: ${error instanceof Error ? error.message : JSON.stringify(error)}`]);
+      setImportError(`Error processing supplier data: ${error instanceof Error ? error.message : JSON.stringify(error)}`);
+    } finally {
+      setImportLoading(false);
+    }
+  };
+
   const parseImportFile = async (file: File): Promise<SupplierPriceItem[]> => {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
@@ -446,7 +501,7 @@ const SupplierImportForm: React.FC<SupplierImportFormProps> = ({
         <div className="flex space-x-4 mb-4">
           <button
             type="button"
-            onClick={() => setImportMode('file')}
+            onClick={() => { setImportMode('file'); setPendingImport(null); }}
             className={`px-4 py-2 rounded text-sm font-medium ${
               importMode === 'file' 
                 ? 'bg-indigo-600 text-white' 
@@ -458,7 +513,7 @@ const SupplierImportForm: React.FC<SupplierImportFormProps> = ({
           </button>
           <button
             type="button"
-            onClick={() => setImportMode('existing')}
+            onClick={() => { setImportMode('existing'); setPendingImport(null); }}
             className={`px-4 py-2 rounded text-sm font-medium ${
               importMode === 'existing' 
                 ? 'bg-indigo-600 text-white' 
@@ -519,7 +574,7 @@ const SupplierImportForm: React.FC<SupplierImportFormProps> = ({
             <select
               className="w-full p-2 border rounded"
               value={selectedImportId || ''}
-              onChange={(e) => setSelectedImportId(e.target.value ? Number(e.target.value) : null)}
+              onChange={(e) => { setSelectedImportId(e.target.value ? Number(e.target.value) : null); setPendingImport(null); }}
               required
             >
               <option value="">-- Select a previous import --</option>
@@ -535,6 +590,73 @@ const SupplierImportForm: React.FC<SupplierImportFormProps> = ({
           </div>
         )}
         
+        {pendingImport && (
+          <div className="mb-4 border border-gray-200 rounded">
+            <div className="flex flex-wrap items-center justify-between gap-2 bg-gray-50 px-4 py-2 border-b border-gray-200">
+              <h3 className="text-sm font-medium text-gray-700">
+                Price changes since last import ({pendingImport.changes.length} of {pendingImport.items.length} items)
+              </h3>
+              <label className="flex items-center text-xs text-gray-600">
+                Alert when price changes by more than
+                <input
+                  type="number"
+                  min="0"
+                  step="1"
+                  className="w-16 mx-1 p-1 border rounded text-right"
+                  value={alertThreshold}
+                  onChange={(e) => handleAlertThresholdChange(Math.max(0, Number(e.target.value) || 0))}
+                />
+                %
+              </label>
+            </div>
+            
+            {pendingImport.changes.some(change => change.exceeds_threshold) && (
+              <div className="flex items-center px-4 py-2 bg-yellow-50 text-yellow-800 text-sm border-b border-yellow-200">
+                <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+                {pendingImport.changes.filter(change => change.exceeds_threshold).length} items change by more than {alertThreshold}%. Check them before importing.
+              </div>
+            )}
+            
+            {pendingImport.changes.length === 0 ? (
+              <p className="px-4 py-3 text-sm text-gray-500">No supplier prices have changed.</p>
+            ) : (
+              <div className="overflow-auto max-h-64">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-100 sticky top-0">
+                    <tr>
+                      <th className="text-left font-medium text-gray-500 px-4 py-2">SKU</th>
+                      <th className="text-left font-medium text-gray-500 px-4 py-2">Product</th>
+                      <th className="text-right font-medium text-gray-500 px-4 py-2">Current</th>
+                      <th className="text-right font-medium text-gray-500 px-4 py-2">New</th>
+                      <th className="text-right font-medium text-gray-500 px-4 py-2">Change</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {pendingImport.changes.map(change => (
+                      <tr
+                        key={change.sku}
+                        className={`border-t border-gray-200 ${change.exceeds_threshold ? 'bg-yellow-50' : ''}`}
+                      >
+                        <td className="px-4 py-2 text-gray-900 font-medium">{change.sku}</td>
+                        <td className="px-4 py-2 text-gray-700">{change.name || '-'}</td>
+                        <td className="px-4 py-2 text-right text-gray-700">
+                          {change.previous_price !== null ? formatCurrency(change.previous_price) : 'New'}
+                        </td>
+                        <td className="px-4 py-2 text-right text-gray-900">{formatCurrency(change.new_price)}</td>
+                        <td className={`px-4 py-2 text-right ${change.change > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                          {change.change_percent !== null
+                            ? `${change.change > 0 ? '+' : ''}${change.change_percent.toFixed(1)}%`
+                            : '-'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+        
         <div className="flex justify-end space-x-2">
           <button
             type="button"
@@ -544,15 +666,31 @@ const SupplierImportForm: React.FC<SupplierImportFormProps> = ({
           >
             Cancel
           </button>
+          {pendingImport && (
+            <button
+              type="button"
+              onClick={() => setPendingImport(null)}
+              className="px-4 py-2 border border-gray-300 rounded text-sm font-medium text-gray-700 hover:bg-gray-50"
+              disabled={importLoading}
+            >
+              Back
+            </button>
+          )}
           <button
-            type="submit"
+            type={pendingImport ? 'button' : 'submit'}
+            onClick={pendingImport ? handleConfirmImport : undefined}
             className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:bg-indigo-400"
             disabled={importLoading}
           >
             {importLoading ? (
               <>
                 <span className="inline-block animate-spin mr-2">⟳</span>
-                Importing...
+                {pendingImport ? 'Importing...' : 'Checking...'}
+              </>
+            ) : !pendingImport ? (
+              <>
+                <FileText className="h-4 w-4 mr-1 inline" />
+                Review Price Changes
               </>
             ) : (
               <>
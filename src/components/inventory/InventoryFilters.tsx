@@ -1,5 +1,6 @@
 import React from 'react';
-import { Search, Package, Layers, Box, HelpCircle } from 'lucide-react';
+import { Search, Package, Layers, Box, HelpCircle, MapPin } from 'lucide-react';
+import { StockLocation } from '../../types';
 import { Tooltip } from './InventoryUtils';
 
 interface InventoryFiltersProps {
@@ -9,6 +10,10 @@ interface InventoryFiltersProps {
   onSearch: (e: React.ChangeEvent<HTMLInputElement>) => void;
   onStockFilterChange: (filter: 'all' | 'in_stock' | 'out_of_stock') => void;
   onProductTypeFilterChange: (filter: 'all' | 'simple' | 'variation') => void;
+  locations?: StockLocation[];
+  // Null for all locations
+  locationFilter?: number | null;
+  onLocationFilterChange?: (locationId: number | null) => void;
 }
 
 const InventoryFilters: React.FC<InventoryFiltersProps> = ({
@@ -17,7 +22,10 @@ const InventoryFilters: React.FC<InventoryFiltersProps> = ({
   productTypeFilter,
   onSearch,
   onStockFilterChange,
-  onProductTypeFilterChange
+  onProductTypeFilterChange,
+  locations = [],
+  locationFilter = null,
+  onLocationFilterChange
 }) => {
   return (
     <div className="sticky top-0 z-10 bg-gray-100 py-4 mb-4 -mx-6 px-6">
@@ -101,6 +109,26 @@ const InventoryFilters: React.FC<InventoryFiltersProps> = ({
                 <Tooltip text="Filter by product type: simple products or variations (e.g., different sizes, colors)" />
               </div>
             </div>
+            
+            {/* Location Filter */}
+            {onLocationFilterChange && locations.length > 1 && (
+              <div className="flex items-center space-x-2">
+                <MapPin className="h-4 w-4 text-gray-500" />
+                <select
+                  value={locationFilter ?? 'all'}
+                  onChange={(e) => onLocationFilterChange(e.target.value === 'all' ? null : Number(e.target.value))}
+                  className="px-3 py-2 text-sm border rounded-md bg-gray-100 text-gray-700"
+                >
+                  <option value="all">All Locations</option>
+                  {locations.map(location => (
+                    <option key={location.id} value={location.id}>{location.name}</option>
+                  ))}
+                </select>
+                <div>
+                  <Tooltip text="Show the expected stock at one location from stock movements instead of the store stock" />
+                </div>
+              </div>
+            )}
           </div>
         </div>
       </div>
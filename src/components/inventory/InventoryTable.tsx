@@ -10,6 +10,7 @@ interface InventoryTableProps {
   sortDirection: 'asc' | 'desc';
   onSort: (field: keyof InventoryItem) => void;
   formatCurrency: (amount: number) => string;
+  onViewPriceHistory?: (sku: string, productName?: string) => void;
 }
 
 const InventoryTable: React.FC<InventoryTableProps> = ({
@@ -18,7 +19,8 @@ const InventoryTable: React.FC<InventoryTableProps> = ({
   sortField,
   sortDirection,
   onSort,
-  formatCurrency
+  formatCurrency,
+  onViewPriceHistory
 }) => {
   const renderSortIcon = (field: keyof InventoryItem) => {
     if (sortField !== field) return null;
@@ -194,7 +196,18 @@ const InventoryTable: React.FC<InventoryTableProps> = ({
                     ) : 'N/A'}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                    {supplierPrice > 0 ? formatCurrency(supplierPrice) : 'N/A'}
+                    {supplierPrice > 0 ? (
+                      onViewPriceHistory && item.sku ? (
+                        <button
+                          type="button"
+                          onClick={() => onViewPriceHistory(item.sku!, product?.name)}
+                          className="text-indigo-600 hover:text-indigo-800 hover:underline"
+                          title="View supplier price history"
+                        >
+                          {formatCurrency(supplierPrice)}
+                        </button>
+                      ) : formatCurrency(supplierPrice)
+                    ) : 'N/A'}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                     {formatCurrency(item.cost_value || 0)}
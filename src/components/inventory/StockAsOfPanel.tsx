@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { Download, RefreshCw } from 'lucide-react';
+import { StockOnHandLine } from '../../types';
+import { getStockOnHandAsOf } from '../../db/operations/costLedger';
+import { formatInStoreTimezone, fromStoreTime } from '../../utils/dateUtils';
+import { formatCurrency } from './InventoryUtils';
+
+const StockAsOfPanel: React.FC = () => {
+  const [asOfDate, setAsOfDate] = useState(formatInStoreTimezone(new Date(), 'yyyy-MM-dd'));
+  const [lines, setLines] = useState<StockOnHandLine[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Stock on hand at the end of the chosen store day
+  const loadStock = async () => {
+    if (!asOfDate) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      setLines(await getStockOnHandAsOf(fromStoreTime(`${asOfDate}T23:59:59.999`)));
+    } catch (err) {
+      console.error('Error loading stock on hand:', err);
+      setError('Failed to load stock on hand');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const exportToCSV = () => {
+    if (!lines) return;
+
+    const headers = ['SKU', 'Product', 'Quantity', 'Unit Cost', 'Value'];
+    const rows = lines.map(line => [
+      line.sku,
+      line.product_name || '',
+      line.quantity.toString(),
+      line.unit_cost.toFixed(2),
+      line.value.toFixed(2)
+    ]);
+    const csv = [headers, ...rows]
+      .map(row => row.map(value => `"${value.replace(/"/g, '""')}"`).join(','))
+      .join('\n');
+
+    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `stock_on_hand_${asOfDate}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const totalQuantity = lines?.reduce((sum, line) => sum + line.quantity, 0) || 0;
+  const totalValue = lines?.reduce((sum, line) => sum + line.value, 0) || 0;
+
+  return (
+    <div className="mb-6 bg-white rounded-lg shadow p-4">
+      <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-3 mb-4">
+        <div>
+          <h2 className="text-lg font-semibold">Stock On Hand As Of</h2>
+          <p className="text-xs text-gray-500">
+            Rebuilt from stock movements up to the end of the day and valued at cost with the costing method in Settings
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            className="border rounded p-1 text-sm"
+            value={asOfDate}
+            onChange={(e) => setAsOfDate(e.target.value)}
+          />
+          <button
+            onClick={loadStock}
+            disabled={loading || !asOfDate}
+            className="bg-blue-500 hover:bg-blue-600 text-white px-3 py-1.5 rounded text-sm flex items-center disabled:opacity-50"
+          >
+            <RefreshCw className={`h-4 w-4 mr-1.5 ${loading ? 'animate-spin' : ''}`} />
+            Load
+          </button>
+          <button
+            onClick={exportToCSV}
+            disabled={!lines || lines.length === 0}
+            className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-3 py-1.5 rounded text-sm flex items-center disabled:opacity-50"
+          >
+            <Download className="h-4 w-4 mr-1.5" />
+            CSV
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+
+      {lines && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+            <div className="bg-gray-50 p-3 rounded-lg">
+              <p className="text-sm text-gray-500">SKUs on Hand</p>
+              <p className="text-xl font-bold">{lines.filter(line => line.quantity > 0).length}</p>
+            </div>
+            <div className="bg-gray-50 p-3 rounded-lg">
+              <p className="text-sm text-gray-500">Units on Hand</p>
+              <p className="text-xl font-bold">{totalQuantity.toLocaleString()}</p>
+            </div>
+            <div className="bg-gray-50 p-3 rounded-lg">
+              <p className="text-sm text-gray-500">Value at Cost</p>
+              <p className="text-xl font-bold">{formatCurrency(totalValue)}</p>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto max-h-96">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">SKU</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Quantity</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Unit Cost</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Value</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {lines.map(line => (
+                  <tr key={line.sku}>
+                    <td className="px-6 py-2 whitespace-nowrap text-sm font-mono text-gray-900">{line.sku}</td>
+                    <td className="px-6 py-2 text-sm text-gray-700">{line.product_name || '-'}</td>
+                    <td className={`px-6 py-2 whitespace-nowrap text-sm text-right ${line.quantity < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                      {line.quantity}
+                    </td>
+                    <td className="px-6 py-2 whitespace-nowrap text-sm text-right text-gray-500">{formatCurrency(line.unit_cost)}</td>
+                    <td className="px-6 py-2 whitespace-nowrap text-sm text-right text-gray-900">{formatCurrency(line.value)}</td>
+                  </tr>
+                ))}
+                {lines.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-4 text-center text-sm text-gray-500">No stock on hand at this date</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default StockAsOfPanel;
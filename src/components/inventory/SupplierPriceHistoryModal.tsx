@@ -0,0 +1,131 @@
+import React, { useState, useEffect } from 'react';
+import { X, RefreshCw } from 'lucide-react';
+import { SupplierPriceHistory } from '../../types';
+import { getSupplierPriceHistory } from '../../db/operations/supplierPriceHistory';
+import { formatStoreDate } from '../../utils/dateUtils';
+
+interface SupplierPriceHistoryModalProps {
+  sku: string;
+  productName?: string;
+  onClose: () => void;
+  formatCurrency: (amount: number) => string;
+}
+
+const SupplierPriceHistoryModal: React.FC<SupplierPriceHistoryModalProps> = ({
+  sku,
+  productName,
+  onClose,
+  formatCurrency
+}) => {
+  const [history, setHistory] = useState<SupplierPriceHistory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [supplierFilter, setSupplierFilter] = useState<string>('all');
+
+  // Load the price history for this SKU
+  useEffect(() => {
+    const loadHistory = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        setHistory(await getSupplierPriceHistory(sku));
+      } catch (err) {
+        console.error('Error loading supplier price history:', err);
+        setError('Failed to load supplier price history');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadHistory();
+  }, [sku]);
+
+  const suppliers = Array.from(new Set(history.map(entry => entry.supplier_name)));
+
+  // Newest first for display
+  const filteredHistory = history
+    .filter(entry => supplierFilter === 'all' || entry.supplier_name === supplierFilter)
+    .slice()
+    .reverse();
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-lg w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-4 border-b">
+          <div>
+            <h2 className="text-xl font-semibold">Supplier Price History - {sku}</h2>
+            {productName && <p className="text-sm text-gray-500">{productName}</p>}
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-auto">
+          {suppliers.length > 1 && (
+            <div className="mb-4">
+              <select
+                className="p-2 border rounded text-sm"
+                value={supplierFilter}
+                onChange={(e) => setSupplierFilter(e.target.value)}
+              >
+                <option value="all">All Suppliers</option>
+                {suppliers.map(supplier => (
+                  <option key={supplier} value={supplier}>{supplier}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center p-8">
+              <RefreshCw className="animate-spin h-6 w-6 text-indigo-600" />
+            </div>
+          ) : error ? (
+            <p className="text-sm text-red-600">{error}</p>
+          ) : filteredHistory.length === 0 ? (
+            <p className="text-sm text-gray-500">No supplier price changes have been recorded for this SKU.</p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="text-left font-medium text-gray-500 px-4 py-2">Date</th>
+                  <th className="text-left font-medium text-gray-500 px-4 py-2">Supplier</th>
+                  <th className="text-left font-medium text-gray-500 px-4 py-2">Source</th>
+                  <th className="text-right font-medium text-gray-500 px-4 py-2">Previous</th>
+                  <th className="text-right font-medium text-gray-500 px-4 py-2">Price</th>
+                  <th className="text-right font-medium text-gray-500 px-4 py-2">Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredHistory.map((entry, index) => {
+                  const previousPrice = entry.previous_price ?? null;
+                  const changePercent = previousPrice
+                    ? ((entry.supplier_price - previousPrice) / previousPrice) * 100
+                    : null;
+
+                  return (
+                    <tr key={entry.id ?? index} className="border-t border-gray-200">
+                      <td className="px-4 py-2 text-gray-700">{formatStoreDate(new Date(entry.changed_at))}</td>
+                      <td className="px-4 py-2 text-gray-900">{entry.supplier_name}</td>
+                      <td className="px-4 py-2 text-gray-500">{entry.source === 'import' ? 'Import' : 'Manual'}</td>
+                      <td className="px-4 py-2 text-right text-gray-500">
+                        {previousPrice !== null ? formatCurrency(previousPrice) : '-'}
+                      </td>
+                      <td className="px-4 py-2 text-right text-gray-900 font-medium">{formatCurrency(entry.supplier_price)}</td>
+                      <td className={`px-4 py-2 text-right ${changePercent === null ? 'text-gray-400' : changePercent > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        {changePercent !== null ? `${changePercent > 0 ? '+' : ''}${changePercent.toFixed(1)}%` : '-'}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SupplierPriceHistoryModal;
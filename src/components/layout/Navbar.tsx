@@ -4,7 +4,7 @@ import {
   BarChart3, ShoppingCart, Package, Settings, DollarSign, 
   Receipt, FileBarChart, Boxes, Calendar, ShoppingBag, 
   Truck, PlusCircle, ChevronDown, ChevronRight, LogOut,
-  Menu, X, Home, Users, Clock, CheckSquare
+  Menu, X, Home, Users, Clock, CheckSquare, PackagePlus, ClipboardCheck
 } from 'lucide-react';
 import { useAuth } from '../../context/AuthContext';
 import { useNavbar } from '../../App';
@@ -35,6 +35,7 @@ const navigationItems = [
       { id: 'products', label: 'Products', path: '/products', icon: Package },
       { id: 'inventory-management', label: 'Inventory', path: '/inventory', icon: Boxes },
       { id: 'stock-reconciliation', label: 'Stock Reconciliation', path: '/stock-reconciliation', icon: Boxes },
+      { id: 'stocktake', label: 'Stocktake', path: '/stocktake', icon: ClipboardCheck },
       { id: 'expiry', label: 'Expiry Tracking', path: '/expiry', icon: Calendar },
     ]
   },
@@ -45,6 +46,7 @@ const navigationItems = [
     children: [
       { id: 'purchase-orders', label: 'Purchase Orders', path: '/purchase-orders', icon: ShoppingBag },
       { id: 'suppliers', label: 'Suppliers', path: '/suppliers', icon: Truck },
+      { id: 'reorder', label: 'Reorder', path: '/reorder', icon: PackagePlus },
     ]
   },
   {
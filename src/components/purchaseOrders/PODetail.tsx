@@ -1,9 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { format } from 'date-fns';
 import { ArrowLeft, Edit, Trash2, CheckCircle, Clock, AlertCircle, Printer, Download, Calendar, Tag, BarChart2 } from 'lucide-react';
-import { PurchaseOrder, PurchaseOrderItem } from '../../types';
+import { PurchaseOrder, PurchaseOrderItem, StockLocation } from '../../types';
 import { getPurchaseOrderWithItems, deletePurchaseOrder } from '../../db/operations/purchaseOrders';
 import { processPurchaseOrderStockMovements } from '../../db/operations/purchaseOrders/processPurchaseOrderStockMovements';
+import { getDefaultLocationId, getStockLocations } from '../../db/operations/stockLocations';
 
 interface PODetailProps {
   purchaseOrderId: number;
@@ -25,6 +26,22 @@ const PODetail: React.FC<PODetailProps> = ({
   const [activeTab, setActiveTab] = useState<'details' | 'items'>('details');
   const [processingStockMovements, setProcessingStockMovements] = useState(false);
   const [stockMovementSuccess, setStockMovementSuccess] = useState<string | null>(null);
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [receiveLocationId, setReceiveLocationId] = useState<number | null>(null);
+
+  useEffect(() => {
+    const loadLocations = async () => {
+      try {
+        const active = (await getStockLocations()).filter(location => location.active);
+        setLocations(active);
+        setReceiveLocationId(getDefaultLocationId(active) ?? null);
+      } catch (err) {
+        console.error('Error loading stock locations:', err);
+      }
+    };
+    
+    loadLocations();
+  }, []);
 
   useEffect(() => {
     const loadPurchaseOrder = async () => {
@@ -111,8 +128,9 @@ const PODetail: React.FC<PODetailProps> = ({
       }
       
       setProcessingStockMovements(true);
-      await processPurchaseOrderStockMovements(purchaseOrder, items);
-      setStockMovementSuccess(`Stock movements created for purchase order #${purchaseOrder.reference_number}`);
+      await processPurchaseOrderStockMovements(purchaseOrder, items, receiveLocationId);
+      const location = locations.find(l => l.id === receiveLocationId);
+      setStockMovementSuccess(`Stock movements created for purchase order #${purchaseOrder.reference_number}${location ? ` into ${location.name}` : ''}`);
       
       setTimeout(() => {
         setStockMovementSuccess(null);
@@ -201,6 +219,19 @@ const PODetail: React.FC<PODetailProps> = ({
             <Trash2 size={16} className="mr-1" /> Delete
           </button>
           
+          {locations.length > 1 && (
+            <select
+              value={receiveLocationId ?? ''}
+              onChange={(e) => setReceiveLocationId(Number(e.target.value))}
+              className="px-2 py-1 border border-gray-300 rounded text-sm"
+              title="Location to receive stock into"
+            >
+              {locations.map(location => (
+                <option key={location.id} value={location.id}>Receive into {location.name}</option>
+              ))}
+            </select>
+          )}
+          
           <button
             onClick={handleProcessStockMovements}
             disabled={processingStockMovements || purchaseOrder.status === 'ordered'}
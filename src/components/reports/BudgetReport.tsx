@@ -0,0 +1,147 @@
+import React from 'react';
+import {
+  BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend
+} from 'recharts';
+import { AlertTriangle } from 'lucide-react';
+import { BudgetStatus, BudgetVariance } from '../../types';
+import { formatCurrency, formatPercentage } from '../../services/reports/utils';
+
+interface BudgetReportProps {
+  data: BudgetVariance[];
+}
+
+const statusConfig: Record<BudgetStatus, { label: string; className: string }> = {
+  on_track: { label: 'On Track', className: 'bg-green-100 text-green-800' },
+  at_risk: { label: 'At Risk', className: 'bg-yellow-100 text-yellow-800' },
+  over_budget: { label: 'Over Budget', className: 'bg-red-100 text-red-800' },
+  under_target: { label: 'Under Target', className: 'bg-red-100 text-red-800' }
+};
+
+const BudgetTable: React.FC<{ title: string; rows: BudgetVariance[] }> = ({ title, rows }) => (
+  <div className="bg-white shadow rounded-lg p-6">
+    <h2 className="text-lg font-semibold mb-4">{title}</h2>
+    <div className="overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Budget</th>
+            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actual</th>
+            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Variance</th>
+            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Projected Month</th>
+            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Year to Date</th>
+            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Projected Year</th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {rows.map(row => (
+            <tr key={row.categoryName}>
+              <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                <span
+                  className="inline-block w-3 h-3 rounded-full mr-2"
+                  style={{ backgroundColor: row.color || '#64748b' }}
+                />
+                {row.categoryName}
+              </td>
+              <td className="px-4 py-3 text-sm text-right text-gray-700">{formatCurrency(row.budget)}</td>
+              <td className="px-4 py-3 text-sm text-right text-gray-700">{formatCurrency(row.actual)}</td>
+              <td className={`px-4 py-3 text-sm text-right ${row.variance < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                {formatCurrency(row.variance)} ({formatPercentage(row.variancePercent)})
+              </td>
+              <td className="px-4 py-3 text-sm text-right text-gray-700">
+                {formatCurrency(row.projectedMonth)} / {formatCurrency(row.monthlyBudget)}
+              </td>
+              <td className="px-4 py-3 text-sm text-right text-gray-700">{formatCurrency(row.yearToDate)}</td>
+              <td className="px-4 py-3 text-sm text-right text-gray-700">
+                {formatCurrency(row.projectedAnnual)} / {formatCurrency(row.annualBudget)}
+              </td>
+              <td className="px-4 py-3 text-sm">
+                <span className={`px-2 py-1 rounded-full text-xs font-medium ${statusConfig[row.status].className}`}>
+                  {statusConfig[row.status].label}
+                </span>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
+
+const BudgetReport: React.FC<BudgetReportProps> = ({ data }) => {
+  const expenses = data.filter(item => item.categoryType === 'expense');
+  const revenue = data.filter(item => item.categoryType === 'revenue');
+  const warnings = data.filter(item => item.status !== 'on_track');
+
+  const totalBudget = expenses.reduce((sum, item) => sum + item.budget, 0);
+  const totalActual = expenses.reduce((sum, item) => sum + item.actual, 0);
+
+  if (data.length === 0) {
+    return (
+      <div className="bg-white shadow rounded-lg p-6">
+        <h2 className="text-lg font-semibold">Budget vs Actual</h2>
+        <p className="text-sm text-gray-500 mt-2">
+          No budgets have been set. Add a monthly or annual budget to expense or additional revenue categories to track them here.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="bg-white shadow rounded-lg p-6">
+        <h2 className="text-lg font-semibold">Budget vs Actual</h2>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+          <div className="bg-gray-50 p-4 rounded-lg">
+            <p className="text-sm text-gray-500">Expense Budget</p>
+            <p className="text-2xl font-bold">{formatCurrency(totalBudget)}</p>
+          </div>
+          <div className="bg-gray-50 p-4 rounded-lg">
+            <p className="text-sm text-gray-500">Actual Expenses</p>
+            <p className="text-2xl font-bold">{formatCurrency(totalActual)}</p>
+          </div>
+          <div className="bg-gray-50 p-4 rounded-lg">
+            <p className="text-sm text-gray-500">Remaining</p>
+            <p className={`text-2xl font-bold ${totalBudget - totalActual < 0 ? 'text-red-600' : 'text-green-600'}`}>
+              {formatCurrency(totalBudget - totalActual)}
+            </p>
+          </div>
+        </div>
+
+        {warnings.length > 0 && (
+          <div className="mt-4 space-y-2">
+            {warnings.map(item => (
+              <div key={`${item.categoryType}-${item.categoryName}`} className="flex items-center text-sm text-yellow-800 bg-yellow-50 rounded p-2">
+                <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+                {item.categoryName}: {statusConfig[item.status].label.toLowerCase()}, projected {formatCurrency(item.projectedMonth)} this month against a budget of {formatCurrency(item.monthlyBudget)}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {expenses.length > 0 && (
+          <div className="h-80 mt-6">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={expenses}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="categoryName" />
+                <YAxis />
+                <Tooltip formatter={(value: number) => formatCurrency(value)} />
+                <Legend />
+                <Bar dataKey="budget" name="Budget" fill="#a5b4fc" />
+                <Bar dataKey="actual" name="Actual" fill="#4f46e5" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </div>
+
+      {expenses.length > 0 && <BudgetTable title="Expense Budgets" rows={expenses} />}
+      {revenue.length > 0 && <BudgetTable title="Additional Revenue Targets" rows={revenue} />}
+    </>
+  );
+};
+
+export default BudgetReport;
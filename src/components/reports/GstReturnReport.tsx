@@ -0,0 +1,72 @@
+import React from 'react';
+import { GstReturnSummary } from '../../types';
+import { formatCurrency } from '../../services/reports/utils';
+
+interface GstReturnReportProps {
+  data: GstReturnSummary;
+}
+
+const GstReturnReport: React.FC<GstReturnReportProps> = ({ data }) => {
+  const isRefund = data.netGst < 0;
+
+  const rows = [
+    { label: 'Total sales and income (incl. GST)', value: data.totalSales },
+    { label: 'GST collected on sales', value: data.salesOutputTax },
+    { label: 'GST collected on additional revenue', value: data.additionalRevenueOutputTax },
+    { label: 'Total output tax', value: data.outputTax, bold: true },
+    { label: 'GST-claimable expenses', value: data.totalDeductibleExpenses },
+    { label: 'GST on expenses', value: data.expenseInputTax },
+    { label: 'Purchase orders received', value: data.totalPurchases },
+    { label: 'GST on purchase orders', value: data.purchaseInputTax },
+    { label: 'Total input tax', value: data.inputTax, bold: true }
+  ];
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-semibold">GST Return</h2>
+        <span className="text-sm text-gray-500">
+          {data.periodStart} - {data.periodEnd} (GST {data.gstRate}%)
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+        <div className="bg-gray-50 p-4 rounded-lg">
+          <p className="text-sm text-gray-500">Output Tax</p>
+          <p className="text-2xl font-bold">{formatCurrency(data.outputTax)}</p>
+        </div>
+        <div className="bg-gray-50 p-4 rounded-lg">
+          <p className="text-sm text-gray-500">Input Tax</p>
+          <p className="text-2xl font-bold">{formatCurrency(data.inputTax)}</p>
+        </div>
+        <div className="bg-gray-50 p-4 rounded-lg">
+          <p className="text-sm text-gray-500">{isRefund ? 'GST Refund Due' : 'GST to Pay'}</p>
+          <p className={`text-2xl font-bold ${isRefund ? 'text-green-600' : 'text-red-600'}`}>
+            {formatCurrency(Math.abs(data.netGst))}
+          </p>
+        </div>
+      </div>
+
+      <table className="min-w-full divide-y divide-gray-200 mt-6">
+        <tbody className="bg-white divide-y divide-gray-200">
+          {rows.map(row => (
+            <tr key={row.label}>
+              <td className={`px-6 py-3 text-sm ${row.bold ? 'font-semibold text-gray-900' : 'text-gray-700'}`}>
+                {row.label}
+              </td>
+              <td className={`px-6 py-3 text-sm text-right ${row.bold ? 'font-semibold text-gray-900' : 'text-gray-700'}`}>
+                {formatCurrency(row.value)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <p className="text-xs text-gray-500 mt-4">
+        Sales GST is taken from WooCommerce order tax less refunds. Expense GST is claimed on expenses marked tax deductible, and purchase order GST once the order is received.
+      </p>
+    </div>
+  );
+};
+
+export default GstReturnReport;
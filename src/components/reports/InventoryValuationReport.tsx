@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { InventoryValuationReport as InventoryValuationData } from '../../types';
+import { formatCurrency } from '../../services/reports/utils';
+
+interface InventoryValuationReportProps {
+  data: InventoryValuationData;
+}
+
+const COSTING_METHOD_LABELS: Record<InventoryValuationData['costingMethod'], string> = {
+  fifo: 'FIFO',
+  weighted_average: 'weighted average'
+};
+
+const InventoryValuationReport: React.FC<InventoryValuationReportProps> = ({ data }) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const { totals } = data;
+
+  const rows = [
+    { label: 'Opening stock', quantity: totals.opening_quantity, value: totals.opening_value, bold: true },
+    { label: 'Add purchases', quantity: totals.purchases_quantity, value: totals.purchases_value },
+    { label: 'Less cost of goods sold', quantity: -totals.cogs_quantity, value: -totals.cogs_value },
+    { label: 'Adjustments and write-offs', quantity: totals.adjustments_quantity, value: totals.adjustments_value },
+    { label: 'Closing stock', quantity: totals.closing_quantity, value: totals.closing_value, bold: true }
+  ];
+
+  const term = searchTerm.trim().toLowerCase();
+  const lines = data.lines.filter(line =>
+    !term || line.sku.toLowerCase().includes(term) || (line.product_name || '').toLowerCase().includes(term)
+  );
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-semibold">Inventory Valuation</h2>
+        <span className="text-sm text-gray-500">
+          {data.periodStart} - {data.periodEnd} ({COSTING_METHOD_LABELS[data.costingMethod]})
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+        <div className="bg-gray-50 p-4 rounded-lg">
+          <p className="text-sm text-gray-500">Opening Stock</p>
+          <p className="text-2xl font-bold">{formatCurrency(totals.opening_value)}</p>
+        </div>
+        <div className="bg-gray-50 p-4 rounded-lg">
+          <p className="text-sm text-gray-500">Cost of Goods Sold</p>
+          <p className="text-2xl font-bold">{formatCurrency(totals.cogs_value)}</p>
+        </div>
+        <div className="bg-gray-50 p-4 rounded-lg">
+          <p className="text-sm text-gray-500">Closing Stock</p>
+          <p className="text-2xl font-bold">{formatCurrency(totals.closing_value)}</p>
+        </div>
+      </div>
+
+      <table className="min-w-full divide-y divide-gray-200 mt-6">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"></th>
+            <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Units</th>
+            <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Value at Cost</th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {rows.map(row => (
+            <tr key={row.label}>
+              <td className={`px-6 py-3 text-sm ${row.bold ? 'font-semibold text-gray-900' : 'text-gray-700'}`}>
+                {row.label}
+              </td>
+              <td className={`px-6 py-3 text-sm text-right ${row.bold ? 'font-semibold text-gray-900' : 'text-gray-700'}`}>
+                {row.quantity.toLocaleString()}
+              </td>
+              <td className={`px-6 py-3 text-sm text-right ${row.bold ? 'font-semibold text-gray-900' : 'text-gray-700'}`}>
+                {formatCurrency(row.value)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="flex justify-between items-center mt-8 mb-2">
+        <h3 className="text-md font-semibold">By SKU</h3>
+        <input
+          type="text"
+          className="p-2 border rounded text-sm"
+          placeholder="Filter SKUs"
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+        />
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">SKU</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Opening</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Purchases</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">COGS</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Adjustments</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Closing Units</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Closing Value</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {lines.map(line => (
+              <tr key={line.sku}>
+                <td className="px-4 py-2 whitespace-nowrap text-sm font-mono text-gray-900">{line.sku}</td>
+                <td className="px-4 py-2 text-sm text-gray-700">{line.product_name || '-'}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-right text-gray-700">{formatCurrency(line.opening_value)}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-right text-gray-700">{formatCurrency(line.purchases_value)}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-right text-gray-700">{formatCurrency(line.cogs_value)}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-right text-gray-700">{formatCurrency(line.adjustments_value)}</td>
+                <td className={`px-4 py-2 whitespace-nowrap text-sm text-right ${line.closing_quantity < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                  {line.closing_quantity}
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-right font-medium text-gray-900">{formatCurrency(line.closing_value)}</td>
+              </tr>
+            ))}
+            {lines.length === 0 && (
+              <tr>
+                <td colSpan={8} className="px-4 py-6 text-center text-sm text-gray-500">No stock movements for this period</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-xs text-gray-500 mt-4">
+        Built from the stock movement ledger. Purchases are costed from their purchase orders and stock is valued with the
+        costing method set in Settings. SKUs with negative stock are valued at nothing and shown in red.
+      </p>
+    </div>
+  );
+};
+
+export default InventoryValuationReport;
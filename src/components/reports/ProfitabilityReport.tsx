@@ -42,6 +42,11 @@ const ProfitabilityReport: React.FC<ProfitabilityReportProps> = ({ data }) => {
     return sum + (isNaN(expenses) ? 0 : expenses);
   }, 0);
   
+  const totalWriteOffs = data.reduce((sum, item) => {
+    const writeOffs = item.writeOffs || 0;
+    return sum + (isNaN(writeOffs) ? 0 : writeOffs);
+  }, 0);
+  
   const totalGrossProfit = data.reduce((sum, item) => {
     const grossProfit = item.grossProfit || 0;
     return sum + (isNaN(grossProfit) ? 0 : grossProfit);
@@ -92,7 +97,7 @@ const ProfitabilityReport: React.FC<ProfitabilityReportProps> = ({ data }) => {
               </div>
             </div>
             
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
               <div className="bg-gray-50 p-4 rounded-lg border border-gray-200">
                 <p className="text-sm text-gray-700 font-medium">Total Cost of Goods</p>
                 <p className="text-2xl font-bold text-gray-800">
@@ -105,6 +110,12 @@ const ProfitabilityReport: React.FC<ProfitabilityReportProps> = ({ data }) => {
                   {formatCurrency(totalExpenses)}
                 </p>
               </div>
+              <div className="bg-gray-50 p-4 rounded-lg border border-gray-200">
+                <p className="text-sm text-gray-700 font-medium">Stock Write-offs</p>
+                <p className="text-2xl font-bold text-gray-800">
+                  {formatCurrency(totalWriteOffs)}
+                </p>
+              </div>
             </div>
           </>
         )}
@@ -138,6 +149,7 @@ const ProfitabilityReport: React.FC<ProfitabilityReportProps> = ({ data }) => {
                 <Bar dataKey="revenue" name="Revenue" fill="#3b82f6" />
                 <Bar dataKey="cost" name="Cost" stackId="a" fill="#64748b" />
                 <Bar dataKey="expenses" name="Expenses" stackId="a" fill="#94a3b8" />
+                <Bar dataKey="writeOffs" name="Write-offs" stackId="a" fill="#f59e0b" />
                 <Line type="monotone" dataKey="netProfit" name="Net Profit" stroke="#0d9488" strokeWidth={2} />
               </ComposedChart>
             </ResponsiveContainer>
@@ -213,6 +225,9 @@ const ProfitabilityReport: React.FC<ProfitabilityReportProps> = ({ data }) => {
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-600 uppercase tracking-wider">
                     Expenses
                   </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-600 uppercase tracking-wider">
+                    Write-offs
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-600 uppercase tracking-wider">
                     Net Profit
                   </th>
@@ -242,6 +257,9 @@ const ProfitabilityReport: React.FC<ProfitabilityReportProps> = ({ data }) => {
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 font-medium">
                       {formatCurrency(item.expenses)}
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 font-medium">
+                      {formatCurrency(item.writeOffs || 0)}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                       <span className={item.netProfit >= 0 ? 'text-teal-600' : 'text-red-600'}>
                         {formatCurrency(item.netProfit)}
@@ -279,6 +297,9 @@ const ProfitabilityReport: React.FC<ProfitabilityReportProps> = ({ data }) => {
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-bold text-gray-800">
                     {formatCurrency(totalExpenses)}
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-bold text-gray-800">
+                    {formatCurrency(totalWriteOffs)}
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-bold">
                     <span className={totalNetProfit >= 0 ? 'text-teal-700' : 'text-red-700'}>
                       {formatCurrency(totalNetProfit)}
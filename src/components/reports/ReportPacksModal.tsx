@@ -0,0 +1,397 @@
+import React, { useState, useEffect } from 'react';
+import { X, RefreshCw, Play, Trash2, Download, Plus } from 'lucide-react';
+import { DateRange, ReportPackFile, ReportPackFormat, ReportPackPeriod, ReportPackRun, ReportPackSchedule } from '../../types';
+import {
+  getReportPackSchedules,
+  addReportPackSchedule,
+  updateReportPackSchedule,
+  deleteReportPackSchedule,
+  runReportPackSchedule,
+  generateReportPack,
+  getReportPackRuns,
+  getReportPackFileUrl,
+  deleteReportPackRun
+} from '../../db/operations/reportPacks';
+import { describeReportPackSchedule, REPORT_PACK_PERIOD_LABELS } from '../../services/reports/reportPack';
+import { formatStoreDate, formatStoreDateOnly } from '../../utils/dateUtils';
+
+interface ReportPacksModalProps {
+  dateRange: DateRange;
+  onClose: () => void;
+}
+
+type ScheduleForm = Omit<ReportPackSchedule, 'id' | 'last_run_at' | 'next_run_at' | 'created_at' | 'updated_at'>;
+
+const DEFAULT_SCHEDULE: ScheduleForm = {
+  name: 'Monthly P&L Pack',
+  frequency: 'monthly',
+  run_day: 1,
+  period: 'last_month',
+  formats: ['pdf', 'xlsx'],
+  active: true
+};
+
+const WEEKDAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+const formatFileSize = (bytes: number) => {
+  return bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+};
+
+const ReportPacksModal: React.FC<ReportPacksModalProps> = ({ dateRange, onClose }) => {
+  const [schedules, setSchedules] = useState<ReportPackSchedule[]>([]);
+  const [runs, setRuns] = useState<ReportPackRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<ScheduleForm>(DEFAULT_SCHEDULE);
+
+  // Load schedules and generated packs
+  const loadPacks = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [scheduleData, runData] = await Promise.all([getReportPackSchedules(), getReportPackRuns()]);
+      setSchedules(scheduleData);
+      setRuns(runData);
+    } catch (err) {
+      console.error('Error loading report packs:', err);
+      setError('Failed to load report packs');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadPacks();
+  }, []);
+
+  // Run an action that changes packs, then reload
+  const withReload = async (action: () => Promise<unknown>, failure: string) => {
+    setWorking(true);
+    setError(null);
+    try {
+      await action();
+      await loadPacks();
+    } catch (err) {
+      console.error(failure, err);
+      setError(failure);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleSaveSchedule = () => {
+    if (!form.name.trim() || form.formats.length === 0) {
+      setError('Give the schedule a name and at least one format');
+      return;
+    }
+
+    withReload(async () => {
+      await addReportPackSchedule({ ...form, name: form.name.trim() });
+      setShowForm(false);
+      setForm(DEFAULT_SCHEDULE);
+    }, 'Failed to save report pack schedule');
+  };
+
+  const handleGenerateForRange = () => {
+    const name = `P&L Pack ${formatStoreDateOnly(dateRange.startDate)} - ${formatStoreDateOnly(dateRange.endDate)}`;
+    withReload(() => generateReportPack(name, dateRange, ['pdf', 'xlsx']), 'Failed to generate report pack');
+  };
+
+  const handleDownload = async (file: ReportPackFile) => {
+    try {
+      window.open(await getReportPackFileUrl(file), '_blank');
+    } catch (err) {
+      console.error('Error downloading report pack file:', err);
+      setError('Failed to download report pack file');
+    }
+  };
+
+  const toggleFormat = (format: ReportPackFormat) => {
+    setForm(prev => ({
+      ...prev,
+      formats: prev.formats.includes(format)
+        ? prev.formats.filter(f => f !== format)
+        : [...prev.formats, format]
+    }));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-lg w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-4 border-b">
+          <div>
+            <h2 className="text-xl font-semibold">Report Packs</h2>
+            <p className="text-sm text-gray-500">
+              Sales, products, expenses, additional revenue and profitability in one PDF and XLSX workbook
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-auto space-y-6">
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {loading ? (
+            <div className="flex items-center justify-center p-8">
+              <RefreshCw className="animate-spin h-6 w-6 text-indigo-600" />
+            </div>
+          ) : (
+            <>
+              <div>
+                <div className="flex justify-between items-center mb-2">
+                  <h3 className="text-lg font-medium">Schedules</h3>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={handleGenerateForRange}
+                      disabled={working}
+                      className="flex items-center px-3 py-1.5 bg-green-600 text-white rounded hover:bg-green-700 text-sm disabled:opacity-50"
+                    >
+                      <Download className="h-4 w-4 mr-1" />
+                      Generate for Selected Range
+                    </button>
+                    <button
+                      onClick={() => setShowForm(!showForm)}
+                      className="flex items-center px-3 py-1.5 bg-indigo-600 text-white rounded hover:bg-indigo-700 text-sm"
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      New Schedule
+                    </button>
+                  </div>
+                </div>
+
+                {showForm && (
+                  <div className="bg-gray-50 rounded-lg p-4 mb-4 grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                    <label className="flex flex-col">
+                      <span className="text-gray-700 mb-1">Name</span>
+                      <input
+                        className="p-2 border rounded"
+                        value={form.name}
+                        onChange={(e) => setForm({ ...form, name: e.target.value })}
+                      />
+                    </label>
+                    <label className="flex flex-col">
+                      <span className="text-gray-700 mb-1">Frequency</span>
+                      <select
+                        className="p-2 border rounded"
+                        value={form.frequency}
+                        onChange={(e) => setForm({
+                          ...form,
+                          frequency: e.target.value as ScheduleForm['frequency'],
+                          run_day: 1
+                        })}
+                      >
+                        <option value="weekly">Weekly</option>
+                        <option value="monthly">Monthly</option>
+                        <option value="quarterly">Quarterly</option>
+                        <option value="yearly">Yearly (January)</option>
+                      </select>
+                    </label>
+                    <label className="flex flex-col">
+                      <span className="text-gray-700 mb-1">Run On</span>
+                      {form.frequency === 'weekly' ? (
+                        <select
+                          className="p-2 border rounded"
+                          value={form.run_day}
+                          onChange={(e) => setForm({ ...form, run_day: parseInt(e.target.value) })}
+                        >
+                          {WEEKDAYS.map((day, index) => (
+                            <option key={day} value={index + 1}>{day}</option>
+                          ))}
+                        </select>
+                      ) : (
+                        <input
+                          type="number"
+                          min="1"
+                          max="31"
+                          className="p-2 border rounded"
+                          value={form.run_day}
+                          onChange={(e) => setForm({ ...form, run_day: Math.min(31, Math.max(1, parseInt(e.target.value) || 1)) })}
+                        />
+                      )}
+                    </label>
+                    <label className="flex flex-col">
+                      <span className="text-gray-700 mb-1">Report Period</span>
+                      <select
+                        className="p-2 border rounded"
+                        value={form.period}
+                        onChange={(e) => setForm({ ...form, period: e.target.value as ReportPackPeriod })}
+                      >
+                        {(Object.entries(REPORT_PACK_PERIOD_LABELS) as [ReportPackPeriod, string][]).map(([period, label]) => (
+                          <option key={period} value={period}>{label.charAt(0).toUpperCase() + label.slice(1)}</option>
+                        ))}
+                      </select>
+                    </label>
+                    <div className="flex items-center gap-4">
+                      {(['pdf', 'xlsx'] as ReportPackFormat[]).map(format => (
+                        <label key={format} className="flex items-center gap-2">
+                          <input
+                            type="checkbox"
+                            className="h-4 w-4 text-indigo-600 border-gray-300 rounded"
+                            checked={form.formats.includes(format)}
+                            onChange={() => toggleFormat(format)}
+                          />
+                          {format.toUpperCase()}
+                        </label>
+                      ))}
+                    </div>
+                    <div className="flex justify-end gap-2 md:col-span-2">
+                      <button
+                        onClick={() => setShowForm(false)}
+                        className="px-3 py-1.5 border rounded text-gray-700 hover:bg-gray-100"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={handleSaveSchedule}
+                        disabled={working}
+                        className="px-3 py-1.5 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50"
+                      >
+                        Save Schedule
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {schedules.length === 0 ? (
+                  <p className="text-sm text-gray-500">No report pack schedules yet.</p>
+                ) : (
+                  <table className="min-w-full text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="text-left font-medium text-gray-500 px-4 py-2">Name</th>
+                        <th className="text-left font-medium text-gray-500 px-4 py-2">Schedule</th>
+                        <th className="text-left font-medium text-gray-500 px-4 py-2">Next Run</th>
+                        <th className="text-left font-medium text-gray-500 px-4 py-2">Active</th>
+                        <th className="text-right font-medium text-gray-500 px-4 py-2">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {schedules.map(schedule => (
+                        <tr key={schedule.id} className="border-t border-gray-200">
+                          <td className="px-4 py-2 text-gray-900">{schedule.name}</td>
+                          <td className="px-4 py-2 text-gray-700">
+                            {describeReportPackSchedule(schedule)} ({schedule.formats.map(f => f.toUpperCase()).join(', ')})
+                          </td>
+                          <td className="px-4 py-2 text-gray-700">
+                            {schedule.active && schedule.next_run_at ? formatStoreDate(new Date(schedule.next_run_at)) : '-'}
+                          </td>
+                          <td className="px-4 py-2">
+                            <input
+                              type="checkbox"
+                              className="h-4 w-4 text-indigo-600 border-gray-300 rounded"
+                              checked={schedule.active}
+                              disabled={working}
+                              onChange={(e) => withReload(
+                                () => updateReportPackSchedule(schedule.id!, { active: e.target.checked }),
+                                'Failed to update report pack schedule'
+                              )}
+                            />
+                          </td>
+                          <td className="px-4 py-2 text-right space-x-2">
+                            <button
+                              title="Run now"
+                              disabled={working}
+                              onClick={() => withReload(
+                                () => runReportPackSchedule(schedule),
+                                `Failed to run ${schedule.name}`
+                              )}
+                              className="text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+                            >
+                              <Play className="h-4 w-4" />
+                            </button>
+                            <button
+                              title="Delete schedule"
+                              disabled={working}
+                              onClick={() => {
+                                if (window.confirm(`Delete the ${schedule.name} schedule? Generated packs are kept.`)) {
+                                  withReload(() => deleteReportPackSchedule(schedule.id!), 'Failed to delete report pack schedule');
+                                }
+                              }}
+                              className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+
+              <div>
+                <h3 className="text-lg font-medium mb-2">History</h3>
+                {working && (
+                  <p className="text-sm text-gray-500 mb-2 flex items-center">
+                    <RefreshCw className="animate-spin h-4 w-4 mr-2" />
+                    Working on report packs...
+                  </p>
+                )}
+                {runs.length === 0 ? (
+                  <p className="text-sm text-gray-500">No report packs have been generated yet.</p>
+                ) : (
+                  <table className="min-w-full text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="text-left font-medium text-gray-500 px-4 py-2">Generated</th>
+                        <th className="text-left font-medium text-gray-500 px-4 py-2">Name</th>
+                        <th className="text-left font-medium text-gray-500 px-4 py-2">Period</th>
+                        <th className="text-left font-medium text-gray-500 px-4 py-2">Files</th>
+                        <th className="text-right font-medium text-gray-500 px-4 py-2"></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {runs.map(run => (
+                        <tr key={run.id} className="border-t border-gray-200">
+                          <td className="px-4 py-2 text-gray-700">{formatStoreDate(new Date(run.generated_at))}</td>
+                          <td className="px-4 py-2 text-gray-900">{run.name}</td>
+                          <td className="px-4 py-2 text-gray-700">
+                            {formatStoreDateOnly(new Date(run.period_start))} - {formatStoreDateOnly(new Date(run.period_end))}
+                          </td>
+                          <td className="px-4 py-2 space-x-3">
+                            {run.files.map(file => (
+                              <button
+                                key={file.path}
+                                onClick={() => handleDownload(file)}
+                                className="inline-flex items-center text-indigo-600 hover:text-indigo-800"
+                              >
+                                <Download className="h-4 w-4 mr-1" />
+                                {file.format.toUpperCase()} ({formatFileSize(file.size)})
+                              </button>
+                            ))}
+                          </td>
+                          <td className="px-4 py-2 text-right">
+                            <button
+                              title="Delete pack"
+                              disabled={working}
+                              onClick={() => {
+                                if (window.confirm('Delete this report pack and its files?')) {
+                                  withReload(() => deleteReportPackRun(run), 'Failed to delete report pack');
+                                }
+                              }}
+                              className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReportPacksModal;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { CostingMethod } from '../../services/pnl/costLedger';
+
+interface CostingSettingsSectionProps {
+  costingMethod: CostingMethod;
+  onCostingMethodChange: (value: CostingMethod) => void;
+}
+
+const CostingSettingsSection: React.FC<CostingSettingsSectionProps> = ({
+  costingMethod,
+  onCostingMethodChange
+}) => {
+  return (
+    <div className="bg-white shadow rounded-lg p-6 mb-8">
+      <h2 className="text-lg font-semibold mb-4">Cost of Goods Sold</h2>
+
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-sm font-medium text-gray-700">Costing Method</h3>
+            <p className="text-xs text-gray-500 mt-1">
+              Sales are costed from purchase order prices at the time of sale. Products with no purchase history use the current supplier or cost price.
+            </p>
+          </div>
+          <select
+            className="p-2 border rounded text-sm"
+            value={costingMethod}
+            onChange={(e) => onCostingMethodChange(e.target.value as CostingMethod)}
+          >
+            <option value="fifo">FIFO (First In, First Out)</option>
+            <option value="weighted_average">Weighted Average</option>
+          </select>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CostingSettingsSection;
@@ -0,0 +1,99 @@
+import React, { useState, useEffect } from 'react';
+import { ExpiryAlertSettings } from '../../types';
+
+interface ExpiryAlertSettingsSectionProps {
+  expiryAlertSettings: ExpiryAlertSettings;
+  onExpiryAlertSettingsChange: (value: ExpiryAlertSettings) => void;
+}
+
+const ExpiryAlertSettingsSection: React.FC<ExpiryAlertSettingsSectionProps> = ({
+  expiryAlertSettings,
+  onExpiryAlertSettingsChange
+}) => {
+  // Horizons are edited as text and parsed when the field loses focus
+  const [horizonsText, setHorizonsText] = useState(expiryAlertSettings.horizons.join(', '));
+
+  useEffect(() => {
+    setHorizonsText(expiryAlertSettings.horizons.join(', '));
+  }, [expiryAlertSettings.horizons]);
+
+  const handleHorizonsBlur = () => {
+    const horizons = Array.from(new Set(
+      horizonsText
+        .split(',')
+        .map(value => parseInt(value.trim()))
+        .filter(days => days > 0)
+    )).sort((a, b) => a - b);
+
+    if (horizons.length === 0) {
+      setHorizonsText(expiryAlertSettings.horizons.join(', '));
+      return;
+    }
+    onExpiryAlertSettingsChange({ ...expiryAlertSettings, horizons });
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6 mb-8">
+      <h2 className="text-lg font-semibold mb-4">Expiry Alerts</h2>
+
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-sm font-medium text-gray-700">Alert Horizons (days)</h3>
+            <p className="text-xs text-gray-500 mt-1">
+              Comma separated, e.g. 30, 60, 90. The dashboard totals batches expiring within each horizon.
+            </p>
+          </div>
+          <input
+            type="text"
+            className="w-32 p-2 border rounded text-sm text-right"
+            value={horizonsText}
+            onChange={(e) => setHorizonsText(e.target.value)}
+            onBlur={handleHorizonsBlur}
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-sm font-medium text-gray-700">Sales Lookback (days)</h3>
+            <p className="text-xs text-gray-500 mt-1">
+              Days of sales used to work out whether a batch will sell through before it expires.
+            </p>
+          </div>
+          <input
+            type="number"
+            min="1"
+            className="w-24 p-2 border rounded text-sm text-right"
+            value={expiryAlertSettings.lookback_days}
+            onChange={(e) => onExpiryAlertSettingsChange({
+              ...expiryAlertSettings,
+              lookback_days: Math.max(parseInt(e.target.value) || 1, 1)
+            })}
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-sm font-medium text-gray-700">Maximum Markdown (%)</h3>
+            <p className="text-xs text-gray-500 mt-1">
+              Largest discount suggested for batches that will not sell through at the current price.
+            </p>
+          </div>
+          <input
+            type="number"
+            min="0"
+            max="100"
+            className="w-24 p-2 border rounded text-sm text-right"
+            value={expiryAlertSettings.max_markdown_percent}
+            onChange={(e) => onExpiryAlertSettingsChange({
+              ...expiryAlertSettings,
+              max_markdown_percent: Math.min(Math.max(parseInt(e.target.value) || 0, 0), 100)
+            })}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExpiryAlertSettingsSection;
@@ -0,0 +1,281 @@
+import React from 'react';
+import { ArrowDown, ArrowUp, Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { RFMDimension, RFMScoringMethod, RFMSegmentRule, RFMSettings } from '../../types';
+import { DEFAULT_RFM_SETTINGS, RFM_DIMENSIONS } from '../../services/customer/rfmSettings';
+
+interface RFMSettingsSectionProps {
+  rfmSettings: RFMSettings;
+  onRFMSettingsChange: (value: RFMSettings) => void;
+}
+
+const dimensionLabels: Record<RFMDimension, { label: string; unit: string; help: string }> = {
+  recency: {
+    label: 'Recency',
+    unit: 'days',
+    help: 'Days since the last order. Up to the first breakpoint scores 5, beyond the last scores 1.'
+  },
+  frequency: {
+    label: 'Frequency',
+    unit: 'orders',
+    help: 'Orders placed. Below the first breakpoint scores 1, the last breakpoint or more scores 5.'
+  },
+  monetary: {
+    label: 'Monetary',
+    unit: 'spent',
+    help: 'Total spent. Below the first breakpoint scores 1, the last breakpoint or more scores 5.'
+  }
+};
+
+const RFMSettingsSection: React.FC<RFMSettingsSectionProps> = ({
+  rfmSettings,
+  onRFMSettingsChange
+}) => {
+  const handleMethodChange = (dimension: RFMDimension, method: RFMScoringMethod) => {
+    onRFMSettingsChange({
+      ...rfmSettings,
+      [dimension]: { ...rfmSettings[dimension], method }
+    });
+  };
+
+  const handleBreakpointChange = (dimension: RFMDimension, index: number, value: string) => {
+    const breakpoints = [...rfmSettings[dimension].breakpoints];
+    breakpoints[index] = Math.max(parseFloat(value) || 0, 0);
+    onRFMSettingsChange({
+      ...rfmSettings,
+      [dimension]: { ...rfmSettings[dimension], breakpoints }
+    });
+  };
+
+  const handleSegmentChange = (index: number, changes: Partial<RFMSegmentRule>) => {
+    onRFMSettingsChange({
+      ...rfmSettings,
+      segments: rfmSettings.segments.map((segment, i) => (i === index ? { ...segment, ...changes } : segment))
+    });
+  };
+
+  const handleRangeChange = (index: number, dimension: RFMDimension, bound: 0 | 1, value: string) => {
+    const range: [number, number] = [...rfmSettings.segments[index][dimension]];
+    range[bound] = Math.min(Math.max(parseInt(value) || 1, 1), 5);
+    handleSegmentChange(index, { [dimension]: range });
+  };
+
+  // Rules are checked in order, so moving a segment up gives it priority
+  const handleMoveSegment = (index: number, offset: number) => {
+    const segments = [...rfmSettings.segments];
+    const [segment] = segments.splice(index, 1);
+    segments.splice(index + offset, 0, segment);
+    onRFMSettingsChange({ ...rfmSettings, segments });
+  };
+
+  const handleRemoveSegment = (index: number) => {
+    onRFMSettingsChange({
+      ...rfmSettings,
+      segments: rfmSettings.segments.filter((_, i) => i !== index)
+    });
+  };
+
+  const handleAddSegment = () => {
+    onRFMSettingsChange({
+      ...rfmSettings,
+      segments: [...rfmSettings.segments, {
+        name: '',
+        color: '#64748b',
+        description: '',
+        recency: [1, 5],
+        frequency: [1, 5],
+        monetary: [1, 5]
+      }]
+    });
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6 mb-8">
+      <h2 className="text-lg font-semibold mb-4">RFM Analysis</h2>
+
+      <p className="text-sm text-gray-500 mb-4">
+        How customers are scored from 1 to 5 on recency, frequency and monetary value, and the segments those
+        scores map to. Changes apply from the next RFM calculation, which runs with each customer sync.
+        Earlier calculations are kept so segment changes can be compared over time.
+      </p>
+
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-sm font-medium text-gray-700">Analysis Window (days)</h3>
+            <p className="text-xs text-gray-500 mt-1">
+              Only orders in this many days before the calculation are scored. Use 0 to score all order history.
+            </p>
+          </div>
+          <input
+            type="number"
+            min="0"
+            className="w-24 p-2 border rounded text-sm text-right"
+            value={rfmSettings.analysis_window_days}
+            onChange={(e) => onRFMSettingsChange({
+              ...rfmSettings,
+              analysis_window_days: Math.max(parseInt(e.target.value) || 0, 0)
+            })}
+          />
+        </div>
+
+        {RFM_DIMENSIONS.map(dimension => (
+          <div key={dimension} className="flex flex-wrap items-center justify-between gap-2">
+            <div>
+              <h3 className="text-sm font-medium text-gray-700">{dimensionLabels[dimension].label} Scoring</h3>
+              <p className="text-xs text-gray-500 mt-1">
+                {rfmSettings[dimension].method === 'custom'
+                  ? dimensionLabels[dimension].help
+                  : 'Customers are split into fifths by value, the top fifth scores 5 and equal values share a score.'}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <select
+                className="p-2 border rounded text-sm"
+                value={rfmSettings[dimension].method}
+                onChange={(e) => handleMethodChange(dimension, e.target.value as RFMScoringMethod)}
+              >
+                <option value="quintile">Quintiles</option>
+                <option value="custom">Custom breakpoints</option>
+              </select>
+              {rfmSettings[dimension].method === 'custom' && rfmSettings[dimension].breakpoints.map((breakpoint, index) => (
+                <input
+                  key={index}
+                  type="number"
+                  min="0"
+                  className="w-20 p-2 border rounded text-sm text-right"
+                  title={`Breakpoint ${index + 1} (${dimensionLabels[dimension].unit})`}
+                  value={breakpoint}
+                  onChange={(e) => handleBreakpointChange(dimension, index, e.target.value)}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-between items-center mt-6 mb-2">
+        <h3 className="text-sm font-medium text-gray-700">Segments</h3>
+        <div className="flex gap-2">
+          <button
+            onClick={() => onRFMSettingsChange({ ...rfmSettings, segments: DEFAULT_RFM_SETTINGS.segments })}
+            className="flex items-center text-sm text-gray-600 px-3 py-2 rounded border hover:bg-gray-50"
+          >
+            <RotateCcw className="h-4 w-4 mr-1" />
+            Reset Segments
+          </button>
+          <button
+            onClick={handleAddSegment}
+            className="flex items-center text-sm bg-blue-600 text-white px-3 py-2 rounded hover:bg-blue-700"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Segment
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 mb-2">
+        A customer gets the first segment whose score ranges contain all three of their scores.
+        Customers matching no segment get the last one. Segments without a name are dropped when saved.
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Segment</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Color</th>
+              {RFM_DIMENSIONS.map(dimension => (
+                <th key={dimension} className="px-3 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {dimensionLabels[dimension].label[0]} Score
+                </th>
+              ))}
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Description</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {rfmSettings.segments.map((segment, index) => (
+              <tr key={index}>
+                <td className="px-3 py-2">
+                  <input
+                    type="text"
+                    className="w-40 p-2 border rounded text-sm"
+                    placeholder="Segment name"
+                    value={segment.name}
+                    onChange={(e) => handleSegmentChange(index, { name: e.target.value })}
+                  />
+                </td>
+                <td className="px-3 py-2">
+                  <input
+                    type="color"
+                    className="h-9 w-12 border rounded"
+                    value={segment.color}
+                    onChange={(e) => handleSegmentChange(index, { color: e.target.value })}
+                  />
+                </td>
+                {RFM_DIMENSIONS.map(dimension => (
+                  <td key={dimension} className="px-3 py-2 whitespace-nowrap text-center">
+                    <input
+                      type="number"
+                      min="1"
+                      max="5"
+                      className="w-14 p-2 border rounded text-sm text-right"
+                      value={segment[dimension][0]}
+                      onChange={(e) => handleRangeChange(index, dimension, 0, e.target.value)}
+                    />
+                    <span className="mx-1 text-gray-400">-</span>
+                    <input
+                      type="number"
+                      min="1"
+                      max="5"
+                      className="w-14 p-2 border rounded text-sm text-right"
+                      value={segment[dimension][1]}
+                      onChange={(e) => handleRangeChange(index, dimension, 1, e.target.value)}
+                    />
+                  </td>
+                ))}
+                <td className="px-3 py-2">
+                  <input
+                    type="text"
+                    className="w-64 p-2 border rounded text-sm"
+                    value={segment.description || ''}
+                    onChange={(e) => handleSegmentChange(index, { description: e.target.value })}
+                  />
+                </td>
+                <td className="px-3 py-2 whitespace-nowrap">
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => handleMoveSegment(index, -1)}
+                      disabled={index === 0}
+                      className="p-1 text-gray-600 hover:text-gray-900 disabled:text-gray-300"
+                      title="Move up"
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleMoveSegment(index, 1)}
+                      disabled={index === rfmSettings.segments.length - 1}
+                      className="p-1 text-gray-600 hover:text-gray-900 disabled:text-gray-300"
+                      title="Move down"
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleRemoveSegment(index)}
+                      disabled={rfmSettings.segments.length === 1}
+                      className="p-1 text-red-600 hover:text-red-900 disabled:text-gray-300"
+                      title="Remove segment"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default RFMSettingsSection;
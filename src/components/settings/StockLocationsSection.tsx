@@ -0,0 +1,177 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Save } from 'lucide-react';
+import { StockLocation, StockLocationType } from '../../types';
+import { getStockLocations, saveStockLocation } from '../../db/operations/stockLocations';
+
+const locationTypes: { value: StockLocationType; label: string }[] = [
+  { value: 'warehouse', label: 'Warehouse' },
+  { value: 'retail', label: 'Retail / Shop Floor' },
+  { value: 'consignment', label: 'Consignment' },
+  { value: 'other', label: 'Other' }
+];
+
+const StockLocationsSection: React.FC = () => {
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  // Rows edited since they were loaded, by index
+  const [dirty, setDirty] = useState<Set<number>>(new Set());
+  const [saving, setSaving] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadLocations();
+  }, []);
+
+  const loadLocations = async () => {
+    try {
+      setLocations(await getStockLocations());
+      setDirty(new Set());
+    } catch (err) {
+      console.error('Error loading stock locations:', err);
+      setError('Failed to load stock locations');
+    }
+  };
+
+  const handleChange = (index: number, changes: Partial<StockLocation>) => {
+    // Only one location is the default, saving it clears the flag on the others
+    setLocations(prev => prev.map((location, i) => {
+      if (i === index) return { ...location, ...changes };
+      return changes.is_default ? { ...location, is_default: false } : location;
+    }));
+    setDirty(prev => new Set(prev).add(index));
+  };
+
+  const handleAdd = () => {
+    setLocations(prev => [...prev, {
+      name: '',
+      type: 'warehouse',
+      // The first location holds all existing stock
+      is_default: prev.length === 0,
+      active: true
+    }]);
+    setDirty(prev => new Set(prev).add(locations.length));
+  };
+
+  const handleSave = async (index: number) => {
+    const location = locations[index];
+    if (!location.name.trim()) {
+      setError('Location name is required');
+      return;
+    }
+    if (location.is_default && !location.active) {
+      setError('The default location cannot be inactive');
+      return;
+    }
+
+    setSaving(index);
+    setError(null);
+    try {
+      await saveStockLocation({ ...location, name: location.name.trim() });
+      await loadLocations();
+    } catch (err) {
+      console.error('Error saving stock location:', err);
+      setError('Failed to save stock location');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6 mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold">Stock Locations</h2>
+        <button
+          onClick={handleAdd}
+          className="flex items-center text-sm bg-blue-600 text-white px-3 py-2 rounded hover:bg-blue-700"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Location
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-500 mb-4">
+        Places stock is held, such as a warehouse, the shop floor or stock on consignment.
+        Online sales and movements recorded without a location come from the default location.
+        Inactive locations keep their history but are hidden from transfers and receiving.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded text-sm">{error}</div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+              <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">Default</th>
+              <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">Active</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {locations.map((location, index) => (
+              <tr key={location.id ?? `new-${index}`}>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <input
+                    type="text"
+                    className="w-full p-2 border rounded"
+                    placeholder="Location name"
+                    value={location.name}
+                    onChange={(e) => handleChange(index, { name: e.target.value })}
+                  />
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <select
+                    className="w-full p-2 border rounded"
+                    value={location.type}
+                    onChange={(e) => handleChange(index, { type: e.target.value as StockLocationType })}
+                  >
+                    {locationTypes.map(type => (
+                      <option key={type.value} value={type.value}>{type.label}</option>
+                    ))}
+                  </select>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-center">
+                  <input
+                    type="radio"
+                    name="default-location"
+                    checked={location.is_default}
+                    onChange={() => handleChange(index, { is_default: true })}
+                  />
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-center">
+                  <input
+                    type="checkbox"
+                    checked={location.active}
+                    onChange={(e) => handleChange(index, { active: e.target.checked })}
+                  />
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <button
+                    onClick={() => handleSave(index)}
+                    disabled={!dirty.has(index) || saving !== null}
+                    className="flex items-center text-sm text-blue-600 hover:text-blue-900 disabled:text-gray-300"
+                  >
+                    <Save className="h-4 w-4 mr-1" />
+                    {saving === index ? 'Saving...' : 'Save'}
+                  </button>
+                </td>
+              </tr>
+            ))}
+
+            {locations.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-6 py-4 text-center text-sm text-gray-500">
+                  No stock locations defined. All stock is treated as one pool until you add them.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default StockLocationsSection;
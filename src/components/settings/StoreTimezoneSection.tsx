@@ -0,0 +1,65 @@
+import React from 'react';
+import { formatInTimeZone } from 'date-fns-tz';
+
+// Common store timezones, any IANA timezone saved in settings is also shown
+const TIMEZONE_OPTIONS = [
+  'Pacific/Auckland',
+  'Pacific/Chatham',
+  'Australia/Sydney',
+  'Australia/Melbourne',
+  'Australia/Brisbane',
+  'Australia/Adelaide',
+  'Australia/Darwin',
+  'Australia/Hobart',
+  'Australia/Perth',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Europe/London',
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Los_Angeles',
+  'UTC'
+];
+
+interface StoreTimezoneSectionProps {
+  timezone: string;
+  onTimezoneChange: (value: string) => void;
+}
+
+const StoreTimezoneSection: React.FC<StoreTimezoneSectionProps> = ({
+  timezone,
+  onTimezoneChange
+}) => {
+  const options = TIMEZONE_OPTIONS.includes(timezone) ? TIMEZONE_OPTIONS : [timezone, ...TIMEZONE_OPTIONS];
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6 mb-8">
+      <h2 className="text-lg font-semibold mb-4">Store Timezone</h2>
+
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-sm font-medium text-gray-700">Timezone</h3>
+            <p className="text-xs text-gray-500 mt-1">
+              Set this to the timezone in your WooCommerce settings. Order dates, date ranges and report periods use it, including daylight saving changes.
+            </p>
+          </div>
+          <select
+            className="p-2 border rounded text-sm"
+            value={timezone}
+            onChange={(e) => onTimezoneChange(e.target.value)}
+          >
+            {options.map(option => (
+              <option key={option} value={option}>
+                {option.replace(/_/g, ' ')} ({formatInTimeZone(new Date(), option, 'zzz')})
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StoreTimezoneSection;
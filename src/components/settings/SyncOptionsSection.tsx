@@ -4,13 +4,13 @@ import { ChevronDown, ChevronUp, AlertCircle } from 'lucide-react';
 
 interface SyncOptionsSectionProps {
   showSyncOptions: boolean;
-  syncType: 'all' | 'products' | 'inventory' | 'year' | 'custom';
+  syncType: 'all' | 'changes' | 'products' | 'inventory' | 'year' | 'custom';
   syncYear: number;
   syncStartDate: string;
   syncEndDate: string;
   years: number[];
   onToggleSyncOptions: () => void;
-  onSyncTypeChange: (type: 'all' | 'products' | 'inventory' | 'year' | 'custom') => void;
+  onSyncTypeChange: (type: 'all' | 'changes' | 'products' | 'inventory' | 'year' | 'custom') => void;
   onSyncYearChange: (year: number) => void;
   onSyncStartDateChange: (date: string) => void;
   onSyncEndDateChange: (date: string) => void;
@@ -77,6 +77,23 @@ const SyncOptionsSection: React.FC<SyncOptionsSectionProps> = ({
             </p>
           </div>
           
+          <div>
+            <label className="inline-flex items-center">
+              <input
+                type="radio"
+                className="form-radio"
+                name="syncType"
+                value="changes"
+                checked={syncType === 'changes'}
+                onChange={() => onSyncTypeChange('changes')}
+              />
+              <span className="ml-2">Sync changed orders only</span>
+            </label>
+            <p className="text-xs text-gray-500 mt-1 ml-6">
+              This will only fetch orders created, updated or deleted since the last sync, including queued webhook updates.
+            </p>
+          </div>
+          
           <div>
             <label className="inline-flex items-center">
               <input
@@ -198,7 +215,7 @@ const SyncOptionsSection: React.FC<SyncOptionsSectionProps> = ({
           
           <div className="bg-blue-50 p-3 rounded-md">
             <p className="text-xs text-blue-700">
-              <strong>Note:</strong> All dates and times are in New Zealand timezone (NZST/NZDT).
+              <strong>Note:</strong> All dates and times are in the store timezone set above.
               Data is processed in small batches to avoid overwhelming the WooCommerce API.
             </p>
           </div>
@@ -1,7 +1,6 @@
 import React from 'react';
-import { format } from 'date-fns';
 import { Info } from 'lucide-react';
-import { formatNZDate, getNZTimezone } from '../../services/api/utils';
+import { formatInStoreTimezone } from '../../utils/dateUtils';
 
 interface SyncStatusSectionProps {
   lastSyncTimes: {
@@ -18,7 +17,7 @@ const SyncStatusSection: React.FC<SyncStatusSectionProps> = ({
 }) => {
   const formatSyncTime = (date: Date | null) => {
     if (!date) return 'Never';
-    return format(date, `dd/MM/yyyy h:mm a '(${getNZTimezone()}')`);
+    return formatInStoreTimezone(date, 'dd/MM/yyyy h:mm a (zzz)');
   };
 
   return (
@@ -43,7 +42,7 @@ const SyncStatusSection: React.FC<SyncStatusSectionProps> = ({
           <p className="text-blue-700 font-medium">Smart Synchronization</p>
           <p className="text-sm text-blue-600">
             The system syncs data month by month and avoids re-syncing existing data to optimize performance and reduce API calls.
-            Products are only synced if they haven't been updated in the last 24 hours. All dates and times are in New Zealand timezone.
+            Products are only synced if they haven't been updated in the last 24 hours. All dates and times are in the store timezone.
           </p>
         </div>
       </div>
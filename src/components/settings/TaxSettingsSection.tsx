@@ -0,0 +1,71 @@
+import React from 'react';
+import { TaxMode, TaxSettings } from '../../services/pnl/taxCalculations';
+
+interface TaxSettingsSectionProps {
+  taxSettings: TaxSettings;
+  onTaxSettingsChange: (value: TaxSettings) => void;
+}
+
+const TaxSettingsSection: React.FC<TaxSettingsSectionProps> = ({
+  taxSettings,
+  onTaxSettingsChange
+}) => {
+  return (
+    <div className="bg-white shadow rounded-lg p-6 mb-8">
+      <h2 className="text-lg font-semibold mb-4">Tax (GST)</h2>
+
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-sm font-medium text-gray-700">Reporting Mode</h3>
+            <p className="text-xs text-gray-500 mt-1">
+              Tax exclusive reports revenue, cost and claimable expenses net of GST. Tax inclusive reports amounts as charged.
+            </p>
+          </div>
+          <select
+            className="p-2 border rounded text-sm"
+            value={taxSettings.taxMode}
+            onChange={(e) => onTaxSettingsChange({ ...taxSettings, taxMode: e.target.value as TaxMode })}
+          >
+            <option value="inclusive">Tax Inclusive</option>
+            <option value="exclusive">Tax Exclusive (net of GST)</option>
+          </select>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-sm font-medium text-gray-700">GST Rate (%)</h3>
+            <p className="text-xs text-gray-500 mt-1">
+              Used to work out GST on expenses, purchase orders and additional revenue.
+            </p>
+          </div>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            className="w-24 p-2 border rounded text-sm text-right"
+            value={taxSettings.gstRate}
+            onChange={(e) => onTaxSettingsChange({ ...taxSettings, gstRate: parseFloat(e.target.value) || 0 })}
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-sm font-medium text-gray-700">Supplier Prices Include GST</h3>
+            <p className="text-xs text-gray-500 mt-1">
+              Turn on if purchase order and supplier prices are entered including GST.
+            </p>
+          </div>
+          <input
+            type="checkbox"
+            className="h-4 w-4 text-indigo-600 border-gray-300 rounded"
+            checked={taxSettings.purchasePricesIncludeTax}
+            onChange={(e) => onTaxSettingsChange({ ...taxSettings, purchasePricesIncludeTax: e.target.checked })}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TaxSettingsSection;
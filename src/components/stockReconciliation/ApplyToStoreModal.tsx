@@ -0,0 +1,212 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { X, Info, RefreshCw, Upload, CheckCircle, AlertCircle } from 'lucide-react';
+import { StoreStockApplyResult, StoreStockPreview, StoreStockUpdateSource } from '../../types';
+import { applyStoreStockUpdates, previewStoreStockUpdates } from '../../db/operations/storeStock';
+
+interface ApplyToStoreModalProps {
+  skus: string[];
+  source: StoreStockUpdateSource;
+  stocktakeSessionId?: number;
+  onClose: () => void;
+  onApplied?: () => void;
+}
+
+const isApplicable = (preview: StoreStockPreview) => !preview.problem && preview.change !== 0;
+
+const ApplyToStoreModal: React.FC<ApplyToStoreModalProps> = ({
+  skus,
+  source,
+  stocktakeSessionId,
+  onClose,
+  onApplied
+}) => {
+  const [previews, setPreviews] = useState<StoreStockPreview[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<StoreStockApplyResult | null>(null);
+
+  // Dry run against the live store levels
+  const loadPreview = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await previewStoreStockUpdates(skus);
+      setPreviews(data);
+      setSelected(new Set(data.filter(isApplicable).map(preview => preview.sku)));
+    } catch (err) {
+      console.error('Error previewing store stock updates:', err);
+      setError(err instanceof Error ? err.message : 'Failed to read stock levels from the store');
+    } finally {
+      setLoading(false);
+    }
+  }, [skus]);
+
+  useEffect(() => {
+    loadPreview();
+  }, [loadPreview]);
+
+  const toggleSku = (sku: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(sku)) {
+        next.delete(sku);
+      } else {
+        next.add(sku);
+      }
+      return next;
+    });
+  };
+
+  const handleApply = async () => {
+    const toApply = previews.filter(preview => selected.has(preview.sku) && isApplicable(preview));
+    if (toApply.length === 0) return;
+    if (!window.confirm(`Write ${toApply.length} stock levels to WooCommerce? This changes the stock customers see.`)) return;
+
+    setApplying(true);
+    setError(null);
+    try {
+      setResult(await applyStoreStockUpdates(toApply, source, stocktakeSessionId));
+      onApplied?.();
+    } catch (err) {
+      console.error('Error applying store stock updates:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update the store');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const applicableCount = previews.filter(isApplicable).length;
+  const selectedCount = previews.filter(preview => selected.has(preview.sku) && isApplicable(preview)).length;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-lg w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-4 border-b">
+          <div>
+            <h2 className="text-xl font-semibold">Apply Stock to Store</h2>
+            <p className="text-sm text-gray-600">{skus.length} SKUs</p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 p-1 rounded-full hover:bg-gray-100">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto">
+          <div className="mb-4 bg-blue-50 p-3 rounded-md border border-blue-200">
+            <div className="flex">
+              <Info className="h-5 w-5 text-blue-500 mr-2 flex-shrink-0 mt-0.5" />
+              <p className="text-xs text-blue-700">
+                This is a dry run. The new quantity is the expected stock from stock movements, including reconciliations
+                and approved stocktake counts. Nothing changes in WooCommerce until you apply the selected SKUs.
+              </p>
+            </div>
+          </div>
+
+          {error && (
+            <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded text-sm">{error}</div>
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center p-8">
+              <RefreshCw className="animate-spin h-8 w-8 text-blue-500" />
+            </div>
+          ) : result ? (
+            <div>
+              <p className="text-sm text-gray-700 mb-3">
+                Updated {result.updated.length} SKUs in the store{result.failed.length > 0 ? `, ${result.failed.length} failed` : ''}.
+              </p>
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">SKU</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Was</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Now</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Result</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {[...result.failed, ...result.updated].map(update => (
+                    <tr key={update.sku}>
+                      <td className="px-3 py-2 whitespace-nowrap text-sm font-mono text-gray-900">{update.sku}</td>
+                      <td className="px-3 py-2 whitespace-nowrap text-sm text-right text-gray-500">{update.previous_quantity ?? '-'}</td>
+                      <td className="px-3 py-2 whitespace-nowrap text-sm text-right text-gray-900">{update.new_quantity}</td>
+                      <td className="px-3 py-2 text-sm">
+                        {update.status === 'success' ? (
+                          <span className="flex items-center text-green-700"><CheckCircle className="h-4 w-4 mr-1" />Updated</span>
+                        ) : (
+                          <span className="flex items-center text-red-600"><AlertCircle className="h-4 w-4 mr-1" />{update.error || 'Failed'}</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2"></th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">SKU</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Store</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">New</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Change</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {previews.map(preview => (
+                  <tr key={preview.sku} className={preview.problem ? 'bg-gray-50' : ''}>
+                    <td className="px-3 py-2">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(preview.sku)}
+                        disabled={!isApplicable(preview)}
+                        onChange={() => toggleSku(preview.sku)}
+                      />
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap text-sm font-mono text-gray-900">{preview.sku}</td>
+                    <td className="px-3 py-2 text-sm text-gray-700">
+                      {preview.product_name}
+                      {preview.problem && <span className="block text-xs text-red-600">{preview.problem}</span>}
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap text-sm text-right text-gray-500">{preview.store_quantity ?? '-'}</td>
+                    <td className="px-3 py-2 whitespace-nowrap text-sm text-right text-gray-900">{preview.new_quantity}</td>
+                    <td className={`px-3 py-2 whitespace-nowrap text-sm text-right font-medium ${preview.change === 0 ? 'text-gray-400' : preview.change > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {preview.change > 0 ? `+${preview.change}` : preview.change}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="flex justify-between items-center p-4 border-t">
+          <span className="text-xs text-gray-500">
+            {!loading && !result && `${applicableCount} of ${previews.length} SKUs differ from the store`}
+          </span>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-2 border rounded text-gray-700 hover:bg-gray-50 text-sm">
+              {result ? 'Close' : 'Cancel'}
+            </button>
+            {!result && (
+              <button
+                onClick={handleApply}
+                disabled={loading || applying || selectedCount === 0}
+                className="flex items-center px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 text-sm disabled:opacity-50"
+              >
+                <Upload className={`h-4 w-4 mr-1.5 ${applying ? 'animate-pulse' : ''}`} />
+                {applying ? 'Applying...' : `Apply ${selectedCount} to Store`}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ApplyToStoreModal;
@@ -2,7 +2,8 @@ import React, { useState, useEffect } from 'react';
 import { X, AlertCircle, Save, Calendar, Package, ArrowRight, Tag, FileText, Trash2 } from 'lucide-react';
 import { StockMovement, MovementReason } from '../../types';
 import { getStockMovementById, updateStockMovement, deleteStockMovement } from '../../db/operations/stockReconciliation';
-import { formatNZDate } from '../../utils/dateUtils';
+import { deleteStockTransfer } from '../../db/operations/stockLocations';
+import { formatStoreDate } from '../../utils/dateUtils';
 
 interface EditMovementModalProps {
   movementId: number;
@@ -88,7 +89,12 @@ const EditMovementModal: React.FC<EditMovementModalProps> = ({
       setDeleting(true);
       setError(null);
       
-      await deleteStockMovement(movementId);
+      // Deleting one side of a transfer would leave stock at one location and not the other
+      if (movement.movement_type === 'transfer' && movement.reference_id) {
+        await deleteStockTransfer(movement.reference_id);
+      } else {
+        await deleteStockMovement(movementId);
+      }
       
       onSuccess(true);
       onClose();
@@ -112,6 +118,8 @@ const EditMovementModal: React.FC<EditMovementModalProps> = ({
         return 'Adjustment';
       case 'purchase':
         return 'Purchase';
+      case 'transfer':
+        return 'Transfer';
       default:
         return type;
     }
@@ -130,6 +138,10 @@ const EditMovementModal: React.FC<EditMovementModalProps> = ({
         return 'Theft';
       case 'correction':
         return 'Correction';
+      case 'return':
+        return 'Customer Return';
+      case 'cancellation':
+        return 'Order Cancelled';
       case 'other':
         return 'Other';
       default:
@@ -212,7 +224,7 @@ const EditMovementModal: React.FC<EditMovementModalProps> = ({
                 <Calendar className="h-4 w-4 text-gray-500 mt-0.5 mr-2 flex-shrink-0" />
                 <div>
                   <div className="text-xs text-gray-500 mb-1">Date</div>
-                  <div className="text-sm font-medium">{formatNZDate(movement.movement_date)}</div>
+                  <div className="text-sm font-medium">{formatStoreDate(movement.movement_date)}</div>
                 </div>
               </div>
               
@@ -307,7 +319,11 @@ const EditMovementModal: React.FC<EditMovementModalProps> = ({
             {/* Delete confirmation */}
             {showDeleteConfirm && (
               <div className="p-3 bg-red-50 text-red-700 rounded-lg border border-red-200">
-                <p className="text-sm font-medium mb-2">Are you sure you want to delete this movement?</p>
+                <p className="text-sm font-medium mb-2">
+                  {movement.movement_type === 'transfer'
+                    ? 'Are you sure you want to delete this transfer? Both sides of it will be removed.'
+                    : 'Are you sure you want to delete this movement?'}
+                </p>
                 <p className="text-xs mb-3">This action cannot be undone. Deleting this record may affect inventory calculations.</p>
                 <div className="flex justify-end space-x-2">
                   <button
@@ -0,0 +1,220 @@
+import React, { useEffect, useState, useCallback } from 'react';
+import { RefreshCw, ClipboardCheck, ArrowRightLeft } from 'lucide-react';
+import { LocationShrinkage, LocationStockSummary, StockLocation } from '../../types';
+import { generateLocationStockSummaries, getShrinkageByLocation, reconcileAtLocation } from '../../db/operations/stockLocations';
+import { formatStoreDate } from '../../utils/dateUtils';
+import { formatCurrency } from '../../utils/formatters';
+import ReconciliationModal from './ReconciliationModal';
+import StockTransferModal from './StockTransferModal';
+import { Product } from './StockAdjustmentComponents';
+
+interface LocationStockTableProps {
+  location: StockLocation;
+  locations: StockLocation[];
+  products: Product[];
+  searchTerm: string;
+  onChanged: () => void;
+}
+
+// Expected stock at one location from the movement ledger, with counts and transfers made there
+const LocationStockTable: React.FC<LocationStockTableProps> = ({
+  location,
+  locations,
+  products,
+  searchTerm,
+  onChanged
+}) => {
+  const [summaries, setSummaries] = useState<LocationStockSummary[]>([]);
+  const [shrinkage, setShrinkage] = useState<LocationShrinkage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [countItem, setCountItem] = useState<LocationStockSummary | null>(null);
+  const [transferItem, setTransferItem] = useState<LocationStockSummary | null>(null);
+
+  const loadSummaries = useCallback(async () => {
+    if (!location.id) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const [locationSummaries, shrinkageByLocation] = await Promise.all([
+        generateLocationStockSummaries(location.id),
+        getShrinkageByLocation()
+      ]);
+      setSummaries(locationSummaries);
+      setShrinkage(shrinkageByLocation);
+    } catch (err) {
+      console.error('Error loading location stock:', err);
+      setError('Failed to load stock for this location');
+    } finally {
+      setLoading(false);
+    }
+  }, [location.id]);
+
+  useEffect(() => {
+    loadSummaries();
+  }, [loadSummaries]);
+
+  const handleCount = async (data: { sku: string; actualQuantity: number; notes: string }) => {
+    if (!location.id) return;
+
+    try {
+      await reconcileAtLocation(data.sku, location.id, data.actualQuantity, data.notes);
+      setCountItem(null);
+      await loadSummaries();
+      onChanged();
+    } catch (err) {
+      console.error('Error recording count at location:', err);
+      setError(`Failed to record the count for ${data.sku}`);
+    }
+  };
+
+  const handleTransferred = async () => {
+    await loadSummaries();
+    onChanged();
+  };
+
+  const term = searchTerm.trim().toLowerCase();
+  const filtered = term
+    ? summaries.filter(summary =>
+      summary.sku.toLowerCase().includes(term) ||
+      summary.product_name.toLowerCase().includes(term)
+    )
+    : summaries;
+
+  const formatSigned = (value: number) => value > 0 ? `+${value}` : value.toString();
+
+  return (
+    <div>
+      {shrinkage.length > 1 && (
+        <div className="p-2 border-b flex flex-wrap gap-2">
+          {shrinkage.map(total => (
+            <div
+              key={total.location_id}
+              className={`px-3 py-1.5 rounded text-xs ${total.location_id === location.id ? 'bg-blue-50 border border-blue-200' : 'bg-gray-50'}`}
+              title={`${total.movement_count} corrections, theft, damage and expiry adjustments`}
+            >
+              <span className="font-medium">{total.location_name}</span>
+              <span className={`ml-2 ${total.shrinkage_units < 0 ? 'text-red-600' : 'text-gray-600'}`}>
+                {formatSigned(total.shrinkage_units)} units
+              </span>
+              <span className="ml-1 text-gray-500">
+                ({formatCurrency(total.shrinkage_value)})
+              </span>
+            </div>
+          ))}
+          <span className="self-center text-xs text-gray-500">Shrinkage by location</span>
+        </div>
+      )}
+
+      {error && <div className="p-2 text-xs text-red-600">{error}</div>}
+
+      {loading ? (
+        <div className="flex items-center justify-center p-8">
+          <RefreshCw className="animate-spin h-6 w-6 text-blue-500" />
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">SKU</th>
+                <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                <th className="px-2 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Initial</th>
+                <th className="px-2 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Purchases</th>
+                <th className="px-2 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Sales</th>
+                <th className="px-2 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Transfers</th>
+                <th className="px-2 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Adjustments</th>
+                <th className="px-2 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Shrinkage</th>
+                <th className="px-2 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Expected</th>
+                <th className="px-2 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Last Count</th>
+                <th className="px-2 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filtered.map(summary => (
+                <tr key={summary.sku} className="hover:bg-gray-50">
+                  <td className="px-2 py-1.5 whitespace-nowrap text-xs font-mono text-gray-900">{summary.sku}</td>
+                  <td className="px-2 py-1.5 text-xs text-gray-700">{summary.product_name}</td>
+                  <td className="px-2 py-1.5 whitespace-nowrap text-xs text-right text-gray-500">{summary.initial_stock}</td>
+                  <td className="px-2 py-1.5 whitespace-nowrap text-xs text-right text-gray-500">{summary.total_purchases}</td>
+                  <td className="px-2 py-1.5 whitespace-nowrap text-xs text-right text-gray-500">{Math.abs(summary.total_sales)}</td>
+                  <td className="px-2 py-1.5 whitespace-nowrap text-xs text-right text-gray-500">
+                    {summary.transfers_in > 0 && <span className="text-green-600">+{summary.transfers_in}</span>}
+                    {summary.transfers_in > 0 && summary.transfers_out > 0 && ' / '}
+                    {summary.transfers_out > 0 && <span className="text-red-600">-{summary.transfers_out}</span>}
+                    {summary.transfers_in === 0 && summary.transfers_out === 0 && '0'}
+                  </td>
+                  <td className="px-2 py-1.5 whitespace-nowrap text-xs text-right text-gray-500">{formatSigned(summary.total_adjustments)}</td>
+                  <td className={`px-2 py-1.5 whitespace-nowrap text-xs text-right ${summary.shrinkage < 0 ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                    {formatSigned(summary.shrinkage)}
+                  </td>
+                  <td className={`px-2 py-1.5 whitespace-nowrap text-xs text-right font-medium ${summary.expected_stock < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                    {summary.expected_stock}
+                  </td>
+                  <td className="px-2 py-1.5 whitespace-nowrap text-xs text-right text-gray-500">
+                    {summary.last_counted ? (
+                      <span title={`Counted ${summary.last_counted_quantity}, ${formatSigned(summary.last_count_discrepancy || 0)} against expected`}>
+                        {summary.last_counted_quantity} on {formatStoreDate(summary.last_counted)}
+                      </span>
+                    ) : 'Never'}
+                  </td>
+                  <td className="px-2 py-1.5 whitespace-nowrap text-xs text-center">
+                    <button
+                      onClick={() => setCountItem(summary)}
+                      className="px-2 py-1 bg-blue-100 text-blue-700 rounded hover:bg-blue-200 inline-flex items-center mr-1"
+                      title="Count stock at this location"
+                    >
+                      <ClipboardCheck size={12} className="mr-1" />
+                      Count
+                    </button>
+                    <button
+                      onClick={() => setTransferItem(summary)}
+                      className="px-2 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 inline-flex items-center"
+                      title="Move stock to another location"
+                    >
+                      <ArrowRightLeft size={12} className="mr-1" />
+                      Transfer
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              {filtered.length === 0 && (
+                <tr>
+                  <td colSpan={11} className="px-2 py-4 text-center text-xs text-gray-500">
+                    {term ? 'No SKUs at this location match the search' : 'No stock movements at this location yet'}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {countItem && (
+        <ReconciliationModal
+          sku={countItem.sku}
+          productName={`${countItem.product_name} at ${location.name}`}
+          expectedStock={countItem.expected_stock}
+          actualStock={countItem.expected_stock}
+          onSubmit={handleCount}
+          onClose={() => setCountItem(null)}
+        />
+      )}
+
+      {transferItem && (
+        <StockTransferModal
+          locations={locations}
+          products={products}
+          sku={transferItem.sku}
+          productName={transferItem.product_name}
+          fromLocationId={location.id}
+          onClose={() => setTransferItem(null)}
+          onTransferred={handleTransferred}
+        />
+      )}
+    </div>
+  );
+};
+
+export default LocationStockTable;
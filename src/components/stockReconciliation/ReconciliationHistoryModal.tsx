@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { X, Edit, Calendar, AlertTriangle, CheckCircle, Save, XCircle } from 'lucide-react';
 import { StockReconciliation } from '../../types';
-import { formatNZDate } from '../../utils/dateUtils';
+import { formatStoreDate } from '../../utils/dateUtils';
 import { getReconciliationHistoryBySku, updateStockReconciliation } from '../../db/operations/stockReconciliation';
 
 interface ReconciliationHistoryModalProps {
@@ -132,7 +132,7 @@ const ReconciliationHistoryModal: React.FC<ReconciliationHistoryModalProps> = ({
                         <div className="flex items-center mb-2 md:mb-0">
                           <Calendar className="h-4 w-4 text-gray-500 mr-2" />
                           <span className="text-sm font-medium">
-                            {formatNZDate(reconciliation.reconciliation_date)}
+                            {formatStoreDate(reconciliation.reconciliation_date)}
                           </span>
                         </div>
                         
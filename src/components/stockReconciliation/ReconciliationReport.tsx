@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { StockReconciliationSummary, StockMovement } from '../../types';
-import { formatNZDate } from '../../utils/dateUtils';
+import { formatStoreDate } from '../../utils/dateUtils';
 import { formatCurrency } from '../../utils/formatters';
 import { Download, Printer, X } from 'lucide-react';
 
@@ -64,7 +64,7 @@ const ReconciliationReport: React.FC<ReconciliationReportProps> = ({
       item.expected_stock.toString(),
       item.actual_stock.toString(),
       item.discrepancy.toString(),
-      item.last_reconciled ? formatNZDate(item.last_reconciled) : 'Never'
+      item.last_reconciled ? formatStoreDate(item.last_reconciled) : 'Never'
     ]);
     
     const csvContent = [
@@ -77,7 +77,7 @@ const ReconciliationReport: React.FC<ReconciliationReportProps> = ({
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `stock_reconciliation_report_${formatNZDate(reportDate).replace(/\//g, '-')}.csv`;
+    a.download = `stock_reconciliation_report_${formatStoreDate(reportDate).replace(/\//g, '-')}.csv`;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
@@ -117,7 +117,7 @@ const ReconciliationReport: React.FC<ReconciliationReportProps> = ({
         <div className="overflow-y-auto flex-grow p-4">
           <div className="mb-6 print:mb-4">
             <div className="text-sm text-gray-500 mb-1">Report Date</div>
-            <div className="text-lg font-medium">{formatNZDate(reportDate)}</div>
+            <div className="text-lg font-medium">{formatStoreDate(reportDate)}</div>
           </div>
           
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6 print:grid-cols-3">
@@ -0,0 +1,60 @@
+import React, { useEffect, useState } from 'react';
+import { MapPin } from 'lucide-react';
+import { StockLocation } from '../../../types';
+import { getDefaultLocationId, getStockLocations } from '../../../db/operations/stockLocations';
+
+interface LocationSelectorProps {
+  // Null for the default location
+  locationId: number | null;
+  setLocationId: (locationId: number | null) => void;
+}
+
+// Only shown once there is more than one active location
+const LocationSelector: React.FC<LocationSelectorProps> = ({ locationId, setLocationId }) => {
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+
+  useEffect(() => {
+    const loadLocations = async () => {
+      try {
+        setLocations(await getStockLocations());
+      } catch (error) {
+        console.error('Error loading stock locations:', error);
+      }
+    };
+
+    loadLocations();
+  }, []);
+
+  const active = locations.filter(location => location.active);
+  if (active.length <= 1) return null;
+
+  const defaultLocationId = getDefaultLocationId(locations);
+
+  return (
+    <div className="mb-4">
+      <label htmlFor="location" className="block text-sm font-medium text-gray-700 mb-1">
+        Location
+      </label>
+      <div className="relative">
+        <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none">
+          <MapPin size={16} className="text-gray-500" />
+        </div>
+        <select
+          id="location"
+          value={locationId ?? defaultLocationId ?? ''}
+          onChange={(e) => setLocationId(Number(e.target.value))}
+          className="border rounded-lg p-2 pl-10 w-full focus:outline-none focus:ring-2 focus:ring-blue-300 focus:border-blue-300 transition-all"
+        >
+          {active.map(location => (
+            <option key={location.id} value={location.id}>{location.name}</option>
+          ))}
+        </select>
+      </div>
+      <p className="text-xs text-gray-500 mt-1 ml-1">
+        Where the stock was found, lost or damaged
+      </p>
+    </div>
+  );
+};
+
+export default LocationSelector;
@@ -3,4 +3,5 @@ export { default as QuantityAdjuster } from './QuantityAdjuster';
 export { default as DateSelector } from './DateSelector';
 export { default as ReasonSelector } from './ReasonSelector';
 export { default as NotesAndBatch } from './NotesAndBatch';
+export { default as LocationSelector } from './LocationSelector';
 export * from './types'; 
\ No newline at end of file
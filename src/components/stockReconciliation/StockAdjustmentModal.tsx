@@ -9,6 +9,7 @@ import {
   DateSelector,
   ReasonSelector,
   NotesAndBatch,
+  LocationSelector,
   Product
 } from './StockAdjustmentComponents';
 
@@ -23,6 +24,7 @@ interface StockAdjustmentModalProps {
     notes: string;
     batchNumber?: string;
     date: Date;
+    locationId: number | null;
   }) => void;
   onClose: () => void;
   products?: Product[];
@@ -47,6 +49,7 @@ const StockAdjustmentModal: React.FC<StockAdjustmentModalProps> = ({
   const [batchNumber, setBatchNumber] = useState<string>('');
   const [error, setError] = useState<string | null>(null);
   const [date, setDate] = useState<Date>(new Date());
+  const [locationId, setLocationId] = useState<number | null>(null);
   
   // Handle form submission
   const handleSubmit = async (e: React.FormEvent) => {
@@ -73,7 +76,8 @@ const StockAdjustmentModal: React.FC<StockAdjustmentModalProps> = ({
       reason,
       notes,
       batchNumber: batchNumber || undefined,
-      date
+      date,
+      locationId
     });
   };
 
@@ -121,6 +125,8 @@ const StockAdjustmentModal: React.FC<StockAdjustmentModalProps> = ({
           {/* Date Field */}
           <DateSelector date={date} setDate={setDate} />
           
+          <LocationSelector locationId={locationId} setLocationId={setLocationId} />
+          
           {/* Current Stock - only shown if product is selected */}
           {selectedProduct && (
             <div className="mb-4">
@@ -1,10 +1,11 @@
 import React, { useState, useEffect } from 'react';
-import { StockMovement } from '../../types';
-import { formatNZDate } from '../../utils/dateUtils';
+import { StockLocation, StockMovement } from '../../types';
+import { formatStoreDate } from '../../utils/dateUtils';
 import { X, Filter, Calendar, ShoppingBag, ChevronLeft, ChevronRight, List, BarChart, Edit } from 'lucide-react';
 import { supabase } from '../../services/supabase';
 import { settingsService } from '../../services';
 import EditMovementModal from './EditMovementModal';
+import { getDefaultLocationId, getStockLocations, isMovementAtLocation } from '../../db/operations/stockLocations';
 
 interface StockMovementModalProps {
   sku: string;
@@ -43,6 +44,8 @@ const StockMovementModal: React.FC<StockMovementModalProps> = ({
   
   // Filter state for movements
   const [typeFilter, setTypeFilter] = useState<string>('all');
+  const [locationFilter, setLocationFilter] = useState<number | 'all'>('all');
+  const [locations, setLocations] = useState<StockLocation[]>([]);
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
   const [filteredMovements, setFilteredMovements] = useState<StockMovement[]>(movements);
   
@@ -56,7 +59,25 @@ const StockMovementModal: React.FC<StockMovementModalProps> = ({
     } else {
       applyMovementFilters();
     }
-  }, [viewMode, sku, page, pageSize, typeFilter, sortOrder]);
+  }, [viewMode, sku, page, pageSize, typeFilter, locationFilter, sortOrder]);
+  
+  // Load locations so movements can show where they happened
+  useEffect(() => {
+    const loadLocations = async () => {
+      try {
+        setLocations(await getStockLocations());
+      } catch (error) {
+        console.error('Error loading stock locations:', error);
+      }
+    };
+    
+    loadLocations();
+  }, []);
+  
+  const defaultLocationId = getDefaultLocationId(locations);
+  
+  const getLocationName = (movement: StockMovement) =>
+    locations.find(location => location.id === (movement.location_id ?? defaultLocationId))?.name;
   
   // Load orders that contain this SKU
   const loadOrders = async () => {
@@ -124,6 +145,11 @@ const StockMovementModal: React.FC<StockMovementModalProps> = ({
       filtered = filtered.filter(m => m.movement_type === typeFilter);
     }
     
+    // Apply location filter
+    if (locationFilter !== 'all') {
+      filtered = filtered.filter(m => isMovementAtLocation(m, locationFilter, defaultLocationId));
+    }
+    
     // Sort by date
     filtered.sort((a, b) => {
       const dateA = new Date(a.movement_date).getTime();
@@ -145,24 +171,37 @@ const StockMovementModal: React.FC<StockMovementModalProps> = ({
         return <span className="bg-yellow-100 text-yellow-800 px-2 py-1 rounded text-xs">On Hold</span>;
       case 'cancelled':
         return <span className="bg-red-100 text-red-800 px-2 py-1 rounded text-xs">Cancelled</span>;
+      case 'refunded':
+        return <span className="bg-red-100 text-red-800 px-2 py-1 rounded text-xs">Refunded</span>;
+      case 'failed':
+        return <span className="bg-red-100 text-red-800 px-2 py-1 rounded text-xs">Failed</span>;
       default:
         return <span className="bg-gray-100 text-gray-800 px-2 py-1 rounded text-xs">{status}</span>;
     }
   };
   
+  // Orders whose sales have been reversed, so both sides can be marked
+  const reversedReferences = new Set(
+    movements
+      .filter(m => m.movement_type === 'sale' && m.reason === 'cancellation' && m.reference_id)
+      .map(m => m.reference_id)
+  );
+  
   // Get movement type label
-  const getMovementTypeLabel = (type: string) => {
-    switch (type) {
+  const getMovementTypeLabel = (movement: StockMovement) => {
+    switch (movement.movement_type) {
       case 'initial':
         return 'Initial Stock';
       case 'sale':
-        return 'Sale';
+        return movement.quantity > 0 ? 'Sale Reversal' : 'Sale';
       case 'adjustment':
         return 'Adjustment';
       case 'purchase':
         return 'Purchase';
+      case 'transfer':
+        return movement.quantity > 0 ? 'Transfer In' : 'Transfer Out';
       default:
-        return type;
+        return movement.movement_type;
     }
   };
   
@@ -179,6 +218,10 @@ const StockMovementModal: React.FC<StockMovementModalProps> = ({
         return 'Theft';
       case 'correction':
         return 'Correction';
+      case 'return':
+        return 'Customer Return';
+      case 'cancellation':
+        return 'Order Cancelled';
       case 'other':
         return 'Other';
       default:
@@ -189,7 +232,7 @@ const StockMovementModal: React.FC<StockMovementModalProps> = ({
   // Format date for display
   const formatOrderDate = (dateString: string) => {
     try {
-      return formatNZDate(new Date(dateString));
+      return formatStoreDate(new Date(dateString));
     } catch (error) {
       return dateString;
     }
@@ -347,9 +390,26 @@ const StockMovementModal: React.FC<StockMovementModalProps> = ({
                     <option value="purchase">Purchases</option>
                     <option value="adjustment">Adjustments</option>
                     <option value="initial">Initial Stock</option>
+                    <option value="transfer">Transfers</option>
                   </select>
                 </div>
                 
+                {locations.length > 1 && (
+                  <div className="flex items-center space-x-2">
+                    <span className="text-sm font-medium">Location:</span>
+                    <select
+                      value={locationFilter}
+                      onChange={(e) => setLocationFilter(e.target.value === 'all' ? 'all' : Number(e.target.value))}
+                      className="border rounded px-2 py-1 text-sm"
+                    >
+                      <option value="all">All Locations</option>
+                      {locations.map(location => (
+                        <option key={location.id} value={location.id}>{location.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                
                 <div className="flex items-center space-x-2">
                   <Calendar size={16} />
                   <span className="text-sm font-medium">Sort:</span>
@@ -431,8 +491,12 @@ const StockMovementModal: React.FC<StockMovementModalProps> = ({
                       <td className="px-4 py-2 whitespace-nowrap text-sm">
                         {getOrderStatusLabel(order.status)}
                       </td>
-                      <td className="px-4 py-2 whitespace-nowrap text-sm font-medium text-red-600">
-                        -{order.quantity}
+                      <td className="px-4 py-2 whitespace-nowrap text-sm font-medium">
+                        {['cancelled', 'refunded', 'failed'].includes(order.status) ? (
+                          <span className="text-gray-400 line-through" title="Sale reversed">-{order.quantity}</span>
+                        ) : (
+                          <span className="text-red-600">-{order.quantity}</span>
+                        )}
                       </td>
                       <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">
                         ${parseFloat(order.total).toFixed(2)}
@@ -544,16 +608,27 @@ const StockMovementModal: React.FC<StockMovementModalProps> = ({
                   {filteredMovements.map((movement, index) => (
                     <tr key={`${movement.id || index}`} className="hover:bg-gray-50">
                       <td className="px-3 py-2 whitespace-nowrap text-xs text-gray-500">
-                        {formatNZDate(movement.movement_date)}
+                        {formatStoreDate(movement.movement_date)}
                       </td>
                       <td className="px-3 py-2 whitespace-nowrap text-xs text-gray-500">
-                        {getMovementTypeLabel(movement.movement_type)}
+                        {getMovementTypeLabel(movement)}
+                        {locations.length > 1 && (
+                          <span className="block text-gray-400">{getLocationName(movement) || '-'}</span>
+                        )}
                       </td>
-                      <td className="px-3 py-2 whitespace-nowrap text-xs text-gray-500">
-                        {movement.quantity}
+                      <td className={`px-3 py-2 whitespace-nowrap text-xs ${movement.quantity < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}
                       </td>
                       <td className="px-3 py-2 whitespace-nowrap text-xs text-gray-500">
                         {movement.reference_id || '-'}
+                        {movement.movement_type === 'sale' && movement.reference_id && reversedReferences.has(movement.reference_id) && (
+                          <span
+                            className={`ml-1 px-1.5 py-0.5 rounded text-xs ${movement.quantity > 0 ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'}`}
+                            title={movement.quantity > 0 ? 'Reverses the sale of this order' : 'This sale has been reversed'}
+                          >
+                            {movement.quantity > 0 ? 'reversal' : 'reversed'}
+                          </span>
+                        )}
                       </td>
                       <td className="px-3 py-2 whitespace-nowrap text-xs text-gray-500">
                         {getReasonLabel(movement.reason)}
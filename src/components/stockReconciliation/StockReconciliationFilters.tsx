@@ -1,18 +1,26 @@
 import React from 'react';
 import { Search } from 'lucide-react';
+import { StockLocation } from '../../types';
 
 interface StockReconciliationFiltersProps {
   searchTerm: string;
   setSearchTerm: (term: string) => void;
   discrepancyFilter: 'all' | 'with_discrepancy' | 'no_discrepancy';
   setDiscrepancyFilter: (filter: 'all' | 'with_discrepancy' | 'no_discrepancy') => void;
+  locations?: StockLocation[];
+  // Null for all locations
+  locationId?: number | null;
+  setLocationId?: (locationId: number | null) => void;
 }
 
 const StockReconciliationFilters: React.FC<StockReconciliationFiltersProps> = ({
   searchTerm,
   setSearchTerm,
   discrepancyFilter,
-  setDiscrepancyFilter
+  setDiscrepancyFilter,
+  locations = [],
+  locationId = null,
+  setLocationId
 }) => {
   return (
     <div className="p-2 border-b">
@@ -31,16 +39,36 @@ const StockReconciliationFilters: React.FC<StockReconciliationFiltersProps> = ({
         </div>
         
         <div className="flex items-center space-x-1">
-          <span className="text-xs text-gray-600">Filter:</span>
-          <select
-            value={discrepancyFilter}
-            onChange={(e) => setDiscrepancyFilter(e.target.value as any)}
-            className="border rounded-md px-2 py-1 focus:outline-none focus:ring-1 focus:ring-blue-500 text-xs"
-          >
-            <option value="all">All Items</option>
-            <option value="with_discrepancy">With Discrepancy</option>
-            <option value="no_discrepancy">No Discrepancy</option>
-          </select>
+          {setLocationId && locations.length > 1 && (
+            <>
+              <span className="text-xs text-gray-600">Location:</span>
+              <select
+                value={locationId ?? 'all'}
+                onChange={(e) => setLocationId(e.target.value === 'all' ? null : Number(e.target.value))}
+                className="border rounded-md px-2 py-1 focus:outline-none focus:ring-1 focus:ring-blue-500 text-xs"
+              >
+                <option value="all">All Locations</option>
+                {locations.map(location => (
+                  <option key={location.id} value={location.id}>{location.name}</option>
+                ))}
+              </select>
+            </>
+          )}
+          {/* Discrepancies against the store only make sense for all locations together */}
+          {locationId === null && (
+            <>
+              <span className="text-xs text-gray-600">Filter:</span>
+              <select
+                value={discrepancyFilter}
+                onChange={(e) => setDiscrepancyFilter(e.target.value as any)}
+                className="border rounded-md px-2 py-1 focus:outline-none focus:ring-1 focus:ring-blue-500 text-xs"
+              >
+                <option value="all">All Items</option>
+                <option value="with_discrepancy">With Discrepancy</option>
+                <option value="no_discrepancy">No Discrepancy</option>
+              </select>
+            </>
+          )}
         </div>
       </div>
     </div>
@@ -6,7 +6,9 @@ import {
   Info,
   ChevronDown,
   ChevronRight,
-  Trash2
+  Trash2,
+  Upload,
+  ArrowRightLeft
 } from 'lucide-react';
 import { formatDateTime } from '../../utils/formatters';
 
@@ -20,6 +22,9 @@ interface StockReconciliationHeaderProps {
   onRefresh: () => void;
   onGenerateReport: () => void;
   onCleanupDuplicates?: () => void;
+  selectedCount?: number;
+  onApplySelectedToStore?: () => void;
+  onTransferStock?: () => void;
 }
 
 const StockReconciliationHeader: React.FC<StockReconciliationHeaderProps> = ({
@@ -31,7 +36,10 @@ const StockReconciliationHeader: React.FC<StockReconciliationHeaderProps> = ({
   onAddAdjustment,
   onRefresh,
   onGenerateReport,
-  onCleanupDuplicates
+  onCleanupDuplicates,
+  selectedCount = 0,
+  onApplySelectedToStore,
+  onTransferStock
 }) => {
   return (
     <>
@@ -115,6 +123,16 @@ const StockReconciliationHeader: React.FC<StockReconciliationHeaderProps> = ({
             <Plus className="h-3 w-3 mr-1" />
             Add Adjustment
           </button>
+          {onTransferStock && (
+            <button
+              onClick={onTransferStock}
+              className="flex items-center px-2 py-1 bg-cyan-600 text-white rounded hover:bg-cyan-700 text-xs"
+              title="Move stock between locations"
+            >
+              <ArrowRightLeft className="h-3 w-3 mr-1" />
+              Transfer Stock
+            </button>
+          )}
           <button
             onClick={onRefresh}
             className={`flex items-center px-2 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 text-xs`}
@@ -141,6 +159,17 @@ const StockReconciliationHeader: React.FC<StockReconciliationHeaderProps> = ({
               Fix Duplicates
             </button>
           )}
+          {onApplySelectedToStore && (
+            <button
+              onClick={onApplySelectedToStore}
+              disabled={selectedCount === 0}
+              className="flex items-center px-2 py-1 bg-teal-600 text-white rounded hover:bg-teal-700 text-xs disabled:opacity-50"
+              title="Preview and write the expected stock of the selected SKUs to WooCommerce"
+            >
+              <Upload className="h-3 w-3 mr-1" />
+              Apply {selectedCount > 0 ? selectedCount : ''} to Store
+            </button>
+          )}
         </div>
       </div>
       
@@ -1,11 +1,12 @@
 import React from 'react';
-import { StockReconciliationSummary, StockMovement } from '../../types';
+import { StockReconciliationSummary, StockMovement, MovementReason } from '../../types';
 import StockMovementModal from './StockMovementModal';
 import StockAdjustmentModal from './StockAdjustmentModal';
 import ReconciliationModal from './ReconciliationModal';
 import InitialStockModal from './InitialStockModal';
 import ReconciliationReport from './ReconciliationReport';
 import ReconciliationHistoryModal from './ReconciliationHistoryModal';
+import ApplyToStoreModal from './ApplyToStoreModal';
 
 interface StockReconciliationModalsProps {
   // Modal visibility state
@@ -15,6 +16,8 @@ interface StockReconciliationModalsProps {
   showInitialStockModal: boolean;
   showReportModal: boolean;
   showReconciliationHistoryModal: boolean;
+  // SKUs to write back to the store, null while the modal is closed
+  storeUpdateSkus: string[] | null;
   
   // Data
   selectedSku: string | null;
@@ -37,13 +40,15 @@ interface StockReconciliationModalsProps {
   onCloseInitialStockModal: () => void;
   onCloseReportModal: () => void;
   onCloseReconciliationHistoryModal: () => void;
+  onCloseApplyToStoreModal: () => void;
   onSubmitAdjustment: (data: {
     sku: string;
     quantity: number;
-    reason: 'expiry' | 'damage' | 'theft' | 'correction' | 'other';
+    reason: MovementReason;
     notes: string;
     batchNumber?: string;
     date: Date;
+    locationId: number | null;
   }) => Promise<void>;
   onSubmitReconciliation: (data: {
     sku: string;
@@ -58,6 +63,7 @@ interface StockReconciliationModalsProps {
   onBulkUpload: (file: File) => Promise<void>;
   onMovementDeleted: (movementId: number) => Promise<void>;
   onRefresh: () => Promise<void>;
+  onStoreStockApplied: () => Promise<void>;
 }
 
 const StockReconciliationModals: React.FC<StockReconciliationModalsProps> = ({
@@ -68,6 +74,7 @@ const StockReconciliationModals: React.FC<StockReconciliationModalsProps> = ({
   showInitialStockModal,
   showReportModal,
   showReconciliationHistoryModal,
+  storeUpdateSkus,
   
   // Data
   selectedSku,
@@ -83,12 +90,14 @@ const StockReconciliationModals: React.FC<StockReconciliationModalsProps> = ({
   onCloseInitialStockModal,
   onCloseReportModal,
   onCloseReconciliationHistoryModal,
+  onCloseApplyToStoreModal,
   onSubmitAdjustment,
   onSubmitReconciliation,
   onSubmitInitialStock,
   onBulkUpload,
   onMovementDeleted,
-  onRefresh
+  onRefresh,
+  onStoreStockApplied
 }) => {
   return (
     <>
@@ -155,6 +164,16 @@ const StockReconciliationModals: React.FC<StockReconciliationModalsProps> = ({
           onRefresh={onRefresh}
         />
       )}
+
+      {/* Apply to Store Modal */}
+      {storeUpdateSkus && (
+        <ApplyToStoreModal
+          skus={storeUpdateSkus}
+          source="reconciliation"
+          onClose={onCloseApplyToStoreModal}
+          onApplied={onStoreStockApplied}
+        />
+      )}
     </>
   );
 };
@@ -1,6 +1,6 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { StockReconciliationSummary } from '../../types';
-import { formatNZDate } from '../../utils/dateUtils';
+import { ReconciliationSortField, StockReconciliationSummary } from '../../types';
+import { formatStoreDate } from '../../utils/dateUtils';
 import { 
   ChevronDown, 
   ChevronRight, 
@@ -11,7 +11,9 @@ import {
   BarChart2, 
   Edit,
   MoreHorizontal,
-  FileText
+  FileText,
+  ChevronLeft,
+  Upload
 } from 'lucide-react';
 
 interface StockReconciliationTableProps {
@@ -20,8 +22,18 @@ interface StockReconciliationTableProps {
   onReconcile: (sku: string) => void;
   onAddAdjustment: (sku?: string) => void;
   onViewReconciliationHistory: (sku: string) => void;
+  onApplyToStore: (sku: string) => void;
+  selectedSkus: Set<string>;
+  onSelectionChange: (skus: string[], selected: boolean) => void;
   loading?: boolean;
   isFiltered?: boolean;
+  sortField: ReconciliationSortField;
+  sortDirection: 'asc' | 'desc';
+  onSort: (field: ReconciliationSortField) => void;
+  page: number;
+  pageSize: number;
+  totalCount: number;
+  onPageChange: (page: number) => void;
 }
 
 const StockReconciliationTable: React.FC<StockReconciliationTableProps> = ({
@@ -30,11 +42,19 @@ const StockReconciliationTable: React.FC<StockReconciliationTableProps> = ({
   onReconcile,
   onAddAdjustment,
   onViewReconciliationHistory,
+  onApplyToStore,
+  selectedSkus,
+  onSelectionChange,
   loading = false,
-  isFiltered = false
+  isFiltered = false,
+  sortField,
+  sortDirection,
+  onSort,
+  page,
+  pageSize,
+  totalCount,
+  onPageChange
 }) => {
-  const [sortField, setSortField] = useState<keyof StockReconciliationSummary>('sku');
-  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
   const [openActionMenu, setOpenActionMenu] = useState<string | null>(null);
   const actionMenuRef = useRef<HTMLDivElement>(null);
 
@@ -51,49 +71,19 @@ const StockReconciliationTable: React.FC<StockReconciliationTableProps> = ({
     };
   }, []);
 
-  // Handle sort
-  const handleSort = (field: keyof StockReconciliationSummary) => {
-    if (field === sortField) {
-      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
-    } else {
-      setSortField(field);
-      setSortDirection('asc');
-    }
-  };
-
-  // Sort data
-  const sortedData = [...data].sort((a, b) => {
-    const aValue = a[sortField];
-    const bValue = b[sortField];
-
-    if (aValue === undefined) return sortDirection === 'asc' ? -1 : 1;
-    if (bValue === undefined) return sortDirection === 'asc' ? 1 : -1;
-
-    if (typeof aValue === 'string' && typeof bValue === 'string') {
-      return sortDirection === 'asc'
-        ? aValue.localeCompare(bValue)
-        : bValue.localeCompare(aValue);
-    }
-
-    if (aValue instanceof Date && bValue instanceof Date) {
-      return sortDirection === 'asc'
-        ? aValue.getTime() - bValue.getTime()
-        : bValue.getTime() - aValue.getTime();
-    }
-
-    if (typeof aValue === 'number' && typeof bValue === 'number') {
-      return sortDirection === 'asc' ? aValue - bValue : bValue - aValue;
-    }
-
-    return 0;
-  });
+  // Rows arrive sorted and paged from the database
+  const totalPages = Math.max(Math.ceil(totalCount / pageSize), 1);
+  const firstRow = totalCount === 0 ? 0 : (page - 1) * pageSize + 1;
+  const lastRow = Math.min(page * pageSize, totalCount);
 
   // Render sort indicator
-  const renderSortIndicator = (field: keyof StockReconciliationSummary) => {
+  const renderSortIndicator = (field: ReconciliationSortField) => {
     if (sortField !== field) return null;
     return sortDirection === 'asc' ? '↑' : '↓';
   };
 
+  const allSelected = data.length > 0 && data.every(item => selectedSkus.has(item.sku));
+
   // Toggle action menu
   const toggleActionMenu = (sku: string, e: React.MouseEvent) => {
     e.stopPropagation();
@@ -123,10 +113,18 @@ const StockReconciliationTable: React.FC<StockReconciliationTableProps> = ({
           <table className="w-full divide-y divide-gray-200 border-collapse">
             <thead className="bg-gray-50">
               <tr>
+                <th className="w-6 px-1 py-2">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    onChange={() => onSelectionChange(data.map(item => item.sku), !allSelected)}
+                    title="Select this page"
+                  />
+                </th>
                 <th className="w-20 px-1 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   <button
                     className="flex items-center focus:outline-none"
-                    onClick={() => handleSort('sku')}
+                    onClick={() => onSort('sku')}
                   >
                     <span className="hidden sm:inline">SKU</span>
                     <span className="sm:hidden">ID</span> {renderSortIndicator('sku')}
@@ -135,7 +133,7 @@ const StockReconciliationTable: React.FC<StockReconciliationTableProps> = ({
                 <th className="w-32 px-1 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   <button
                     className="flex items-center focus:outline-none"
-                    onClick={() => handleSort('product_name')}
+                    onClick={() => onSort('product_name')}
                   >
                     <span className="hidden sm:inline">Product</span>
                     <span className="sm:hidden">Prod</span> {renderSortIndicator('product_name')}
@@ -144,7 +142,7 @@ const StockReconciliationTable: React.FC<StockReconciliationTableProps> = ({
                 <th className="w-16 px-1 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   <button
                     className="flex items-center focus:outline-none"
-                    onClick={() => handleSort('initial_stock')}
+                    onClick={() => onSort('initial_stock')}
                   >
                     <span className="hidden sm:inline">Init</span>
                     <span className="sm:hidden">In</span> {renderSortIndicator('initial_stock')}
@@ -153,7 +151,7 @@ const StockReconciliationTable: React.FC<StockReconciliationTableProps> = ({
                 <th className="w-16 px-1 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   <button
                     className="flex items-center focus:outline-none"
-                    onClick={() => handleSort('total_sales')}
+                    onClick={() => onSort('total_sales')}
                   >
                     <span className="hidden sm:inline">Sales</span>
                     <span className="sm:hidden">Sl</span> {renderSortIndicator('total_sales')}
@@ -162,7 +160,7 @@ const StockReconciliationTable: React.FC<StockReconciliationTableProps> = ({
                 <th className="w-16 px-1 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   <button
                     className="flex items-center focus:outline-none"
-                    onClick={() => handleSort('total_adjustments')}
+                    onClick={() => onSort('total_adjustments')}
                   >
                     Adj {renderSortIndicator('total_adjustments')}
                   </button>
@@ -170,7 +168,7 @@ const StockReconciliationTable: React.FC<StockReconciliationTableProps> = ({
                 <th className="w-16 px-1 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   <button
                     className="flex items-center focus:outline-none"
-                    onClick={() => handleSort('total_purchases')}
+                    onClick={() => onSort('total_purchases')}
                   >
                     Purch {renderSortIndicator('total_purchases')}
                   </button>
@@ -178,7 +176,7 @@ const StockReconciliationTable: React.FC<StockReconciliationTableProps> = ({
                 <th className="w-16 px-1 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   <button
                     className="flex items-center focus:outline-none"
-                    onClick={() => handleSort('expected_stock')}
+                    onClick={() => onSort('expected_stock')}
                   >
                     Exp {renderSortIndicator('expected_stock')}
                   </button>
@@ -186,7 +184,7 @@ const StockReconciliationTable: React.FC<StockReconciliationTableProps> = ({
                 <th className="w-16 px-1 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   <button
                     className="flex items-center focus:outline-none"
-                    onClick={() => handleSort('actual_stock')}
+                    onClick={() => onSort('actual_stock')}
                   >
                     Act {renderSortIndicator('actual_stock')}
                   </button>
@@ -194,7 +192,7 @@ const StockReconciliationTable: React.FC<StockReconciliationTableProps> = ({
                 <th className="w-20 px-1 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   <button
                     className="flex items-center focus:outline-none"
-                    onClick={() => handleSort('discrepancy')}
+                    onClick={() => onSort('discrepancy')}
                   >
                     Disc {renderSortIndicator('discrepancy')}
                   </button>
@@ -202,7 +200,7 @@ const StockReconciliationTable: React.FC<StockReconciliationTableProps> = ({
                 <th className="w-24 px-1 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   <button
                     className="flex items-center focus:outline-none"
-                    onClick={() => handleSort('last_reconciled')}
+                    onClick={() => onSort('last_reconciled')}
                   >
                     Last Rec {renderSortIndicator('last_reconciled')}
                   </button>
@@ -213,11 +211,18 @@ const StockReconciliationTable: React.FC<StockReconciliationTableProps> = ({
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {sortedData.map((item) => (
+              {data.map((item) => (
                 <tr 
                   key={item.sku}
                   className={`hover:bg-gray-50 ${Math.abs(item.discrepancy) > 0 ? 'bg-red-50' : ''}`}
                 >
+                  <td className="px-1 py-2">
+                    <input
+                      type="checkbox"
+                      checked={selectedSkus.has(item.sku)}
+                      onChange={(e) => onSelectionChange([item.sku], e.target.checked)}
+                    />
+                  </td>
                   <td className="px-1 py-2 whitespace-nowrap text-xs font-medium text-gray-900">
                     {item.sku}
                   </td>
@@ -252,7 +257,7 @@ const StockReconciliationTable: React.FC<StockReconciliationTableProps> = ({
                     )}
                   </td>
                   <td className="px-1 py-2 whitespace-nowrap text-xs text-gray-500">
-                    {item.last_reconciled ? formatNZDate(item.last_reconciled) : 'Never'}
+                    {item.last_reconciled ? formatStoreDate(item.last_reconciled) : 'Never'}
                   </td>
                   <td className="px-1 py-2 whitespace-nowrap text-xs text-gray-500 relative">
                     <button
@@ -313,6 +318,17 @@ const StockReconciliationTable: React.FC<StockReconciliationTableProps> = ({
                             <FileText className="mr-2 h-4 w-4" />
                             Reconciliation History
                           </button>
+                          <button
+                            onClick={() => {
+                              setOpenActionMenu(null);
+                              onApplyToStore(item.sku);
+                            }}
+                            className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
+                            title="Write the expected stock to WooCommerce"
+                          >
+                            <Upload className="mr-2 h-4 w-4" />
+                            Apply to Store
+                          </button>
                         </div>
                       </div>
                     )}
@@ -321,6 +337,32 @@ const StockReconciliationTable: React.FC<StockReconciliationTableProps> = ({
               ))}
             </tbody>
           </table>
+          
+          {/* Pagination */}
+          <div className="flex items-center justify-between px-2 py-3 border-t border-gray-200 text-xs text-gray-600">
+            <span>
+              Showing {firstRow}-{lastRow} of {totalCount} SKUs
+            </span>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => onPageChange(page - 1)}
+                disabled={page <= 1}
+                className="p-1 rounded border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Previous page"
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </button>
+              <span>Page {page} of {totalPages}</span>
+              <button
+                onClick={() => onPageChange(page + 1)}
+                disabled={page >= totalPages}
+                className="p-1 rounded border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Next page"
+              >
+                <ChevronRight className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
         </div>
       )}
     </div>
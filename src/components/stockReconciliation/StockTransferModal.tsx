@@ -0,0 +1,203 @@
+import React, { useEffect, useState } from 'react';
+import { X, AlertCircle, ArrowRight } from 'lucide-react';
+import { StockLocation } from '../../types';
+import { generateLocationStockSummaries, getDefaultLocationId, transferStock } from '../../db/operations/stockLocations';
+import { DateSelector, ProductSelector, Product } from './StockAdjustmentComponents';
+
+interface StockTransferModalProps {
+  locations: StockLocation[];
+  products: Product[];
+  sku?: string;
+  productName?: string;
+  fromLocationId?: number;
+  onClose: () => void;
+  onTransferred: () => void;
+}
+
+const StockTransferModal: React.FC<StockTransferModalProps> = ({
+  locations,
+  products,
+  sku,
+  productName,
+  fromLocationId,
+  onClose,
+  onTransferred
+}) => {
+  const active = locations.filter(location => location.active);
+  const defaultLocationId = getDefaultLocationId(locations);
+
+  const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
+  const [fromId, setFromId] = useState<number | undefined>(fromLocationId ?? defaultLocationId);
+  const [toId, setToId] = useState<number | undefined>(active.find(location => location.id !== (fromLocationId ?? defaultLocationId))?.id);
+  const [quantity, setQuantity] = useState<number>(1);
+  const [date, setDate] = useState<Date>(new Date());
+  const [notes, setNotes] = useState('');
+  const [available, setAvailable] = useState<Map<string, number>>(new Map());
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Expected stock at the location the stock leaves from
+  useEffect(() => {
+    if (!fromId) return;
+
+    const loadAvailable = async () => {
+      try {
+        const summaries = await generateLocationStockSummaries(fromId);
+        setAvailable(new Map(summaries.map(summary => [summary.sku, summary.expected_stock])));
+      } catch (err) {
+        console.error('Error loading stock at location:', err);
+      }
+    };
+
+    loadAvailable();
+  }, [fromId]);
+
+  const availableQuantity = selectedProduct ? available.get(selectedProduct.sku) ?? 0 : 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!selectedProduct) {
+      setError('Please select a product');
+      return;
+    }
+    if (!fromId || !toId || fromId === toId) {
+      setError('Choose two different locations');
+      return;
+    }
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      setError('Quantity must be a whole number above zero');
+      return;
+    }
+    if (quantity > availableQuantity && !window.confirm(`Only ${availableQuantity} expected at this location. Transfer ${quantity} anyway?`)) {
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await transferStock({
+        sku: selectedProduct.sku,
+        quantity,
+        fromLocationId: fromId,
+        toLocationId: toId,
+        date,
+        notes: notes || undefined
+      });
+      onTransferred();
+      onClose();
+    } catch (err) {
+      console.error('Error transferring stock:', err);
+      setError(err instanceof Error ? err.message : 'Failed to transfer stock');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-lg w-full max-w-md max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center p-4 border-b">
+          <h2 className="text-xl font-semibold">Transfer Stock</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 p-1 rounded-full hover:bg-gray-100">
+            <X size={24} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-4">
+          <ProductSelector
+            products={products}
+            selectedProduct={selectedProduct}
+            setSelectedProduct={setSelectedProduct}
+            initialSku={sku}
+            initialProductName={productName}
+            initialStock={sku ? available.get(sku) ?? 0 : undefined}
+            autoFocus={!sku}
+          />
+
+          <div className="mb-4 flex items-end gap-2">
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+              <select
+                value={fromId ?? ''}
+                onChange={(e) => setFromId(Number(e.target.value))}
+                className="border rounded-lg p-2 w-full"
+              >
+                {active.map(location => (
+                  <option key={location.id} value={location.id}>{location.name}</option>
+                ))}
+              </select>
+            </div>
+            <ArrowRight className="h-5 w-5 text-gray-400 mb-2.5" />
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+              <select
+                value={toId ?? ''}
+                onChange={(e) => setToId(Number(e.target.value))}
+                className="border rounded-lg p-2 w-full"
+              >
+                {active.map(location => (
+                  <option key={location.id} value={location.id}>{location.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Quantity</label>
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={quantity}
+              onChange={(e) => setQuantity(parseInt(e.target.value) || 0)}
+              className="border rounded-lg p-2 w-full"
+            />
+            {selectedProduct && (
+              <p className="text-xs text-gray-500 mt-1 ml-1">{availableQuantity} expected at the source location</p>
+            )}
+          </div>
+
+          <DateSelector date={date} setDate={setDate} />
+
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+              className="border rounded-lg p-2 w-full"
+              placeholder="Optional"
+            />
+          </div>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-100 text-red-700 rounded-lg border border-red-200 flex items-start">
+              <AlertCircle size={16} className="mr-2 mt-0.5 flex-shrink-0" />
+              <div>{error}</div>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border rounded-lg text-gray-700 hover:bg-gray-100 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Transferring...' : 'Transfer'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default StockTransferModal;
@@ -0,0 +1,197 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { ScanLine, CheckCircle, AlertCircle } from 'lucide-react';
+import { StocktakeLine } from '../../types';
+
+interface StocktakeCountEntryProps {
+  lines: StocktakeLine[];
+  blind: boolean;
+  onCount: (line: StocktakeLine, quantity: number | null) => Promise<void>;
+}
+
+const StocktakeCountEntry: React.FC<StocktakeCountEntryProps> = ({ lines, blind, onCount }) => {
+  const [scanValue, setScanValue] = useState('');
+  const [scanQuantity, setScanQuantity] = useState(1);
+  const [scanMessage, setScanMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [uncountedOnly, setUncountedOnly] = useState(false);
+  // Typed counts not yet saved, keyed by line ID
+  const [drafts, setDrafts] = useState<Record<number, string>>({});
+  const scanInputRef = useRef<HTMLInputElement>(null);
+  // Counts still being saved, so quick scans of the same SKU add up
+  const pendingCounts = useRef<Record<number, number>>({});
+
+  useEffect(() => {
+    scanInputRef.current?.focus();
+  }, []);
+
+  // Barcode scanners act as a keyboard and finish each code with Enter
+  const handleScan = async (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+
+    const code = scanValue.trim();
+    setScanValue('');
+    if (!code) return;
+
+    const line = lines.find(item => item.sku.toLowerCase() === code.toLowerCase());
+    if (!line) {
+      setScanMessage({ type: 'error', text: `${code} is not part of this stocktake` });
+      return;
+    }
+
+    const quantity = (pendingCounts.current[line.id!] ?? line.counted_quantity ?? 0) + scanQuantity;
+    pendingCounts.current[line.id!] = quantity;
+    try {
+      await onCount(line, quantity);
+      setScanMessage({ type: 'success', text: `${line.sku} ${line.product_name}: ${quantity} counted` });
+    } catch (err) {
+      console.error(`Error saving count for ${line.sku}:`, err);
+      setScanMessage({ type: 'error', text: `Failed to save count for ${line.sku}` });
+    } finally {
+      if (pendingCounts.current[line.id!] === quantity) {
+        delete pendingCounts.current[line.id!];
+      }
+    }
+  };
+
+  const commitDraft = async (line: StocktakeLine) => {
+    const draft = drafts[line.id!];
+    if (draft === undefined) return;
+
+    const quantity = draft.trim() === '' ? null : Math.max(parseInt(draft) || 0, 0);
+    setDrafts(prev => {
+      const next = { ...prev };
+      delete next[line.id!];
+      return next;
+    });
+    if (quantity === line.counted_quantity) return;
+
+    try {
+      await onCount(line, quantity);
+    } catch (err) {
+      console.error(`Error saving count for ${line.sku}:`, err);
+      setScanMessage({ type: 'error', text: `Failed to save count for ${line.sku}` });
+    }
+  };
+
+  const countedLines = lines.filter(line => line.counted_quantity !== null).length;
+  const term = searchTerm.trim().toLowerCase();
+  const visibleLines = lines.filter(line =>
+    (!uncountedOnly || line.counted_quantity === null) &&
+    (!term || line.sku.toLowerCase().includes(term) || line.product_name.toLowerCase().includes(term))
+  );
+
+  return (
+    <div>
+      <div className="p-4 border-b bg-gray-50">
+        <div className="flex flex-col md:flex-row md:items-end gap-3">
+          <div className="flex-grow">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Scan or type a SKU and press Enter</label>
+            <div className="relative">
+              <ScanLine className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <input
+                ref={scanInputRef}
+                type="text"
+                className="w-full pl-9 p-2 border rounded text-sm font-mono"
+                value={scanValue}
+                onChange={(e) => setScanValue(e.target.value)}
+                onKeyDown={handleScan}
+                autoComplete="off"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Quantity per scan</label>
+            <input
+              type="number"
+              min="1"
+              className="w-28 p-2 border rounded text-sm text-right"
+              value={scanQuantity}
+              onChange={(e) => setScanQuantity(Math.max(parseInt(e.target.value) || 1, 1))}
+            />
+          </div>
+        </div>
+        {scanMessage && (
+          <div className={`mt-2 flex items-center text-sm ${scanMessage.type === 'success' ? 'text-green-700' : 'text-red-600'}`}>
+            {scanMessage.type === 'success'
+              ? <CheckCircle className="h-4 w-4 mr-1" />
+              : <AlertCircle className="h-4 w-4 mr-1" />}
+            {scanMessage.text}
+          </div>
+        )}
+      </div>
+
+      <div className="p-4 flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <span className="text-sm text-gray-600">
+          {countedLines} of {lines.length} SKUs counted
+        </span>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              className="mr-2"
+              checked={uncountedOnly}
+              onChange={(e) => setUncountedOnly(e.target.checked)}
+            />
+            Uncounted only
+          </label>
+          <input
+            type="text"
+            className="p-2 border rounded text-sm"
+            placeholder="Filter SKUs"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">SKU</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+              {!blind && (
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Expected</th>
+              )}
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Counted</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {visibleLines.map(line => (
+              <tr key={line.id} className={line.counted_quantity !== null ? 'bg-green-50' : ''}>
+                <td className="px-4 py-2 whitespace-nowrap text-sm font-mono text-gray-900">{line.sku}</td>
+                <td className="px-4 py-2 text-sm text-gray-700">{line.product_name}</td>
+                {!blind && (
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-right text-gray-500">{line.expected_quantity}</td>
+                )}
+                <td className="px-4 py-2 whitespace-nowrap text-right">
+                  <input
+                    type="number"
+                    min="0"
+                    className="w-24 p-1 border rounded text-sm text-right"
+                    value={drafts[line.id!] ?? (line.counted_quantity ?? '')}
+                    onChange={(e) => setDrafts(prev => ({ ...prev, [line.id!]: e.target.value }))}
+                    onBlur={() => commitDraft(line)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') e.currentTarget.blur();
+                    }}
+                  />
+                </td>
+              </tr>
+            ))}
+            {visibleLines.length === 0 && (
+              <tr>
+                <td colSpan={blind ? 3 : 4} className="px-4 py-6 text-center text-sm text-gray-500">
+                  No SKUs to show
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default StocktakeCountEntry;
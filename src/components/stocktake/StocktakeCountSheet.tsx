@@ -0,0 +1,82 @@
+import React from 'react';
+import { Printer, X } from 'lucide-react';
+import { StocktakeLine, StocktakeSession } from '../../types';
+import { formatStoreDate } from '../../utils/dateUtils';
+
+interface StocktakeCountSheetProps {
+  session: StocktakeSession;
+  lines: StocktakeLine[];
+  onClose: () => void;
+}
+
+const StocktakeCountSheet: React.FC<StocktakeCountSheetProps> = ({ session, lines, onClose }) => {
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-lg w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-4 border-b print:border-b-black">
+          <h2 className="text-xl font-semibold">Count Sheet: {session.name}</h2>
+          <div className="flex space-x-2 print:hidden">
+            <button
+              onClick={() => window.print()}
+              className="text-blue-600 hover:text-blue-800"
+              title="Print Count Sheet"
+            >
+              <Printer size={20} />
+            </button>
+            <button
+              onClick={onClose}
+              className="text-gray-500 hover:text-gray-700"
+              title="Close"
+            >
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-y-auto flex-grow p-4">
+          <div className="grid grid-cols-3 gap-4 mb-4 text-sm">
+            <div>
+              <div className="text-gray-500">Location</div>
+              <div className="font-medium">{session.location || '-'}</div>
+            </div>
+            <div>
+              <div className="text-gray-500">Started</div>
+              <div className="font-medium">{formatStoreDate(new Date(session.started_at))}</div>
+            </div>
+            <div>
+              <div className="text-gray-500">Counted By</div>
+              <div className="border-b border-gray-400 h-5" />
+            </div>
+          </div>
+
+          <table className="min-w-full border print:border-black">
+            <thead className="bg-gray-100 print:bg-gray-200">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase border-b print:border-black">SKU</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase border-b print:border-black">Product</th>
+                {!session.blind && (
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase border-b print:border-black">Expected</th>
+                )}
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase border-b print:border-black w-32">Count</th>
+              </tr>
+            </thead>
+            <tbody>
+              {lines.map(line => (
+                <tr key={line.id}>
+                  <td className="px-3 py-2 text-sm font-mono border-b print:border-black">{line.sku}</td>
+                  <td className="px-3 py-2 text-sm border-b print:border-black">{line.product_name}</td>
+                  {!session.blind && (
+                    <td className="px-3 py-2 text-sm text-right border-b print:border-black">{line.expected_quantity}</td>
+                  )}
+                  <td className="px-3 py-2 border-b border-l print:border-black" />
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StocktakeCountSheet;
@@ -0,0 +1,264 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { ArrowLeft, ClipboardList, FileText, Lock, RefreshCw, RotateCcw, Upload, XCircle } from 'lucide-react';
+import { StocktakeLine, StocktakeSession, StocktakeVariance } from '../../types';
+import {
+  approveStocktakeLines,
+  cancelStocktakeSession,
+  closeStocktakeCounting,
+  getStocktakeSession,
+  getStocktakeVariances,
+  recordStocktakeCount,
+  reopenStocktakeCounting
+} from '../../db/operations/stocktake';
+import { formatStoreDate } from '../../utils/dateUtils';
+import StocktakeCountEntry from './StocktakeCountEntry';
+import StocktakeVarianceReview from './StocktakeVarianceReview';
+import StocktakeCountSheet from './StocktakeCountSheet';
+import StocktakeVarianceReport from './StocktakeVarianceReport';
+import StocktakeStatusBadge from './StocktakeStatusBadge';
+import ApplyToStoreModal from '../stockReconciliation/ApplyToStoreModal';
+
+interface StocktakeDetailProps {
+  sessionId: number;
+  onBack: () => void;
+}
+
+const StocktakeDetail: React.FC<StocktakeDetailProps> = ({ sessionId, onBack }) => {
+  const [session, setSession] = useState<StocktakeSession | null>(null);
+  const [lines, setLines] = useState<StocktakeLine[]>([]);
+  const [variances, setVariances] = useState<StocktakeVariance[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [approving, setApproving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [showCountSheet, setShowCountSheet] = useState(false);
+  const [showReport, setShowReport] = useState(false);
+  const [showApplyToStore, setShowApplyToStore] = useState(false);
+
+  const loadSession = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await getStocktakeSession(sessionId);
+      setSession(data.session);
+      setLines(data.lines);
+      if (data.session.status !== 'counting') {
+        setVariances(await getStocktakeVariances(data.lines));
+      }
+    } catch (err) {
+      console.error('Error loading stocktake:', err);
+      setError('Failed to load stocktake');
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    loadSession();
+  }, [loadSession]);
+
+  const handleCount = async (line: StocktakeLine, quantity: number | null) => {
+    const updated = await recordStocktakeCount(line.id!, quantity);
+    setLines(prev => prev.map(item => item.id === updated.id ? updated : item));
+  };
+
+  const runSessionAction = async (action: () => Promise<StocktakeSession>, failure: string) => {
+    setError(null);
+    setSuccess(null);
+    try {
+      await action();
+      await loadSession();
+    } catch (err) {
+      console.error(failure, err);
+      setError(failure);
+    }
+  };
+
+  const handleCloseCounting = () => {
+    const uncounted = lines.filter(line => line.counted_quantity === null).length;
+    if (uncounted > 0 && !window.confirm(`${uncounted} SKUs have not been counted and will not be adjusted. Close counting?`)) {
+      return;
+    }
+    runSessionAction(() => closeStocktakeCounting(sessionId), 'Failed to close counting');
+  };
+
+  const handleCancel = () => {
+    if (!window.confirm('Cancel this stocktake? Variances that were already approved are kept.')) return;
+    runSessionAction(() => cancelStocktakeSession(sessionId), 'Failed to cancel stocktake');
+  };
+
+  const handleApprove = async (selectedLines: StocktakeLine[], notes: string) => {
+    if (!session) return;
+
+    setApproving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const result = await approveStocktakeLines(session, selectedLines, notes || undefined);
+      if (result.errors.length > 0) {
+        setError(`Failed to approve ${result.errors.length} SKUs: ${result.errors.join('; ')}`);
+      }
+      if (result.approved.length > 0) {
+        setSuccess(`Approved ${result.approved.length} SKUs and recorded their correction adjustments`);
+      }
+      await loadSession();
+    } catch (err) {
+      console.error('Error approving stocktake variances:', err);
+      setError(err instanceof Error ? err.message : 'Failed to approve variances');
+    } finally {
+      setApproving(false);
+    }
+  };
+
+  // Kept stable so the store preview is only read when the lines change
+  const approvedSkus = useMemo(
+    () => lines.filter(line => line.status === 'approved').map(line => line.sku),
+    [lines]
+  );
+
+  if (loading && !session) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <RefreshCw className="animate-spin h-8 w-8 text-indigo-600" />
+      </div>
+    );
+  }
+
+  if (!session) {
+    return (
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <p className="text-red-600 mb-4">{error || 'Stocktake not found'}</p>
+        <button onClick={onBack} className="text-blue-600 hover:text-blue-800">Back to stocktakes</button>
+      </div>
+    );
+  }
+
+  const hasApprovedLines = lines.some(line => line.status === 'approved');
+  const uncountedLines = lines.filter(line => line.counted_quantity === null).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white rounded-lg shadow-md p-4">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+          <div className="flex items-center">
+            <button onClick={onBack} className="mr-3 text-gray-500 hover:text-gray-700" title="Back">
+              <ArrowLeft size={20} />
+            </button>
+            <div>
+              <h2 className="text-lg font-semibold flex items-center gap-2">
+                {session.name}
+                <StocktakeStatusBadge status={session.status} />
+                {session.blind && (
+                  <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">blind</span>
+                )}
+              </h2>
+              <p className="text-sm text-gray-500">
+                {session.location ? `${session.location}, ` : ''}started {formatStoreDate(new Date(session.started_at))}, {lines.length} SKUs
+              </p>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => setShowCountSheet(true)}
+              className="flex items-center px-3 py-2 rounded-md text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+            >
+              <ClipboardList size={16} className="mr-1.5" />
+              Count Sheet
+            </button>
+            {session.status !== 'counting' && (
+              <button
+                onClick={() => setShowReport(true)}
+                className="flex items-center px-3 py-2 rounded-md text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+              >
+                <FileText size={16} className="mr-1.5" />
+                Variance Report
+              </button>
+            )}
+            {hasApprovedLines && (
+              <button
+                onClick={() => setShowApplyToStore(true)}
+                className="flex items-center px-3 py-2 rounded-md text-sm font-medium bg-teal-600 text-white hover:bg-teal-700"
+                title="Preview and write the approved counts to WooCommerce"
+              >
+                <Upload size={16} className="mr-1.5" />
+                Apply to Store
+              </button>
+            )}
+            {session.status === 'counting' && (
+              <button
+                onClick={handleCloseCounting}
+                className="flex items-center px-3 py-2 rounded-md text-sm font-medium bg-indigo-600 text-white hover:bg-indigo-700"
+              >
+                <Lock size={16} className="mr-1.5" />
+                Close Counting
+              </button>
+            )}
+            {session.status === 'review' && !hasApprovedLines && (
+              <button
+                onClick={() => runSessionAction(() => reopenStocktakeCounting(sessionId), 'Failed to reopen counting')}
+                className="flex items-center px-3 py-2 rounded-md text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+              >
+                <RotateCcw size={16} className="mr-1.5" />
+                Reopen Counting
+              </button>
+            )}
+            {(session.status === 'counting' || session.status === 'review') && (
+              <button
+                onClick={handleCancel}
+                className="flex items-center px-3 py-2 rounded-md text-sm font-medium bg-red-50 text-red-700 hover:bg-red-100"
+              >
+                <XCircle size={16} className="mr-1.5" />
+                Cancel
+              </button>
+            )}
+          </div>
+        </div>
+        {session.notes && <p className="mt-2 text-sm text-gray-600">{session.notes}</p>}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded text-sm">{error}</div>
+      )}
+      {success && (
+        <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded text-sm">{success}</div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        {session.status === 'counting' ? (
+          <StocktakeCountEntry lines={lines} blind={session.blind} onCount={handleCount} />
+        ) : (
+          <StocktakeVarianceReview
+            variances={variances}
+            uncountedLines={uncountedLines}
+            canApprove={session.status === 'review'}
+            approving={approving}
+            onApprove={handleApprove}
+          />
+        )}
+      </div>
+
+      {showCountSheet && (
+        <StocktakeCountSheet session={session} lines={lines} onClose={() => setShowCountSheet(false)} />
+      )}
+      {showReport && (
+        <StocktakeVarianceReport
+          session={session}
+          lines={lines}
+          variances={variances}
+          onClose={() => setShowReport(false)}
+        />
+      )}
+      {showApplyToStore && (
+        <ApplyToStoreModal
+          skus={approvedSkus}
+          source="stocktake"
+          stocktakeSessionId={session.id}
+          onClose={() => setShowApplyToStore(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default StocktakeDetail;
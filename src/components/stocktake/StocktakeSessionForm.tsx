@@ -0,0 +1,215 @@
+import React, { useEffect, useState } from 'react';
+import { NewStocktakeSession, StockLocation, StocktakeScope } from '../../types';
+import { formatStoreDateOnly } from '../../utils/dateUtils';
+import { getStockLocations } from '../../db/operations/stockLocations';
+
+interface StocktakeSessionFormProps {
+  onSubmit: (input: NewStocktakeSession) => Promise<void>;
+  onCancel: () => void;
+}
+
+const scopeOptions: { value: StocktakeScope; label: string; description: string }[] = [
+  { value: 'all', label: 'All SKUs', description: 'Every SKU with stock movements' },
+  { value: 'search', label: 'Matching SKUs', description: 'SKUs or product names containing a search term' },
+  { value: 'skus', label: 'SKU list', description: 'Paste or scan the SKUs to count' }
+];
+
+const StocktakeSessionForm: React.FC<StocktakeSessionFormProps> = ({ onSubmit, onCancel }) => {
+  const [form, setForm] = useState<NewStocktakeSession>({
+    name: `Stocktake ${formatStoreDateOnly(new Date())}`,
+    location: '',
+    location_id: null,
+    scope: 'all',
+    scope_value: '',
+    blind: false,
+    notes: ''
+  });
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+
+  useEffect(() => {
+    const loadLocations = async () => {
+      try {
+        setLocations((await getStockLocations()).filter(location => location.active));
+      } catch (err) {
+        console.error('Error loading stock locations:', err);
+      }
+    };
+
+    loadLocations();
+  }, []);
+
+  // Counting one location also names the stocktake after it
+  const handleStockLocationChange = (value: string) => {
+    const stockLocation = locations.find(location => location.id === Number(value));
+    setForm({
+      ...form,
+      location_id: stockLocation?.id ?? null,
+      location: stockLocation ? stockLocation.name : form.location
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim()) {
+      setError('Name is required');
+      return;
+    }
+    if (form.scope !== 'all' && !form.scope_value?.trim()) {
+      setError(form.scope === 'search' ? 'Enter a search term' : 'Enter at least one SKU');
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit({
+        ...form,
+        name: form.name.trim(),
+        location: form.location?.trim() || undefined,
+        scope_value: form.scope === 'all' ? undefined : form.scope_value?.trim(),
+        notes: form.notes?.trim() || undefined
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start stocktake');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-md p-6 space-y-4">
+      <h2 className="text-lg font-semibold">New Stocktake</h2>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded text-sm">{error}</div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+          <input
+            type="text"
+            className="w-full p-2 border rounded text-sm"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Location</label>
+          <input
+            type="text"
+            className="w-full p-2 border rounded text-sm"
+            placeholder="e.g. Back store room"
+            value={form.location}
+            onChange={(e) => setForm({ ...form, location: e.target.value })}
+          />
+        </div>
+        {locations.length > 1 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Stock Location</label>
+            <select
+              className="w-full p-2 border rounded text-sm"
+              value={form.location_id ?? ''}
+              onChange={(e) => handleStockLocationChange(e.target.value)}
+            >
+              <option value="">All locations</option>
+              {locations.map(location => (
+                <option key={location.id} value={location.id}>{location.name}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              Expected quantities and corrections are for this location only
+            </p>
+          </div>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">SKUs to Count</label>
+        <div className="space-y-2">
+          {scopeOptions.map(option => (
+            <label key={option.value} className="flex items-start text-sm">
+              <input
+                type="radio"
+                name="scope"
+                className="mt-1 mr-2"
+                checked={form.scope === option.value}
+                onChange={() => setForm({ ...form, scope: option.value })}
+              />
+              <span>
+                <span className="font-medium text-gray-800">{option.label}</span>
+                <span className="text-gray-500 ml-2">{option.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+        {form.scope === 'search' && (
+          <input
+            type="text"
+            className="mt-2 w-full p-2 border rounded text-sm"
+            placeholder="Search term"
+            value={form.scope_value}
+            onChange={(e) => setForm({ ...form, scope_value: e.target.value })}
+          />
+        )}
+        {form.scope === 'skus' && (
+          <textarea
+            className="mt-2 w-full p-2 border rounded text-sm font-mono"
+            rows={5}
+            placeholder="One SKU per line, or separated by commas"
+            value={form.scope_value}
+            onChange={(e) => setForm({ ...form, scope_value: e.target.value })}
+          />
+        )}
+      </div>
+
+      <label className="flex items-start text-sm">
+        <input
+          type="checkbox"
+          className="mt-1 mr-2"
+          checked={form.blind}
+          onChange={(e) => setForm({ ...form, blind: e.target.checked })}
+        />
+        <span>
+          <span className="font-medium text-gray-800">Blind count</span>
+          <span className="text-gray-500 ml-2">Hide expected quantities from counters until counting is closed</span>
+        </span>
+      </label>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+        <textarea
+          className="w-full p-2 border rounded text-sm"
+          rows={2}
+          value={form.notes}
+          onChange={(e) => setForm({ ...form, notes: e.target.value })}
+        />
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Expected quantities are frozen when the stocktake starts. Variances are measured against them when they are approved.
+      </p>
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={submitting}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-md text-sm hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {submitting ? 'Starting...' : 'Start Stocktake'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default StocktakeSessionForm;
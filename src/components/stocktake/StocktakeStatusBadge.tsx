@@ -0,0 +1,17 @@
+import React from 'react';
+import { StocktakeStatus } from '../../types';
+
+const statusStyles: Record<StocktakeStatus, string> = {
+  counting: 'bg-blue-100 text-blue-800',
+  review: 'bg-yellow-100 text-yellow-800',
+  completed: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-800'
+};
+
+const StocktakeStatusBadge: React.FC<{ status: StocktakeStatus }> = ({ status }) => (
+  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusStyles[status]}`}>
+    {status}
+  </span>
+);
+
+export default StocktakeStatusBadge;
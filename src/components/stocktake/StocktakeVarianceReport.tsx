@@ -0,0 +1,159 @@
+import React from 'react';
+import { Download, Printer, X } from 'lucide-react';
+import { StocktakeLine, StocktakeSession, StocktakeVariance } from '../../types';
+import { formatStoreDate, formatStoreDateOnly } from '../../utils/dateUtils';
+import { formatCurrency } from '../../services/reports/utils';
+
+interface StocktakeVarianceReportProps {
+  session: StocktakeSession;
+  lines: StocktakeLine[];
+  variances: StocktakeVariance[];
+  onClose: () => void;
+}
+
+const escapeCsvValue = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+const StocktakeVarianceReport: React.FC<StocktakeVarianceReportProps> = ({
+  session,
+  lines,
+  variances,
+  onClose
+}) => {
+  const withVariance = variances.filter(item => item.variance !== 0);
+  const netUnits = variances.reduce((sum, item) => sum + item.variance, 0);
+  const netValue = variances.reduce((sum, item) => sum + item.variance_value, 0);
+  const approvedLines = lines.filter(line => line.status === 'approved').length;
+
+  const handleDownloadCSV = () => {
+    const headers = ['SKU', 'Product', 'Expected', 'Counted', 'Variance', 'Unit Cost', 'Variance Value', 'Status', 'Approved At'];
+    const rows = variances.map(item => [
+      item.line.sku,
+      item.line.product_name,
+      item.line.expected_quantity.toString(),
+      String(item.line.counted_quantity),
+      item.variance.toString(),
+      item.unit_cost.toFixed(2),
+      item.variance_value.toFixed(2),
+      item.line.status,
+      item.line.approved_at ? formatStoreDate(new Date(item.line.approved_at)) : ''
+    ]);
+
+    const csvContent = [headers, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\n');
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `stocktake_${session.id}_variances_${formatStoreDateOnly(new Date(session.started_at))}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-lg w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-4 border-b print:border-b-black">
+          <h2 className="text-xl font-semibold">Variance Report: {session.name}</h2>
+          <div className="flex space-x-2 print:hidden">
+            <button
+              onClick={() => window.print()}
+              className="text-blue-600 hover:text-blue-800"
+              title="Print Report"
+            >
+              <Printer size={20} />
+            </button>
+            <button
+              onClick={handleDownloadCSV}
+              className="text-green-600 hover:text-green-800"
+              title="Download CSV"
+            >
+              <Download size={20} />
+            </button>
+            <button
+              onClick={onClose}
+              className="text-gray-500 hover:text-gray-700"
+              title="Close"
+            >
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-y-auto flex-grow p-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6 text-sm">
+            <div>
+              <div className="text-gray-500">Location</div>
+              <div className="font-medium">{session.location || '-'}</div>
+            </div>
+            <div>
+              <div className="text-gray-500">Started</div>
+              <div className="font-medium">{formatStoreDate(new Date(session.started_at))}</div>
+            </div>
+            <div>
+              <div className="text-gray-500">Counted</div>
+              <div className="font-medium">{variances.length} of {lines.length} SKUs</div>
+            </div>
+            <div>
+              <div className="text-gray-500">Approved</div>
+              <div className="font-medium">{approvedLines} SKUs</div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6 print:grid-cols-3">
+            <div className="bg-blue-50 p-4 rounded-lg print:border print:border-gray-300">
+              <div className="text-sm text-gray-500 mb-1">SKUs with Variance</div>
+              <div className="text-2xl font-bold">{withVariance.length}</div>
+            </div>
+            <div className="bg-gray-50 p-4 rounded-lg print:border print:border-gray-300">
+              <div className="text-sm text-gray-500 mb-1">Net Variance (units)</div>
+              <div className="text-2xl font-bold">{netUnits > 0 ? '+' : ''}{netUnits}</div>
+            </div>
+            <div className="bg-yellow-50 p-4 rounded-lg print:border print:border-gray-300">
+              <div className="text-sm text-gray-500 mb-1">Net Variance at Cost</div>
+              <div className="text-2xl font-bold">{formatCurrency(netValue)}</div>
+            </div>
+          </div>
+
+          <table className="min-w-full border print:border-black">
+            <thead className="bg-gray-100 print:bg-gray-200">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase border-b print:border-black">SKU</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase border-b print:border-black">Product</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase border-b print:border-black">Expected</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase border-b print:border-black">Counted</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase border-b print:border-black">Variance</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase border-b print:border-black">Value</th>
+              </tr>
+            </thead>
+            <tbody>
+              {withVariance.map(item => (
+                <tr key={item.line.id}>
+                  <td className="px-3 py-2 text-sm font-mono border-b print:border-black">{item.line.sku}</td>
+                  <td className="px-3 py-2 text-sm border-b print:border-black">{item.line.product_name}</td>
+                  <td className="px-3 py-2 text-sm text-right border-b print:border-black">{item.line.expected_quantity}</td>
+                  <td className="px-3 py-2 text-sm text-right border-b print:border-black">{item.line.counted_quantity}</td>
+                  <td className={`px-3 py-2 text-sm text-right font-medium border-b print:border-black ${
+                    item.variance > 0 ? 'text-blue-600' : 'text-red-600'
+                  }`}>
+                    {item.variance > 0 ? '+' : ''}{item.variance}
+                  </td>
+                  <td className="px-3 py-2 text-sm text-right border-b print:border-black">{formatCurrency(item.variance_value)}</td>
+                </tr>
+              ))}
+              {withVariance.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-3 py-4 text-center text-sm text-gray-500">
+                    Every counted SKU matched its expected quantity
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StocktakeVarianceReport;
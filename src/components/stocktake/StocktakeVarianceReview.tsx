@@ -0,0 +1,173 @@
+import React, { useState, useEffect } from 'react';
+import { CheckCircle } from 'lucide-react';
+import { StocktakeLine, StocktakeVariance } from '../../types';
+import { formatCurrency } from '../../services/reports/utils';
+
+interface StocktakeVarianceReviewProps {
+  variances: StocktakeVariance[];
+  uncountedLines: number;
+  canApprove: boolean;
+  approving: boolean;
+  onApprove: (lines: StocktakeLine[], notes: string) => Promise<void>;
+}
+
+const StocktakeVarianceReview: React.FC<StocktakeVarianceReviewProps> = ({
+  variances,
+  uncountedLines,
+  canApprove,
+  approving,
+  onApprove
+}) => {
+  const [selected, setSelected] = useState<Record<number, boolean>>({});
+  const [varianceOnly, setVarianceOnly] = useState(false);
+  const [notes, setNotes] = useState('');
+
+  // Select every pending line whenever the variances are reloaded
+  useEffect(() => {
+    setSelected(Object.fromEntries(
+      variances
+        .filter(item => item.line.status === 'pending')
+        .map(item => [item.line.id, true])
+    ));
+  }, [variances]);
+
+  const pending = variances.filter(item => item.line.status === 'pending');
+  const visible = variances.filter(item => !varianceOnly || item.variance !== 0);
+  const selectedLines = pending.filter(item => selected[item.line.id!]).map(item => item.line);
+  const allSelected = pending.length > 0 && selectedLines.length === pending.length;
+
+  const netUnits = variances.reduce((sum, item) => sum + item.variance, 0);
+  const gainValue = variances.reduce((sum, item) => sum + Math.max(item.variance_value, 0), 0);
+  const lossValue = variances.reduce((sum, item) => sum + Math.min(item.variance_value, 0), 0);
+
+  const toggleAll = () => {
+    setSelected(allSelected ? {} : Object.fromEntries(pending.map(item => [item.line.id, true])));
+  };
+
+  return (
+    <div>
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 p-4">
+        <div className="bg-blue-50 p-4 rounded-lg">
+          <div className="text-sm text-gray-500 mb-1">SKUs with Variance</div>
+          <div className="text-2xl font-bold">
+            {variances.filter(item => item.variance !== 0).length} / {variances.length}
+          </div>
+        </div>
+        <div className="bg-gray-50 p-4 rounded-lg">
+          <div className="text-sm text-gray-500 mb-1">Net Variance (units)</div>
+          <div className="text-2xl font-bold">{netUnits > 0 ? '+' : ''}{netUnits}</div>
+        </div>
+        <div className="bg-green-50 p-4 rounded-lg">
+          <div className="text-sm text-gray-500 mb-1">Gains at Cost</div>
+          <div className="text-2xl font-bold text-green-700">{formatCurrency(gainValue)}</div>
+        </div>
+        <div className="bg-red-50 p-4 rounded-lg">
+          <div className="text-sm text-gray-500 mb-1">Losses at Cost</div>
+          <div className="text-2xl font-bold text-red-700">{formatCurrency(lossValue)}</div>
+        </div>
+      </div>
+
+      {uncountedLines > 0 && (
+        <p className="px-4 pb-2 text-sm text-yellow-700">
+          {uncountedLines} SKUs were not counted and will not be adjusted.
+        </p>
+      )}
+
+      <div className="px-4 pb-4 flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            className="mr-2"
+            checked={varianceOnly}
+            onChange={(e) => setVarianceOnly(e.target.checked)}
+          />
+          Only SKUs with a variance
+        </label>
+        {canApprove && (
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              className="p-2 border rounded text-sm w-64"
+              placeholder="Approval notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+            <button
+              onClick={() => onApprove(selectedLines, notes.trim())}
+              disabled={approving || selectedLines.length === 0}
+              className="flex items-center px-4 py-2 bg-green-600 text-white rounded-md text-sm hover:bg-green-700 disabled:opacity-50"
+            >
+              <CheckCircle className="h-4 w-4 mr-1.5" />
+              {approving ? 'Approving...' : `Approve ${selectedLines.length} SKUs`}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              {canApprove && (
+                <th className="px-4 py-3 text-left">
+                  <input type="checkbox" checked={allSelected} onChange={toggleAll} disabled={pending.length === 0} />
+                </th>
+              )}
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">SKU</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Expected</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Counted</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Variance</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Value at Cost</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {visible.map(item => (
+              <tr key={item.line.id}>
+                {canApprove && (
+                  <td className="px-4 py-2">
+                    <input
+                      type="checkbox"
+                      checked={!!selected[item.line.id!]}
+                      disabled={item.line.status !== 'pending'}
+                      onChange={(e) => setSelected(prev => ({ ...prev, [item.line.id!]: e.target.checked }))}
+                    />
+                  </td>
+                )}
+                <td className="px-4 py-2 whitespace-nowrap text-sm font-mono text-gray-900">{item.line.sku}</td>
+                <td className="px-4 py-2 text-sm text-gray-700">{item.line.product_name}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-right text-gray-500">{item.line.expected_quantity}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-right text-gray-900">{item.line.counted_quantity}</td>
+                <td className={`px-4 py-2 whitespace-nowrap text-sm text-right font-medium ${
+                  item.variance === 0 ? 'text-green-600' : item.variance > 0 ? 'text-blue-600' : 'text-red-600'
+                }`}>
+                  {item.variance > 0 ? '+' : ''}{item.variance}
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-right text-gray-700">
+                  {formatCurrency(item.variance_value)}
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm">
+                  {item.line.status === 'approved' ? (
+                    <span className="px-2 py-0.5 rounded-full text-xs bg-green-100 text-green-800">Approved</span>
+                  ) : (
+                    <span className="px-2 py-0.5 rounded-full text-xs bg-yellow-100 text-yellow-800">Pending</span>
+                  )}
+                </td>
+              </tr>
+            ))}
+            {visible.length === 0 && (
+              <tr>
+                <td colSpan={canApprove ? 8 : 7} className="px-4 py-6 text-center text-sm text-gray-500">
+                  No counted SKUs to review
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default StocktakeVarianceReview;
@@ -67,6 +67,11 @@ const SupplierForm: React.FC<SupplierFormProps> = ({ supplierId, onCancel, onSav
     setFormData(prev => ({ ...prev, [name]: value }));
   };
 
+  const handleNumberChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value === '' ? undefined : Math.max(parseInt(value) || 0, 0) }));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
@@ -238,6 +243,36 @@ const SupplierForm: React.FC<SupplierFormProps> = ({ supplierId, onCancel, onSav
                 placeholder="e.g., Net 30, COD"
               />
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Lead Time (days)
+              </label>
+              <input
+                type="number"
+                min={0}
+                name="lead_time_days"
+                value={formData.lead_time_days ?? ''}
+                onChange={handleNumberChange}
+                className="w-full p-2 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                placeholder="Days from order to delivery"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Minimum Order Quantity
+              </label>
+              <input
+                type="number"
+                min={0}
+                name="moq"
+                value={formData.moq ?? ''}
+                onChange={handleNumberChange}
+                className="w-full p-2 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                placeholder="Minimum units per SKU"
+              />
+            </div>
             
             <div className="md:col-span-2">
               <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -1,13 +1,11 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useCallback, useContext, useState, useEffect, useRef, ReactNode } from 'react';
 import { 
   StockReconciliationSummary, 
   StockMovement,
+  ReconciliationDiscrepancyFilter,
+  ReconciliationSortField
 } from '../types';
-import {
-  generateAllReconciliationSummaries,
-  getLastCacheTime,
-  generateReconciliationSummary
-} from '../db/operations/stockReconciliation';
+import { queryReconciliationSummaries } from '../db/operations/stockReconciliation';
 import { productsService } from '../services';
 import { productVariationsService } from '../services';
 import { settingsService } from '../services';
@@ -42,8 +40,17 @@ interface StockReconciliationContextType {
   setError: React.Dispatch<React.SetStateAction<string | null>>;
   searchTerm: string;
   setSearchTerm: React.Dispatch<React.SetStateAction<string>>;
-  discrepancyFilter: 'all' | 'with_discrepancy' | 'no_discrepancy';
-  setDiscrepancyFilter: React.Dispatch<React.SetStateAction<'all' | 'with_discrepancy' | 'no_discrepancy'>>;
+  discrepancyFilter: ReconciliationDiscrepancyFilter;
+  setDiscrepancyFilter: React.Dispatch<React.SetStateAction<ReconciliationDiscrepancyFilter>>;
+  
+  // Paging and sorting state, applied by the database
+  page: number;
+  setPage: React.Dispatch<React.SetStateAction<number>>;
+  pageSize: number;
+  totalCount: number;
+  sortField: ReconciliationSortField;
+  sortDirection: 'asc' | 'desc';
+  handleSort: (field: ReconciliationSortField) => void;
   
   // Selected item state
   selectedItem: StockReconciliationSummary | null;
@@ -64,10 +71,16 @@ interface StockReconciliationContextType {
   // Utility functions
   loadData: (forceRefresh?: boolean, loadReconciliationData?: boolean) => Promise<void>;
   loadDataSilently: (forceRefresh?: boolean, loadReconciliationData?: boolean) => Promise<void>;
-  filterData: () => void;
+  filterData: () => Promise<void>;
   matchesFilters: (summary: StockReconciliationSummary) => boolean;
 }
 
+// Summaries shown per page
+const PAGE_SIZE = 50;
+
+// Delay before a search is sent to the database
+const SEARCH_DEBOUNCE_MS = 300;
+
 const StockReconciliationContext = createContext<StockReconciliationContextType | undefined>(undefined);
 
 export const useStockReconciliation = () => {
@@ -87,7 +100,14 @@ export const StockReconciliationProvider: React.FC<StockReconciliationProviderPr
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
-  const [discrepancyFilter, setDiscrepancyFilter] = useState<'all' | 'with_discrepancy' | 'no_discrepancy'>('all');
+  const [discrepancyFilter, setDiscrepancyFilter] = useState<ReconciliationDiscrepancyFilter>('all');
+  
+  // Paging and sorting state
+  const [page, setPage] = useState(1);
+  const [totalCount, setTotalCount] = useState(0);
+  const [sortField, setSortField] = useState<ReconciliationSortField>('sku');
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
+  const pageSize = PAGE_SIZE;
   
   // Selected item state
   const [selectedItem, setSelectedItem] = useState<StockReconciliationSummary | null>(null);
@@ -113,57 +133,12 @@ export const StockReconciliationProvider: React.FC<StockReconciliationProviderPr
   // Settings state
   const [excludeOnHoldOrders, setExcludeOnHoldOrders] = useState<boolean>(true);
 
-  // Load data on initial page load
-  useEffect(() => {
-    // Try to load cached data from localStorage first
-    const cachedSummaries = localStorage.getItem('stockReconciliationSummaries');
-    const cachedProducts = localStorage.getItem('stockReconciliationProducts');
-    const cachedLastUpdated = localStorage.getItem('stockReconciliationLastUpdated');
-    
-    if (cachedSummaries && cachedProducts) {
-      try {
-        const parsedSummaries = JSON.parse(cachedSummaries);
-        const parsedProducts = JSON.parse(cachedProducts);
-        
-        setSummaries(parsedSummaries);
-        setFilteredSummaries(parsedSummaries);
-        setProducts(parsedProducts);
-        setDataLoaded(true);
-        setLoading(false); // Ensure loading is set to false when using cached data
-        
-        if (cachedLastUpdated) {
-          setLastUpdated(new Date(cachedLastUpdated));
-        }
-        
-        // Only load product data in the background, not reconciliation data
-        // This prevents unnecessary API calls when the page loads
-        loadDataSilently(false, false);
-      } catch (error) {
-        console.error('Error parsing cached data:', error);
-        // If there's an error parsing the cached data, load fresh data
-        loadData(false);
-      }
-    } else {
-      // If no cached data is available, load fresh data
-      loadData(false);
-    }
-  }, []);
-
-  // Save data to localStorage when it changes
+  // Save products to localStorage when they change
   useEffect(() => {
-    if (summaries.length > 0 && products.length > 0) {
-      localStorage.setItem('stockReconciliationSummaries', JSON.stringify(summaries));
+    if (products.length > 0) {
       localStorage.setItem('stockReconciliationProducts', JSON.stringify(products));
-      if (lastUpdated) {
-        localStorage.setItem('stockReconciliationLastUpdated', lastUpdated.toISOString());
-      }
     }
-  }, [summaries, products, lastUpdated]);
-
-  // Filter data when search term or filter changes
-  useEffect(() => {
-    filterData();
-  }, [summaries, searchTerm, discrepancyFilter]);
+  }, [products]);
 
   // Load excludeOnHoldOrders setting
   useEffect(() => {
@@ -179,14 +154,29 @@ export const StockReconciliationProvider: React.FC<StockReconciliationProviderPr
     loadSettings();
   }, []);
 
+  // Load the current page of summaries from the database
+  const loadSummaries = useCallback(async () => {
+    const result = await queryReconciliationSummaries({
+      search: searchTerm,
+      discrepancy: discrepancyFilter,
+      sortBy: sortField,
+      sortDirection,
+      page,
+      pageSize
+    });
+    
+    setSummaries(result.summaries);
+    setFilteredSummaries(result.summaries);
+    setTotalCount(result.totalCount);
+    setLastUpdated(new Date());
+  }, [searchTerm, discrepancyFilter, sortField, sortDirection, page, pageSize]);
+
   // Load data without showing loading indicator
   const loadDataSilently = async (forceRefresh = false, loadReconciliationData = true) => {
     try {
       // Don't set loading state
       setError(null);
       
-      let dataWasRefreshed = false;
-      
       // Only load products if forceRefresh is true or products array is empty
       if (forceRefresh || products.length === 0) {
         try {
@@ -228,34 +218,18 @@ export const StockReconciliationProvider: React.FC<StockReconciliationProviderPr
           const combinedProducts = [...formattedProducts, ...formattedVariations];
           
           setProducts(combinedProducts);
-          dataWasRefreshed = true;
         } catch (err) {
           console.error('Failed to load products silently:', err);
         }
       }
       
-      // Only load reconciliation data if loadReconciliationData is true and (forceRefresh is true or summaries array is empty)
-      if (loadReconciliationData && (forceRefresh || summaries.length === 0)) {
+      // Summaries come a page at a time from the database, so they are always fresh
+      if (loadReconciliationData) {
         console.log('Loading reconciliation data silently', { forceRefresh });
-        const data = await generateAllReconciliationSummaries(forceRefresh);
-        setSummaries(data);
-        setFilteredSummaries(data);
-        dataWasRefreshed = true;
+        await loadSummaries();
       }
       
       setDataLoaded(true);
-      
-      // Only update the lastUpdated timestamp if data was actually refreshed or if forceRefresh is true
-      if (forceRefresh || dataWasRefreshed) {
-        const cacheTime = getLastCacheTime();
-        setLastUpdated(cacheTime ? new Date(cacheTime) : new Date());
-      } else if (!lastUpdated) {
-        // If lastUpdated is null, set it to the cache time
-        const cacheTime = getLastCacheTime();
-        if (cacheTime) {
-          setLastUpdated(new Date(cacheTime));
-        }
-      }
     } catch (err: any) {
       console.error('Failed to load reconciliation data silently:', err);
       // Don't show error for silent loading
@@ -263,13 +237,11 @@ export const StockReconciliationProvider: React.FC<StockReconciliationProviderPr
   };
 
   // Load data with loading indicator
-  const loadData = async (forceRefresh = false, loadReconciliationData = true) => {
+  const loadData = useCallback(async (forceRefresh = false, loadReconciliationData = true) => {
     try {
       setLoading(true);
       setError(null);
       
-      let dataWasRefreshed = false;
-      
       // Only load products if forceRefresh is true or products array is empty
       if (forceRefresh || products.length === 0) {
         try {
@@ -311,35 +283,19 @@ export const StockReconciliationProvider: React.FC<StockReconciliationProviderPr
           const combinedProducts = [...formattedProducts, ...formattedVariations];
           
           setProducts(combinedProducts);
-          dataWasRefreshed = true;
         } catch (err) {
           console.error('Failed to load products:', err);
         }
       }
       
-      // Only load reconciliation data if loadReconciliationData is true and (forceRefresh is true or summaries array is empty)
-      if (loadReconciliationData && (forceRefresh || summaries.length === 0)) {
+      // Summaries come a page at a time from the database, so they are always fresh
+      if (loadReconciliationData) {
         console.log('Loading reconciliation data with indicator', { forceRefresh });
-        const data = await generateAllReconciliationSummaries(forceRefresh);
-        setSummaries(data);
-        setFilteredSummaries(data);
-        dataWasRefreshed = true;
+        await loadSummaries();
       }
       
       setDataLoaded(true);
       
-      // Only update the lastUpdated timestamp if data was actually refreshed or if forceRefresh is true
-      if (forceRefresh || dataWasRefreshed) {
-        const cacheTime = getLastCacheTime();
-        setLastUpdated(cacheTime ? new Date(cacheTime) : new Date());
-      } else if (!lastUpdated) {
-        // If lastUpdated is null, set it to the cache time
-        const cacheTime = getLastCacheTime();
-        if (cacheTime) {
-          setLastUpdated(new Date(cacheTime));
-        }
-      }
-      
       setLoading(false);
     } catch (err: any) {
       console.error('Failed to load reconciliation data:', err);
@@ -353,30 +309,75 @@ export const StockReconciliationProvider: React.FC<StockReconciliationProviderPr
       
       setLoading(false);
     }
-  };
+  }, [products.length, loadSummaries]);
+
+  // Filter, sort and page the summaries in the database
+  const filterData = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      await loadSummaries();
+    } catch (err) {
+      console.error('Failed to filter reconciliation data:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load reconciliation data');
+    } finally {
+      setLoading(false);
+    }
+  }, [loadSummaries]);
 
-  // Filter data based on search term and filters
-  const filterData = () => {
-    let filtered = [...summaries];
+  // Load data on initial page load
+  const initialLoadDone = useRef(false);
+  useEffect(() => {
+    if (initialLoadDone.current) return;
+    initialLoadDone.current = true;
     
-    // Apply search filter
-    if (searchTerm) {
-      const term = searchTerm.toLowerCase();
-      filtered = filtered.filter(
-        item => 
-          item.sku.toLowerCase().includes(term) || 
-          item.product_name.toLowerCase().includes(term)
-      );
+    // Summaries are paged from the database, so only the product list is cached locally
+    localStorage.removeItem('stockReconciliationSummaries');
+    
+    const cachedProducts = localStorage.getItem('stockReconciliationProducts');
+    if (cachedProducts) {
+      try {
+        setProducts(JSON.parse(cachedProducts));
+      } catch (error) {
+        console.error('Error parsing cached products:', error);
+      }
     }
     
-    // Apply discrepancy filter
-    if (discrepancyFilter === 'with_discrepancy') {
-      filtered = filtered.filter(item => item.discrepancy !== 0);
-    } else if (discrepancyFilter === 'no_discrepancy') {
-      filtered = filtered.filter(item => item.discrepancy === 0);
+    loadData(false);
+  }, [loadData]);
+
+  // Reload the summaries when the search, filter, sort or page changes
+  // A new search or filter goes back to the first page first, so only that page is requested
+  const skipInitialFilter = useRef(true);
+  const lastFilters = useRef({ searchTerm, discrepancyFilter });
+  useEffect(() => {
+    const filtersChanged = lastFilters.current.searchTerm !== searchTerm
+      || lastFilters.current.discrepancyFilter !== discrepancyFilter;
+    lastFilters.current = { searchTerm, discrepancyFilter };
+    
+    if (skipInitialFilter.current) {
+      skipInitialFilter.current = false;
+      return;
+    }
+    
+    if (filtersChanged && page !== 1) {
+      setPage(1);
+      return;
     }
     
-    setFilteredSummaries(filtered);
+    const timer = setTimeout(filterData, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [filterData, searchTerm, discrepancyFilter, page]);
+
+  // Sort by a column, toggling the direction when it is already sorted
+  const handleSort = (field: ReconciliationSortField) => {
+    if (field === sortField) {
+      setSortDirection(prev => prev === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortField(field);
+      setSortDirection('asc');
+    }
+    setPage(1);
   };
 
   // Helper function to check if a summary matches current filters
@@ -418,6 +419,13 @@ export const StockReconciliationProvider: React.FC<StockReconciliationProviderPr
     setSearchTerm,
     discrepancyFilter,
     setDiscrepancyFilter,
+    page,
+    setPage,
+    pageSize,
+    totalCount,
+    sortField,
+    sortDirection,
+    handleSort,
     
     // Selected item state
     selectedItem,
@@ -1,6 +1,5 @@
 import { AdditionalRevenue, AdditionalRevenueCategory } from '../../types';
 import { format } from 'date-fns';
-import { convertToNZTimezone } from '../../services/api/utils';
 import { additionalRevenueService, additionalRevenueCategoriesService } from '../../services';
 
 // Additional Revenue operations
@@ -110,10 +109,12 @@ export async function deleteAdditionalRevenueCategory(id: number): Promise<void>
   }
 }
 
-export async function getAdditionalRevenueByPeriod(period: 'daily' | 'weekly' | 'monthly' | 'yearly', startDate?: Date, endDate?: Date): Promise<Record<string, number>> {
+export async function getAdditionalRevenueByPeriod(period: 'daily' | 'weekly' | 'monthly' | 'yearly', startDate?: Date, endDate?: Date, categoryId?: number): Promise<Record<string, number>> {
   try {
-    // Get revenues filtered by date range if provided
-    const revenues = await getAdditionalRevenue(startDate, endDate);
+    // Get revenues filtered by date range and category if provided
+    const revenues = categoryId
+      ? await getAdditionalRevenueByCategory(categoryId, startDate, endDate)
+      : await getAdditionalRevenue(startDate, endDate);
     
     // Group revenues by period
     const groupedRevenues: Record<string, number> = {};
@@ -0,0 +1,72 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../services/supabase', async () => {
+  const { fakeSupabase } = await import('../../test/pgliteSupabase');
+  return { supabase: fakeSupabase, supabaseAdmin: null };
+});
+
+import { db } from '../../test/pgliteSupabase';
+import { inventoryService, purchaseOrdersService, settingsService } from '../../services';
+import { InventoryItem, PurchaseOrder, PurchaseOrderItem } from '../../types';
+import { getSaleCosts, getStockOnHandAsOf } from './costLedger';
+import { getSaleCostKey } from '../../services/pnl/costLedger';
+
+const SCHEMA = `
+  CREATE TABLE products (id BIGINT PRIMARY KEY, name TEXT, sku TEXT);
+  CREATE TABLE product_variations (id BIGINT PRIMARY KEY, parent_id BIGINT, sku TEXT, attributes JSONB);
+  CREATE TABLE stock_movements (
+    id BIGSERIAL PRIMARY KEY, sku TEXT, product_id BIGINT, variation_id BIGINT, movement_date TIMESTAMPTZ,
+    quantity INTEGER, movement_type TEXT, reason TEXT, reference_id TEXT, notes TEXT, location_id BIGINT, created_at TIMESTAMPTZ
+  );
+`;
+
+const SALES = 1100;
+
+const purchaseOrder = (reference_number: string, date: string, unit_price: number, quantity: number) => ({
+  reference_number,
+  date: new Date(date),
+  status: 'received',
+  items: [{ sku: 'TEA-1', unit_price, quantity, quantity_received: quantity } as PurchaseOrderItem]
+}) as PurchaseOrder & { items: PurchaseOrderItem[] };
+
+// More movements than Supabase returns in one request, with the receipts the oldest of them
+describe('cost ledger past the first page of stock movements', () => {
+  beforeAll(async () => {
+    await db.exec(SCHEMA);
+    await db.query("INSERT INTO products (id, name, sku) VALUES (1, 'Green Tea', 'TEA-1')");
+    await db.exec(`
+      INSERT INTO stock_movements (sku, product_id, movement_date, quantity, movement_type, reference_id) VALUES
+        ('TEA-1', 1, '2025-01-01T00:00:00Z', 1000, 'purchase', 'PO-1'),
+        ('TEA-1', 1, '2025-01-02T00:00:00Z', 200, 'purchase', 'PO-2');
+      INSERT INTO stock_movements (sku, product_id, movement_date, quantity, movement_type, reference_id)
+      SELECT 'TEA-1', 1, TIMESTAMPTZ '2025-02-01T00:00:00Z' + n * INTERVAL '1 minute', -1, 'sale', n::TEXT
+      FROM generate_series(1, ${SALES}) AS n;
+    `);
+  });
+
+  beforeEach(() => {
+    vi.spyOn(settingsService, 'getExcludeOnHoldOrders').mockResolvedValue(false);
+    vi.spyOn(settingsService, 'getCostingMethod').mockResolvedValue('fifo');
+    vi.spyOn(inventoryService, 'getAll').mockResolvedValue([{ sku: 'TEA-1', cost_price: 1 } as InventoryItem]);
+    vi.spyOn(purchaseOrdersService, 'getPurchaseOrdersWithItems').mockResolvedValue([
+      purchaseOrder('PO-1', '2025-01-01', 2, 1000),
+      purchaseOrder('PO-2', '2025-01-02', 5, 200)
+    ]);
+  });
+
+  it('values closing stock from every receipt and sale', async () => {
+    const [line] = await getStockOnHandAsOf(new Date('2025-12-31T00:00:00Z'));
+
+    // The oldest 1000 units went first, the 100 left are from the second order
+    expect(line).toMatchObject({ sku: 'TEA-1', product_name: 'Green Tea', quantity: 100, unit_cost: 5, value: 500 });
+  });
+
+  it('costs sales from the oldest layers first with FIFO', async () => {
+    const saleCosts = await getSaleCosts('fifo', () => 1);
+
+    expect(saleCosts.size).toBe(SALES);
+    expect(saleCosts.get(getSaleCostKey('1', 'TEA-1'))).toBe(2);
+    expect(saleCosts.get(getSaleCostKey('1000', 'TEA-1'))).toBe(2);
+    expect(saleCosts.get(getSaleCostKey(String(SALES), 'TEA-1'))).toBe(5);
+  });
+});
@@ -0,0 +1,247 @@
+import { format } from 'date-fns';
+import { InventoryValuationLine, InventoryValuationReport, StockMovement, StockOnHandLine } from '../../types';
+import { getProductNamesBySku, inventoryService, purchaseOrdersService, settingsService } from '../../services';
+import { getAllStockMovements } from './stockReconciliation';
+import {
+  CostingMethod,
+  CostLedgerEvent,
+  calculateInventoryValuation,
+  calculateSaleCosts,
+  calculateWriteOffCost,
+  getSaleCostKey
+} from '../../services/pnl/costLedger';
+import { createInventoryMap, getCostPrice } from '../../services/pnl/inventoryUtils';
+
+// Transfers move stock between locations without changing the quantity or cost held
+type LedgerMovement = StockMovement & { movement_type: Exclude<StockMovement['movement_type'], 'transfer'> };
+
+const isLedgerMovement = (movement: StockMovement): movement is LedgerMovement =>
+  movement.movement_type !== 'transfer';
+
+// Customer returns and reversed sales go back into stock at the cost the sale took out
+function getLedgerEventType(movement: LedgerMovement): CostLedgerEvent['type'] {
+  if (movement.movement_type === 'adjustment' && movement.reason === 'return') return 'return';
+  if (movement.movement_type === 'sale' && movement.quantity > 0) return 'return';
+  return movement.movement_type;
+}
+
+/**
+ * Build the cost ledger from purchase orders and stock movements and return the unit cost of each sale
+ *
+ * Purchase order items supply the cost layers. Purchase stock movements are skipped because they
+ * mirror the same receipts without a price. Initial stock is costed with the fallback price.
+ */
+export async function getSaleCosts(
+  method: CostingMethod,
+  getFallbackCost: (sku: string) => number
+): Promise<Map<string, number>> {
+  try {
+    const events: CostLedgerEvent[] = [];
+
+    // Cost layers from received purchase order items
+    const purchaseOrders = await purchaseOrdersService.getPurchaseOrdersWithItems();
+
+    purchaseOrders.forEach(purchaseOrder => {
+      if (purchaseOrder.status !== 'received' && purchaseOrder.status !== 'partially_received') return;
+
+      (purchaseOrder.items || []).forEach(item => {
+        if (!item.sku || !item.quantity_received || item.quantity_received <= 0) return;
+
+        // Prefer the unit price, otherwise derive it from the line total
+        let unitCost = item.unit_price;
+        if ((unitCost === undefined || unitCost === null) && item.total_price && item.quantity) {
+          unitCost = item.total_price / item.quantity;
+        }
+
+        events.push({
+          sku: item.sku,
+          date: new Date(purchaseOrder.date),
+          quantity: item.quantity_received,
+          type: 'purchase',
+          unit_cost: unitCost ?? undefined,
+          reference_id: purchaseOrder.reference_number
+        });
+      });
+    });
+
+    // Initial stock, sales and adjustments (sales respect the exclude on-hold setting)
+    const movements = await getAllStockMovements();
+
+    movements.filter(isLedgerMovement).forEach(movement => {
+      if (movement.movement_type === 'purchase') return;
+
+      events.push({
+        sku: movement.sku,
+        date: new Date(movement.movement_date),
+        quantity: movement.quantity,
+        type: getLedgerEventType(movement),
+        unit_cost: movement.movement_type === 'initial' ? getFallbackCost(movement.sku) : undefined,
+        reference_id: movement.reference_id
+      });
+    });
+
+    return calculateSaleCosts(events, method, getFallbackCost);
+  } catch (error) {
+    console.error('Error building cost ledger:', error);
+    throw error;
+  }
+}
+
+/**
+ * Build cost ledger events from the stock movement ledger
+ *
+ * Unlike the sale cost ledger every purchase movement is used, so quantities match the movements.
+ * Purchases are costed from the purchase order they were received on, others at the fallback price.
+ */
+async function getStockLedgerEvents(getFallbackCost: (sku: string) => number): Promise<CostLedgerEvent[]> {
+  const [purchaseOrders, movements] = await Promise.all([
+    purchaseOrdersService.getPurchaseOrdersWithItems(),
+    getAllStockMovements()
+  ]);
+
+  // Unit cost of each SKU by purchase order reference
+  const purchaseCosts = new Map<string, number>();
+  purchaseOrders.forEach(purchaseOrder => {
+    (purchaseOrder.items || []).forEach(item => {
+      if (!item.sku) return;
+
+      let unitCost = item.unit_price;
+      if ((unitCost === undefined || unitCost === null) && item.total_price && item.quantity) {
+        unitCost = item.total_price / item.quantity;
+      }
+      if (unitCost !== undefined && unitCost !== null) {
+        purchaseCosts.set(getSaleCostKey(purchaseOrder.reference_number, item.sku), unitCost);
+      }
+    });
+  });
+
+  return movements.filter(isLedgerMovement).map(movement => {
+    let unitCost: number | undefined;
+    if (movement.movement_type === 'initial') {
+      unitCost = getFallbackCost(movement.sku);
+    } else if (movement.movement_type === 'purchase') {
+      unitCost = movement.reference_id
+        ? purchaseCosts.get(getSaleCostKey(movement.reference_id, movement.sku))
+        : undefined;
+      unitCost = unitCost ?? getFallbackCost(movement.sku);
+    }
+
+    return {
+      sku: movement.sku,
+      date: new Date(movement.movement_date),
+      quantity: movement.quantity,
+      type: getLedgerEventType(movement),
+      unit_cost: unitCost,
+      reference_id: movement.reference_id
+    };
+  });
+}
+
+/**
+ * Value stock over a period from the movement ledger with the configured costing method
+ */
+async function valueStock(startDate: Date | null, endDate: Date): Promise<{
+  method: CostingMethod;
+  lines: InventoryValuationLine[];
+}> {
+  const [method, inventory, productNames] = await Promise.all([
+    settingsService.getCostingMethod(),
+    inventoryService.getAll(),
+    getProductNamesBySku()
+  ]);
+  const inventoryMap = createInventoryMap(inventory);
+  const getFallbackCost = (sku: string) => getCostPrice({ sku }, inventoryMap);
+
+  const events = await getStockLedgerEvents(getFallbackCost);
+  const lines = calculateInventoryValuation(events, method, getFallbackCost, startDate, endDate)
+    .map(line => ({ ...line, product_name: productNames.get(line.sku) }));
+
+  return { method, lines };
+}
+
+/**
+ * Get the on hand quantity and cost value of each SKU at the end of a date
+ */
+export async function getStockOnHandAsOf(asOf: Date): Promise<StockOnHandLine[]> {
+  try {
+    const { lines } = await valueStock(null, asOf);
+
+    return lines
+      .filter(line => line.closing_quantity !== 0)
+      .map(line => ({
+        sku: line.sku,
+        product_name: line.product_name,
+        quantity: line.closing_quantity,
+        unit_cost: line.closing_quantity > 0 ? line.closing_value / line.closing_quantity : 0,
+        value: line.closing_value
+      }));
+  } catch (error) {
+    console.error('Error getting stock on hand:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the cost of writing off a quantity of a SKU at a date with the configured costing method
+ */
+export async function getWriteOffCost(sku: string, quantity: number, date: Date): Promise<number> {
+  try {
+    const [method, inventory] = await Promise.all([
+      settingsService.getCostingMethod(),
+      inventoryService.getAll()
+    ]);
+    const inventoryMap = createInventoryMap(inventory);
+    const getFallbackCost = (itemSku: string) => getCostPrice({ sku: itemSku }, inventoryMap);
+
+    const events = await getStockLedgerEvents(getFallbackCost);
+    return calculateWriteOffCost(events, method, getFallbackCost, sku, quantity, date);
+  } catch (error) {
+    console.error('Error getting write-off cost:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the inventory valuation for a period: opening stock, purchases, cost of goods sold,
+ * adjustments and closing stock at cost
+ */
+export async function getInventoryValuation(startDate: Date, endDate: Date): Promise<InventoryValuationReport> {
+  try {
+    const { method, lines } = await valueStock(startDate, endDate);
+
+    const totals = lines.reduce((sum, line) => ({
+      opening_quantity: sum.opening_quantity + line.opening_quantity,
+      opening_value: sum.opening_value + line.opening_value,
+      purchases_quantity: sum.purchases_quantity + line.purchases_quantity,
+      purchases_value: sum.purchases_value + line.purchases_value,
+      cogs_quantity: sum.cogs_quantity + line.cogs_quantity,
+      cogs_value: sum.cogs_value + line.cogs_value,
+      adjustments_quantity: sum.adjustments_quantity + line.adjustments_quantity,
+      adjustments_value: sum.adjustments_value + line.adjustments_value,
+      closing_quantity: sum.closing_quantity + line.closing_quantity,
+      closing_value: sum.closing_value + line.closing_value
+    }), {
+      opening_quantity: 0,
+      opening_value: 0,
+      purchases_quantity: 0,
+      purchases_value: 0,
+      cogs_quantity: 0,
+      cogs_value: 0,
+      adjustments_quantity: 0,
+      adjustments_value: 0,
+      closing_quantity: 0,
+      closing_value: 0
+    });
+
+    return {
+      periodStart: format(startDate, 'MMM dd, yyyy'),
+      periodEnd: format(endDate, 'MMM dd, yyyy'),
+      costingMethod: method,
+      lines,
+      totals
+    };
+  } catch (error) {
+    console.error('Error getting inventory valuation:', error);
+    throw error;
+  }
+}
@@ -1,8 +1,9 @@
 import { Expense, ExpenseCategory, ExpenseImport } from '../../types';
 import { format } from 'date-fns';
-import { convertToNZTimezone } from '../../services/api/utils';
 import { expensesService, expenseCategoriesService, expenseImportsService } from '../../services';
 import { supabase } from '../../services/supabase';
+import { materialiseRecurringExpenses } from '../../services/pnl/recurringExpenses';
+import { getRecurringExpenses } from './recurringExpenses';
 
 // Expense operations
 export async function saveExpense(expense: Expense): Promise<number> {
@@ -46,6 +47,24 @@ export async function getExpenses(startDate?: Date, endDate?: Date): Promise<Exp
   }
 }
 
+/**
+ * Get the expenses for a date range including those generated from recurring expenses
+ * Use this anywhere expense totals are reported so every screen agrees
+ */
+export async function getExpensesWithRecurring(startDate: Date, endDate: Date): Promise<Expense[]> {
+  try {
+    const [expenses, recurringExpenses] = await Promise.all([
+      getExpenses(startDate, endDate),
+      getRecurringExpenses(startDate, endDate)
+    ]);
+
+    return [...expenses, ...materialiseRecurringExpenses(recurringExpenses, { startDate, endDate })];
+  } catch (error) {
+    console.error('Error getting expenses with recurring expenses:', error);
+    throw error;
+  }
+}
+
 export async function getExpensesByCategory(category: string, startDate?: Date, endDate?: Date): Promise<Expense[]> {
   try {
     let expenses = await expensesService.getExpensesByCategory(category);
@@ -102,10 +121,16 @@ export async function deleteExpenseCategory(id: number): Promise<void> {
   }
 }
 
-export async function getExpensesByPeriod(period: 'daily' | 'weekly' | 'monthly' | 'yearly', startDate?: Date, endDate?: Date): Promise<Record<string, number>> {
+export async function getExpensesByPeriod(period: 'daily' | 'weekly' | 'monthly' | 'yearly', startDate?: Date, endDate?: Date, category?: string): Promise<Record<string, number>> {
   try {
-    // Get expenses filtered by date range if provided
-    const expenses = await getExpenses(startDate, endDate);
+    // Get expenses filtered by date range and category if provided
+    // Recurring expenses can only be generated for a date range
+    const allExpenses = startDate && endDate
+      ? await getExpensesWithRecurring(startDate, endDate)
+      : await getExpenses();
+    const expenses = category
+      ? allExpenses.filter(expense => expense.category === category)
+      : allExpenses;
     
     // Group expenses by period
     const groupedExpenses: Record<string, number> = {};
@@ -218,6 +243,9 @@ export async function processExpenseImport(
         const category = columnIndices.category !== undefined ? values[columnIndices.category].trim() : defaultCategory;
         const reference = columnIndices.reference !== undefined ? values[columnIndices.reference].trim() : '';
         const paymentMethod = columnIndices.payment_method !== undefined ? values[columnIndices.payment_method].trim() : '';
+        const marketingSource = columnIndices.marketing_source !== undefined ? values[columnIndices.marketing_source].trim() : '';
+        const marketingMedium = columnIndices.marketing_medium !== undefined ? values[columnIndices.marketing_medium].trim() : '';
+        const marketingCampaign = columnIndices.marketing_campaign !== undefined ? values[columnIndices.marketing_campaign].trim() : '';
         
         // Parse date and amount
         const date = parseDate(dateStr);
@@ -237,7 +265,10 @@ export async function processExpenseImport(
           category,
           reference,
           payment_method: paymentMethod,
-          tax_deductible: false // Default value
+          tax_deductible: false, // Default value
+          marketing_source: marketingSource || null,
+          marketing_medium: marketingMedium || null,
+          marketing_campaign: marketingCampaign || null
         };
         
         expenses.push(expense);
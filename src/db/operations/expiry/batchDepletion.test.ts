@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ProductExpiry, StockMovement, StockMovementBatch } from '../../../types';
+
+const batches = new Map<number, ProductExpiry>();
+let allocations: StockMovementBatch[] = [];
+
+vi.mock('../../../services/supabase', () => ({ supabase: {} }));
+vi.mock('../../../services', () => ({
+  productExpiryService: {
+    getById: async (id: number) => batches.get(id) || null,
+    update: async (id: number, changes: Partial<ProductExpiry>) => {
+      const batch = { ...(batches.get(id) as ProductExpiry), ...changes };
+      batches.set(id, batch);
+      return batch;
+    }
+  },
+  stockMovementBatchesService: {
+    getByMovementIds: async (ids: number[]) =>
+      allocations.filter(allocation => ids.includes(allocation.stock_movement_id)),
+    add: async (allocation: StockMovementBatch) => {
+      allocations.push(allocation);
+      return allocation;
+    },
+    deleteByMovementIds: async (ids: number[]) => {
+      allocations = allocations.filter(allocation => !ids.includes(allocation.stock_movement_id));
+    }
+  }
+}));
+
+import { restoreBatchesForMovements, restoreBatchesForReversal } from './batchDepletion';
+
+const batch = (id: number, quantity: number, fields: Partial<ProductExpiry> = {}): ProductExpiry => ({
+  id,
+  product_id: 1,
+  sku: 'SKU-1',
+  batch_number: `B${id}`,
+  expiry_date: new Date('2026-01-01'),
+  quantity,
+  created_at: new Date('2025-01-01'),
+  updated_at: new Date('2025-01-01'),
+  ...fields
+});
+
+const allocation = (movementId: number, batchId: number, quantity: number): StockMovementBatch => ({
+  stock_movement_id: movementId,
+  product_expiry_id: batchId,
+  sku: 'SKU-1',
+  batch_number: `B${batchId}`,
+  expiry_date: new Date('2026-01-01'),
+  quantity,
+  movement_type: 'sale',
+  movement_date: new Date('2025-06-01'),
+  reference_id: '1001'
+});
+
+const reversal = (id: number, quantity: number): StockMovement => ({
+  id,
+  sku: 'SKU-1',
+  movement_date: new Date('2025-06-10'),
+  quantity,
+  movement_type: 'sale',
+  reason: 'cancellation',
+  reference_id: '1001'
+});
+
+describe('restoreBatchesForReversal', () => {
+  beforeEach(() => {
+    batches.clear();
+    allocations = [];
+  });
+
+  it('puts reversed units back into the batches the sale took them from', async () => {
+    batches.set(1, batch(1, 0, { archived_at: new Date('2025-06-01'), archive_reason: 'sold_out' }));
+    batches.set(2, batch(2, 5));
+    allocations = [allocation(10, 1, 2), allocation(10, 2, 1)];
+
+    const records = await restoreBatchesForReversal(reversal(11, 3), [10]);
+
+    expect(batches.get(1)).toMatchObject({ quantity: 2, archived_at: null, archive_reason: null });
+    expect(batches.get(2)?.quantity).toBe(6);
+    expect(records.map(record => [record.product_expiry_id, record.quantity])).toEqual([[1, -2], [2, -1]]);
+    // The sale keeps its allocation so it is never allocated again
+    expect(allocations.filter(record => record.stock_movement_id === 10)).toHaveLength(2);
+  });
+
+  it('only restores what earlier reversals of the same sales have not', async () => {
+    batches.set(1, batch(1, 2));
+    batches.set(2, batch(2, 0));
+    // Sold 2 from batch 1, reversed, then reinstated from batch 2
+    allocations = [allocation(10, 1, 2), { ...allocation(11, 1, -2), movement_type: 'sale' }, allocation(12, 2, 2)];
+
+    await restoreBatchesForReversal(reversal(13, 2), [10, 11, 12]);
+
+    expect(batches.get(1)?.quantity).toBe(2);
+    expect(batches.get(2)?.quantity).toBe(2);
+  });
+
+  it('restores no more than the reversal gives back', async () => {
+    batches.set(1, batch(1, 0));
+    allocations = [allocation(10, 1, 3)];
+
+    await restoreBatchesForReversal(reversal(11, 1), [10]);
+
+    expect(batches.get(1)?.quantity).toBe(1);
+  });
+
+  it('takes the stock out again when the reversal is deleted', async () => {
+    batches.set(1, batch(1, 0));
+    allocations = [allocation(10, 1, 2)];
+    await restoreBatchesForReversal(reversal(11, 2), [10]);
+
+    await restoreBatchesForMovements([11]);
+
+    expect(batches.get(1)?.quantity).toBe(0);
+    expect(allocations).toHaveLength(1);
+  });
+});
@@ -0,0 +1,282 @@
+import { ProductExpiry, StockMovement, StockMovementBatch } from '../../../types';
+import { productExpiryService, stockMovementBatchesService } from '../../../services';
+import { supabase } from '../../../services/supabase';
+
+// Movement types that take stock out of expiry batches
+const DEPLETING_MOVEMENT_TYPES: StockMovement['movement_type'][] = ['sale', 'adjustment'];
+
+// Number of movement IDs per query, keeps the request URL short
+const MOVEMENT_ID_CHUNK_SIZE = 200;
+
+// Rows per page when reading every movement, the API returns at most 1000
+const MOVEMENT_PAGE_SIZE = 1000;
+
+export interface BatchAllocation {
+  batch: ProductExpiry;
+  quantity: number;
+}
+
+/**
+ * Allocate a quantity to expiry batches first-expiry-first-out
+ * Archived batches and batches recorded after the movement are ignored, batches still in date at the movement
+ * are used before expired ones, and a batch named by number or expiry date is always used first
+ */
+export function allocateBatchesFefo(
+  batches: ProductExpiry[],
+  quantity: number,
+  movementDate: Date,
+  preferred: { batchNumber?: string; expiryDate?: Date } = {}
+): { allocations: BatchAllocation[]; unallocated: number } {
+  const movementTime = new Date(movementDate).getTime();
+  const preferredExpiryTime = preferred.expiryDate ? new Date(preferred.expiryDate).getTime() : null;
+
+  const isPreferred = (batch: ProductExpiry): boolean => {
+    if (preferred.batchNumber) return batch.batch_number === preferred.batchNumber;
+    return preferredExpiryTime !== null && new Date(batch.expiry_date).getTime() === preferredExpiryTime;
+  };
+
+  const rank = (batch: ProductExpiry): number => {
+    if (isPreferred(batch)) return 0;
+    return new Date(batch.expiry_date).getTime() >= movementTime ? 1 : 2;
+  };
+
+  const candidates = batches
+    .filter(batch => batch.quantity > 0 && !batch.archived_at)
+    .filter(batch => !batch.created_at || new Date(batch.created_at).getTime() <= movementTime)
+    .sort((a, b) =>
+      rank(a) - rank(b) ||
+      new Date(a.expiry_date).getTime() - new Date(b.expiry_date).getTime()
+    );
+
+  const allocations: BatchAllocation[] = [];
+  let remaining = quantity;
+
+  for (const batch of candidates) {
+    if (remaining <= 0) break;
+    const allocated = Math.min(batch.quantity, remaining);
+    allocations.push({ batch, quantity: allocated });
+    remaining -= allocated;
+  }
+
+  return { allocations, unallocated: remaining };
+}
+
+/**
+ * Deplete expiry batches for a stock movement and record the allocation
+ * Only outgoing sale and adjustment movements deplete batches, and each movement is allocated once
+ */
+export async function depleteBatchesForMovement(movement: StockMovement): Promise<StockMovementBatch[]> {
+  try {
+    if (!movement.id || movement.quantity >= 0 || !DEPLETING_MOVEMENT_TYPES.includes(movement.movement_type)) {
+      return [];
+    }
+
+    const existing = await stockMovementBatchesService.getByMovementIds([movement.id]);
+    if (existing.length > 0) return existing;
+
+    const batches = await productExpiryService.getExpiryBySku(movement.sku);
+    const { allocations, unallocated } = allocateBatchesFefo(
+      batches,
+      Math.abs(movement.quantity),
+      movement.movement_date,
+      { batchNumber: movement.batch_number, expiryDate: movement.expiry_date }
+    );
+
+    const records: StockMovementBatch[] = [];
+    for (const { batch, quantity } of allocations) {
+      const remaining = batch.quantity - quantity;
+      
+      // Archive batches once nothing is left in them
+      await productExpiryService.update(batch.id!, {
+        quantity: remaining,
+        ...(remaining <= 0 && {
+          archived_at: new Date(),
+          archive_reason: movement.movement_type === 'sale' ? 'sold_out' : 'written_off',
+          restored_at: null
+        }),
+        updated_at: new Date()
+      });
+
+      records.push(await stockMovementBatchesService.add({
+        stock_movement_id: movement.id,
+        product_expiry_id: batch.id!,
+        sku: movement.sku,
+        batch_number: batch.batch_number,
+        expiry_date: batch.expiry_date,
+        quantity,
+        movement_type: movement.movement_type,
+        movement_date: movement.movement_date,
+        reference_id: movement.reference_id
+      }));
+    }
+
+    if (unallocated > 0 && batches.length > 0) {
+      console.warn(`${unallocated} units of ${movement.sku} from movement ${movement.id} could not be allocated to an expiry batch`);
+    }
+
+    return records;
+  } catch (error) {
+    console.error('Error depleting batches for stock movement:', error);
+    throw error;
+  }
+}
+
+/**
+ * Put quantities allocated to stock movements back into their batches and remove the allocations
+ * Used before movements are deleted or changed
+ */
+export async function restoreBatchesForMovements(movementIds: number[]): Promise<void> {
+  try {
+    for (let i = 0; i < movementIds.length; i += MOVEMENT_ID_CHUNK_SIZE) {
+      const chunk = movementIds.slice(i, i + MOVEMENT_ID_CHUNK_SIZE);
+      const allocations = await stockMovementBatchesService.getByMovementIds(chunk);
+
+      // Total back per batch so each batch is updated once
+      const restored = new Map<number, number>();
+      allocations.forEach(allocation => {
+        if (allocation.product_expiry_id === null) return;
+        restored.set(
+          allocation.product_expiry_id,
+          (restored.get(allocation.product_expiry_id) || 0) + allocation.quantity
+        );
+      });
+
+      for (const [batchId, quantity] of restored) {
+        const batch = await productExpiryService.getById(batchId);
+        if (!batch) continue;
+
+        // Batches archived for running out are active again once stock is back,
+        // reversal allocations are negative and take stock out again
+        const reactivate = batch.quantity + quantity > 0 &&
+          (batch.archive_reason === 'sold_out' || batch.archive_reason === 'written_off');
+        await productExpiryService.update(batchId, {
+          quantity: batch.quantity + quantity,
+          ...(reactivate && { archived_at: null, archive_reason: null }),
+          updated_at: new Date()
+        });
+      }
+
+      await stockMovementBatchesService.deleteByMovementIds(chunk);
+    }
+  } catch (error) {
+    console.error('Error restoring batches for stock movements:', error);
+    throw error;
+  }
+}
+
+/**
+ * Put stock taken by reversed sales back into its batches, allocated to the reversal with negative quantities
+ * The reversed sales keep their allocations so they are never allocated again, and recalls net the two
+ */
+export async function restoreBatchesForReversal(
+  reversal: StockMovement,
+  saleMovementIds: number[]
+): Promise<StockMovementBatch[]> {
+  try {
+    if (!reversal.id || reversal.quantity <= 0) return [];
+
+    // Earlier reversals of the same sales are in the allocations too, so only what is still taken is restored
+    const taken = new Map<number, { allocation: StockMovementBatch; quantity: number }>();
+    (await stockMovementBatchesService.getByMovementIds(saleMovementIds)).forEach(allocation => {
+      if (allocation.product_expiry_id === null) return;
+      const batch = taken.get(allocation.product_expiry_id) || { allocation, quantity: 0 };
+      batch.quantity += allocation.quantity;
+      taken.set(allocation.product_expiry_id, batch);
+    });
+
+    const records: StockMovementBatch[] = [];
+    let remaining = reversal.quantity;
+
+    for (const [batchId, { allocation, quantity }] of taken) {
+      if (remaining <= 0) break;
+      if (quantity <= 0) continue;
+
+      const batch = await productExpiryService.getById(batchId);
+      if (!batch) continue;
+
+      const restored = Math.min(quantity, remaining);
+      const reactivate = batch.archive_reason === 'sold_out' || batch.archive_reason === 'written_off';
+      await productExpiryService.update(batchId, {
+        quantity: batch.quantity + restored,
+        ...(reactivate && { archived_at: null, archive_reason: null }),
+        updated_at: new Date()
+      });
+
+      records.push(await stockMovementBatchesService.add({
+        stock_movement_id: reversal.id,
+        product_expiry_id: batchId,
+        sku: reversal.sku,
+        batch_number: allocation.batch_number,
+        expiry_date: allocation.expiry_date,
+        quantity: -restored,
+        movement_type: reversal.movement_type,
+        movement_date: reversal.movement_date,
+        reference_id: reversal.reference_id
+      }));
+      remaining -= restored;
+    }
+
+    return records;
+  } catch (error) {
+    console.error('Error restoring batches for reversed stock movement:', error);
+    throw error;
+  }
+}
+
+/**
+ * Allocate every outgoing movement that has not been allocated yet, oldest first
+ * Brings batch quantities up to date with sales recorded before batch depletion existed
+ */
+export async function allocateUnallocatedMovements(): Promise<{ allocated: number; skipped: number }> {
+  try {
+    const allocatedIds = await stockMovementBatchesService.getAllocatedMovementIds();
+    const result = { allocated: 0, skipped: 0 };
+
+    // Allocating adds no movements, so paging by offset stays stable
+    for (let from = 0; ; from += MOVEMENT_PAGE_SIZE) {
+      const { data: movements, error } = await supabase
+        .from('stock_movements')
+        .select('*')
+        .in('movement_type', DEPLETING_MOVEMENT_TYPES)
+        .lt('quantity', 0)
+        .order('movement_date', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, from + MOVEMENT_PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      for (const movement of (movements || []) as StockMovement[]) {
+        if (allocatedIds.has(movement.id!)) continue;
+
+        const records = await depleteBatchesForMovement(movement);
+        if (records.length > 0) {
+          result.allocated++;
+        } else {
+          // No batches for the SKU when the movement happened
+          result.skipped++;
+        }
+      }
+
+      if (!movements || movements.length < MOVEMENT_PAGE_SIZE) return result;
+    }
+  } catch (error) {
+    console.error('Error allocating unallocated stock movements:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the batches consumed by stock movements, for recalls
+ */
+export async function getBatchConsumption(filters: {
+  sku?: string;
+  batchNumber?: string;
+  referenceId?: string;
+}): Promise<StockMovementBatch[]> {
+  try {
+    return await stockMovementBatchesService.search(filters);
+  } catch (error) {
+    console.error('Error getting batch consumption:', error);
+    throw error;
+  }
+}
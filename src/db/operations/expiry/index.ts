@@ -1,4 +1,4 @@
-import { ProductExpiry } from '../../../types';
+import { ExpiryArchiveReason, ProductExpiry } from '../../../types';
 import { productExpiryService, productsService, productVariationsService } from '../../../services';
 import { supabase } from '../../../services/supabase';
 
@@ -96,7 +96,8 @@ export async function getExpiringProducts(days: number = 90): Promise<ProductExp
     const futureDate = new Date();
     futureDate.setDate(today.getDate() + days);
     
-    return await productExpiryService.getExpiryByDateRange(today, futureDate);
+    const records = await productExpiryService.getExpiryByDateRange(today, futureDate);
+    return records.filter(record => !record.archived_at);
   } catch (error) {
     console.error('Error getting expiring products:', error);
     throw error;
@@ -179,15 +180,19 @@ export async function addBulkProductExpiry(expiryData: Array<Omit<ProductExpiry,
 }
 
 /**
- * Get product expiry records with product details
+ * Get active or archived product expiry records with product details
  */
-export async function getProductExpiryWithDetails(): Promise<ProductExpiry[]> {
+export async function getProductExpiryWithDetails(archived: boolean = false): Promise<ProductExpiry[]> {
   try {
-    // Get all expiry records directly from Supabase to avoid caching issues
-    const { data: expiryRecords, error } = await supabase
+    // Get expiry records directly from Supabase to avoid caching issues
+    const query = supabase
       .from('product_expiry')
       .select('*');
     
+    const { data: expiryRecords, error } = archived
+      ? await query.not('archived_at', 'is', null)
+      : await query.is('archived_at', null);
+    
     if (error) {
       console.error('Error fetching expiry records:', error);
       throw error;
@@ -243,10 +248,14 @@ export async function getProductExpiryWithDetails(): Promise<ProductExpiry[]> {
 /**
  * Get product expiry records sorted by expiry date
  */
-export async function getProductExpiryByExpiryDate(ascending: boolean = true, timestamp?: number): Promise<ProductExpiry[]> {
+export async function getProductExpiryByExpiryDate(
+  ascending: boolean = true,
+  timestamp?: number,
+  archived: boolean = false
+): Promise<ProductExpiry[]> {
   try {
-    // Get all expiry records with details
-    const records = await getProductExpiryWithDetails();
+    // Get active or archived expiry records with details
+    const records = await getProductExpiryWithDetails(archived);
     
     // Sort by expiry date
     return records.sort((a, b) => {
@@ -281,14 +290,16 @@ export async function getBatchNumbersBySku(sku: string): Promise<string[]> {
 }
 
 /**
- * Get total quantity for a specific SKU across all batches
+ * Get total quantity for a specific SKU across all active batches
  */
 export async function getTotalQuantityBySku(sku: string): Promise<number> {
   try {
     const expiryRecords = await productExpiryService.getExpiryBySku(sku);
     
     // Sum up quantities
-    return expiryRecords.reduce((total, record) => total + (record.quantity || 0), 0);
+    return expiryRecords
+      .filter(record => !record.archived_at)
+      .reduce((total, record) => total + (record.quantity || 0), 0);
   } catch (error) {
     console.error('Error getting total quantity by SKU:', error);
     throw error;
@@ -318,64 +329,118 @@ export async function deleteProductExpiryByBatchAndSku(batchNumber: string, sku:
 
 /**
  * Archive a product expiry record
- * This is a no-op since we're not using this functionality anymore
  */
-export async function archiveProductExpiry(id: number): Promise<void> {
-  console.log('Archive functionality is not used in this application');
-  // No-op
+export async function archiveProductExpiry(id: number, reason: ExpiryArchiveReason = 'manual'): Promise<void> {
+  try {
+    await productExpiryService.update(id, {
+      archived_at: new Date(),
+      archive_reason: reason,
+      restored_at: null,
+      updated_at: new Date()
+    });
+  } catch (error) {
+    console.error('Error archiving product expiry:', error);
+    throw error;
+  }
 }
 
 /**
- * Unarchive a product expiry record
- * This is a no-op since we're not using this functionality anymore
+ * Restore an archived product expiry record
+ * Restored records are left out of automatic archiving until they are archived again
  */
 export async function unarchiveProductExpiry(id: number): Promise<void> {
-  console.log('Unarchive functionality is not used in this application');
-  // No-op
+  try {
+    await productExpiryService.update(id, {
+      archived_at: null,
+      archive_reason: null,
+      restored_at: new Date(),
+      updated_at: new Date()
+    });
+  } catch (error) {
+    console.error('Error restoring product expiry:', error);
+    throw error;
+  }
 }
 
 /**
- * Get archived product expiry records
- * This returns all records since we're not using archive functionality anymore
+ * Get archived product expiry records with product details, latest expiry first
  */
 export async function getArchivedProductExpiry(): Promise<ProductExpiry[]> {
   try {
-    // Get all expiry records directly from Supabase
-    const { data: expiryRecords, error } = await supabase
+    return await getProductExpiryByExpiryDate(false, undefined, true);
+  } catch (error) {
+    console.error('Error getting archived product expiry:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the reason an active expiry record should be archived automatically, if any
+ * Batches with nothing left are sold out and batches past their expiry date are expired,
+ * unless the batch was restored after that happened
+ */
+export function getAutoArchiveReason(record: ProductExpiry, now: Date = new Date()): ExpiryArchiveReason | null {
+  if (record.archived_at) return null;
+
+  const restoredAt = record.restored_at ? new Date(record.restored_at) : null;
+  const expiryDate = new Date(record.expiry_date);
+
+  if (record.quantity <= 0 && !restoredAt) return 'sold_out';
+  if (expiryDate < now && (!restoredAt || restoredAt < expiryDate)) return 'expired';
+  return null;
+}
+
+/**
+ * Archive active expiry records that have sold out or passed their expiry date
+ * Returns the number of records archived
+ */
+export async function autoArchiveExpiryRecords(sku?: string, now: Date = new Date()): Promise<number> {
+  try {
+    let query = supabase
       .from('product_expiry')
-      .select('*');
+      .select('*')
+      .is('archived_at', null);
     
-    if (error) {
-      console.error('Error fetching expiry records:', error);
-      throw error;
+    if (sku) query = query.eq('sku', sku);
+    
+    const { data: records, error } = await query;
+    
+    if (error) throw error;
+    
+    let archived = 0;
+    for (const record of (records || []) as ProductExpiry[]) {
+      const reason = getAutoArchiveReason(record, now);
+      if (reason && record.id) {
+        await archiveProductExpiry(record.id, reason);
+        archived++;
+      }
     }
     
-    return expiryRecords as ProductExpiry[];
+    return archived;
   } catch (error) {
-    console.error('Error getting product expiry:', error);
+    console.error('Error auto-archiving expiry records:', error);
     throw error;
   }
 }
 
 /**
- * Auto-archive expiry records for products with zero stock
- * This is a no-op since the archived column doesn't exist in the database
+ * Auto-archive expiry records for a SKU that have sold out or expired
  */
 export async function autoArchiveExpiryForZeroStock(sku: string): Promise<void> {
-  console.log('Auto-archive functionality is not available - archived column does not exist in the database');
-  // No-op
+  await autoArchiveExpiryRecords(sku);
 }
 
 /**
- * Check if a product has any expiry records
+ * Check if a product has any active expiry records
  */
 export async function hasUnarchivedExpiryRecords(sku: string): Promise<boolean> {
   try {
-    // Get all expiry records for this SKU
+    // Get active expiry records for this SKU
     const { data: records, error } = await supabase
       .from('product_expiry')
       .select('*')
-      .eq('sku', sku);
+      .eq('sku', sku)
+      .is('archived_at', null);
     
     if (error) {
       console.error('Error checking for expiry records:', error);
@@ -387,4 +452,5 @@ export async function hasUnarchivedExpiryRecords(sku: string): Promise<boolean>
     console.error('Error checking for expiry records:', error);
     throw error;
   }
-} 
\ No newline at end of file
+} 
+export * from './batchDepletion';
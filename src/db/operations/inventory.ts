@@ -3,6 +3,7 @@ import { updateLastSync } from './sync';
 import { inventoryService } from '../../services';
 import { supabase } from '../../services/supabase';
 import { productsService, productVariationsService } from '../../services';
+import { recordSupplierPriceChange } from './supplierPriceHistory';
 
 export async function saveInventory(inventory: InventoryItem[]): Promise<void> {
   try {
@@ -106,6 +107,38 @@ export async function updateInventoryItem(sku: string, updates: Partial<Inventor
 }
 
 export async function updateSupplierPrice(
+  sku: string, 
+  supplierPrice: number, 
+  supplierName: string,
+  source: 'import' | 'manual' = 'manual',
+  importId?: number
+): Promise<boolean> {
+  // Remember the current price so the change can be added to the price history
+  const existingItem = sku ? await inventoryService.getInventoryBySku(sku).catch(() => null) : null;
+  
+  const updated = await applySupplierPrice(sku, supplierPrice, supplierName);
+  
+  if (updated) {
+    try {
+      await recordSupplierPriceChange(
+        sku,
+        supplierName,
+        supplierPrice,
+        existingItem?.supplier_price ?? null,
+        existingItem?.supplier_name ?? null,
+        source,
+        importId
+      );
+    } catch (error) {
+      // The price itself was saved, so a history failure should not fail the update
+      console.error(`Error recording price history for SKU ${sku}:`, error);
+    }
+  }
+  
+  return updated;
+}
+
+async function applySupplierPrice(
   sku: string, 
   supplierPrice: number, 
   supplierName: string
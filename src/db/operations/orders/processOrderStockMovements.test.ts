@@ -0,0 +1,63 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../../services/supabase', async () => {
+  const { fakeSupabase } = await import('../../../test/pgliteSupabase');
+  return { supabase: fakeSupabase, supabaseAdmin: null };
+});
+
+import { db } from '../../../test/pgliteSupabase';
+import { settingsService, syncService } from '../../../services';
+import { Order } from '../../../types';
+import { processNewOrdersStockMovements } from './processOrderStockMovements';
+
+const SCHEMA = `
+  CREATE TABLE stock_movements (
+    id BIGSERIAL PRIMARY KEY, sku TEXT, product_id BIGINT, variation_id BIGINT, movement_date TIMESTAMPTZ,
+    quantity INTEGER, movement_type TEXT, reason TEXT, reference_id TEXT, notes TEXT, location_id BIGINT, created_at TIMESTAMPTZ
+  );
+`;
+
+type SyncRecord = NonNullable<Awaited<ReturnType<typeof syncService.getLastSyncByType>>>;
+
+const REVERSED_ORDERS = 1100;
+
+const order = (number: string): Order => ({
+  id: Number(number),
+  number,
+  status: 'completed',
+  total: '5.00',
+  date_created: new Date('2025-03-01T00:00:00Z'),
+  date_completed: new Date('2025-03-01T00:00:00Z'),
+  line_items: [{ id: 1, product_id: 1, name: 'Green Tea', quantity: 1, sku: 'TEA-1' }]
+});
+
+// More cancelled orders than Supabase returns in one request, the newest one is reactivated
+describe('processNewOrdersStockMovements with many reversed orders', () => {
+  beforeAll(async () => {
+    await db.exec(SCHEMA);
+    await db.exec(`
+      INSERT INTO stock_movements (sku, product_id, movement_date, quantity, movement_type, reference_id)
+      SELECT 'TEA-1', 1, TIMESTAMPTZ '2025-03-01T00:00:00Z', -1, 'sale', n::TEXT
+      FROM generate_series(1, ${REVERSED_ORDERS}) AS n;
+      INSERT INTO stock_movements (sku, product_id, movement_date, quantity, movement_type, reason, reference_id)
+      SELECT 'TEA-1', 1, TIMESTAMPTZ '2025-03-02T00:00:00Z', 1, 'sale', 'cancellation', n::TEXT
+      FROM generate_series(1, ${REVERSED_ORDERS}) AS n;
+    `);
+  });
+
+  it('books the sales of a reactivated order again when its reversal is past the first page', async () => {
+    vi.spyOn(settingsService, 'getExcludeOnHoldOrders').mockResolvedValue(false);
+    vi.spyOn(syncService, 'getLastSyncByType').mockResolvedValue({ timestamp: new Date('2025-04-01T00:00:00Z') } as SyncRecord);
+    vi.spyOn(syncService, 'updateLastSync').mockResolvedValue({} as SyncRecord);
+
+    const result = await processNewOrdersStockMovements([order(String(REVERSED_ORDERS))]);
+
+    expect(result.processed).toBe(1);
+    const movements = await db.query<{ quantity: number; notes: string }>(
+      'SELECT quantity, notes FROM stock_movements WHERE reference_id = $1 ORDER BY id',
+      [String(REVERSED_ORDERS)]
+    );
+    expect(movements.rows.map(movement => movement.quantity)).toEqual([-1, 1, -1]);
+    expect(movements.rows[2].notes).toBe(`Order #${REVERSED_ORDERS} reinstated`);
+  });
+});
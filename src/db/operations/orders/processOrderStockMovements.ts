@@ -1,9 +1,21 @@
-import { Order, OrderItem } from '../../../types';
+import { Order, OrderItem, OrderRefund, OrderRefundItem, StockMovement } from '../../../types';
 import { addStockMovement, invalidateReconciliationCache, getStockMovementsBySku } from '../stockReconciliation';
 import { supabase } from '../../../services/supabase';
+import { fetchAllPages } from '../../../services/supabaseService';
 import { settingsService } from '../../../services';
 import { syncService } from '../../../services';
 import { updateLastSync } from '../sync';
+import { chunkArray } from '../../../services/api/utils';
+import { restoreBatchesForReversal } from '../expiry/batchDepletion';
+
+// Orders in these statuses no longer take stock, so their sales are reversed
+const REVERSED_ORDER_STATUSES = ['cancelled', 'refunded', 'failed'];
+
+// Order numbers per stock movement query, keeps the request URL short
+const ORDER_NUMBER_CHUNK_SIZE = 100;
+
+type OrderStockMovement = Pick<StockMovement, 'id' | 'sku' | 'quantity' | 'movement_type' | 'reason' | 'notes' | 'reference_id'>;
+type NewStockMovement = Omit<StockMovement, 'id' | 'created_at'>;
 
 /**
  * Process an order and create stock movements for each line item
@@ -22,6 +34,12 @@ export async function processOrderStockMovements(order: Order): Promise<void> {
       return;
     }
     
+    // Cancelled, refunded and failed orders give back what their sales took
+    if (REVERSED_ORDER_STATUSES.includes(order.status)) {
+      await reverseOrderSales(order);
+      return;
+    }
+    
     // Only process completed orders
     if (order.status !== 'completed' && order.status !== 'processing') {
       console.log(`Skipping order #${order.number} with status ${order.status}`);
@@ -33,6 +51,21 @@ export async function processOrderStockMovements(order: Order): Promise<void> {
       await createStockMovementForOrderItem(order, item);
     }
     
+    // Book sales again when a reversed order becomes active
+    const movements = await getOrderStockMovements([order.number]);
+    for (const movement of getSaleReinstatements(order, movements.get(order.number) || [])) {
+      await addStockMovement(movement);
+    }
+    
+    // Put restocked refund items back into stock
+    for (const refund of order.refunds || []) {
+      for (const refundItem of refund.line_items) {
+        if (refundItem.restock) {
+          await createStockMovementForRefundItem(order, refund, refundItem);
+        }
+      }
+    }
+    
     // Invalidate reconciliation cache after processing
     invalidateReconciliationCache();
     
@@ -43,6 +76,200 @@ export async function processOrderStockMovements(order: Order): Promise<void> {
   }
 }
 
+/**
+ * Bring the stock an order took back to zero, expiry batches included
+ * Used for cancelled, refunded and failed orders, and for orders deleted from the store
+ */
+export async function reverseOrderSales(order: Order): Promise<void> {
+  try {
+    const movements = (await getOrderStockMovements([order.number])).get(order.number) || [];
+    for (const reversal of getSaleReversals(order, movements)) {
+      const id = await addStockMovement(reversal);
+      const saleIds = movements
+        .filter(movement => movement.movement_type === 'sale' && movement.sku === reversal.sku)
+        .map(movement => movement.id!);
+      try {
+        await restoreBatchesForReversal({ ...reversal, id }, saleIds);
+      } catch (restoreError) {
+        console.error(`Error restoring expiry batches for stock movement ${id}:`, restoreError);
+      }
+    }
+    invalidateReconciliationCache();
+    console.log(`Finished reversing stock movements for ${order.status} order #${order.number}`);
+  } catch (error) {
+    console.error(`Error reversing stock movements for order #${order.number}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Get the sale and return movements of orders, keyed by order number
+ */
+async function getOrderStockMovements(orderNumbers: string[]): Promise<Map<string, OrderStockMovement[]>> {
+  const movementsByOrder = new Map<string, OrderStockMovement[]>();
+  
+  for (const batch of chunkArray(orderNumbers, ORDER_NUMBER_CHUNK_SIZE)) {
+    let data: OrderStockMovement[];
+    try {
+      data = await fetchAllPages<OrderStockMovement>((from, to) => supabase
+        .from('stock_movements')
+        .select('id, sku, quantity, movement_type, reason, notes, reference_id')
+        .in('reference_id', batch)
+        .in('movement_type', ['sale', 'adjustment'])
+        .order('id')
+        .range(from, to));
+    } catch (error) {
+      console.error('Error fetching order stock movements:', error);
+      throw error;
+    }
+    
+    for (const movement of data) {
+      if (movement.movement_type === 'adjustment' && movement.reason !== 'return') continue;
+      const movements = movementsByOrder.get(movement.reference_id!) || [];
+      movements.push(movement);
+      movementsByOrder.set(movement.reference_id!, movements);
+    }
+  }
+  
+  return movementsByOrder;
+}
+
+/**
+ * Sum movement quantities by SKU
+ */
+function sumBySku(movements: OrderStockMovement[]): Map<string, number> {
+  const totals = new Map<string, number>();
+  movements.forEach(movement => {
+    totals.set(movement.sku, (totals.get(movement.sku) || 0) + movement.quantity);
+  });
+  return totals;
+}
+
+/**
+ * Find the line item an order movement for a SKU belongs to
+ */
+function getLineItemForSku(order: Order, sku: string): OrderItem | undefined {
+  return order.line_items.find(item => item.sku === sku);
+}
+
+/**
+ * Positive sale movements that bring a reversed order's stock back to zero
+ * Restocked refund items already returned count towards the reversal
+ */
+function getSaleReversals(order: Order, movements: OrderStockMovement[]): NewStockMovement[] {
+  const reversals: NewStockMovement[] = [];
+  
+  sumBySku(movements).forEach((net, sku) => {
+    if (net >= 0) return;
+    const item = getLineItemForSku(order, sku);
+    reversals.push({
+      sku,
+      product_id: item?.product_id,
+      variation_id: item?.variation_id,
+      movement_date: new Date(),
+      quantity: Math.abs(net),
+      movement_type: 'sale',
+      reason: 'cancellation',
+      reference_id: order.number,
+      notes: `Order #${order.number} ${order.status}, sale reversed`
+    });
+  });
+  
+  return reversals;
+}
+
+/**
+ * Sale movements that book an order's stock again after its sales were reversed
+ */
+function getSaleReinstatements(order: Order, movements: OrderStockMovement[]): NewStockMovement[] {
+  const reversedSkus = new Set(
+    movements.filter(movement => movement.reason === 'cancellation').map(movement => movement.sku)
+  );
+  if (reversedSkus.size === 0) return [];
+  
+  // Returns are left out, refunds restock separately
+  const netSales = sumBySku(movements.filter(movement => movement.movement_type === 'sale'));
+  const reinstatements: NewStockMovement[] = [];
+  
+  reversedSkus.forEach(sku => {
+    const ordered = order.line_items
+      .filter(item => item.sku === sku)
+      .reduce((sum, item) => sum + Math.abs(item.quantity), 0);
+    const missing = ordered + (netSales.get(sku) || 0);
+    if (missing <= 0) return;
+    
+    const item = getLineItemForSku(order, sku);
+    reinstatements.push({
+      sku,
+      product_id: item?.product_id,
+      variation_id: item?.variation_id,
+      movement_date: new Date(),
+      quantity: -missing,
+      movement_type: 'sale',
+      reference_id: order.number,
+      notes: `Order #${order.number} reinstated`
+    });
+  });
+  
+  return reinstatements;
+}
+
+/**
+ * Restocked refund items that have no return movement yet
+ */
+function hasPendingRestocks(order: Order, movements: OrderStockMovement[]): boolean {
+  const restockNotes = new Set(
+    movements.filter(movement => movement.movement_type === 'adjustment').map(movement => movement.notes)
+  );
+  return (order.refunds || []).some(refund =>
+    refund.line_items.some(item => item.restock) &&
+    !restockNotes.has(`Refund #${refund.id} for order #${order.number}`)
+  );
+}
+
+/**
+ * Find orders processed before whose status or refunds have changed the stock they take
+ */
+async function getOrdersWithStockChanges(orders: Order[]): Promise<Order[]> {
+  // Order numbers with reversed sales, so reactivated orders can be booked again
+  // Read a page at a time, a store can have more reversals than one request returns
+  let reversals: Pick<StockMovement, 'reference_id'>[];
+  try {
+    reversals = await fetchAllPages<Pick<StockMovement, 'reference_id'>>((from, to) => supabase
+      .from('stock_movements')
+      .select('reference_id')
+      .eq('movement_type', 'sale')
+      .eq('reason', 'cancellation')
+      .order('id')
+      .range(from, to));
+  } catch (error) {
+    console.error('Error fetching sale reversals:', error);
+    throw error;
+  }
+  
+  const reversedOrderNumbers = new Set(reversals.map(reversal => reversal.reference_id as string));
+  const candidates = orders.filter(order =>
+    REVERSED_ORDER_STATUSES.includes(order.status) ||
+    ((order.status === 'completed' || order.status === 'processing') && (
+      reversedOrderNumbers.has(order.number) ||
+      (order.refunds || []).some(refund => refund.line_items.some(item => item.restock))
+    ))
+  );
+  if (candidates.length === 0) return [];
+  
+  const movementsByOrder = await getOrderStockMovements(candidates.map(order => order.number));
+  
+  return candidates.filter(order => {
+    const movements = movementsByOrder.get(order.number) || [];
+    if (REVERSED_ORDER_STATUSES.includes(order.status)) {
+      return getSaleReversals(order, movements).length > 0;
+    }
+    // Orders never processed are left to the new order check
+    if (movements.length === 0) return false;
+    return hasPendingRestocks(order, movements) || getSaleReinstatements(order, movements).length > 0;
+  });
+}
+
 /**
  * Create a stock movement for a single order item
  */
@@ -88,6 +315,61 @@ async function createStockMovementForOrderItem(order: Order, item: OrderItem): P
   }
 }
 
+/**
+ * Create a positive stock movement for a restocked refund item
+ */
+async function createStockMovementForRefundItem(
+  order: Order,
+  refund: OrderRefund,
+  refundItem: OrderRefundItem
+): Promise<void> {
+  try {
+    // Refund items don't always carry the SKU, so fall back to the original line item
+    const originalItem = order.line_items.find(item => item.id === refundItem.refunded_item_id);
+    const sku = refundItem.sku || originalItem?.sku;
+    
+    if (!sku) {
+      console.warn(`Refund item ${refundItem.id} on order #${order.number} has no SKU, skipping stock movement`);
+      return;
+    }
+    
+    const notes = `Refund #${refund.id} for order #${order.number}`;
+    
+    // Check if a stock movement for this refund item already exists
+    const { data: existingMovements, error: queryError } = await supabase
+      .from('stock_movements')
+      .select('id')
+      .eq('sku', sku)
+      .eq('movement_type', 'adjustment')
+      .eq('reason', 'return')
+      .eq('reference_id', order.number)
+      .eq('notes', notes);
+    
+    if (queryError) {
+      console.error(`Error checking for existing stock movements: ${queryError.message}`);
+    } else if (existingMovements && existingMovements.length > 0) {
+      console.log(`Restock movement for refund #${refund.id}, item ${sku} already exists. Skipping.`);
+      return;
+    }
+    
+    // Create a positive stock movement (restocked items return to stock)
+    await addStockMovement({
+      sku,
+      product_id: refundItem.product_id,
+      variation_id: refundItem.variation_id,
+      movement_date: refund.date_created || new Date(),
+      quantity: Math.abs(refundItem.quantity),
+      movement_type: 'adjustment',
+      reason: 'return',
+      reference_id: order.number,
+      notes
+    });
+  } catch (error) {
+    console.error(`Error creating restock movement for refund item ${refundItem.id}:`, error);
+    throw error;
+  }
+}
+
 /**
  * Process multiple orders and create stock movements
  */
@@ -183,7 +465,12 @@ export async function processNewOrdersStockMovements(orders: Order[]): Promise<{
       return true;
     });
     
-    console.log(`Found ${filteredOrders.length} orders to process out of ${orders.length} total orders`);
+    // Older orders that were cancelled, refunded, reactivated or restocked since they were processed
+    const newOrders = new Set(filteredOrders);
+    const changedOrders = await getOrdersWithStockChanges(orders.filter(order => !newOrders.has(order)));
+    filteredOrders.push(...changedOrders);
+    
+    console.log(`Found ${filteredOrders.length} orders to process out of ${orders.length} total orders, ${changedOrders.length} with status or refund changes`);
     
     const result = {
       processed: 0,
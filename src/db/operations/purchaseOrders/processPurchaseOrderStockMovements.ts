@@ -6,11 +6,12 @@ import { supabase } from '../../../services/supabase';
 
 /**
  * Process a purchase order and create stock movements for each item
- * This should be called when a purchase order is received
+ * This should be called when a purchase order is received, stock goes into the default location unless one is given
  */
 export async function processPurchaseOrderStockMovements(
   purchaseOrder: PurchaseOrder,
-  items: PurchaseOrderItem[]
+  items: PurchaseOrderItem[],
+  locationId?: number | null
 ): Promise<void> {
   try {
     console.log(`Processing stock movements for purchase order #${purchaseOrder.reference_number}`);
@@ -23,7 +24,7 @@ export async function processPurchaseOrderStockMovements(
     
     // Process each item
     for (const item of items) {
-      await createStockMovementForPurchaseOrderItem(purchaseOrder, item);
+      await createStockMovementForPurchaseOrderItem(purchaseOrder, item, locationId);
     }
     
     // Invalidate reconciliation cache after processing
@@ -41,7 +42,8 @@ export async function processPurchaseOrderStockMovements(
  */
 async function createStockMovementForPurchaseOrderItem(
   purchaseOrder: PurchaseOrder,
-  item: PurchaseOrderItem
+  item: PurchaseOrderItem,
+  locationId?: number | null
 ): Promise<void> {
   try {
     // Skip items without SKU
@@ -82,7 +84,8 @@ async function createStockMovementForPurchaseOrderItem(
       reference_id: purchaseOrder.reference_number,
       notes: `Purchase Order #${purchaseOrder.reference_number}`,
       batch_number: item.batch_number,
-      expiry_date: item.expiry_date
+      expiry_date: item.expiry_date,
+      location_id: locationId ?? null
     });
     
     // Add to expiry tracking if expiry date and batch number are set
@@ -0,0 +1,44 @@
+import { RecurringExpense } from '../../types';
+import { recurringExpensesService } from '../../services';
+
+// Recurring expense operations
+export async function getRecurringExpenses(startDate?: Date, endDate?: Date): Promise<RecurringExpense[]> {
+  try {
+    if (startDate && endDate) {
+      return await recurringExpensesService.getActiveInRange(startDate, endDate);
+    } else {
+      return await recurringExpensesService.getAll();
+    }
+  } catch (error) {
+    console.error('Error getting recurring expenses:', error);
+    throw error;
+  }
+}
+
+export async function saveRecurringExpense(recurringExpense: RecurringExpense): Promise<number> {
+  try {
+    const result = await recurringExpensesService.add(recurringExpense);
+    return result.id!;
+  } catch (error) {
+    console.error('Error saving recurring expense:', error);
+    throw error;
+  }
+}
+
+export async function updateRecurringExpense(id: number, recurringExpense: Partial<RecurringExpense>): Promise<void> {
+  try {
+    await recurringExpensesService.update(id, recurringExpense);
+  } catch (error) {
+    console.error('Error updating recurring expense:', error);
+    throw error;
+  }
+}
+
+export async function deleteRecurringExpense(id: number): Promise<void> {
+  try {
+    await recurringExpensesService.delete(id);
+  } catch (error) {
+    console.error('Error deleting recurring expense:', error);
+    throw error;
+  }
+}
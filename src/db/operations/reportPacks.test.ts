@@ -0,0 +1,70 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../services/supabase', async () => {
+  const { fakeSupabase } = await import('../../test/pgliteSupabase');
+  return { supabase: fakeSupabase, supabaseAdmin: null };
+});
+
+// Report data and rendering are not what is under test
+vi.mock('../../services/reports', () => ({ loadReportData: async () => ({}) }));
+vi.mock('../../services/reports/reportPack', async importOriginal => ({
+  ...await importOriginal<typeof import('../../services/reports/reportPack')>(),
+  buildReportPackSections: () => [],
+  renderReportPack: async () => new Blob(['pack'])
+}));
+
+import { db } from '../../test/pgliteSupabase';
+import { reportPackRunsService } from '../../services';
+import { runDueReportPacks } from './reportPacks';
+
+const SCHEMA = `
+  CREATE TABLE report_pack_schedules (
+    id BIGSERIAL PRIMARY KEY, name TEXT NOT NULL, frequency TEXT NOT NULL, run_day INTEGER NOT NULL, period TEXT NOT NULL,
+    formats JSONB NOT NULL, active BOOLEAN NOT NULL, last_run_at TIMESTAMPTZ, next_run_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ, updated_at TIMESTAMPTZ
+  );
+  CREATE TABLE report_pack_runs (
+    id BIGSERIAL PRIMARY KEY, schedule_id BIGINT, name TEXT NOT NULL, period_start TIMESTAMPTZ NOT NULL,
+    period_end TIMESTAMPTZ NOT NULL, files JSONB NOT NULL, generated_at TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ, updated_at TIMESTAMPTZ
+  );
+`;
+
+const schedule = async () => (await db.query<{ last_run_at: Date | null; next_run_at: Date }>(
+  'SELECT last_run_at, next_run_at FROM report_pack_schedules'
+)).rows[0];
+
+describe('runDueReportPacks', () => {
+  beforeAll(async () => {
+    await db.exec(SCHEMA);
+    await db.query(
+      `INSERT INTO report_pack_schedules (name, frequency, run_day, period, formats, active, next_run_at)
+       VALUES ('Monthly pack', 'monthly', 1, 'last_month', '["pdf"]', TRUE, $1)`,
+      [new Date(Date.now() - 60 * 60 * 1000)]
+    );
+  });
+
+  it('generates a due pack once when several sessions check at the same time', async () => {
+    const upload = vi.spyOn(reportPackRunsService, 'uploadFile')
+      .mockImplementation(async (path, file, format) => ({ format, path, size: file.size }));
+
+    const generated = await Promise.all([runDueReportPacks(), runDueReportPacks(), runDueReportPacks()]);
+
+    expect(generated.reduce((sum, count) => sum + count, 0)).toBe(1);
+    expect(upload).toHaveBeenCalledTimes(1);
+    expect((await db.query('SELECT * FROM report_pack_runs')).rows).toHaveLength(1);
+
+    const { last_run_at, next_run_at } = await schedule();
+    expect(last_run_at).not.toBeNull();
+    expect(next_run_at.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('hands the run back when the pack cannot be generated', async () => {
+    const dueAt = new Date(Date.now() - 60 * 60 * 1000);
+    await db.query('UPDATE report_pack_schedules SET next_run_at = $1', [dueAt]);
+    vi.spyOn(reportPackRunsService, 'uploadFile').mockRejectedValue(new Error('Storage is down'));
+
+    expect(await runDueReportPacks()).toBe(0);
+    expect((await schedule()).next_run_at.getTime()).toBe(dueAt.getTime());
+  });
+});
@@ -0,0 +1,258 @@
+import { DateRange, ReportPackFile, ReportPackFormat, ReportPackRun, ReportPackSchedule } from '../../types';
+import { reportPackRunsService, reportPackSchedulesService } from '../../services';
+import { loadReportData } from '../../services/reports';
+import {
+  buildReportPackSections,
+  getNextReportPackRun,
+  getReportPackPeriodRange,
+  getReportPackPeriodType,
+  renderReportPack
+} from '../../services/reports/reportPack';
+import { formatInStoreTimezone } from '../../utils/dateUtils';
+
+/**
+ * Get all report pack schedules
+ */
+export async function getReportPackSchedules(): Promise<ReportPackSchedule[]> {
+  try {
+    return await reportPackSchedulesService.getAll();
+  } catch (error) {
+    console.error('Error getting report pack schedules:', error);
+    throw error;
+  }
+}
+
+/**
+ * Add a report pack schedule, the first run is worked out from the schedule
+ */
+export async function addReportPackSchedule(
+  schedule: Omit<ReportPackSchedule, 'id' | 'last_run_at' | 'next_run_at' | 'created_at' | 'updated_at'>
+): Promise<ReportPackSchedule> {
+  try {
+    return await reportPackSchedulesService.add({
+      ...schedule,
+      next_run_at: getNextReportPackRun(schedule as ReportPackSchedule)
+    });
+  } catch (error) {
+    console.error('Error adding report pack schedule:', error);
+    throw error;
+  }
+}
+
+/**
+ * Update a report pack schedule and work out its next run again
+ */
+export async function updateReportPackSchedule(
+  id: number,
+  schedule: Partial<ReportPackSchedule>
+): Promise<ReportPackSchedule> {
+  try {
+    const existing = await reportPackSchedulesService.getById(id);
+    if (!existing) {
+      throw new Error(`Report pack schedule ${id} not found`);
+    }
+
+    const updated = { ...existing, ...schedule };
+    return await reportPackSchedulesService.update(id, {
+      ...schedule,
+      next_run_at: getNextReportPackRun(updated)
+    });
+  } catch (error) {
+    console.error(`Error updating report pack schedule ${id}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a report pack schedule, packs it generated are kept
+ */
+export async function deleteReportPackSchedule(id: number): Promise<void> {
+  try {
+    await reportPackSchedulesService.delete(id);
+  } catch (error) {
+    console.error(`Error deleting report pack schedule ${id}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Generate a report pack for a period, store its files and record the run
+ */
+export async function generateReportPack(
+  name: string,
+  dateRange: DateRange,
+  formats: ReportPackFormat[],
+  scheduleId?: number
+): Promise<ReportPackRun> {
+  try {
+    if (formats.length === 0) {
+      throw new Error('Choose at least one report pack format');
+    }
+
+    const reportData = await loadReportData(dateRange, getReportPackPeriodType(dateRange));
+    const sections = buildReportPackSections(reportData);
+
+    const generatedAt = new Date();
+    const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'report-pack';
+    const folder = `${formatInStoreTimezone(dateRange.startDate, 'yyyy-MM-dd')}_${formatInStoreTimezone(dateRange.endDate, 'yyyy-MM-dd')}`;
+
+    const files: ReportPackFile[] = [];
+    for (const format of formats) {
+      const file = await renderReportPack(format, name, dateRange, sections);
+      const path = `${slug}/${folder}/${slug}-${generatedAt.getTime()}.${format}`;
+      files.push(await reportPackRunsService.uploadFile(path, file, format));
+    }
+
+    return await reportPackRunsService.add({
+      schedule_id: scheduleId ?? null,
+      name,
+      period_start: dateRange.startDate,
+      period_end: dateRange.endDate,
+      files,
+      generated_at: generatedAt
+    });
+  } catch (error) {
+    console.error(`Error generating report pack ${name}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Generate the pack for a schedule now and move it to its next run
+ * Scheduled runs report on the period before they were due, even if they run late
+ */
+export async function runReportPackSchedule(
+  schedule: ReportPackSchedule,
+  dueAt: Date = new Date()
+): Promise<ReportPackRun> {
+  try {
+    const run = await generateReportPack(
+      schedule.name,
+      getReportPackPeriodRange(schedule.period, dueAt),
+      schedule.formats,
+      schedule.id
+    );
+
+    const now = new Date();
+    await reportPackSchedulesService.update(schedule.id!, {
+      last_run_at: now,
+      next_run_at: getNextReportPackRun(schedule, now)
+    });
+
+    return run;
+  } catch (error) {
+    console.error(`Error running report pack schedule ${schedule.id}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Run every active schedule that is due
+ * Each open session checks for due packs, so a schedule is claimed by moving it to its next run
+ * and only the session whose claim succeeds generates the pack
+ * Returns the number of packs generated
+ */
+export async function runDueReportPacks(): Promise<number> {
+  try {
+    const dueSchedules = await reportPackSchedulesService.getDueSchedules(new Date());
+    let generated = 0;
+
+    for (const schedule of dueSchedules) {
+      const dueAt = new Date(schedule.next_run_at!);
+      const nextRunAt = getNextReportPackRun(schedule, new Date());
+
+      try {
+        if (!await reportPackSchedulesService.moveNextRun(schedule.id!, dueAt, nextRunAt)) continue;
+
+        try {
+          await generateReportPack(
+            schedule.name,
+            getReportPackPeriodRange(schedule.period, dueAt),
+            schedule.formats,
+            schedule.id
+          );
+        } catch (error) {
+          // Hand the run back so the next check tries again
+          await reportPackSchedulesService.moveNextRun(schedule.id!, nextRunAt, dueAt);
+          throw error;
+        }
+
+        await reportPackSchedulesService.update(schedule.id!, { last_run_at: new Date() });
+        generated++;
+      } catch (error) {
+        // Keep going so one failing schedule does not hold up the rest
+        console.error(`Scheduled report pack ${schedule.name} failed:`, error);
+      }
+    }
+
+    return generated;
+  } catch (error) {
+    console.error('Error running due report packs:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get generated report packs, newest first
+ */
+export async function getReportPackRuns(limit: number = 50): Promise<ReportPackRun[]> {
+  try {
+    return await reportPackRunsService.getRecentRuns(limit);
+  } catch (error) {
+    console.error('Error getting report pack runs:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get a download URL for a generated pack file
+ */
+export async function getReportPackFileUrl(file: ReportPackFile): Promise<string> {
+  try {
+    return await reportPackRunsService.getFileUrl(file.path);
+  } catch (error) {
+    console.error(`Error getting report pack file ${file.path}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a generated pack and its stored files
+ */
+export async function deleteReportPackRun(run: ReportPackRun): Promise<void> {
+  try {
+    await reportPackRunsService.removeFiles(run.files.map(file => file.path));
+    await reportPackRunsService.delete(run.id!);
+  } catch (error) {
+    console.error(`Error deleting report pack run ${run.id}:`, error);
+    throw error;
+  }
+}
+
+let reportPackInterval: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Check for due report pack schedules on an interval while the app is open
+ */
+export const scheduleReportPacks = (intervalMinutes: number = 60) => {
+  // The layout can mount more than once, only one check loop is needed
+  if (reportPackInterval) return;
+
+  console.log(`Checking for due report packs every ${intervalMinutes} minutes`);
+
+  const runDue = () => {
+    runDueReportPacks()
+      .then(count => {
+        if (count > 0) {
+          console.log(`Generated ${count} scheduled report packs`);
+        }
+      })
+      .catch(error => {
+        console.error('Error during scheduled report pack run:', error);
+      });
+  };
+
+  // Wait 1 minute after startup before the first check
+  setTimeout(runDue, 60000);
+  reportPackInterval = setInterval(runDue, intervalMinutes * 60 * 1000);
+};
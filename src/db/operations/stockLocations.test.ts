@@ -0,0 +1,121 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../services/supabase', async () => {
+  const { fakeSupabase } = await import('../../test/pgliteSupabase');
+  return { supabase: fakeSupabase, supabaseAdmin: null };
+});
+
+// Product names come from the reconciliation summaries, which are not what is under test
+vi.mock('./stockReconciliation', async importOriginal => ({
+  ...await importOriginal<typeof import('./stockReconciliation')>(),
+  generateAllReconciliationSummaries: async () => []
+}));
+
+import { db } from '../../test/pgliteSupabase';
+import { inventoryService, settingsService } from '../../services';
+import { InventoryItem } from '../../types';
+import {
+  generateLocationStockSummaries,
+  getShrinkageByLocation,
+  reconcileAtLocation,
+  transferStock
+} from './stockLocations';
+
+const SCHEMA = `
+  CREATE TABLE stock_locations (
+    id BIGSERIAL PRIMARY KEY, name TEXT NOT NULL, type TEXT, is_default BOOLEAN NOT NULL DEFAULT FALSE,
+    active BOOLEAN, notes TEXT, created_at TIMESTAMPTZ, updated_at TIMESTAMPTZ
+  );
+  CREATE TABLE stock_movements (
+    id BIGSERIAL PRIMARY KEY, sku TEXT, product_id BIGINT, variation_id BIGINT, movement_date TIMESTAMPTZ,
+    quantity INTEGER, movement_type TEXT, reason TEXT, reference_id TEXT, notes TEXT, location_id BIGINT, created_at TIMESTAMPTZ
+  );
+  CREATE TABLE stock_reconciliations (
+    id BIGSERIAL PRIMARY KEY, sku TEXT, product_id BIGINT, variation_id BIGINT, reconciliation_date TIMESTAMPTZ,
+    expected_quantity INTEGER, actual_quantity INTEGER, discrepancy INTEGER, location_id BIGINT, notes TEXT, created_at TIMESTAMPTZ
+  );
+`;
+
+const MAIN = 1;
+const SHOP = 2;
+
+const expectedAt = async (locationId: number) =>
+  (await generateLocationStockSummaries(locationId)).find(summary => summary.sku === 'TEA-1');
+
+// 1500 units in the default location with 1100 sold online, more movements than Supabase returns in one request
+describe('stock locations past the first page of stock movements', () => {
+  beforeAll(async () => {
+    await db.exec(SCHEMA);
+    await db.exec(`
+      INSERT INTO stock_locations (id, name, is_default) VALUES (1, 'Main', TRUE), (2, 'Shop', FALSE);
+      INSERT INTO stock_movements (sku, movement_date, quantity, movement_type, reason, location_id) VALUES
+        ('TEA-1', '2025-01-01T00:00:00Z', 1500, 'initial', NULL, NULL),
+        ('TEA-1', '2025-07-01T00:00:00Z', -2, 'adjustment', 'damage', NULL);
+      INSERT INTO stock_movements (sku, movement_date, quantity, movement_type, reference_id)
+      SELECT 'TEA-1', TIMESTAMPTZ '2025-02-01T00:00:00Z' + n * INTERVAL '1 minute', -1, 'sale', n::TEXT
+      FROM generate_series(1, 1100) AS n;
+    `);
+  });
+
+  beforeEach(() => {
+    vi.spyOn(settingsService, 'getExcludeOnHoldOrders').mockResolvedValue(false);
+    vi.spyOn(inventoryService, 'getAll').mockResolvedValue([{ sku: 'TEA-1', cost_price: 4 } as InventoryItem]);
+  });
+
+  it('moves stock between locations as a pair of movements sharing a reference', async () => {
+    const referenceId = await transferStock({
+      sku: 'TEA-1',
+      quantity: 200,
+      fromLocationId: MAIN,
+      toLocationId: SHOP,
+      date: new Date('2025-06-01T00:00:00Z')
+    });
+    await db.query(
+      "INSERT INTO stock_movements (sku, movement_date, quantity, movement_type, reason, location_id) VALUES ('TEA-1', '2025-07-02T00:00:00Z', -3, 'adjustment', 'theft', $1)",
+      [SHOP]
+    );
+
+    const transfer = await db.query<{ quantity: number; location_id: number }>(
+      'SELECT quantity, location_id FROM stock_movements WHERE reference_id = $1 ORDER BY quantity',
+      [referenceId]
+    );
+    expect(transfer.rows).toEqual([{ quantity: -200, location_id: MAIN }, { quantity: 200, location_id: SHOP }]);
+  });
+
+  it('totals each location from every movement, with movements without a location at the default', async () => {
+    expect(await expectedAt(MAIN)).toMatchObject({
+      initial_stock: 1500,
+      total_sales: -1100,
+      transfers_out: 200,
+      transfers_in: 0,
+      shrinkage: -2,
+      expected_stock: 198
+    });
+    expect(await expectedAt(SHOP)).toMatchObject({
+      initial_stock: 0,
+      total_sales: 0,
+      transfers_in: 200,
+      shrinkage: -3,
+      expected_stock: 197
+    });
+  });
+
+  it('values shrinkage at cost for each location', async () => {
+    expect((await getShrinkageByLocation()).map(total => [total.location_name, total.shrinkage_units, total.shrinkage_value])).toEqual([
+      ['Main', -2, -8],
+      ['Shop', -3, -12]
+    ]);
+  });
+
+  it('posts the difference from the expected stock at the location as a correction there', async () => {
+    const reconciliation = await reconcileAtLocation('TEA-1', SHOP, 190);
+
+    expect(reconciliation).toMatchObject({ expected_quantity: 197, actual_quantity: 190, discrepancy: -7, location_id: SHOP });
+    const correction = await db.query<{ quantity: number; location_id: number }>(
+      "SELECT quantity, location_id FROM stock_movements WHERE reason = 'correction'"
+    );
+    expect(correction.rows).toEqual([{ quantity: -7, location_id: SHOP }]);
+    expect(await expectedAt(SHOP)).toMatchObject({ expected_stock: 190, last_counted_quantity: 190 });
+    expect((await expectedAt(MAIN))?.expected_stock).toBe(198);
+  });
+});
@@ -0,0 +1,323 @@
+import { LocationShrinkage, LocationStockSummary, StockLocation, StockMovement, StockReconciliation } from '../../types';
+import { inventoryService, stockLocationsService } from '../../services';
+import { supabase } from '../../services/supabase';
+import { fetchAllPages } from '../../services/supabaseService';
+import { createInventoryMap, getCostPrice } from '../../services/pnl/inventoryUtils';
+import {
+  addStockMovement,
+  deleteStockMovement,
+  generateAllReconciliationSummaries,
+  getAllStockMovements,
+  invalidateReconciliationCache,
+  recordReconciliation
+} from './stockReconciliation';
+
+// Adjustment reasons that count as stock lost or found at a location
+const SHRINKAGE_REASONS: StockMovement['reason'][] = ['correction', 'theft', 'damage', 'expiry'];
+
+/**
+ * Get stock locations with the default first
+ */
+export async function getStockLocations(): Promise<StockLocation[]> {
+  try {
+    return await stockLocationsService.getLocations();
+  } catch (error) {
+    console.error('Error getting stock locations:', error);
+    throw error;
+  }
+}
+
+/**
+ * Id of the location that movements without a location belong to
+ */
+export function getDefaultLocationId(locations: StockLocation[]): number | undefined {
+  return (locations.find(location => location.is_default) || locations[0])?.id;
+}
+
+/**
+ * Whether a movement happened at a location, movements without one are at the default location
+ */
+export function isMovementAtLocation(
+  movement: Pick<StockMovement, 'location_id'>,
+  locationId: number,
+  defaultLocationId?: number
+): boolean {
+  return (movement.location_id ?? defaultLocationId) === locationId;
+}
+
+/**
+ * Add or update a stock location, keeping a single default
+ */
+export async function saveStockLocation(location: StockLocation): Promise<StockLocation> {
+  try {
+    const saved = location.id
+      ? await stockLocationsService.update(location.id, location)
+      : await stockLocationsService.add(location);
+
+    if (saved.is_default && saved.id) {
+      await stockLocationsService.clearDefaultExcept(saved.id);
+    }
+
+    invalidateReconciliationCache();
+    return saved;
+  } catch (error) {
+    console.error('Error saving stock location:', error);
+    throw error;
+  }
+}
+
+/**
+ * Move stock from one location to another
+ * The transfer is a pair of movements sharing a reference, so the total stock of the SKU does not change
+ */
+export async function transferStock(transfer: {
+  sku: string;
+  quantity: number;
+  fromLocationId: number;
+  toLocationId: number;
+  date: Date;
+  notes?: string;
+}): Promise<string> {
+  try {
+    if (transfer.fromLocationId === transfer.toLocationId) {
+      throw new Error('Choose two different locations');
+    }
+    if (!Number.isInteger(transfer.quantity) || transfer.quantity <= 0) {
+      throw new Error('Transfer quantity must be a whole number above zero');
+    }
+
+    const referenceId = `TRANSFER-${Date.now()}`;
+    const notes = transfer.notes || 'Stock transfer';
+
+    const outId = await addStockMovement({
+      sku: transfer.sku,
+      movement_date: transfer.date,
+      quantity: -transfer.quantity,
+      movement_type: 'transfer',
+      reference_id: referenceId,
+      location_id: transfer.fromLocationId,
+      notes
+    });
+
+    try {
+      await addStockMovement({
+        sku: transfer.sku,
+        movement_date: transfer.date,
+        quantity: transfer.quantity,
+        movement_type: 'transfer',
+        reference_id: referenceId,
+        location_id: transfer.toLocationId,
+        notes
+      });
+    } catch (inError) {
+      // Never leave half a transfer behind
+      await deleteStockMovement(outId);
+      throw inError;
+    }
+
+    return referenceId;
+  } catch (error) {
+    console.error(`Error transferring stock for SKU ${transfer.sku}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Delete both movements of a transfer
+ */
+export async function deleteStockTransfer(referenceId: string): Promise<void> {
+  try {
+    const { data, error } = await supabase
+      .from('stock_movements')
+      .select('id')
+      .eq('movement_type', 'transfer')
+      .eq('reference_id', referenceId);
+
+    if (error) throw error;
+
+    for (const movement of data || []) {
+      await deleteStockMovement(movement.id);
+    }
+  } catch (error) {
+    console.error(`Error deleting stock transfer ${referenceId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Get the latest count of each SKU at a location
+ * Counts are read a page at a time, a location can have more than one request's worth
+ */
+async function getLatestLocationCounts(locationId: number): Promise<Map<string, StockReconciliation>> {
+  const counts = await fetchAllPages<StockReconciliation>((from, to) => supabase
+    .from('stock_reconciliations')
+    .select('*')
+    .eq('location_id', locationId)
+    .order('reconciliation_date', { ascending: false })
+    .order('id', { ascending: false })
+    .range(from, to));
+
+  const latest = new Map<string, StockReconciliation>();
+  counts.forEach(reconciliation => {
+    if (!latest.has(reconciliation.sku)) {
+      latest.set(reconciliation.sku, reconciliation);
+    }
+  });
+  return latest;
+}
+
+/**
+ * Build the expected stock of every SKU at a location from the movement ledger
+ * Sales and other movements without a location are counted at the default location
+ */
+export async function generateLocationStockSummaries(locationId: number): Promise<LocationStockSummary[]> {
+  try {
+    const [locations, movements, summaries, latestCounts] = await Promise.all([
+      getStockLocations(),
+      getAllStockMovements(),
+      generateAllReconciliationSummaries(),
+      getLatestLocationCounts(locationId)
+    ]);
+    const defaultLocationId = getDefaultLocationId(locations);
+    const productNames = new Map(summaries.map(summary => [summary.sku, summary.product_name]));
+    const bySku = new Map<string, LocationStockSummary>();
+
+    movements.forEach(movement => {
+      if (!isMovementAtLocation(movement, locationId, defaultLocationId)) return;
+
+      let summary = bySku.get(movement.sku);
+      if (!summary) {
+        summary = {
+          sku: movement.sku,
+          product_name: productNames.get(movement.sku) || `Unknown Product (${movement.sku})`,
+          location_id: locationId,
+          initial_stock: 0,
+          total_purchases: 0,
+          total_sales: 0,
+          transfers_in: 0,
+          transfers_out: 0,
+          total_adjustments: 0,
+          shrinkage: 0,
+          expected_stock: 0
+        };
+        bySku.set(movement.sku, summary);
+      }
+
+      switch (movement.movement_type) {
+        case 'initial':
+          summary.initial_stock += movement.quantity;
+          break;
+        case 'purchase':
+          summary.total_purchases += movement.quantity;
+          break;
+        case 'sale':
+          summary.total_sales += movement.quantity;
+          break;
+        case 'transfer':
+          if (movement.quantity > 0) {
+            summary.transfers_in += movement.quantity;
+          } else {
+            summary.transfers_out += -movement.quantity;
+          }
+          break;
+        case 'adjustment':
+          if (SHRINKAGE_REASONS.includes(movement.reason)) {
+            summary.shrinkage += movement.quantity;
+          } else {
+            summary.total_adjustments += movement.quantity;
+          }
+          break;
+      }
+      summary.expected_stock += movement.quantity;
+    });
+
+    latestCounts.forEach((count, sku) => {
+      const summary = bySku.get(sku);
+      if (!summary) return;
+      summary.last_counted = count.reconciliation_date;
+      summary.last_counted_quantity = count.actual_quantity;
+      summary.last_count_discrepancy = count.discrepancy;
+    });
+
+    return Array.from(bySku.values()).sort((a, b) => a.sku.localeCompare(b.sku));
+  } catch (error) {
+    console.error(`Error generating stock summaries for location ${locationId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Total shrinkage of each location, valued at cost price
+ */
+export async function getShrinkageByLocation(): Promise<LocationShrinkage[]> {
+  try {
+    const [locations, movements, inventory] = await Promise.all([
+      getStockLocations(),
+      getAllStockMovements(),
+      inventoryService.getAll()
+    ]);
+    const defaultLocationId = getDefaultLocationId(locations);
+    const inventoryMap = createInventoryMap(inventory);
+
+    const totals = new Map<number, LocationShrinkage>();
+    locations.forEach(location => {
+      if (!location.id) return;
+      totals.set(location.id, {
+        location_id: location.id,
+        location_name: location.name,
+        shrinkage_units: 0,
+        shrinkage_value: 0,
+        movement_count: 0
+      });
+    });
+
+    movements.forEach(movement => {
+      if (movement.movement_type !== 'adjustment' || !SHRINKAGE_REASONS.includes(movement.reason)) return;
+
+      const total = totals.get(movement.location_id ?? defaultLocationId ?? -1);
+      if (!total) return;
+      total.shrinkage_units += movement.quantity;
+      total.shrinkage_value += movement.quantity * getCostPrice({ sku: movement.sku }, inventoryMap);
+      total.movement_count++;
+    });
+
+    return Array.from(totals.values());
+  } catch (error) {
+    console.error('Error getting shrinkage by location:', error);
+    throw error;
+  }
+}
+
+/**
+ * Record a count of a SKU at one location
+ * The discrepancy against the location's expected stock is posted as a correction at that location
+ */
+export async function reconcileAtLocation(
+  sku: string,
+  locationId: number,
+  actualQuantity: number,
+  notes?: string
+): Promise<StockReconciliation> {
+  try {
+    const summaries = await generateLocationStockSummaries(locationId);
+    const expectedQuantity = summaries.find(summary => summary.sku === sku)?.expected_stock || 0;
+
+    const reconciliation: Omit<StockReconciliation, 'id' | 'created_at'> = {
+      sku,
+      reconciliation_date: new Date(),
+      expected_quantity: expectedQuantity,
+      actual_quantity: actualQuantity,
+      discrepancy: actualQuantity - expectedQuantity,
+      location_id: locationId,
+      notes
+    };
+
+    const { reconciliationId } = await recordReconciliation(reconciliation);
+    invalidateReconciliationCache();
+
+    return { ...reconciliation, id: reconciliationId };
+  } catch (error) {
+    console.error(`Error reconciling SKU ${sku} at location ${locationId}:`, error);
+    throw error;
+  }
+}
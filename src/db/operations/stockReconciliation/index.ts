@@ -7,6 +7,9 @@ import {
   Order
 } from '../../../types';
 import { productsService, productVariationsService, settingsService, ordersService } from '../../../services';
+import { depleteBatchesForMovement, restoreBatchesForMovements } from '../expiry/batchDepletion';
+import { queryReconciliationSummaries } from './reconciliationQuery';
+import { fetchAllPages } from '../../../services/supabaseService';
 
 /**
  * Add a new stock movement record
@@ -26,6 +29,13 @@ export async function addStockMovement(movement: Omit<StockMovement, 'id' | 'cre
     
     if (error) throw error;
     
+    // Take outgoing stock from expiry batches, first expiry first
+    try {
+      await depleteBatchesForMovement({ ...movement, id: data.id });
+    } catch (depletionError) {
+      console.error(`Error depleting expiry batches for stock movement ${data.id}:`, depletionError);
+    }
+    
     // Invalidate cache since data has changed
     invalidateReconciliationCache();
     
@@ -37,6 +47,24 @@ export async function addStockMovement(movement: Omit<StockMovement, 'id' | 'cre
   }
 }
 
+/**
+ * Orders whose sales are rebuilt when on-hold orders are excluded
+ */
+function isCountedOrder(order: Order): boolean {
+  return order.status === 'completed' || order.status === 'processing';
+}
+
+/**
+ * Drop restocked refund returns of orders whose sales are left out of rebuilt movements
+ * Their sales were reversed with the returns counted in, keeping the returns would restock twice
+ */
+function withoutUncountedReturns(movements: StockMovement[], orders: Order[]): StockMovement[] {
+  const uncounted = new Set(orders.filter(order => !isCountedOrder(order)).map(order => order.number));
+  return movements.filter(movement =>
+    !(movement.movement_type === 'adjustment' && movement.reason === 'return' && uncounted.has(movement.reference_id || ''))
+  );
+}
+
 /**
  * Get stock movements by SKU, respecting the exclude on-hold orders setting
  */
@@ -47,30 +75,29 @@ export async function getStockMovementsBySku(sku: string): Promise<StockMovement
     
     // If we're not excluding on-hold orders, just get all movements
     if (!excludeOnHold) {
-      const { data, error } = await supabase
+      return await fetchAllPages<StockMovement>((from, to) => supabase
         .from('stock_movements')
         .select('*')
         .eq('sku', sku)
-        .order('movement_date', { ascending: false });
-      
-      if (error) throw error;
-      return data || [];
+        .order('movement_date', { ascending: false })
+        .order('id', { ascending: false })
+        .range(from, to));
     }
     
     // If we are excluding on-hold orders, we need to rebuild the movements
     // First, get all non-sale movements (initial, adjustment, purchase)
-    const { data: nonSaleMovements, error: nonSaleError } = await supabase
+    const nonSaleMovements = await fetchAllPages<StockMovement>((from, to) => supabase
       .from('stock_movements')
       .select('*')
       .eq('sku', sku)
       .neq('movement_type', 'sale')
-      .order('movement_date', { ascending: false });
-    
-    if (nonSaleError) throw nonSaleError;
+      .order('movement_date', { ascending: false })
+      .order('id', { ascending: false })
+      .range(from, to));
     
-    // Now get all orders with this SKU that are NOT on-hold and are completed or processing
-    // The updated getOrdersWithSku function now filters for completed or processing status
-    const orders = await getOrdersWithSku(sku, true);
+    // Now get the orders with this SKU that are NOT on-hold, only completed or processing ones count as sales
+    const skuOrders = await ordersService.getOrdersWithSku(sku);
+    const orders = skuOrders.filter(isCountedOrder);
     
     // Create sale movements for each order
     const saleMovements: StockMovement[] = [];
@@ -94,7 +121,7 @@ export async function getStockMovementsBySku(sku: string): Promise<StockMovement
     }
     
     // Combine non-sale movements with sale movements
-    return [...nonSaleMovements, ...saleMovements];
+    return [...withoutUncountedReturns(nonSaleMovements, skuOrders), ...saleMovements];
   } catch (error) {
     console.error('Error getting stock movements by SKU:', error);
     throw error;
@@ -103,34 +130,42 @@ export async function getStockMovementsBySku(sku: string): Promise<StockMovement
 
 /**
  * Get stock movements by type, respecting the exclude on-hold orders setting
+ * Pass since to read only movements from that date, a page at a time
  */
-export async function getStockMovementsByType(type: MovementType): Promise<StockMovement[]> {
+export async function getStockMovementsByType(type: MovementType, since?: Date): Promise<StockMovement[]> {
   try {
     // Check if we should exclude on-hold orders
     const excludeOnHold = await settingsService.getExcludeOnHoldOrders();
     
     // If we're not excluding on-hold orders or this isn't a sale movement, just get all movements
     if (!excludeOnHold || type !== 'sale') {
-      const { data, error } = await supabase
-        .from('stock_movements')
-        .select('*')
-        .eq('movement_type', type)
-        .order('movement_date', { ascending: false });
-      
-      if (error) throw error;
-      return data || [];
+      return await fetchAllPages<StockMovement>((from, to) => {
+        let query = supabase
+          .from('stock_movements')
+          .select('*')
+          .eq('movement_type', type);
+        
+        if (since) {
+          query = query.gte('movement_date', since.toISOString());
+        }
+        
+        return query
+          .order('movement_date', { ascending: false })
+          .order('id', { ascending: false })
+          .range(from, to);
+      });
     }
     
     // If we are excluding on-hold orders and this is a sale movement, we need to rebuild the movements
-    // Get all orders that are NOT on-hold
-    const orders = await ordersService.getAll();
+    // Get all orders that are NOT on-hold, or only those sold from the since date
+    const orders = since ? await ordersService.getCountedOrdersSince(since) : await ordersService.getAll();
     
     // Create sale movements for each order
     const saleMovements: StockMovement[] = [];
     
     for (const order of orders) {
       // Skip orders that are not completed or processing
-      if (order.status !== 'completed' && order.status !== 'processing') continue;
+      if (!isCountedOrder(order)) continue;
       
       for (const lineItem of order.line_items) {
         if (!lineItem.sku) continue;
@@ -158,6 +193,7 @@ export async function getStockMovementsByType(type: MovementType): Promise<Stock
 
 /**
  * Get all stock movements, respecting the exclude on-hold orders setting
+ * Movements are read a page at a time, the cost ledger and location totals need every row
  */
 export async function getAllStockMovements(): Promise<StockMovement[]> {
   try {
@@ -166,24 +202,23 @@ export async function getAllStockMovements(): Promise<StockMovement[]> {
     
     // If we're not excluding on-hold orders, just get all movements
     if (!excludeOnHold) {
-      const { data, error } = await supabase
+      return await fetchAllPages<StockMovement>((from, to) => supabase
         .from('stock_movements')
         .select('*')
-        .order('movement_date', { ascending: false });
-      
-      if (error) throw error;
-      return data || [];
+        .order('movement_date', { ascending: false })
+        .order('id', { ascending: false })
+        .range(from, to));
     }
     
     // If we are excluding on-hold orders, we need to rebuild the movements
     // First, get all non-sale movements (initial, adjustment, purchase)
-    const { data: nonSaleMovements, error: nonSaleError } = await supabase
+    const nonSaleMovements = await fetchAllPages<StockMovement>((from, to) => supabase
       .from('stock_movements')
       .select('*')
       .neq('movement_type', 'sale')
-      .order('movement_date', { ascending: false });
-    
-    if (nonSaleError) throw nonSaleError;
+      .order('movement_date', { ascending: false })
+      .order('id', { ascending: false })
+      .range(from, to));
     
     // Now get all orders that are NOT on-hold
     const orders = await ordersService.getAll();
@@ -213,38 +248,13 @@ export async function getAllStockMovements(): Promise<StockMovement[]> {
     }
     
     // Combine non-sale movements with sale movements
-    return [...nonSaleMovements, ...saleMovements];
+    return [...withoutUncountedReturns(nonSaleMovements, orders), ...saleMovements];
   } catch (error) {
     console.error('Error getting all stock movements:', error);
     throw error;
   }
 }
 
-/**
- * Get orders that contain a specific SKU, with option to exclude on-hold orders
- */
-export async function getOrdersWithSku(sku: string, excludeOnHold: boolean = false): Promise<Order[]> {
-  try {
-    // Get all orders
-    const allOrders = await ordersService.getAll();
-    
-    // Filter orders to only include those with the specified SKU
-    return allOrders.filter(order => {
-      // If we're excluding on-hold orders and this order is on-hold, skip it
-      if (excludeOnHold && order.status === 'on-hold') return false;
-      
-      // Only include completed or processing orders (similar to processOrderStockMovements)
-      if (order.status !== 'completed' && order.status !== 'processing') return false;
-      
-      // Check if any line item has the specified SKU
-      return order.line_items.some(item => item.sku === sku);
-    });
-  } catch (error) {
-    console.error(`Error getting orders with SKU ${sku}:`, error);
-    throw error;
-  }
-}
-
 /**
  * Add a new stock reconciliation record
  */
@@ -496,6 +506,9 @@ let reconciliationCache: StockReconciliationSummary[] | null = null;
 let lastCacheTime: number = 0;
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes in milliseconds
 
+// Summaries fetched per request when loading every SKU
+const SUMMARY_PAGE_SIZE = 1000;
+
 /**
  * Invalidate the reconciliation cache
  */
@@ -514,6 +527,7 @@ export function getLastCacheTime(): number | null {
 
 /**
  * Generate reconciliation summaries for all SKUs
+ * Summaries are built by one aggregated query rather than per SKU
  */
 export async function generateAllReconciliationSummaries(forceRefresh = false): Promise<StockReconciliationSummary[]> {
   try {
@@ -535,50 +549,12 @@ export async function generateAllReconciliationSummaries(forceRefresh = false):
     
     console.log('Cache expired or force refresh requested, fetching fresh data');
     
-    // Get all unique SKUs from stock movements
-    let uniqueSkus: string[] = [];
-    try {
-      // Use a more efficient query to get distinct SKUs
-      const { data: skuData, error: skuError } = await supabase
-        .from('stock_movements')
-        .select('sku')
-        .order('sku');
-      
-      if (skuError) {
-        console.error('Error getting SKUs from stock movements:', skuError);
-        throw skuError;
-      }
-      
-      // Filter to get unique SKUs
-      uniqueSkus = Array.from(new Set(skuData.map((item: { sku: string }) => item.sku)));
-      console.log(`Found ${uniqueSkus.length} unique SKUs in stock movements`);
-    } catch (error) {
-      console.error('Error getting unique SKUs:', error);
-      return reconciliationCache || []; // Return cached data if available, otherwise empty array
-    }
-    
-    // Generate summary for each SKU
+    // Build the summaries in the database a page at a time, the API caps rows per request
     const summaries: StockReconciliationSummary[] = [];
-    const errors: string[] = [];
-    
-    // Process SKUs in batches to avoid overwhelming the database
-    const batchSize = 5;
-    for (let i = 0; i < uniqueSkus.length; i += batchSize) {
-      const batch = uniqueSkus.slice(i, i + batchSize);
-      const batchPromises = batch.map(sku => generateReconciliationSummary(sku)
-        .catch(error => {
-          console.error(`Error generating summary for SKU ${sku}:`, error);
-          errors.push(sku);
-          return null;
-        })
-      );
-      
-      const batchResults = await Promise.all(batchPromises);
-      summaries.push(...batchResults.filter(Boolean) as StockReconciliationSummary[]);
-    }
-    
-    if (errors.length > 0) {
-      console.error(`Failed to generate summaries for ${errors.length} SKUs: ${errors.join(', ')}`);
+    for (let page = 1; ; page++) {
+      const result = await queryReconciliationSummaries({ page, pageSize: SUMMARY_PAGE_SIZE });
+      summaries.push(...result.summaries);
+      if (result.summaries.length < SUMMARY_PAGE_SIZE || summaries.length >= result.totalCount) break;
     }
     
     console.log(`Generated ${summaries.length} reconciliation summaries`);
@@ -590,7 +566,48 @@ export async function generateAllReconciliationSummaries(forceRefresh = false):
     return summaries;
   } catch (error) {
     console.error('Error generating all reconciliation summaries:', error);
-    return reconciliationCache || []; // Return cached data if available, otherwise empty array
+    throw error;
+  }
+}
+
+/**
+ * Record a reconciliation and the correction adjustment for its discrepancy
+ * The reconciliation is removed again if the adjustment cannot be added
+ */
+export async function recordReconciliation(
+  reconciliation: Omit<StockReconciliation, 'id' | 'created_at'>,
+  referenceId?: string
+): Promise<{ reconciliationId: number; movementId?: number }> {
+  try {
+    const reconciliationId = await addStockReconciliation(reconciliation);
+    console.log(`Created reconciliation record with ID ${reconciliationId}`);
+    
+    if (reconciliation.discrepancy === 0) {
+      return { reconciliationId };
+    }
+    
+    try {
+      console.log(`Adding adjustment movement for discrepancy of ${reconciliation.discrepancy}`);
+      const movementId = await addStockMovement({
+        sku: reconciliation.sku,
+        product_id: reconciliation.product_id,
+        variation_id: reconciliation.variation_id,
+        movement_date: reconciliation.reconciliation_date,
+        quantity: reconciliation.discrepancy,
+        movement_type: 'adjustment',
+        reason: 'correction',
+        reference_id: referenceId,
+        location_id: reconciliation.location_id,
+        notes: `Automatic adjustment from reconciliation #${reconciliationId}. ${reconciliation.notes || ''}`
+      });
+      return { reconciliationId, movementId };
+    } catch (movementError) {
+      await deleteStockReconciliation(reconciliationId);
+      throw movementError;
+    }
+  } catch (error) {
+    console.error(`Error recording reconciliation for SKU ${reconciliation.sku}:`, error);
+    throw error;
   }
 }
 
@@ -635,23 +652,7 @@ export async function performReconciliation(sku: string, actualQuantity: number,
       notes
     };
     
-    const id = await addStockReconciliation(reconciliation);
-    console.log(`Created reconciliation record with ID ${id}`);
-    
-    // If there's a discrepancy, add an adjustment movement to correct it
-    if (discrepancy !== 0) {
-      console.log(`Adding adjustment movement for discrepancy of ${discrepancy}`);
-      await addStockMovement({
-        sku,
-        product_id: productId,
-        variation_id: variationId,
-        movement_date: new Date(),
-        quantity: discrepancy,
-        movement_type: 'adjustment',
-        reason: 'correction',
-        notes: `Automatic adjustment from reconciliation #${id}. ${notes || ''}`
-      });
-    }
+    const { reconciliationId: id } = await recordReconciliation(reconciliation);
     
     // Invalidate cache since data has changed
     invalidateReconciliationCache();
@@ -704,7 +705,8 @@ export async function cleanupDuplicateStockMovements(): Promise<{ removed: numbe
     for (const movement of saleMovements) {
       if (!movement.reference_id || !movement.sku) continue;
       
-      const key = `${movement.reference_id}:${movement.sku}:${movement.quantity}`;
+      // Notes keep a reinstated sale apart from the original sale of the same order
+      const key = `${movement.reference_id}:${movement.sku}:${movement.quantity}:${movement.notes || ''}`;
       if (!movementGroups[key]) {
         movementGroups[key] = [];
       }
@@ -730,6 +732,7 @@ export async function cleanupDuplicateStockMovements(): Promise<{ removed: numbe
         
         // Delete duplicates
         const duplicateIds = duplicates.map(d => d.id);
+        await restoreBatchesForMovements(duplicateIds);
         const { error: deleteError } = await supabase
           .from('stock_movements')
           .delete()
@@ -763,6 +766,9 @@ export async function cleanupDuplicateStockMovements(): Promise<{ removed: numbe
   }
 }
 
+// Sale movements restored and deleted per request during a full refresh, keeps the request URL short
+const SALE_CLEANUP_CHUNK_SIZE = 200;
+
 /**
  * Clean up all sale stock movements
  * This function removes all stock movements with type 'sale' to start fresh
@@ -772,28 +778,49 @@ export async function cleanupAllSaleMovements(): Promise<{ removed: number, erro
   try {
     console.log('Starting cleanup of all sale stock movements');
     
-    // Delete all stock movements with type 'sale'
-    const { data, error } = await supabase
-      .from('stock_movements')
-      .delete()
-      .eq('movement_type', 'sale')
-      .select('id');
-    
-    if (error) {
-      console.error('Error deleting sale movements:', error);
-      return { 
-        removed: 0, 
-        error: error.message 
-      };
+    // Put sold quantities back into expiry batches and delete the sales a chunk at a time,
+    // so every deleted sale has had its batches restored. The sales are recreated and allocated again
+    let removedCount = 0;
+    let cleanupError: string | undefined;
+    for (;;) {
+      const { data: saleMovements, error: fetchError } = await supabase
+        .from('stock_movements')
+        .select('id')
+        .eq('movement_type', 'sale')
+        .order('id')
+        .limit(SALE_CLEANUP_CHUNK_SIZE);
+      
+      if (fetchError) {
+        console.error('Error fetching sale movements:', fetchError);
+        cleanupError = fetchError.message;
+        break;
+      }
+      
+      const ids = (saleMovements || []).map((movement: { id: number }) => movement.id);
+      if (ids.length === 0) break;
+      
+      await restoreBatchesForMovements(ids);
+      
+      const { error } = await supabase
+        .from('stock_movements')
+        .delete()
+        .in('id', ids);
+      
+      if (error) {
+        console.error('Error deleting sale movements:', error);
+        cleanupError = error.message;
+        break;
+      }
+      
+      removedCount += ids.length;
     }
     
-    const removedCount = data?.length || 0;
     console.log(`Removed ${removedCount} sale stock movements`);
     
     // Invalidate cache since data has changed
     invalidateReconciliationCache();
     
-    return { removed: removedCount };
+    return cleanupError ? { removed: removedCount, error: cleanupError } : { removed: removedCount };
   } catch (error: any) {
     console.error('Error cleaning up sale stock movements:', error);
     return { 
@@ -843,6 +870,26 @@ export async function updateStockReconciliation(id: number, updates: Partial<Sto
   }
 }
 
+/**
+ * Delete a stock reconciliation
+ */
+export async function deleteStockReconciliation(id: number): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('stock_reconciliations')
+      .delete()
+      .eq('id', id);
+    
+    if (error) throw error;
+    
+    // Invalidate cache since data has changed
+    invalidateReconciliationCache();
+  } catch (error) {
+    console.error('Error deleting stock reconciliation:', error);
+    throw error;
+  }
+}
+
 /**
  * Get a stock movement by ID
  */
@@ -874,13 +921,27 @@ export async function getStockMovementById(id: number): Promise<StockMovement |
  */
 export async function updateStockMovement(id: number, updates: Partial<StockMovement>): Promise<void> {
   try {
-    const { error } = await supabase
+    // Changes to what left stock need the batch allocation redone
+    const reallocate = ['sku', 'quantity', 'movement_type', 'movement_date', 'batch_number']
+      .some(field => field in updates);
+    
+    if (reallocate) {
+      await restoreBatchesForMovements([id]);
+    }
+    
+    const { data, error } = await supabase
       .from('stock_movements')
       .update(updates)
-      .eq('id', id);
+      .eq('id', id)
+      .select('*')
+      .single();
     
     if (error) throw error;
     
+    if (reallocate) {
+      await depleteBatchesForMovement(data as StockMovement);
+    }
+    
     // Invalidate cache since data has changed
     invalidateReconciliationCache();
   } catch (error) {
@@ -894,6 +955,8 @@ export async function updateStockMovement(id: number, updates: Partial<StockMove
  */
 export async function deleteStockMovement(id: number): Promise<void> {
   try {
+    await restoreBatchesForMovements([id]);
+    
     const { error } = await supabase
       .from('stock_movements')
       .delete()
@@ -1004,4 +1067,6 @@ export async function cleanupDuplicatePurchaseMovements(): Promise<{ removed: nu
       errors: [error.message || 'Unknown error']
     };
   }
-} 
\ No newline at end of file
+} 
+
+export * from './reconciliationQuery';
@@ -0,0 +1,76 @@
+import { supabase } from '../../../services/supabase';
+import { settingsService } from '../../../services';
+import {
+  ReconciliationSummaryPage,
+  ReconciliationSummaryQuery,
+  StockReconciliationSummary
+} from '../../../types';
+
+// Postgres function that builds every summary in one query, see the README for its definition
+const SUMMARIES_FUNCTION = 'get_stock_reconciliation_summaries';
+
+interface ReconciliationSummaryRow {
+  sku: string;
+  product_id: number | null;
+  variation_id: number | null;
+  product_name: string;
+  initial_stock: number | string;
+  total_sales: number | string;
+  total_adjustments: number | string;
+  total_purchases: number | string;
+  expected_stock: number | string;
+  actual_stock: number | string;
+  discrepancy: number | string;
+  last_reconciled: string | null;
+  total_count: number | string;
+}
+
+const toSummary = (row: ReconciliationSummaryRow): StockReconciliationSummary => ({
+  sku: row.sku,
+  product_id: row.product_id ?? undefined,
+  variation_id: row.variation_id ?? undefined,
+  product_name: row.product_name,
+  initial_stock: Number(row.initial_stock),
+  total_sales: Number(row.total_sales),
+  total_adjustments: Number(row.total_adjustments),
+  total_purchases: Number(row.total_purchases),
+  expected_stock: Number(row.expected_stock),
+  actual_stock: Number(row.actual_stock),
+  discrepancy: Number(row.discrepancy),
+  last_reconciled: row.last_reconciled ? new Date(row.last_reconciled) : undefined
+});
+
+/**
+ * Get a page of reconciliation summaries, filtered and sorted in the database
+ * Sales follow the exclude on-hold orders setting in the same way as the per-SKU summary
+ */
+export async function queryReconciliationSummaries(
+  query: ReconciliationSummaryQuery = {}
+): Promise<ReconciliationSummaryPage> {
+  try {
+    const excludeOnHold = await settingsService.getExcludeOnHoldOrders();
+    const page = Math.max(query.page || 1, 1);
+
+    const { data, error } = await supabase.rpc(SUMMARIES_FUNCTION, {
+      p_exclude_on_hold: excludeOnHold,
+      p_search: query.search?.trim() || null,
+      p_discrepancy: query.discrepancy || 'all',
+      p_sort_by: query.sortBy || 'sku',
+      p_sort_desc: query.sortDirection === 'desc',
+      p_limit: query.pageSize ?? null,
+      p_offset: query.pageSize ? (page - 1) * query.pageSize : 0
+    });
+
+    if (error) throw error;
+
+    const rows = (data || []) as ReconciliationSummaryRow[];
+    return {
+      summaries: rows.map(toSummary),
+      // Every row carries the count before paging, an empty page falls back to 0
+      totalCount: rows.length > 0 ? Number(rows[0].total_count) : 0
+    };
+  } catch (error) {
+    console.error('Error querying reconciliation summaries:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,141 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../../services/supabase', async () => {
+  const { fakeSupabase } = await import('../../../test/pgliteSupabase');
+  return { supabase: fakeSupabase, supabaseAdmin: null };
+});
+
+import { db, readmeSql } from '../../../test/pgliteSupabase';
+import { settingsService } from '../../../services';
+import { StockReconciliationSummary } from '../../../types';
+import { generateAllReconciliationSummaries, generateReconciliationSummary } from '.';
+
+// Just the columns the summaries read
+const SCHEMA = `
+  CREATE TABLE products (id BIGINT PRIMARY KEY, name TEXT, sku TEXT, stock_quantity INTEGER);
+  CREATE TABLE product_variations (id BIGINT PRIMARY KEY, parent_id BIGINT, sku TEXT, attributes JSONB, stock_quantity INTEGER);
+  CREATE TABLE orders (
+    id BIGINT PRIMARY KEY, number TEXT, status TEXT, date_created TIMESTAMPTZ, date_completed TIMESTAMPTZ, line_items JSONB
+  );
+  CREATE TABLE stock_movements (
+    id BIGSERIAL PRIMARY KEY, sku TEXT, product_id BIGINT, variation_id BIGINT, movement_date TIMESTAMPTZ,
+    quantity INTEGER, movement_type TEXT, reason TEXT, reference_id TEXT, notes TEXT, created_at TIMESTAMPTZ
+  );
+  CREATE TABLE stock_reconciliations (
+    id BIGSERIAL PRIMARY KEY, sku TEXT, reconciliation_date TIMESTAMPTZ,
+    expected_quantity INTEGER, actual_quantity INTEGER, discrepancy INTEGER
+  );
+`;
+
+const line = (sku: string, quantity: number) => ({ sku, quantity, product_id: 1, variation_id: 0 });
+
+// Simple products, a variation, a variation whose parent is gone and a SKU with no product at all,
+// with on-hold, cancelled and refunded orders so both sales sources are exercised
+const FIXTURES = {
+  products: [
+    { id: 1, name: 'Green Tea', sku: 'TEA-1', stock_quantity: 7 },
+    { id: 2, name: 'Mug', sku: 'MUG-1', stock_quantity: 3 },
+    { id: 10, name: 'Shirt', sku: '', stock_quantity: null }
+  ],
+  product_variations: [
+    { id: 11, parent_id: 10, sku: 'SHIRT-S', attributes: [{ name: 'Size', option: 'Small' }, { name: 'Colour', option: 'Blue' }], stock_quantity: 4 },
+    { id: 12, parent_id: 99, sku: 'ORPHAN-1', attributes: [], stock_quantity: 2 }
+  ],
+  orders: [
+    { id: 1, number: '1001', status: 'completed', date_created: '2025-03-01T10:00:00Z', date_completed: '2025-03-02T10:00:00Z', line_items: [line('TEA-1', 2), line('SHIRT-S', 1)] },
+    { id: 2, number: '1002', status: 'processing', date_created: '2025-03-03T10:00:00Z', date_completed: null, line_items: [line('TEA-1', 1), line('MUG-1', 1)] },
+    { id: 3, number: '1003', status: 'on-hold', date_created: '2025-03-04T10:00:00Z', date_completed: null, line_items: [line('TEA-1', 5)] },
+    { id: 4, number: '1004', status: 'cancelled', date_created: '2025-03-05T10:00:00Z', date_completed: null, line_items: [line('MUG-1', 2)] },
+    { id: 5, number: '1005', status: 'refunded', date_created: '2025-03-06T10:00:00Z', date_completed: null, line_items: [line('SHIRT-S', 2)] }
+  ],
+  stock_movements: [
+    { sku: 'TEA-1', movement_date: '2025-01-01T00:00:00Z', quantity: 20, movement_type: 'initial' },
+    { sku: 'TEA-1', movement_date: '2025-02-01T00:00:00Z', quantity: 10, movement_type: 'purchase' },
+    { sku: 'TEA-1', movement_date: '2025-03-02T10:00:00Z', quantity: -2, movement_type: 'sale', reference_id: '1001' },
+    { sku: 'TEA-1', movement_date: '2025-03-03T10:00:00Z', quantity: -1, movement_type: 'sale', reference_id: '1002' },
+    { sku: 'TEA-1', movement_date: '2025-03-04T10:00:00Z', quantity: -5, movement_type: 'sale', reference_id: '1003' },
+    { sku: 'TEA-1', movement_date: '2025-03-10T00:00:00Z', quantity: -3, movement_type: 'adjustment', reason: 'damage' },
+    { sku: 'MUG-1', movement_date: '2025-01-01T00:00:00Z', quantity: 5, movement_type: 'initial' },
+    { sku: 'MUG-1', movement_date: '2025-03-03T10:00:00Z', quantity: -1, movement_type: 'sale', reference_id: '1002' },
+    { sku: 'MUG-1', movement_date: '2025-03-05T10:00:00Z', quantity: -2, movement_type: 'sale', reference_id: '1004' },
+    { sku: 'MUG-1', movement_date: '2025-03-07T10:00:00Z', quantity: 2, movement_type: 'sale', reason: 'cancellation', reference_id: '1004' },
+    { sku: 'SHIRT-S', movement_date: '2025-01-01T00:00:00Z', quantity: 8, movement_type: 'initial' },
+    { sku: 'SHIRT-S', movement_date: '2025-03-02T10:00:00Z', quantity: -1, movement_type: 'sale', reference_id: '1001' },
+    { sku: 'SHIRT-S', movement_date: '2025-03-06T10:00:00Z', quantity: -2, movement_type: 'sale', reference_id: '1005' },
+    { sku: 'SHIRT-S', movement_date: '2025-03-08T10:00:00Z', quantity: 1, movement_type: 'adjustment', reason: 'return', reference_id: '1005' },
+    { sku: 'SHIRT-S', movement_date: '2025-03-09T10:00:00Z', quantity: 1, movement_type: 'sale', reason: 'cancellation', reference_id: '1005' },
+    { sku: 'ORPHAN-1', movement_date: '2025-01-01T00:00:00Z', quantity: 2, movement_type: 'initial' },
+    { sku: 'GHOST-1', movement_date: '2025-01-01T00:00:00Z', quantity: 1, movement_type: 'purchase' }
+  ],
+  stock_reconciliations: [
+    { sku: 'TEA-1', reconciliation_date: '2025-02-15T00:00:00Z', expected_quantity: 30, actual_quantity: 30, discrepancy: 0 },
+    { sku: 'TEA-1', reconciliation_date: '2025-03-15T00:00:00Z', expected_quantity: 19, actual_quantity: 19, discrepancy: 0 }
+  ]
+};
+
+// Summary fields the set-based summaries must match the per-SKU summary on
+const CHECKED_FIELDS: (keyof StockReconciliationSummary)[] = [
+  'product_id',
+  'variation_id',
+  'product_name',
+  'initial_stock',
+  'total_sales',
+  'total_adjustments',
+  'total_purchases',
+  'expected_stock',
+  'actual_stock',
+  'discrepancy',
+  'last_reconciled'
+];
+
+// Dates come back as Date objects from one side and ISO strings from the other
+const normalise = (value: unknown) => {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date || (typeof value === 'string' && /^\d{4}-/.test(value) && !isNaN(Date.parse(value)))) {
+    return new Date(value).getTime();
+  }
+  return value;
+};
+
+// Build every set-based summary and list the fields that differ from the per-SKU summary
+const compareWithPerSkuSummaries = async () => {
+  const setBased = await generateAllReconciliationSummaries(true);
+  const mismatches: { sku: string; field: keyof StockReconciliationSummary; perSku: unknown; setBased: unknown }[] = [];
+
+  for (const summary of setBased) {
+    const perSku = await generateReconciliationSummary(summary.sku);
+    CHECKED_FIELDS.forEach(field => {
+      if (normalise(perSku[field]) !== normalise(summary[field])) {
+        mismatches.push({ sku: summary.sku, field, perSku: perSku[field], setBased: summary[field] });
+      }
+    });
+  }
+
+  return { checked: setBased.length, mismatches };
+};
+
+describe('set-based reconciliation summaries', () => {
+  beforeAll(async () => {
+    await db.exec(SCHEMA);
+    await db.exec(readmeSql('FUNCTION get_stock_reconciliation_summaries'));
+
+    for (const [table, rows] of Object.entries(FIXTURES)) {
+      for (const row of rows) {
+        const columns = Object.keys(row);
+        await db.query(
+          `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map((_, i) => `$${i + 1}`).join(', ')})`,
+          Object.values(row).map(value => (Array.isArray(value) ? JSON.stringify(value) : value))
+        );
+      }
+    }
+  });
+
+  it.each([true, false])('match the per-SKU summaries when excluding on-hold orders is %s', async excludeOnHold => {
+    vi.spyOn(settingsService, 'getExcludeOnHoldOrders').mockResolvedValue(excludeOnHold);
+
+    const result = await compareWithPerSkuSummaries();
+
+    expect(result.checked).toBe(5);
+    expect(result.mismatches).toEqual([]);
+  });
+});
@@ -0,0 +1,64 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../../services/supabase', async () => {
+  const { fakeSupabase } = await import('../../../test/pgliteSupabase');
+  return { supabase: fakeSupabase, supabaseAdmin: null };
+});
+
+import { db } from '../../../test/pgliteSupabase';
+import { settingsService } from '../../../services';
+import { getStockMovementsByType } from '.';
+
+const SCHEMA = `
+  CREATE TABLE orders (
+    id BIGINT PRIMARY KEY, number TEXT, status TEXT, date_created TIMESTAMPTZ, date_completed TIMESTAMPTZ, line_items JSONB
+  );
+  CREATE TABLE stock_movements (
+    id BIGSERIAL PRIMARY KEY, sku TEXT, product_id BIGINT, variation_id BIGINT, movement_date TIMESTAMPTZ,
+    quantity INTEGER, movement_type TEXT, reason TEXT, reference_id TEXT, notes TEXT, created_at TIMESTAMPTZ
+  );
+`;
+
+const since = new Date('2025-06-01T00:00:00Z');
+
+// 1100 sales in January, then sales in the window, more rows than Supabase returns in one request
+describe('getStockMovementsByType from a date', () => {
+  beforeAll(async () => {
+    await db.exec(SCHEMA);
+    await db.exec(`
+      INSERT INTO orders (id, number, status, date_created, date_completed, line_items)
+      SELECT n, n::TEXT, 'completed', TIMESTAMPTZ '2025-01-01T00:00:00Z', TIMESTAMPTZ '2025-01-02T00:00:00Z',
+        '[{"id": 1, "product_id": 1, "sku": "TEA-1", "quantity": 1}]'
+      FROM generate_series(1, 1100) AS n;
+      INSERT INTO orders (id, number, status, date_created, date_completed, line_items) VALUES
+        (2001, '2001', 'completed', '2025-05-30T00:00:00Z', '2025-06-02T00:00:00Z', '[{"id": 1, "product_id": 1, "sku": "TEA-1", "quantity": 2}]'),
+        (2002, '2002', 'processing', '2025-06-03T00:00:00Z', NULL, '[{"id": 1, "product_id": 1, "sku": "TEA-1", "quantity": 3}]'),
+        (2003, '2003', 'on-hold', '2025-06-04T00:00:00Z', NULL, '[{"id": 1, "product_id": 1, "sku": "TEA-1", "quantity": 4}]'),
+        (2004, '2004', 'cancelled', '2025-06-05T00:00:00Z', NULL, '[{"id": 1, "product_id": 1, "sku": "TEA-1", "quantity": 5}]');
+
+      INSERT INTO stock_movements (sku, product_id, movement_date, quantity, movement_type, reference_id)
+      SELECT 'TEA-1', 1, TIMESTAMPTZ '2025-01-02T00:00:00Z', -1, 'sale', n::TEXT
+      FROM generate_series(1, 1100) AS n;
+      INSERT INTO stock_movements (sku, product_id, movement_date, quantity, movement_type, reference_id)
+      SELECT 'TEA-1', 1, TIMESTAMPTZ '2025-06-10T00:00:00Z' + n * INTERVAL '1 minute', -1, 'sale', (3000 + n)::TEXT
+      FROM generate_series(1, 1100) AS n;
+    `);
+  });
+
+  it('reads every sale movement from the date', async () => {
+    vi.spyOn(settingsService, 'getExcludeOnHoldOrders').mockResolvedValue(false);
+
+    const movements = await getStockMovementsByType('sale', since);
+
+    expect(movements).toHaveLength(1100);
+    expect(movements.every(movement => new Date(movement.movement_date) >= since)).toBe(true);
+  });
+
+  it('rebuilds sales of completed and processing orders sold from the date when on-hold orders are excluded', async () => {
+    vi.spyOn(settingsService, 'getExcludeOnHoldOrders').mockResolvedValue(true);
+
+    const movements = await getStockMovementsByType('sale', since);
+
+    expect(movements.map(movement => [movement.reference_id, movement.quantity])).toEqual([['2001', -2], ['2002', -3]]);
+  });
+});
@@ -0,0 +1,258 @@
+import { NewStocktakeSession, StocktakeLine, StocktakeSession, StocktakeVariance } from '../../types';
+import { inventoryService, stocktakeLinesService, stocktakeSessionsService } from '../../services';
+import { createInventoryMap, getCostPrice } from '../../services/pnl/inventoryUtils';
+import { generateAllReconciliationSummaries, recordReconciliation } from './stockReconciliation';
+import { generateLocationStockSummaries } from './stockLocations';
+
+/**
+ * Split a pasted or scanned SKU list on new lines, commas and spaces
+ */
+export const parseSkuList = (value: string): string[] =>
+  Array.from(new Set(value.split(/[\s,;]+/).map(sku => sku.trim()).filter(Boolean)));
+
+/**
+ * Get stocktake sessions, most recent first
+ */
+export async function getStocktakeSessions(): Promise<StocktakeSession[]> {
+  try {
+    return await stocktakeSessionsService.getRecentSessions();
+  } catch (error) {
+    console.error('Error getting stocktake sessions:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get a stocktake session with its lines
+ */
+export async function getStocktakeSession(id: number): Promise<{ session: StocktakeSession; lines: StocktakeLine[] }> {
+  try {
+    const [session, lines] = await Promise.all([
+      stocktakeSessionsService.getById(id),
+      stocktakeLinesService.getBySession(id)
+    ]);
+    if (!session) {
+      throw new Error(`Stocktake ${id} not found`);
+    }
+    return { session, lines };
+  } catch (error) {
+    console.error(`Error getting stocktake ${id}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Open a stocktake and freeze the expected quantity of each SKU in it
+ * Expected quantities come from stock movements in the same way as the reconciliation page,
+ * or from the movements at one location when the stocktake is for a stock location
+ */
+export async function createStocktakeSession(input: NewStocktakeSession): Promise<StocktakeSession> {
+  try {
+    const summaries = await generateAllReconciliationSummaries(true);
+    const summaryBySku = new Map(summaries.map(summary => [summary.sku, summary]));
+    const locationStock = input.location_id
+      ? new Map((await generateLocationStockSummaries(input.location_id)).map(summary => [summary.sku, summary.expected_stock]))
+      : null;
+
+    let skus: string[];
+    if (input.scope === 'skus') {
+      skus = parseSkuList(input.scope_value || '');
+    } else if (input.scope === 'search') {
+      const term = (input.scope_value || '').trim().toLowerCase();
+      skus = summaries
+        .filter(summary =>
+          summary.sku.toLowerCase().includes(term) ||
+          summary.product_name.toLowerCase().includes(term)
+        )
+        .map(summary => summary.sku);
+    } else {
+      skus = summaries.map(summary => summary.sku);
+    }
+
+    if (skus.length === 0) {
+      throw new Error('No SKUs match this stocktake');
+    }
+
+    const session = await stocktakeSessionsService.add({
+      ...input,
+      status: 'counting',
+      started_at: new Date()
+    });
+
+    try {
+      await stocktakeLinesService.bulkAdd(skus.map(sku => {
+        const summary = summaryBySku.get(sku);
+        return {
+          session_id: session.id!,
+          sku,
+          product_id: summary?.product_id,
+          variation_id: summary?.variation_id,
+          // SKUs without stock movements are expected to be out of stock
+          product_name: summary?.product_name || `Unknown Product (${sku})`,
+          expected_quantity: (locationStock ? locationStock.get(sku) : summary?.expected_stock) || 0,
+          counted_quantity: null,
+          status: 'pending'
+        };
+      }));
+    } catch (linesError) {
+      await stocktakeSessionsService.delete(session.id!);
+      throw linesError;
+    }
+
+    return session;
+  } catch (error) {
+    console.error('Error creating stocktake session:', error);
+    throw error;
+  }
+}
+
+/**
+ * Record the counted quantity for a stocktake line, null clears the count
+ */
+export async function recordStocktakeCount(lineId: number, quantity: number | null): Promise<StocktakeLine> {
+  try {
+    return await stocktakeLinesService.update(lineId, {
+      counted_quantity: quantity,
+      counted_at: quantity === null ? null : new Date()
+    });
+  } catch (error) {
+    console.error(`Error recording count for stocktake line ${lineId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Finish counting and move the stocktake to variance review
+ */
+export async function closeStocktakeCounting(id: number): Promise<StocktakeSession> {
+  try {
+    return await stocktakeSessionsService.update(id, {
+      status: 'review',
+      counting_closed_at: new Date()
+    });
+  } catch (error) {
+    console.error(`Error closing counting for stocktake ${id}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Go back to counting from variance review
+ */
+export async function reopenStocktakeCounting(id: number): Promise<StocktakeSession> {
+  try {
+    return await stocktakeSessionsService.update(id, {
+      status: 'counting',
+      counting_closed_at: null
+    });
+  } catch (error) {
+    console.error(`Error reopening counting for stocktake ${id}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Cancel a stocktake, lines that were already approved keep their adjustments
+ */
+export async function cancelStocktakeSession(id: number): Promise<StocktakeSession> {
+  try {
+    return await stocktakeSessionsService.update(id, { status: 'cancelled' });
+  } catch (error) {
+    console.error(`Error cancelling stocktake ${id}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Approve counted lines of a stocktake
+ * Each line records a reconciliation and a correction adjustment for its variance against the frozen
+ * expected quantity. Both are dated when the session started, the moment the expected quantities were
+ * frozen, so movements between then and approval are not counted twice. The session completes once
+ * every counted line is approved.
+ */
+export async function approveStocktakeLines(
+  session: StocktakeSession,
+  lines: StocktakeLine[],
+  notes?: string
+): Promise<{ approved: StocktakeLine[]; errors: string[] }> {
+  try {
+    if (!session.id) {
+      throw new Error('Cannot approve lines of a stocktake that has not been saved');
+    }
+    if (session.status !== 'review') {
+      throw new Error('Close counting before approving variances');
+    }
+
+    const approved: StocktakeLine[] = [];
+    const errors: string[] = [];
+    const sessionNote = `Stocktake #${session.id} ${session.name}${notes ? `. ${notes}` : ''}`;
+
+    for (const line of lines) {
+      if (line.status === 'approved' || line.counted_quantity === null || !line.id) continue;
+
+      try {
+        const approvedAt = new Date();
+        const { reconciliationId, movementId } = await recordReconciliation({
+          sku: line.sku,
+          product_id: line.product_id,
+          variation_id: line.variation_id,
+          reconciliation_date: new Date(session.started_at),
+          expected_quantity: line.expected_quantity,
+          actual_quantity: line.counted_quantity,
+          discrepancy: line.counted_quantity - line.expected_quantity,
+          location_id: session.location_id ?? null,
+          notes: sessionNote
+        }, `STOCKTAKE-${session.id}`);
+
+        approved.push(await stocktakeLinesService.update(line.id, {
+          status: 'approved',
+          stock_reconciliation_id: reconciliationId,
+          stock_movement_id: movementId ?? null,
+          approved_at: approvedAt
+        }));
+      } catch (lineError) {
+        console.error(`Error approving stocktake line for SKU ${line.sku}:`, lineError);
+        errors.push(`${line.sku}: ${lineError instanceof Error ? lineError.message : 'approval failed'}`);
+      }
+    }
+
+    const remaining = await stocktakeLinesService.getBySession(session.id);
+    if (!remaining.some(line => line.status === 'pending' && line.counted_quantity !== null)) {
+      await stocktakeSessionsService.update(session.id, {
+        status: 'completed',
+        completed_at: new Date()
+      });
+    }
+
+    return { approved, errors };
+  } catch (error) {
+    console.error(`Error approving stocktake ${session.id}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Get the variance of each counted line valued at cost price, largest value first
+ */
+export async function getStocktakeVariances(lines: StocktakeLine[]): Promise<StocktakeVariance[]> {
+  try {
+    const inventoryMap = createInventoryMap(await inventoryService.getAll());
+
+    return lines
+      .filter(line => line.counted_quantity !== null)
+      .map(line => {
+        const variance = (line.counted_quantity as number) - line.expected_quantity;
+        const unitCost = getCostPrice({ sku: line.sku }, inventoryMap);
+        return {
+          line,
+          variance,
+          unit_cost: unitCost,
+          variance_value: variance * unitCost
+        };
+      })
+      .sort((a, b) => Math.abs(b.variance_value) - Math.abs(a.variance_value) || Math.abs(b.variance) - Math.abs(a.variance));
+  } catch (error) {
+    console.error('Error getting stocktake variances:', error);
+    throw error;
+  }
+}
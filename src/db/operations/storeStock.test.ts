@@ -0,0 +1,180 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { StockReconciliationSummary } from '../../types';
+
+vi.mock('../../services/supabase', async () => {
+  const { fakeSupabase } = await import('../../test/pgliteSupabase');
+  return { supabase: fakeSupabase, supabaseAdmin: null };
+});
+
+const summaries: StockReconciliationSummary[] = [];
+vi.mock('./stockReconciliation', () => ({
+  generateAllReconciliationSummaries: vi.fn(async () => summaries),
+  invalidateReconciliationCache: () => {}
+}));
+
+import { db } from '../../test/pgliteSupabase';
+import { settingsService } from '../../services';
+import { generateAllReconciliationSummaries } from './stockReconciliation';
+import { FakeWooCommerce, startFakeWooCommerce } from '../../test/fakeWooCommerce';
+import { applyStoreStockUpdates, previewStoreStockUpdates } from './storeStock';
+
+interface FakeProduct {
+  id: number;
+  stock_quantity: number | null;
+  variations: number[];
+}
+
+const SCHEMA = `
+  CREATE TABLE api_credentials (id BIGSERIAL PRIMARY KEY, store_url TEXT, key TEXT, secret TEXT);
+  CREATE TABLE products (id BIGINT PRIMARY KEY, name TEXT, sku TEXT, stock_quantity INTEGER, updated_at TIMESTAMPTZ);
+  CREATE TABLE product_variations (id BIGINT PRIMARY KEY, parent_id BIGINT, sku TEXT, stock_quantity INTEGER, updated_at TIMESTAMPTZ);
+  CREATE TABLE orders (id BIGINT PRIMARY KEY, number TEXT, status TEXT, date_created TIMESTAMPTZ, line_items JSONB);
+  CREATE TABLE store_stock_updates (
+    id BIGSERIAL PRIMARY KEY, sku TEXT NOT NULL, product_id BIGINT, variation_id BIGINT, previous_quantity INTEGER,
+    new_quantity INTEGER NOT NULL, source TEXT NOT NULL, stocktake_session_id BIGINT, status TEXT NOT NULL, error TEXT,
+    applied_at TIMESTAMPTZ NOT NULL, created_at TIMESTAMPTZ, updated_at TIMESTAMPTZ
+  );
+`;
+
+const summary = (sku: string, expected_stock: number, product_id?: number, variation_id?: number): StockReconciliationSummary => ({
+  sku,
+  product_id,
+  variation_id,
+  product_name: sku,
+  initial_stock: 0,
+  total_sales: 0,
+  total_adjustments: 0,
+  total_purchases: 0,
+  expected_stock,
+  actual_stock: 0,
+  discrepancy: 0
+});
+
+describe('store stock updates against a fake WooCommerce store', () => {
+  let store: FakeWooCommerce;
+  const ids: Record<string, FakeProduct> = {};
+
+  const storeQuantity = async (productId: number, variationId?: number) => {
+    const path = variationId ? `/products/${productId}/variations/${variationId}` : `/products/${productId}`;
+    const item = await store.control<{ stock_quantity: number | null }>('GET', `/wp-json/wc/v3${path}`);
+    return item.stock_quantity;
+  };
+
+  beforeAll(async () => {
+    store = await startFakeWooCommerce();
+    await db.exec(SCHEMA);
+    await db.query('INSERT INTO api_credentials (store_url, key, secret) VALUES ($1, $2, $3)', [store.url, 'ck_test', 'cs_test']);
+  });
+
+  afterAll(() => store.stop());
+
+  beforeEach(async () => {
+    vi.spyOn(settingsService, 'getExcludeOnHoldOrders').mockResolvedValue(false);
+    const create = (body: Record<string, unknown>) => store.control<FakeProduct>('POST', '/__fake/products', body);
+    ids.tea = await create({ sku: 'TEA-1', stock_quantity: 12 });
+    ids.shirt = await create({
+      sku: '',
+      manage_stock: false,
+      stock_quantity: null,
+      variations: [{ sku: 'SHIRT-S', stock_quantity: 4 }, { sku: 'SHIRT-M', manage_stock: 'parent', stock_quantity: null }]
+    });
+    ids.mug = await create({ sku: 'MUG-1', stock_quantity: 5 });
+    ids.cup = await create({ sku: 'CUP-1', stock_quantity: 2 });
+    ids.bag = await create({ sku: 'BAG-1', manage_stock: false, stock_quantity: null });
+    ids.jar = await create({ sku: 'JAR-1', stock_quantity: 1 });
+
+    await db.exec('DELETE FROM products; DELETE FROM product_variations; DELETE FROM store_stock_updates; DELETE FROM orders;');
+    for (const product of Object.values(ids)) {
+      await db.query('INSERT INTO products (id, stock_quantity) VALUES ($1, $2)', [product.id, product.stock_quantity]);
+    }
+    await db.query('INSERT INTO product_variations (id, parent_id, sku, stock_quantity) VALUES ($1, $2, $3, $4)', [ids.shirt.variations[0], ids.shirt.id, 'SHIRT-S', 4]);
+
+    summaries.splice(0, summaries.length,
+      summary('TEA-1', 10, ids.tea.id),
+      summary('SHIRT-S', 6, ids.shirt.id, ids.shirt.variations[0]),
+      summary('SHIRT-M', 3, ids.shirt.id, ids.shirt.variations[1]),
+      summary('MUG-1', 3, ids.mug.id),
+      summary('CUP-1', 7, ids.cup.id),
+      summary('BAG-1', 1, ids.bag.id),
+      summary('JAR-1', -2, ids.jar.id),
+      summary('LOOSE-1', 4)
+    );
+  });
+
+  it('previews every SKU without writing to the store or the log', async () => {
+    const previews = await previewStoreStockUpdates(['TEA-1', 'SHIRT-S', 'SHIRT-M', 'BAG-1', 'JAR-1', 'LOOSE-1', 'GONE-1']);
+
+    expect(previews.map(preview => [preview.sku, preview.store_quantity, preview.new_quantity, preview.change, preview.problem])).toEqual([
+      ['TEA-1', 12, 10, -2, undefined],
+      ['SHIRT-S', 4, 6, 2, undefined],
+      ['SHIRT-M', null, 3, 3, 'Stock is managed on the parent product'],
+      ['BAG-1', null, 1, 1, 'Stock is not managed in the store'],
+      ['JAR-1', 1, -2, -3, 'Expected stock is negative'],
+      ['LOOSE-1', null, 4, 4, 'Not linked to a store product'],
+      ['GONE-1', null, 0, 0, 'SKU not found']
+    ]);
+    expect(await storeQuantity(ids.tea.id)).toBe(12);
+    expect((await db.query('SELECT * FROM store_stock_updates')).rows).toHaveLength(0);
+  });
+
+  it('leaves out stock the store took for on-hold orders when the ledger excludes them', async () => {
+    vi.spyOn(settingsService, 'getExcludeOnHoldOrders').mockResolvedValue(true);
+    // The ledger matches the store until a customer places an on-hold order for two teas
+    summaries[0] = summary('TEA-1', 12, ids.tea.id);
+    const lineItems = [{ id: 1, name: 'Tea', product_id: ids.tea.id, variation_id: 0, quantity: 2, price: 5, total: '10.00', sku: 'TEA-1', meta_data: [] }];
+    const order = await store.control<{ id: number }>('POST', '/__fake/orders', { status: 'on-hold', line_items: lineItems });
+    await db.query(
+      "INSERT INTO orders (id, number, status, line_items) VALUES ($1, $2, 'on-hold', $3)",
+      [order.id, String(order.id), JSON.stringify(lineItems)]
+    );
+
+    const [preview] = await previewStoreStockUpdates(['TEA-1']);
+
+    expect(await storeQuantity(ids.tea.id)).toBe(10);
+    expect(preview).toMatchObject({ store_quantity: 10, new_quantity: 10, change: 0 });
+  });
+
+  it('reports a failure to build the summaries instead of every SKU not being found', async () => {
+    vi.mocked(generateAllReconciliationSummaries).mockRejectedValueOnce(new Error('Summary query failed'));
+
+    await expect(previewStoreStockUpdates(['TEA-1'])).rejects.toThrow('Summary query failed');
+  });
+
+  it('writes each SKU on its own and logs successes and failures', async () => {
+    const previews = await previewStoreStockUpdates(['TEA-1', 'SHIRT-S', 'MUG-1', 'CUP-1', 'BAG-1']);
+
+    // A customer buys a mug and the cup is removed from the store after the dry run
+    await store.control('POST', '/__fake/orders', {
+      line_items: [{ id: 1, name: 'Mug', product_id: ids.mug.id, variation_id: 0, quantity: 1, price: 5, total: '5.00', sku: 'MUG-1', meta_data: [] }]
+    });
+    await store.control('DELETE', `/__fake/products/${ids.cup.id}`);
+
+    const result = await applyStoreStockUpdates(previews, 'reconciliation');
+
+    expect(result.updated.map(update => update.sku)).toEqual(['TEA-1', 'SHIRT-S']);
+    expect(result.failed.map(update => [update.sku, update.error])).toEqual([
+      ['MUG-1', 'Store stock changed from 5 to 4 since the preview'],
+      ['CUP-1', expect.stringContaining('404')]
+    ]);
+
+    expect(await storeQuantity(ids.tea.id)).toBe(10);
+    expect(await storeQuantity(ids.shirt.id, ids.shirt.variations[0])).toBe(6);
+    // The order taken since the preview is not written over
+    expect(await storeQuantity(ids.mug.id)).toBe(4);
+
+    const local = await db.query<{ id: number; stock_quantity: number }>('SELECT id, stock_quantity FROM products WHERE id = $1', [ids.tea.id]);
+    expect(local.rows[0].stock_quantity).toBe(10);
+    const variation = await db.query<{ stock_quantity: number }>('SELECT stock_quantity FROM product_variations');
+    expect(variation.rows[0].stock_quantity).toBe(6);
+
+    const log = await db.query<{ sku: string; previous_quantity: number; new_quantity: number; source: string; status: string }>(
+      'SELECT sku, previous_quantity, new_quantity, source, status FROM store_stock_updates ORDER BY id'
+    );
+    expect(log.rows).toEqual([
+      { sku: 'TEA-1', previous_quantity: 12, new_quantity: 10, source: 'reconciliation', status: 'success' },
+      { sku: 'SHIRT-S', previous_quantity: 4, new_quantity: 6, source: 'reconciliation', status: 'success' },
+      { sku: 'MUG-1', previous_quantity: 5, new_quantity: 3, source: 'reconciliation', status: 'failed' },
+      { sku: 'CUP-1', previous_quantity: 2, new_quantity: 7, source: 'reconciliation', status: 'failed' }
+    ]);
+  });
+});
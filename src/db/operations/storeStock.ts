@@ -0,0 +1,169 @@
+import { StoreStockApplyResult, StoreStockPreview, StoreStockUpdate, StoreStockUpdateSource } from '../../types';
+import { ordersService, productsService, productVariationsService, settingsService, storeStockUpdatesService } from '../../services';
+import { createWooCommerceClient } from '../../services/api/credentials';
+import { fetchStoreStockLevel, updateStoreStockLevel } from '../../services/api/stockLevels';
+import { generateAllReconciliationSummaries, invalidateReconciliationCache } from './stockReconciliation';
+
+/**
+ * Quantity of each SKU on on-hold orders that the ledger leaves out
+ * Only when on-hold orders are excluded, otherwise their sales are already in the ledger
+ */
+async function getUncountedOnHoldQuantities(): Promise<Map<string, number>> {
+  const quantities = new Map<string, number>();
+  if (!await settingsService.getExcludeOnHoldOrders()) return quantities;
+
+  const orders = await ordersService.getOnHoldOrders();
+  orders.forEach(order => {
+    order.line_items.forEach(item => {
+      if (!item.sku) return;
+      quantities.set(item.sku, (quantities.get(item.sku) || 0) + item.quantity);
+    });
+  });
+  return quantities;
+}
+
+/**
+ * Dry-run writing corrected stock levels to WooCommerce
+ * The corrected quantity of each SKU is its expected stock from the movement ledger,
+ * which already includes reconciliations and approved stocktake counts,
+ * less stock the store has already taken for on-hold orders the ledger leaves out
+ */
+export async function previewStoreStockUpdates(skus: string[]): Promise<StoreStockPreview[]> {
+  try {
+    const [summaries, onHoldQuantities] = await Promise.all([
+      generateAllReconciliationSummaries(true),
+      getUncountedOnHoldQuantities()
+    ]);
+    const summaryBySku = new Map(summaries.map(summary => [summary.sku, summary]));
+    const client = await createWooCommerceClient();
+    const previews: StoreStockPreview[] = [];
+
+    for (const sku of Array.from(new Set(skus))) {
+      const summary = summaryBySku.get(sku);
+      if (!summary) {
+        previews.push({ sku, product_name: 'Unknown Product', store_quantity: null, new_quantity: 0, change: 0, problem: 'SKU not found' });
+        continue;
+      }
+
+      const preview: StoreStockPreview = {
+        sku,
+        product_name: summary.product_name,
+        product_id: summary.product_id,
+        variation_id: summary.variation_id,
+        store_quantity: null,
+        new_quantity: summary.expected_stock - (onHoldQuantities.get(sku) || 0),
+        change: 0
+      };
+
+      if (!summary.product_id) {
+        preview.problem = 'Not linked to a store product';
+      } else {
+        try {
+          const level = await fetchStoreStockLevel(summary.product_id, summary.variation_id, client);
+          preview.store_quantity = level.stock_quantity;
+          if (level.manage_stock === 'parent') {
+            preview.problem = 'Stock is managed on the parent product';
+          } else if (!level.manage_stock) {
+            preview.problem = 'Stock is not managed in the store';
+          }
+        } catch (error) {
+          console.error(`Error reading store stock for ${sku}:`, error);
+          preview.problem = 'Could not read the store stock level';
+        }
+      }
+
+      if (!preview.problem && preview.new_quantity < 0) {
+        preview.problem = 'Expected stock is negative';
+      }
+      preview.change = preview.new_quantity - (preview.store_quantity ?? 0);
+      previews.push(preview);
+    }
+
+    return previews;
+  } catch (error) {
+    console.error('Error previewing store stock updates:', error);
+    throw error;
+  }
+}
+
+/**
+ * Write previewed stock levels to WooCommerce one SKU at a time
+ * SKUs whose store quantity changed since the preview are not written and are logged as failed
+ * Every attempt is logged, and the local product copy is updated so actual stock matches the store
+ */
+export async function applyStoreStockUpdates(
+  previews: StoreStockPreview[],
+  source: StoreStockUpdateSource,
+  stocktakeSessionId?: number
+): Promise<StoreStockApplyResult> {
+  try {
+    const client = await createWooCommerceClient();
+    const result: StoreStockApplyResult = { updated: [], failed: [] };
+
+    for (const preview of previews) {
+      if (preview.problem || !preview.product_id || preview.change === 0) continue;
+
+      const entry: Omit<StoreStockUpdate, 'id'> = {
+        sku: preview.sku,
+        product_id: preview.product_id,
+        variation_id: preview.variation_id,
+        previous_quantity: preview.store_quantity,
+        new_quantity: preview.new_quantity,
+        source,
+        stocktake_session_id: stocktakeSessionId ?? null,
+        status: 'success',
+        error: null,
+        applied_at: new Date()
+      };
+
+      let savedQuantity: number | null = null;
+      try {
+        // Orders taken since the dry run change the store quantity, writing over them would lose that stock
+        const level = await fetchStoreStockLevel(preview.product_id, preview.variation_id, client);
+        if (level.stock_quantity !== preview.store_quantity) {
+          entry.status = 'failed';
+          entry.error = `Store stock changed from ${preview.store_quantity ?? '-'} to ${level.stock_quantity ?? '-'} since the preview`;
+        } else {
+          savedQuantity = await updateStoreStockLevel(preview.product_id, preview.variation_id, preview.new_quantity, client);
+        }
+      } catch (error) {
+        console.error(`Error writing store stock for ${preview.sku}:`, error);
+        entry.status = 'failed';
+        entry.error = error instanceof Error ? error.message : String(error);
+      }
+
+      // Failing to update the local copy or the log does not undo the store update
+      if (entry.status === 'success') {
+        try {
+          const stock_quantity = savedQuantity ?? preview.new_quantity;
+          if (preview.variation_id) {
+            await productVariationsService.update(preview.variation_id, { stock_quantity });
+          } else {
+            await productsService.update(preview.product_id, { stock_quantity });
+          }
+        } catch (error) {
+          console.error(`Error updating local stock for ${preview.sku}:`, error);
+        }
+      }
+
+      let logged: StoreStockUpdate = entry;
+      try {
+        logged = await storeStockUpdatesService.add(entry);
+      } catch (error) {
+        console.error(`Error logging store stock update for ${preview.sku}:`, error);
+      }
+
+      if (logged.status === 'success') {
+        result.updated.push(logged);
+      } else {
+        result.failed.push(logged);
+      }
+    }
+
+    invalidateReconciliationCache();
+    return result;
+  } catch (error) {
+    console.error('Error applying store stock updates:', error);
+    throw error;
+  }
+}
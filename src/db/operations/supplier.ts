@@ -121,7 +121,7 @@ export async function processSupplierPriceData(
     
     for (const item of items) {
       try {
-        const updated = await updateSupplierPrice(item.sku, item.supplier_price, supplierName);
+        const updated = await updateSupplierPrice(item.sku, item.supplier_price, supplierName, 'import', importId);
         if (updated) {
           updatedCount++;
         } else {
@@ -0,0 +1,100 @@
+import { SupplierPriceHistory, SupplierPriceItem, SupplierPriceChange } from '../../types';
+import { inventoryService, supplierPriceHistoryService } from '../../services';
+
+/**
+ * Record a supplier price in the price history
+ * Nothing is recorded if the price and supplier are unchanged
+ */
+export async function recordSupplierPriceChange(
+  sku: string,
+  supplierName: string,
+  supplierPrice: number,
+  previousPrice: number | null,
+  previousSupplierName: string | null,
+  source: SupplierPriceHistory['source'],
+  importId?: number
+): Promise<void> {
+  try {
+    if (previousPrice === supplierPrice && previousSupplierName === supplierName) {
+      return;
+    }
+
+    await supplierPriceHistoryService.add({
+      sku,
+      supplier_name: supplierName,
+      supplier_price: supplierPrice,
+      previous_price: previousPrice,
+      source,
+      import_id: importId ?? null,
+      changed_at: new Date()
+    });
+  } catch (error) {
+    console.error(`Error recording supplier price history for SKU ${sku}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Get the supplier price timeline for a SKU, optionally for a single supplier
+ */
+export async function getSupplierPriceHistory(sku: string, supplierName?: string): Promise<SupplierPriceHistory[]> {
+  try {
+    const history = await supplierPriceHistoryService.getHistoryBySku(sku);
+
+    if (!supplierName) {
+      return history;
+    }
+
+    return history.filter(entry => entry.supplier_name.toLowerCase() === supplierName.toLowerCase());
+  } catch (error) {
+    console.error(`Error getting supplier price history for SKU ${sku}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Compare incoming supplier prices with the current inventory prices
+ * Only SKUs whose price changes are returned, new SKUs have no previous price
+ */
+export async function getSupplierPriceChanges(
+  items: SupplierPriceItem[],
+  alertThresholdPercent: number
+): Promise<SupplierPriceChange[]> {
+  try {
+    const inventory = await inventoryService.getAll();
+
+    const currentPrices = new Map<string, number>();
+    inventory.forEach(item => {
+      if (item.sku && item.supplier_price !== undefined && item.supplier_price !== null) {
+        currentPrices.set(item.sku, item.supplier_price);
+      }
+    });
+
+    const changes: SupplierPriceChange[] = [];
+
+    items.forEach(item => {
+      const previousPrice = currentPrices.has(item.sku) ? currentPrices.get(item.sku)! : null;
+
+      if (previousPrice === item.supplier_price) return;
+
+      const change = previousPrice !== null ? item.supplier_price - previousPrice : 0;
+      const changePercent = previousPrice ? (change / previousPrice) * 100 : null;
+
+      changes.push({
+        sku: item.sku,
+        name: item.name,
+        previous_price: previousPrice,
+        new_price: item.supplier_price,
+        change,
+        change_percent: changePercent,
+        exceeds_threshold: changePercent !== null && Math.abs(changePercent) > alertThresholdPercent
+      });
+    });
+
+    // Biggest movers first
+    return changes.sort((a, b) => Math.abs(b.change_percent ?? 0) - Math.abs(a.change_percent ?? 0));
+  } catch (error) {
+    console.error('Error comparing supplier prices:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,96 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../services/supabase', async () => {
+  const { fakeSupabase } = await import('../../test/pgliteSupabase');
+  return { supabase: fakeSupabase, supabaseAdmin: null };
+});
+
+import { db } from '../../test/pgliteSupabase';
+import { inventoryService, productExpiryService, purchaseOrdersService, settingsService } from '../../services';
+import { PurchaseOrder, PurchaseOrderItem } from '../../types';
+import { writeOffExpiryBatch } from './writeOffs';
+
+const SCHEMA = `
+  CREATE TABLE stock_movements (
+    id BIGSERIAL PRIMARY KEY, sku TEXT, product_id BIGINT, variation_id BIGINT, movement_date TIMESTAMPTZ,
+    quantity INTEGER, movement_type TEXT, reason TEXT, reference_id TEXT, notes TEXT, location_id BIGINT,
+    batch_number TEXT, expiry_date TIMESTAMPTZ, created_at TIMESTAMPTZ
+  );
+  CREATE TABLE product_expiry (
+    id BIGSERIAL PRIMARY KEY, product_id BIGINT, variation_id BIGINT, sku TEXT, product_name TEXT, expiry_date TIMESTAMPTZ,
+    batch_number TEXT, quantity INTEGER, stock_quantity INTEGER, notes TEXT, archived_at TIMESTAMPTZ, archive_reason TEXT,
+    restored_at TIMESTAMPTZ, created_at TIMESTAMPTZ, updated_at TIMESTAMPTZ
+  );
+  CREATE TABLE stock_movement_batches (
+    id BIGSERIAL PRIMARY KEY, stock_movement_id BIGINT, product_expiry_id BIGINT, sku TEXT, batch_number TEXT,
+    expiry_date TIMESTAMPTZ, quantity INTEGER, movement_type TEXT, movement_date TIMESTAMPTZ, reference_id TEXT,
+    created_at TIMESTAMPTZ, updated_at TIMESTAMPTZ
+  );
+`;
+
+const WRITE_OFFS = `
+  CREATE TABLE stock_write_offs (
+    id BIGSERIAL PRIMARY KEY, sku TEXT, product_name TEXT, product_expiry_id BIGINT, batch_number TEXT, expiry_date TIMESTAMPTZ,
+    quantity INTEGER, unit_cost NUMERIC, cost_value NUMERIC, reason TEXT, stock_movement_id BIGINT, write_off_date TIMESTAMPTZ,
+    notes TEXT, created_at TIMESTAMPTZ, updated_at TIMESTAMPTZ
+  );
+`;
+
+const purchaseOrder = (reference_number: string, date: string, unit_price: number, quantity: number) => ({
+  reference_number,
+  date: new Date(date),
+  status: 'received',
+  items: [{ sku: 'TEA-1', unit_price, quantity, quantity_received: quantity } as PurchaseOrderItem]
+}) as PurchaseOrder & { items: PurchaseOrderItem[] };
+
+const getBatch = async () => (await productExpiryService.getById(1))!;
+
+const expiryMovements = async () =>
+  (await db.query("SELECT * FROM stock_movements WHERE reason = 'expiry'")).rows;
+
+describe('writeOffExpiryBatch', () => {
+  beforeAll(async () => {
+    await db.exec(SCHEMA);
+    // 1000 units at 2 then 200 at 5, with 1100 sold so the receipts are past the first page
+    await db.exec(`
+      INSERT INTO stock_movements (sku, product_id, movement_date, quantity, movement_type, reference_id) VALUES
+        ('TEA-1', 1, '2025-01-01T00:00:00Z', 1000, 'purchase', 'PO-1'),
+        ('TEA-1', 1, '2025-01-02T00:00:00Z', 200, 'purchase', 'PO-2');
+      INSERT INTO stock_movements (sku, product_id, movement_date, quantity, movement_type, reference_id)
+      SELECT 'TEA-1', 1, TIMESTAMPTZ '2025-02-01T00:00:00Z' + n * INTERVAL '1 minute', -1, 'sale', n::TEXT
+      FROM generate_series(1, 1100) AS n;
+      INSERT INTO product_expiry (product_id, sku, product_name, expiry_date, batch_number, quantity, created_at, updated_at)
+      VALUES (1, 'TEA-1', 'Green Tea', '2025-11-01T00:00:00Z', 'B1', 60, '2025-01-01T00:00:00Z', '2025-01-01T00:00:00Z');
+    `);
+  });
+
+  beforeEach(() => {
+    vi.spyOn(settingsService, 'getExcludeOnHoldOrders').mockResolvedValue(false);
+    vi.spyOn(settingsService, 'getCostingMethod').mockResolvedValue('fifo');
+    vi.spyOn(inventoryService, 'getAll').mockResolvedValue([]);
+    vi.spyOn(purchaseOrdersService, 'getPurchaseOrdersWithItems').mockResolvedValue([
+      purchaseOrder('PO-1', '2025-01-01', 2, 1000),
+      purchaseOrder('PO-2', '2025-01-02', 5, 200)
+    ]);
+  });
+
+  it('deletes the movement and leaves the batch as it was when the write-off cannot be saved', async () => {
+    // No stock_write_offs table yet, so saving the write-off fails
+    await expect(writeOffExpiryBatch(await getBatch())).rejects.toThrow();
+
+    expect(await expiryMovements()).toHaveLength(0);
+    expect((await db.query('SELECT * FROM stock_movement_batches')).rows).toHaveLength(0);
+    expect(await getBatch()).toMatchObject({ quantity: 60, archived_at: null, archive_reason: null });
+  });
+
+  it('values the loss at the ledger cost of the stock left', async () => {
+    await db.exec(WRITE_OFFS);
+
+    const writeOff = await writeOffExpiryBatch(await getBatch());
+
+    // The 100 units left are all from the second order
+    expect(writeOff).toMatchObject({ quantity: 60, unit_cost: 5, cost_value: 300 });
+    expect(await expiryMovements()).toHaveLength(1);
+    expect(await getBatch()).toMatchObject({ quantity: 0, archive_reason: 'written_off' });
+  });
+});
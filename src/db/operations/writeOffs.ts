@@ -0,0 +1,85 @@
+import { ProductExpiry, StockWriteOff } from '../../types';
+import { stockWriteOffsService } from '../../services';
+import { addStockMovement, deleteStockMovement } from './stockReconciliation';
+import { archiveProductExpiry } from './expiry';
+import { getWriteOffCost } from './costLedger';
+
+/**
+ * Write off stock from an expiry batch
+ * Records the negative stock movement against the batch, archives the batch once it is empty
+ * and books the cost value as a write-off so it shows in the P&L
+ * If the write-off cannot be saved the movement is deleted again, which also puts the stock back in the batch
+ */
+export async function writeOffExpiryBatch(
+  batch: ProductExpiry,
+  quantity: number = batch.quantity,
+  notes?: string
+): Promise<StockWriteOff> {
+  try {
+    if (!batch.id) {
+      throw new Error('Cannot write off a batch that has not been saved');
+    }
+    if (quantity <= 0 || quantity > batch.quantity) {
+      throw new Error(`Write-off quantity must be between 1 and ${batch.quantity}`);
+    }
+
+    // Value the loss from the cost ledger, as the inventory valuation takes it out of stock
+    const writeOffDate = new Date();
+    const costValue = await getWriteOffCost(batch.sku, quantity, writeOffDate);
+    const batchLabel = batch.batch_number ? `batch ${batch.batch_number}` : 'batch';
+
+    // Adding the movement takes the stock out of this batch first
+    const movementId = await addStockMovement({
+      sku: batch.sku,
+      product_id: batch.product_id,
+      variation_id: batch.variation_id,
+      movement_date: writeOffDate,
+      quantity: -Math.abs(quantity),
+      movement_type: 'adjustment',
+      reason: 'expiry',
+      batch_number: batch.batch_number,
+      expiry_date: batch.expiry_date,
+      notes: notes || `Expired ${batchLabel} written off`
+    });
+
+    try {
+      if (quantity === batch.quantity) {
+        await archiveProductExpiry(batch.id, 'written_off');
+      }
+
+      return await stockWriteOffsService.add({
+        sku: batch.sku,
+        product_name: batch.product_name,
+        product_expiry_id: batch.id,
+        batch_number: batch.batch_number,
+        expiry_date: batch.expiry_date,
+        quantity,
+        unit_cost: costValue / quantity,
+        cost_value: costValue,
+        reason: 'expiry',
+        stock_movement_id: movementId,
+        write_off_date: writeOffDate,
+        notes
+      });
+    } catch (error) {
+      // Restoring the batch allocation also reactivates a batch archived as written off
+      await deleteStockMovement(movementId);
+      throw error;
+    }
+  } catch (error) {
+    console.error('Error writing off expiry batch:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get stock write-offs within a date range
+ */
+export async function getStockWriteOffs(startDate: Date, endDate: Date): Promise<StockWriteOff[]> {
+  try {
+    return await stockWriteOffsService.getByDateRange(startDate, endDate);
+  } catch (error) {
+    console.error('Error getting stock write-offs:', error);
+    throw error;
+  }
+}
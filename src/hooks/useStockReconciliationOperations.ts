@@ -5,6 +5,7 @@ import {
   addStockMovement,
   performReconciliation,
   generateReconciliationSummary,
+  generateAllReconciliationSummaries,
   getAllStockMovements
 } from '../db/operations/stockReconciliation';
 import { processStockImportCsv } from '../utils/csv/stockImport';
@@ -13,6 +14,7 @@ import {
   processNewOrdersStockMovements 
 } from '../db/operations/orders/processOrderStockMovements';
 import { ordersService } from '../services';
+import { MovementReason, StockReconciliationSummary } from '../types';
 
 export const useStockReconciliationOperations = () => {
   const {
@@ -40,6 +42,12 @@ export const useStockReconciliationOperations = () => {
   const [showReportModal, setShowReportModal] = useState(false);
   const [showReconciliationHistoryModal, setShowReconciliationHistoryModal] = useState(false);
 
+  // The table only holds one page, so the report loads every SKU
+  const [reportSummaries, setReportSummaries] = useState<StockReconciliationSummary[]>([]);
+
+  // SKUs picked for writing stock back to the store, null while the modal is closed
+  const [storeUpdateSkus, setStoreUpdateSkus] = useState<string[] | null>(null);
+
   // Handle view movements
   const handleViewMovements = async (sku: string) => {
     try {
@@ -105,10 +113,11 @@ export const useStockReconciliationOperations = () => {
   const handleSubmitAdjustment = async (data: {
     sku: string;
     quantity: number;
-    reason: 'expiry' | 'damage' | 'theft' | 'correction' | 'other';
+    reason: MovementReason;
     notes: string;
     batchNumber?: string;
     date: Date;
+    locationId: number | null;
   }) => {
     try {
       // Create the base movement data
@@ -119,7 +128,8 @@ export const useStockReconciliationOperations = () => {
         movement_type: 'adjustment' as const,
         reason: data.reason,
         notes: data.notes,
-        batch_number: data.batchNumber
+        batch_number: data.batchNumber,
+        location_id: data.locationId
       };
       
       // Add the stock movement
@@ -307,8 +317,19 @@ export const useStockReconciliationOperations = () => {
   };
 
   // Add a function to generate a report
-  const handleGenerateReport = () => {
-    setShowReportModal(true);
+  const handleGenerateReport = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const allSummaries = await generateAllReconciliationSummaries();
+      setReportSummaries(allSummaries);
+      setShowReportModal(true);
+    } catch (error) {
+      console.error('Error generating reconciliation report:', error);
+      setError('Failed to generate reconciliation report');
+    } finally {
+      setLoading(false);
+    }
   };
 
   // Handle refresh button click
@@ -342,8 +363,8 @@ export const useStockReconciliationOperations = () => {
       
       // Collect SKUs from the orders that were processed
       for (const order of orders) {
-        // Only consider completed or processing orders
-        if (order.status === 'completed' || order.status === 'processing') {
+        // Consider orders that take stock and orders whose sales may have been reversed
+        if (['completed', 'processing', 'cancelled', 'refunded', 'failed'].includes(order.status)) {
           // Track SKUs in this order
           for (const item of order.line_items) {
             if (item.sku) {
@@ -456,6 +477,18 @@ export const useStockReconciliationOperations = () => {
     }
   };
 
+  // Open the dry run for writing corrected stock to the store
+  const handleApplyToStore = (skus: string[]) => {
+    if (skus.length > 0) {
+      setStoreUpdateSkus(skus);
+    }
+  };
+
+  // Actual stock comes from the store, so reload it after writing
+  const handleStoreStockApplied = async () => {
+    await loadDataSilently(true);
+  };
+
   // Handle movement deletion
   const handleMovementDeleted = async (movementId: number) => {
     try {
@@ -508,6 +541,9 @@ export const useStockReconciliationOperations = () => {
     setShowReportModal,
     showReconciliationHistoryModal,
     setShowReconciliationHistoryModal,
+    reportSummaries,
+    storeUpdateSkus,
+    setStoreUpdateSkus,
     
     // Handlers
     handleViewMovements,
@@ -521,5 +557,7 @@ export const useStockReconciliationOperations = () => {
     handleRefresh,
     handleViewReconciliationHistory,
     handleMovementDeleted,
+    handleApplyToStore,
+    handleStoreStockApplied,
   };
 }; 
\ No newline at end of file
@@ -13,7 +13,7 @@ import RevenueForm from '../components/additionalRevenue/RevenueForm';
 import RevenueTable from '../components/additionalRevenue/RevenueTable';
 import RevenueSummary from '../components/additionalRevenue/RevenueSummary';
 import RevenueFilters from '../components/additionalRevenue/RevenueFilters';
-import { formatNZDate } from '../services/api/utils';
+import { formatStoreDateOnly } from '../utils/dateUtils';
 
 const AdditionalRevenuePage: React.FC = () => {
   const [revenues, setRevenues] = useState<AdditionalRevenue[]>([]);
@@ -112,7 +112,7 @@ const AdditionalRevenuePage: React.FC = () => {
     const headers = ['Date', 'Category', 'Amount', 'Description', 'Reference', 'Payment Method', 'Period', 'Tax Included'];
     
     const rows = filteredRevenues.map(revenue => [
-      formatNZDate(new Date(revenue.date)),
+      formatStoreDateOnly(new Date(revenue.date)),
       revenue.category,
       revenue.amount.toFixed(2),
       revenue.description,
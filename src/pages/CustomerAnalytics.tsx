@@ -29,6 +29,7 @@ import CustomerCohortAnalysis from '../components/customerAnalytics/CustomerCoho
 import PurchaseFrequencyAnalysis from '../components/customerAnalytics/PurchaseFrequencyAnalysis';
 import ProductAffinityAnalysis from '../components/customerAnalytics/ProductAffinityAnalysis';
 import OrderTimingAnalysis from '../components/customerAnalytics/OrderTimingAnalysis';
+import MarketingAttribution from '../components/customerAnalytics/MarketingAttribution';
 
 const CustomerAnalytics: React.FC = () => {
   const [loading, setLoading] = useState(true);
@@ -39,7 +40,7 @@ const CustomerAnalytics: React.FC = () => {
     startDate: startOfMonth(subMonths(new Date(), 3)),
     endDate: endOfMonth(new Date())
   });
-  const [activeTab, setActiveTab] = useState<'overview' | 'segments' | 'rfm' | 'advanced'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'segments' | 'rfm' | 'marketing' | 'advanced'>('overview');
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
 
   // Load customer analytics data - use state date range
@@ -157,6 +158,10 @@ const CustomerAnalytics: React.FC = () => {
     csvContent += `Lost Customers,${analyticsData.lostCustomers}\n`;
     csvContent += `Average Order Value,${analyticsData.averageOrderValue.toFixed(2)}\n`;
     csvContent += `Customer Lifetime Value,${analyticsData.customerLifetimeValue.toFixed(2)}\n`;
+    if (analyticsData.predictedCLV) {
+      csvContent += `Predicted 12-Month CLV,${analyticsData.predictedCLV.averagePredictedCLV.toFixed(2)}\n`;
+      csvContent += `Average Churn Risk,${(analyticsData.predictedCLV.averageChurnProbability * 100).toFixed(1)}%\n`;
+    }
     
     // Add segment data
     csvContent += '\nCustomer Segments\n';
@@ -282,6 +287,16 @@ const CustomerAnalytics: React.FC = () => {
           >
             RFM Analysis
           </button>
+          <button
+            onClick={() => setActiveTab('marketing')}
+            className={`py-2 px-1 border-b-2 font-medium text-sm ${
+              activeTab === 'marketing' 
+                ? 'border-indigo-500 text-indigo-600' 
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            Marketing ROI
+          </button>
           <button
             onClick={() => setActiveTab('advanced')}
             className={`py-2 px-1 border-b-2 font-medium text-sm ${
@@ -354,6 +369,7 @@ const CustomerAnalytics: React.FC = () => {
                 <CustomerValueMetrics
                   averageOrderValue={analyticsData.averageOrderValue}
                   customerLifetimeValue={analyticsData.customerLifetimeValue}
+                  predictedCLV={analyticsData.predictedCLV}
                 />
               </div>
               
@@ -421,6 +437,15 @@ const CustomerAnalytics: React.FC = () => {
             <RFMSegmentList segmentColors={segmentColors} />
           )}
           
+          {activeTab === 'marketing' && (
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="lg:col-span-2">
+                <MarketingAttribution dateRange={dateRange} />
+              </div>
+              <AcquisitionSourceChart sources={analyticsData.acquisitionSources} />
+            </div>
+          )}
+          
           {activeTab === 'advanced' && (
             <>
               {/* Advanced Analytics Cards */}
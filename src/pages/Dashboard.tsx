@@ -8,6 +8,7 @@ import { DollarSign, TrendingUp, ShoppingCart, Percent, RefreshCw, Calendar, Che
 import DateRangePicker from '../components/common/DateRangePicker';
 import StatCard from '../components/common/StatCard';
 import PnLSummary from '../components/dashboard/PnLSummary';
+import ExpiryAlertsPanel from '../components/dashboard/ExpiryAlertsPanel';
 import { DateRange, Order, PnLSummary as PnLSummaryType } from '../types';
 import { 
   fetchOrders, 
@@ -15,9 +16,11 @@ import {
   fetchOverheadCosts, 
   hasApiCredentials 
 } from '../services/api';
-import { calculateProfitAndLoss } from '../services/pnl';
+import { calculateProfitAndLoss, getOrderNetRevenue, getExpensesForTaxMode } from '../services/pnl';
+import { settingsService } from '../services/settingsService';
 import { Link } from 'react-router-dom';
-import { getExpenses } from '../db/operations/expenses';
+import { getExpensesWithRecurring } from '../db/operations/expenses';
+import { getStockWriteOffs } from '../db/operations/writeOffs';
 
 const Dashboard: React.FC = () => {
   const [dateRange, setDateRange] = useState<DateRange>({
@@ -46,6 +49,7 @@ const Dashboard: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [expensesByCategory, setExpensesByCategory] = useState<Record<string, number>>({});
   const [totalExpenses, setTotalExpenses] = useState(0);
+  const [totalWriteOffs, setTotalWriteOffs] = useState(0);
   const [netProfit, setNetProfit] = useState(0);
   const [previousPeriodData, setPreviousPeriodData] = useState<{
     totalRevenue: number;
@@ -86,7 +90,11 @@ const Dashboard: React.FC = () => {
       const overheadCosts = await fetchOverheadCosts();
       
       // Fetch actual expenses directly from database (to match Expenses page)
-      const expensesData = await getExpenses(dateRange.startDate, dateRange.endDate);
+      const taxSettings = await settingsService.getTaxSettings();
+      const expensesData = await getExpensesForTaxMode(
+        await getExpensesWithRecurring(dateRange.startDate, dateRange.endDate),
+        taxSettings
+      );
       const totalActualExpenses = expensesData.reduce((sum, expense) => sum + expense.amount, 0);
       
       // Group expenses by category for the chart
@@ -128,7 +136,7 @@ const Dashboard: React.FC = () => {
       
       // Calculate P&L summary
       const totalRevenue = sortedOrders.reduce((sum, order) => {
-        const orderTotal = parseFloat(order.total);
+        const orderTotal = order.net_total ?? getOrderNetRevenue(order);
         return sum + (isNaN(orderTotal) ? 0 : orderTotal);
       }, 0);
       
@@ -139,9 +147,10 @@ const Dashboard: React.FC = () => {
       
       const totalProfit = totalRevenue - totalCost;
       
-      // Calculate net profit based on the filtered orders' gross profit and actual expenses
+      // Calculate net profit based on the filtered orders' gross profit, actual expenses and stock write-offs
       // This ensures consistency with the Expenses page
-      const calculatedNetProfit = totalProfit - totalActualExpenses;
+      setTotalWriteOffs(result.summary.totalWriteOffs);
+      const calculatedNetProfit = totalProfit - totalActualExpenses - result.summary.totalWriteOffs;
       setNetProfit(calculatedNetProfit);
       
       const averageMargin = totalRevenue > 0 ? (totalProfit / totalRevenue) * 100 : 0;
@@ -166,14 +175,14 @@ const Dashboard: React.FC = () => {
       });
       
       // Calculate previous period data for comparison
-      const previousPeriodOrders = ordersData.filter(order => {
+      const previousPeriodOrders = result.orders.filter(order => {
         if (!order.date_created) return false;
         const orderDate = new Date(order.date_created);
         return orderDate >= previousDateRange.startDate && orderDate <= previousDateRange.endDate;
       });
       
       const previousTotalRevenue = previousPeriodOrders.reduce((sum, order) => {
-        const orderTotal = parseFloat(order.total);
+        const orderTotal = order.net_total ?? getOrderNetRevenue(order);
         return sum + (isNaN(orderTotal) ? 0 : orderTotal);
       }, 0);
       
@@ -185,10 +194,16 @@ const Dashboard: React.FC = () => {
       const previousTotalProfit = previousTotalRevenue - previousTotalCost;
       
       // Fetch actual expenses for previous period
-      const previousExpensesData = await getExpenses(previousDateRange.startDate, previousDateRange.endDate);
+      const previousExpensesData = await getExpensesForTaxMode(
+        await getExpensesWithRecurring(previousDateRange.startDate, previousDateRange.endDate),
+        taxSettings
+      );
       const previousTotalActualExpenses = previousExpensesData.reduce((sum, expense) => sum + expense.amount, 0);
       
-      const previousNetProfit = previousTotalProfit - previousTotalActualExpenses;
+      const previousWriteOffs = await getStockWriteOffs(previousDateRange.startDate, previousDateRange.endDate);
+      const previousTotalWriteOffs = previousWriteOffs.reduce((sum, writeOff) => sum + (writeOff.cost_value || 0), 0);
+      
+      const previousNetProfit = previousTotalProfit - previousTotalActualExpenses - previousTotalWriteOffs;
       
       setPreviousPeriodData({
         totalRevenue: previousTotalRevenue,
@@ -217,7 +232,7 @@ const Dashboard: React.FC = () => {
       if (!acc[date]) {
         acc[date] = { date, revenue: 0, cost: 0, profit: 0 };
       }
-      acc[date].revenue += parseFloat(order.total);
+      acc[date].revenue += order.net_total ?? getOrderNetRevenue(order);
       acc[date].cost += (order as any).cost_total || 0;
       acc[date].profit += (order as any).profit || 0;
       return acc;
@@ -343,6 +358,7 @@ const Dashboard: React.FC = () => {
           totalCost: pnlSummary.totalCost,
           totalProfit: pnlSummary.totalProfit,
           totalExpenses: totalExpenses,
+          totalWriteOffs: totalWriteOffs,
           netProfit: netProfit,
           averageMargin: pnlSummary.averageMargin,
           orderCount: pnlSummary.orderCount,
@@ -417,6 +433,9 @@ const Dashboard: React.FC = () => {
         </div>
       </div>
       
+      {/* Expiry Alerts */}
+      <ExpiryAlertsPanel />
+      
       {/* Order Summary */}
       <div className="bg-white p-6 rounded-lg shadow-md">
         <div className="flex justify-between items-center mb-4">
@@ -458,7 +477,7 @@ const Dashboard: React.FC = () => {
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
               {currentOrders.map((order) => {
-                const orderTotal = parseFloat(order.total);
+                const orderTotal = order.net_total ?? getOrderNetRevenue(order);
                 const orderCost = (order as any).cost_total || 0;
                 const orderProfit = (order as any).profit || 0;
                 const orderMargin = orderTotal > 0 ? (orderProfit / orderTotal) * 100 : 0;
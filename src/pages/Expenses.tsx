@@ -1,8 +1,8 @@
 import React, { useState, useEffect } from 'react';
-import { format } from 'date-fns';
-import { Plus, Upload, Download, Tag } from 'lucide-react';
+import { format, startOfMonth } from 'date-fns';
+import { Plus, Upload, Download, Tag, Repeat } from 'lucide-react';
 import DateRangePicker from '../components/common/DateRangePicker';
-import { DateRange, Expense, ExpenseCategory } from '../types';
+import { DateRange, Expense, ExpenseCategory, BudgetVariance } from '../types';
 import { 
   getExpenses, 
   getExpenseCategories,
@@ -10,11 +10,13 @@ import {
 } from '../db/operations/expenses';
 import ExpenseImportForm from '../components/expenses/ExpenseImportForm';
 import CategoryManager from '../components/expenses/CategoryManager';
+import RecurringExpenseManager from '../components/expenses/RecurringExpenseManager';
 import ExpenseForm from '../components/expenses/ExpenseForm';
 import ExpenseTable from '../components/expenses/ExpenseTable';
 import ExpenseSummary from '../components/expenses/ExpenseSummary';
 import ExpenseFilters from '../components/expenses/ExpenseFilters';
-import { formatNZDate } from '../services/api/utils';
+import { loadBudgetVariance, getExpenseBudgetWarnings } from '../services/budgets';
+import { formatStoreDateOnly, toStoreTime, fromStoreTime } from '../utils/dateUtils';
 
 const Expenses: React.FC = () => {
   const [expenses, setExpenses] = useState<Expense[]>([]);
@@ -24,6 +26,7 @@ const Expenses: React.FC = () => {
     endDate: new Date()
   });
   
+  const [budgetWarnings, setBudgetWarnings] = useState<BudgetVariance[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   
@@ -39,6 +42,15 @@ const Expenses: React.FC = () => {
   // Import/Export state
   const [showImportForm, setShowImportForm] = useState(false);
   const [showCategoryManager, setShowCategoryManager] = useState(false);
+  const [showRecurringManager, setShowRecurringManager] = useState(false);
+  
+  // Check this month's spending against category budgets
+  useEffect(() => {
+    const now = new Date();
+    loadBudgetVariance({ startDate: fromStoreTime(startOfMonth(toStoreTime(now))), endDate: now }, now)
+      .then(variance => setBudgetWarnings(getExpenseBudgetWarnings(variance)))
+      .catch(error => console.error('Error loading budget warnings:', error));
+  }, [categories, expenses]);
   
   // Load expenses and categories
   useEffect(() => {
@@ -114,13 +126,13 @@ const Expenses: React.FC = () => {
     const headers = ['Date', 'Category', 'Amount', 'Description', 'Reference', 'Payment Method', 'Period'];
     
     const rows = filteredExpenses.map(expense => [
-      formatNZDate(new Date(expense.date)),
+      formatStoreDateOnly(new Date(expense.date)),
       expense.category,
       expense.amount.toFixed(2),
       expense.description,
       expense.reference || '',
       expense.payment_method || '',
-      expense.period || 'monthly'
+      expense.period || 'once'
     ]);
     
     const csvContent = [
@@ -204,6 +216,14 @@ const Expenses: React.FC = () => {
             <Tag className="h-4 w-4 mr-1" />
             Categories
           </button>
+          
+          <button
+            onClick={() => setShowRecurringManager(true)}
+            className="flex items-center text-sm bg-gray-700 text-white px-3 py-2 rounded hover:bg-gray-800"
+          >
+            <Repeat className="h-4 w-4 mr-1" />
+            Recurring
+          </button>
         </div>
       </div>
       
@@ -241,6 +261,24 @@ const Expenses: React.FC = () => {
         </div>
       )}
       
+      {/* Recurring Expense Manager */}
+      {showRecurringManager && (
+        <div className="mb-6">
+          <RecurringExpenseManager 
+            categories={categories}
+            dateRange={dateRange}
+          />
+          <div className="mt-4 flex justify-end">
+            <button
+              onClick={() => setShowRecurringManager(false)}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      )}
+      
       {/* Expense Form */}
       {showForm && (
         <ExpenseForm
@@ -273,6 +311,7 @@ const Expenses: React.FC = () => {
       <ExpenseSummary
         totalExpenses={totalExpenses}
         expenseCount={filteredExpenses.length}
+        budgetWarnings={budgetWarnings}
       />
       
       {/* Expenses Table */}
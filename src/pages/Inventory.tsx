@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { InventoryItem, Product, ProductVariation } from '../types';
+import { InventoryItem, Product, ProductVariation, StockLocation } from '../types';
 import { fetchProducts, fetchInventory, hasApiCredentials } from '../services/api';
 import { productVariationsService, inventoryService } from '../services';
 import { RefreshCw, Trash2 } from 'lucide-react';
@@ -9,7 +9,10 @@ import InventoryFilters from '../components/inventory/InventoryFilters';
 import InventoryTable from '../components/inventory/InventoryTable';
 import InventoryStats from '../components/inventory/InventoryStats';
 import InventorySummary from '../components/inventory/InventorySummary';
+import SupplierPriceHistoryModal from '../components/inventory/SupplierPriceHistoryModal';
+import StockAsOfPanel from '../components/inventory/StockAsOfPanel';
 import { calculateTotals } from '../components/inventory/InventoryUtils';
+import { generateLocationStockSummaries, getStockLocations } from '../db/operations/stockLocations';
 
 const Inventory: React.FC = () => {
   // State for inventory data
@@ -26,10 +29,18 @@ const Inventory: React.FC = () => {
   const [stockFilter, setStockFilter] = useState<'all' | 'in_stock' | 'out_of_stock'>('all');
   const [productTypeFilter, setProductTypeFilter] = useState<'all' | 'simple' | 'variation'>('all');
   
+  // Location filter, stock at a location comes from the movement ledger rather than the store
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [locationFilter, setLocationFilter] = useState<number | null>(null);
+  const [locationStock, setLocationStock] = useState<Map<string, number> | null>(null);
+  
   // Sorting state
   const [sortField, setSortField] = useState<keyof InventoryItem>('sku');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
   
+  // Supplier price history modal
+  const [priceHistoryItem, setPriceHistoryItem] = useState<{ sku: string; productName?: string } | null>(null);
+  
   // Summary values - calculated from filtered inventory
   const [summaryValues, setSummaryValues] = useState({
     totalRetailValue: 0,
@@ -39,6 +50,7 @@ const Inventory: React.FC = () => {
   
   // Projections
   const [showProjections, setShowProjections] = useState(false);
+  const [showStockAsOf, setShowStockAsOf] = useState(false);
   const [projectionMonths, setProjectionMonths] = useState(3);
   const [projectionData, setProjectionData] = useState<{
     month: string;
@@ -50,8 +62,17 @@ const Inventory: React.FC = () => {
   // Load data on component mount
   useEffect(() => {
     loadInventoryData();
+    loadLocations();
   }, []);
   
+  const loadLocations = async () => {
+    try {
+      setLocations((await getStockLocations()).filter(location => location.active));
+    } catch (err) {
+      console.error('Error loading stock locations:', err);
+    }
+  };
+  
   // Update summary values when filtered inventory changes
   useEffect(() => {
     const totals = calculateTotals(filteredInventory);
@@ -271,6 +292,41 @@ const Inventory: React.FC = () => {
     setProjectionMonths(parseInt(e.target.value));
   };
 
+  // Handle location filter change
+  const handleLocationFilterChange = async (locationId: number | null) => {
+    setLocationFilter(locationId);
+    
+    if (locationId === null) {
+      setLocationStock(null);
+      applyFilters(searchTerm, stockFilter, productTypeFilter, null);
+      return;
+    }
+    
+    try {
+      const summaries = await generateLocationStockSummaries(locationId);
+      const stock = new Map(summaries.map(summary => [summary.sku, summary.expected_stock]));
+      setLocationStock(stock);
+      applyFilters(searchTerm, stockFilter, productTypeFilter, stock);
+    } catch (err) {
+      console.error('Error loading stock at location:', err);
+      setError('Failed to load stock for this location');
+    }
+  };
+  
+  // Revalue an item with its expected stock at a location
+  const withLocationStock = (item: InventoryItem, stock: Map<string, number>): InventoryItem => {
+    const stockQuantity = stock.get(item.sku) ?? 0;
+    const costPrice = parseFloat(String(item.supplier_price ?? item.cost_price ?? 0));
+    const currentPrice = (item.sale_price || 0) > 0 ? item.sale_price || 0 : item.regular_price || 0;
+    
+    return {
+      ...item,
+      stock_quantity: stockQuantity,
+      retail_value: stockQuantity * currentPrice,
+      cost_value: stockQuantity * costPrice
+    };
+  };
+
   // Handle product type filter change
   const handleProductTypeFilterChange = (filter: 'all' | 'simple' | 'variation') => {
     setProductTypeFilter(filter);
@@ -294,9 +350,12 @@ const Inventory: React.FC = () => {
   const applyFilters = (
     search: string, 
     stockStatus: 'all' | 'in_stock' | 'out_of_stock',
-    productType: 'all' | 'simple' | 'variation'
+    productType: 'all' | 'simple' | 'variation',
+    stockAtLocation: Map<string, number> | null = locationStock
   ) => {
-    let filtered = [...inventory];
+    let filtered = stockAtLocation
+      ? inventory.map(item => withLocationStock(item, stockAtLocation))
+      : [...inventory];
     
     // Apply search filter
     if (search) {
@@ -472,6 +531,9 @@ const Inventory: React.FC = () => {
         onSearch={handleSearch}
         onStockFilterChange={handleStockFilterChange}
         onProductTypeFilterChange={handleProductTypeFilterChange}
+        locations={locations}
+        locationFilter={locationFilter}
+        onLocationFilterChange={handleLocationFilterChange}
       />
       
       {/* Summary Cards */}
@@ -482,7 +544,7 @@ const Inventory: React.FC = () => {
       />
       
       {/* Projections Toggle */}
-      <div className="mb-6">
+      <div className="mb-6 flex space-x-2">
         <button
           onClick={() => {
             setShowProjections(!showProjections);
@@ -494,8 +556,17 @@ const Inventory: React.FC = () => {
         >
           {showProjections ? 'Hide Projections' : 'Show Inventory Projections'}
         </button>
+        <button
+          onClick={() => setShowStockAsOf(!showStockAsOf)}
+          className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded flex items-center"
+        >
+          {showStockAsOf ? 'Hide Stock As Of' : 'Show Stock As Of Date'}
+        </button>
       </div>
       
+      {/* Historical stock on hand */}
+      {showStockAsOf && <StockAsOfPanel />}
+      
       {/* Projections Section */}
       {showProjections && (
         <div className="mb-6 bg-white rounded-lg shadow p-4">
@@ -556,8 +627,19 @@ const Inventory: React.FC = () => {
         sortDirection={sortDirection}
         onSort={handleSort}
         formatCurrency={(amount) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount)}
+        onViewPriceHistory={(sku, productName) => setPriceHistoryItem({ sku, productName })}
       />
       
+      {/* Supplier Price History */}
+      {priceHistoryItem && (
+        <SupplierPriceHistoryModal
+          sku={priceHistoryItem.sku}
+          productName={priceHistoryItem.productName}
+          onClose={() => setPriceHistoryItem(null)}
+          formatCurrency={(amount) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount)}
+        />
+      )}
+      
       {/* Inventory Stats */}
       <InventoryStats 
         inventory={inventory}
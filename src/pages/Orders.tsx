@@ -684,6 +684,24 @@ const Orders: React.FC = () => {
                             </div>
                           </div>
                           
+                          {(order.refund_total || 0) > 0 && (
+                            <div className="bg-yellow-50 border border-yellow-200 p-3 rounded-lg mb-4">
+                              <p className="text-xs text-gray-500">Refunded</p>
+                              <p className="text-sm font-medium text-yellow-700">
+                                {formatCurrency(order.refund_total)}
+                                <span className="ml-2 text-xs text-gray-500">
+                                  (net revenue {formatCurrency(order.net_total)})
+                                </span>
+                              </p>
+                              {order.refunds?.map(refund => (
+                                <p key={refund.id} className="text-xs text-gray-600 mt-1">
+                                  Refund #{refund.id}: {formatCurrency(refund.amount)}
+                                  {refund.reason ? ` - ${refund.reason}` : ''}
+                                </p>
+                              ))}
+                            </div>
+                          )}
+                          
                           <h4 className="text-sm font-medium text-gray-900 mb-2">Line Items</h4>
                           <table className="min-w-full divide-y divide-gray-200">
                             <thead className="bg-gray-100">
@@ -0,0 +1,239 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { PackagePlus, RefreshCw, AlertCircle, CheckCircle } from 'lucide-react';
+import { ReorderOptions, ReorderSuggestion } from '../types';
+import {
+  createReorderPurchaseOrders,
+  DEFAULT_REORDER_OPTIONS,
+  loadReorderSuggestions
+} from '../services/reorder';
+import { formatCurrency } from '../services/reports/utils';
+
+const optionFields: { name: keyof ReorderOptions; label: string }[] = [
+  { name: 'lookback_days', label: 'Sales Lookback (days)' },
+  { name: 'safety_days', label: 'Safety Stock (days)' },
+  { name: 'cover_days', label: 'Order Cover (days)' },
+  { name: 'default_lead_time_days', label: 'Default Lead Time (days)' }
+];
+
+const Reorder: React.FC = () => {
+  const [options, setOptions] = useState<ReorderOptions>(DEFAULT_REORDER_OPTIONS);
+  const [suggestions, setSuggestions] = useState<ReorderSuggestion[]>([]);
+  const [selected, setSelected] = useState<Record<string, boolean>>({});
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const loadSuggestions = useCallback(async (reorderOptions: ReorderOptions) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await loadReorderSuggestions(reorderOptions);
+      setSuggestions(data);
+      setSelected(Object.fromEntries(data.filter(item => item.supplier_name).map(item => [item.sku, true])));
+    } catch (err) {
+      console.error('Error loading reorder suggestions:', err);
+      setError('Failed to load reorder suggestions');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSuggestions(DEFAULT_REORDER_OPTIONS);
+  }, [loadSuggestions]);
+
+  const handleOptionChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setOptions(prev => ({ ...prev, [name]: Math.max(parseInt(value) || 0, name === 'lookback_days' ? 1 : 0) }));
+  };
+
+  const handleQuantityChange = (sku: string, value: string) => {
+    const quantity = Math.max(parseInt(value) || 0, 0);
+    setSuggestions(prev => prev.map(item => item.sku === sku ? { ...item, suggested_quantity: quantity } : item));
+  };
+
+  const handleCreatePurchaseOrders = async () => {
+    const toOrder = suggestions.filter(item => selected[item.sku]);
+    if (toOrder.length === 0) {
+      setError('Select at least one SKU with a supplier to order');
+      return;
+    }
+
+    setCreating(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const ids = await createReorderPurchaseOrders(toOrder);
+      setSuccess(`Created ${ids.length} purchase ${ids.length === 1 ? 'order' : 'orders'}`);
+      await loadSuggestions(options);
+    } catch (err) {
+      console.error('Error creating purchase orders:', err);
+      setError('Failed to create purchase orders');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  // Group suggestions by supplier for display
+  const groups = suggestions.reduce<Record<string, ReorderSuggestion[]>>((acc, item) => {
+    const key = item.supplier_name || '';
+    acc[key] = acc[key] || [];
+    acc[key].push(item);
+    return acc;
+  }, {});
+
+  const selectedCount = suggestions.filter(item => selected[item.sku]).length;
+
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <div className="bg-white rounded-lg shadow-md mb-6">
+        <div className="p-4 border-b">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center">
+              <PackagePlus className="h-6 w-6 text-blue-500 mr-2" />
+              <h1 className="text-2xl font-bold">Reorder</h1>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => loadSuggestions(options)}
+                disabled={loading}
+                className="px-3 py-2 border border-gray-300 rounded text-gray-600 hover:bg-gray-50 flex items-center transition-colors disabled:opacity-50"
+              >
+                <RefreshCw size={16} className={`mr-1 ${loading ? 'animate-spin' : ''}`} /> Refresh
+              </button>
+              <button
+                onClick={handleCreatePurchaseOrders}
+                disabled={creating || selectedCount === 0}
+                className="px-3 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 flex items-center transition-colors disabled:opacity-50"
+              >
+                <PackagePlus size={16} className="mr-1" />
+                {creating ? 'Creating...' : `Create Purchase Orders (${selectedCount})`}
+              </button>
+            </div>
+          </div>
+
+          <p className="text-sm text-gray-500 mb-4">
+            Reorder point is daily sales velocity × supplier lead time plus safety stock. SKUs at or below their reorder point,
+            counting stock on open purchase orders, are listed below. Set lead times and MOQs on each supplier.
+          </p>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {optionFields.map(field => (
+              <div key={field.name}>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{field.label}</label>
+                <input
+                  type="number"
+                  min={field.name === 'lookback_days' ? 1 : 0}
+                  name={field.name}
+                  value={options[field.name]}
+                  onChange={handleOptionChange}
+                  onBlur={() => loadSuggestions(options)}
+                  className="w-full p-2 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 p-4 m-4 rounded-lg flex items-center">
+            <AlertCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {success && (
+          <div className="bg-green-50 border border-green-200 text-green-700 p-4 m-4 rounded-lg flex items-center">
+            <CheckCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+            {success}.
+            <Link to="/purchase-orders" className="ml-1 underline">View purchase orders</Link>
+          </div>
+        )}
+
+        <div className="p-4">
+          {loading ? (
+            <div className="flex justify-center items-center py-12">
+              <RefreshCw className="h-6 w-6 animate-spin text-blue-500" />
+              <span className="ml-2 text-gray-600">Calculating reorder points...</span>
+            </div>
+          ) : suggestions.length === 0 ? (
+            <p className="text-center text-gray-500 py-12">No SKUs are below their reorder point.</p>
+          ) : (
+            <div className="space-y-6">
+              {Object.entries(groups).map(([supplierName, items]) => (
+                <div key={supplierName} className="border rounded-lg overflow-hidden">
+                  <div className="bg-gray-50 px-4 py-2 flex justify-between items-center">
+                    <h2 className="font-semibold">{supplierName || 'No supplier'}</h2>
+                    <span className="text-sm text-gray-500">
+                      {supplierName
+                        ? `Lead time ${items[0].lead_time_days} days${items[0].moq ? `, MOQ ${items[0].moq}` : ''}`
+                        : 'Assign a supplier in inventory to order these SKUs'}
+                    </span>
+                  </div>
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <thead className="bg-white">
+                        <tr>
+                          <th className="px-4 py-2"></th>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                          <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">In Stock</th>
+                          <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">On Order</th>
+                          <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Daily Sales</th>
+                          <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Safety Stock</th>
+                          <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Reorder Point</th>
+                          <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Order Qty</th>
+                          <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white divide-y divide-gray-200">
+                        {items.map(item => (
+                          <tr key={item.sku}>
+                            <td className="px-4 py-2">
+                              <input
+                                type="checkbox"
+                                checked={!!selected[item.sku]}
+                                disabled={!item.supplier_name}
+                                onChange={(e) => setSelected(prev => ({ ...prev, [item.sku]: e.target.checked }))}
+                              />
+                            </td>
+                            <td className="px-4 py-2 text-sm">
+                              <div className="font-medium text-gray-900">{item.product_name}</div>
+                              <div className="text-gray-500">{item.sku}</div>
+                            </td>
+                            <td className={`px-4 py-2 text-sm text-right ${item.stock_quantity <= 0 ? 'text-red-600 font-medium' : 'text-gray-700'}`}>
+                              {item.stock_quantity}
+                            </td>
+                            <td className="px-4 py-2 text-sm text-right text-gray-700">{item.on_order}</td>
+                            <td className="px-4 py-2 text-sm text-right text-gray-700">{item.daily_velocity.toFixed(2)}</td>
+                            <td className="px-4 py-2 text-sm text-right text-gray-700">{item.safety_stock}</td>
+                            <td className="px-4 py-2 text-sm text-right text-gray-700">{item.reorder_point}</td>
+                            <td className="px-4 py-2 text-sm text-right">
+                              <input
+                                type="number"
+                                min={0}
+                                value={item.suggested_quantity}
+                                onChange={(e) => handleQuantityChange(item.sku, e.target.value)}
+                                className="w-20 p-1 border border-gray-300 rounded text-right"
+                              />
+                            </td>
+                            <td className="px-4 py-2 text-sm text-right text-gray-700">
+                              {formatCurrency(item.unit_price * item.suggested_quantity)}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Reorder;
@@ -7,11 +7,11 @@ import {
 import { 
   Download, Filter, Calendar, RefreshCw, ChevronDown, ChevronUp, 
   BarChart3, ShoppingCart, DollarSign, PieChart, TrendingUp, Check,
-  Clock, CalendarDays, CalendarRange
+  Clock, CalendarDays, CalendarRange, Receipt, FileText, Target, Boxes
 } from 'lucide-react';
 import * as DropdownMenu from '@radix-ui/react-dropdown-menu';
 import DateRangePicker from '../components/common/DateRangePicker';
-import { DateRange, Order, Product, Expense, ReportData, AdditionalRevenue } from '../types';
+import { DateRange, Order, Product, Expense, ReportData, ReportSection, AdditionalRevenue } from '../types';
 import { 
   fetchOrders, 
   fetchProducts, 
@@ -27,9 +27,13 @@ import ProductsReport from '../components/reports/ProductsReport';
 import ExpensesReport from '../components/reports/ExpensesReport';
 import ProfitabilityReport from '../components/reports/ProfitabilityReport';
 import AdditionalRevenueReport from '../components/reports/AdditionalRevenueReport';
+import GstReturnReport from '../components/reports/GstReturnReport';
+import BudgetReport from '../components/reports/BudgetReport';
+import InventoryValuationReport from '../components/reports/InventoryValuationReport';
+import ReportPacksModal from '../components/reports/ReportPacksModal';
 
 // Report types
-type ReportType = 'sales' | 'products' | 'expenses' | 'additionalRevenue' | 'profitability';
+type ReportType = 'sales' | 'products' | 'expenses' | 'additionalRevenue' | 'profitability' | 'budget' | 'gst' | 'inventoryValuation';
 
 // Report period types
 type PeriodType = 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly' | 'custom';
@@ -60,6 +64,21 @@ const reportTypeConfig = {
     label: 'Profitability Report',
     icon: <TrendingUp className="h-5 w-5" />,
     description: 'Analyze overall business profitability and margins'
+  },
+  budget: {
+    label: 'Budget vs Actual',
+    icon: <Target className="h-5 w-5" />,
+    description: 'Compare category budgets with actual spend and project the month and year'
+  },
+  gst: {
+    label: 'GST Return',
+    icon: <Receipt className="h-5 w-5" />,
+    description: 'Compare GST collected on sales with GST claimable on expenses and purchases'
+  },
+  inventoryValuation: {
+    label: 'Inventory Valuation',
+    icon: <Boxes className="h-5 w-5" />,
+    description: 'Opening stock, purchases, cost of goods sold, adjustments and closing stock at cost'
   }
 };
 
@@ -114,6 +133,7 @@ const Reports: React.FC = () => {
   const [reportData, setReportData] = useState<ReportData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [showReportPacks, setShowReportPacks] = useState(false);
   
   // Load data
   const loadData = async () => {
@@ -168,6 +188,29 @@ const Reports: React.FC = () => {
         data = reportData.profitabilityData;
         filename = 'profitability-report';
         break;
+      case 'budget':
+        data = reportData.budgetVariance.map(item => ({
+          category: item.categoryName,
+          type: item.categoryType,
+          budget: item.budget,
+          actual: item.actual,
+          variance: item.variance,
+          variancePercent: item.variancePercent,
+          projectedMonth: item.projectedMonth,
+          yearToDate: item.yearToDate,
+          projectedAnnual: item.projectedAnnual,
+          status: item.status
+        }));
+        filename = 'budget-vs-actual';
+        break;
+      case 'gst':
+        data = reportData.gstReturn ? [reportData.gstReturn] : [];
+        filename = 'gst-return';
+        break;
+      case 'inventoryValuation':
+        data = reportData.inventoryValuation?.lines || [];
+        filename = 'inventory-valuation';
+        break;
     }
     
     if (data.length === 0) return;
@@ -186,6 +229,19 @@ const Reports: React.FC = () => {
     link.click();
   };
   
+  // Notice for a section that failed to load while the other reports did
+  const renderSectionError = (section: ReportSection, label: string) => {
+    const message = reportData?.sectionErrors[section];
+    if (!message) return null;
+
+    return (
+      <div className="bg-yellow-50 border border-yellow-400 text-yellow-800 px-4 py-3 rounded">
+        <strong className="font-bold">{label} could not be loaded:</strong>
+        <span className="block sm:inline"> {message}</span>
+      </div>
+    );
+  };
+  
   // Effect to load data when report type or date range changes
   useEffect(() => {
     loadData();
@@ -345,6 +401,14 @@ const Reports: React.FC = () => {
                 <Download className="h-4 w-4 mr-2" />
             Export CSV
           </button>
+          
+          <button
+            onClick={() => setShowReportPacks(true)}
+                className="flex items-center justify-center px-6 py-2 bg-gray-700 text-white rounded hover:bg-gray-800 text-sm min-w-[120px]"
+          >
+                <FileText className="h-4 w-4 mr-2" />
+            Report Packs
+          </button>
             </div>
           </div>
         </div>
@@ -382,9 +446,30 @@ const Reports: React.FC = () => {
         )}
         
         {reportType === 'profitability' && (
-          <ProfitabilityReport data={reportData.profitabilityData} />
+          <>
+            {renderSectionError('writeOffs', 'Stock write-offs')}
+            <ProfitabilityReport data={reportData.profitabilityData} />
+          </>
+        )}
+        
+        {reportType === 'budget' && (
+          renderSectionError('budgetVariance', 'Budget vs actual') || <BudgetReport data={reportData.budgetVariance} />
+        )}
+        
+        {reportType === 'gst' && (
+          renderSectionError('gstReturn', 'The GST return') ||
+          (reportData.gstReturn && <GstReturnReport data={reportData.gstReturn} />)
+        )}
+        
+        {reportType === 'inventoryValuation' && (
+          renderSectionError('inventoryValuation', 'The inventory valuation') ||
+          (reportData.inventoryValuation && <InventoryValuationReport data={reportData.inventoryValuation} />)
         )}
       </div>
+      
+      {showReportPacks && (
+        <ReportPacksModal dateRange={dateRange} onClose={() => setShowReportPacks(false)} />
+      )}
     </div>
   );
 };
@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { format } from 'date-fns';
 import { Save, AlertCircle, RefreshCw, Calendar, Download, Wifi, Layers, AlertTriangle } from 'lucide-react';
-import { ApiCredentials, OverheadCost } from '../types';
+import { ApiCredentials, ExpiryAlertSettings, OverheadCost, RFMSettings } from '../types';
 import { formatErrorMessage } from '../utils/errorHandling';
 import { 
   setApiCredentials, 
@@ -15,6 +15,7 @@ import {
   getLastSyncTimes,
   syncOrdersByYear,
   syncOrdersByDateRange,
+  syncOrdersIncremental,
   forceDecemberSync,
   fetchDecemberOrdersDirectly,
   fetchDecemberOrdersInChunks,
@@ -27,8 +28,18 @@ import OverheadCostsSection from '../components/settings/OverheadCostsSection';
 import SyncOptionsSection from '../components/settings/SyncOptionsSection';
 import SyncStatusSection from '../components/settings/SyncStatusSection';
 import OrderSettingsSection from '../components/settings/OrderSettingsSection';
+import CostingSettingsSection from '../components/settings/CostingSettingsSection';
+import TaxSettingsSection from '../components/settings/TaxSettingsSection';
+import ExpiryAlertSettingsSection from '../components/settings/ExpiryAlertSettingsSection';
+import StoreTimezoneSection from '../components/settings/StoreTimezoneSection';
 import CacheManagementSection from '../components/settings/CacheManagementSection';
+import StockLocationsSection from '../components/settings/StockLocationsSection';
+import RFMSettingsSection from '../components/settings/RFMSettingsSection';
 import { settingsService } from '../services';
+import { CostingMethod } from '../services/pnl/costLedger';
+import { TaxSettings } from '../services/pnl/taxCalculations';
+import { DEFAULT_STORE_TIMEZONE } from '../utils/dateUtils';
+import { DEFAULT_RFM_SETTINGS } from '../services/customer/rfmSettings';
 
 // Custom hook for operation state management
 const useOperationState = (initialState = false) => {
@@ -85,7 +96,7 @@ const Settings: React.FC = () => {
     inventory: null
   });
   const [showSyncOptions, setShowSyncOptions] = useState(false);
-  const [syncType, setSyncType] = useState<'all' | 'products' | 'inventory' | 'year' | 'custom'>('all');
+  const [syncType, setSyncType] = useState<'all' | 'changes' | 'products' | 'inventory' | 'year' | 'custom'>('all');
   const [syncYear, setSyncYear] = useState<number>(new Date().getFullYear());
   const [syncStartDate, setSyncStartDate] = useState<string>(format(new Date(new Date().getFullYear(), 0, 1), 'yyyy-MM-dd'));
   const [syncEndDate, setSyncEndDate] = useState<string>(format(new Date(), 'yyyy-MM-dd'));
@@ -123,6 +134,19 @@ const Settings: React.FC = () => {
   
   // Order settings state
   const [excludeOnHoldOrders, setExcludeOnHoldOrders] = useState(false);
+  const [costingMethod, setCostingMethod] = useState<CostingMethod>('fifo');
+  const [storeTimezone, setStoreTimezone] = useState<string>(DEFAULT_STORE_TIMEZONE);
+  const [taxSettings, setTaxSettings] = useState<TaxSettings>({
+    taxMode: 'inclusive',
+    gstRate: 15,
+    purchasePricesIncludeTax: false
+  });
+  const [expiryAlertSettings, setExpiryAlertSettings] = useState<ExpiryAlertSettings>({
+    horizons: [30, 60, 90],
+    lookback_days: 90,
+    max_markdown_percent: 50
+  });
+  const [rfmSettings, setRFMSettings] = useState<RFMSettings>(DEFAULT_RFM_SETTINGS);
 
   // Load initial data
   useEffect(() => {
@@ -158,6 +182,11 @@ const Settings: React.FC = () => {
         // Load order settings
         const excludeOnHold = await settingsService.getExcludeOnHoldOrders();
         setExcludeOnHoldOrders(excludeOnHold);
+        setCostingMethod(await settingsService.getCostingMethod());
+        setTaxSettings(await settingsService.getTaxSettings());
+        setExpiryAlertSettings(await settingsService.getExpiryAlertSettings());
+        setRFMSettings(await settingsService.getRFMSettings());
+        setStoreTimezone(await settingsService.getTimezone());
       } catch (error) {
         console.error('Error loading settings data:', error);
         setErrorMessage(formatErrorMessage(error, 'Failed to load settings data'));
@@ -230,6 +259,11 @@ const Settings: React.FC = () => {
       
       // Save order settings
       await settingsService.setExcludeOnHoldOrders(excludeOnHoldOrders);
+      await settingsService.setCostingMethod(costingMethod);
+      await settingsService.setTaxSettings(taxSettings);
+      await settingsService.setExpiryAlertSettings(expiryAlertSettings);
+      await settingsService.setRFMSettings(rfmSettings);
+      await settingsService.setTimezone(storeTimezone);
       
       setSuccessMessage('Settings saved successfully');
       
@@ -258,6 +292,9 @@ const Settings: React.FC = () => {
         case 'all':
           result = await syncAllData(syncOperation.updateProgress);
           break;
+        case 'changes':
+          result = await syncOrdersIncremental(syncOperation.updateProgress);
+          break;
         case 'products':
           result = await syncProductsOnly(syncOperation.updateProgress);
           break;
@@ -517,6 +554,39 @@ const Settings: React.FC = () => {
         onExcludeOnHoldOrdersChange={setExcludeOnHoldOrders}
       />
       
+      {/* Store Timezone Section */}
+      <StoreTimezoneSection
+        timezone={storeTimezone}
+        onTimezoneChange={setStoreTimezone}
+      />
+      
+      {/* Costing Settings Section */}
+      <CostingSettingsSection
+        costingMethod={costingMethod}
+        onCostingMethodChange={setCostingMethod}
+      />
+      
+      {/* Tax Settings Section */}
+      <TaxSettingsSection
+        taxSettings={taxSettings}
+        onTaxSettingsChange={setTaxSettings}
+      />
+      
+      {/* Expiry Alert Settings Section */}
+      <ExpiryAlertSettingsSection
+        expiryAlertSettings={expiryAlertSettings}
+        onExpiryAlertSettingsChange={setExpiryAlertSettings}
+      />
+      
+      {/* RFM Settings Section */}
+      <RFMSettingsSection
+        rfmSettings={rfmSettings}
+        onRFMSettingsChange={setRFMSettings}
+      />
+      
+      {/* Stock Locations Section */}
+      <StockLocationsSection />
+      
       {/* Data Sync Section */}
       <div className="bg-white shadow rounded-lg p-6 mb-8">
         <div className="flex justify-between items-center mb-4">
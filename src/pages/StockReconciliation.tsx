@@ -1,4 +1,5 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { StockLocation } from '../types';
 
 // Import context and hooks
 import { StockReconciliationProvider } from '../contexts/StockReconciliationContext';
@@ -11,9 +12,12 @@ import StockReconciliationHeader from '../components/stockReconciliation/StockRe
 import StockReconciliationFilters from '../components/stockReconciliation/StockReconciliationFilters';
 import StockReconciliationError from '../components/stockReconciliation/StockReconciliationError';
 import StockReconciliationModals from '../components/stockReconciliation/StockReconciliationModals';
+import LocationStockTable from '../components/stockReconciliation/LocationStockTable';
+import StockTransferModal from '../components/stockReconciliation/StockTransferModal';
 
 // Import cleanup utility
 import { cleanupDuplicatePurchases } from '../utils/stockCleanup';
+import { getStockLocations } from '../db/operations/stockLocations';
 
 const StockReconciliationContent: React.FC = () => {
   // Get state from context
@@ -31,12 +35,44 @@ const StockReconciliationContent: React.FC = () => {
     selectedItem,
     movements,
     products,
-    setError
+    setError,
+    page,
+    setPage,
+    pageSize,
+    totalCount,
+    sortField,
+    sortDirection,
+    handleSort,
+    loadDataSilently
   } = useStockReconciliation();
 
   // Local state for cleanup loading
   const [cleanupLoading, setCleanupLoading] = useState(false);
 
+  // SKUs ticked for writing back to the store, kept across pages
+  const [selectedSkus, setSelectedSkus] = useState<Set<string>>(new Set());
+
+  // Stock locations, null shows every location against the store stock
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [locationId, setLocationId] = useState<number | null>(null);
+  const [showTransferModal, setShowTransferModal] = useState(false);
+  // Bumped to reload the location table after a transfer from the header
+  const [locationVersion, setLocationVersion] = useState(0);
+
+  useEffect(() => {
+    const loadLocations = async () => {
+      try {
+        setLocations((await getStockLocations()).filter(location => location.active));
+      } catch (error) {
+        console.error('Error loading stock locations:', error);
+      }
+    };
+
+    loadLocations();
+  }, []);
+
+  const selectedLocation = locations.find(location => location.id === locationId);
+
   // Get operations from hook
   const {
     showHelp,
@@ -53,6 +89,9 @@ const StockReconciliationContent: React.FC = () => {
     setShowReportModal,
     showReconciliationHistoryModal,
     setShowReconciliationHistoryModal,
+    reportSummaries,
+    storeUpdateSkus,
+    setStoreUpdateSkus,
     handleViewMovements,
     handleAddAdjustment,
     handleReconcile,
@@ -63,9 +102,25 @@ const StockReconciliationContent: React.FC = () => {
     handleGenerateReport,
     handleRefresh,
     handleViewReconciliationHistory,
-    handleMovementDeleted
+    handleMovementDeleted,
+    handleApplyToStore,
+    handleStoreStockApplied
   } = useStockReconciliationOperations();
 
+  const handleSelectionChange = (skus: string[], selected: boolean) => {
+    setSelectedSkus(prev => {
+      const next = new Set(prev);
+      for (const sku of skus) {
+        if (selected) {
+          next.add(sku);
+        } else {
+          next.delete(sku);
+        }
+      }
+      return next;
+    });
+  };
+
   // Handle cleanup of duplicate purchase movements
   const handleCleanupDuplicates = async () => {
     try {
@@ -102,6 +157,9 @@ const StockReconciliationContent: React.FC = () => {
         onRefresh={handleRefresh}
         onGenerateReport={handleGenerateReport}
         onCleanupDuplicates={handleCleanupDuplicates}
+        selectedCount={selectedSkus.size}
+        onApplySelectedToStore={() => handleApplyToStore(Array.from(selectedSkus))}
+        onTransferStock={locations.length > 1 ? () => setShowTransferModal(true) : undefined}
       />
       
       {/* Error message */}
@@ -119,18 +177,42 @@ const StockReconciliationContent: React.FC = () => {
           setSearchTerm={setSearchTerm}
           discrepancyFilter={discrepancyFilter}
           setDiscrepancyFilter={setDiscrepancyFilter}
+          locations={locations}
+          locationId={selectedLocation ? locationId : null}
+          setLocationId={setLocationId}
         />
         
         {/* Data table */}
-        <StockReconciliationTable 
-          data={filteredSummaries}
-          onViewMovements={handleViewMovements}
-          onReconcile={handleReconcile}
-          onAddAdjustment={handleAddAdjustment}
-          onViewReconciliationHistory={handleViewReconciliationHistory}
-          loading={loading || cleanupLoading}
-          isFiltered={searchTerm !== '' || discrepancyFilter !== 'all'}
-        />
+        {selectedLocation ? (
+          <LocationStockTable
+            key={locationVersion}
+            location={selectedLocation}
+            locations={locations}
+            products={products}
+            searchTerm={searchTerm}
+            onChanged={() => loadDataSilently(true)}
+          />
+        ) : (
+          <StockReconciliationTable 
+            data={filteredSummaries}
+            onViewMovements={handleViewMovements}
+            onReconcile={handleReconcile}
+            onAddAdjustment={handleAddAdjustment}
+            onViewReconciliationHistory={handleViewReconciliationHistory}
+            onApplyToStore={(sku) => handleApplyToStore([sku])}
+            selectedSkus={selectedSkus}
+            onSelectionChange={handleSelectionChange}
+            loading={loading || cleanupLoading}
+            isFiltered={searchTerm !== '' || discrepancyFilter !== 'all'}
+            sortField={sortField}
+            sortDirection={sortDirection}
+            onSort={handleSort}
+            page={page}
+            pageSize={pageSize}
+            totalCount={totalCount}
+            onPageChange={setPage}
+          />
+        )}
       </div>
       
       {/* All modals */}
@@ -141,10 +223,11 @@ const StockReconciliationContent: React.FC = () => {
         showInitialStockModal={showInitialStockModal}
         showReportModal={showReportModal}
         showReconciliationHistoryModal={showReconciliationHistoryModal}
+        storeUpdateSkus={storeUpdateSkus}
         selectedSku={selectedSku}
         selectedItem={selectedItem}
         movements={movements}
-        summaries={summaries}
+        summaries={reportSummaries}
         products={products}
         onCloseMovementModal={() => setShowMovementModal(false)}
         onCloseAdjustmentModal={() => setShowAdjustmentModal(false)}
@@ -152,13 +235,28 @@ const StockReconciliationContent: React.FC = () => {
         onCloseInitialStockModal={() => setShowInitialStockModal(false)}
         onCloseReportModal={() => setShowReportModal(false)}
         onCloseReconciliationHistoryModal={() => setShowReconciliationHistoryModal(false)}
+        onCloseApplyToStoreModal={() => setStoreUpdateSkus(null)}
         onSubmitAdjustment={handleSubmitAdjustment}
         onSubmitReconciliation={handleSubmitReconciliation}
         onSubmitInitialStock={handleSubmitInitialStock}
         onBulkUpload={handleBulkUpload}
         onMovementDeleted={handleMovementDeleted}
         onRefresh={handleRefresh}
+        onStoreStockApplied={handleStoreStockApplied}
       />
+      
+      {showTransferModal && (
+        <StockTransferModal
+          locations={locations}
+          products={products}
+          fromLocationId={selectedLocation?.id}
+          onClose={() => setShowTransferModal(false)}
+          onTransferred={() => {
+            setLocationVersion(version => version + 1);
+            loadDataSilently(true);
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,147 @@
+import React, { useState, useEffect } from 'react';
+import { ClipboardCheck, Plus, RefreshCw } from 'lucide-react';
+import { NewStocktakeSession, StocktakeSession } from '../types';
+import { createStocktakeSession, getStocktakeSessions } from '../db/operations/stocktake';
+import { formatStoreDate } from '../utils/dateUtils';
+import StocktakeSessionForm from '../components/stocktake/StocktakeSessionForm';
+import StocktakeDetail from '../components/stocktake/StocktakeDetail';
+import StocktakeStatusBadge from '../components/stocktake/StocktakeStatusBadge';
+
+const Stocktake: React.FC = () => {
+  const [sessions, setSessions] = useState<StocktakeSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [view, setView] = useState<'list' | 'create' | 'detail'>('list');
+  const [selectedSessionId, setSelectedSessionId] = useState<number | null>(null);
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const loadSessions = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setSessions(await getStocktakeSessions());
+    } catch (err) {
+      console.error('Error loading stocktakes:', err);
+      setError('Failed to load stocktakes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async (input: NewStocktakeSession) => {
+    const session = await createStocktakeSession(input);
+    setSelectedSessionId(session.id!);
+    setView('detail');
+  };
+
+  const handleViewDetail = (id: number) => {
+    setSelectedSessionId(id);
+    setView('detail');
+  };
+
+  const handleBackToList = () => {
+    setView('list');
+    setSelectedSessionId(null);
+    loadSessions();
+  };
+
+  const renderContent = () => {
+    if (view === 'create') {
+      return <StocktakeSessionForm onSubmit={handleCreate} onCancel={handleBackToList} />;
+    }
+
+    if (view === 'detail' && selectedSessionId) {
+      return <StocktakeDetail sessionId={selectedSessionId} onBack={handleBackToList} />;
+    }
+
+    return (
+      <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        {error && (
+          <div className="bg-red-50 border-b border-red-200 text-red-700 px-4 py-3 text-sm">{error}</div>
+        )}
+        {loading ? (
+          <div className="flex items-center justify-center p-8">
+            <RefreshCw className="animate-spin h-8 w-8 text-indigo-600" />
+          </div>
+        ) : sessions.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">
+            No stocktakes yet. Start one to count stock by scanner or by hand.
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Location</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Started</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Completed</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {sessions.map(session => (
+                <tr
+                  key={session.id}
+                  className="hover:bg-gray-50 cursor-pointer"
+                  onClick={() => handleViewDetail(session.id!)}
+                >
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {session.name}
+                    {session.blind && <span className="ml-2 text-xs text-purple-700">blind</span>}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{session.location || '-'}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {formatStoreDate(new Date(session.started_at))}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <StocktakeStatusBadge status={session.status} />
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {session.completed_at ? formatStoreDate(new Date(session.completed_at)) : '-'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold flex items-center">
+          <ClipboardCheck className="h-6 w-6 mr-2" />
+          Stocktake
+        </h1>
+        {view === 'list' && (
+          <div className="flex gap-2">
+            <button
+              onClick={loadSessions}
+              disabled={loading}
+              className="p-2 text-gray-600 hover:bg-gray-100 rounded-md transition-colors disabled:opacity-50"
+              title="Refresh"
+            >
+              <RefreshCw size={16} className={loading ? 'animate-spin' : ''} />
+            </button>
+            <button
+              onClick={() => setView('create')}
+              className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-md text-sm hover:bg-indigo-700"
+            >
+              <Plus size={16} className="mr-1.5" />
+              New Stocktake
+            </button>
+          </div>
+        )}
+      </div>
+
+      {renderContent()}
+    </div>
+  );
+};
+
+export default Stocktake;
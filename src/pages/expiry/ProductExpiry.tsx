@@ -17,9 +17,11 @@ import {
   FileText,
   Archive,
   RotateCcw,
-  Bug
+  Bug,
+  FileSearch,
+  PackageX
 } from 'lucide-react';
-import { formatNZDate } from '../../utils/dateUtils';
+import { formatStoreDate } from '../../utils/dateUtils';
 import { 
   getProductExpiryWithDetails, 
   getProductExpiryByExpiryDate,
@@ -27,11 +29,17 @@ import {
   getProductExpiryBySku,
   getTotalQuantityBySku,
   archiveProductExpiry,
-  unarchiveProductExpiry
+  unarchiveProductExpiry,
+  allocateUnallocatedMovements,
+  autoArchiveExpiryRecords,
+  getArchivedProductExpiry
 } from '../../db/operations/expiry';
 import { ProductExpiry } from '../../types';
 import ExpiryUploadModal from '../../components/expiry/ExpiryUploadModal';
 import ExpiryFormModal from '../../components/expiry/ExpiryFormModal';
+import BatchConsumptionModal from '../../components/expiry/BatchConsumptionModal';
+import ArchivedExpiryTable from '../../components/expiry/ArchivedExpiryTable';
+import WriteOffBatchModal from '../../components/expiry/WriteOffBatchModal';
 import { supabase } from '../../services/supabase';
 
 // Interface for grouped expiry data
@@ -66,15 +74,24 @@ const ProductExpiryPage: React.FC = () => {
     product_name?: string;
   } | undefined>(undefined);
   const [showDebug, setShowDebug] = useState(false);
+  const [isConsumptionModalOpen, setIsConsumptionModalOpen] = useState(false);
+  const [applyingSales, setApplyingSales] = useState(false);
+  const [view, setView] = useState<'active' | 'archived'>('active');
+  const [archivedData, setArchivedData] = useState<ProductExpiry[]>([]);
+  const [writeOffBatch, setWriteOffBatch] = useState<ProductExpiry | undefined>(undefined);
   
   // Load data
   const loadData = async () => {
     setLoading(true);
     try {
+      // Archive batches that have sold out or expired before loading the active list
+      await autoArchiveExpiryRecords();
+      
       // Add timestamp to force fresh data fetch
       const timestamp = new Date().getTime();
       const data = await getProductExpiryByExpiryDate(sortOrder === 'asc', timestamp);
       setExpiryData(data);
+      setArchivedData(await getArchivedProductExpiry());
       
       // Group data by SKU
       const grouped = groupExpiryData(data);
@@ -90,14 +107,6 @@ const ProductExpiryPage: React.FC = () => {
   const groupExpiryData = (data: ProductExpiry[]): GroupedExpiry[] => {
     const groupedMap = new Map<string, GroupedExpiry>();
     
-    console.log(`Grouping ${data.length} expiry records. Archive status:`, 
-      data.map(item => ({
-        sku: item.sku, 
-        archived: item.archived,
-        expiry_date: item.expiry_date
-      }))
-    );
-    
     data.forEach(item => {
       if (!groupedMap.has(item.sku)) {
         groupedMap.set(item.sku, {
@@ -189,6 +198,51 @@ const ProductExpiryPage: React.FC = () => {
     setIsFormModalOpen(true);
   };
   
+  // Handle manual archive
+  const handleArchive = async (record: ProductExpiry) => {
+    if (!record.id || !window.confirm(`Archive batch ${record.batch_number || ''} of ${record.sku}?`)) {
+      return;
+    }
+    
+    try {
+      await archiveProductExpiry(record.id, 'manual');
+      loadData();
+    } catch (error) {
+      console.error('Error archiving expiry record:', error);
+    }
+  };
+  
+  // Handle restore from the archive
+  const handleRestore = async (record: ProductExpiry) => {
+    if (!record.id) return;
+    
+    try {
+      await unarchiveProductExpiry(record.id);
+      loadData();
+    } catch (error) {
+      console.error('Error restoring expiry record:', error);
+    }
+  };
+  
+  // Take stock movements recorded before batch depletion out of their batches
+  const handleApplySales = async () => {
+    if (!window.confirm('Take all sales and stock adjustments not yet applied out of their expiry batches, earliest expiry first?')) {
+      return;
+    }
+    
+    setApplyingSales(true);
+    try {
+      const result = await allocateUnallocatedMovements();
+      alert(`Applied ${result.allocated} stock movements to expiry batches. ${result.skipped} had no batch to take stock from.`);
+      loadData();
+    } catch (error) {
+      console.error('Error applying sales to batches:', error);
+      alert('Failed to apply sales to expiry batches');
+    } finally {
+      setApplyingSales(false);
+    }
+  };
+  
   // Get color based on days until expiry
   const getExpiryColor = (expiryDate: Date): string => {
     const today = new Date();
@@ -231,6 +285,17 @@ const ProductExpiryPage: React.FC = () => {
     return true;
   });
   
+  // Archived batches matching the search
+  const filteredArchivedData = archivedData.filter(record => {
+    if (!searchTerm) return true;
+    const term = searchTerm.toLowerCase();
+    return (
+      record.sku.toLowerCase().includes(term) ||
+      (record.product_name?.toLowerCase().includes(term) || false) ||
+      (record.batch_number?.toLowerCase().includes(term) || false)
+    );
+  });
+  
   // Handle delete all batches for a SKU
   const handleDeleteAllBatches = async (sku: string) => {
     if (window.confirm(`Are you sure you want to delete ALL expiry records for ${sku}? This will remove all batches.`)) {
@@ -264,7 +329,7 @@ const ProductExpiryPage: React.FC = () => {
       item.sku,
       item.product_name || '',
       item.batch_number || '',
-      formatNZDate(new Date(item.expiry_date)),
+      formatStoreDate(new Date(item.expiry_date)),
       item.quantity.toString(),
       item.notes || ''
     ]);
@@ -319,23 +384,20 @@ const ProductExpiryPage: React.FC = () => {
       }
       
       // Count records by archive status
-      const archivedCount = allRecords.filter((r: any) => r.archived === true).length;
-      const unarchivedCount = allRecords.filter((r: any) => r.archived === false).length;
-      const nullArchivedCount = allRecords.filter((r: any) => r.archived === null).length;
+      const archivedCount = allRecords.filter((r: ProductExpiry) => r.archived_at).length;
+      const activeCount = allRecords.length - archivedCount;
       
       console.log('Database status:', {
         total: allRecords.length,
         archived: archivedCount,
-        unarchived: unarchivedCount,
-        nullArchived: nullArchivedCount,
+        active: activeCount,
         records: allRecords
       });
       
       alert(`Database Status:
 Total records: ${allRecords.length}
-Archived (true): ${archivedCount}
-Unarchived (false): ${unarchivedCount}
-Null archived: ${nullArchivedCount}
+Archived: ${archivedCount}
+Active: ${activeCount}
 
 Check console for full details.`);
     } catch (error) {
@@ -404,6 +466,24 @@ Check console for full details.`);
             CSV Template
           </button>
           
+          <button
+            onClick={() => setIsConsumptionModalOpen(true)}
+            className="flex items-center px-3 py-2 rounded-md text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors"
+          >
+            <FileSearch size={16} className="mr-1.5" />
+            Batch Consumption
+          </button>
+          
+          <button
+            onClick={handleApplySales}
+            disabled={applyingSales}
+            className="flex items-center px-3 py-2 rounded-md text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors disabled:opacity-50"
+            title="Take past sales out of expiry batches"
+          >
+            <Layers size={16} className="mr-1.5" />
+            {applyingSales ? 'Applying...' : 'Apply Sales to Batches'}
+          </button>
+          
           <button
             onClick={loadData}
             className="flex items-center px-3 py-2 rounded-md text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors"
@@ -426,6 +506,23 @@ Check console for full details.`);
         </div>
       </div>
       
+      {/* Tabs */}
+      <div className="flex border-b border-gray-200 mb-6">
+        <button
+          onClick={() => setView('active')}
+          className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors ${view === 'active' ? 'border-blue-500 text-blue-600' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+        >
+          Active ({expiryData.length})
+        </button>
+        <button
+          onClick={() => setView('archived')}
+          className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors flex items-center ${view === 'archived' ? 'border-blue-500 text-blue-600' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+        >
+          <Archive size={14} className="mr-1.5" />
+          Archived ({archivedData.length})
+        </button>
+      </div>
+      
       {/* Filters */}
       <div className="mb-6 bg-white p-4 rounded-lg border border-gray-200 shadow-sm">
         <div className="flex flex-wrap gap-4">
@@ -499,244 +596,288 @@ Check console for full details.`);
         </div>
       </div>
       
-      {/* Legend */}
-      <div className="flex flex-wrap gap-3 mb-4 bg-white p-3 rounded-lg border border-gray-200 shadow-sm">
-        <div className="text-sm flex items-center">
-          <span className="inline-block w-4 h-4 bg-red-200 mr-2 rounded"></span>
-          <span className="font-medium">Expired</span>
-        </div>
-        <div className="text-sm flex items-center">
-          <span className="inline-block w-4 h-4 bg-red-100 mr-2 rounded"></span>
-          <span>&lt; 30 days</span>
-        </div>
-        <div className="text-sm flex items-center">
-          <span className="inline-block w-4 h-4 bg-orange-100 mr-2 rounded"></span>
-          <span>30-60 days</span>
-        </div>
-        <div className="text-sm flex items-center">
-          <span className="inline-block w-4 h-4 bg-yellow-100 mr-2 rounded"></span>
-          <span>60-90 days</span>
-        </div>
-        <div className="text-sm flex items-center">
-          <span className="inline-block w-4 h-4 bg-green-100 mr-2 rounded"></span>
-          <span>&gt; 90 days</span>
-        </div>
-      </div>
+      {view === 'archived' ? (
+        <ArchivedExpiryTable
+          records={filteredArchivedData}
+          loading={loading}
+          onRestore={handleRestore}
+          onDelete={handleDelete}
+        />
+      ) : (
+        <>
+          {/* Legend */}
+          <div className="flex flex-wrap gap-3 mb-4 bg-white p-3 rounded-lg border border-gray-200 shadow-sm">
+            <div className="text-sm flex items-center">
+              <span className="inline-block w-4 h-4 bg-red-200 mr-2 rounded"></span>
+              <span className="font-medium">Expired</span>
+            </div>
+            <div className="text-sm flex items-center">
+              <span className="inline-block w-4 h-4 bg-red-100 mr-2 rounded"></span>
+              <span>&lt; 30 days</span>
+            </div>
+            <div className="text-sm flex items-center">
+              <span className="inline-block w-4 h-4 bg-orange-100 mr-2 rounded"></span>
+              <span>30-60 days</span>
+            </div>
+            <div className="text-sm flex items-center">
+              <span className="inline-block w-4 h-4 bg-yellow-100 mr-2 rounded"></span>
+              <span>60-90 days</span>
+            </div>
+            <div className="text-sm flex items-center">
+              <span className="inline-block w-4 h-4 bg-green-100 mr-2 rounded"></span>
+              <span>&gt; 90 days</span>
+            </div>
+          </div>
       
-      {/* Table */}
-      <div className="overflow-x-auto rounded-lg border border-gray-200 shadow-sm">
-        <table className="w-full border-collapse bg-white text-sm">
-          <thead>
-            <tr className="bg-gray-100">
-              <th className="border-b border-gray-200 p-3 text-left font-medium text-gray-700"></th>
-              <th className="border-b border-gray-200 p-3 text-left font-medium text-gray-700">Product</th>
-              <th className="border-b border-gray-200 p-3 text-left font-medium text-gray-700">SKU</th>
-              <th className="border-b border-gray-200 p-3 text-left font-medium text-gray-700">Earliest Expiry</th>
-              <th className="border-b border-gray-200 p-3 text-left font-medium text-gray-700">Batches</th>
-              <th className="border-b border-gray-200 p-3 text-left font-medium text-gray-700">Total Quantity</th>
-              <th className="border-b border-gray-200 p-3 text-left font-medium text-gray-700">Stock</th>
-              <th className="border-b border-gray-200 p-3 text-left font-medium text-gray-700">Notes</th>
-              <th className="border-b border-gray-200 p-3 text-left font-medium text-gray-700">Actions</th>
-            </tr>
-          </thead>
-          <tbody className="divide-y divide-gray-100">
-            {loading ? (
-              <tr>
-                <td colSpan={9} className="p-8 text-center">
-                  <div className="flex justify-center items-center">
-                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
-                    <span className="ml-2">Loading...</span>
-                  </div>
-                </td>
-              </tr>
-            ) : filteredData.length === 0 ? (
-              <tr>
-                <td colSpan={9} className="p-8 text-center">
-                  <div className="flex flex-col items-center justify-center py-12">
-                    <div className="text-gray-400 mb-4">
-                      <Calendar size={48} />
-                    </div>
-                    <h3 className="text-lg font-medium text-gray-900 mb-1">No expiry records found</h3>
-                    <p className="text-gray-500 mb-4">
-                      Start tracking product expiry dates by adding your first record.
-                    </p>
-                    <button
-                      onClick={() => {
-                        setSelectedRecord(undefined);
-                        setSelectedProductForAdditionalExpiry(undefined);
-                        setIsAddingAdditionalExpiry(false);
-                        setIsFormModalOpen(true);
-                      }}
-                      className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-                    >
-                      <Plus size={16} className="mr-2" />
-                      Add Expiry Record
-                    </button>
-                  </div>
-                </td>
-              </tr>
-            ) : (
-              <>
-                {filteredData.map((group) => {
-                  const isExpanded = expandedSku.includes(group.sku);
-                  const hasMultipleBatches = group.batches.length > 1;
-                  const colorClass = getExpiryColor(group.earliest_expiry);
-                  const exceededStock = group.total_quantity > group.stock_quantity;
+          {/* Table */}
+          <div className="overflow-x-auto rounded-lg border border-gray-200 shadow-sm">
+            <table className="w-full border-collapse bg-white text-sm">
+              <thead>
+                <tr className="bg-gray-100">
+                  <th className="border-b border-gray-200 p-3 text-left font-medium text-gray-700"></th>
+                  <th className="border-b border-gray-200 p-3 text-left font-medium text-gray-700">Product</th>
+                  <th className="border-b border-gray-200 p-3 text-left font-medium text-gray-700">SKU</th>
+                  <th className="border-b border-gray-200 p-3 text-left font-medium text-gray-700">Earliest Expiry</th>
+                  <th className="border-b border-gray-200 p-3 text-left font-medium text-gray-700">Batches</th>
+                  <th className="border-b border-gray-200 p-3 text-left font-medium text-gray-700">Total Quantity</th>
+                  <th className="border-b border-gray-200 p-3 text-left font-medium text-gray-700">Stock</th>
+                  <th className="border-b border-gray-200 p-3 text-left font-medium text-gray-700">Notes</th>
+                  <th className="border-b border-gray-200 p-3 text-left font-medium text-gray-700">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {loading ? (
+                  <tr>
+                    <td colSpan={9} className="p-8 text-center">
+                      <div className="flex justify-center items-center">
+                        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+                        <span className="ml-2">Loading...</span>
+                      </div>
+                    </td>
+                  </tr>
+                ) : filteredData.length === 0 ? (
+                  <tr>
+                    <td colSpan={9} className="p-8 text-center">
+                      <div className="flex flex-col items-center justify-center py-12">
+                        <div className="text-gray-400 mb-4">
+                          <Calendar size={48} />
+                        </div>
+                        <h3 className="text-lg font-medium text-gray-900 mb-1">No expiry records found</h3>
+                        <p className="text-gray-500 mb-4">
+                          Start tracking product expiry dates by adding your first record.
+                        </p>
+                        <button
+                          onClick={() => {
+                            setSelectedRecord(undefined);
+                            setSelectedProductForAdditionalExpiry(undefined);
+                            setIsAddingAdditionalExpiry(false);
+                            setIsFormModalOpen(true);
+                          }}
+                          className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                        >
+                          <Plus size={16} className="mr-2" />
+                          Add Expiry Record
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ) : (
+                  <>
+                    {filteredData.map((group) => {
+                      const isExpanded = expandedSku.includes(group.sku);
+                      const hasMultipleBatches = group.batches.length > 1;
+                      const colorClass = getExpiryColor(group.earliest_expiry);
+                      const exceededStock = group.total_quantity > group.stock_quantity;
                   
-                  // Find the earliest expiring batch for edit action
-                  const earliestBatch = group.batches.reduce((earliest, current) => {
-                    return new Date(earliest.expiry_date) <= new Date(current.expiry_date) ? earliest : current;
-                  }, group.batches[0]);
+                      // Find the earliest expiring batch for edit action
+                      const earliestBatch = group.batches.reduce((earliest, current) => {
+                        return new Date(earliest.expiry_date) <= new Date(current.expiry_date) ? earliest : current;
+                      }, group.batches[0]);
                   
-                  return (
-                    <React.Fragment key={group.sku}>
-                      <tr className={`hover:bg-gray-50 transition-colors ${isExpanded ? 'bg-blue-50' : ''}`}>
-                        <td className="p-3 text-center">
-                          {hasMultipleBatches && (
-                            <button 
-                              onClick={() => toggleExpand(group.sku)}
-                              className={`rounded-full p-1 transition-colors ${isExpanded ? 'bg-blue-100 text-blue-600' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}`}
-                            >
-                              {isExpanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
-                            </button>
-                          )}
-                        </td>
-                        <td className="p-3 font-medium">
-                          {group.product_name}
-                        </td>
-                        <td className="p-3">
-                          <div className="flex items-center">
-                            <span className="font-mono text-sm">{group.sku}</span>
-                            {hasMultipleBatches && (
-                              <span className="ml-2 px-2 py-0.5 bg-blue-100 text-blue-800 rounded-full text-xs font-medium flex items-center" title={`${group.batches.length} batches`}>
-                                <Layers size={12} className="mr-1" />
-                                {group.batches.length}
-                              </span>
-                            )}
-                          </div>
-                        </td>
-                        <td className={`p-3 ${colorClass} rounded-md font-medium`}>{formatNZDate(group.earliest_expiry)}</td>
-                        <td className="p-3">
-                          {hasMultipleBatches 
-                            ? <span className="text-sm">{group.batches.length} batches</span>
-                            : <span className="text-sm font-medium">{group.batches[0].batch_number || '-'}</span>
-                          }
-                        </td>
-                        <td className="p-3 font-medium">{group.total_quantity}</td>
-                        <td className="p-3">
-                          <div className="flex items-center">
-                            <span>{group.stock_quantity}</span>
-                            {exceededStock && (
-                              <span className="ml-2 text-red-600" title="Total quantity exceeds current stock">
-                                <AlertTriangle size={14} className="inline" />
-                              </span>
-                            )}
-                          </div>
-                        </td>
-                        <td className="p-3 max-w-xs truncate">
-                          {!hasMultipleBatches && group.batches[0].notes && (
-                            <span className="text-sm text-gray-600">{group.batches[0].notes}</span>
-                          )}
-                          {hasMultipleBatches && (
-                            <span className="text-xs text-gray-500 italic">View batches for details</span>
-                          )}
-                        </td>
-                        <td className="px-4 py-3 text-right">
-                          <div className="flex justify-end space-x-2">
-                            <button 
-                              onClick={() => handleEdit(earliestBatch)}
-                              className="p-1.5 text-green-600 hover:text-green-800 hover:bg-green-50 rounded-full transition-colors"
-                              title="Edit Earliest Batch"
-                            >
-                              <Edit size={16} />
-                            </button>
-                            <button 
-                              onClick={() => handleAddAdditionalExpiry(earliestBatch)}
-                              className="p-1.5 text-blue-600 hover:text-blue-800 hover:bg-blue-50 rounded-full transition-colors"
-                              title="Add Additional Expiry Date"
-                            >
-                              <Plus size={16} />
-                            </button>
-                            <button 
-                              onClick={() => handleDeleteAllBatches(group.sku)}
-                              className="p-1.5 text-red-600 hover:text-red-800 hover:bg-red-50 rounded-full transition-colors"
-                              title="Delete All Batches"
-                            >
-                              <Trash2 size={16} />
-                            </button>
-                          </div>
-                        </td>
-                      </tr>
+                      return (
+                        <React.Fragment key={group.sku}>
+                          <tr className={`hover:bg-gray-50 transition-colors ${isExpanded ? 'bg-blue-50' : ''}`}>
+                            <td className="p-3 text-center">
+                              {hasMultipleBatches && (
+                                <button 
+                                  onClick={() => toggleExpand(group.sku)}
+                                  className={`rounded-full p-1 transition-colors ${isExpanded ? 'bg-blue-100 text-blue-600' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}`}
+                                >
+                                  {isExpanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+                                </button>
+                              )}
+                            </td>
+                            <td className="p-3 font-medium">
+                              {group.product_name}
+                            </td>
+                            <td className="p-3">
+                              <div className="flex items-center">
+                                <span className="font-mono text-sm">{group.sku}</span>
+                                {hasMultipleBatches && (
+                                  <span className="ml-2 px-2 py-0.5 bg-blue-100 text-blue-800 rounded-full text-xs font-medium flex items-center" title={`${group.batches.length} batches`}>
+                                    <Layers size={12} className="mr-1" />
+                                    {group.batches.length}
+                                  </span>
+                                )}
+                              </div>
+                            </td>
+                            <td className={`p-3 ${colorClass} rounded-md font-medium`}>{formatStoreDate(group.earliest_expiry)}</td>
+                            <td className="p-3">
+                              {hasMultipleBatches 
+                                ? <span className="text-sm">{group.batches.length} batches</span>
+                                : <span className="text-sm font-medium">{group.batches[0].batch_number || '-'}</span>
+                              }
+                            </td>
+                            <td className="p-3 font-medium">{group.total_quantity}</td>
+                            <td className="p-3">
+                              <div className="flex items-center">
+                                <span>{group.stock_quantity}</span>
+                                {exceededStock && (
+                                  <span className="ml-2 text-red-600" title="Total quantity exceeds current stock">
+                                    <AlertTriangle size={14} className="inline" />
+                                  </span>
+                                )}
+                              </div>
+                            </td>
+                            <td className="p-3 max-w-xs truncate">
+                              {!hasMultipleBatches && group.batches[0].notes && (
+                                <span className="text-sm text-gray-600">{group.batches[0].notes}</span>
+                              )}
+                              {hasMultipleBatches && (
+                                <span className="text-xs text-gray-500 italic">View batches for details</span>
+                              )}
+                            </td>
+                            <td className="px-4 py-3 text-right">
+                              <div className="flex justify-end space-x-2">
+                                <button 
+                                  onClick={() => handleEdit(earliestBatch)}
+                                  className="p-1.5 text-green-600 hover:text-green-800 hover:bg-green-50 rounded-full transition-colors"
+                                  title="Edit Earliest Batch"
+                                >
+                                  <Edit size={16} />
+                                </button>
+                                <button 
+                                  onClick={() => handleAddAdditionalExpiry(earliestBatch)}
+                                  className="p-1.5 text-blue-600 hover:text-blue-800 hover:bg-blue-50 rounded-full transition-colors"
+                                  title="Add Additional Expiry Date"
+                                >
+                                  <Plus size={16} />
+                                </button>
+                                {!hasMultipleBatches && (
+                                  <button 
+                                    onClick={() => setWriteOffBatch(earliestBatch)}
+                                    className="p-1.5 text-orange-600 hover:text-orange-800 hover:bg-orange-50 rounded-full transition-colors"
+                                    title="Write Off Batch"
+                                  >
+                                    <PackageX size={16} />
+                                  </button>
+                                )}
+                                {!hasMultipleBatches && (
+                                  <button 
+                                    onClick={() => handleArchive(earliestBatch)}
+                                    className="p-1.5 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-full transition-colors"
+                                    title="Archive Batch"
+                                  >
+                                    <Archive size={16} />
+                                  </button>
+                                )}
+                                <button 
+                                  onClick={() => handleDeleteAllBatches(group.sku)}
+                                  className="p-1.5 text-red-600 hover:text-red-800 hover:bg-red-50 rounded-full transition-colors"
+                                  title="Delete All Batches"
+                                >
+                                  <Trash2 size={16} />
+                                </button>
+                              </div>
+                            </td>
+                          </tr>
                       
-                      {/* Expanded batch details */}
-                      {isExpanded && hasMultipleBatches && (
-                        <>
-                          {group.batches.map((batch) => {
-                            const batchDate = new Date(batch.expiry_date);
-                            const batchColorClass = getExpiryColor(batchDate);
+                          {/* Expanded batch details */}
+                          {isExpanded && hasMultipleBatches && (
+                            <>
+                              {group.batches.map((batch) => {
+                                const batchDate = new Date(batch.expiry_date);
+                                const batchColorClass = getExpiryColor(batchDate);
                             
-                            return (
-                              <tr key={batch.id} className={`bg-blue-50/50`}>
-                                <td className="p-3"></td>
-                                <td className="p-3 pl-8 text-sm text-gray-500" colSpan={2}>
-                                  <div className="flex items-center">
-                                    <div className="w-1.5 h-1.5 rounded-full bg-blue-400 mr-2"></div>
-                                    <span className="italic">Batch Details</span>
-                                  </div>
-                                </td>
-                                <td className={`p-3 text-sm ${batchColorClass} rounded-md`}>{formatNZDate(batchDate)}</td>
-                                <td className="p-3 text-sm font-medium">{batch.batch_number || '-'}</td>
-                                <td className="p-3 text-sm">{batch.quantity}</td>
-                                <td className="p-3 text-sm">
-                                  {batch.stock_quantity !== undefined ? batch.stock_quantity : '-'}
-                                </td>
-                                <td className="p-3 text-sm max-w-xs truncate">
-                                  {batch.notes || '-'}
-                                </td>
-                                <td className="px-4 py-3 text-right">
-                                  <div className="flex justify-end space-x-2">
-                                    <button 
-                                      onClick={() => handleEdit(batch)}
-                                      className="p-1.5 text-green-600 hover:text-green-800 hover:bg-green-50 rounded-full transition-colors"
-                                      title="Edit Batch"
-                                    >
-                                      <Edit size={16} />
-                                    </button>
-                                    <button 
-                                      onClick={() => batch.id && handleDelete(batch.id)}
-                                      className="p-1.5 text-red-600 hover:text-red-800 hover:bg-red-50 rounded-full transition-colors"
-                                      title="Delete Batch"
-                                    >
-                                      <Trash2 size={16} />
-                                    </button>
-                                  </div>
-                                </td>
-                              </tr>
-                            );
-                          })}
-                        </>
-                      )}
-                    </React.Fragment>
-                  );
-                })}
-              </>
-            )}
-          </tbody>
-        </table>
-      </div>
-      
-      {/* Summary */}
-      {!loading && filteredData.length > 0 && (
-        <div className="mt-4 text-sm text-gray-600 flex items-center">
-          <div className="bg-white shadow-sm rounded-md px-4 py-2 border border-gray-200">
-            Showing <span className="font-medium">{filteredData.length}</span> products with expiry dates
-            {filteredData.filter(g => g.batches.length > 1).length > 0 && (
-              <span className="ml-2">
-                (<span className="font-medium">{filteredData.filter(g => g.batches.length > 1).length}</span> with multiple batches)
-              </span>
-            )}
+                                return (
+                                  <tr key={batch.id} className={`bg-blue-50/50`}>
+                                    <td className="p-3"></td>
+                                    <td className="p-3 pl-8 text-sm text-gray-500" colSpan={2}>
+                                      <div className="flex items-center">
+                                        <div className="w-1.5 h-1.5 rounded-full bg-blue-400 mr-2"></div>
+                                        <span className="italic">Batch Details</span>
+                                      </div>
+                                    </td>
+                                    <td className={`p-3 text-sm ${batchColorClass} rounded-md`}>{formatStoreDate(batchDate)}</td>
+                                    <td className="p-3 text-sm font-medium">{batch.batch_number || '-'}</td>
+                                    <td className="p-3 text-sm">{batch.quantity}</td>
+                                    <td className="p-3 text-sm">
+                                      {batch.stock_quantity !== undefined ? batch.stock_quantity : '-'}
+                                    </td>
+                                    <td className="p-3 text-sm max-w-xs truncate">
+                                      {batch.notes || '-'}
+                                    </td>
+                                    <td className="px-4 py-3 text-right">
+                                      <div className="flex justify-end space-x-2">
+                                        <button 
+                                          onClick={() => handleEdit(batch)}
+                                          className="p-1.5 text-green-600 hover:text-green-800 hover:bg-green-50 rounded-full transition-colors"
+                                          title="Edit Batch"
+                                        >
+                                          <Edit size={16} />
+                                        </button>
+                                        <button 
+                                          onClick={() => setWriteOffBatch(batch)}
+                                          className="p-1.5 text-orange-600 hover:text-orange-800 hover:bg-orange-50 rounded-full transition-colors"
+                                          title="Write Off Batch"
+                                        >
+                                          <PackageX size={16} />
+                                        </button>
+                                        <button 
+                                          onClick={() => handleArchive(batch)}
+                                          className="p-1.5 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-full transition-colors"
+                                          title="Archive Batch"
+                                        >
+                                          <Archive size={16} />
+                                        </button>
+                                        <button 
+                                          onClick={() => batch.id && handleDelete(batch.id)}
+                                          className="p-1.5 text-red-600 hover:text-red-800 hover:bg-red-50 rounded-full transition-colors"
+                                          title="Delete Batch"
+                                        >
+                                          <Trash2 size={16} />
+                                        </button>
+                                      </div>
+                                    </td>
+                                  </tr>
+                                );
+                              })}
+                            </>
+                          )}
+                        </React.Fragment>
+                      );
+                    })}
+                  </>
+                )}
+              </tbody>
+            </table>
           </div>
-        </div>
+      
+          {/* Summary */}
+          {!loading && filteredData.length > 0 && (
+            <div className="mt-4 text-sm text-gray-600 flex items-center">
+              <div className="bg-white shadow-sm rounded-md px-4 py-2 border border-gray-200">
+                Showing <span className="font-medium">{filteredData.length}</span> products with expiry dates
+                {filteredData.filter(g => g.batches.length > 1).length > 0 && (
+                  <span className="ml-2">
+                    (<span className="font-medium">{filteredData.filter(g => g.batches.length > 1).length}</span> with multiple batches)
+                  </span>
+                )}
+              </div>
+            </div>
+          )}
+      
+        </>
       )}
       
       {/* Floating action button for mobile */}
@@ -774,6 +915,17 @@ Check console for full details.`);
         isAddingAdditionalExpiry={isAddingAdditionalExpiry}
         productForAdditionalExpiry={selectedProductForAdditionalExpiry}
       />
+      
+      <BatchConsumptionModal
+        isOpen={isConsumptionModalOpen}
+        onClose={() => setIsConsumptionModalOpen(false)}
+      />
+      
+      <WriteOffBatchModal
+        batch={writeOffBatch}
+        onClose={() => setWriteOffBatch(undefined)}
+        onSuccess={loadData}
+      />
     </div>
   );
 };
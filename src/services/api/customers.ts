@@ -1,47 +1,27 @@
 import { Customer } from '../../types';
 import { createWooCommerceClient } from './credentials';
-import { customerBasicService, customerRFMService } from '../../services/customer';
+import { customerAttributionService, customerCLVService, customerIdentityService, customerMetricsService, customerRFMService } from '../../services/customer';
+import { extractOrderAttribution } from '../../services/customer/attribution';
 import { supabase } from '../../services/supabase';
 import { updateLastSync } from './sync';
 import { 
   safeUpdateProgress, 
-  formatDateForAPI, 
   chunkArray,
-  processBatches,
   filterObjectToSchema
 } from './utils';
 
-// Extract information from order metadata
+// Build acquisition data from the UTM values stored on the first order
 const extractAcquisitionData = (customer: any, firstOrder: any) => {
-  const acquisitionData = {
+  const attribution = extractOrderAttribution(firstOrder);
+  
+  return {
     customer_id: customer.id,
-    source: 'direct', // Default source
-    medium: 'website', // Default medium
-    campaign: '',
+    source: attribution.utm_source || 'direct', // Default source
+    medium: attribution.utm_medium || 'website', // Default medium
+    campaign: attribution.utm_campaign || '',
     first_order_id: firstOrder?.id || null,
     first_order_date: firstOrder?.date_created || null
   };
-  
-  // Try to extract UTM parameters from order metadata
-  if (firstOrder?.meta_data && Array.isArray(firstOrder.meta_data)) {
-    const utmSource = firstOrder.meta_data.find((meta: any) => meta.key === '_utm_source');
-    const utmMedium = firstOrder.meta_data.find((meta: any) => meta.key === '_utm_medium');
-    const utmCampaign = firstOrder.meta_data.find((meta: any) => meta.key === '_utm_campaign');
-    
-    if (utmSource && utmSource.value) {
-      acquisitionData.source = utmSource.value;
-    }
-    
-    if (utmMedium && utmMedium.value) {
-      acquisitionData.medium = utmMedium.value;
-    }
-    
-    if (utmCampaign && utmCampaign.value) {
-      acquisitionData.campaign = utmCampaign.value;
-    }
-  }
-  
-  return acquisitionData;
 };
 
 // Fetch all customers with pagination
@@ -113,175 +93,34 @@ const fetchAllCustomers = async (progressCallback?: (progress: number) => void):
   }
 };
 
-// Fetch all orders for a customer
-const fetchCustomerOrders = async (customerId: number): Promise<any[]> => {
-  const client = await createWooCommerceClient();
-  let allOrders: any[] = [];
-  
-  try {
-    // First request to get total count
-    const initialResponse = await client.get('/orders', {
-      params: {
-        customer: customerId,
-        per_page: 100,
-        page: 1
-      }
-    });
-    
-    // Get total pages from response headers
-    const totalPages = parseInt(initialResponse.headers['x-wp-totalpages'] || '1', 10);
-    
-    // Add first page results
-    allOrders = allOrders.concat(initialResponse.data);
-    
-    // Fetch remaining pages
-    for (let page = 2; page <= totalPages; page++) {
-      const response = await client.get('/orders', {
-        params: {
-          customer: customerId,
-          per_page: 100,
-          page
-        }
-      });
-      
-      allOrders = allOrders.concat(response.data);
-      
-      // Small delay to avoid rate limiting
-      await new Promise(resolve => setTimeout(resolve, 300));
-    }
-    
-    return allOrders;
-  } catch (error) {
-    console.error(`Error fetching orders for customer ${customerId}:`, error);
-    return [];
-  }
-};
+// Customer fields read from WooCommerce, the metrics are computed from stored orders
+type CustomerProfile = Omit<Customer, 'total_spent' | 'order_count' | 'average_order_value'>;
 
-// Process customer data before saving
-const processCustomerData = async (customer: any): Promise<Customer> => {
-  try {
-    // Get customer orders
-    const orders = await fetchCustomerOrders(customer.id);
-    
-    // Calculate metrics
-    const orderCount = orders.length;
-    const totalSpent = orders.reduce((sum, order) => sum + parseFloat(order.total || '0'), 0);
-    const averageOrderValue = orderCount > 0 ? totalSpent / orderCount : 0;
-    
-    // Find first and last order dates
-    let firstOrderDate: Date | undefined;
-    let lastOrderDate: Date | undefined;
-    
-    if (orders.length > 0) {
-      // Sort orders by date
-      const sortedOrders = [...orders].sort((a, b) => {
-        const aDate = new Date(a.date_created);
-        const bDate = new Date(b.date_created);
-        return aDate.getTime() - bDate.getTime();
-      });
-      
-      firstOrderDate = new Date(sortedOrders[0].date_created);
-      lastOrderDate = new Date(sortedOrders[sortedOrders.length - 1].date_created);
-    }
-    
-    // Calculate customer segment
-    // Default to 'new' if they have fewer than 2 orders
-    // Otherwise 'active' if ordered in the last 90 days
-    // 'at-risk' if last order was 91-180 days ago
-    // 'lost' if last order was more than 180 days ago
-    let customerSegment = 'new';
-    
-    if (lastOrderDate) {
-      const now = new Date();
-      const daysSinceLastOrder = Math.floor((now.getTime() - lastOrderDate.getTime()) / (1000 * 60 * 60 * 24));
-      
-      if (orderCount >= 4 && daysSinceLastOrder <= 180) {
-        customerSegment = 'loyal';
-      } else if (daysSinceLastOrder <= 90) {
-        customerSegment = 'active';
-      } else if (daysSinceLastOrder <= 180) {
-        customerSegment = 'at-risk';
-      } else {
-        customerSegment = 'lost';
-      }
-    }
-    
-    // Prepare processed customer data
-    const processedCustomer: Customer = {
-      id: customer.id,
-      email: customer.email,
-      first_name: customer.first_name,
-      last_name: customer.last_name,
-      username: customer.username,
-      date_created: customer.date_created ? new Date(customer.date_created) : undefined,
-      date_modified: customer.date_modified ? new Date(customer.date_modified) : undefined,
-      role: customer.role,
-      last_order_date: lastOrderDate,
-      first_order_date: firstOrderDate,
-      total_spent: totalSpent,
-      order_count: orderCount,
-      average_order_value: averageOrderValue,
-      customer_segment: customerSegment,
-      last_sync_date: new Date()
-    };
-    
-    return processedCustomer;
-  } catch (error) {
-    console.error(`Error processing customer ${customer.id}:`, error);
-    
-    // Return basic customer data even if there was an error
-    return {
-      id: customer.id,
-      email: customer.email,
-      first_name: customer.first_name,
-      last_name: customer.last_name,
-      total_spent: 0,
-      order_count: 0,
-      average_order_value: 0,
-      customer_segment: 'new',
-      last_sync_date: new Date()
-    };
-  }
-};
+// Map a WooCommerce customer to its profile fields
+// Order totals, dates and segment come from the orders table, see customerMetricsService
+const processCustomerData = (customer: any): CustomerProfile => ({
+  id: customer.id,
+  email: customer.email,
+  first_name: customer.first_name,
+  last_name: customer.last_name,
+  username: customer.username,
+  date_created: customer.date_created ? new Date(customer.date_created) : undefined,
+  date_modified: customer.date_modified ? new Date(customer.date_modified) : undefined,
+  role: customer.role,
+  last_sync_date: new Date()
+});
 
 // Sync customers from WooCommerce API
-export const syncCustomers = async (progressCallback?: (progress: number) => void): Promise<Customer[]> => {
+export const syncCustomers = async (progressCallback?: (progress: number) => void): Promise<CustomerProfile[]> => {
   try {
     // Fetch all customers from WooCommerce API
     const rawCustomers = await fetchAllCustomers(progressCallback);
+    const processedCustomers = rawCustomers.map(processCustomerData);
     
-    // Get existing customers from database
-    const { data: existingCustomers = [] } = await customerBasicService.supabase
-      .from('customers')
-      .select('*');
-    
-    // Create map of existing customers by ID for quick lookup
-    const existingCustomersMap = new Map();
-    existingCustomers.forEach((c: Customer) => {
-      existingCustomersMap.set(c.id, c);
-    });
-    
-    // Process customers in batches
-    const processedCustomers = await processBatches<any, Customer>(
-      rawCustomers,
-      async (batch) => {
-        const results: Customer[] = [];
-        for (const customer of batch) {
-          const processed = await processCustomerData(customer);
-          results.push(processed);
-        }
-        return results;
-      },
-      20,
-      50, // Add 50ms delay between batches
-      (progress: number) => safeUpdateProgress(progressCallback, Math.floor(progress * 0.8))
-    );
-    
-    // Save processed customers to database
+    // Only profile fields are written, so the upsert never overwrites computed metrics
     const allowedFields = [
       'id', 'email', 'first_name', 'last_name', 'username', 'date_created', 'date_modified',
-      'role', 'last_order_date', 'total_spent', 'order_count', 'average_order_value',
-      'first_order_date', 'customer_segment', 'metadata', 'last_sync_date'
+      'role', 'metadata', 'last_sync_date'
     ];
     
     // Insert or update customers in batches
@@ -299,6 +138,14 @@ export const syncCustomers = async (progressCallback?: (progress: number) => voi
       }
     }
     
+    // Merge guests who now have an account and add profiles for new guest emails
+    safeUpdateProgress(progressCallback, 81);
+    await customerIdentityService.resolveGuestCustomers();
+    
+    // Recompute totals, order dates and segments from the synced orders in one pass
+    safeUpdateProgress(progressCallback, 82);
+    await customerMetricsService.recomputeMetrics();
+    
     // Now process acquisition data after customers are saved
     safeUpdateProgress(progressCallback, 85);
     console.log("Processing acquisition data...");
@@ -338,6 +185,9 @@ export const syncCustomers = async (progressCallback?: (progress: number) => voi
     
     await processAcquisitionData();
     
+    // Share tagged marketing spend across the customers it acquired
+    await customerAttributionService.updateAcquisitionCosts();
+    
     // Update last sync timestamp
     await updateLastSync('customers');
     
@@ -347,8 +197,8 @@ export const syncCustomers = async (progressCallback?: (progress: number) => voi
     // Calculate RFM scores
     await customerRFMService.calculateRFMScores();
     
-    // Update customer segments based on RFM
-    await customerRFMService.updateCustomerSegments();
+    // Fit the lifetime value model on the recomputed order history
+    await customerCLVService.calculatePredictions();
     
     return processedCustomers;
   } catch (error) {
@@ -5,7 +5,9 @@ import { ApiCredentials, Order, Product, InventoryItem } from '../../types';
 export * from './credentials';
 export * from './products';
 export * from './orders';
+export * from './refunds';
 export * from './inventory';
+export * from './stockLevels';
 export * from './overhead';
 export * from './sync';
 export * from './utils';
@@ -0,0 +1,154 @@
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../supabase', async () => {
+  const { fakeSupabase } = await import('../../test/pgliteSupabase');
+  return { supabase: fakeSupabase, supabaseAdmin: null };
+});
+
+// The webhook receiver builds its own client from the service role key
+vi.mock('@supabase/supabase-js', async () => {
+  const { fakeSupabase } = await import('../../test/pgliteSupabase');
+  return { createClient: () => fakeSupabase };
+});
+
+vi.mock('../customer', async importOriginal => ({
+  ...await importOriginal<typeof import('../customer')>(),
+  customerIdentityService: {
+    getOrderCustomerIds: async () => new Map(),
+    resolveGuestCustomers: async () => []
+  },
+  customerMetricsService: {
+    recomputeMetrics: async () => 0
+  }
+}));
+
+import { db } from '../../test/pgliteSupabase';
+import { FakeWooCommerce, startFakeWooCommerce } from '../../test/fakeWooCommerce';
+import { POST as receiveWebhook } from '../../../api/woocommerce-webhook';
+import { processPendingWebhookEvents, syncOrdersIncremental } from './orders';
+
+const SCHEMA = `
+  CREATE TABLE api_credentials (id BIGSERIAL PRIMARY KEY, store_url TEXT, key TEXT, secret TEXT);
+  CREATE TABLE last_sync (id BIGSERIAL PRIMARY KEY, type TEXT, timestamp TIMESTAMPTZ, created_at TIMESTAMPTZ, updated_at TIMESTAMPTZ);
+  CREATE TABLE products (id BIGINT PRIMARY KEY, name TEXT, sku TEXT, cost_price NUMERIC);
+  CREATE TABLE product_variations (id BIGINT PRIMARY KEY, parent_id BIGINT, sku TEXT, cost_price NUMERIC);
+  CREATE TABLE orders (
+    id BIGINT PRIMARY KEY, number TEXT, date_created TIMESTAMPTZ, status TEXT, total NUMERIC, subtotal NUMERIC,
+    total_tax NUMERIC, shipping_total NUMERIC, discount_total NUMERIC, customer_id BIGINT, billing JSONB,
+    utm_source TEXT, utm_medium TEXT, utm_campaign TEXT, customer_note TEXT, payment_method TEXT, payment_method_title TEXT,
+    line_items JSONB, shipping_lines JSONB, fee_lines JSONB, coupon_lines JSONB, refunds JSONB,
+    created_at TIMESTAMPTZ, updated_at TIMESTAMPTZ, profit NUMERIC, margin NUMERIC
+  );
+  CREATE TABLE order_webhook_events (
+    id BIGSERIAL PRIMARY KEY, topic TEXT NOT NULL, order_id BIGINT NOT NULL, payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+    received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(), processed_at TIMESTAMPTZ
+  );
+  CREATE TABLE stock_movements (
+    id BIGSERIAL PRIMARY KEY, sku TEXT, product_id BIGINT, variation_id BIGINT, movement_date TIMESTAMPTZ,
+    quantity INTEGER, movement_type TEXT, reason TEXT, reference_id TEXT, notes TEXT, location_id BIGINT, created_at TIMESTAMPTZ
+  );
+  CREATE TABLE stock_movement_batches (
+    id BIGSERIAL PRIMARY KEY, stock_movement_id BIGINT, product_expiry_id BIGINT, sku TEXT, batch_number TEXT,
+    expiry_date TIMESTAMPTZ, quantity INTEGER, movement_type TEXT, movement_date TIMESTAMPTZ, reference_id TEXT, created_at TIMESTAMPTZ
+  );
+`;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const storedOrderNumbers = async () =>
+  (await db.query<{ number: string }>('SELECT number FROM orders ORDER BY id')).rows.map(row => row.number);
+
+const reversals = async (orderNumber: string) =>
+  (await db.query<{ sku: string; quantity: number; notes: string }>(
+    "SELECT sku, quantity, notes FROM stock_movements WHERE reference_id = $1 AND reason = 'cancellation'",
+    [orderNumber]
+  )).rows;
+
+// Sale movements as Process Orders & Refresh posts them
+const addSale = (orderNumber: string) => db.query(
+  "INSERT INTO stock_movements (sku, product_id, movement_date, quantity, movement_type, reference_id) VALUES ('TEST-1', 1, NOW(), -1, 'sale', $1)",
+  [orderNumber]
+);
+
+describe('incremental order sync against a fake WooCommerce store', () => {
+  let store: FakeWooCommerce;
+  let receiver: http.Server;
+
+  beforeAll(async () => {
+    vi.stubEnv('WOOCOMMERCE_WEBHOOK_SECRET', 'secret');
+    vi.stubEnv('SUPABASE_URL', 'http://supabase.test');
+    vi.stubEnv('SUPABASE_SERVICE_ROLE_KEY', 'service-role');
+
+    // Hand the fake store's webhook deliveries to the Vercel function
+    receiver = http.createServer(async (req, res) => {
+      let body = '';
+      for await (const chunk of req) body += chunk;
+      const response = await receiveWebhook(new Request('http://localhost/api/woocommerce-webhook', {
+        method: 'POST',
+        headers: req.headers as Record<string, string>,
+        body
+      }));
+      res.writeHead(response.status);
+      res.end(await response.text());
+    });
+    await new Promise<void>(resolve => receiver.listen(0, resolve));
+    const { port } = receiver.address() as AddressInfo;
+
+    store = await startFakeWooCommerce({ WEBHOOK_URL: `http://localhost:${port}/api/woocommerce-webhook`, WEBHOOK_SECRET: 'secret' });
+
+    await db.exec(SCHEMA);
+    await db.query('INSERT INTO api_credentials (store_url, key, secret) VALUES ($1, $2, $3)', [store.url, 'ck_test', 'cs_test']);
+    await db.query("INSERT INTO products (id, name, sku, cost_price) VALUES (1, 'Test Product', 'TEST-1', 10)");
+  });
+
+  afterAll(async () => {
+    store.stop();
+    await new Promise(resolve => receiver.close(resolve));
+    vi.unstubAllEnvs();
+  });
+
+  it('re-reads the hours a legacy orders sync time was shifted ahead on the first run', async () => {
+    // Saved 13 hours ahead by the old NZ conversion, a cursor taken as is would skip every order
+    await db.query("INSERT INTO last_sync (type, timestamp) VALUES ('orders', $1)", [new Date(Date.now() + 13 * HOUR_MS)]);
+
+    const result = await syncOrdersIncremental();
+
+    expect(result.saved).toBe(5);
+    expect(await storedOrderNumbers()).toEqual(['1000', '1001', '1002', '1003', '1004']);
+    const cursor = await db.query<{ timestamp: Date }>("SELECT timestamp FROM last_sync WHERE type = 'orders_modified'");
+    expect(cursor.rows[0].timestamp.getTime()).toBeLessThanOrEqual(Date.now());
+  });
+
+  it('removes trashed orders and gives back the stock their sales took', async () => {
+    await addSale('1000');
+    await store.control('PUT', '/__fake/orders/1000', { status: 'trash' });
+
+    // The store's order.updated webhook and the trashed order query both see it
+    await syncOrdersIncremental();
+
+    expect(await storedOrderNumbers()).not.toContain('1000');
+    expect(await reversals('1000')).toEqual([{ sku: 'TEST-1', quantity: 1, notes: 'Order #1000 deleted, sale reversed' }]);
+
+    // Running again finds nothing new and does not reverse twice
+    await syncOrdersIncremental();
+    expect(await reversals('1000')).toHaveLength(1);
+  });
+
+  it('applies queued webhook deliveries once', async () => {
+    await addSale('1001');
+    const created = await store.control<{ number: string }>('POST', '/__fake/orders', { status: 'completed' });
+    await store.control('DELETE', '/__fake/orders/1001');
+
+    const queued = await db.query<{ topic: string }>('SELECT topic FROM order_webhook_events WHERE processed_at IS NULL ORDER BY id');
+    expect(queued.rows.map(row => row.topic)).toEqual(['order.created', 'order.deleted']);
+
+    expect(await processPendingWebhookEvents()).toEqual({ saved: 1, deleted: 1 });
+    expect(await storedOrderNumbers()).toContain(created.number);
+    expect(await storedOrderNumbers()).not.toContain('1001');
+    expect(await reversals('1001')).toHaveLength(1);
+
+    expect(await processPendingWebhookEvents()).toEqual({ saved: 0, deleted: 0 });
+  });
+});
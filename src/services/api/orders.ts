@@ -1,14 +1,22 @@
-import { Order } from '../../types';
+import { Order, OrderWebhookEvent } from '../../types';
 import { createWooCommerceClient } from './credentials';
-import { ordersService, productsService, productVariationsService } from '../../services';
+import { ordersService, productsService, productVariationsService, syncService } from '../../services';
+import { invalidateReconciliationCache } from '../../db/operations/stockReconciliation';
+import { reverseOrderSales } from '../../db/operations/orders/processOrderStockMovements';
+import { customerIdentityService, customerMetricsService } from '../../services/customer';
+import { isGuestOrder, normalizeCustomerEmail } from '../../services/customer/identity';
+import { extractOrderAttribution } from '../../services/customer/attribution';
 import { supabase } from '../../services/supabase';
 import { updateLastSync } from './sync';
+import { attachRefundsToOrders } from './refunds';
+import { getOrderRefundTotal } from '../pnl/refundCalculations';
+import { formatInStoreTimezone } from '../../utils/dateUtils';
 import { format, startOfMonth, endOfMonth, eachMonthOfInterval, parseISO, addDays } from 'date-fns';
 import { 
   safeUpdateProgress, 
   formatDateForAPI, 
   chunkArray, 
-  convertToNZTimezone,
+  parseStoreDate,
   processBatches,
   filterObjectToSchema,
   sanitizeJsonbFields
@@ -53,9 +61,9 @@ export const processOrdersWithVariations = async (orders: any[]): Promise<Order[
       };
     });
     
-    // Convert dates to NZ timezone
-    const dateCreated = order.date_created ? convertToNZTimezone(order.date_created) : null;
-    const dateCompleted = order.date_completed ? convertToNZTimezone(order.date_completed) : null;
+    // Resolve store-timezone dates to the moment they happened
+    const dateCreated = order.date_created ? parseStoreDate(order.date_created) : null;
+    const dateCompleted = order.date_completed ? parseStoreDate(order.date_completed) : null;
     
     return {
       ...order,
@@ -66,6 +74,42 @@ export const processOrdersWithVariations = async (orders: any[]): Promise<Order[
   });
 };
 
+// Minimal shape of an order as returned by the WooCommerce REST API
+interface WooOrderPayload {
+  id: number;
+  number?: string;
+  status?: string;
+  date_created?: string;
+  date_modified_gmt?: string;
+  line_items?: Array<{ id: number; meta_data?: Array<{ key: string; value: unknown }> }>;
+  refunds?: unknown;
+  [key: string]: unknown;
+}
+
+// Attach full refund records and store-timezone display dates to orders fetched from WooCommerce
+const prepareFetchedOrders = async <T extends WooOrderPayload>(orders: T[]) => {
+  // Pull full refund records for orders that have been refunded
+  const ordersWithRefunds = await attachRefundsToOrders(orders);
+  
+  // Format dates in the store timezone
+  return ordersWithRefunds.map(order => {
+    const dateCreated = order.date_created ? parseStoreDate(order.date_created) : null;
+    let dateCreatedNZ = '';
+    let dateCreatedDisplay = 'N/A';
+    
+    if (isValidDate(dateCreated)) {
+      dateCreatedNZ = dateCreated.toISOString();
+      dateCreatedDisplay = formatInStoreTimezone(dateCreated, 'dd/MM/yyyy h:mm a');
+    }
+    
+    return {
+      ...order,
+      date_created_nz: dateCreatedNZ,
+      date_created_display: dateCreatedDisplay
+    };
+  });
+};
+
 // Fetch all orders with pagination and optimized for large datasets
 const fetchAllOrders = async (startDate?: string, endDate?: string, progressCallback?: (progress: number) => void): Promise<any[]> => {
   const client = await createWooCommerceClient();
@@ -190,26 +234,8 @@ const fetchAllOrders = async (startDate?: string, endDate?: string, progressCall
       allOrders = [...allOrders, ...batchResults.flat()];
     }
     
-    // Convert dates to NZ timezone
-    allOrders = allOrders.map(order => {
-      const dateCreated = order.date_created ? createSafeDate(order.date_created) : null;
-      let dateCreatedNZ = '';
-      let dateCreatedDisplay = 'N/A';
-      
-      if (isValidDate(dateCreated)) {
-        const tzDate = convertToNZTimezone(dateCreated);
-        if (tzDate) {
-          dateCreatedNZ = tzDate.toISOString();
-          dateCreatedDisplay = format(tzDate, 'dd/MM/yyyy h:mm a');
-        }
-      }
-      
-      return {
-        ...order,
-        date_created_nz: dateCreatedNZ,
-        date_created_display: dateCreatedDisplay
-      };
-    });
+    // Pull full refund records and add NZ display dates
+    allOrders = await prepareFetchedOrders(allOrders);
     
     return allOrders;
   } catch (error) {
@@ -700,6 +726,14 @@ export const hasDecemberOrders = async (year: number): Promise<boolean> => {
   }
 };
 
+const getDateTime = (date: Date | string | null | undefined): number | null =>
+  date ? new Date(date).getTime() : null;
+
+// Whether the stored created or completed date differs from the store's
+const orderDatesDiffer = (existingOrder: Order, apiOrder: Order): boolean =>
+  getDateTime(existingOrder.date_created) !== getDateTime(apiOrder.date_created) ||
+  getDateTime(existingOrder.date_completed) !== getDateTime(apiOrder.date_completed);
+
 // Sync orders for a custom date range
 export const syncOrdersByDateRange = async (startDate: string, endDate: string, progressCallback?: (progress: number) => void): Promise<Order[]> => {
   try {
@@ -753,10 +787,18 @@ export const syncOrdersByDateRange = async (startDate: string, endDate: string,
         // Status has changed, update this order
         console.log(`Order #${apiOrder.number} status changed from ${existingOrder.status} to ${apiOrder.status}`);
         ordersToUpdate.push(apiOrder);
+      } else if (getOrderRefundTotal(existingOrder) !== getOrderRefundTotal(apiOrder)) {
+        // A refund has been added since the last sync
+        console.log(`Order #${apiOrder.number} refunds changed`);
+        ordersToUpdate.push(apiOrder);
+      } else if (orderDatesDiffer(existingOrder, apiOrder)) {
+        // Dates saved before the store timezone setting can be hours off
+        console.log(`Order #${apiOrder.number} dates changed`);
+        ordersToUpdate.push(apiOrder);
       }
     }
     
-    console.log(`Found ${newOrders.length} new orders and ${ordersToUpdate.length} orders with status changes`);
+    console.log(`Found ${newOrders.length} new orders and ${ordersToUpdate.length} orders with changes`);
     
     // Only save orders that are new or have status changes
     const ordersToSave = [...newOrders, ...ordersToUpdate];
@@ -793,56 +835,8 @@ export const syncOrdersByDateRange = async (startDate: string, endDate: string,
       
       safeUpdateProgress(progressCallback, 80);
       
-      // Define allowed fields and prepare orders for insertion
-      const allowedFields = [
-        'id', 'number', 'date_created', 'status', 'total', 'subtotal', 'total_tax',
-        'shipping_total', 'discount_total', 'customer_id', 'customer_note',
-        'payment_method', 'payment_method_title', 'line_items', 'shipping_lines',
-        'fee_lines', 'coupon_lines', 'created_at', 'profit', 'margin'
-      ];
-      
-      const jsonbFields = ['line_items', 'shipping_lines', 'fee_lines', 'coupon_lines'];
-      
       // Filter and sanitize orders
-      const filteredOrders = processedOrders.map(order => {
-        // Sanitize numeric fields
-        const sanitizedOrder = sanitizeNumericFields(order);
-        
-        // Sanitize JSONB fields
-        const jsonbSanitizedOrder = sanitizeJsonbFields(sanitizedOrder, jsonbFields);
-        
-        // Calculate profit and margin
-        if (jsonbSanitizedOrder.line_items && Array.isArray(jsonbSanitizedOrder.line_items)) {
-          let totalProfit = 0;
-          let totalRevenue = 0;
-          
-          jsonbSanitizedOrder.line_items.forEach((item: any) => {
-            const itemTotal = Number(item.total) || 0;
-            const costPrice = Number(item.cost_price) || 0;
-            const quantity = Number(item.quantity) || 0;
-            const itemCost = costPrice * quantity;
-            const itemProfit = itemTotal - itemCost;
-            
-            item.profit = itemProfit;
-            item.margin = itemTotal > 0 ? (itemProfit / itemTotal) * 100 : 0;
-            
-            totalProfit += itemProfit;
-            totalRevenue += itemTotal;
-          });
-          
-          jsonbSanitizedOrder.profit = totalProfit;
-          jsonbSanitizedOrder.margin = totalRevenue > 0 ? (totalProfit / totalRevenue) * 100 : 0;
-        }
-        
-        // Ensure required fields are present
-        const filtered = filterObjectToSchema(jsonbSanitizedOrder, allowedFields);
-        
-        if (!filtered.number) filtered.number = order.number;
-        if (!filtered.date_created && order.date_created) filtered.date_created = order.date_created;
-        if (!filtered.status) filtered.status = order.status;
-        
-        return filtered as Omit<Order, 'id'>;
-      });
+      const filteredOrders = processedOrders.map(prepareOrderForSave);
       
       // Insert orders in batches
       let insertedCount = 0;
@@ -858,6 +852,8 @@ export const syncOrdersByDateRange = async (startDate: string, endDate: string,
       
       console.log(`Successfully saved ${insertedCount} orders to Supabase`);
       
+      await recomputeCustomerMetrics(getOrderCustomerIds(processedOrders), getGuestOrderEmails(processedOrders));
+      
       // Update last sync timestamp
       await updateLastSync('orders');
     } else {
@@ -967,6 +963,127 @@ const processOrderBeforeSave = async (order: Order): Promise<Order | null> => {
   }
 };
 
+// Order columns that exist in the database schema
+const ORDER_FIELDS = [
+  'id',
+  'number',
+  'date_created',
+  'status',
+  'total',
+  'subtotal',
+  'total_tax',
+  'shipping_total',
+  'discount_total',
+  'customer_id',
+  'billing',
+  'utm_source',
+  'utm_medium',
+  'utm_campaign',
+  'customer_note',
+  'payment_method',
+  'payment_method_title',
+  'line_items',
+  'shipping_lines',
+  'fee_lines',
+  'coupon_lines',
+  'refunds',
+  'created_at',
+  'profit',
+  'margin'
+];
+
+// Order columns stored as JSONB
+const ORDER_JSONB_FIELDS = [
+  'line_items',
+  'billing',
+  'shipping_lines',
+  'fee_lines',
+  'coupon_lines',
+  'refunds'
+];
+
+// Sanitize an order and reduce it to the database columns, with profit and margin filled in
+const prepareOrderForSave = (order: Order): Omit<Order, 'id'> => {
+  // Sanitize numeric fields first
+  const sanitizedOrder = sanitizeNumericFields(order);
+  
+  // Sanitize JSONB fields
+  const jsonbSanitizedOrder = sanitizeJsonbFields(sanitizedOrder, ORDER_JSONB_FIELDS);
+  
+  // Calculate profit and margin
+  if (jsonbSanitizedOrder.line_items && Array.isArray(jsonbSanitizedOrder.line_items)) {
+    let totalProfit = 0;
+    let totalRevenue = 0;
+    
+    jsonbSanitizedOrder.line_items.forEach((item: any) => {
+      const itemTotal = Number(item.total) || 0;
+      const costPrice = Number(item.cost_price) || 0;
+      const quantity = Number(item.quantity) || 0;
+      const itemCost = costPrice * quantity;
+      const itemProfit = itemTotal - itemCost;
+      
+      // Update the line item with profit and margin
+      item.profit = itemProfit;
+      item.margin = itemTotal > 0 ? (itemProfit / itemTotal) * 100 : 0;
+      
+      totalProfit += itemProfit;
+      totalRevenue += itemTotal;
+    });
+    
+    // Set order profit and margin
+    jsonbSanitizedOrder.profit = totalProfit;
+    jsonbSanitizedOrder.margin = totalRevenue > 0 ? (totalProfit / totalRevenue) * 100 : 0;
+  }
+  
+  // Keep the UTM values from the meta data, which is not stored itself
+  Object.assign(jsonbSanitizedOrder, extractOrderAttribution(order));
+  
+  // Ensure required fields are present
+  const filtered = filterObjectToSchema(jsonbSanitizedOrder, ORDER_FIELDS);
+  
+  // Make sure required fields are present
+  if (!filtered.number) {
+    filtered.number = order.number;
+    console.warn(`Order ${order.id} was missing 'number' field, added from original order`);
+  }
+  if (!filtered.date_created && order.date_created) {
+    filtered.date_created = order.date_created;
+    console.warn(`Order ${order.id} was missing 'date_created' field, added from original order`);
+  }
+  if (!filtered.status) {
+    filtered.status = order.status;
+    console.warn(`Order ${order.id} was missing 'status' field, added from original order`);
+  }
+  
+  return filtered as Omit<Order, 'id'>;
+};
+
+// Customer IDs of orders, guest orders have no customer
+const getOrderCustomerIds = (orders: Array<{ customer_id?: number }>): number[] =>
+  Array.from(new Set(orders.map(order => order.customer_id || 0).filter(id => id > 0)));
+
+// Billing emails of guest orders, which identify guest customers
+const getGuestOrderEmails = (orders: Order[]): string[] =>
+  Array.from(new Set(orders
+    .filter(isGuestOrder)
+    .map(order => normalizeCustomerEmail(order.billing?.email))
+    .filter((email): email is string => !!email)));
+
+// Recompute the stored metrics of customers whose orders changed
+// Guest emails are resolved to guest profiles first, creating them for new guests
+// A failure is logged but never fails the order sync, the next customer sync recomputes everyone
+const recomputeCustomerMetrics = async (customerIds: number[], guestEmails: string[] = []): Promise<void> => {
+  if (customerIds.length === 0 && guestEmails.length === 0) return;
+  
+  try {
+    const guestCustomerIds = await customerIdentityService.resolveGuestCustomers(guestEmails);
+    const updated = await customerMetricsService.recomputeMetrics([...customerIds, ...guestCustomerIds]);
+    console.log(`Recomputed metrics for ${updated} customers`);
+  } catch (error) {
+    console.warn('Could not recompute customer metrics after saving orders:', error);
+  }
+};
+
 // Save orders to Supabase
 const saveOrdersToSupabase = async (orders: Order[]): Promise<void> => {
   try {
@@ -1006,91 +1123,9 @@ const saveOrdersToSupabase = async (orders: Order[]): Promise<void> => {
       }
     }
     
-    // Define allowed fields based on database schema
-    const allowedFields = [
-      'id',
-      'number',
-      'date_created',
-      'status',
-      'total',
-      'subtotal',
-      'total_tax',
-      'shipping_total',
-      'discount_total',
-      'customer_id',
-      'customer_note',
-      'payment_method',
-      'payment_method_title',
-      'line_items',
-      'shipping_lines',
-      'fee_lines',
-      'coupon_lines',
-      'created_at',
-      'profit',
-      'margin'
-    ];
-    
-    // Define JSONB fields
-    const jsonbFields = [
-      'line_items',
-      'shipping_lines',
-      'fee_lines',
-      'coupon_lines'
-    ];
-    
     // Filter orders to only include fields that exist in the database schema
     console.log('Filtering and sanitizing orders for database insertion');
-    const filteredOrders = processedOrders.map(order => {
-      // Sanitize numeric fields first
-      const sanitizedOrder = sanitizeNumericFields(order);
-      
-      // Sanitize JSONB fields
-      const jsonbSanitizedOrder = sanitizeJsonbFields(sanitizedOrder, jsonbFields);
-      
-      // Calculate profit and margin
-      if (jsonbSanitizedOrder.line_items && Array.isArray(jsonbSanitizedOrder.line_items)) {
-        let totalProfit = 0;
-        let totalRevenue = 0;
-        
-        jsonbSanitizedOrder.line_items.forEach((item: any) => {
-          const itemTotal = Number(item.total) || 0;
-          const costPrice = Number(item.cost_price) || 0;
-          const quantity = Number(item.quantity) || 0;
-          const itemCost = costPrice * quantity;
-          const itemProfit = itemTotal - itemCost;
-          
-          // Update the line item with profit and margin
-          item.profit = itemProfit;
-          item.margin = itemTotal > 0 ? (itemProfit / itemTotal) * 100 : 0;
-          
-          totalProfit += itemProfit;
-          totalRevenue += itemTotal;
-        });
-        
-        // Set order profit and margin
-        jsonbSanitizedOrder.profit = totalProfit;
-        jsonbSanitizedOrder.margin = totalRevenue > 0 ? (totalProfit / totalRevenue) * 100 : 0;
-      }
-      
-      // Ensure required fields are present
-      const filtered = filterObjectToSchema(jsonbSanitizedOrder, allowedFields);
-      
-      // Make sure required fields are present
-      if (!filtered.number) {
-        filtered.number = order.number;
-        console.warn(`Order ${order.id} was missing 'number' field, added from original order`);
-      }
-      if (!filtered.date_created && order.date_created) {
-        filtered.date_created = order.date_created;
-        console.warn(`Order ${order.id} was missing 'date_created' field, added from original order`);
-      }
-      if (!filtered.status) {
-        filtered.status = order.status;
-        console.warn(`Order ${order.id} was missing 'status' field, added from original order`);
-      }
-      
-      return filtered as Omit<Order, 'id'>;
-    });
+    const filteredOrders = processedOrders.map(prepareOrderForSave);
     
     console.log(`Prepared ${filteredOrders.length} orders for insertion`);
     
@@ -1114,12 +1149,338 @@ const saveOrdersToSupabase = async (orders: Order[]): Promise<void> => {
     }
     
     console.log(`Successfully saved ${insertedCount} orders to Supabase`);
+    
+    await recomputeCustomerMetrics(getOrderCustomerIds(processedOrders), getGuestOrderEmails(processedOrders));
   } catch (error) {
     console.error('Error saving orders to Supabase:', error);
     throw error;
   }
 };
 
+// Last sync type that stores the incremental sync cursor (newest date_modified_gmt seen)
+const ORDERS_MODIFIED_SYNC_TYPE = 'orders_modified';
+
+// Re-read a minute before the cursor so orders modified in the same second are not missed
+const MODIFIED_CURSOR_OVERLAP_MS = 60 * 1000;
+
+// The orders last_sync was saved up to 13 hours ahead before the store timezone setting,
+// so the first incremental sync re-reads that far back instead of skipping those changes
+const LEGACY_ORDERS_SYNC_OVERLAP_MS = 14 * 60 * 60 * 1000;
+
+// Fetch every order modified after a GMT timestamp, oldest change first
+const fetchOrdersModifiedAfter = async (
+  modifiedAfter: string,
+  status?: string,
+  progressCallback?: (progress: number) => void
+): Promise<WooOrderPayload[]> => {
+  const client = await createWooCommerceClient();
+  
+  const params = {
+    per_page: 100,
+    modified_after: modifiedAfter,
+    dates_are_gmt: true,
+    orderby: 'modified',
+    order: 'asc',
+    ...(status ? { status } : {})
+  };
+  
+  const initialResponse = await client.get('/orders', { params: { ...params, page: 1 } });
+  const totalPages = parseInt(initialResponse.headers['x-wp-totalpages'] || '1', 10);
+  
+  console.log(`Found ${initialResponse.headers['x-wp-total'] || 0} orders${status ? ` with status ${status}` : ''} modified after ${modifiedAfter}`);
+  
+  const remainingPages = Array.from({ length: totalPages - 1 }, (_, i) => i + 2);
+  
+  // Page errors are not swallowed here, a missed page would move the cursor past unseen orders
+  const remainingOrders = await processBatches(
+    remainingPages,
+    async (pagesBatch: number[]) => {
+      const batchResults: WooOrderPayload[] = [];
+      for (const pageNum of pagesBatch) {
+        const response = await client.get('/orders', { params: { ...params, page: pageNum } });
+        batchResults.push(...response.data);
+      }
+      return batchResults;
+    },
+    3, // Process 3 pages at a time
+    300, // 300ms delay between batches
+    progressCallback
+  );
+  
+  return [...initialResponse.data, ...remainingOrders];
+};
+
+// Get the newest modification time from a set of WooCommerce orders
+const getLatestModifiedDate = (orders: WooOrderPayload[]): Date | null => {
+  let latest: Date | null = null;
+  
+  orders.forEach(order => {
+    const modified = order.date_modified_gmt ? createSafeDate(`${order.date_modified_gmt}Z`) : null;
+    if (isValidDate(modified) && (!latest || modified > latest)) {
+      latest = modified;
+    }
+  });
+  
+  return latest;
+};
+
+// Upsert orders so only the changed rows are written
+// Returns the customers and guest emails of the saved orders so their metrics can be recomputed
+const upsertOrdersToSupabase = async (
+  orders: Order[]
+): Promise<{ saved: number; customerIds: number[]; guestEmails: string[] }> => {
+  // Process each order to check for draft orders
+  const processedOrders: Order[] = [];
+  for (const order of orders) {
+    const processedOrder = await processOrderBeforeSave(order);
+    if (processedOrder) {
+      processedOrders.push(processedOrder);
+    }
+  }
+  
+  const preparedOrders = processedOrders.map(prepareOrderForSave);
+  
+  let savedCount = 0;
+  for (const batch of chunkArray(preparedOrders, 100)) {
+    const result = await ordersService.bulkAdd(batch);
+    savedCount += result.length;
+  }
+  
+  return {
+    saved: savedCount,
+    customerIds: getOrderCustomerIds(processedOrders),
+    guestEmails: getGuestOrderEmails(processedOrders)
+  };
+};
+
+// Get the customers of stored orders, including guest profiles, read before the orders are removed
+const getStoredOrderCustomerIds = async (orderIds: number[]): Promise<number[]> => {
+  const customerIds = await customerIdentityService.getOrderCustomerIds(orderIds);
+  return Array.from(new Set(customerIds.values()));
+};
+
+// Get the stored orders with these IDs, read before they are removed
+const getStoredOrders = async (orderIds: number[]): Promise<Order[]> => {
+  const orders: Order[] = [];
+  for (const batch of chunkArray(orderIds, 100)) {
+    const { data, error } = await supabase
+      .from('orders')
+      .select('id, number, status, line_items')
+      .in('id', batch);
+    
+    if (error) {
+      console.error('Error fetching stored orders:', error);
+      throw error;
+    }
+    orders.push(...(data || []) as Order[]);
+  }
+  
+  return orders;
+};
+
+// Remove orders from Supabase by ID
+const deleteOrdersFromSupabase = async (orderIds: number[]): Promise<number> => {
+  for (const batch of chunkArray(orderIds, 100)) {
+    const { error } = await supabase
+      .from('orders')
+      .delete()
+      .in('id', batch);
+    
+    if (error) {
+      console.error('Error deleting orders:', error);
+      throw error;
+    }
+  }
+  
+  return orderIds.length;
+};
+
+/**
+ * Apply changed and deleted WooCommerce orders to Supabase
+ * Shared by the incremental sync and the webhook queue. Trashed orders are removed like deleted ones,
+ * and the stock their sales took is given back.
+ */
+export const applyOrderChanges = async (
+  changedOrders: WooOrderPayload[],
+  deletedOrderIds: number[] = []
+): Promise<{ saved: number; deleted: number }> => {
+  try {
+    const trashedOrderIds = changedOrders
+      .filter(order => order.status === 'trash')
+      .map(order => order.id);
+    
+    const activeOrders = changedOrders.filter(order => order.status !== 'trash');
+    
+    let saved = 0;
+    const affectedCustomerIds: number[] = [];
+    const guestEmails: string[] = [];
+    if (activeOrders.length > 0) {
+      const preparedOrders = await prepareFetchedOrders(activeOrders);
+      const processedOrders = await processOrdersWithVariations(preparedOrders);
+      const result = await upsertOrdersToSupabase(processedOrders);
+      saved = result.saved;
+      affectedCustomerIds.push(...result.customerIds);
+      guestEmails.push(...result.guestEmails);
+    }
+    
+    const idsToDelete = Array.from(new Set([...deletedOrderIds, ...trashedOrderIds]));
+    let deleted = 0;
+    if (idsToDelete.length > 0) {
+      affectedCustomerIds.push(...await getStoredOrderCustomerIds(idsToDelete));
+      for (const order of await getStoredOrders(idsToDelete)) {
+        await reverseOrderSales({ ...order, status: 'deleted' });
+      }
+      deleted = await deleteOrdersFromSupabase(idsToDelete);
+    }
+    
+    if (saved > 0 || deleted > 0) {
+      // Sale movements are rebuilt from orders, so cached stock levels are stale
+      invalidateReconciliationCache();
+      await recomputeCustomerMetrics(Array.from(new Set(affectedCustomerIds)), guestEmails);
+    }
+    
+    console.log(`Applied order changes: ${saved} saved, ${deleted} deleted`);
+    
+    return { saved, deleted };
+  } catch (error) {
+    console.error('Error applying order changes:', error);
+    throw error;
+  }
+};
+
+/**
+ * Apply queued WooCommerce webhook deliveries
+ * Only the latest event for each order is applied
+ */
+export const processPendingWebhookEvents = async (): Promise<{ saved: number; deleted: number }> => {
+  try {
+    // Claim the pending events first, so another open session does not apply them too
+    const processedAt = new Date().toISOString();
+    const { data, error } = await supabase
+      .from('order_webhook_events')
+      .update({ processed_at: processedAt })
+      .is('processed_at', null)
+      .select();
+    
+    if (error) {
+      console.error('Error claiming webhook events:', error);
+      throw error;
+    }
+    
+    const events = ((data || []) as OrderWebhookEvent[])
+      .sort((a, b) => new Date(a.received_at).getTime() - new Date(b.received_at).getTime());
+    if (events.length === 0) {
+      return { saved: 0, deleted: 0 };
+    }
+    
+    console.log(`Processing ${events.length} queued webhook events`);
+    
+    // Later events for the same order replace earlier ones
+    const latestEvents = new Map<number, OrderWebhookEvent>();
+    events.forEach(event => latestEvents.set(event.order_id, event));
+    
+    const changedOrders: WooOrderPayload[] = [];
+    const deletedOrderIds: number[] = [];
+    
+    latestEvents.forEach(event => {
+      if (event.topic === 'order.deleted') {
+        deletedOrderIds.push(event.order_id);
+      } else {
+        changedOrders.push(event.payload as WooOrderPayload);
+      }
+    });
+    
+    try {
+      return await applyOrderChanges(changedOrders, deletedOrderIds);
+    } catch (applyError) {
+      // Release the claim so the events are applied again on the next run
+      for (const batch of chunkArray(events.map(event => event.id!), 100)) {
+        const { error: releaseError } = await supabase
+          .from('order_webhook_events')
+          .update({ processed_at: null })
+          .in('id', batch);
+        
+        if (releaseError) {
+          console.error('Error releasing webhook events:', releaseError);
+        }
+      }
+      throw applyError;
+    }
+  } catch (error) {
+    console.error('Error processing webhook events:', error);
+    throw error;
+  }
+};
+
+/**
+ * Sync only the orders that changed since the last incremental sync
+ * Uses WooCommerce's modified_after filter with a cursor kept in last_sync, and upserts instead of re-inserting
+ */
+export const syncOrdersIncremental = async (
+  progressCallback?: (progress: number) => void
+): Promise<{ saved: number; deleted: number }> => {
+  try {
+    safeUpdateProgress(progressCallback, 5);
+    
+    // Apply queued webhook deliveries first
+    let webhookResult = { saved: 0, deleted: 0 };
+    try {
+      webhookResult = await processPendingWebhookEvents();
+    } catch (error) {
+      console.warn('Skipping webhook events, continuing with incremental sync:', error);
+    }
+    
+    safeUpdateProgress(progressCallback, 15);
+    
+    // Start from the cursor, then the last full order sync, then the last 90 days
+    const cursorRecord = await syncService.getLastSyncByType(ORDERS_MODIFIED_SYNC_TYPE);
+    const ordersRecord = cursorRecord ? null : await syncService.getLastSyncByType('orders');
+    
+    let cursor: Date;
+    if (cursorRecord) {
+      cursor = new Date(cursorRecord.timestamp);
+    } else if (ordersRecord) {
+      cursor = new Date(new Date(ordersRecord.timestamp).getTime() - LEGACY_ORDERS_SYNC_OVERLAP_MS);
+    } else {
+      cursor = new Date();
+      cursor.setDate(cursor.getDate() - 90);
+    }
+    
+    const modifiedAfter = new Date(cursor.getTime() - MODIFIED_CURSOR_OVERLAP_MS).toISOString();
+    console.log(`Incremental order sync from ${modifiedAfter}`);
+    
+    // Trashed orders are not returned unless asked for explicitly
+    const changedOrders = await fetchOrdersModifiedAfter(modifiedAfter, undefined, (progress) => {
+      safeUpdateProgress(progressCallback, 15 + progress * 0.4); // 15-55% progress
+    });
+    const trashedOrders = await fetchOrdersModifiedAfter(modifiedAfter, 'trash');
+    
+    safeUpdateProgress(progressCallback, 60);
+    
+    const allChanges = [...changedOrders, ...trashedOrders];
+    const result = allChanges.length > 0
+      ? await applyOrderChanges(allChanges)
+      : { saved: 0, deleted: 0 };
+    
+    safeUpdateProgress(progressCallback, 90);
+    
+    // Move the cursor to the newest change seen, keeping the old one if nothing changed
+    const latestModified = getLatestModifiedDate(allChanges);
+    await syncService.updateLastSync(ORDERS_MODIFIED_SYNC_TYPE, latestModified || cursor);
+    await updateLastSync('orders');
+    
+    safeUpdateProgress(progressCallback, 100);
+    
+    return {
+      saved: result.saved + webhookResult.saved,
+      deleted: result.deleted + webhookResult.deleted
+    };
+  } catch (error) {
+    console.error('Error running incremental order sync:', error);
+    throw error;
+  }
+};
+
 // Helper function to safely handle null dates
 const isValidDate = (date: Date | null): date is Date => {
   return date !== null && date instanceof Date && !isNaN(date.getTime());
@@ -1247,4 +1608,29 @@ export const scheduleAutomaticDraftCleanup = (intervalHours: number = 24) => {
         console.error('Error during automatic draft cleanup:', error);
       });
   }, intervalHours * 60 * 60 * 1000); // Convert hours to milliseconds
-};
\ No newline at end of file
+};
+
+let webhookEventInterval: ReturnType<typeof setInterval> | null = null;
+
+// Apply queued webhook events on an interval while the app is open, so changes show up without a sync
+export const scheduleWebhookEventProcessing = (intervalMinutes: number = 1) => {
+  // The layout can mount more than once, only one loop is needed
+  if (webhookEventInterval) return;
+  
+  console.log(`Applying queued webhook events every ${intervalMinutes} minutes`);
+  
+  const applyQueued = () => {
+    processPendingWebhookEvents()
+      .then(result => {
+        if (result.saved > 0 || result.deleted > 0) {
+          console.log(`Applied webhook events: ${result.saved} orders saved, ${result.deleted} deleted`);
+        }
+      })
+      .catch(error => {
+        console.error('Error applying queued webhook events:', error);
+      });
+  };
+  
+  applyQueued();
+  webhookEventInterval = setInterval(applyQueued, intervalMinutes * 60 * 1000);
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from 'vitest';
+
+// Refunds are read through a stand-in client, order 3 cannot be read
+const get = vi.fn(async (path: string) => {
+  if (path === '/orders/3/refunds') throw new Error('Request failed with status code 500');
+  return { data: [{ id: 301, date_created: '2025-03-05T10:00:00', amount: '10.00', line_items: [] }] };
+});
+vi.mock('./credentials', () => ({ createWooCommerceClient: async () => ({ get }) }));
+
+import { attachRefundsToOrders, normalizeOrderRefunds } from './refunds';
+
+// Raw WooCommerce refund line item, quantities and totals are negative
+const refundLine = (id: number, refundedItemId: number, quantity: number) => ({
+  id,
+  product_id: 1,
+  sku: 'TEA-1',
+  quantity: -quantity,
+  total: String(-quantity * 10),
+  meta_data: [{ key: '_refunded_item_id', value: String(refundedItemId) }]
+});
+
+// An order of four teas, restockedUnits of them put back into stock when refunded
+const order = (restockedUnits: number) => ({
+  id: 1,
+  number: '1001',
+  line_items: [{
+    id: 11,
+    meta_data: restockedUnits > 0 ? [{ key: '_restock_refunded_items', value: String(restockedUnits) }] : []
+  }]
+});
+
+describe('normalizeOrderRefunds', () => {
+  it('marks a partial refund restocked when the line item records the restock', () => {
+    const [refund] = normalizeOrderRefunds(order(1), [
+      { id: 101, date_created: '2025-03-02T10:00:00', amount: '10.00', reason: 'Damaged', line_items: [refundLine(201, 11, 1)] }
+    ]);
+
+    expect(refund).toMatchObject({ id: 101, amount: '10.00', reason: 'Damaged' });
+    expect(refund.line_items).toEqual([{
+      id: 201,
+      name: undefined,
+      product_id: 1,
+      variation_id: undefined,
+      sku: 'TEA-1',
+      quantity: -1,
+      total: '-10',
+      refunded_item_id: 11,
+      restock: true
+    }]);
+  });
+
+  it('leaves refunds that were not restocked unflagged', () => {
+    const [refund] = normalizeOrderRefunds(order(0), [
+      { id: 101, date_created: '2025-03-02T10:00:00', amount: '40.00', line_items: [refundLine(201, 11, 4)] }
+    ]);
+
+    expect(refund.line_items[0]).toMatchObject({ quantity: -4, refunded_item_id: 11, restock: false });
+  });
+
+  it('hands the restocked units to the oldest refunds first', () => {
+    // Two units went back into stock, the full refund is over three refunds of the four teas
+    const refunds = normalizeOrderRefunds(order(2), [
+      { id: 103, date_created: '2025-03-04T10:00:00', amount: '20.00', line_items: [refundLine(203, 11, 2)] },
+      { id: 101, date_created: '2025-03-02T10:00:00', amount: '10.00', line_items: [refundLine(201, 11, 1)] },
+      { id: 102, date_created: '2025-03-03T10:00:00', amount: '10.00', line_items: [refundLine(202, 11, 1)] }
+    ]);
+
+    expect(refunds.map(refund => [refund.id, refund.line_items[0].restock])).toEqual([
+      [101, true],
+      [102, true],
+      [103, false]
+    ]);
+  });
+});
+
+describe('attachRefundsToOrders', () => {
+  it('reads refunds only for orders that have them and falls back to the summary when they cannot be read', async () => {
+    const orders = await attachRefundsToOrders([
+      { id: 1, number: '1001', refunds: [] },
+      { id: 2, number: '1002', refunds: [{ id: 301, total: '-10.00' }] },
+      { id: 3, number: '1003', refunds: [{ id: 302, reason: 'Late', total: '-65.00' }] }
+    ]);
+
+    expect(get).toHaveBeenCalledTimes(2);
+    expect(orders[0].refunds).toEqual([]);
+    expect(orders[1].refunds).toMatchObject([{ id: 301, amount: '10.00', line_items: [] }]);
+    expect(orders[2].refunds).toEqual([{ id: 302, date_created: null, amount: '65', reason: 'Late', line_items: [] }]);
+  });
+});
@@ -0,0 +1,178 @@
+import { AxiosInstance } from 'axios';
+import { OrderRefund, OrderRefundItem } from '../../types';
+import { createWooCommerceClient } from './credentials';
+import { parseStoreDate, processBatches } from './utils';
+
+// Raw shapes returned by the WooCommerce refunds endpoint
+interface WooMetaData {
+  key: string;
+  value: unknown;
+}
+
+interface WooRefundLineItem {
+  id: number;
+  name?: string;
+  product_id: number;
+  variation_id?: number;
+  sku?: string;
+  quantity: number | string;
+  total?: number | string;
+  meta_data?: WooMetaData[];
+}
+
+interface WooRefund {
+  id: number;
+  date_created?: string;
+  amount?: number | string;
+  reason?: string;
+  line_items?: WooRefundLineItem[];
+}
+
+// The refund summary WooCommerce embeds in each order
+interface WooRefundSummary {
+  id: number;
+  reason?: string;
+  total: number | string;
+}
+
+interface WooOrderWithRefunds {
+  id: number;
+  number?: string;
+  line_items?: Array<{ id: number; meta_data?: WooMetaData[] }>;
+  refunds?: unknown;
+}
+
+// Fetch the full refund records for a single order
+export const fetchOrderRefunds = async (orderId: number, client?: AxiosInstance): Promise<WooRefund[]> => {
+  try {
+    const wooClient = client || await createWooCommerceClient();
+    const response = await wooClient.get(`/orders/${orderId}/refunds`, {
+      params: {
+        per_page: 100
+      }
+    });
+
+    return Array.isArray(response.data) ? response.data : [];
+  } catch (error) {
+    console.error(`Error fetching refunds for order ${orderId}:`, error);
+    throw error;
+  }
+};
+
+// Get a meta value from a WooCommerce meta_data array
+const getMetaValue = (metaData: WooMetaData[] | undefined, key: string): string | undefined => {
+  const meta = metaData?.find(entry => entry.key === key);
+  return meta ? String(meta.value) : undefined;
+};
+
+/**
+ * Convert raw WooCommerce refunds into OrderRefund records
+ *
+ * WooCommerce does not flag restocking on the refund itself. When "restock refunded items"
+ * is ticked it records the restocked quantity on the original line item as
+ * `_restock_refunded_items`, so that quantity is handed out to the refund items oldest first.
+ */
+export const normalizeOrderRefunds = (order: WooOrderWithRefunds, rawRefunds: WooRefund[]): OrderRefund[] => {
+  // Restocked quantity still available per original line item
+  const restockRemaining = new Map<number, number>();
+  (order.line_items || []).forEach(item => {
+    const restocked = Number(getMetaValue(item.meta_data, '_restock_refunded_items')) || 0;
+    if (restocked > 0) {
+      restockRemaining.set(item.id, restocked);
+    }
+  });
+
+  // Process the oldest refund first so restocks are allocated in order
+  const sortedRefunds = [...rawRefunds].sort((a, b) => {
+    const dateA = a.date_created ? new Date(a.date_created).getTime() : 0;
+    const dateB = b.date_created ? new Date(b.date_created).getTime() : 0;
+    return dateA - dateB;
+  });
+
+  return sortedRefunds.map(refund => {
+    const lineItems: OrderRefundItem[] = (refund.line_items || []).map(item => {
+      const refundedItemId = Number(getMetaValue(item.meta_data, '_refunded_item_id')) || undefined;
+      const quantity = Number(item.quantity) || 0;
+
+      // Allocate restocked units from the original line item
+      let restock = false;
+      if (refundedItemId && quantity !== 0 && restockRemaining.has(refundedItemId)) {
+        const remaining = restockRemaining.get(refundedItemId)!;
+        if (remaining >= Math.abs(quantity)) {
+          restock = true;
+          restockRemaining.set(refundedItemId, remaining - Math.abs(quantity));
+        }
+      }
+
+      return {
+        id: item.id,
+        name: item.name,
+        product_id: item.product_id,
+        variation_id: item.variation_id || undefined,
+        sku: item.sku || undefined,
+        quantity,
+        total: String(item.total ?? '0'),
+        refunded_item_id: refundedItemId,
+        restock
+      };
+    });
+
+    return {
+      id: refund.id,
+      date_created: refund.date_created ? parseStoreDate(refund.date_created) : null,
+      amount: String(refund.amount ?? '0'),
+      reason: refund.reason || undefined,
+      line_items: lineItems
+    };
+  });
+};
+
+/**
+ * Replace the refund summaries on WooCommerce orders with full refund records
+ * Only orders that WooCommerce reports as having refunds are fetched
+ */
+export const attachRefundsToOrders = async <T extends WooOrderWithRefunds>(
+  orders: T[]
+): Promise<Array<T & { refunds: OrderRefund[] }>> => {
+  const ordersWithRefunds = orders.filter(order => Array.isArray(order.refunds) && order.refunds.length > 0);
+
+  if (ordersWithRefunds.length === 0) {
+    return orders.map(order => ({ ...order, refunds: [] }));
+  }
+
+  console.log(`Fetching refunds for ${ordersWithRefunds.length} orders`);
+
+  const client = await createWooCommerceClient();
+  const refundsByOrder = new Map<number, OrderRefund[]>();
+
+  await processBatches(
+    ordersWithRefunds,
+    async (batch: T[]) => {
+      for (const order of batch) {
+        try {
+          const rawRefunds = await fetchOrderRefunds(order.id, client);
+          refundsByOrder.set(order.id, normalizeOrderRefunds(order, rawRefunds));
+        } catch {
+          // Fall back to the refund summary on the order so the amount is still netted out
+          console.warn(`Using refund summary for order #${order.number}`);
+          const summaries = order.refunds as WooRefundSummary[];
+          refundsByOrder.set(order.id, summaries.map(summary => ({
+            id: summary.id,
+            date_created: null,
+            amount: String(Math.abs(parseFloat(String(summary.total)) || 0)),
+            reason: summary.reason || undefined,
+            line_items: []
+          })));
+        }
+      }
+      return [];
+    },
+    5, // Fetch refunds for 5 orders at a time
+    200 // 200ms delay between batches
+  );
+
+  return orders.map(order => ({
+    ...order,
+    refunds: refundsByOrder.get(order.id) || []
+  }));
+};
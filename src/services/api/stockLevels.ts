@@ -0,0 +1,53 @@
+import { AxiosInstance } from 'axios';
+import { createWooCommerceClient } from './credentials';
+
+// Stock fields of a WooCommerce product or variation
+export interface WooStockLevel {
+  // Variations return 'parent' when stock is managed on the parent product
+  manage_stock: boolean | 'parent';
+  stock_quantity: number | null;
+}
+
+// Path of a product or variation in the WooCommerce REST API
+const getStockPath = (productId: number, variationId?: number): string =>
+  variationId ? `/products/${productId}/variations/${variationId}` : `/products/${productId}`;
+
+// Read the live stock level of a product or variation
+export const fetchStoreStockLevel = async (
+  productId: number,
+  variationId?: number,
+  client?: AxiosInstance
+): Promise<WooStockLevel> => {
+  try {
+    const wooClient = client || await createWooCommerceClient();
+    const response = await wooClient.get(getStockPath(productId, variationId));
+
+    return {
+      manage_stock: response.data.manage_stock,
+      stock_quantity: response.data.stock_quantity ?? null
+    };
+  } catch (error) {
+    console.error(`Error fetching stock level for product ${productId}:`, error);
+    throw error;
+  }
+};
+
+// Set the stock level of a product or variation and return the quantity the store saved
+export const updateStoreStockLevel = async (
+  productId: number,
+  variationId: number | undefined,
+  quantity: number,
+  client?: AxiosInstance
+): Promise<number | null> => {
+  try {
+    const wooClient = client || await createWooCommerceClient();
+    const response = await wooClient.put(getStockPath(productId, variationId), {
+      stock_quantity: quantity
+    });
+
+    return response.data.stock_quantity ?? null;
+  } catch (error) {
+    console.error(`Error updating stock level for product ${productId}:`, error);
+    throw error;
+  }
+};
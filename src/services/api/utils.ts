@@ -1,3 +1,5 @@
+import { fromStoreTime } from '../../utils/dateUtils';
+
 /**
  * Utility functions for API services
  */
@@ -77,38 +79,10 @@ export const isOlderThanOneDay = (date: Date | string | null): boolean => {
 };
 
 /**
- * Format date to NZ format (dd/MM/yyyy)
+ * Format a date for WooCommerce date filters
+ * The ISO string is in UTC, so the filter covers the same moment whatever the store timezone
  */
-export const formatNZDate = (date: Date): string => {
-  const day = date.getDate().toString().padStart(2, '0');
-  const month = (date.getMonth() + 1).toString().padStart(2, '0');
-  const year = date.getFullYear();
-  return `${day}/${month}/${year}`;
-};
-
-/**
- * Format date to ISO string with NZ timezone offset
- */
-export const formatDateForAPI = (date: Date): string => {
-  // New Zealand is UTC+12 or UTC+13 during daylight saving
-  // For December (month 11), we need to be extra careful with timezone handling
-  if (date.getMonth() === 11) {
-    // For December, ensure we're using the correct timezone offset
-    // Clone the date to avoid modifying the original
-    const adjustedDate = new Date(date);
-    
-    // If it's the end of December, add an extra hour to ensure we capture all orders
-    if (date.getDate() >= 28) {
-      adjustedDate.setHours(adjustedDate.getHours() + 1);
-      console.log(`End of December detected - Adding extra hour buffer: ${date.toISOString()} -> ${adjustedDate.toISOString()}`);
-    }
-    
-    return adjustedDate.toISOString();
-  }
-  
-  // For other months, use the standard ISO string
-  return date.toISOString();
-};
+export const formatDateForAPI = (date: Date): string => date.toISOString();
 
 /**
  * Chunk an array into smaller arrays of specified size
@@ -123,44 +97,22 @@ export const chunkArray = <T>(array: T[], chunkSize: number): T[][] => {
 };
 
 /**
- * Get NZ timezone string
- */
-export const getNZTimezone = (): string => {
-  // Determine if NZ is currently in daylight saving time
-  const now = new Date();
-  const jan = new Date(now.getFullYear(), 0, 1);
-  const jul = new Date(now.getFullYear(), 6, 1);
-  
-  // NZ DST typically runs from late September to early April
-  // This is a simplified check - for production, use a proper timezone library
-  const isDST = now.getMonth() > 8 || now.getMonth() < 4;
-  
-  return isDST ? 'NZDT' : 'NZST';
-};
-
-/**
- * Get NZ timezone offset in hours
+ * Parse a WooCommerce date into the moment it happened
+ * Dates without an offset are wall-clock times in the store timezone
  */
-export const getNZTimezoneOffset = (): number => {
-  // NZ is UTC+12, or UTC+13 during daylight saving
-  const isDST = getNZTimezone() === 'NZDT';
-  return isDST ? 13 : 12;
-};
-
-/**
- * Convert a date to NZ timezone
- */
-export const convertToNZTimezone = (date: Date | string): Date | null => {
+export const parseStoreDate = (date: Date | string): Date | null => {
   try {
-    // Convert string to Date if necessary
     let dateObj: Date;
     if (typeof date === 'string') {
-      // Handle WordPress date format
-      const wpMatch = date.match(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/);
-      if (wpMatch) {
-        date = date.replace(' ', 'T') + 'Z';
+      if (/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(date)) {
+        // WordPress database format is stored in GMT
+        dateObj = new Date(date.replace(' ', 'T') + 'Z');
+      } else if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2})?$/.test(date)) {
+        // WooCommerce REST dates are in the store timezone
+        dateObj = fromStoreTime(date);
+      } else {
+        dateObj = new Date(date);
       }
-      dateObj = new Date(date);
     } else if (date instanceof Date) {
       dateObj = date;
     } else {
@@ -172,14 +124,7 @@ export const convertToNZTimezone = (date: Date | string): Date | null => {
       return null;
     }
     
-    // Get NZ offset
-    const nzOffset = getNZTimezoneOffset();
-    
-    // Convert to UTC first
-    const utcDate = new Date(dateObj.getTime() + dateObj.getTimezoneOffset() * 60000);
-    
-    // Then convert to NZ timezone
-    return new Date(utcDate.getTime() + nzOffset * 3600000);
+    return dateObj;
   } catch (error) {
     return null;
   }
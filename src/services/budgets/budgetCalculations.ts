@@ -0,0 +1,162 @@
+import {
+  differenceInCalendarDays,
+  eachDayOfInterval,
+  eachMonthOfInterval,
+  endOfMonth,
+  format,
+  getDaysInMonth,
+  getDaysInYear,
+  max,
+  min,
+  startOfMonth,
+  startOfYear
+} from 'date-fns';
+import { BudgetCategoryType, BudgetMonthVariance, BudgetStatus, BudgetVariance, DateRange } from '../../types';
+
+// Budget fields shared by expense and additional revenue categories
+export interface BudgetCategory {
+  name: string;
+  color?: string;
+  budget_monthly?: number;
+  budget_annual?: number;
+}
+
+/**
+ * Get the monthly and annual budget for a category
+ * When only one is set the other is derived from it
+ */
+export const getCategoryBudgets = (category: BudgetCategory) => {
+  const monthly = Number(category.budget_monthly) || 0;
+  const annual = Number(category.budget_annual) || 0;
+
+  return {
+    monthlyBudget: monthly || annual / 12,
+    annualBudget: annual || monthly * 12
+  };
+};
+
+/**
+ * Check if a category has a budget set
+ */
+export const hasBudget = (category: BudgetCategory): boolean => {
+  return getCategoryBudgets(category).monthlyBudget > 0;
+};
+
+// Favourable variance, under budget for expenses and over target for revenue
+const getVariance = (categoryType: BudgetCategoryType, budget: number, actual: number): number => {
+  return categoryType === 'expense' ? budget - actual : actual - budget;
+};
+
+// Sum daily amounts (keyed yyyy-MM-dd) for the days between two dates
+const sumDays = (dailyAmounts: Record<string, number>, startDate: Date, endDate: Date): number => {
+  if (startDate > endDate) return 0;
+
+  return eachDayOfInterval({ start: startDate, end: endDate }).reduce(
+    (sum, day) => sum + (dailyAmounts[format(day, 'yyyy-MM-dd')] || 0),
+    0
+  );
+};
+
+/**
+ * Get the budget and actual for each month of a range
+ * Budgets for months only partly in the range are prorated by day
+ */
+export const calculateMonthlyVariance = (
+  categoryType: BudgetCategoryType,
+  monthlyBudget: number,
+  dailyAmounts: Record<string, number>,
+  dateRange: DateRange
+): BudgetMonthVariance[] => {
+  return eachMonthOfInterval({ start: dateRange.startDate, end: dateRange.endDate }).map(month => {
+    const start = max([dateRange.startDate, startOfMonth(month)]);
+    const end = min([dateRange.endDate, endOfMonth(month)]);
+    const daysInRange = differenceInCalendarDays(end, start) + 1;
+
+    const budget = monthlyBudget * (daysInRange / getDaysInMonth(month));
+    const actual = sumDays(dailyAmounts, start, end);
+
+    return {
+      month: format(month, 'yyyy-MM'),
+      budget,
+      actual,
+      variance: getVariance(categoryType, budget, actual)
+    };
+  });
+};
+
+/**
+ * Work out whether a category is on track from its month and year to date burn rate
+ */
+export const getBudgetStatus = (
+  categoryType: BudgetCategoryType,
+  monthlyBudget: number,
+  annualBudget: number,
+  monthToDate: number,
+  projectedMonth: number,
+  yearToDate: number,
+  projectedAnnual: number
+): BudgetStatus => {
+  if (categoryType === 'expense') {
+    if (monthToDate > monthlyBudget || yearToDate > annualBudget) return 'over_budget';
+    if (projectedMonth > monthlyBudget || projectedAnnual > annualBudget) return 'at_risk';
+    return 'on_track';
+  }
+
+  if (projectedAnnual < annualBudget) return 'under_target';
+  if (projectedMonth < monthlyBudget) return 'at_risk';
+  return 'on_track';
+};
+
+/**
+ * Calculate budget vs actual for a category
+ * dailyAmounts must cover the range and the year to date, keyed yyyy-MM-dd
+ */
+export const calculateBudgetVariance = (
+  categoryType: BudgetCategoryType,
+  category: BudgetCategory,
+  dailyAmounts: Record<string, number>,
+  dateRange: DateRange,
+  now: Date = new Date()
+): BudgetVariance => {
+  const { monthlyBudget, annualBudget } = getCategoryBudgets(category);
+
+  const months = calculateMonthlyVariance(categoryType, monthlyBudget, dailyAmounts, dateRange);
+  const budget = months.reduce((sum, month) => sum + month.budget, 0);
+  const actual = months.reduce((sum, month) => sum + month.actual, 0);
+  const variance = getVariance(categoryType, budget, actual);
+
+  // Project the month and year from spending so far
+  const monthToDate = sumDays(dailyAmounts, startOfMonth(now), now);
+  const yearToDate = sumDays(dailyAmounts, startOfYear(now), now);
+  const daysElapsedInYear = differenceInCalendarDays(now, startOfYear(now)) + 1;
+  const dailyBurnRate = yearToDate / daysElapsedInYear;
+  const projectedMonth = (monthToDate / now.getDate()) * getDaysInMonth(now);
+  const projectedAnnual = dailyBurnRate * getDaysInYear(now);
+
+  return {
+    categoryType,
+    categoryName: category.name,
+    color: category.color,
+    monthlyBudget,
+    annualBudget,
+    budget,
+    actual,
+    variance,
+    variancePercent: budget > 0 ? (variance / budget) * 100 : 0,
+    months,
+    monthToDate,
+    projectedMonth,
+    yearToDate,
+    dailyBurnRate,
+    projectedAnnual,
+    status: getBudgetStatus(
+      categoryType,
+      monthlyBudget,
+      annualBudget,
+      monthToDate,
+      projectedMonth,
+      yearToDate,
+      projectedAnnual
+    )
+  };
+};
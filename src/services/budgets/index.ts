@@ -0,0 +1,76 @@
+import { format, max, min, startOfYear } from 'date-fns';
+import { BudgetVariance, DateRange } from '../../types';
+import { getExpenseCategories, getExpensesWithRecurring } from '../../db/operations/expenses';
+import { getAdditionalRevenueCategories, getAdditionalRevenue } from '../../db/operations/additionalRevenue';
+import { calculateBudgetVariance, hasBudget } from './budgetCalculations';
+
+// Total amounts by day, keyed the same way as getExpensesByPeriod('daily')
+const getDailyAmounts = (items: { date: Date; amount: number }[]): Record<string, number> =>
+  items.reduce<Record<string, number>>((totals, item) => {
+    const key = format(new Date(item.date), 'yyyy-MM-dd');
+    totals[key] = (totals[key] || 0) + item.amount;
+    return totals;
+  }, {});
+
+/**
+ * Load budget vs actual for every category with a budget
+ * Actuals cover the date range and the year to date so burn rates can be projected,
+ * expenses and revenue are read once and split by category
+ */
+export const loadBudgetVariance = async (
+  dateRange: DateRange,
+  now: Date = new Date()
+): Promise<BudgetVariance[]> => {
+  try {
+    const startDate = min([dateRange.startDate, startOfYear(now)]);
+    const endDate = max([dateRange.endDate, now]);
+
+    const [expenseCategories, revenueCategories] = await Promise.all([
+      getExpenseCategories(),
+      getAdditionalRevenueCategories()
+    ]);
+    const budgetedExpenseCategories = expenseCategories.filter(hasBudget);
+    const budgetedRevenueCategories = revenueCategories.filter(hasBudget);
+
+    const [expenses, revenues] = await Promise.all([
+      budgetedExpenseCategories.length > 0 ? getExpensesWithRecurring(startDate, endDate) : [],
+      budgetedRevenueCategories.length > 0 ? getAdditionalRevenue(startDate, endDate) : []
+    ]);
+
+    const expenseVariance = budgetedExpenseCategories.map(category =>
+      calculateBudgetVariance(
+        'expense',
+        category,
+        getDailyAmounts(expenses.filter(expense => expense.category === category.name)),
+        dateRange,
+        now
+      )
+    );
+
+    const revenueVariance = budgetedRevenueCategories.map(category =>
+      calculateBudgetVariance(
+        'revenue',
+        category,
+        getDailyAmounts(revenues.filter(revenue => revenue.category_id === category.id)),
+        dateRange,
+        now
+      )
+    );
+
+    return [...expenseVariance, ...revenueVariance];
+  } catch (error) {
+    console.error('Error loading budget variance:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get expense categories that are over budget or on track to go over this month or year
+ */
+export const getExpenseBudgetWarnings = (variance: BudgetVariance[]): BudgetVariance[] => {
+  return variance.filter(item =>
+    item.categoryType === 'expense' && (item.status === 'over_budget' || item.status === 'at_risk')
+  );
+};
+
+export * from './budgetCalculations';
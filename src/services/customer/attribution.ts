@@ -0,0 +1,190 @@
+import { format } from 'date-fns';
+import { CustomerBaseService } from './base';
+import { AttributionGrouping, MarketingAttributionRow, MarketingChannelMetrics, Order } from '../../types';
+
+// Postgres functions for attribution, see the README for their definitions
+const ATTRIBUTION_FUNCTION = 'get_marketing_attribution';
+const ACQUISITION_COSTS_FUNCTION = 'update_customer_acquisition_costs';
+
+// Order meta keys holding UTM values, WooCommerce order attribution first and then the older plugin keys
+const UTM_META_KEYS = {
+  utm_source: ['_wc_order_attribution_utm_source', '_utm_source'],
+  utm_medium: ['_wc_order_attribution_utm_medium', '_utm_medium'],
+  utm_campaign: ['_wc_order_attribution_utm_campaign', '_utm_campaign']
+};
+
+type OrderAttribution = Pick<Order, 'utm_source' | 'utm_medium' | 'utm_campaign'>;
+
+const normalizeUtmValue = (value: unknown): string | null => {
+  const normalized = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  return normalized ? normalized : null;
+};
+
+// Read the UTM values of an order from its meta data, falling back to the values already stored on it
+export const extractOrderAttribution = (
+  order: Pick<Order, 'meta_data' | 'utm_source' | 'utm_medium' | 'utm_campaign'>
+): OrderAttribution => {
+  const readMeta = (keys: string[]) => {
+    for (const key of keys) {
+      const value = normalizeUtmValue(order.meta_data?.find(meta => meta.key === key)?.value);
+      if (value) return value;
+    }
+    return null;
+  };
+
+  return {
+    utm_source: readMeta(UTM_META_KEYS.utm_source) ?? normalizeUtmValue(order.utm_source),
+    utm_medium: readMeta(UTM_META_KEYS.utm_medium) ?? normalizeUtmValue(order.utm_medium),
+    utm_campaign: readMeta(UTM_META_KEYS.utm_campaign) ?? normalizeUtmValue(order.utm_campaign)
+  };
+};
+
+interface MarketingAttributionRowData {
+  source: string;
+  medium: string;
+  campaign: string;
+  unallocated: boolean;
+  customers: number | string;
+  spend: number | string;
+  first_order_revenue: number | string;
+  customers_90: number | string;
+  revenue_90: number | string;
+  customers_180: number | string;
+  revenue_180: number | string;
+  customers_365: number | string;
+  revenue_365: number | string;
+}
+
+const toAttributionRow = (row: MarketingAttributionRowData): MarketingAttributionRow => ({
+  source: row.source,
+  medium: row.medium,
+  campaign: row.campaign,
+  unallocated: row.unallocated,
+  customers: Number(row.customers),
+  spend: Number(row.spend),
+  first_order_revenue: Number(row.first_order_revenue),
+  customers_90: Number(row.customers_90),
+  revenue_90: Number(row.revenue_90),
+  customers_180: Number(row.customers_180),
+  revenue_180: Number(row.revenue_180),
+  customers_365: Number(row.customers_365),
+  revenue_365: Number(row.revenue_365)
+});
+
+// Label one part of a channel, unallocated spend without a medium or campaign applies to any
+const channelPart = (value: string, unallocated: boolean) => {
+  if (value) return value;
+  return unallocated ? '(any)' : '(not set)';
+};
+
+// Roll attribution rows up to a channel level and work out CAC, ROAS and LTV:CAC
+// CAC includes spend that acquired nobody, LTV only counts customers old enough for the whole window
+export const summarizeAttribution = (
+  rows: MarketingAttributionRow[],
+  grouping: AttributionGrouping
+): MarketingChannelMetrics[] => {
+  const channels = new Map<string, MarketingAttributionRow & { unallocated_spend: number; parts: string[] }>();
+
+  rows.forEach(row => {
+    const parts = [row.source];
+    if (grouping !== 'source') parts.push(channelPart(row.medium, row.unallocated));
+    if (grouping === 'campaign') parts.push(channelPart(row.campaign, row.unallocated));
+
+    const key = parts.join(' / ');
+    const channel = channels.get(key) || {
+      ...row,
+      parts,
+      unallocated_spend: 0,
+      customers: 0,
+      spend: 0,
+      first_order_revenue: 0,
+      customers_90: 0,
+      revenue_90: 0,
+      customers_180: 0,
+      revenue_180: 0,
+      customers_365: 0,
+      revenue_365: 0
+    };
+
+    channel.customers += row.customers;
+    channel.spend += row.spend;
+    channel.unallocated_spend += row.unallocated ? row.spend : 0;
+    channel.first_order_revenue += row.first_order_revenue;
+    channel.customers_90 += row.customers_90;
+    channel.revenue_90 += row.revenue_90;
+    channel.customers_180 += row.customers_180;
+    channel.revenue_180 += row.revenue_180;
+    channel.customers_365 += row.customers_365;
+    channel.revenue_365 += row.revenue_365;
+    channels.set(key, channel);
+  });
+
+  return Array.from(channels.entries())
+    .map(([key, channel]) => {
+      const cac = channel.customers > 0 && channel.spend > 0 ? channel.spend / channel.customers : null;
+      const ltv = (revenue: number, customers: number) => customers > 0 ? revenue / customers : null;
+      const ltvCac = (value: number | null) => value !== null && cac ? value / cac : null;
+
+      const ltv90 = ltv(channel.revenue_90, channel.customers_90);
+      const ltv180 = ltv(channel.revenue_180, channel.customers_180);
+      const ltv365 = ltv(channel.revenue_365, channel.customers_365);
+
+      return {
+        channel: key,
+        source: channel.parts[0],
+        medium: channel.parts[1],
+        campaign: channel.parts[2],
+        customers: channel.customers,
+        spend: channel.spend,
+        unallocated_spend: channel.unallocated_spend,
+        cac,
+        first_order_revenue: channel.first_order_revenue,
+        first_order_roas: channel.spend > 0 ? channel.first_order_revenue / channel.spend : null,
+        ltv_90: ltv90,
+        ltv_180: ltv180,
+        ltv_365: ltv365,
+        ltv_cac_90: ltvCac(ltv90),
+        ltv_cac_180: ltvCac(ltv180),
+        ltv_cac_365: ltvCac(ltv365)
+      };
+    })
+    .sort((a, b) => b.spend - a.spend || b.customers - a.customers);
+};
+
+// Acquisition cost and return per marketing channel, from tagged expenses and customers' first orders
+export class CustomerAttributionService extends CustomerBaseService {
+  constructor() {
+    super('customer_acquisition');
+  }
+
+  // Get attribution for customers whose first order falls in the date range
+  async getAttribution(startDate: Date, endDate: Date): Promise<MarketingAttributionRow[]> {
+    try {
+      const { data, error } = await this.supabase.rpc(ATTRIBUTION_FUNCTION, {
+        p_start_date: format(startDate, 'yyyy-MM-dd'),
+        p_end_date: format(endDate, 'yyyy-MM-dd')
+      });
+
+      if (error) throw error;
+
+      return ((data || []) as MarketingAttributionRowData[]).map(toAttributionRow);
+    } catch (error) {
+      console.error('Error getting marketing attribution:', error);
+      throw error;
+    }
+  }
+
+  // Store each customer's share of their channel's spend as their acquisition cost
+  async updateAcquisitionCosts(): Promise<number> {
+    try {
+      const { data, error } = await this.supabase.rpc(ACQUISITION_COSTS_FUNCTION);
+
+      if (error) throw error;
+
+      return Number(data || 0);
+    } catch (error) {
+      console.error('Error updating customer acquisition costs:', error);
+      throw error;
+    }
+  }
+}
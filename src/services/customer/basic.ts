@@ -1,8 +1,15 @@
 import { CustomerBaseService } from './base';
-import { Customer, Order, Product } from '../../types';
+import { CustomerIdentityService } from './identity';
+import { CustomerCLVService, summarizeCLV } from './clv';
+import { Customer, CustomerCLV, Order, Product } from '../../types';
 import { differenceInDays } from 'date-fns';
 
 export class CustomerBasicService extends CustomerBaseService {
+  // Resolves guest orders to their customer profile
+  private identityService = new CustomerIdentityService();
+  // Reads the stored lifetime value predictions
+  private clvService = new CustomerCLVService();
+
   constructor() {
     super('customers');
   }
@@ -54,13 +61,16 @@ export class CustomerBasicService extends CustomerBaseService {
       
       if (startDate && endDate) {
         // Filter customers by their orders within the date range
-        const { data: ordersInRange } = await this.supabase
+        const { data: rangeOrders } = await this.supabase
           .from('orders')
-          .select('customer_id, date_created')
+          .select('id, customer_id, date_created')
           .gte('date_created', startDate.toISOString())
           .lt('date_created', endDate ? new Date(endDate.getTime() + 86400000).toISOString() : undefined);
+        
+        // Guest orders count towards their guest profile or the account they were merged into
+        const ordersInRange = await this.identityService.attachIdentities((rangeOrders || []) as Order[]);
             
-        if (ordersInRange && ordersInRange.length > 0) {
+        if (ordersInRange.length > 0) {
           // Get unique customer IDs from orders in range
           const customerIdsInRange = new Set(ordersInRange.map(order => order.customer_id));
           
@@ -172,6 +182,16 @@ export class CustomerBasicService extends CustomerBaseService {
       const averageOrderValue = totalOrders > 0 ? totalSpent / totalOrders : 0;
       const customerLifetimeValue = filteredCustomers.length > 0 ? totalSpent / filteredCustomers.length : 0;
       
+      // Attach each customer's predicted lifetime value and churn probability
+      const predictions = await this.getCLVPredictions();
+      filteredCustomers = filteredCustomers.map(customer => {
+        const clv = predictions.get(customer.id);
+        return clv ? { ...customer, clv } : customer;
+      });
+      const predictedCLV = predictions.size > 0
+        ? summarizeCLV(filteredCustomers.map(customer => customer.clv).filter((clv): clv is CustomerCLV => !!clv))
+        : undefined;
+      
       // Get top spending customers
       const topSpendingCustomers = [...filteredCustomers]
         .sort((a, b) => b.total_spent - a.total_spent)
@@ -182,14 +202,8 @@ export class CustomerBasicService extends CustomerBaseService {
         .sort((a, b) => b.order_count - a.order_count)
         .slice(0, 10);
       
-      // Calculate acquisition sources (mock data for now)
-      const acquisitionSources = [
-        { source: 'Direct', count: Math.round(filteredCustomers.length * 0.4), percentage: 40 },
-        { source: 'Search', count: Math.round(filteredCustomers.length * 0.25), percentage: 25 },
-        { source: 'Social', count: Math.round(filteredCustomers.length * 0.15), percentage: 15 },
-        { source: 'Email', count: Math.round(filteredCustomers.length * 0.1), percentage: 10 },
-        { source: 'Referral', count: Math.round(filteredCustomers.length * 0.1), percentage: 10 },
-      ];
+      // Calculate acquisition sources from the UTM source of each customer's first order
+      const acquisitionSources = await this.getAcquisitionSources(filteredCustomers);
       
       return {
         totalCustomers: filteredCustomers.length,
@@ -200,6 +214,7 @@ export class CustomerBasicService extends CustomerBaseService {
         customerSegments,
         averageOrderValue,
         customerLifetimeValue,
+        predictedCLV,
         topSpendingCustomers,
         mostFrequentCustomers,
         acquisitionSources,
@@ -267,13 +282,54 @@ export class CustomerBasicService extends CustomerBaseService {
           : order.line_items,
       }));
       
-      return parsedOrders;
+      // Key guest orders on their unified customer so every analysis includes them
+      return await this.identityService.attachIdentities(parsedOrders);
     } catch (error) {
       console.error("Error fetching orders:", error);
       throw error;
     }
   }
 
+  // Count customers by the source of their first order, see the customer_first_orders view in the README
+  private async getAcquisitionSources(customers: Customer[]) {
+    try {
+      const { data, error } = await this.supabase
+        .from('customer_first_orders')
+        .select('customer_id, source');
+      
+      if (error) throw error;
+      
+      const customerIds = new Set(customers.map(customer => customer.id));
+      const counts = new Map<string, number>();
+      (data || []).forEach((row: { customer_id: number; source: string }) => {
+        if (!customerIds.has(row.customer_id)) return;
+        counts.set(row.source, (counts.get(row.source) || 0) + 1);
+      });
+      
+      const total = Array.from(counts.values()).reduce((sum, count) => sum + count, 0);
+      return Array.from(counts.entries())
+        .map(([source, count]) => ({
+          source,
+          count,
+          percentage: total > 0 ? Math.round((count / total) * 100) : 0
+        }))
+        .sort((a, b) => b.count - a.count);
+    } catch (error) {
+      console.error('Error getting acquisition sources:', error);
+      return [];
+    }
+  }
+
+  // Get stored lifetime value predictions, empty until the customer sync has fitted the model
+  private async getCLVPredictions(): Promise<Map<number, CustomerCLV>> {
+    try {
+      return await this.clvService.getPredictions();
+    } catch (error) {
+      console.error('Error getting lifetime value predictions:', error);
+      return new Map();
+    }
+  }
+
   // Get products for analysis
   async getProducts() {
     try {
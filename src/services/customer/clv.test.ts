@@ -0,0 +1,153 @@
+import { describe, expect, it, vi } from 'vitest';
+
+// The models are pure functions, the service's database client is never used here
+vi.mock('../supabase', () => ({ supabase: {} }));
+
+import {
+  BgNbdParameters,
+  CustomerTransactionSummary,
+  GammaGammaParameters,
+  expectedOrderValue,
+  expectedPurchases,
+  fitBgNbd,
+  fitGammaGamma,
+  probabilityAlive
+} from './clv';
+
+// Parameters fitted on the CDNOW sample of 2357 customers, Fader, Hardie and Lee (2005)
+// and Fader and Hardie (2013), times in weeks
+const CDNOW_BG_NBD: BgNbdParameters = { r: 0.243, alpha: 4.414, a: 0.793, b: 2.426 };
+const CDNOW_GAMMA_GAMMA: GammaGammaParameters = { p: 6.25, q: 3.74, v: 15.44 };
+
+// Seeded generator so the simulated customers are the same on every run
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Marsaglia and Tsang gamma sampler with unit scale
+const sampleGamma = (random: () => number, shape: number): number => {
+  if (shape < 1) return sampleGamma(random, shape + 1) * Math.pow(random(), 1 / shape);
+
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    const normal = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+    const v = Math.pow(1 + c * normal, 3);
+    if (v > 0 && Math.log(random()) < 0.5 * normal * normal + d - d * v + d * Math.log(v)) return d * v;
+  }
+};
+
+// Customers following BG/NBD, first purchases spread over 12 weeks of a 39 week calibration period like CDNOW
+const simulateBgNbd = (
+  { r, alpha, a, b }: BgNbdParameters,
+  customers: number,
+  random: () => number
+): CustomerTransactionSummary[] =>
+  Array.from({ length: customers }, (_, customerId) => {
+    const rate = sampleGamma(random, r) / alpha;
+    const x1 = sampleGamma(random, a);
+    const dropout = x1 / (x1 + sampleGamma(random, b));
+    const age = 27 + 12 * random();
+
+    let frequency = 0;
+    let recency = 0;
+    for (let time = 0; ;) {
+      time += -Math.log(1 - random()) / rate;
+      if (time > age) break;
+      frequency++;
+      recency = time;
+      if (random() < dropout) break;
+    }
+
+    return { customer_id: customerId + 1, frequency, recency, age, monetary_value: 0 };
+  });
+
+// Repeat customers whose order values follow Gamma-Gamma
+const simulateGammaGamma = (
+  { p, q, v }: GammaGammaParameters,
+  frequencies: number[],
+  random: () => number
+): CustomerTransactionSummary[] =>
+  frequencies.map((frequency, i) => {
+    const scale = sampleGamma(random, q) / v;
+    const total = Array.from({ length: frequency }, () => sampleGamma(random, p) / scale)
+      .reduce((sum, value) => sum + value, 0);
+    return { customer_id: i + 1, frequency, recency: 0, age: 0, monetary_value: total / frequency };
+  });
+
+describe('BG/NBD', () => {
+  // Worked example in Fader, Hardie and Lee (2005), section 5
+  const customer: CustomerTransactionSummary = {
+    customer_id: 1,
+    frequency: 2,
+    recency: 30.43,
+    age: 38.86,
+    monetary_value: 0
+  };
+
+  it('matches the published expected purchases for the CDNOW example customer', () => {
+    expect(expectedPurchases(customer, CDNOW_BG_NBD, 39)).toBeCloseTo(1.226, 3);
+  });
+
+  it('gives the CDNOW example customer the probability of being alive from equation 13', () => {
+    // 1 / (1 + a / (b + x - 1) * ((alpha + T) / (alpha + t_x)) ^ (r + x)), worked by hand
+    expect(probabilityAlive(customer, CDNOW_BG_NBD)).toBeCloseTo(0.7266, 3);
+  });
+
+  it('treats customers without a repeat purchase as alive', () => {
+    expect(probabilityAlive({ ...customer, frequency: 0, recency: 0 }, CDNOW_BG_NBD)).toBe(1);
+  });
+
+  it('expects fewer purchases from customers who have been quiet for longer', () => {
+    const recent = expectedPurchases(customer, CDNOW_BG_NBD, 52);
+    const quiet = expectedPurchases({ ...customer, recency: 5 }, CDNOW_BG_NBD, 52);
+    expect(quiet).toBeLessThan(recent);
+  });
+
+  it('recovers the CDNOW parameters from customers simulated with them', () => {
+    const customers = simulateBgNbd(CDNOW_BG_NBD, 4000, createRandom(2005));
+    const fitted = fitBgNbd(customers);
+
+    expect(fitted.r).toBeCloseTo(CDNOW_BG_NBD.r, 1);
+    expect(fitted.alpha / CDNOW_BG_NBD.alpha).toBeGreaterThan(0.8);
+    expect(fitted.alpha / CDNOW_BG_NBD.alpha).toBeLessThan(1.25);
+    expect(fitted.a / CDNOW_BG_NBD.a).toBeGreaterThan(0.6);
+    expect(fitted.a / CDNOW_BG_NBD.a).toBeLessThan(1.6);
+    expect(fitted.b / CDNOW_BG_NBD.b).toBeGreaterThan(0.5);
+    expect(fitted.b / CDNOW_BG_NBD.b).toBeLessThan(2);
+  });
+});
+
+describe('Gamma-Gamma', () => {
+  it('values customers without repeat orders at the CDNOW population mean', () => {
+    // p * v / (q - 1) with the published parameters
+    const newCustomer = { customer_id: 1, frequency: 0, recency: 0, age: 10, monetary_value: 0 };
+    expect(expectedOrderValue(newCustomer, CDNOW_GAMMA_GAMMA)).toBeCloseTo(35.22, 2);
+  });
+
+  it('shrinks a customer\'s own average towards the population mean', () => {
+    const bigSpender = { customer_id: 1, frequency: 2, recency: 20, age: 30, monetary_value: 100 };
+    const value = expectedOrderValue(bigSpender, CDNOW_GAMMA_GAMMA);
+    expect(value).toBeLessThan(100);
+    expect(value).toBeGreaterThan(35.22);
+  });
+
+  it('recovers the CDNOW parameters from order values simulated with them', () => {
+    const random = createRandom(2013);
+    // Repeat purchase counts skewed towards one or two like the 946 CDNOW repeat customers
+    const frequencies = Array.from({ length: 3000 }, () => 1 + Math.floor(-Math.log(1 - random()) * 2));
+    const fitted = fitGammaGamma(simulateGammaGamma(CDNOW_GAMMA_GAMMA, frequencies, random));
+
+    expect(fitted.p / CDNOW_GAMMA_GAMMA.p).toBeGreaterThan(0.8);
+    expect(fitted.p / CDNOW_GAMMA_GAMMA.p).toBeLessThan(1.25);
+    expect(fitted.q / CDNOW_GAMMA_GAMMA.q).toBeGreaterThan(0.7);
+    expect(fitted.q / CDNOW_GAMMA_GAMMA.q).toBeLessThan(1.4);
+    expect(fitted.v / CDNOW_GAMMA_GAMMA.v).toBeGreaterThan(0.6);
+    expect(fitted.v / CDNOW_GAMMA_GAMMA.v).toBeLessThan(1.6);
+    // The population mean order value is pinned down much more tightly than the parameters themselves
+    expect((fitted.p * fitted.v) / (fitted.q - 1)).toBeCloseTo(35.22, -1);
+  });
+});
@@ -0,0 +1,451 @@
+import { CustomerBaseService } from './base';
+import { CustomerCLV, CustomerCLVModel, CustomerCLVSummary } from '../../types';
+
+// Postgres function returning each customer's counted purchases by day, see the README for its definition
+const TRANSACTIONS_FUNCTION = 'get_customer_transactions';
+
+const MODELS_TABLE = 'customer_clv_models';
+const PAGE_SIZE = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Predictions cover the next 52 weeks
+const PREDICTION_WEEKS = 52;
+
+// Fewer customers than this cannot be fitted reliably
+const MIN_CUSTOMERS = 20;
+const MIN_REPEAT_CUSTOMERS = 10;
+
+// Customers at or above this churn probability count as likely churned
+const LIKELY_CHURNED_PROBABILITY = 0.5;
+
+interface CustomerTransactionRow {
+  customer_id: number | string;
+  transaction_date: string;
+  total: number | string;
+}
+
+interface CustomerCLVRowData {
+  customer_id: number | string;
+  frequency: number | string;
+  recency: number | string;
+  age: number | string;
+  monetary_value: number | string;
+  predicted_purchases: number | string;
+  probability_alive: number | string;
+  churn_probability: number | string;
+  predicted_order_value: number | string;
+  predicted_clv: number | string;
+  calculation_date: string;
+}
+
+const toCustomerCLV = (row: CustomerCLVRowData): CustomerCLV => ({
+  customer_id: Number(row.customer_id),
+  frequency: Number(row.frequency),
+  recency: Number(row.recency),
+  age: Number(row.age),
+  monetary_value: Number(row.monetary_value),
+  predicted_purchases: Number(row.predicted_purchases),
+  probability_alive: Number(row.probability_alive),
+  churn_probability: Number(row.churn_probability),
+  predicted_order_value: Number(row.predicted_order_value),
+  predicted_clv: Number(row.predicted_clv),
+  calculation_date: new Date(row.calculation_date)
+});
+
+// Purchase history in the shape both models take, times are in weeks
+export interface CustomerTransactionSummary {
+  customer_id: number;
+  frequency: number;
+  recency: number;
+  age: number;
+  monetary_value: number;
+}
+
+export interface BgNbdParameters {
+  r: number;
+  alpha: number;
+  a: number;
+  b: number;
+}
+
+export interface GammaGammaParameters {
+  p: number;
+  q: number;
+  v: number;
+}
+
+const LANCZOS_COEFFICIENTS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+  -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+  1.5056327351493116e-7
+];
+
+// Log of the gamma function for positive x, Lanczos approximation
+const lnGamma = (x: number): number => {
+  if (x < 0.5) return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - lnGamma(1 - x);
+
+  const z = x - 1;
+  let sum = LANCZOS_COEFFICIENTS[0];
+  for (let i = 1; i < LANCZOS_COEFFICIENTS.length; i++) {
+    sum += LANCZOS_COEFFICIENTS[i] / (z + i);
+  }
+  const t = z + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+};
+
+// Gauss hypergeometric function 2F1 by its power series, only used with 0 <= z < 1
+const hypergeometric2F1 = (a: number, b: number, c: number, z: number): number => {
+  let term = 1;
+  let sum = 1;
+  for (let n = 0; n < 100000; n++) {
+    term *= ((a + n) * (b + n)) / ((c + n) * (n + 1)) * z;
+    sum += term;
+    if (Math.abs(term) < 1e-12 * Math.abs(sum)) break;
+  }
+  return sum;
+};
+
+const logSumExp = (x: number, y: number): number => {
+  if (y === -Infinity) return x;
+  const max = Math.max(x, y);
+  return max + Math.log(Math.exp(x - max) + Math.exp(y - max));
+};
+
+// Nelder-Mead simplex search, used to maximise the likelihoods without any external library
+const minimize = (objective: (point: number[]) => number, start: number[]): number[] => {
+  const evaluate = (point: number[]) => {
+    const value = objective(point);
+    return { point, value: Number.isFinite(value) ? value : Infinity };
+  };
+
+  let simplex = [start, ...start.map((_, i) => start.map((value, j) => (i === j ? value + 0.5 : value)))]
+    .map(evaluate);
+  const n = start.length;
+
+  for (let iteration = 0; iteration < 5000; iteration++) {
+    simplex.sort((a, b) => a.value - b.value);
+    const best = simplex[0];
+    const worst = simplex[n];
+    if (Math.abs(worst.value - best.value) <= 1e-10 * (Math.abs(best.value) + 1e-10)) break;
+
+    const centroid = start.map((_, j) => simplex.slice(0, n).reduce((sum, vertex) => sum + vertex.point[j], 0) / n);
+    const along = (step: number) => evaluate(centroid.map((value, j) => value + step * (worst.point[j] - value)));
+
+    const reflected = along(-1);
+    if (reflected.value < best.value) {
+      const expanded = along(-2);
+      simplex[n] = expanded.value < reflected.value ? expanded : reflected;
+    } else if (reflected.value < simplex[n - 1].value) {
+      simplex[n] = reflected;
+    } else {
+      const contracted = reflected.value < worst.value ? along(-0.5) : along(0.5);
+      if (contracted.value < Math.min(reflected.value, worst.value)) {
+        simplex[n] = contracted;
+      } else {
+        simplex = simplex.map((vertex, i) => i === 0
+          ? vertex
+          : evaluate(vertex.point.map((value, j) => best.point[j] + 0.5 * (value - best.point[j]))));
+      }
+    }
+  }
+
+  simplex.sort((a, b) => a.value - b.value);
+  return simplex[0].point;
+};
+
+// Turn daily purchases into frequency, recency, age and average repeat purchase value
+// Several orders on one day count as one purchase, the first purchase is left out of frequency and value
+export const summarizeTransactions = (
+  transactions: { customer_id: number; transaction_date: Date; total: number }[],
+  now: Date = new Date()
+): CustomerTransactionSummary[] => {
+  const customers = new Map<number, { dates: number[]; totals: number[] }>();
+
+  transactions.forEach(transaction => {
+    const customer = customers.get(transaction.customer_id) || { dates: [], totals: [] };
+    customer.dates.push(transaction.transaction_date.getTime());
+    customer.totals.push(transaction.total);
+    customers.set(transaction.customer_id, customer);
+  });
+
+  const toWeeks = (ms: number) => Math.max(ms, 0) / DAY_MS / 7;
+
+  return Array.from(customers.entries()).map(([customerId, { dates, totals }]) => {
+    const order = dates.map((_, i) => i).sort((i, j) => dates[i] - dates[j]);
+    const first = dates[order[0]];
+    const last = dates[order[order.length - 1]];
+    const repeatTotals = order.slice(1).map(i => totals[i]);
+
+    return {
+      customer_id: customerId,
+      frequency: repeatTotals.length,
+      recency: toWeeks(last - first),
+      age: toWeeks(now.getTime() - first),
+      monetary_value: repeatTotals.length > 0
+        ? repeatTotals.reduce((sum, total) => sum + total, 0) / repeatTotals.length
+        : 0
+    };
+  });
+};
+
+// Fit BG/NBD by maximum likelihood, Fader, Hardie and Lee (2005)
+// Parameters are searched on a log scale so they stay positive
+export const fitBgNbd = (customers: CustomerTransactionSummary[]): BgNbdParameters => {
+  const frequencies = Array.from(new Set(customers.map(customer => customer.frequency)));
+  const meanAge = customers.reduce((sum, customer) => sum + customer.age, 0) / customers.length;
+
+  const negativeLogLikelihood = ([logR, logAlpha, logA, logB]: number[]) => {
+    const r = Math.exp(logR);
+    const alpha = Math.exp(logAlpha);
+    const a = Math.exp(logA);
+    const b = Math.exp(logB);
+
+    // The gamma terms only depend on frequency, so work them out once per distinct value
+    const gammaTerms = new Map<number, number>();
+    frequencies.forEach(x => {
+      gammaTerms.set(x,
+        lnGamma(r + x) - lnGamma(r) + lnGamma(a + b) + lnGamma(b + x) - lnGamma(b) - lnGamma(a + b + x));
+    });
+
+    let total = 0;
+    customers.forEach(({ frequency: x, recency, age }) => {
+      const alive = -(r + x) * Math.log(alpha + age);
+      const droppedOut = x > 0
+        ? Math.log(a) - Math.log(b + x - 1) - (r + x) * Math.log(alpha + recency)
+        : -Infinity;
+      total += (gammaTerms.get(x) as number) + r * Math.log(alpha) + logSumExp(alive, droppedOut);
+    });
+
+    return -total / customers.length;
+  };
+
+  const [logR, logAlpha, logA, logB] = minimize(negativeLogLikelihood, [0, Math.log(Math.max(meanAge, 1)), 0, 0]);
+  return { r: Math.exp(logR), alpha: Math.exp(logAlpha), a: Math.exp(logA), b: Math.exp(logB) };
+};
+
+// Fit Gamma-Gamma on customers who purchased again, Fader and Hardie (2013)
+export const fitGammaGamma = (customers: CustomerTransactionSummary[]): GammaGammaParameters => {
+  const repeatCustomers = customers.filter(customer => customer.frequency > 0 && customer.monetary_value > 0);
+  const meanValue = repeatCustomers.reduce((sum, customer) => sum + customer.monetary_value, 0) / repeatCustomers.length;
+
+  const negativeLogLikelihood = ([logP, logQ, logV]: number[]) => {
+    const p = Math.exp(logP);
+    const q = Math.exp(logQ);
+    const v = Math.exp(logV);
+
+    let total = 0;
+    repeatCustomers.forEach(({ frequency: x, monetary_value: m }) => {
+      total += lnGamma(p * x + q) - lnGamma(p * x) - lnGamma(q)
+        + q * Math.log(v) + (p * x - 1) * Math.log(m) + p * x * Math.log(x)
+        - (p * x + q) * Math.log(x * m + v);
+    });
+
+    return -total / repeatCustomers.length;
+  };
+
+  const [logP, logQ, logV] = minimize(negativeLogLikelihood, [0, 0, Math.log(Math.max(meanValue, 1))]);
+  return { p: Math.exp(logP), q: Math.exp(logQ), v: Math.exp(logV) };
+};
+
+// Probability that a customer has not dropped out, BG/NBD treats customers as active until a repeat purchase
+export const probabilityAlive = (
+  { frequency: x, recency, age }: CustomerTransactionSummary,
+  { r, alpha, a, b }: BgNbdParameters
+): number => {
+  if (x === 0) return 1;
+  return 1 / (1 + (a / (b + x - 1)) * Math.pow((alpha + age) / (alpha + recency), r + x));
+};
+
+// Expected number of purchases in the next number of weeks given the customer's history
+export const expectedPurchases = (
+  customer: CustomerTransactionSummary,
+  { r, alpha, a, b }: BgNbdParameters,
+  weeks: number
+): number => {
+  const { frequency: x, age } = customer;
+  // The expression divides by a - 1, nudge a fit that lands exactly on 1
+  const shape = Math.abs(a - 1) < 1e-6 ? 1 + 1e-6 : a;
+
+  const hypergeometric = hypergeometric2F1(r + x, b + x, shape + b + x - 1, weeks / (alpha + age + weeks));
+  const expected = ((shape + b + x - 1) / (shape - 1))
+    * (1 - Math.pow((alpha + age) / (alpha + age + weeks), r + x) * hypergeometric);
+
+  return Math.max(expected * probabilityAlive(customer, { r, alpha, a: shape, b }), 0);
+};
+
+// Expected value of a customer's future orders, shrinking their own average towards the population's
+export const expectedOrderValue = (
+  { frequency: x, monetary_value: m }: CustomerTransactionSummary,
+  { p, q, v }: GammaGammaParameters
+): number => (p * (v + x * m)) / (p * x + q - 1);
+
+interface CLVPredictionResult {
+  predictions: Omit<CustomerCLV, 'calculation_date'>[];
+  model: Omit<CustomerCLVModel, 'id' | 'calculation_date'>;
+}
+
+// Fit both models and predict the next 12 months for every customer
+// Returns null when there is too little history to fit
+export const predictCustomerCLV = (customers: CustomerTransactionSummary[]): CLVPredictionResult | null => {
+  if (customers.length < MIN_CUSTOMERS) return null;
+
+  const bgNbd = fitBgNbd(customers);
+
+  // Gamma-Gamma needs enough repeat customers and q above 1 for a finite mean,
+  // otherwise every order is valued at the average repeat order
+  const repeatCustomers = customers.filter(customer => customer.frequency > 0 && customer.monetary_value > 0);
+  const gammaGamma = repeatCustomers.length >= MIN_REPEAT_CUSTOMERS ? fitGammaGamma(customers) : null;
+  const averageRepeatValue = repeatCustomers.length > 0
+    ? repeatCustomers.reduce((sum, customer) => sum + customer.monetary_value, 0) / repeatCustomers.length
+    : 0;
+  const orderValue = (customer: CustomerTransactionSummary) =>
+    gammaGamma && gammaGamma.q > 1 ? expectedOrderValue(customer, gammaGamma) : customer.monetary_value || averageRepeatValue;
+
+  const predictions = customers.map(customer => {
+    const predictedPurchases = expectedPurchases(customer, bgNbd, PREDICTION_WEEKS);
+    const alive = probabilityAlive(customer, bgNbd);
+    const predictedOrderValue = orderValue(customer);
+
+    return {
+      customer_id: customer.customer_id,
+      frequency: customer.frequency,
+      recency: customer.recency,
+      age: customer.age,
+      monetary_value: customer.monetary_value,
+      predicted_purchases: predictedPurchases,
+      probability_alive: alive,
+      churn_probability: 1 - alive,
+      predicted_order_value: predictedOrderValue,
+      predicted_clv: predictedPurchases * predictedOrderValue
+    };
+  });
+
+  return {
+    predictions,
+    model: {
+      ...bgNbd,
+      p: gammaGamma?.p ?? null,
+      q: gammaGamma?.q ?? null,
+      v: gammaGamma?.v ?? null,
+      customers: customers.length,
+      repeat_customers: repeatCustomers.length
+    }
+  };
+};
+
+// Sum up the predictions of a set of customers for the value metrics
+export const summarizeCLV = (predictions: CustomerCLV[]): CustomerCLVSummary => {
+  const predictedRevenue = predictions.reduce((sum, prediction) => sum + prediction.predicted_clv, 0);
+  const churn = predictions.reduce((sum, prediction) => sum + prediction.churn_probability, 0);
+
+  return {
+    customers: predictions.length,
+    averagePredictedCLV: predictions.length > 0 ? predictedRevenue / predictions.length : 0,
+    predictedRevenue,
+    averageChurnProbability: predictions.length > 0 ? churn / predictions.length : 0,
+    likelyChurnedCustomers: predictions.filter(prediction => prediction.churn_probability >= LIKELY_CHURNED_PROBABILITY).length,
+    calculationDate: predictions[0]?.calculation_date
+  };
+};
+
+// Predictive customer lifetime value and churn, fitted locally on the synced order history
+export class CustomerCLVService extends CustomerBaseService {
+  constructor() {
+    super('customer_clv');
+  }
+
+  // Get every customer's counted purchases grouped by day, a page at a time
+  private async getTransactions() {
+    const transactions: { customer_id: number; transaction_date: Date; total: number }[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .rpc(TRANSACTIONS_FUNCTION)
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      const rows = (data || []) as CustomerTransactionRow[];
+      rows.forEach(row => {
+        transactions.push({
+          customer_id: Number(row.customer_id),
+          transaction_date: new Date(row.transaction_date),
+          total: Number(row.total)
+        });
+      });
+
+      if (rows.length < PAGE_SIZE) return transactions;
+    }
+  }
+
+  // Fit the models and replace the stored predictions, returns the number of customers predicted
+  async calculatePredictions(): Promise<number> {
+    try {
+      const calculationDate = new Date();
+      const customers = summarizeTransactions(await this.getTransactions(), calculationDate);
+      const result = predictCustomerCLV(customers);
+
+      if (!result) {
+        console.log(`Not enough customers to predict lifetime value (${customers.length} of ${MIN_CUSTOMERS})`);
+        return 0;
+      }
+
+      const rows = result.predictions.map(prediction => ({ ...prediction, calculation_date: calculationDate }));
+      const batchSize = 500;
+      for (let i = 0; i < rows.length; i += batchSize) {
+        const { error } = await this.supabase
+          .from('customer_clv')
+          .upsert(rows.slice(i, i + batchSize), { onConflict: 'customer_id' });
+
+        if (error) throw error;
+      }
+
+      // Customers with no counted orders left have nothing to predict
+      const { error: deleteError } = await this.supabase
+        .from('customer_clv')
+        .delete()
+        .lt('calculation_date', calculationDate.toISOString());
+
+      if (deleteError) throw deleteError;
+
+      const { error: modelError } = await this.supabase
+        .from(MODELS_TABLE)
+        .insert({ ...result.model, calculation_date: calculationDate });
+
+      if (modelError) throw modelError;
+
+      console.log(`Predicted lifetime value for ${rows.length} customers`, result.model);
+      return rows.length;
+    } catch (error) {
+      console.error('Error calculating customer lifetime value predictions:', error);
+      throw error;
+    }
+  }
+
+  // Get the latest prediction for each customer
+  async getPredictions(): Promise<Map<number, CustomerCLV>> {
+    try {
+      const predictions = new Map<number, CustomerCLV>();
+
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await this.supabase
+          .from('customer_clv')
+          .select('*')
+          .order('customer_id')
+          .range(from, from + PAGE_SIZE - 1);
+
+        if (error) throw error;
+
+        ((data || []) as CustomerCLVRowData[]).forEach(row => {
+          const prediction = toCustomerCLV(row);
+          predictions.set(prediction.customer_id, prediction);
+        });
+
+        if (!data || data.length < PAGE_SIZE) return predictions;
+      }
+    } catch (error) {
+      console.error('Error getting customer lifetime value predictions:', error);
+      throw error;
+    }
+  }
+}
@@ -1,8 +1,12 @@
 import { CustomerBaseService } from './base';
+import { CustomerIdentityService } from './identity';
 import { Customer, Order, CohortData } from '../../types';
 import { format, parse, startOfMonth, endOfMonth, addMonths, differenceInDays } from 'date-fns';
 
 export class CustomerCohortService extends CustomerBaseService {
+  // Resolves guest orders to their customer profile
+  private identityService = new CustomerIdentityService();
+
   constructor() {
     super('customers');
   }
@@ -42,10 +46,11 @@ export class CustomerCohortService extends CustomerBaseService {
         last_order_date: c.last_order_date ? new Date(c.last_order_date) : undefined
       }));
       
-      const parsedOrders: Order[] = orders.map((order: any) => ({
+      // Guest orders belong to guest profiles, which have cohorts like registered customers
+      const parsedOrders: Order[] = await this.identityService.attachIdentities(orders.map((order: any) => ({
         ...order,
         date_created: order.date_created ? new Date(order.date_created) : undefined
-      }));
+      })));
       
       // Group customers by acquisition month (first order date)
       const cohorts: Map<string, number[]> = new Map();
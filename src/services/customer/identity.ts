@@ -0,0 +1,113 @@
+import { CustomerBaseService } from './base';
+import { Order } from '../../types';
+import { chunkArray } from '../api/utils';
+
+// Postgres function that merges and creates guest profiles, see the README for its definition
+const RESOLVE_FUNCTION = 'resolve_guest_customers';
+
+// View that maps every order to the customer it belongs to, guest orders included
+const ORDER_IDENTITIES_VIEW = 'order_customer_identities';
+
+// Normalize a billing email so the same guest is matched however they typed it
+export const normalizeCustomerEmail = (email?: string | null): string | null => {
+  const normalized = email?.trim().toLowerCase();
+  return normalized ? normalized : null;
+};
+
+// Whether an order was placed without a customer account, WooCommerce stores these with customer 0
+export const isGuestOrder = (order: Pick<Order, 'customer_id'>): boolean => !order.customer_id;
+
+// Unifies registered customers and guest checkouts into one customer identity
+// Guests get a synthetic customers row keyed on their billing email, which is merged away once they register
+export class CustomerIdentityService extends CustomerBaseService {
+  constructor() {
+    super('customers');
+  }
+
+  // Create guest profiles for new emails and merge guests that now have an account
+  // Returns the customers whose orders may have changed, all guests are resolved when no emails are given
+  async resolveGuestCustomers(emails?: string[]): Promise<number[]> {
+    try {
+      const normalized = emails
+        ? Array.from(new Set(emails.map(normalizeCustomerEmail).filter((email): email is string => !!email)))
+        : null;
+
+      if (normalized && normalized.length === 0) return [];
+
+      const { data, error } = await this.supabase.rpc(RESOLVE_FUNCTION, {
+        p_emails: normalized
+      });
+
+      if (error) throw error;
+
+      const customerIds = ((data || []) as Array<number | string>).map(Number);
+      return Array.from(new Set(customerIds));
+    } catch (error) {
+      console.error('Error resolving guest customers:', error);
+      throw error;
+    }
+  }
+
+  // Get the customer each order belongs to, guest orders resolve to a profile by billing email
+  async getOrderCustomerIds(orderIds: number[]): Promise<Map<number, number>> {
+    try {
+      const customerIds = new Map<number, number>();
+
+      for (const batch of chunkArray(orderIds, 200)) {
+        const { data, error } = await this.supabase
+          .from(ORDER_IDENTITIES_VIEW)
+          .select('order_id, customer_id')
+          .in('order_id', batch);
+
+        if (error) throw error;
+
+        (data || []).forEach((row: { order_id: number; customer_id: number | null }) => {
+          if (row.customer_id) {
+            customerIds.set(row.order_id, row.customer_id);
+          }
+        });
+      }
+
+      return customerIds;
+    } catch (error) {
+      console.error('Error getting order customers:', error);
+      throw error;
+    }
+  }
+
+  // Get the ids of every order that belongs to a customer, including guest orders merged into it
+  async getCustomerOrderIds(customerId: number): Promise<number[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from(ORDER_IDENTITIES_VIEW)
+        .select('order_id')
+        .eq('customer_id', customerId);
+
+      if (error) throw error;
+
+      return (data || []).map((row: { order_id: number }) => row.order_id);
+    } catch (error) {
+      console.error(`Error getting orders for customer ${customerId}:`, error);
+      throw error;
+    }
+  }
+
+  // Set the unified customer on guest orders so analysis keyed on customer_id includes them
+  // Guest orders that cannot be resolved keep no customer
+  async attachIdentities<T extends Order>(orders: T[]): Promise<T[]> {
+    const guestOrderIds = orders.filter(isGuestOrder).map(order => order.id);
+    if (guestOrderIds.length === 0) return orders;
+
+    try {
+      const customerIds = await this.getOrderCustomerIds(guestOrderIds);
+      return orders.map(order => {
+        const customerId = isGuestOrder(order) ? customerIds.get(order.id) : undefined;
+        return customerId ? { ...order, customer_id: customerId } : order;
+      });
+    } catch (error) {
+      // Analysis still works without guests, it just leaves them out as before
+      console.warn('Could not resolve guest orders to customers:', error);
+      return orders;
+    }
+  }
+}
@@ -5,6 +5,10 @@ import { CustomerCohortService } from './cohort';
 import { CustomerPurchaseFrequencyService } from './purchaseFrequency';
 import { CustomerProductAffinityService } from './productAffinity';
 import { CustomerOrderTimingService } from './orderTiming';
+import { CustomerMetricsService } from './metrics';
+import { CustomerIdentityService } from './identity';
+import { CustomerAttributionService } from './attribution';
+import { CustomerCLVService } from './clv';
 
 // Create instances of all customer services
 const customerBaseService = new CustomerBaseService('customers');
@@ -14,6 +18,10 @@ const customerCohortService = new CustomerCohortService();
 const customerPurchaseFrequencyService = new CustomerPurchaseFrequencyService();
 const customerProductAffinityService = new CustomerProductAffinityService();
 const customerOrderTimingService = new CustomerOrderTimingService();
+const customerMetricsService = new CustomerMetricsService();
+const customerIdentityService = new CustomerIdentityService();
+const customerAttributionService = new CustomerAttributionService();
+const customerCLVService = new CustomerCLVService();
 
 // Export the services
 export {
@@ -23,7 +31,11 @@ export {
   customerCohortService,
   customerPurchaseFrequencyService,
   customerProductAffinityService,
-  customerOrderTimingService
+  customerOrderTimingService,
+  customerMetricsService,
+  customerIdentityService,
+  customerAttributionService,
+  customerCLVService
 };
 
 // Export the service classes
@@ -34,7 +46,11 @@ export {
   CustomerCohortService,
   CustomerPurchaseFrequencyService,
   CustomerProductAffinityService,
-  CustomerOrderTimingService
+  CustomerOrderTimingService,
+  CustomerMetricsService,
+  CustomerIdentityService,
+  CustomerAttributionService,
+  CustomerCLVService
 };
 
 class CustomersService {
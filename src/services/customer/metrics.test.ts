@@ -0,0 +1,35 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const rpc = vi.fn();
+vi.mock('../supabase', () => ({ supabase: { rpc: (...args: unknown[]) => rpc(...args) } }));
+
+import { CustomerMetricsService } from './metrics';
+
+describe('CustomerMetricsService.recomputeMetrics', () => {
+  const service = new CustomerMetricsService();
+
+  beforeEach(() => {
+    rpc.mockReset();
+    rpc.mockResolvedValue({ data: 1, error: null });
+  });
+
+  it('recomputes a guest profile from an incremental order sync', async () => {
+    await expect(service.recomputeMetrics([-42])).resolves.toBe(1);
+    expect(rpc).toHaveBeenCalledWith('recompute_customer_metrics', { p_customer_ids: [-42] });
+  });
+
+  it('keeps registered and guest customers and drops missing ids', async () => {
+    await service.recomputeMetrics([7, 0, -42, 7, -42]);
+    expect(rpc).toHaveBeenCalledWith('recompute_customer_metrics', { p_customer_ids: [7, -42] });
+  });
+
+  it('skips the recompute when no customer has an id', async () => {
+    await expect(service.recomputeMetrics([0])).resolves.toBe(0);
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
+  it('recomputes every customer when no ids are given', async () => {
+    await service.recomputeMetrics();
+    expect(rpc).toHaveBeenCalledWith('recompute_customer_metrics', { p_customer_ids: null });
+  });
+});
@@ -0,0 +1,35 @@
+import { CustomerBaseService } from './base';
+
+// Postgres function that recomputes customer aggregates from stored orders, see the README for its definition
+const RECOMPUTE_FUNCTION = 'recompute_customer_metrics';
+
+// Recomputes order totals, first and last order dates and segments from the orders table
+export class CustomerMetricsService extends CustomerBaseService {
+  constructor() {
+    super('customers');
+  }
+
+  // Recompute metrics for the given customers, or for every customer when no ids are given
+  async recomputeMetrics(customerIds?: number[]): Promise<number> {
+    try {
+      // Guest profiles have negative ids, only missing ids are dropped
+      const ids = customerIds
+        ? Array.from(new Set(customerIds.filter(id => !!id)))
+        : null;
+
+      // No customers to recompute
+      if (ids && ids.length === 0) return 0;
+
+      const { data, error } = await this.supabase.rpc(RECOMPUTE_FUNCTION, {
+        p_customer_ids: ids
+      });
+
+      if (error) throw error;
+
+      return Number(data || 0);
+    } catch (error) {
+      console.error('Error recomputing customer metrics:', error);
+      throw error;
+    }
+  }
+}
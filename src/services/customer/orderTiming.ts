@@ -1,6 +1,7 @@
 import { CustomerBaseService } from './base';
 import { Customer, Order, OrderTimingData } from '../../types';
 import { differenceInHours, format } from 'date-fns';
+import { toStoreTime } from '../../utils/dateUtils';
 
 export class CustomerOrderTimingService extends CustomerBaseService {
   constructor() {
@@ -59,7 +60,7 @@ export class CustomerOrderTimingService extends CustomerBaseService {
       
       sortedOrders.forEach(order => {
         if (!order.date_created) return;
-        const orderDate = new Date(order.date_created);
+        const orderDate = toStoreTime(order.date_created);
         const hour = orderDate.getHours();
         hourCounts[hour]++;
         
@@ -96,7 +97,7 @@ export class CustomerOrderTimingService extends CustomerBaseService {
       const dayRevenue = Array(7).fill(0);
       sortedOrders.forEach(order => {
         if (!order.date_created) return;
-        const orderDate = new Date(order.date_created);
+        const orderDate = toStoreTime(order.date_created);
         const day = orderDate.getDay();
         dayCounts[day]++;
         
@@ -140,7 +141,7 @@ export class CustomerOrderTimingService extends CustomerBaseService {
       
       sortedOrders.forEach(order => {
         if (!order.date_created) return;
-        const orderDate = new Date(order.date_created);
+        const orderDate = toStoreTime(order.date_created);
         const hour = orderDate.getHours();
         
         // Ensure proper parsing of the total field
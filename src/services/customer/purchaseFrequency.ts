@@ -1,4 +1,5 @@
 import { CustomerBaseService } from './base';
+import { normalizeCustomerEmail } from './identity';
 import { Customer, Order, PurchaseFrequencyData } from '../../types';
 import { differenceInDays } from 'date-fns';
 
@@ -21,21 +22,26 @@ export class CustomerPurchaseFrequencyService extends CustomerBaseService {
       }
       
       // Group orders by customer
-      const ordersByCustomer: Record<number, Order[]> = {};
+      // Guest orders not yet resolved to a profile are grouped by billing email
+      const ordersByCustomer: Record<string, Order[]> = {};
       
       orders.forEach(order => {
-        if (order.customer_id && order.date_created) {
-          if (!ordersByCustomer[order.customer_id]) {
-            ordersByCustomer[order.customer_id] = [];
+        const customerKey = order.customer_id
+          ? order.customer_id.toString()
+          : normalizeCustomerEmail(order.billing?.email);
+        
+        if (customerKey && order.date_created) {
+          if (!ordersByCustomer[customerKey]) {
+            ordersByCustomer[customerKey] = [];
           }
-          ordersByCustomer[order.customer_id].push(order);
+          ordersByCustomer[customerKey].push(order);
         }
       });
       
       // Calculate days between purchases for each customer
       const daysBetweenPurchases: number[] = [];
-      const customerDaysAverage: Record<number, number> = {};
-      const customerDaysBetween: Record<number, number[]> = {};
+      const customerDaysAverage: Record<string, number> = {};
+      const customerDaysBetween: Record<string, number[]> = {};
       
       Object.entries(ordersByCustomer).forEach(([customerId, customerOrders]) => {
         if (customerOrders.length < 2) return;
@@ -47,8 +53,8 @@ export class CustomerPurchaseFrequencyService extends CustomerBaseService {
             return (a.date_created as Date).getTime() - (b.date_created as Date).getTime();
           });
         
-        if (!customerDaysBetween[parseInt(customerId)]) {
-          customerDaysBetween[parseInt(customerId)] = [];
+        if (!customerDaysBetween[customerId]) {
+          customerDaysBetween[customerId] = [];
         }
         
         // Calculate days between consecutive orders
@@ -60,14 +66,14 @@ export class CustomerPurchaseFrequencyService extends CustomerBaseService {
           // Only count reasonable values (1-365 days)
           if (daysBetween >= 1 && daysBetween <= 365) {
             daysBetweenPurchases.push(daysBetween);
-            customerDaysBetween[parseInt(customerId)].push(daysBetween);
+            customerDaysBetween[customerId].push(daysBetween);
           }
         }
         
         // Calculate average for this customer
-        if (customerDaysBetween[parseInt(customerId)].length > 0) {
-          const sum = customerDaysBetween[parseInt(customerId)].reduce((a, b) => a + b, 0);
-          customerDaysAverage[parseInt(customerId)] = sum / customerDaysBetween[parseInt(customerId)].length;
+        if (customerDaysBetween[customerId].length > 0) {
+          const sum = customerDaysBetween[customerId].reduce((a, b) => a + b, 0);
+          customerDaysAverage[customerId] = sum / customerDaysBetween[customerId].length;
         }
       });
       
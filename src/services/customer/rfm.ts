@@ -1,6 +1,37 @@
 import { CustomerBaseService } from './base';
-import { Customer, CustomerRFM } from '../../types';
-import { differenceInDays } from 'date-fns';
+import { CustomerRFM, RFMDimension, RFMSegmentMigration, RFMSegmentTransition, RFMSnapshot } from '../../types';
+import { differenceInDays, subDays } from 'date-fns';
+import { settingsService } from '../settingsService';
+import {
+  NOT_SCORED_SEGMENT,
+  RFM_DIMENSIONS,
+  assignRFMSegment,
+  quintileCutPoints,
+  scoreFromBreakpoints,
+  scoreFromQuintiles
+} from './rfmSettings';
+
+// Postgres function returning each customer's RFM values from counted orders, see the README for its definition
+const VALUES_FUNCTION = 'get_customer_rfm_values';
+
+// View listing each RFM calculation and how many customers it scored
+const SNAPSHOTS_VIEW = 'customer_rfm_snapshots';
+
+const PAGE_SIZE = 1000;
+
+interface CustomerRFMValuesRow {
+  customer_id: number | string;
+  last_order_date: string;
+  order_count: number | string;
+  total_spent: number | string;
+}
+
+interface CustomerRFMValues {
+  customer_id: number;
+  last_order_date: Date;
+  order_count: number;
+  total_spent: number;
+}
 
 export class CustomerRFMService extends CustomerBaseService {
   constructor() {
@@ -10,12 +41,6 @@ export class CustomerRFMService extends CustomerBaseService {
   // Get RFM data for analytics dashboard
   async getRFMData() {
     try {
-      // Get latest RFM data
-      const { data: rfmData, error: rfmError } = await this.supabase
-        .from('customer_rfm')
-        .select('*')
-        .order('calculation_date', { ascending: false });
-      
       // Default empty RFM data structure
       const defaultRfmData = {
         rfmDistribution: [],
@@ -24,48 +49,25 @@ export class CustomerRFMService extends CustomerBaseService {
         monetaryDistribution: []
       };
       
-      if (rfmError) {
-        console.error('Error fetching RFM data:', rfmError);
-        return defaultRfmData;
-      }
+      // Get the scores from the latest calculation
+      const latestRfm = await this.getSnapshot();
       
-      if (!rfmData || rfmData.length === 0) {
+      if (latestRfm.length === 0) {
         return defaultRfmData;
       }
       
-      // Get all customers to match with RFM data
-      const { data: customers, error: customerError } = await this.supabase
-        .from('customers')
-        .select('*');
-        
-      if (customerError) {
-        console.error('Error fetching customers for RFM analysis:', customerError);
-        return defaultRfmData;
-      }
-      
-      // Group by most recent calculation date to get latest RFM scores
-      const latestRfmDate = rfmData[0].calculation_date;
-      const latestRfm = rfmData.filter(r => r.calculation_date === latestRfmDate);
-      
       // Calculate RFM distribution
       const rfmSegments: Record<string, number> = {};
       latestRfm.forEach(rfm => {
         rfmSegments[rfm.rfm_segment] = (rfmSegments[rfm.rfm_segment] || 0) + 1;
       });
       
-      // RFM segment colors
-      const rfmColors: Record<string, string> = {
-        'Champions': '#10b981',       // Emerald
-        'Loyal Customers': '#8b5cf6', // Purple
-        'Potential Loyalists': '#3b82f6', // Blue
-        'At Risk': '#f59e0b',         // Amber
-        'Cant Lose Them': '#ef4444',  // Red
-        'New Customers': '#4f46e5',   // Indigo
-        'Promising': '#06b6d4',       // Cyan
-        'Needs Attention': '#f97316', // Orange
-        'About To Sleep': '#fb7185',  // Pink
-        'Hibernating': '#64748b'      // Slate gray
-      };
+      // RFM segment colors come from the segment rules in settings
+      const { segments } = await settingsService.getRFMSettings();
+      const rfmColors: Record<string, string> = {};
+      segments.forEach(segment => {
+        rfmColors[segment.name] = segment.color;
+      });
       
       const rfmDistribution = Object.entries(rfmSegments)
         .map(([segment, count]) => ({
@@ -133,139 +135,217 @@ export class CustomerRFMService extends CustomerBaseService {
     }
   }
 
-  // Calculate RFM scores for all customers
+  // Calculate RFM scores for all customers with orders in the analysis window
+  // Each calculation is kept as a snapshot under its calculation date
   async calculateRFMScores(): Promise<void> {
     try {
-      // Get all customers
-      const { data: customers, error } = await this.supabase
-        .from('customers')
-        .select('*');
+      const settings = await settingsService.getRFMSettings();
+      const now = new Date();
+      const calculationDate = now;
       
-      if (error) {
-        console.error('Error fetching customers for RFM calculation:', error);
-        throw error;
-      }
+      // Guest profiles are included so guest checkouts are scored too
+      const customers = await this.getCustomerValues(
+        settings.analysis_window_days > 0 ? subDays(now, settings.analysis_window_days) : null
+      );
       
-      if (!customers || customers.length === 0) {
+      if (customers.length === 0) {
         console.log('No customers found for RFM calculation');
         return;
       }
       
-      // Parse dates from string to Date objects
-      const parsedCustomers: Customer[] = customers.map((c: any) => ({
-        ...c,
-        last_order_date: c.last_order_date ? new Date(c.last_order_date) : undefined
-      }));
-      
-      // Calculate RFM scores
-      const now = new Date();
-      const calculationDate = now;
-      
-      // Sort customers by recency, frequency, and monetary value
-      const sortedByRecency = [...parsedCustomers]
-        .filter(c => c.last_order_date) // Only consider customers with a last order date
-        .sort((a, b) => {
-          const aDays = a.last_order_date ? differenceInDays(now, a.last_order_date) : Infinity;
-          const bDays = b.last_order_date ? differenceInDays(now, b.last_order_date) : Infinity;
-          return aDays - bDays; // Lower days (more recent) comes first
-        });
-      
-      const sortedByFrequency = [...parsedCustomers]
-        .sort((a, b) => b.order_count - a.order_count);
-      
-      const sortedByMonetary = [...parsedCustomers]
-        .sort((a, b) => b.total_spent - a.total_spent);
+      const values = (customer: CustomerRFMValues): Record<RFMDimension, number> => ({
+        recency: differenceInDays(now, customer.last_order_date),
+        frequency: customer.order_count,
+        monetary: customer.total_spent
+      });
       
-      // Calculate quintiles for each metric
-      const quintileSize = Math.ceil(parsedCustomers.length / 5);
+      // Split customers into fifths on each dimension for quintile scoring
+      const customerValues = customers.map(values);
+      const cutPoints = {} as Record<RFMDimension, number[]>;
+      RFM_DIMENSIONS.forEach(dimension => {
+        cutPoints[dimension] = quintileCutPoints(dimension, customerValues.map(value => value[dimension]));
+      });
       
       // RFM scores for each customer
-      const rfmScores: CustomerRFM[] = [];
-      
-      parsedCustomers.forEach(customer => {
-        // Skip customers with no orders
-        if (!customer.last_order_date || customer.order_count === 0) {
-          return;
-        }
-        
-        // Calculate recency score (5 = most recent, 1 = least recent)
-        const recencyIndex = sortedByRecency.findIndex(c => c.id === customer.id);
-        const recencyScore = recencyIndex !== -1 
-          ? 5 - Math.floor(recencyIndex / quintileSize) 
-          : 1;
-        
-        // Calculate frequency score (5 = most frequent, 1 = least frequent)
-        const frequencyIndex = sortedByFrequency.findIndex(c => c.id === customer.id);
-        const frequencyScore = frequencyIndex !== -1 
-          ? 5 - Math.floor(frequencyIndex / quintileSize) 
-          : 1;
+      const rfmScores: CustomerRFM[] = customers.map((customer, index) => {
+        const scores = {} as Record<RFMDimension, number>;
         
-        // Calculate monetary score (5 = highest value, 1 = lowest value)
-        const monetaryIndex = sortedByMonetary.findIndex(c => c.id === customer.id);
-        const monetaryScore = monetaryIndex !== -1 
-          ? 5 - Math.floor(monetaryIndex / quintileSize) 
-          : 1;
-        
-        // Combined RFM score
-        const rfmScore = recencyScore * 100 + frequencyScore * 10 + monetaryScore;
-        
-        // Determine RFM segment based on scores
-        let rfmSegment = '';
-        
-        if (recencyScore >= 4 && frequencyScore >= 4 && monetaryScore >= 4) {
-          rfmSegment = 'Champions';
-        } else if (recencyScore >= 3 && frequencyScore >= 3 && monetaryScore >= 3) {
-          rfmSegment = 'Loyal Customers';
-        } else if (recencyScore >= 3 && frequencyScore >= 1 && monetaryScore >= 2) {
-          rfmSegment = 'Potential Loyalists';
-        } else if (recencyScore <= 2 && frequencyScore >= 2 && monetaryScore >= 2) {
-          rfmSegment = 'At Risk';
-        } else if (recencyScore <= 1 && frequencyScore >= 4 && monetaryScore >= 4) {
-          rfmSegment = 'Cant Lose Them';
-        } else if (recencyScore >= 4 && frequencyScore <= 1 && monetaryScore >= 1) {
-          rfmSegment = 'New Customers';
-        } else if (recencyScore >= 3 && frequencyScore <= 1 && monetaryScore <= 1) {
-          rfmSegment = 'Promising';
-        } else if (recencyScore >= 2 && frequencyScore >= 2 && monetaryScore >= 2) {
-          rfmSegment = 'Needs Attention';
-        } else if (recencyScore >= 2 && frequencyScore <= 1 && monetaryScore <= 2) {
-          rfmSegment = 'About To Sleep';
-        } else {
-          rfmSegment = 'Hibernating';
-        }
+        // 5 = most recent, most frequent or highest value, 1 = least
+        RFM_DIMENSIONS.forEach(dimension => {
+          const { method, breakpoints } = settings[dimension];
+          const value = customerValues[index][dimension];
+          scores[dimension] = method === 'custom'
+            ? scoreFromBreakpoints(dimension, value, breakpoints)
+            : scoreFromQuintiles(dimension, value, cutPoints[dimension]);
+        });
         
-        // Add to RFM scores array
-        rfmScores.push({
-          customer_id: customer.id,
-          recency_score: recencyScore,
-          frequency_score: frequencyScore,
-          monetary_score: monetaryScore,
-          rfm_score: rfmScore,
-          rfm_segment: rfmSegment,
+        return {
+          customer_id: customer.customer_id,
+          recency_score: scores.recency,
+          frequency_score: scores.frequency,
+          monetary_score: scores.monetary,
+          rfm_score: scores.recency * 100 + scores.frequency * 10 + scores.monetary,
+          rfm_segment: assignRFMSegment(scores, settings.segments),
           calculation_date: calculationDate
-        });
+        };
       });
       
-      // Save RFM scores to database
-      if (rfmScores.length > 0) {
-        // Insert in batches to avoid too many rows at once
-        const batchSize = 100;
-        for (let i = 0; i < rfmScores.length; i += batchSize) {
-          const batch = rfmScores.slice(i, i + batchSize);
-          const { error: insertError } = await this.supabase
+      // Insert in batches to avoid too many rows at once
+      const batchSize = 100;
+      for (let i = 0; i < rfmScores.length; i += batchSize) {
+        const batch = rfmScores.slice(i, i + batchSize);
+        const { error: insertError } = await this.supabase
+          .from('customer_rfm')
+          .insert(batch);
+        
+        if (insertError) {
+          console.error(`Error inserting RFM scores batch ${i}:`, insertError);
+          // Remove the batches already inserted so a partial calculation never shows up as a snapshot
+          const { error: deleteError } = await this.supabase
             .from('customer_rfm')
-            .insert(batch);
+            .delete()
+            .eq('calculation_date', calculationDate.toISOString());
           
-          if (insertError) {
-            console.error(`Error inserting RFM scores batch ${i}:`, insertError);
+          if (deleteError) {
+            console.error('Error removing partial RFM calculation:', deleteError);
           }
+          throw insertError;
         }
-        
-        console.log(`Calculated RFM scores for ${rfmScores.length} customers`);
       }
+      
+      console.log(`Calculated RFM scores for ${rfmScores.length} customers`);
     } catch (error) {
       console.error('Error in calculateRFMScores:', error);
       throw error;
     }
   }
-} 
\ No newline at end of file
+
+  // Get each customer's last order, order count and spend from orders since the given date
+  private async getCustomerValues(since: Date | null): Promise<CustomerRFMValues[]> {
+    const customers: CustomerRFMValues[] = [];
+    
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .rpc(VALUES_FUNCTION, { p_since: since ? since.toISOString() : null })
+        .range(from, from + PAGE_SIZE - 1);
+      
+      if (error) {
+        console.error('Error fetching customers for RFM calculation:', error);
+        throw error;
+      }
+      
+      const rows = (data || []) as CustomerRFMValuesRow[];
+      rows.forEach(row => {
+        customers.push({
+          customer_id: Number(row.customer_id),
+          last_order_date: new Date(row.last_order_date),
+          order_count: Number(row.order_count),
+          total_spent: Number(row.total_spent)
+        });
+      });
+      
+      if (rows.length < PAGE_SIZE) return customers;
+    }
+  }
+
+  // Get every RFM calculation, newest first
+  async getSnapshots(): Promise<RFMSnapshot[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from(SNAPSHOTS_VIEW)
+        .select('calculation_date, customers')
+        .order('calculation_date', { ascending: false });
+      
+      if (error) throw error;
+      
+      return (data || []).map((row: { calculation_date: string; customers: number | string }) => ({
+        calculation_date: row.calculation_date,
+        customers: Number(row.customers)
+      }));
+    } catch (error) {
+      console.error('Error getting RFM snapshots:', error);
+      throw error;
+    }
+  }
+
+  // Get the scores from one calculation, the latest when no date is given
+  async getSnapshot(calculationDate?: string): Promise<CustomerRFM[]> {
+    try {
+      let date = calculationDate;
+      if (!date) {
+        const { data: latest, error: latestError } = await this.supabase
+          .from('customer_rfm')
+          .select('calculation_date')
+          .order('calculation_date', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+        
+        if (latestError) throw latestError;
+        if (!latest) return [];
+        date = latest.calculation_date as string;
+      }
+      
+      const scores: CustomerRFM[] = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await this.supabase
+          .from('customer_rfm')
+          .select('*')
+          .eq('calculation_date', date)
+          .order('customer_id')
+          .range(from, from + PAGE_SIZE - 1);
+        
+        if (error) throw error;
+        
+        scores.push(...((data || []) as CustomerRFM[]));
+        if (!data || data.length < PAGE_SIZE) return scores;
+      }
+    } catch (error) {
+      console.error('Error getting RFM snapshot:', error);
+      throw error;
+    }
+  }
+
+  // Compare segments between two calculations
+  async getSegmentMigration(fromDate: string, toDate: string): Promise<RFMSegmentMigration> {
+    const [from, to] = await Promise.all([this.getSnapshot(fromDate), this.getSnapshot(toDate)]);
+    const { segments } = await settingsService.getRFMSettings();
+    return buildSegmentMigration(from, to, fromDate, toDate, segments.map(segment => segment.name));
+  }
+}
+
+// Count the customers moving from each segment to each other segment between two snapshots
+// Customers in only one snapshot move from or to the not scored segment
+export const buildSegmentMigration = (
+  from: CustomerRFM[],
+  to: CustomerRFM[],
+  fromDate: string,
+  toDate: string,
+  segmentOrder: string[] = []
+): RFMSegmentMigration => {
+  const fromSegments = new Map(from.map(rfm => [rfm.customer_id, rfm.rfm_segment]));
+  const toSegments = new Map(to.map(rfm => [rfm.customer_id, rfm.rfm_segment]));
+  const counts = new Map<string, RFMSegmentTransition>();
+  
+  const count = (fromSegment: string, toSegment: string) => {
+    const key = `${fromSegment}\u0000${toSegment}`;
+    const transition = counts.get(key) || { from: fromSegment, to: toSegment, count: 0 };
+    transition.count += 1;
+    counts.set(key, transition);
+  };
+  
+  fromSegments.forEach((segment, customerId) => count(segment, toSegments.get(customerId) || NOT_SCORED_SEGMENT));
+  toSegments.forEach((segment, customerId) => {
+    if (!fromSegments.has(customerId)) count(NOT_SCORED_SEGMENT, segment);
+  });
+  
+  // Segments in the order of the segment rules, then any renamed or removed ones, then not scored
+  const transitions = Array.from(counts.values());
+  const seen = new Set(transitions.flatMap(transition => [transition.from, transition.to]));
+  const segments = [
+    ...segmentOrder.filter(segment => seen.has(segment)),
+    ...Array.from(seen).filter(segment => !segmentOrder.includes(segment) && segment !== NOT_SCORED_SEGMENT).sort(),
+    ...(seen.has(NOT_SCORED_SEGMENT) ? [NOT_SCORED_SEGMENT] : [])
+  ];
+  
+  return { fromDate, toDate, segments, transitions };
+};
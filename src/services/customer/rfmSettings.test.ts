@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { quintileCutPoints, scoreFromBreakpoints, scoreFromQuintiles } from './rfmSettings';
+
+describe('quintile scoring', () => {
+  const score = (dimension: 'recency' | 'frequency', values: number[]) => {
+    const cutPoints = quintileCutPoints(dimension, values);
+    return values.map(value => scoreFromQuintiles(dimension, value, cutPoints));
+  };
+
+  it('gives each fifth of distinct values its own score', () => {
+    expect(score('frequency', [1, 2, 3, 4, 5, 6, 7, 8, 9, 10])).toEqual([1, 1, 2, 2, 3, 3, 4, 4, 5, 5]);
+  });
+
+  it('scores fewer days since the last order higher', () => {
+    expect(score('recency', [10, 20, 30, 40, 50])).toEqual([5, 4, 3, 2, 1]);
+  });
+
+  it('gives tied values the same score', () => {
+    // Most customers have ordered once, they all score 1 however they were sorted
+    const scores = score('frequency', [1, 1, 1, 1, 1, 1, 1, 2, 3, 8]);
+    expect(new Set(scores.slice(0, 7))).toEqual(new Set([1]));
+    expect(scores.slice(7)).toEqual([4, 5, 5]);
+  });
+
+  it('gives customers who last ordered on the same day the same recency score', () => {
+    const scores = score('recency', [3, 3, 3, 3, 40, 60]);
+    expect(new Set(scores.slice(0, 4)).size).toBe(1);
+  });
+});
+
+describe('scoreFromBreakpoints', () => {
+  it('scores values against fixed breakpoints', () => {
+    expect(scoreFromBreakpoints('recency', 45, [30, 90, 180, 365])).toBe(4);
+    expect(scoreFromBreakpoints('frequency', 5, [2, 3, 5, 10])).toBe(4);
+  });
+});
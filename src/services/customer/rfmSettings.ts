@@ -0,0 +1,161 @@
+import { RFMDimension, RFMDimensionSettings, RFMSegmentRule, RFMSettings } from '../../types';
+
+export const RFM_DIMENSIONS: RFMDimension[] = ['recency', 'frequency', 'monetary'];
+
+// Label for customers in only one of two snapshots when comparing segments
+export const NOT_SCORED_SEGMENT = 'Not scored';
+
+// The segments scoring has always used, checked in this order
+const DEFAULT_SEGMENTS: RFMSegmentRule[] = [
+  {
+    name: 'Champions',
+    color: '#10b981',
+    description: 'Customers who bought recently, buy often, and spend the most.',
+    recency: [4, 5], frequency: [4, 5], monetary: [4, 5]
+  },
+  {
+    name: 'Loyal Customers',
+    color: '#8b5cf6',
+    description: 'Customers who bought recently, buy often, and spend above average.',
+    recency: [3, 5], frequency: [3, 5], monetary: [3, 5]
+  },
+  {
+    name: 'Potential Loyalists',
+    color: '#3b82f6',
+    description: 'Recent customers with average frequency and monetary values.',
+    recency: [3, 5], frequency: [1, 5], monetary: [2, 5]
+  },
+  {
+    name: 'At Risk',
+    color: '#f59e0b',
+    description: 'Customers who purchased often but haven\'t returned for a long time.',
+    recency: [1, 2], frequency: [2, 5], monetary: [2, 5]
+  },
+  {
+    name: 'Cant Lose Them',
+    color: '#ef4444',
+    description: 'Made big purchases and purchased often but haven\'t returned lately.',
+    recency: [1, 1], frequency: [4, 5], monetary: [4, 5]
+  },
+  {
+    name: 'New Customers',
+    color: '#4f46e5',
+    description: 'Bought most recently, but not often.',
+    recency: [4, 5], frequency: [1, 1], monetary: [1, 5]
+  },
+  {
+    name: 'Promising',
+    color: '#06b6d4',
+    description: 'Recent shoppers who haven\'t spent much.',
+    recency: [3, 5], frequency: [1, 1], monetary: [1, 1]
+  },
+  {
+    name: 'Needs Attention',
+    color: '#f97316',
+    description: 'Above average recency, frequency and monetary values.',
+    recency: [2, 5], frequency: [2, 5], monetary: [2, 5]
+  },
+  {
+    name: 'About To Sleep',
+    color: '#fb7185',
+    description: 'Below average recency, frequency, and monetary values.',
+    recency: [2, 5], frequency: [1, 1], monetary: [1, 2]
+  },
+  {
+    name: 'Hibernating',
+    color: '#64748b',
+    description: 'Customers who last purchased long time ago and have made few purchases.',
+    recency: [1, 5], frequency: [1, 5], monetary: [1, 5]
+  }
+];
+
+export const DEFAULT_RFM_SETTINGS: RFMSettings = {
+  recency: { method: 'quintile', breakpoints: [30, 90, 180, 365] },
+  frequency: { method: 'quintile', breakpoints: [2, 3, 5, 10] },
+  monetary: { method: 'quintile', breakpoints: [100, 250, 500, 1000] },
+  segments: DEFAULT_SEGMENTS,
+  analysis_window_days: 0
+};
+
+const clampScore = (value: unknown, fallback: number) => {
+  const score = Math.round(Number(value));
+  return Number.isFinite(score) ? Math.min(Math.max(score, 1), 5) : fallback;
+};
+
+const normalizeRange = (range: unknown): [number, number] => {
+  const [min, max] = Array.isArray(range) ? range : [];
+  const low = clampScore(min, 1);
+  const high = clampScore(max, 5);
+  return low <= high ? [low, high] : [high, low];
+};
+
+const normalizeDimension = (value: unknown, fallback: RFMDimensionSettings): RFMDimensionSettings => {
+  const dimension = (value || {}) as Partial<RFMDimensionSettings>;
+  const breakpoints = (Array.isArray(dimension.breakpoints) ? dimension.breakpoints : [])
+    .map(Number)
+    .filter(breakpoint => Number.isFinite(breakpoint) && breakpoint >= 0)
+    .sort((a, b) => a - b);
+
+  return {
+    method: dimension.method === 'custom' ? 'custom' : 'quintile',
+    breakpoints: breakpoints.length === 4 ? breakpoints : fallback.breakpoints
+  };
+};
+
+// Fill in anything missing or invalid from stored settings with the defaults
+export const normalizeRFMSettings = (value: unknown): RFMSettings => {
+  const settings = (value || {}) as Partial<RFMSettings>;
+  const segments = (Array.isArray(settings.segments) ? settings.segments : [])
+    .filter(segment => segment && typeof segment.name === 'string' && segment.name.trim())
+    .map(segment => ({
+      name: segment.name.trim(),
+      color: typeof segment.color === 'string' && segment.color ? segment.color : '#64748b',
+      description: segment.description || '',
+      recency: normalizeRange(segment.recency),
+      frequency: normalizeRange(segment.frequency),
+      monetary: normalizeRange(segment.monetary)
+    }));
+
+  return {
+    recency: normalizeDimension(settings.recency, DEFAULT_RFM_SETTINGS.recency),
+    frequency: normalizeDimension(settings.frequency, DEFAULT_RFM_SETTINGS.frequency),
+    monetary: normalizeDimension(settings.monetary, DEFAULT_RFM_SETTINGS.monetary),
+    segments: segments.length > 0 ? segments : DEFAULT_RFM_SETTINGS.segments,
+    analysis_window_days: Math.max(Math.round(Number(settings.analysis_window_days) || 0), 0)
+  };
+};
+
+// Score a value against custom breakpoints, fewer days since the last order scores higher for recency
+export const scoreFromBreakpoints = (dimension: RFMDimension, value: number, breakpoints: number[]): number => {
+  if (dimension === 'recency') {
+    return 5 - breakpoints.filter(breakpoint => value > breakpoint).length;
+  }
+  return 1 + breakpoints.filter(breakpoint => value >= breakpoint).length;
+};
+
+// Quintiles are worked out on values where higher is better, so recency days are negated
+const quintileValue = (dimension: RFMDimension, value: number) => (dimension === 'recency' ? -value : value);
+
+// Values splitting all scored customers into fifths, equal values land in the same fifth
+export const quintileCutPoints = (dimension: RFMDimension, values: number[]): number[] => {
+  const sorted = values.map(value => quintileValue(dimension, value)).sort((a, b) => a - b);
+  return [1, 2, 3, 4].map(quintile => sorted[Math.ceil((sorted.length * quintile) / 5) - 1]);
+};
+
+// Score a value against the quintile cut points, the top fifth scores 5 and ties share the lower score
+export const scoreFromQuintiles = (dimension: RFMDimension, value: number, cutPoints: number[]): number =>
+  1 + cutPoints.filter(cutPoint => quintileValue(dimension, value) > cutPoint).length;
+
+// First segment whose ranges contain all three scores, customers matching none fall into the last segment
+export const assignRFMSegment = (
+  scores: Record<RFMDimension, number>,
+  segments: RFMSegmentRule[]
+): string => {
+  const match = segments.find(segment =>
+    RFM_DIMENSIONS.every(dimension => {
+      const [min, max] = segment[dimension];
+      return scores[dimension] >= min && scores[dimension] <= max;
+    })
+  );
+  return (match || segments[segments.length - 1]).name;
+};
@@ -2,6 +2,7 @@ import { supabase } from './supabase';
 import { SupabaseService } from './supabaseService';
 import { Customer, CustomerRFM, CustomerAcquisition, CustomerAnalyticsData, Order, CohortData, PurchaseFrequencyData, ProductAffinityData, ProductPair, OrderTimingData } from '../types';
 import { format, differenceInDays, parse, parseISO, startOfMonth, endOfMonth, addMonths, differenceInMonths, getDay, getHours } from 'date-fns';
+import { toStoreTime } from '../utils/dateUtils';
 import { customersService as modularCustomerService } from './customer';
 
 export class CustomersService extends SupabaseService<Customer> {
@@ -1408,7 +1409,7 @@ export class CustomersService extends SupabaseService<Customer> {
     orders.forEach(order => {
       if (!order.date_created) return;
       
-      const orderDate = new Date(order.date_created);
+      const orderDate = toStoreTime(order.date_created);
       const weekday = getDay(orderDate);
       const hour = getHours(orderDate);
       const orderTotal = parseFloat(order.total.toString());
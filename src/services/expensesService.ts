@@ -1,4 +1,4 @@
-import { Expense, ExpenseCategory, ExpenseImport } from '../types';
+import { Expense, ExpenseCategory, ExpenseImport, RecurringExpense } from '../types';
 import { SupabaseService } from './supabaseService';
 import { supabase } from './supabase';
 
@@ -121,7 +121,35 @@ export class ExpenseImportsService extends SupabaseService<ExpenseImport> {
   }
 }
 
+/**
+ * Recurring expenses service for Supabase
+ */
+export class RecurringExpensesService extends SupabaseService<RecurringExpense> {
+  constructor() {
+    super('recurring_expenses');
+  }
+
+  /**
+   * Get recurring expenses that are running at some point in a date range
+   */
+  async getActiveInRange(startDate: Date, endDate: Date): Promise<RecurringExpense[]> {
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .select('*')
+      .lte('start_date', endDate.toISOString())
+      .or(`end_date.is.null,end_date.gte.${startDate.toISOString()}`);
+
+    if (error) {
+      console.error('Error fetching recurring expenses by date range:', error);
+      throw error;
+    }
+
+    return data as RecurringExpense[];
+  }
+}
+
 // Export instances of the services
 export const expensesService = new ExpensesService();
 export const expenseCategoriesService = new ExpenseCategoriesService();
-export const expenseImportsService = new ExpenseImportsService(); 
\ No newline at end of file
+export const expenseImportsService = new ExpenseImportsService(); 
+export const recurringExpensesService = new RecurringExpensesService();
@@ -0,0 +1,88 @@
+import { ExpiryAlertDigest } from '../../types';
+import { formatCurrency } from '../reports/utils';
+import { formatStoreDate, formatStoreDateOnly } from '../../utils/dateUtils';
+
+const escapeCsvValue = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+/**
+ * Build a CSV of the alerts in an expiry digest
+ */
+export const buildExpiryDigestCsv = (digest: ExpiryAlertDigest): string => {
+  const headers = [
+    'SKU',
+    'Product',
+    'Batch Number',
+    'Expiry Date',
+    'Days to Expiry',
+    'Horizon (days)',
+    'Quantity',
+    'Unit Cost',
+    'Cost at Risk',
+    'Daily Sales',
+    'Projected Sales',
+    'Projected Unsold',
+    'Unsold Cost at Risk',
+    'Price',
+    'Suggested Markdown %',
+    'Suggested Price'
+  ];
+
+  const rows = digest.alerts.map(alert => [
+    alert.sku,
+    alert.product_name,
+    alert.batch_number || '',
+    formatStoreDateOnly(new Date(alert.expiry_date)),
+    alert.days_to_expiry.toString(),
+    alert.horizon.toString(),
+    alert.quantity.toString(),
+    alert.unit_cost.toFixed(2),
+    alert.cost_at_risk.toFixed(2),
+    alert.daily_velocity.toFixed(2),
+    alert.projected_sales.toString(),
+    alert.projected_unsold.toString(),
+    alert.unsold_cost_at_risk.toFixed(2),
+    alert.unit_price.toFixed(2),
+    alert.suggested_markdown_percent.toString(),
+    alert.suggested_price.toFixed(2)
+  ]);
+
+  return [headers, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\n');
+};
+
+/**
+ * Build a plain text email with the horizon totals and the batches that need a markdown
+ */
+export const buildExpiryDigestEmailBody = (digest: ExpiryAlertDigest): { subject: string; body: string } => {
+  const atRisk = digest.alerts.filter(alert => alert.projected_unsold > 0);
+  const largestHorizon = digest.horizons[digest.horizons.length - 1];
+
+  const lines = [
+    `Expiry alert digest for ${formatStoreDate(new Date(digest.generated_at))}`,
+    '',
+    ...digest.horizons.map(summary =>
+      `Within ${summary.horizon} days: ${summary.batch_count} batches, ${summary.quantity} units, ` +
+      `${formatCurrency(summary.cost_at_risk)} at cost (${formatCurrency(summary.unsold_cost_at_risk)} not expected to sell)`
+    ),
+    ''
+  ];
+
+  if (atRisk.length === 0) {
+    lines.push('All expiring batches are expected to sell through before they expire.');
+  } else {
+    lines.push('Batches not expected to sell through at the current price:');
+    atRisk.forEach(alert => {
+      const batch = alert.batch_number ? ` batch ${alert.batch_number}` : '';
+      lines.push(
+        `- ${alert.product_name} (${alert.sku})${batch}: ${alert.quantity} units expire ` +
+        `${formatStoreDateOnly(new Date(alert.expiry_date))}, ${alert.projected_unsold} unsold ` +
+        `(${formatCurrency(alert.unsold_cost_at_risk)}). ` +
+        `Suggest ${alert.suggested_markdown_percent}% off, ${formatCurrency(alert.unit_price)} to ${formatCurrency(alert.suggested_price)}`
+      );
+    });
+  }
+
+  return {
+    subject: `Expiry alerts: ${formatCurrency(largestHorizon?.cost_at_risk || 0)} of stock expiring within ${largestHorizon?.horizon || 0} days`,
+    body: lines.join('\n')
+  };
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { ProductExpiry } from '../../types';
+import { getAlertHorizon, projectBatchSales, suggestMarkdownPercent } from './expiryAlertCalculations';
+
+const now = new Date('2025-06-30T12:00:00Z');
+
+const batch = (id: number, expiryDate: string, quantity: number): ProductExpiry => ({
+  id,
+  sku: 'SKU-1',
+  expiry_date: new Date(expiryDate),
+  quantity
+}) as ProductExpiry;
+
+describe('projectBatchSales', () => {
+  it('sells the first batch to expire before later ones', () => {
+    const projected = projectBatchSales([
+      batch(2, '2025-07-20T12:00:00Z', 30),
+      batch(1, '2025-07-10T12:00:00Z', 8)
+    ], 1.5, now);
+
+    // 15 units sell in the first 10 days but the first batch only has 8, the rest of 30 go to the second
+    expect(projected.get(1)).toBe(8);
+    expect(projected.get(2)).toBe(22);
+  });
+
+  it('projects no sales for expired batches or SKUs that do not sell', () => {
+    expect(projectBatchSales([batch(1, '2025-06-20T12:00:00Z', 5)], 2, now).get(1)).toBe(0);
+    expect(projectBatchSales([batch(1, '2025-07-10T12:00:00Z', 5)], 0, now).get(1)).toBe(0);
+  });
+});
+
+describe('suggestMarkdownPercent', () => {
+  it('suggests no markdown for batches that will sell through', () => {
+    expect(suggestMarkdownPercent(10, 10, 50)).toBe(0);
+  });
+
+  it('suggests the maximum markdown for batches with no sales', () => {
+    expect(suggestMarkdownPercent(10, 0, 50)).toBe(50);
+  });
+
+  it('rounds the markdown needed up to a 5% step and caps it at the maximum', () => {
+    expect(suggestMarkdownPercent(12, 10, 50)).toBe(10);
+    expect(suggestMarkdownPercent(15, 10, 50)).toBe(25);
+    expect(suggestMarkdownPercent(30, 10, 50)).toBe(50);
+  });
+});
+
+describe('getAlertHorizon', () => {
+  it('finds the smallest horizon the days fall within', () => {
+    const horizons = [60, 30, 90];
+
+    expect(getAlertHorizon(5, horizons)).toBe(30);
+    expect(getAlertHorizon(30, horizons)).toBe(30);
+    expect(getAlertHorizon(45, horizons)).toBe(60);
+    expect(getAlertHorizon(100, horizons)).toBeNull();
+  });
+});
@@ -0,0 +1,76 @@
+import { differenceInCalendarDays } from 'date-fns';
+import { ExpiryAlert, ExpiryAlertHorizonSummary, ProductExpiry } from '../../types';
+
+// Assumed lift in unit sales for each 1% taken off the price
+const DEMAND_LIFT_PER_MARKDOWN_PERCENT = 0.02;
+
+// Suggested markdowns are rounded up to this step
+const MARKDOWN_STEP_PERCENT = 5;
+
+/**
+ * Project units each batch of a SKU will sell before it expires at the current sales velocity
+ * Batches sell first-expiry-first-out, so earlier batches take demand before later ones
+ */
+export function projectBatchSales(
+  batches: ProductExpiry[],
+  dailyVelocity: number,
+  now: Date = new Date()
+): Map<number, number> {
+  const projected = new Map<number, number>();
+  let soldBefore = 0;
+
+  [...batches]
+    .sort((a, b) => new Date(a.expiry_date).getTime() - new Date(b.expiry_date).getTime())
+    .forEach(batch => {
+      const daysToExpiry = Math.max(differenceInCalendarDays(new Date(batch.expiry_date), now), 0);
+      const demand = Math.max(dailyVelocity * daysToExpiry - soldBefore, 0);
+      const sales = Math.min(Math.floor(demand), batch.quantity);
+      projected.set(batch.id!, sales);
+      soldBefore += sales;
+    });
+
+  return projected;
+}
+
+/**
+ * Suggest a markdown percentage that lifts sales enough to clear a batch before it expires
+ * Batches with no sales get the maximum markdown, batches that will sell through get none
+ */
+export function suggestMarkdownPercent(
+  quantity: number,
+  projectedSales: number,
+  maxMarkdownPercent: number
+): number {
+  if (projectedSales >= quantity) return 0;
+  if (projectedSales <= 0) return maxMarkdownPercent;
+
+  const liftNeeded = quantity / projectedSales - 1;
+  const markdown = Math.ceil(liftNeeded / DEMAND_LIFT_PER_MARKDOWN_PERCENT / MARKDOWN_STEP_PERCENT) * MARKDOWN_STEP_PERCENT;
+  return Math.min(markdown, maxMarkdownPercent);
+}
+
+/**
+ * Find the smallest horizon a number of days falls within
+ */
+export function getAlertHorizon(daysToExpiry: number, horizons: number[]): number | null {
+  return [...horizons].sort((a, b) => a - b).find(horizon => daysToExpiry <= horizon) ?? null;
+}
+
+/**
+ * Total the alerts within each horizon
+ * Horizons are cumulative, so the 60 day total includes batches expiring within 30 days
+ */
+export function summariseAlertHorizons(alerts: ExpiryAlert[], horizons: number[]): ExpiryAlertHorizonSummary[] {
+  return [...horizons]
+    .sort((a, b) => a - b)
+    .map(horizon => {
+      const within = alerts.filter(alert => alert.days_to_expiry <= horizon);
+      return {
+        horizon,
+        batch_count: within.length,
+        quantity: within.reduce((sum, alert) => sum + alert.quantity, 0),
+        cost_at_risk: within.reduce((sum, alert) => sum + alert.cost_at_risk, 0),
+        unsold_cost_at_risk: within.reduce((sum, alert) => sum + alert.unsold_cost_at_risk, 0)
+      };
+    });
+}
@@ -0,0 +1,128 @@
+import { differenceInCalendarDays, subDays } from 'date-fns';
+import { ExpiryAlert, ExpiryAlertDigest, ExpiryAlertSettings, ProductExpiry } from '../../types';
+import { inventoryService, productsService, productVariationsService } from '../../services';
+import { settingsService } from '../settingsService';
+import { getExpiringProducts } from '../../db/operations/expiry';
+import { getStockMovementsByType } from '../../db/operations/stockReconciliation';
+import { calculateSalesVelocity } from '../reorder/reorderCalculations';
+import { createInventoryMap, getCostPrice } from '../pnl/inventoryUtils';
+import {
+  getAlertHorizon,
+  projectBatchSales,
+  suggestMarkdownPercent,
+  summariseAlertHorizons
+} from './expiryAlertCalculations';
+
+/**
+ * Get product names and selling prices by SKU
+ */
+const getProductPricing = async (): Promise<Map<string, { name: string; price: number }>> => {
+  const [products, variations] = await Promise.all([
+    productsService.getAll(),
+    productVariationsService.getAll()
+  ]);
+  const pricing = new Map<string, { name: string; price: number }>();
+  const productNames = new Map(products.map(product => [product.id, product.name]));
+
+  products.forEach(product => {
+    if (!product.sku) return;
+    pricing.set(product.sku, { name: product.name, price: Number(product.price || product.regular_price) || 0 });
+  });
+  variations.forEach(variation => {
+    if (!variation.sku) return;
+    const parentName = productNames.get(variation.parent_id);
+    pricing.set(variation.sku, {
+      name: variation.name || (parentName ? `${parentName} (${variation.sku})` : variation.sku),
+      price: Number(variation.price || variation.regular_price) || 0
+    });
+  });
+
+  return pricing;
+};
+
+/**
+ * Build the expiry alert digest for batches expiring within the largest horizon
+ * Each batch gets its cost at risk and a markdown suggestion from current sales velocity
+ */
+export const loadExpiryAlertDigest = async (
+  settings?: ExpiryAlertSettings,
+  now: Date = new Date()
+): Promise<ExpiryAlertDigest> => {
+  try {
+    const alertSettings = settings || await settingsService.getExpiryAlertSettings();
+    const maxHorizon = Math.max(...alertSettings.horizons);
+
+    const [batches, saleMovements, inventory, pricing] = await Promise.all([
+      getExpiringProducts(maxHorizon),
+      getStockMovementsByType('sale', subDays(now, alertSettings.lookback_days)),
+      inventoryService.getAll(),
+      getProductPricing()
+    ]);
+
+    const velocity = calculateSalesVelocity(saleMovements, alertSettings.lookback_days, now);
+    const inventoryMap = createInventoryMap(inventory);
+
+    // Batches of the same SKU compete for the same sales
+    const batchesBySku = new Map<string, ProductExpiry[]>();
+    batches
+      .filter(batch => batch.id && batch.quantity > 0)
+      .forEach(batch => {
+        batchesBySku.set(batch.sku, [...(batchesBySku.get(batch.sku) || []), batch]);
+      });
+
+    const alerts: ExpiryAlert[] = [];
+
+    batchesBySku.forEach((skuBatches, sku) => {
+      const dailyVelocity = velocity.get(sku) || 0;
+      const projected = projectBatchSales(skuBatches, dailyVelocity, now);
+      const unitCost = getCostPrice({ sku }, inventoryMap);
+      const product = pricing.get(sku);
+      const unitPrice = product?.price || 0;
+
+      skuBatches.forEach(batch => {
+        const daysToExpiry = differenceInCalendarDays(new Date(batch.expiry_date), now);
+        const horizon = getAlertHorizon(daysToExpiry, alertSettings.horizons);
+        if (horizon === null) return;
+
+        const projectedSales = projected.get(batch.id!) || 0;
+        const projectedUnsold = batch.quantity - projectedSales;
+        const markdown = suggestMarkdownPercent(batch.quantity, projectedSales, alertSettings.max_markdown_percent);
+
+        alerts.push({
+          product_expiry_id: batch.id!,
+          sku,
+          product_name: batch.product_name || product?.name || sku,
+          batch_number: batch.batch_number,
+          expiry_date: batch.expiry_date,
+          days_to_expiry: daysToExpiry,
+          horizon,
+          quantity: batch.quantity,
+          unit_cost: unitCost,
+          cost_at_risk: unitCost * batch.quantity,
+          daily_velocity: dailyVelocity,
+          projected_sales: projectedSales,
+          projected_unsold: projectedUnsold,
+          unsold_cost_at_risk: unitCost * projectedUnsold,
+          unit_price: unitPrice,
+          suggested_markdown_percent: markdown,
+          suggested_price: Math.round(unitPrice * (100 - markdown)) / 100
+        });
+      });
+    });
+
+    alerts.sort((a, b) => a.days_to_expiry - b.days_to_expiry || b.unsold_cost_at_risk - a.unsold_cost_at_risk);
+
+    return {
+      generated_at: now,
+      settings: alertSettings,
+      horizons: summariseAlertHorizons(alerts, alertSettings.horizons),
+      alerts
+    };
+  } catch (error) {
+    console.error('Error loading expiry alert digest:', error);
+    throw error;
+  }
+};
+
+export * from './expiryAlertCalculations';
+export * from './digestExport';
@@ -1,4 +1,4 @@
-import { ProductExpiry } from '../types';
+import { ProductExpiry, StockMovementBatch, StockWriteOff } from '../types';
 import { SupabaseService } from './supabaseService';
 import { supabase } from './supabase';
 
@@ -120,5 +120,126 @@ export class ProductExpiryService extends SupabaseService<ProductExpiry & { id?:
   }
 }
 
-// Export an instance of the service
-export const productExpiryService = new ProductExpiryService(); 
\ No newline at end of file
+/**
+ * Stock movement batch allocations service for Supabase
+ */
+export class StockMovementBatchesService extends SupabaseService<StockMovementBatch> {
+  constructor() {
+    super('stock_movement_batches');
+  }
+
+  /**
+   * Get allocations for stock movements
+   */
+  async getByMovementIds(movementIds: number[]): Promise<StockMovementBatch[]> {
+    if (movementIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .select('*')
+      .in('stock_movement_id', movementIds);
+
+    if (error) {
+      console.error('Error fetching batch allocations by movement:', error);
+      throw error;
+    }
+
+    return data as StockMovementBatch[];
+  }
+
+  /**
+   * Get the IDs of every stock movement with an allocation
+   */
+  async getAllocatedMovementIds(): Promise<Set<number>> {
+    const ids = new Set<number>();
+    const pageSize = 1000;
+
+    for (let from = 0; ; from += pageSize) {
+      const { data, error } = await supabase
+        .from(this.tableName)
+        .select('stock_movement_id')
+        .order('id')
+        .range(from, from + pageSize - 1);
+
+      if (error) {
+        console.error('Error fetching allocated movement IDs:', error);
+        throw error;
+      }
+
+      (data || []).forEach((row: { stock_movement_id: number }) => ids.add(row.stock_movement_id));
+      if (!data || data.length < pageSize) return ids;
+    }
+  }
+
+  /**
+   * Search allocations by SKU, batch number or order number, newest first
+   */
+  async search(filters: { sku?: string; batchNumber?: string; referenceId?: string }): Promise<StockMovementBatch[]> {
+    let query = supabase
+      .from(this.tableName)
+      .select('*');
+
+    if (filters.sku) query = query.eq('sku', filters.sku);
+    if (filters.batchNumber) query = query.eq('batch_number', filters.batchNumber);
+    if (filters.referenceId) query = query.eq('reference_id', filters.referenceId);
+
+    const { data, error } = await query.order('movement_date', { ascending: false });
+
+    if (error) {
+      console.error('Error searching batch allocations:', error);
+      throw error;
+    }
+
+    return data as StockMovementBatch[];
+  }
+
+  /**
+   * Delete allocations for stock movements
+   */
+  async deleteByMovementIds(movementIds: number[]): Promise<void> {
+    if (movementIds.length === 0) return;
+
+    const { error } = await supabase
+      .from(this.tableName)
+      .delete()
+      .in('stock_movement_id', movementIds);
+
+    if (error) {
+      console.error('Error deleting batch allocations:', error);
+      throw error;
+    }
+  }
+}
+
+/**
+ * Stock write-offs service for Supabase
+ */
+export class StockWriteOffsService extends SupabaseService<StockWriteOff> {
+  constructor() {
+    super('stock_write_offs');
+  }
+
+  /**
+   * Get write-offs within a date range
+   */
+  async getByDateRange(startDate: Date, endDate: Date): Promise<StockWriteOff[]> {
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .select('*')
+      .gte('write_off_date', startDate.toISOString())
+      .lte('write_off_date', endDate.toISOString())
+      .order('write_off_date', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching stock write-offs by date range:', error);
+      throw error;
+    }
+
+    return data as StockWriteOff[];
+  }
+}
+
+// Export instances of the services
+export const productExpiryService = new ProductExpiryService();
+export const stockMovementBatchesService = new StockMovementBatchesService();
+export const stockWriteOffsService = new StockWriteOffsService(); 
\ No newline at end of file
@@ -2,19 +2,23 @@
 export { supabase, supabaseAdmin } from './supabase';
 
 // Export all services
-export { productsService, productVariationsService } from './productsService';
+export { productsService, productVariationsService, getProductNamesBySku } from './productsService';
 export { ordersService } from './ordersService';
 export { inventoryService } from './inventoryService';
-export { expensesService, expenseCategoriesService, expenseImportsService } from './expensesService';
+export { expensesService, expenseCategoriesService, expenseImportsService, recurringExpensesService } from './expensesService';
 export { credentialsService } from './credentialsService';
 export { syncService } from './syncService';
-export { suppliersService, supplierImportsService, supplierImportItemsService } from './supplierService';
-export { productExpiryService } from './expiryService';
+export { suppliersService, supplierImportsService, supplierImportItemsService, supplierPriceHistoryService } from './supplierService';
+export { productExpiryService, stockMovementBatchesService, stockWriteOffsService } from './expiryService';
 export { purchaseOrdersService, purchaseOrderItemsService } from './purchaseOrdersService';
 export { additionalRevenueService, additionalRevenueCategoriesService } from './additionalRevenueService';
 export { overheadCostsService } from './overheadService';
 export { settingsService } from './settingsService';
 export { customersService } from './customerService';
+export { reportPackSchedulesService, reportPackRunsService } from './reportPackService';
+export { stocktakeSessionsService, stocktakeLinesService } from './stocktakeService';
+export { storeStockUpdatesService } from './storeStockUpdateService';
+export { stockLocationsService } from './stockLocationService';
 
 // Export the base service class
 export { SupabaseService } from './supabaseService';
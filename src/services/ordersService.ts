@@ -1,5 +1,5 @@
 import { Order } from '../types';
-import { SupabaseService } from './supabaseService';
+import { SupabaseService, fetchAllPages } from './supabaseService';
 import { supabase } from './supabase';
 import { settingsService } from './settingsService';
 
@@ -13,35 +13,59 @@ export class OrdersService extends SupabaseService<Order> {
 
   /**
    * Get all orders, optionally filtering out on-hold orders based on settings
+   * Orders are read a page at a time so stores with more than 1000 orders get all of them
    */
   async getAll(): Promise<Order[]> {
     try {
       // Check if we should exclude on-hold orders
       const excludeOnHold = await settingsService.getExcludeOnHoldOrders();
       
-      let query = supabase
-        .from(this.tableName)
-        .select('*');
-      
-      // Add filter for on-hold orders if needed
-      if (excludeOnHold) {
-        query = query.neq('status', 'on-hold');
-      }
-      
-      const { data, error } = await query;
-      
-      if (error) {
-        console.error(`Error fetching all ${this.tableName}:`, error);
-        throw error;
-      }
-      
-      return data as Order[];
+      return await fetchAllPages<Order>((from, to) => {
+        let query = supabase
+          .from(this.tableName)
+          .select('*');
+        
+        // Add filter for on-hold orders if needed
+        if (excludeOnHold) {
+          query = query.neq('status', 'on-hold');
+        }
+        
+        return query.order('id').range(from, to);
+      });
     } catch (error) {
       console.error(`Error in getAll for ${this.tableName}:`, error);
       throw error;
     }
   }
 
+  /**
+   * Get orders with a line item for a SKU, optionally filtering out on-hold orders based on settings
+   * Orders are read a page at a time
+   */
+  async getOrdersWithSku(sku: string): Promise<Order[]> {
+    try {
+      // Check if we should exclude on-hold orders
+      const excludeOnHold = await settingsService.getExcludeOnHoldOrders();
+      
+      return await fetchAllPages<Order>((from, to) => {
+        let query = supabase
+          .from(this.tableName)
+          .select('*')
+          .contains('line_items', JSON.stringify([{ sku }]));
+        
+        // Add filter for on-hold orders if needed
+        if (excludeOnHold) {
+          query = query.neq('status', 'on-hold');
+        }
+        
+        return query.order('id').range(from, to);
+      });
+    } catch (error) {
+      console.error('Error in getOrdersWithSku:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get an order by number
    */
@@ -122,6 +146,48 @@ export class OrdersService extends SupabaseService<Order> {
     }
   }
 
+  /**
+   * Get every on-hold order whatever the exclude on-hold setting
+   * WooCommerce takes stock for on-hold orders even when they are left out of the ledger
+   */
+  async getOnHoldOrders(): Promise<Order[]> {
+    try {
+      return await fetchAllPages<Order>((from, to) =>
+        supabase
+          .from(this.tableName)
+          .select('*')
+          .eq('status', 'on-hold')
+          .order('id')
+          .range(from, to)
+      );
+    } catch (error) {
+      console.error('Error in getOnHoldOrders:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get completed and processing orders completed or created from a date
+   * These are the orders whose sales are rebuilt when on-hold orders are excluded, read a page at a time
+   */
+  async getCountedOrdersSince(since: Date): Promise<Order[]> {
+    try {
+      const from = since.toISOString();
+      return await fetchAllPages<Order>((start, end) =>
+        supabase
+          .from(this.tableName)
+          .select('*')
+          .in('status', ['completed', 'processing'])
+          .or(`date_completed.gte.${from},date_created.gte.${from}`)
+          .order('id')
+          .range(start, end)
+      );
+    } catch (error) {
+      console.error('Error in getCountedOrdersSince:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get orders by date range
    */
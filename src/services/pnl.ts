@@ -2,4 +2,4 @@
 // Import from the new location instead:
 // import { calculateProfitAndLoss } from './pnl/index';
 
-export { calculateProfitAndLoss } from './pnl/index';
\ No newline at end of file
+export { calculateProfitAndLoss, getOrderNetRevenue, getOrderRefundTotal, getExpensesForTaxMode } from './pnl/index';
\ No newline at end of file
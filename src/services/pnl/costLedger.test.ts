@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { CostLedgerEvent, calculateInventoryValuation, calculateWriteOffCost } from './costLedger';
+
+const event = (date: string, quantity: number, type: CostLedgerEvent['type'], unit_cost?: number): CostLedgerEvent => ({
+  sku: 'SKU-1',
+  date: new Date(date),
+  quantity,
+  type,
+  unit_cost
+});
+
+// Ten units at 2, ten at 4, then six sold
+const events = [
+  event('2025-01-01', 10, 'purchase', 2),
+  event('2025-02-01', 10, 'purchase', 4),
+  event('2025-03-01', -6, 'sale'),
+  event('2025-05-01', 10, 'purchase', 8),
+  { ...event('2025-01-01', 5, 'initial', 1), sku: 'SKU-2' }
+];
+const fallback = () => 3;
+const writeOffDate = new Date('2025-04-01');
+
+describe('calculateWriteOffCost', () => {
+  it('takes the oldest layers left after earlier sales with FIFO', () => {
+    expect(calculateWriteOffCost(events, 'fifo', fallback, 'SKU-1', 6, writeOffDate)).toBe(4 * 2 + 2 * 4);
+  });
+
+  it('uses the average cost of stock on hand with weighted average', () => {
+    expect(calculateWriteOffCost(events, 'weighted_average', fallback, 'SKU-1', 5, writeOffDate)).toBe(15);
+  });
+
+  it('matches the adjustment value the valuation books for the same write-off', () => {
+    const cost = calculateWriteOffCost(events, 'fifo', fallback, 'SKU-1', 6, writeOffDate);
+    const [line] = calculateInventoryValuation(
+      [...events, event('2025-04-01', -6, 'adjustment')],
+      'fifo',
+      fallback,
+      writeOffDate,
+      writeOffDate
+    );
+
+    expect(line.adjustments_value).toBe(-cost);
+  });
+});
@@ -0,0 +1,346 @@
+import { InventoryValuationLine } from '../../types';
+
+/**
+ * Method used to cost stock leaving inventory
+ */
+export type CostingMethod = 'fifo' | 'weighted_average';
+
+/**
+ * A single stock event fed into the cost ledger
+ * Receipts have a positive quantity, consumption a negative quantity
+ */
+export interface CostLedgerEvent {
+  sku: string;
+  date: Date;
+  quantity: number;
+  type: 'purchase' | 'initial' | 'sale' | 'adjustment' | 'return';
+  unit_cost?: number;
+  reference_id?: string;
+}
+
+interface CostLayer {
+  quantity: number;
+  unit_cost: number;
+}
+
+interface SkuLedger {
+  // FIFO layers, oldest first
+  layers: CostLayer[];
+  // Weighted-average state
+  quantity: number;
+  averageCost: number;
+  // Cost of the most recent receipt, used when stock runs out
+  lastUnitCost: number;
+}
+
+/**
+ * Build the key used to look up the cost of a sale
+ */
+export function getSaleCostKey(orderNumber: string, sku: string): string {
+  return `${orderNumber}_${sku}`;
+}
+
+/**
+ * Replay stock events in date order and work out the unit cost of every sale
+ *
+ * Returns a map from getSaleCostKey(order number, sku) to the unit cost at the time of sale.
+ * Stock consumed beyond what was received is costed at the last known unit cost, falling back
+ * to the current inventory price.
+ */
+export function calculateSaleCosts(
+  events: CostLedgerEvent[],
+  method: CostingMethod,
+  getFallbackCost: (sku: string) => number
+): Map<string, number> {
+  const ledgers = new Map<string, SkuLedger>();
+  const saleTotals = new Map<string, { cost: number; quantity: number }>();
+
+  sortEvents(events).forEach(event => {
+    if (!event.sku || event.quantity === 0) return;
+    applyLedgerEvent(getLedger(ledgers, event.sku), event, method, getFallbackCost, saleTotals);
+  });
+
+  const saleCosts = new Map<string, number>();
+  saleTotals.forEach((totals, key) => {
+    if (totals.quantity > 0) {
+      saleCosts.set(key, totals.cost / totals.quantity);
+    }
+  });
+
+  return saleCosts;
+}
+
+/**
+ * Replay stock events up to the end date and value stock on hand at cost
+ *
+ * Opening figures are stock on hand just before the start date, leave the start date out to value
+ * stock as of the end date only. Stock is valued at the cost of the units left in the ledger.
+ * Negative stock is valued at nothing, so the period only balances while stock stays positive.
+ */
+export function calculateInventoryValuation(
+  events: CostLedgerEvent[],
+  method: CostingMethod,
+  getFallbackCost: (sku: string) => number,
+  startDate: Date | null,
+  endDate: Date
+): InventoryValuationLine[] {
+  const ledgers = new Map<string, SkuLedger>();
+  const saleTotals = new Map<string, { cost: number; quantity: number }>();
+  const onHand = new Map<string, number>();
+  const lines = new Map<string, InventoryValuationLine>();
+
+  const getLine = (sku: string): InventoryValuationLine => {
+    let line = lines.get(sku);
+    if (!line) {
+      line = {
+        sku,
+        opening_quantity: 0,
+        opening_value: 0,
+        purchases_quantity: 0,
+        purchases_value: 0,
+        cogs_quantity: 0,
+        cogs_value: 0,
+        adjustments_quantity: 0,
+        adjustments_value: 0,
+        closing_quantity: 0,
+        closing_value: 0
+      };
+      lines.set(sku, line);
+    }
+    return line;
+  };
+
+  const takeOpening = () => {
+    ledgers.forEach((ledger, sku) => {
+      const line = getLine(sku);
+      line.opening_quantity = onHand.get(sku) || 0;
+      line.opening_value = getStockValue(ledger, line.opening_quantity, method, getFallbackCost(sku));
+    });
+  };
+
+  let inPeriod = startDate === null;
+
+  sortEvents(events).forEach(event => {
+    if (!event.sku || event.quantity === 0) return;
+
+    const eventTime = new Date(event.date).getTime();
+    if (eventTime > endDate.getTime()) return;
+
+    if (!inPeriod && startDate && eventTime >= startDate.getTime()) {
+      takeOpening();
+      inPeriod = true;
+    }
+
+    const value = applyLedgerEvent(getLedger(ledgers, event.sku), event, method, getFallbackCost, saleTotals);
+    onHand.set(event.sku, (onHand.get(event.sku) || 0) + event.quantity);
+
+    if (!inPeriod) return;
+
+    const line = getLine(event.sku);
+    switch (event.type) {
+      case 'purchase':
+        line.purchases_quantity += event.quantity;
+        line.purchases_value += value;
+        break;
+      // Returns reverse the cost of the sale they came from
+      case 'sale':
+      case 'return':
+        line.cogs_quantity -= event.quantity;
+        line.cogs_value -= value;
+        break;
+      default:
+        line.adjustments_quantity += event.quantity;
+        line.adjustments_value += value;
+    }
+  });
+
+  if (!inPeriod) {
+    takeOpening();
+  }
+
+  ledgers.forEach((ledger, sku) => {
+    const line = getLine(sku);
+    line.closing_quantity = onHand.get(sku) || 0;
+    line.closing_value = getStockValue(ledger, line.closing_quantity, method, getFallbackCost(sku));
+  });
+
+  return Array.from(lines.values())
+    .filter(line =>
+      line.opening_quantity !== 0 ||
+      line.closing_quantity !== 0 ||
+      line.purchases_quantity !== 0 ||
+      line.cogs_quantity !== 0 ||
+      line.adjustments_quantity !== 0
+    )
+    .sort((a, b) => a.sku.localeCompare(b.sku));
+}
+
+/**
+ * Replay a SKU's stock events up to a date and return the cost of taking a quantity out of stock then
+ *
+ * The units are costed the way the ledger costs any other adjustment, so a write-off booked at this
+ * cost matches the value the inventory valuation takes out of stock for it.
+ */
+export function calculateWriteOffCost(
+  events: CostLedgerEvent[],
+  method: CostingMethod,
+  getFallbackCost: (sku: string) => number,
+  sku: string,
+  quantity: number,
+  date: Date
+): number {
+  const ledger = getLedger(new Map(), sku);
+  const saleTotals = new Map<string, { cost: number; quantity: number }>();
+
+  sortEvents(events).forEach(event => {
+    if (event.sku !== sku || event.quantity === 0) return;
+    if (new Date(event.date).getTime() > date.getTime()) return;
+    applyLedgerEvent(ledger, event, method, getFallbackCost, saleTotals);
+  });
+
+  const writeOff: CostLedgerEvent = { sku, date, quantity: -Math.abs(quantity), type: 'adjustment' };
+  return -applyLedgerEvent(ledger, writeOff, method, getFallbackCost, saleTotals);
+}
+
+// Receipts are processed before consumption on the same date
+function sortEvents(events: CostLedgerEvent[]): CostLedgerEvent[] {
+  return [...events].sort((a, b) => {
+    const timeDiff = new Date(a.date).getTime() - new Date(b.date).getTime();
+    if (timeDiff !== 0) return timeDiff;
+    return b.quantity - a.quantity;
+  });
+}
+
+function getLedger(ledgers: Map<string, SkuLedger>, sku: string): SkuLedger {
+  let ledger = ledgers.get(sku);
+  if (!ledger) {
+    ledger = { layers: [], quantity: 0, averageCost: 0, lastUnitCost: 0 };
+    ledgers.set(sku, ledger);
+  }
+  return ledger;
+}
+
+/**
+ * Apply one stock event to a SKU ledger
+ * Returns the cost added to stock, negative for stock leaving
+ */
+function applyLedgerEvent(
+  ledger: SkuLedger,
+  event: CostLedgerEvent,
+  method: CostingMethod,
+  getFallbackCost: (sku: string) => number,
+  saleTotals: Map<string, { cost: number; quantity: number }>
+): number {
+  const currentCost = getCurrentUnitCost(ledger, method) || getFallbackCost(event.sku);
+
+  if (event.quantity > 0) {
+    let unitCost = event.unit_cost;
+
+    // Returned units go back in at the cost they left with
+    if (event.type === 'return' && event.reference_id) {
+      const sale = saleTotals.get(getSaleCostKey(event.reference_id, event.sku));
+      if (sale && sale.quantity > 0) {
+        unitCost = sale.cost / sale.quantity;
+      }
+    }
+
+    addToLedger(ledger, event.quantity, unitCost ?? currentCost, method);
+    return event.quantity * (unitCost ?? currentCost);
+  }
+
+  const consumedCost = consumeFromLedger(ledger, Math.abs(event.quantity), method, currentCost);
+
+  // Only sales are recorded, write-offs simply reduce the layers
+  if (event.type === 'sale' && event.reference_id) {
+    const key = getSaleCostKey(event.reference_id, event.sku);
+    const totals = saleTotals.get(key) || { cost: 0, quantity: 0 };
+    totals.cost += consumedCost;
+    totals.quantity += Math.abs(event.quantity);
+    saleTotals.set(key, totals);
+  }
+
+  return -consumedCost;
+}
+
+/**
+ * Value a quantity of stock at the cost of the units left in the ledger
+ */
+function getStockValue(ledger: SkuLedger, quantity: number, method: CostingMethod, fallbackCost: number): number {
+  if (quantity <= 0) return 0;
+
+  const ledgerQuantity = method === 'weighted_average'
+    ? ledger.quantity
+    : ledger.layers.reduce((sum, layer) => sum + layer.quantity, 0);
+  const ledgerValue = method === 'weighted_average'
+    ? ledger.quantity * ledger.averageCost
+    : ledger.layers.reduce((sum, layer) => sum + layer.quantity * layer.unit_cost, 0);
+
+  const unitCost = ledgerQuantity > 0 ? ledgerValue / ledgerQuantity : (ledger.lastUnitCost || fallbackCost);
+  return quantity * unitCost;
+}
+
+/**
+ * Get the unit cost the next unit out of stock would carry
+ */
+function getCurrentUnitCost(ledger: SkuLedger, method: CostingMethod): number {
+  if (method === 'weighted_average') {
+    return ledger.quantity > 0 ? ledger.averageCost : ledger.lastUnitCost;
+  }
+
+  return ledger.layers.length > 0 ? ledger.layers[0].unit_cost : ledger.lastUnitCost;
+}
+
+/**
+ * Add received units to a SKU ledger
+ */
+function addToLedger(ledger: SkuLedger, quantity: number, unitCost: number, method: CostingMethod): void {
+  if (method === 'weighted_average') {
+    const totalQuantity = ledger.quantity + quantity;
+    ledger.averageCost = (ledger.quantity * ledger.averageCost + quantity * unitCost) / totalQuantity;
+    ledger.quantity = totalQuantity;
+  } else {
+    ledger.layers.push({ quantity, unit_cost: unitCost });
+  }
+
+  ledger.lastUnitCost = unitCost;
+}
+
+/**
+ * Remove units from a SKU ledger and return their total cost
+ */
+function consumeFromLedger(
+  ledger: SkuLedger,
+  quantity: number,
+  method: CostingMethod,
+  shortfallCost: number
+): number {
+  if (method === 'weighted_average') {
+    const cost = quantity * (ledger.quantity > 0 ? ledger.averageCost : shortfallCost);
+    ledger.quantity = Math.max(0, ledger.quantity - quantity);
+    return cost;
+  }
+
+  let remaining = quantity;
+  let cost = 0;
+
+  // Consume the oldest layers first
+  while (remaining > 0 && ledger.layers.length > 0) {
+    const layer = ledger.layers[0];
+    const taken = Math.min(layer.quantity, remaining);
+
+    cost += taken * layer.unit_cost;
+    layer.quantity -= taken;
+    remaining -= taken;
+
+    if (layer.quantity <= 0) {
+      ledger.layers.shift();
+    }
+  }
+
+  // Anything sold beyond the recorded stock is costed at the last known price
+  if (remaining > 0) {
+    cost += remaining * (ledger.lastUnitCost || shortfallCost);
+  }
+
+  return cost;
+}
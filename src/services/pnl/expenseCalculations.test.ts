@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { Expense } from '../../types';
+import { calculateExpenses } from './expenseCalculations';
+
+const expense = (date: string, amount: number, fields: Partial<Expense> = {}): Expense => ({
+  date: new Date(date),
+  category: 'Rent',
+  amount,
+  description: 'Expense',
+  ...fields
+});
+
+// 59 days, which is 2 months, 9 weeks and 1 year
+const dateRange = { startDate: new Date('2025-01-01T00:00:00Z'), endDate: new Date('2025-03-01T00:00:00Z') };
+
+describe('calculateExpenses', () => {
+  it('counts one-off and generated recurring expenses once and prorates legacy period expenses', () => {
+    const { totalExpenses, expensesByCategory, periodDetails } = calculateExpenses([
+      expense('2025-01-10T00:00:00Z', 100, { category: 'Stock', period: null }),
+      expense('2025-01-15T00:00:00Z', 50, { period: 'monthly' }),
+      expense('2025-01-20T00:00:00Z', 2, { category: 'Stock', period: 'weekly' }),
+      expense('2025-02-01T00:00:00Z', 30, { period: 'monthly', recurring_expense_id: 1 }),
+      expense('2025-04-01T00:00:00Z', 1000, { period: 'monthly' })
+    ], dateRange);
+
+    expect(periodDetails).toEqual({ recurringExpenses: 30, legacyExpenses: 50 * 2 + 2 * 9, oneTimeExpenses: 100 });
+    expect(totalExpenses).toBe(248);
+    expect(expensesByCategory).toEqual({ Rent: 130, Stock: 118 });
+  });
+});
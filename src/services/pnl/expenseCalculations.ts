@@ -1,77 +1,64 @@
 import { Expense, DateRange } from '../../types';
 
 /**
- * Calculate expenses and prorate them based on period type
+ * Whether an expense is a stored expense with a period type from before recurring expenses
+ * These repeat for every period in the range, generated recurring expenses carry their recurring_expense_id
+ */
+export const isLegacyPeriodExpense = (expense: Expense): boolean =>
+  !!expense.period && expense.recurring_expense_id === undefined;
+
+/**
+ * Calculate expense totals for a date range
+ * Recurring expenses should already be generated for the range (see materialiseRecurringExpenses)
+ * Legacy expenses with a period type are still prorated, multiplied by the periods in the range
  */
 export function calculateExpenses(expenses: Expense[], dateRange: DateRange) {
-  // Filter one-time expenses by date range first
-  const filteredOneTimeExpenses = expenses.filter(expense => {
-    if (!expense.period) {
-      // Only filter one-time expenses by date
-      const expenseDate = new Date(expense.date);
-      return expenseDate >= dateRange.startDate && expenseDate <= dateRange.endDate;
-    }
-    return true; // Keep recurring expenses, they'll be prorated
+  // Only count expenses dated within the range
+  const expensesInRange = expenses.filter(expense => {
+    const expenseDate = new Date(expense.date);
+    return expenseDate >= dateRange.startDate && expenseDate <= dateRange.endDate;
   });
-  
-  // Group expenses by period type
-  const dailyExpenses = filteredOneTimeExpenses.filter(expense => expense.period === 'daily');
-  const weeklyExpenses = filteredOneTimeExpenses.filter(expense => expense.period === 'weekly');
-  const monthlyExpenses = filteredOneTimeExpenses.filter(expense => expense.period === 'monthly');
-  const yearlyExpenses = filteredOneTimeExpenses.filter(expense => expense.period === 'yearly');
-  const oneTimeExpenses = filteredOneTimeExpenses.filter(expense => !expense.period);
-  
-  // Calculate prorated expenses for the period
+
+  // Periods of each type in the range, at least one
   const daysBetween = Math.max(1, Math.ceil((dateRange.endDate.getTime() - dateRange.startDate.getTime()) / (1000 * 60 * 60 * 24)));
-  const weeksBetween = Math.max(1, Math.ceil(daysBetween / 7));
-  const monthsBetween = Math.max(1, Math.ceil(daysBetween / 30));
-  const yearsBetween = Math.max(1, Math.ceil(daysBetween / 365));
-  
-  // Calculate total expenses for the period
-  const totalDailyExpenses = dailyExpenses.reduce((sum, expense) => sum + expense.amount * daysBetween, 0);
-  const totalWeeklyExpenses = weeklyExpenses.reduce((sum, expense) => sum + expense.amount * weeksBetween, 0);
-  const totalMonthlyExpenses = monthlyExpenses.reduce((sum, expense) => sum + expense.amount * monthsBetween, 0);
-  const totalYearlyExpenses = yearlyExpenses.reduce((sum, expense) => sum + expense.amount * yearsBetween, 0);
+  const periodsBetween: Record<NonNullable<Expense['period']>, number> = {
+    daily: daysBetween,
+    weekly: Math.max(1, Math.ceil(daysBetween / 7)),
+    monthly: Math.max(1, Math.ceil(daysBetween / 30)),
+    yearly: Math.max(1, Math.ceil(daysBetween / 365))
+  };
+
+  // Amount an expense adds to the range
+  const getAmount = (expense: Expense) =>
+    isLegacyPeriodExpense(expense) ? expense.amount * periodsBetween[expense.period!] : expense.amount;
+
+  const recurringExpenses = expensesInRange.filter(expense => expense.recurring_expense_id !== undefined);
+  const legacyExpenses = expensesInRange.filter(isLegacyPeriodExpense);
+  const oneTimeExpenses = expensesInRange.filter(expense => !expense.period && expense.recurring_expense_id === undefined);
+
+  const totalRecurringExpenses = recurringExpenses.reduce((sum, expense) => sum + expense.amount, 0);
+  const totalLegacyExpenses = legacyExpenses.reduce((sum, expense) => sum + getAmount(expense), 0);
   const totalOneTimeExpenses = oneTimeExpenses.reduce((sum, expense) => sum + expense.amount, 0);
-  
+
   // Total expenses for the period
-  const totalExpenses = totalDailyExpenses + totalWeeklyExpenses + totalMonthlyExpenses + totalYearlyExpenses + totalOneTimeExpenses;
-  
+  const totalExpenses = totalRecurringExpenses + totalLegacyExpenses + totalOneTimeExpenses;
+
   // Group expenses by category
   const expensesByCategory: Record<string, number> = {};
-  filteredOneTimeExpenses.forEach(expense => {
+  expensesInRange.forEach(expense => {
     if (!expensesByCategory[expense.category]) {
       expensesByCategory[expense.category] = 0;
     }
-    
-    // Add prorated amount based on period type
-    if (expense.period === 'daily') {
-      expensesByCategory[expense.category] += expense.amount * daysBetween;
-    } else if (expense.period === 'weekly') {
-      expensesByCategory[expense.category] += expense.amount * weeksBetween;
-    } else if (expense.period === 'monthly') {
-      expensesByCategory[expense.category] += expense.amount * monthsBetween;
-    } else if (expense.period === 'yearly') {
-      expensesByCategory[expense.category] += expense.amount * yearsBetween;
-    } else {
-      // One-time expense
-      expensesByCategory[expense.category] += expense.amount;
-    }
+    expensesByCategory[expense.category] += getAmount(expense);
   });
 
   return {
     totalExpenses,
     expensesByCategory,
     periodDetails: {
-      dailyExpenses: totalDailyExpenses,
-      weeklyExpenses: totalWeeklyExpenses,
-      monthlyExpenses: totalMonthlyExpenses,
-      yearlyExpenses: totalYearlyExpenses,
-      oneTimeExpenses: totalOneTimeExpenses,
-      daysBetween,
-      weeksBetween,
-      monthsBetween,
-      yearsBetween
+      recurringExpenses: totalRecurringExpenses,
+      legacyExpenses: totalLegacyExpenses,
+      oneTimeExpenses: totalOneTimeExpenses
     }
   };
-}
\ No newline at end of file
+}
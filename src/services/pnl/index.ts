@@ -1,8 +1,12 @@
-import { Order, InventoryItem, OverheadCost, DateRange, AdditionalRevenue } from '../../types';
-import { getExpenses } from '../../db/operations/expenses';
+import { Order, InventoryItem, OverheadCost, DateRange, AdditionalRevenue, Expense } from '../../types';
+import { getExpensesWithRecurring, getExpenseCategories } from '../../db/operations/expenses';
+import { getSaleCosts } from '../../db/operations/costLedger';
+import { getStockWriteOffs } from '../../db/operations/writeOffs';
+import { settingsService } from '../settingsService';
 import { calculateOrderProfits } from './orderCalculations';
 import { calculateExpenses } from './expenseCalculations';
-import { createInventoryMap } from './inventoryUtils';
+import { createInventoryMap, getCostPrice } from './inventoryUtils';
+import { TaxSettings, applyTaxModeToExpenses, applyTaxModeToAdditionalRevenue } from './taxCalculations';
 
 /**
  * Calculate profit and margins for orders with expenses and additional revenue included
@@ -17,8 +21,17 @@ export const calculateProfitAndLoss = async (
   // Create inventory map for quick lookups
   const inventoryMap = createInventoryMap(inventory);
 
+  // Get the cost of each sale at the time it was made
+  const saleCosts = await loadSaleCosts(inventoryMap);
+
+  // Get the tax mode so revenue, cost and expenses are reported on the same basis
+  const taxSettings = await settingsService.getTaxSettings();
+
   // Get expenses for the date range
-  const expenses = await getExpenses(dateRange.startDate, dateRange.endDate);
+  const expenses = await getExpensesForTaxMode(
+    await getExpensesWithRecurring(dateRange.startDate, dateRange.endDate),
+    taxSettings
+  );
   
   // Calculate expense data
   const { 
@@ -26,6 +39,10 @@ export const calculateProfitAndLoss = async (
     expensesByCategory 
   } = calculateExpenses(expenses, dateRange);
 
+  // Get stock written off in the date range, valued at cost
+  const writeOffs = await getStockWriteOffs(dateRange.startDate, dateRange.endDate);
+  const totalWriteOffs = writeOffs.reduce((sum, writeOff) => sum + (writeOff.cost_value || 0), 0);
+
   // Calculate overhead distribution
   const { 
     overheadPerOrder, 
@@ -41,20 +58,20 @@ export const calculateProfitAndLoss = async (
     overheadPerOrder,
     perOrderOverhead,
     perItemOverhead,
-    percentageOverheadCalculator
+    percentageOverheadCalculator,
+    saleCosts,
+    taxSettings
   );
 
   // Calculate additional revenue total
-  const totalAdditionalRevenue = additionalRevenue.reduce((sum, revenue) => {
+  const totalAdditionalRevenue = applyTaxModeToAdditionalRevenue(additionalRevenue, taxSettings).reduce((sum, revenue) => {
     const amount = revenue.amount || 0;
     return sum + (isNaN(amount) ? 0 : amount);
   }, 0);
 
   // Calculate summary
-  const totalOrderRevenue = processedOrders.reduce((sum, order) => {
-    const orderTotal = parseFloat(order.total);
-    return sum + (isNaN(orderTotal) ? 0 : orderTotal);
-  }, 0);
+  const totalOrderRevenue = processedOrders.reduce((sum, order) => sum + order.net_total, 0);
+  const totalRefunds = processedOrders.reduce((sum, order) => sum + order.refund_total, 0);
   
   const totalRevenue = totalOrderRevenue + totalAdditionalRevenue;
   
@@ -64,7 +81,7 @@ export const calculateProfitAndLoss = async (
   }, 0);
   
   const totalProfit = totalRevenue - totalCost;
-  const netProfit = totalProfit - totalExpenses;
+  const netProfit = totalProfit - totalExpenses - totalWriteOffs;
   const averageMargin = totalRevenue > 0 ? (totalProfit / totalRevenue) * 100 : 0;
   const orderCount = processedOrders.length;
   const itemCount = processedOrders.reduce(
@@ -80,20 +97,46 @@ export const calculateProfitAndLoss = async (
     additionalRevenue,
     summary: {
       totalOrderRevenue,
+      totalRefunds,
       totalAdditionalRevenue,
       totalRevenue,
       totalCost,
       totalProfit,
       totalExpenses,
+      totalWriteOffs,
       netProfit,
       averageMargin,
       orderCount,
       itemCount,
-      expensesByCategory
+      expensesByCategory,
+      taxMode: taxSettings.taxMode
     }
   };
 };
 
+/**
+ * Load sale costs from the cost ledger, falling back to current inventory prices if it cannot be built
+ */
+async function loadSaleCosts(inventoryMap: ReturnType<typeof createInventoryMap>): Promise<Map<string, number>> {
+  try {
+    const costingMethod = await settingsService.getCostingMethod();
+    return await getSaleCosts(costingMethod, sku => getCostPrice({ sku }, inventoryMap));
+  } catch (error) {
+    console.error('Error loading sale costs, using current inventory prices:', error);
+    return new Map();
+  }
+}
+
+/**
+ * Get expenses on the reporting tax basis, claimable GST is removed in exclusive mode
+ */
+export async function getExpensesForTaxMode(expenses: Expense[], taxSettings: TaxSettings): Promise<Expense[]> {
+  if (taxSettings.taxMode !== 'exclusive') return expenses;
+
+  const categories = await getExpenseCategories();
+  return applyTaxModeToExpenses(expenses, categories, taxSettings);
+}
+
 /**
  * Calculate overhead distribution across orders
  */
@@ -145,4 +188,8 @@ function calculateOverheadDistribution(orders: Order[], overheadCosts: OverheadC
 // Export all sub-modules
 export * from './orderCalculations';
 export * from './expenseCalculations';
-export * from './inventoryUtils';
\ No newline at end of file
+export * from './inventoryUtils';
+export * from './refundCalculations';
+export * from './costLedger';
+export * from './taxCalculations';
+export * from './recurringExpenses';
\ No newline at end of file
@@ -1,4 +1,7 @@
 import { Order } from '../../types';
+import { getOrderRefundTotal, getLineItemRefunds } from './refundCalculations';
+import { getSaleCostKey } from './costLedger';
+import { TaxSettings, getOrderRevenueForTaxMode, getCostForTaxMode } from './taxCalculations';
 
 /**
  * Calculate profits for all orders
@@ -9,13 +12,16 @@ export function calculateOrderProfits(
   overheadPerOrder: number,
   perOrderOverhead: number,
   perItemOverhead: (item: any) => number,
-  percentageOverheadCalculator: (orderTotal: number) => number
+  percentageOverheadCalculator: (orderTotal: number) => number,
+  saleCosts: Map<string, number> = new Map(),
+  taxSettings?: TaxSettings
 ) {
   return orders.map(order => {
     // Calculate percentage-based overhead
     const orderTotal = parseFloat(order.total);
     const safeOrderTotal = isNaN(orderTotal) ? 0 : orderTotal;
     const percentageOverhead = percentageOverheadCalculator(safeOrderTotal);
+    const refundTotal = getOrderRefundTotal(order);
 
     // Process line items
     const lineItems = order.line_items.map(item => {
@@ -48,23 +54,33 @@ export function calculateOrderProfits(
         costPrice = item.cost_price || 0;
       }
       
-      // Use supplier price if available, otherwise use cost price
-      const finalCostPrice = supplierPrice > 0 ? supplierPrice : costPrice;
+      // Use the cost from the ledger at the time of sale, then supplier price, then cost price
+      const ledgerCost = item.sku ? saleCosts.get(getSaleCostKey(order.number, item.sku)) : undefined;
+      const purchaseCost = ledgerCost !== undefined
+        ? ledgerCost
+        : supplierPrice > 0 ? supplierPrice : costPrice;
+      const finalCostPrice = taxSettings ? getCostForTaxMode(purchaseCost, taxSettings) : purchaseCost;
       const quantity = isNaN(item.quantity) ? 0 : item.quantity;
-      const itemCost = finalCostPrice * quantity;
+      
+      // Restocked units come back into inventory, so their cost is not incurred
+      const refunds = getLineItemRefunds(order, item);
+      const itemCost = finalCostPrice * (quantity - refunds.restockedQuantity);
       
       // Calculate per-item overhead
       const itemOverhead = perItemOverhead(item);
       
       const totalCost = itemCost + itemOverhead;
       const itemTotal = parseFloat(item.total);
-      const revenue = isNaN(itemTotal) ? 0 : itemTotal;
+      const revenue = (isNaN(itemTotal) ? 0 : itemTotal) - refunds.amount;
       const profit = revenue - totalCost;
       const margin = revenue > 0 ? (profit / revenue) * 100 : 0;
 
       return {
         ...item,
         cost_price: finalCostPrice,
+        refunded_quantity: refunds.quantity,
+        refunded_total: refunds.amount,
+        restocked_quantity: refunds.restockedQuantity,
         profit,
         margin
       };
@@ -74,12 +90,12 @@ export function calculateOrderProfits(
     const costTotal = lineItems.reduce((sum, item) => {
       const costPrice = item.cost_price || 0;
       const quantity = isNaN(item.quantity) ? 0 : item.quantity;
-      return sum + costPrice * quantity;
+      return sum + costPrice * (quantity - item.restocked_quantity);
     }, 0);
     
     const totalOverhead = perOrderOverhead + percentageOverhead + overheadPerOrder;
     const totalCost = costTotal + totalOverhead;
-    const revenue = isNaN(orderTotal) ? 0 : orderTotal;
+    const revenue = getOrderRevenueForTaxMode(order, taxSettings?.taxMode ?? 'inclusive');
     const profit = revenue - totalCost;
     const margin = revenue > 0 ? (profit / revenue) * 100 : 0;
 
@@ -87,6 +103,8 @@ export function calculateOrderProfits(
       ...order,
       line_items: lineItems,
       cost_total: totalCost,
+      refund_total: refundTotal,
+      net_total: revenue,
       profit,
       margin
     };
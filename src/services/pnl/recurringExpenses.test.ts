@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { format } from 'date-fns';
+import { DateRange, RecurringExpense } from '../../types';
+import { fromStoreTime } from '../../utils/dateUtils';
+import {
+  getRecurringAccrual,
+  getRecurringOccurrenceDates,
+  materialiseRecurringExpense
+} from './recurringExpenses';
+
+// Whole store days, from midnight on the first to the end of the last
+const storeRange = (start: string, end: string): DateRange => ({
+  startDate: fromStoreTime(`${start}T00:00:00`),
+  endDate: fromStoreTime(`${end}T23:59:59`)
+});
+
+// Recurring expenses come back from the database with date-only strings
+const recurring = (
+  fields: Omit<Partial<RecurringExpense>, 'start_date' | 'end_date'> & { start_date: string; end_date?: string }
+): RecurringExpense => ({
+  id: 1,
+  description: 'Rent',
+  category: 'Rent',
+  amount: 100,
+  frequency: 'monthly',
+  recognition: 'occurrence',
+  ...fields
+}) as unknown as RecurringExpense;
+
+const days = (dates: Date[]) => dates.map(date => format(date, 'yyyy-MM-dd'));
+
+describe('getRecurringOccurrenceDates', () => {
+  it('falls due on the start day each month, on the last day of shorter months', () => {
+    const dates = getRecurringOccurrenceDates(recurring({ start_date: '2025-01-31' }), storeRange('2025-01-01', '2025-04-30'));
+
+    expect(days(dates)).toEqual(['2025-01-31', '2025-02-28', '2025-03-31', '2025-04-30']);
+  });
+
+  it('stops after the end date', () => {
+    const dates = getRecurringOccurrenceDates(
+      recurring({ start_date: '2025-01-15', end_date: '2025-02-20' }),
+      storeRange('2025-01-01', '2025-04-30')
+    );
+
+    expect(days(dates)).toEqual(['2025-01-15', '2025-02-15']);
+  });
+
+  it('counts weeks from the start date rather than the start of the range', () => {
+    const dates = getRecurringOccurrenceDates(
+      recurring({ start_date: '2025-01-06', frequency: 'weekly' }),
+      storeRange('2025-01-10', '2025-01-31')
+    );
+
+    expect(days(dates)).toEqual(['2025-01-13', '2025-01-20', '2025-01-27']);
+  });
+
+  it('falls due once a year on the start date', () => {
+    const dates = getRecurringOccurrenceDates(
+      recurring({ start_date: '2024-03-10', frequency: 'yearly' }),
+      storeRange('2024-01-01', '2026-12-31')
+    );
+
+    expect(days(dates)).toEqual(['2024-03-10', '2025-03-10', '2026-03-10']);
+  });
+});
+
+describe('getRecurringAccrual', () => {
+  it('spreads the amount evenly over the days of each period', () => {
+    const weekly = recurring({ start_date: '2025-01-01', frequency: 'weekly', amount: 70 });
+    const monthly = recurring({ start_date: '2025-01-01', amount: 310 });
+
+    expect(getRecurringAccrual(weekly, new Date(2025, 0, 1), new Date(2025, 0, 14))).toBe(140);
+    expect(getRecurringAccrual(monthly, new Date(2025, 0, 17), new Date(2025, 0, 31))).toBe(150);
+  });
+});
+
+describe('materialiseRecurringExpense', () => {
+  it('adds the full amount on each due date for occurrence expenses', () => {
+    const expenses = materialiseRecurringExpense(recurring({ start_date: '2025-01-31' }), storeRange('2025-01-01', '2025-02-28'));
+
+    expect(expenses.map(expense => [expense.date, expense.amount, expense.period, expense.recurring_expense_id])).toEqual([
+      [fromStoreTime('2025-01-31T00:00:00'), 100, 'monthly', 1],
+      [fromStoreTime('2025-02-28T00:00:00'), 100, 'monthly', 1]
+    ]);
+  });
+
+  it('adds one pro rata entry per calendar month for accrual expenses', () => {
+    const expenses = materialiseRecurringExpense(
+      recurring({ start_date: '2025-01-01', amount: 310, recognition: 'accrual' }),
+      storeRange('2025-01-17', '2025-02-28')
+    );
+
+    // 15 of January's 31 days, then all of February
+    expect(expenses.map(expense => [expense.date, expense.amount])).toEqual([
+      [fromStoreTime('2025-01-17T00:00:00'), 150],
+      [fromStoreTime('2025-02-01T00:00:00'), 310]
+    ]);
+  });
+
+  it('adds nothing outside the dates the expense runs', () => {
+    const expense = recurring({ start_date: '2025-03-01', end_date: '2025-06-30' });
+
+    expect(materialiseRecurringExpense(expense, storeRange('2025-01-01', '2025-02-28'))).toEqual([]);
+    expect(materialiseRecurringExpense(expense, storeRange('2025-07-01', '2025-12-31'))).toEqual([]);
+  });
+});
@@ -0,0 +1,161 @@
+import {
+  addDays,
+  differenceInCalendarDays,
+  eachDayOfInterval,
+  eachMonthOfInterval,
+  endOfMonth,
+  getDaysInMonth,
+  getDaysInYear,
+  max,
+  min,
+  parseISO,
+  startOfDay,
+  startOfMonth
+} from 'date-fns';
+import { DateRange, Expense, RecurringExpense } from '../../types';
+import { fromStoreTime, toStoreTime } from '../../utils/dateUtils';
+
+// Store day a date falls on, date-only values are already store days
+const toStoreDay = (date: Date | string): Date => {
+  if (typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return parseISO(date);
+  }
+  return startOfDay(toStoreTime(date));
+};
+
+// Day within a month, clamped to the length of the month
+const onDayOfMonth = (month: Date, day: number): Date => {
+  return new Date(month.getFullYear(), month.getMonth(), Math.min(day, getDaysInMonth(month)));
+};
+
+/**
+ * Get the store days a recurring expense is running within a date range
+ * Returns null if it does not run in the range
+ */
+export const getRecurringExpenseWindow = (
+  recurringExpense: RecurringExpense,
+  dateRange: DateRange
+): { start: Date; end: Date } | null => {
+  const start = max([toStoreDay(recurringExpense.start_date), toStoreDay(dateRange.startDate)]);
+  const end = recurringExpense.end_date
+    ? min([toStoreDay(recurringExpense.end_date), toStoreDay(dateRange.endDate)])
+    : toStoreDay(dateRange.endDate);
+
+  return start > end ? null : { start, end };
+};
+
+/**
+ * Get the store days a recurring expense falls due within a date range
+ */
+export const getRecurringOccurrenceDates = (
+  recurringExpense: RecurringExpense,
+  dateRange: DateRange
+): Date[] => {
+  const window = getRecurringExpenseWindow(recurringExpense, dateRange);
+  if (!window) return [];
+
+  const firstDay = toStoreDay(recurringExpense.start_date);
+  const dayOfMonth = recurringExpense.day_of_month || firstDay.getDate();
+  const inWindow = (date: Date) => date >= firstDay && date >= window.start && date <= window.end;
+
+  switch (recurringExpense.frequency) {
+    case 'daily':
+      return eachDayOfInterval(window);
+    case 'weekly': {
+      // Every 7 days from the first day
+      const weeksToWindow = Math.ceil(differenceInCalendarDays(window.start, firstDay) / 7);
+      const dates: Date[] = [];
+      for (let date = addDays(firstDay, weeksToWindow * 7); date <= window.end; date = addDays(date, 7)) {
+        dates.push(date);
+      }
+      return dates;
+    }
+    case 'yearly': {
+      const dates: Date[] = [];
+      for (let year = window.start.getFullYear(); year <= window.end.getFullYear(); year++) {
+        const date = onDayOfMonth(new Date(year, firstDay.getMonth(), 1), dayOfMonth);
+        if (inWindow(date)) dates.push(date);
+      }
+      return dates;
+    }
+    default:
+      return eachMonthOfInterval(window)
+        .map(month => onDayOfMonth(month, dayOfMonth))
+        .filter(inWindow);
+  }
+};
+
+/**
+ * Get the amount a recurring expense accrues over store days, pro rata by day
+ */
+export const getRecurringAccrual = (
+  recurringExpense: RecurringExpense,
+  start: Date,
+  end: Date
+): number => {
+  if (start > end) return 0;
+
+  return eachMonthOfInterval({ start, end }).reduce((sum, month) => {
+    const days = differenceInCalendarDays(
+      min([end, endOfMonth(month)]),
+      max([start, startOfMonth(month)])
+    ) + 1;
+
+    switch (recurringExpense.frequency) {
+      case 'daily':
+        return sum + recurringExpense.amount * days;
+      case 'weekly':
+        return sum + (recurringExpense.amount * days) / 7;
+      case 'yearly':
+        return sum + (recurringExpense.amount * days) / getDaysInYear(month);
+      default:
+        return sum + (recurringExpense.amount * days) / getDaysInMonth(month);
+    }
+  }, 0);
+};
+
+// Expense entry generated from a recurring expense
+const toExpense = (recurringExpense: RecurringExpense, date: Date, amount: number): Expense => ({
+  date: fromStoreTime(date),
+  category: recurringExpense.category,
+  amount,
+  description: recurringExpense.description,
+  period: recurringExpense.frequency,
+  reference: recurringExpense.reference,
+  payment_method: recurringExpense.payment_method,
+  tax_deductible: recurringExpense.tax_deductible,
+  recurring_expense_id: recurringExpense.id
+});
+
+/**
+ * Generate the expenses a recurring expense adds to a date range
+ * Occurrence expenses give one entry per due date, accrual expenses one entry per calendar month
+ */
+export const materialiseRecurringExpense = (
+  recurringExpense: RecurringExpense,
+  dateRange: DateRange
+): Expense[] => {
+  if (recurringExpense.recognition === 'accrual') {
+    const window = getRecurringExpenseWindow(recurringExpense, dateRange);
+    if (!window) return [];
+
+    return eachMonthOfInterval(window).map(month => {
+      const start = max([window.start, startOfMonth(month)]);
+      const end = min([window.end, startOfDay(endOfMonth(month))]);
+      return toExpense(recurringExpense, start, getRecurringAccrual(recurringExpense, start, end));
+    });
+  }
+
+  return getRecurringOccurrenceDates(recurringExpense, dateRange)
+    .map(date => toExpense(recurringExpense, date, recurringExpense.amount));
+};
+
+/**
+ * Generate the expenses all recurring expenses add to a date range
+ */
+export const materialiseRecurringExpenses = (
+  recurringExpenses: RecurringExpense[],
+  dateRange: DateRange
+): Expense[] => {
+  return recurringExpenses.flatMap(recurringExpense => materialiseRecurringExpense(recurringExpense, dateRange));
+};
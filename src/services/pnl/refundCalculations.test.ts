@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { Order, OrderItem, OrderRefund, OrderRefundItem } from '../../types';
+import { getLineItemRefunds, getOrderNetRevenue, getOrderRefundTotal } from './refundCalculations';
+
+const tea: OrderItem = { id: 11, product_id: 1, name: 'Green Tea', quantity: 4, total: '40.00', sku: 'TEA-1' };
+const shirt: OrderItem = { id: 12, product_id: 2, variation_id: 21, name: 'Shirt - Small', quantity: 1, total: '25.00', sku: 'SHIRT-S' };
+
+// WooCommerce reports refunded quantities and totals as negative values
+const refundItem = (item: OrderItem, quantity: number, restock: boolean, linked = true): OrderRefundItem => ({
+  id: item.id + 100,
+  product_id: item.product_id,
+  variation_id: item.variation_id,
+  quantity: -quantity,
+  total: String(-quantity * 10),
+  refunded_item_id: linked ? item.id : undefined,
+  restock
+});
+
+const refund = (id: number, amount: string, lineItems: OrderRefundItem[]): OrderRefund => ({
+  id,
+  date_created: new Date('2025-03-02T00:00:00Z'),
+  amount,
+  line_items: lineItems
+});
+
+const order = (refunds: OrderRefund[]): Order => ({
+  id: 1,
+  number: '1001',
+  status: 'completed',
+  total: '65.00',
+  date_created: new Date('2025-03-01T00:00:00Z'),
+  date_completed: new Date('2025-03-01T00:00:00Z'),
+  line_items: [tea, shirt],
+  refunds
+});
+
+describe('getOrderRefundTotal and getOrderNetRevenue', () => {
+  it('take every refund off the order total', () => {
+    const refunded = order([refund(1, '10.00', []), refund(2, '-5.50', [])]);
+
+    expect(getOrderRefundTotal(refunded)).toBe(15.5);
+    expect(getOrderNetRevenue(refunded)).toBe(49.5);
+  });
+
+  it('leave orders without refunds at their total', () => {
+    expect(getOrderRefundTotal(order([]))).toBe(0);
+    expect(getOrderNetRevenue({ ...order([]), refunds: undefined })).toBe(65);
+  });
+
+  it('net a full refund to nothing', () => {
+    expect(getOrderNetRevenue(order([refund(1, '65.00', [refundItem(tea, 4, true), refundItem(shirt, 1, false)])]))).toBe(0);
+  });
+});
+
+describe('getLineItemRefunds', () => {
+  it('counts a partial refund that was restocked', () => {
+    const refunded = order([refund(1, '10.00', [refundItem(tea, 1, true)])]);
+
+    expect(getLineItemRefunds(refunded, tea)).toEqual({ quantity: 1, amount: 10, restockedQuantity: 1 });
+    expect(getLineItemRefunds(refunded, shirt)).toEqual({ quantity: 0, amount: 0, restockedQuantity: 0 });
+  });
+
+  it('counts a refund that was not restocked without restocked units', () => {
+    const refunded = order([refund(1, '20.00', [refundItem(tea, 2, false)])]);
+
+    expect(getLineItemRefunds(refunded, tea)).toEqual({ quantity: 2, amount: 20, restockedQuantity: 0 });
+  });
+
+  it('adds up partial refunds into a full refund, restocked and not', () => {
+    const refunded = order([
+      refund(1, '10.00', [refundItem(tea, 1, true)]),
+      refund(2, '30.00', [refundItem(tea, 3, false)])
+    ]);
+
+    expect(getLineItemRefunds(refunded, tea)).toEqual({ quantity: 4, amount: 40, restockedQuantity: 1 });
+  });
+
+  it('matches refund items without a line item link on the product and variation', () => {
+    const refunded = order([refund(1, '10.00', [refundItem(shirt, 1, true, false)])]);
+
+    expect(getLineItemRefunds(refunded, shirt)).toEqual({ quantity: 1, amount: 10, restockedQuantity: 1 });
+    expect(getLineItemRefunds(refunded, tea).quantity).toBe(0);
+  });
+
+  it('never refunds or restocks more units than were sold', () => {
+    const refunded = order([refund(1, '60.00', [refundItem(tea, 3, true), refundItem(tea, 3, true)])]);
+
+    expect(getLineItemRefunds(refunded, tea)).toMatchObject({ quantity: 4, restockedQuantity: 4 });
+  });
+});
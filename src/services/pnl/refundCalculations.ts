@@ -0,0 +1,67 @@
+import { Order, OrderItem } from '../../types';
+
+/**
+ * Get the total amount refunded on an order
+ */
+export function getOrderRefundTotal(order: Order): number {
+  if (!order.refunds || order.refunds.length === 0) {
+    return 0;
+  }
+
+  return order.refunds.reduce((sum, refund) => {
+    const amount = Math.abs(parseFloat(refund.amount));
+    return sum + (isNaN(amount) ? 0 : amount);
+  }, 0);
+}
+
+/**
+ * Get the order revenue after refunds have been taken off
+ */
+export function getOrderNetRevenue(order: Order): number {
+  const orderTotal = parseFloat(order.total);
+  const safeOrderTotal = isNaN(orderTotal) ? 0 : orderTotal;
+  return safeOrderTotal - getOrderRefundTotal(order);
+}
+
+/**
+ * Get the refunded quantity, amount and restocked quantity for a line item
+ */
+export function getLineItemRefunds(order: Order, item: OrderItem) {
+  const result = {
+    quantity: 0,
+    amount: 0,
+    restockedQuantity: 0
+  };
+
+  if (!order.refunds || order.refunds.length === 0) {
+    return result;
+  }
+
+  order.refunds.forEach(refund => {
+    refund.line_items.forEach(refundItem => {
+      // Prefer the explicit link to the original line item, fall back to product/variation
+      const matches = refundItem.refunded_item_id
+        ? refundItem.refunded_item_id === item.id
+        : refundItem.product_id === item.product_id &&
+          (refundItem.variation_id || 0) === (item.variation_id || 0);
+
+      if (!matches) return;
+
+      const quantity = Math.abs(Number(refundItem.quantity) || 0);
+      const amount = Math.abs(parseFloat(refundItem.total));
+
+      result.quantity += quantity;
+      result.amount += isNaN(amount) ? 0 : amount;
+
+      if (refundItem.restock) {
+        result.restockedQuantity += quantity;
+      }
+    });
+  });
+
+  // Never refund more units than were sold
+  result.quantity = Math.min(result.quantity, item.quantity || 0);
+  result.restockedQuantity = Math.min(result.restockedQuantity, item.quantity || 0);
+
+  return result;
+}
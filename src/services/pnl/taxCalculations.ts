@@ -0,0 +1,171 @@
+import { Order, Expense, ExpenseCategory, AdditionalRevenue, PurchaseOrder, GstReturnSummary } from '../../types';
+import { getOrderRefundTotal, getOrderNetRevenue } from './refundCalculations';
+
+// 'inclusive' reports amounts as charged, 'exclusive' reports them net of GST
+export type TaxMode = 'inclusive' | 'exclusive';
+
+export interface TaxSettings {
+  taxMode: TaxMode;
+  gstRate: number;
+  purchasePricesIncludeTax: boolean;
+}
+
+/**
+ * Get the GST component of a tax-inclusive amount
+ */
+export function getTaxFromInclusive(amount: number, gstRate: number): number {
+  if (!amount || gstRate <= 0) return 0;
+  return (amount * gstRate) / (100 + gstRate);
+}
+
+/**
+ * Get the GST charged on an order after refunds
+ * Refunded tax is taken off in proportion to the amount refunded
+ */
+export function getOrderNetTax(order: Order): number {
+  const orderTax = parseFloat(order.total_tax || '0');
+  const orderTotal = parseFloat(order.total);
+
+  if (isNaN(orderTax) || orderTax === 0) return 0;
+  if (isNaN(orderTotal) || orderTotal <= 0) return orderTax;
+
+  const refundedShare = Math.min(getOrderRefundTotal(order) / orderTotal, 1);
+  return orderTax * (1 - refundedShare);
+}
+
+/**
+ * Get the order revenue after refunds, net of GST in exclusive mode
+ */
+export function getOrderRevenueForTaxMode(order: Order, taxMode: TaxMode): number {
+  const netRevenue = getOrderNetRevenue(order);
+  return taxMode === 'exclusive' ? netRevenue - getOrderNetTax(order) : netRevenue;
+}
+
+/**
+ * Get a purchase cost for reporting, removing GST in exclusive mode if supplier prices include it
+ */
+export function getCostForTaxMode(cost: number, taxSettings: TaxSettings): number {
+  if (taxSettings.taxMode !== 'exclusive' || !taxSettings.purchasePricesIncludeTax) {
+    return cost;
+  }
+  return cost - getTaxFromInclusive(cost, taxSettings.gstRate);
+}
+
+/**
+ * Whether GST can be claimed on an expense, the expense flag overrides its category
+ */
+export function isExpenseTaxDeductible(expense: Expense, categories: ExpenseCategory[]): boolean {
+  if (expense.tax_deductible !== undefined && expense.tax_deductible !== null) {
+    return expense.tax_deductible;
+  }
+  const category = categories.find(c => c.name === expense.category);
+  return category?.is_taxdeductible ?? false;
+}
+
+/**
+ * Get the claimable GST on an expense
+ */
+export function getExpenseInputTax(expense: Expense, categories: ExpenseCategory[], gstRate: number): number {
+  return isExpenseTaxDeductible(expense, categories) ? getTaxFromInclusive(expense.amount, gstRate) : 0;
+}
+
+/**
+ * Get the GST collected on additional revenue, only entries recorded with tax included carry GST
+ */
+export function getAdditionalRevenueOutputTax(revenue: AdditionalRevenue, gstRate: number): number {
+  return revenue.tax_included ? getTaxFromInclusive(revenue.amount, gstRate) : 0;
+}
+
+/**
+ * Get the claimable GST on a purchase order
+ */
+export function getPurchaseOrderInputTax(purchaseOrder: PurchaseOrder, taxSettings: TaxSettings): number {
+  const total = purchaseOrder.total_amount || 0;
+  return taxSettings.purchasePricesIncludeTax
+    ? getTaxFromInclusive(total, taxSettings.gstRate)
+    : (total * taxSettings.gstRate) / 100;
+}
+
+/**
+ * Get expenses as they should be reported, claimable GST is removed in exclusive mode
+ */
+export function applyTaxModeToExpenses(
+  expenses: Expense[],
+  categories: ExpenseCategory[],
+  taxSettings: TaxSettings
+): Expense[] {
+  if (taxSettings.taxMode !== 'exclusive') return expenses;
+
+  return expenses.map(expense => ({
+    ...expense,
+    amount: expense.amount - getExpenseInputTax(expense, categories, taxSettings.gstRate)
+  }));
+}
+
+/**
+ * Get additional revenue as it should be reported, GST is removed in exclusive mode
+ */
+export function applyTaxModeToAdditionalRevenue(
+  revenues: AdditionalRevenue[],
+  taxSettings: TaxSettings
+): AdditionalRevenue[] {
+  if (taxSettings.taxMode !== 'exclusive') return revenues;
+
+  return revenues.map(revenue => ({
+    ...revenue,
+    amount: revenue.amount - getAdditionalRevenueOutputTax(revenue, taxSettings.gstRate)
+  }));
+}
+
+/**
+ * Calculate a GST return: output tax on sales against claimable input tax on expenses and purchases
+ * All records passed in should already be limited to the return period
+ */
+export function calculateGstReturn(
+  orders: Order[],
+  additionalRevenue: AdditionalRevenue[],
+  expenses: Expense[],
+  expenseCategories: ExpenseCategory[],
+  purchaseOrders: PurchaseOrder[],
+  taxSettings: TaxSettings
+): Omit<GstReturnSummary, 'periodStart' | 'periodEnd'> {
+  const { gstRate } = taxSettings;
+
+  const totalSales = orders.reduce((sum, order) => sum + getOrderNetRevenue(order), 0)
+    + additionalRevenue.reduce((sum, revenue) => sum + (revenue.amount || 0), 0);
+  const salesOutputTax = orders.reduce((sum, order) => sum + getOrderNetTax(order), 0);
+  const additionalRevenueOutputTax = additionalRevenue.reduce(
+    (sum, revenue) => sum + getAdditionalRevenueOutputTax(revenue, gstRate),
+    0
+  );
+
+  const deductibleExpenses = expenses.filter(expense => isExpenseTaxDeductible(expense, expenseCategories));
+  const totalDeductibleExpenses = deductibleExpenses.reduce((sum, expense) => sum + expense.amount, 0);
+  const expenseInputTax = deductibleExpenses.reduce(
+    (sum, expense) => sum + getTaxFromInclusive(expense.amount, gstRate),
+    0
+  );
+
+  const totalPurchases = purchaseOrders.reduce((sum, po) => sum + (po.total_amount || 0), 0);
+  const purchaseInputTax = purchaseOrders.reduce(
+    (sum, po) => sum + getPurchaseOrderInputTax(po, taxSettings),
+    0
+  );
+
+  const outputTax = salesOutputTax + additionalRevenueOutputTax;
+  const inputTax = expenseInputTax + purchaseInputTax;
+
+  return {
+    gstRate,
+    totalSales,
+    salesOutputTax,
+    additionalRevenueOutputTax,
+    outputTax,
+    totalDeductibleExpenses,
+    expenseInputTax,
+    totalPurchases,
+    purchaseInputTax,
+    inputTax,
+    netGst: outputTax - inputTax
+  };
+}
@@ -117,4 +117,28 @@ export class ProductVariationsService extends SupabaseService<ProductVariation>
 
 // Export instances of the services
 export const productsService = new ProductsService();
-export const productVariationsService = new ProductVariationsService(); 
\ No newline at end of file
+export const productVariationsService = new ProductVariationsService(); 
+
+/**
+ * Get product and variation names by SKU
+ * Variations without a name of their own are named after their parent product
+ */
+export async function getProductNamesBySku(): Promise<Map<string, string>> {
+  const [products, variations] = await Promise.all([
+    productsService.getAll(),
+    productVariationsService.getAll()
+  ]);
+  const names = new Map<string, string>();
+  const productNames = new Map(products.map(product => [product.id, product.name]));
+
+  products.forEach(product => {
+    if (product.sku) names.set(product.sku, product.name);
+  });
+  variations.forEach(variation => {
+    if (!variation.sku) return;
+    const parentName = productNames.get(variation.parent_id);
+    names.set(variation.sku, variation.name || (parentName ? `${parentName} (${variation.sku})` : variation.sku));
+  });
+
+  return names;
+}
@@ -1,5 +1,5 @@
 import { PurchaseOrder, PurchaseOrderItem } from '../types';
-import { SupabaseService } from './supabaseService';
+import { SupabaseService, fetchAllPages } from './supabaseService';
 import { supabase } from './supabase';
 
 /**
@@ -63,22 +63,22 @@ export class PurchaseOrdersService extends SupabaseService<PurchaseOrder> {
   }
 
   /**
-   * Get purchase orders with items
+   * Get purchase orders with items, read a page at a time
    */
   async getPurchaseOrdersWithItems(): Promise<(PurchaseOrder & { items: PurchaseOrderItem[] })[]> {
-    const { data, error } = await supabase
-      .from(this.tableName)
-      .select(`
-        *,
-        items:purchase_order_items(*)
-      `);
-
-    if (error) {
+    try {
+      return await fetchAllPages<PurchaseOrder & { items: PurchaseOrderItem[] }>((from, to) => supabase
+        .from(this.tableName)
+        .select(`
+          *,
+          items:purchase_order_items(*)
+        `)
+        .order('id')
+        .range(from, to));
+    } catch (error) {
       console.error('Error fetching purchase orders with items:', error);
       throw error;
     }
-
-    return data as (PurchaseOrder & { items: PurchaseOrderItem[] })[];
   }
 
   /**
@@ -0,0 +1,159 @@
+import { subDays } from 'date-fns';
+import { PurchaseOrderItem, ReorderOptions, ReorderSuggestion } from '../../types';
+import {
+  getProductNamesBySku,
+  inventoryService,
+  purchaseOrdersService,
+  suppliersService
+} from '../../services';
+import { getStockMovementsByType } from '../../db/operations/stockReconciliation';
+import { createPurchaseOrder } from '../../db/operations/purchaseOrders';
+import { formatInStoreTimezone } from '../../utils/dateUtils';
+import {
+  calculateReorderPoint,
+  calculateSalesVelocity,
+  calculateSuggestedQuantity,
+  DEFAULT_REORDER_OPTIONS
+} from './reorderCalculations';
+
+/**
+ * Get units on open purchase orders for each SKU
+ */
+const getOnOrderQuantities = async (): Promise<Map<string, number>> => {
+  const purchaseOrders = await purchaseOrdersService.getPurchaseOrdersWithItems();
+  const onOrder = new Map<string, number>();
+
+  purchaseOrders
+    .filter(po => po.status !== 'received')
+    .forEach(po => {
+      po.items.forEach(item => {
+        const outstanding = Math.max(item.quantity - (item.quantity_received || 0), 0);
+        onOrder.set(item.sku, (onOrder.get(item.sku) || 0) + outstanding);
+      });
+    });
+
+  return onOrder;
+};
+
+/**
+ * Load SKUs at or below their reorder point with a suggested order quantity
+ * Stock on open purchase orders counts towards what is available
+ */
+export const loadReorderSuggestions = async (
+  options: ReorderOptions = DEFAULT_REORDER_OPTIONS,
+  now: Date = new Date()
+): Promise<ReorderSuggestion[]> => {
+  try {
+    const [inventory, saleMovements, suppliers, onOrder, productNames] = await Promise.all([
+      inventoryService.getAll(),
+      getStockMovementsByType('sale', subDays(now, options.lookback_days)),
+      suppliersService.getAll(),
+      getOnOrderQuantities(),
+      getProductNamesBySku()
+    ]);
+
+    const velocity = calculateSalesVelocity(saleMovements, options.lookback_days, now);
+    const suppliersByName = new Map(suppliers.map(supplier => [supplier.name.toLowerCase(), supplier]));
+    const suggestions: ReorderSuggestion[] = [];
+
+    inventory.forEach(item => {
+      const dailyVelocity = velocity.get(item.sku) || 0;
+      if (dailyVelocity <= 0) return;
+
+      const supplierName = item.supplier_name || '';
+      const supplier = suppliersByName.get(supplierName.toLowerCase());
+      const leadTimeDays = supplier?.lead_time_days ?? options.default_lead_time_days;
+      const { safetyStock, reorderPoint } = calculateReorderPoint(dailyVelocity, leadTimeDays, options.safety_days);
+
+      const stockQuantity = item.stock_quantity || 0;
+      const skuOnOrder = onOrder.get(item.sku) || 0;
+      const available = stockQuantity + skuOnOrder;
+      if (available > reorderPoint) return;
+
+      suggestions.push({
+        sku: item.sku,
+        product_name: productNames.get(item.sku) || item.sku,
+        supplier_name: supplier?.name || supplierName,
+        supplier_id: supplier?.id,
+        stock_quantity: stockQuantity,
+        on_order: skuOnOrder,
+        daily_velocity: dailyVelocity,
+        lead_time_days: leadTimeDays,
+        safety_stock: safetyStock,
+        reorder_point: reorderPoint,
+        moq: supplier?.moq,
+        suggested_quantity: calculateSuggestedQuantity(
+          available,
+          reorderPoint,
+          dailyVelocity,
+          options.cover_days,
+          supplier?.moq
+        ),
+        unit_price: item.supplier_price || item.cost_price || 0
+      });
+    });
+
+    return suggestions.sort((a, b) =>
+      a.supplier_name.localeCompare(b.supplier_name) || a.sku.localeCompare(b.sku)
+    );
+  } catch (error) {
+    console.error('Error loading reorder suggestions:', error);
+    throw error;
+  }
+};
+
+/**
+ * Create one ordered purchase order per supplier from reorder suggestions
+ * Suggestions without a supplier are skipped
+ */
+export const createReorderPurchaseOrders = async (
+  suggestions: ReorderSuggestion[],
+  now: Date = new Date()
+): Promise<number[]> => {
+  try {
+    const bySupplier = new Map<string, ReorderSuggestion[]>();
+    suggestions
+      .filter(suggestion => suggestion.supplier_name && suggestion.suggested_quantity > 0)
+      .forEach(suggestion => {
+        const group = bySupplier.get(suggestion.supplier_name) || [];
+        group.push(suggestion);
+        bySupplier.set(suggestion.supplier_name, group);
+      });
+
+    const datePart = formatInStoreTimezone(now, 'yyyyMMdd-HHmm');
+    const purchaseOrderIds: number[] = [];
+    let index = 1;
+
+    for (const [supplierName, group] of bySupplier) {
+      const items: PurchaseOrderItem[] = group.map(suggestion => ({
+        purchase_order_id: 0,
+        sku: suggestion.sku,
+        product_name: suggestion.product_name,
+        quantity: suggestion.suggested_quantity,
+        unit_price: suggestion.unit_price,
+        total_price: suggestion.unit_price * suggestion.suggested_quantity
+      }));
+
+      const id = await createPurchaseOrder({
+        date: now,
+        supplier_name: supplierName,
+        supplier_id: group[0].supplier_id,
+        reference_number: `RO-${datePart}-${index++}`,
+        total_amount: items.reduce((sum, item) => sum + (item.total_price || 0), 0),
+        payment_method: 'Bank Transfer',
+        status: 'ordered',
+        notes: 'Drafted from reorder suggestions',
+        created_at: now
+      }, items);
+
+      purchaseOrderIds.push(id);
+    }
+
+    return purchaseOrderIds;
+  } catch (error) {
+    console.error('Error creating reorder purchase orders:', error);
+    throw error;
+  }
+};
+
+export * from './reorderCalculations';
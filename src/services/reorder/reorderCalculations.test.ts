@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { StockMovement } from '../../types';
+import { calculateSalesVelocity } from './reorderCalculations';
+
+const now = new Date('2025-06-30T12:00:00Z');
+
+const sale = (quantity: number, date: string, referenceId?: string, reason?: StockMovement['reason']): StockMovement => ({
+  sku: 'SKU-1',
+  movement_date: new Date(date),
+  quantity,
+  movement_type: 'sale',
+  reference_id: referenceId,
+  reason
+});
+
+describe('calculateSalesVelocity', () => {
+  it('averages units sold over the lookback window', () => {
+    const velocity = calculateSalesVelocity([
+      sale(-3, '2025-06-21', '1001'),
+      sale(-2, '2025-06-25', '1002'),
+      sale(-5, '2025-01-01', '900')
+    ], 10, now);
+
+    expect(velocity.get('SKU-1')).toBe(0.5);
+  });
+
+  it('leaves out cancelled orders instead of counting their reversals as sales', () => {
+    const velocity = calculateSalesVelocity([
+      sale(-3, '2025-06-21', '1001'),
+      sale(3, '2025-06-22', '1001', 'cancellation'),
+      sale(-2, '2025-06-25', '1002')
+    ], 10, now);
+
+    expect(velocity.get('SKU-1')).toBe(0.2);
+  });
+
+  it('counts a reinstated order once on the date of its first sale', () => {
+    const velocity = calculateSalesVelocity([
+      sale(-4, '2025-06-21', '1001'),
+      sale(4, '2025-06-22', '1001', 'cancellation'),
+      sale(-4, '2025-06-24', '1001')
+    ], 10, now);
+
+    expect(velocity.get('SKU-1')).toBe(0.4);
+  });
+
+  it('ignores reversals of sales from before the window', () => {
+    const velocity = calculateSalesVelocity([
+      sale(-3, '2025-01-10', '900'),
+      sale(3, '2025-06-22', '900', 'cancellation'),
+      sale(-2, '2025-06-25', '1002')
+    ], 10, now);
+
+    expect(velocity.get('SKU-1')).toBe(0.2);
+  });
+});
@@ -0,0 +1,77 @@
+import { subDays } from 'date-fns';
+import { ReorderOptions, StockMovement } from '../../types';
+
+export const DEFAULT_REORDER_OPTIONS: ReorderOptions = {
+  lookback_days: 90,
+  safety_days: 7,
+  cover_days: 30,
+  default_lead_time_days: 14
+};
+
+/**
+ * Get average units sold per day for each SKU over the lookback window
+ * Sales of an order are netted against their cancellation reversals and reinstatements,
+ * and count on the date of the order's first sale
+ */
+export function calculateSalesVelocity(
+  saleMovements: StockMovement[],
+  lookbackDays: number,
+  now: Date = new Date()
+): Map<string, number> {
+  const since = subDays(now, lookbackDays);
+
+  // Net quantity and first sale date per SKU and order, movements without an order stand alone
+  const orderSales = new Map<string, { sku: string; net: number; soldAt: Date | null }>();
+  saleMovements.forEach((movement, index) => {
+    const key = movement.reference_id ? `${movement.sku}|${movement.reference_id}` : `${movement.sku}|#${index}`;
+    const sale = orderSales.get(key) || { sku: movement.sku, net: 0, soldAt: null };
+    const movementDate = new Date(movement.movement_date);
+
+    sale.net += movement.quantity;
+    // Sale movements are stored as negative quantities, reversals as positive
+    if (movement.quantity < 0 && (!sale.soldAt || movementDate < sale.soldAt)) {
+      sale.soldAt = movementDate;
+    }
+    orderSales.set(key, sale);
+  });
+
+  const unitsSold = new Map<string, number>();
+  orderSales.forEach(({ sku, net, soldAt }) => {
+    if (!soldAt || soldAt < since || soldAt > now || net >= 0) return;
+    unitsSold.set(sku, (unitsSold.get(sku) || 0) - net);
+  });
+
+  const velocity = new Map<string, number>();
+  unitsSold.forEach((units, sku) => velocity.set(sku, units / lookbackDays));
+  return velocity;
+}
+
+/**
+ * Calculate the reorder point for a SKU
+ * Reorder point is demand over the lead time plus safety stock
+ */
+export function calculateReorderPoint(
+  dailyVelocity: number,
+  leadTimeDays: number,
+  safetyDays: number
+): { safetyStock: number; reorderPoint: number } {
+  const safetyStock = Math.ceil(dailyVelocity * safetyDays);
+  const reorderPoint = Math.ceil(dailyVelocity * leadTimeDays) + safetyStock;
+  return { safetyStock, reorderPoint };
+}
+
+/**
+ * Calculate how many units to order to get back above the reorder point
+ * and cover demand for the cover period, never less than the supplier MOQ
+ */
+export function calculateSuggestedQuantity(
+  available: number,
+  reorderPoint: number,
+  dailyVelocity: number,
+  coverDays: number,
+  moq?: number
+): number {
+  const target = reorderPoint + Math.ceil(dailyVelocity * coverDays);
+  const quantity = Math.max(target - available, 1);
+  return moq && moq > 0 ? Math.max(quantity, moq) : quantity;
+}
@@ -0,0 +1,132 @@
+import { ReportPackSchedule, ReportPackRun, ReportPackFile } from '../types';
+import { SupabaseService } from './supabaseService';
+import { supabase } from './supabase';
+
+// Storage bucket that holds generated report pack files
+export const REPORT_PACK_BUCKET = 'report-packs';
+
+/**
+ * Report pack schedules service for Supabase
+ */
+export class ReportPackSchedulesService extends SupabaseService<ReportPackSchedule> {
+  constructor() {
+    super('report_pack_schedules');
+  }
+
+  /**
+   * Get active schedules that are due to run
+   */
+  async getDueSchedules(now: Date): Promise<ReportPackSchedule[]> {
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .select('*')
+      .eq('active', true)
+      .lte('next_run_at', now.toISOString());
+
+    if (error) {
+      console.error('Error fetching due report pack schedules:', error);
+      throw error;
+    }
+
+    return data as ReportPackSchedule[];
+  }
+
+  /**
+   * Move a schedule's next run, only if it is still at the given time
+   * Returns false when another session has already moved it
+   */
+  async moveNextRun(id: number, from: Date, to: Date): Promise<boolean> {
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .update({ next_run_at: to.toISOString(), updated_at: new Date() })
+      .eq('id', id)
+      .eq('next_run_at', from.toISOString())
+      .select('id');
+
+    if (error) {
+      console.error(`Error moving the next run of report pack schedule ${id}:`, error);
+      throw error;
+    }
+
+    return (data || []).length > 0;
+  }
+}
+
+/**
+ * Report pack runs service for Supabase
+ */
+export class ReportPackRunsService extends SupabaseService<ReportPackRun> {
+  constructor() {
+    super('report_pack_runs');
+  }
+
+  /**
+   * Get the most recently generated packs
+   */
+  async getRecentRuns(limit: number = 50): Promise<ReportPackRun[]> {
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .select('*')
+      .order('generated_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching report pack runs:', error);
+      throw error;
+    }
+
+    return data as ReportPackRun[];
+  }
+
+  /**
+   * Upload a generated pack file to storage
+   */
+  async uploadFile(path: string, file: Blob, format: ReportPackFile['format']): Promise<ReportPackFile> {
+    const { error } = await supabase.storage
+      .from(REPORT_PACK_BUCKET)
+      .upload(path, file, { contentType: file.type, upsert: true });
+
+    if (error) {
+      console.error(`Error uploading report pack file ${path}:`, error);
+      throw error;
+    }
+
+    return { format, path, size: file.size };
+  }
+
+  /**
+   * Get a short-lived download URL for a pack file
+   */
+  async getFileUrl(path: string, expiresInSeconds: number = 300): Promise<string> {
+    const { data, error } = await supabase.storage
+      .from(REPORT_PACK_BUCKET)
+      .createSignedUrl(path, expiresInSeconds, { download: true });
+
+    if (error) {
+      console.error(`Error creating download URL for ${path}:`, error);
+      throw error;
+    }
+
+    return data.signedUrl;
+  }
+
+  /**
+   * Remove pack files from storage
+   */
+  async removeFiles(paths: string[]): Promise<void> {
+    if (paths.length === 0) return;
+
+    const { error } = await supabase.storage
+      .from(REPORT_PACK_BUCKET)
+      .remove(paths);
+
+    if (error) {
+      console.error('Error removing report pack files:', error);
+      throw error;
+    }
+  }
+}
+
+// Export instances of the services
+export const reportPackSchedulesService = new ReportPackSchedulesService();
+export const reportPackRunsService = new ReportPackRunsService();
@@ -1,21 +1,27 @@
 import { format } from 'date-fns';
-import { Order, Product, Expense, AdditionalRevenue } from '../../types';
+import { Order, Product, Expense, AdditionalRevenue, StockWriteOff } from '../../types';
 import { groupDataByPeriod } from './utils';
+import { getOrderNetRevenue } from '../pnl/refundCalculations';
+import { toStoreTime } from '../../utils/dateUtils';
+
+// Orders processed by calculateProfitAndLoss carry their revenue on the reporting tax basis
+const getReportRevenue = (order: Order) => order.net_total ?? getOrderNetRevenue(order);
 
 // Generate sales report
 export const generateSalesReport = (orders: Order[], periodType: string) => {
   // Group orders by period
-  const groupedData = groupDataByPeriod(orders, (order) => parseFloat(order.total), 'date_created', periodType);
+  const groupedData = groupDataByPeriod(orders, (order) => getReportRevenue(order), 'date_created', periodType);
   
   // Add additional metrics
   return groupedData.map(item => {
     const periodOrders = orders.filter(order => {
-      const orderDate = new Date(order.date_created);
+      if (!order.date_created) return false;
+      const orderDate = toStoreTime(order.date_created);
       const periodFormat = getPeriodFormat(periodType);
       return format(orderDate, periodFormat) === item.period;
     });
     
-    const totalRevenue = periodOrders.reduce((sum, order) => sum + parseFloat(order.total), 0);
+    const totalRevenue = periodOrders.reduce((sum, order) => sum + getReportRevenue(order), 0);
     const totalCost = periodOrders.reduce((sum, order) => sum + (order.cost_total || 0), 0);
     const totalProfit = totalRevenue - totalCost;
     const orderCount = periodOrders.length;
@@ -66,9 +72,9 @@ export const generateProductsReport = (orders: Order[], products: Product[], per
     }
     
     const product = productMap.get(key)!;
-    product.quantity += item.quantity;
-    product.revenue += parseFloat(item.total);
-    product.cost += (item.cost_price || 0) * item.quantity;
+    product.quantity += item.quantity - (item.refunded_quantity || 0);
+    product.revenue += parseFloat(item.total) - (item.refunded_total || 0);
+    product.cost += (item.cost_price || 0) * (item.quantity - (item.restocked_quantity || 0));
   });
   
   // Calculate profit and margin
@@ -177,10 +183,11 @@ export const generateProfitabilityReport = (
   orders: Order[], 
   expenses: Expense[], 
   additionalRevenues: AdditionalRevenue[],
-  periodType: string
+  periodType: string,
+  writeOffs: StockWriteOff[] = []
 ) => {
   // Group orders by period
-  const monthlyData = groupDataByPeriod(orders, (order) => parseFloat(order.total), 'date_created', periodType);
+  const monthlyData = groupDataByPeriod(orders, (order) => getReportRevenue(order), 'date_created', periodType);
   
   // Group expenses by period
   const monthlyExpenses = groupDataByPeriod(expenses, (expense) => expense.amount, 'date', periodType);
@@ -188,6 +195,9 @@ export const generateProfitabilityReport = (
   // Group additional revenue by period
   const monthlyAdditionalRevenue = groupDataByPeriod(additionalRevenues, (revenue) => revenue.amount, 'date', periodType);
   
+  // Group stock write-offs by period
+  const monthlyWriteOffs = groupDataByPeriod(writeOffs, (writeOff) => writeOff.cost_value, 'write_off_date', periodType);
+  
   // Merge data
   return monthlyData.map(item => {
     const matchingExpense = monthlyExpenses.find(exp => exp.period === item.period);
@@ -196,8 +206,12 @@ export const generateProfitabilityReport = (
     const matchingAdditionalRevenue = monthlyAdditionalRevenue.find(rev => rev.period === item.period);
     const additionalRevenueAmount = matchingAdditionalRevenue ? matchingAdditionalRevenue.value : 0;
     
+    const matchingWriteOff = monthlyWriteOffs.find(writeOff => writeOff.period === item.period);
+    const writeOffAmount = matchingWriteOff ? matchingWriteOff.value : 0;
+    
     const periodOrders = orders.filter(order => {
-      const orderDate = new Date(order.date_created);
+      if (!order.date_created) return false;
+      const orderDate = toStoreTime(order.date_created);
       const periodFormat = getPeriodFormat(periodType);
       return format(orderDate, periodFormat) === item.period;
     });
@@ -229,7 +243,7 @@ export const generateProfitabilityReport = (
         return sum;
       }
       
-      return sum + orderTotal;
+      return sum + getReportRevenue(order);
     }, 0);
     
     console.log(`Period ${item.period} - Total Order Revenue: ${totalOrderRevenue}`);
@@ -240,7 +254,7 @@ export const generateProfitabilityReport = (
       return sum + (isNaN(costTotal) ? 0 : costTotal);
     }, 0);
     const grossProfit = totalRevenue - totalCost;
-    const netProfit = grossProfit - expenseAmount;
+    const netProfit = grossProfit - expenseAmount - writeOffAmount;
     const profitMargin = totalRevenue > 0 ? (netProfit / totalRevenue) * 100 : 0;
     
     // Debug final calculations
@@ -249,6 +263,7 @@ export const generateProfitabilityReport = (
       totalCost,
       grossProfit,
       expenses: expenseAmount,
+      writeOffs: writeOffAmount,
       netProfit,
       profitMargin
     });
@@ -261,6 +276,7 @@ export const generateProfitabilityReport = (
       totalRevenue: totalRevenue,
       cost: totalCost,
       expenses: expenseAmount,
+      writeOffs: writeOffAmount,
       grossProfit,
       netProfit,
       profitMargin
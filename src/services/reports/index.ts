@@ -1,8 +1,30 @@
-import { DateRange, Order, Product, Expense, AdditionalRevenue } from '../../types';
+import {
+  DateRange,
+  Order,
+  Product,
+  Expense,
+  ExpenseCategory,
+  AdditionalRevenue,
+  GstReturnSummary,
+  ReportData,
+  ReportSection
+} from '../../types';
 import { fetchOrders, fetchProducts, fetchInventory, fetchOverheadCosts } from '../api';
-import { getExpenses } from '../../db/operations/expenses';
+import { getExpensesWithRecurring, getExpenseCategories } from '../../db/operations/expenses';
 import { getAdditionalRevenue } from '../../db/operations/additionalRevenue';
-import { calculateProfitAndLoss } from '../pnl';
+import { getPurchaseOrdersFiltered } from '../../db/operations/purchaseOrders';
+import { getStockWriteOffs } from '../../db/operations/writeOffs';
+import { getInventoryValuation } from '../../db/operations/costLedger';
+import { settingsService } from '../settingsService';
+import { loadBudgetVariance } from '../budgets';
+import { formatInStoreTimezone } from '../../utils/dateUtils';
+import { calculateProfitAndLoss, getOrderNetRevenue } from '../pnl';
+import {
+  TaxSettings,
+  calculateGstReturn,
+  applyTaxModeToExpenses,
+  applyTaxModeToAdditionalRevenue
+} from '../pnl/taxCalculations';
 import { 
   generateSalesReport, 
   generateProductsReport, 
@@ -15,8 +37,22 @@ import {
 export const loadReportData = async (
   dateRange: DateRange, 
   periodType: string
-) => {
+): Promise<ReportData> => {
   try {
+    const sectionErrors: ReportData['sectionErrors'] = {};
+
+    // A section that fails is reported on its own tab and left empty, the other reports still load
+    const loadSection = async <T>(section: ReportSection, load: () => Promise<T>, fallback: T): Promise<T> => {
+      try {
+        return await load();
+      } catch (error) {
+        console.error(`Error loading report section ${section}:`, error);
+        sectionErrors[section] = (error as { message?: string })?.message || 'Failed to load';
+        return fallback;
+      }
+    };
+
+
     console.log('Loading report data for date range:', {
       startDate: dateRange.startDate.toISOString(),
       endDate: dateRange.endDate.toISOString(),
@@ -36,12 +72,26 @@ export const loadReportData = async (
     const overheadCosts = await fetchOverheadCosts();
     console.log(`Fetched ${overheadCosts.length} overhead costs`);
     
-    const expensesData = await getExpenses(dateRange.startDate, dateRange.endDate);
+    const expensesData = await getExpensesWithRecurring(dateRange.startDate, dateRange.endDate);
     console.log(`Fetched ${expensesData.length} expenses for date range`);
     
     const additionalRevenueData = await getAdditionalRevenue(dateRange.startDate, dateRange.endDate);
     console.log(`Fetched ${additionalRevenueData.length} additional revenue items for date range`);
     
+    const writeOffsData = await loadSection(
+      'writeOffs',
+      () => getStockWriteOffs(dateRange.startDate, dateRange.endDate),
+      []
+    );
+    console.log(`Fetched ${writeOffsData.length} stock write-offs for date range`);
+    
+    const taxSettings = await settingsService.getTaxSettings();
+    const expenseCategories = await getExpenseCategories();
+    
+    // Expenses and additional revenue on the reporting tax basis
+    const reportExpenses = applyTaxModeToExpenses(expensesData, expenseCategories, taxSettings);
+    const reportAdditionalRevenue = applyTaxModeToAdditionalRevenue(additionalRevenueData, taxSettings);
+    
     // Calculate profit and margins with expenses
     const result = await calculateProfitAndLoss(
       ordersData,
@@ -74,9 +124,27 @@ export const loadReportData = async (
     // Generate report data
     const salesData = generateSalesReport(filteredOrders, periodType);
     const productData = generateProductsReport(filteredOrders, productsData, periodType);
-    const expenseData = generateExpensesReport(expensesData, periodType);
-    const additionalRevenueReport = generateAdditionalRevenueReport(additionalRevenueData, periodType);
-    const profitabilityData = generateProfitabilityReport(filteredOrders, expensesData, additionalRevenueData, periodType);
+    const expenseData = generateExpensesReport(reportExpenses, periodType);
+    const additionalRevenueReport = generateAdditionalRevenueReport(reportAdditionalRevenue, periodType);
+    const profitabilityData = generateProfitabilityReport(
+      filteredOrders,
+      reportExpenses,
+      reportAdditionalRevenue,
+      periodType,
+      writeOffsData
+    );
+    const [gstReturn, budgetVariance, inventoryValuation] = await Promise.all([
+      loadSection('gstReturn', () => loadGstReturn(
+        filteredOrders,
+        additionalRevenueData,
+        expensesData,
+        expenseCategories,
+        dateRange,
+        taxSettings
+      ), null),
+      loadSection('budgetVariance', () => loadBudgetVariance(dateRange), []),
+      loadSection('inventoryValuation', () => getInventoryValuation(dateRange.startDate, dateRange.endDate), null)
+    ]);
     
     console.log('Generated profitability data:', {
       periods: profitabilityData.length,
@@ -86,26 +154,29 @@ export const loadReportData = async (
     // Calculate totals with robust error handling
     const totalRevenue = filteredOrders.reduce((sum, order) => {
       if (!order.total) return sum;
-      const orderTotal = parseFloat(order.total);
+      const orderTotal = order.net_total ?? getOrderNetRevenue(order);
       return sum + (isNaN(orderTotal) ? 0 : orderTotal);
     }, 0);
     
-    const totalAdditionalRevenue = additionalRevenueData.reduce((sum, revenue) => {
+    const totalAdditionalRevenue = reportAdditionalRevenue.reduce((sum, revenue) => {
       const amount = revenue.amount || 0;
       return sum + (isNaN(amount) ? 0 : amount);
     }, 0);
     
-    const totalExpenses = expensesData.reduce((sum, expense) => {
+    const totalExpenses = reportExpenses.reduce((sum, expense) => {
       const amount = expense.amount || 0;
       return sum + (isNaN(amount) ? 0 : amount);
     }, 0);
     
-    const totalProfit = totalRevenue + totalAdditionalRevenue - totalExpenses;
+    const totalWriteOffs = writeOffsData.reduce((sum, writeOff) => sum + (writeOff.cost_value || 0), 0);
+    
+    const totalProfit = totalRevenue + totalAdditionalRevenue - totalExpenses - totalWriteOffs;
     
     console.log('Final totals:', {
       totalRevenue,
       totalAdditionalRevenue,
       totalExpenses,
+      totalWriteOffs,
       totalProfit
     });
     
@@ -119,9 +190,14 @@ export const loadReportData = async (
       expenseData,
       additionalRevenueReport,
       profitabilityData,
+      gstReturn,
+      budgetVariance,
+      inventoryValuation,
+      sectionErrors,
       totalRevenue,
       totalAdditionalRevenue,
       totalExpenses,
+      totalWriteOffs,
       totalProfit
     };
   } catch (error) {
@@ -130,6 +206,33 @@ export const loadReportData = async (
   }
 };
 
+// Load the GST return for the report period
+const loadGstReturn = async (
+  orders: Order[],
+  additionalRevenue: AdditionalRevenue[],
+  expenses: Expense[],
+  expenseCategories: ExpenseCategory[],
+  dateRange: DateRange,
+  taxSettings: TaxSettings
+): Promise<GstReturnSummary> => {
+  try {
+    // GST is claimed on purchase orders once the stock has arrived
+    const purchaseOrders = (await getPurchaseOrdersFiltered({
+      startDate: dateRange.startDate,
+      endDate: dateRange.endDate
+    })).filter(po => po.status !== 'ordered');
+    
+    return {
+      periodStart: formatInStoreTimezone(dateRange.startDate, 'MMM dd, yyyy'),
+      periodEnd: formatInStoreTimezone(dateRange.endDate, 'MMM dd, yyyy'),
+      ...calculateGstReturn(orders, additionalRevenue, expenses, expenseCategories, purchaseOrders, taxSettings)
+    };
+  } catch (error) {
+    console.error('Error loading GST return:', error);
+    throw error;
+  }
+};
+
 // Export all report generators
 export * from './generators';
 export * from './utils';
\ No newline at end of file
@@ -0,0 +1,389 @@
+import {
+  addMonths,
+  addWeeks,
+  addYears,
+  endOfDay,
+  endOfMonth,
+  endOfQuarter,
+  endOfWeek,
+  endOfYear,
+  getDaysInMonth,
+  setISODay,
+  startOfDay,
+  startOfMonth,
+  startOfQuarter,
+  startOfWeek,
+  startOfYear,
+  subMonths,
+  subQuarters,
+  subWeeks,
+  subYears
+} from 'date-fns';
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { Workbook } from 'exceljs';
+import { DateRange, ReportData, ReportPackFormat, ReportPackPeriod, ReportPackSchedule } from '../../types';
+import { formatInStoreTimezone, fromStoreTime, toStoreTime } from '../../utils/dateUtils';
+import { formatCurrency, formatPercentage } from './utils';
+
+type ReportPackValueFormat = 'text' | 'number' | 'currency' | 'percent';
+
+export interface ReportPackColumn {
+  header: string;
+  key: string;
+  format?: ReportPackValueFormat;
+}
+
+export interface ReportPackSection {
+  title: string;
+  columns: ReportPackColumn[];
+  rows: Record<string, unknown>[];
+}
+
+export const REPORT_PACK_PERIOD_LABELS: Record<ReportPackPeriod, string> = {
+  last_week: 'last week',
+  last_month: 'last month',
+  last_quarter: 'last quarter',
+  last_year: 'last year'
+};
+
+const WEEKDAY_NAMES = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+// Day of month with an ordinal suffix (1st, 2nd, 23rd)
+const formatOrdinal = (day: number): string => {
+  const suffix = day % 100 >= 11 && day % 100 <= 13
+    ? 'th'
+    : ({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[day % 10] || 'th';
+  return `${day}${suffix}`;
+};
+
+/**
+ * Describe when a schedule runs (e.g. "Monthly on the 1st for last month")
+ */
+export const describeReportPackSchedule = (schedule: ReportPackSchedule): string => {
+  const period = REPORT_PACK_PERIOD_LABELS[schedule.period];
+
+  switch (schedule.frequency) {
+    case 'weekly':
+      return `Weekly on ${WEEKDAY_NAMES[schedule.run_day - 1]} for ${period}`;
+    case 'quarterly':
+      return `Quarterly on the ${formatOrdinal(schedule.run_day)} for ${period}`;
+    case 'yearly':
+      return `Yearly on ${formatOrdinal(schedule.run_day)} January for ${period}`;
+    default:
+      return `Monthly on the ${formatOrdinal(schedule.run_day)} for ${period}`;
+  }
+};
+
+/**
+ * Get the completed store-time period before a date
+ */
+export const getReportPackPeriodRange = (period: ReportPackPeriod, reference: Date = new Date()): DateRange => {
+  const storeNow = toStoreTime(reference);
+  let start: Date;
+  let end: Date;
+
+  switch (period) {
+    case 'last_week': {
+      const lastWeek = subWeeks(storeNow, 1);
+      start = startOfWeek(lastWeek, { weekStartsOn: 1 });
+      end = endOfWeek(lastWeek, { weekStartsOn: 1 });
+      break;
+    }
+    case 'last_quarter': {
+      const lastQuarter = subQuarters(storeNow, 1);
+      start = startOfQuarter(lastQuarter);
+      end = endOfQuarter(lastQuarter);
+      break;
+    }
+    case 'last_year': {
+      const lastYear = subYears(storeNow, 1);
+      start = startOfYear(lastYear);
+      end = endOfYear(lastYear);
+      break;
+    }
+    default: {
+      const lastMonth = subMonths(storeNow, 1);
+      start = startOfMonth(lastMonth);
+      end = endOfMonth(lastMonth);
+    }
+  }
+
+  return {
+    startDate: fromStoreTime(start),
+    endDate: fromStoreTime(end)
+  };
+};
+
+// Run day within a month, clamped to the length of the month
+const onRunDay = (month: Date, runDay: number): Date => {
+  return startOfDay(new Date(month.getFullYear(), month.getMonth(), Math.min(runDay, getDaysInMonth(month))));
+};
+
+/**
+ * Get the next time a schedule should run after a date, at the start of the store day
+ */
+export const getNextReportPackRun = (schedule: ReportPackSchedule, after: Date = new Date()): Date => {
+  const storeNow = toStoreTime(after);
+  let next: Date;
+
+  switch (schedule.frequency) {
+    case 'weekly':
+      next = startOfDay(setISODay(storeNow, schedule.run_day));
+      if (next <= storeNow) next = addWeeks(next, 1);
+      break;
+    case 'quarterly':
+      next = onRunDay(startOfQuarter(storeNow), schedule.run_day);
+      if (next <= storeNow) next = onRunDay(addMonths(startOfQuarter(storeNow), 3), schedule.run_day);
+      break;
+    case 'yearly':
+      next = onRunDay(startOfYear(storeNow), schedule.run_day);
+      if (next <= storeNow) next = onRunDay(addYears(startOfYear(storeNow), 1), schedule.run_day);
+      break;
+    default:
+      next = onRunDay(startOfMonth(storeNow), schedule.run_day);
+      if (next <= storeNow) next = onRunDay(addMonths(startOfMonth(storeNow), 1), schedule.run_day);
+  }
+
+  return fromStoreTime(next);
+};
+
+/**
+ * Group report periods so each pack table stays a readable length
+ */
+export const getReportPackPeriodType = (dateRange: DateRange): string => {
+  const days = (endOfDay(dateRange.endDate).getTime() - dateRange.startDate.getTime()) / (24 * 60 * 60 * 1000);
+
+  if (days <= 14) return 'daily';
+  if (days <= 62) return 'weekly';
+  return 'monthly';
+};
+
+/**
+ * Build the pack tables from loaded report data
+ */
+export const buildReportPackSections = (data: ReportData): ReportPackSection[] => {
+  const expenseCategories = data.expenseData.filter(item => item.category);
+  const revenueCategories = data.additionalRevenueReport.filter(item => item.category);
+  const products = [...data.productData].sort((a, b) => b.revenue - a.revenue);
+
+  return [
+    {
+      title: 'Summary',
+      columns: [
+        { header: 'Measure', key: 'label' },
+        { header: 'Amount', key: 'value', format: 'currency' }
+      ],
+      rows: [
+        { label: 'Sales revenue', value: data.totalRevenue },
+        { label: 'Additional revenue', value: data.totalAdditionalRevenue },
+        { label: 'Expenses', value: data.totalExpenses },
+        { label: 'Stock write-offs', value: data.totalWriteOffs },
+        { label: 'Net profit', value: data.totalProfit },
+        ...(data.gstReturn ? [
+          { label: 'GST output tax', value: data.gstReturn.outputTax },
+          { label: 'GST input tax', value: data.gstReturn.inputTax },
+          { label: 'Net GST', value: data.gstReturn.netGst }
+        ] : [])
+      ]
+    },
+    {
+      title: 'Sales',
+      columns: [
+        { header: 'Period', key: 'period' },
+        { header: 'Orders', key: 'orderCount', format: 'number' },
+        { header: 'Revenue', key: 'revenue', format: 'currency' },
+        { header: 'Cost', key: 'cost', format: 'currency' },
+        { header: 'Profit', key: 'profit', format: 'currency' },
+        { header: 'Avg Order', key: 'averageOrderValue', format: 'currency' }
+      ],
+      rows: data.salesData
+    },
+    {
+      title: 'Products',
+      columns: [
+        { header: 'Product', key: 'name' },
+        { header: 'SKU', key: 'sku' },
+        { header: 'Qty', key: 'quantity', format: 'number' },
+        { header: 'Revenue', key: 'revenue', format: 'currency' },
+        { header: 'Cost', key: 'cost', format: 'currency' },
+        { header: 'Profit', key: 'profit', format: 'currency' },
+        { header: 'Margin', key: 'margin', format: 'percent' }
+      ],
+      rows: products
+    },
+    {
+      title: 'Expenses',
+      columns: [
+        { header: 'Category', key: 'category' },
+        { header: 'Entries', key: 'count', format: 'number' },
+        { header: 'Amount', key: 'amount', format: 'currency' },
+        { header: 'Share', key: 'percentage', format: 'percent' }
+      ],
+      rows: expenseCategories
+    },
+    {
+      title: 'Additional Revenue',
+      columns: [
+        { header: 'Category', key: 'category' },
+        { header: 'Entries', key: 'count', format: 'number' },
+        { header: 'Amount', key: 'amount', format: 'currency' },
+        { header: 'Share', key: 'percentage', format: 'percent' }
+      ],
+      rows: revenueCategories
+    },
+    {
+      title: 'Profitability',
+      columns: [
+        { header: 'Period', key: 'period' },
+        { header: 'Order Revenue', key: 'orderRevenue', format: 'currency' },
+        { header: 'Additional Revenue', key: 'additionalRevenue', format: 'currency' },
+        { header: 'Cost', key: 'cost', format: 'currency' },
+        { header: 'Gross Profit', key: 'grossProfit', format: 'currency' },
+        { header: 'Expenses', key: 'expenses', format: 'currency' },
+        { header: 'Write-offs', key: 'writeOffs', format: 'currency' },
+        { header: 'Net Profit', key: 'netProfit', format: 'currency' },
+        { header: 'Margin', key: 'profitMargin', format: 'percent' }
+      ],
+      rows: data.profitabilityData
+    },
+    {
+      title: 'Inventory Valuation',
+      columns: [
+        { header: 'SKU', key: 'sku' },
+        { header: 'Product', key: 'product_name' },
+        { header: 'Opening', key: 'opening_value', format: 'currency' },
+        { header: 'Purchases', key: 'purchases_value', format: 'currency' },
+        { header: 'COGS', key: 'cogs_value', format: 'currency' },
+        { header: 'Adjustments', key: 'adjustments_value', format: 'currency' },
+        { header: 'Closing Qty', key: 'closing_quantity', format: 'number' },
+        { header: 'Closing', key: 'closing_value', format: 'currency' }
+      ],
+      rows: data.inventoryValuation ? [
+        ...data.inventoryValuation.lines,
+        { sku: 'Total', ...data.inventoryValuation.totals }
+      ] : []
+    }
+  ];
+};
+
+// Format a cell for the PDF tables
+const formatPackValue = (value: unknown, format: ReportPackValueFormat = 'text'): string => {
+  if (value === undefined || value === null) return '';
+
+  switch (format) {
+    case 'currency':
+      return formatCurrency(Number(value) || 0);
+    case 'percent':
+      return formatPercentage(Number(value) || 0);
+    case 'number':
+      return (Number(value) || 0).toLocaleString();
+    default:
+      return String(value);
+  }
+};
+
+// Pack heading with the period it covers
+const getPackSubtitle = (dateRange: DateRange): string => {
+  return `${formatInStoreTimezone(dateRange.startDate, 'dd MMM yyyy')} - ${formatInStoreTimezone(dateRange.endDate, 'dd MMM yyyy')}`;
+};
+
+/**
+ * Render the pack as a PDF with one page per report
+ */
+export const renderReportPackPdf = (
+  name: string,
+  dateRange: DateRange,
+  sections: ReportPackSection[]
+): Blob => {
+  const doc = new jsPDF({ orientation: 'landscape', unit: 'pt', format: 'a4' });
+
+  sections.forEach((section, index) => {
+    let startY = 40;
+
+    if (index === 0) {
+      doc.setFontSize(18);
+      doc.text(name, 40, startY);
+      doc.setFontSize(10);
+      doc.text(`${getPackSubtitle(dateRange)} (generated ${formatInStoreTimezone(new Date(), 'dd MMM yyyy h:mm a')})`, 40, startY + 18);
+      startY += 44;
+    } else {
+      doc.addPage();
+    }
+
+    doc.setFontSize(14);
+    doc.text(section.title, 40, startY);
+
+    autoTable(doc, {
+      startY: startY + 10,
+      head: [section.columns.map(column => column.header)],
+      body: section.rows.length > 0
+        ? section.rows.map(row => section.columns.map(column => formatPackValue(row[column.key], column.format)))
+        : [[{ content: 'No data for this period', colSpan: section.columns.length }]],
+      columnStyles: Object.fromEntries(
+        section.columns.map((column, columnIndex) => [
+          columnIndex,
+          { halign: column.format && column.format !== 'text' ? 'right' : 'left' }
+        ])
+      ),
+      headStyles: { fillColor: [79, 70, 229] },
+      styles: { fontSize: 9 }
+    });
+  });
+
+  return doc.output('blob');
+};
+
+/**
+ * Render the pack as an XLSX workbook with one worksheet per report
+ */
+export const renderReportPackXlsx = async (
+  name: string,
+  dateRange: DateRange,
+  sections: ReportPackSection[]
+): Promise<Blob> => {
+  const workbook = new Workbook();
+  workbook.title = `${name} (${getPackSubtitle(dateRange)})`;
+  workbook.created = new Date();
+
+  sections.forEach(section => {
+    const worksheet = workbook.addWorksheet(section.title.slice(0, 31));
+
+    worksheet.columns = section.columns.map(column => ({
+      header: column.header,
+      key: column.key,
+      width: column.format && column.format !== 'text' ? 16 : 32,
+      style: {
+        numFmt: column.format === 'currency'
+          ? '"$"#,##0.00'
+          : column.format === 'percent'
+            ? '0.0"%"'
+            : undefined
+      }
+    }));
+
+    section.rows.forEach(row => {
+      worksheet.addRow(Object.fromEntries(section.columns.map(column => [column.key, row[column.key]])));
+    });
+
+    worksheet.getRow(1).font = { bold: true };
+    worksheet.views = [{ state: 'frozen', ySplit: 1 }];
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
+
+/**
+ * Render the pack in a file format
+ */
+export const renderReportPack = async (
+  format: ReportPackFormat,
+  name: string,
+  dateRange: DateRange,
+  sections: ReportPackSection[]
+): Promise<Blob> => {
+  return format === 'pdf'
+    ? renderReportPackPdf(name, dateRange, sections)
+    : renderReportPackXlsx(name, dateRange, sections);
+};
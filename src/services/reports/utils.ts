@@ -1,6 +1,7 @@
 import { format, startOfMonth, endOfMonth, startOfQuarter, endOfQuarter, startOfYear, endOfYear, eachMonthOfInterval, eachQuarterOfInterval, eachYearOfInterval } from 'date-fns';
+import { toStoreTime } from '../../utils/dateUtils';
 
-// Helper function to group data by period
+// Helper function to group data by period, bucketed by the store timezone calendar
 export const groupDataByPeriod = <T,>(
   data: T[], 
   valueAccessor: (item: T) => number,
@@ -19,7 +20,7 @@ export const groupDataByPeriod = <T,>(
   let maxDate = new Date(0); // Start with earliest possible date
   
   data.forEach(item => {
-    const date = new Date(item[dateField] as string);
+    const date = toStoreTime(item[dateField] as string);
     if (date < minDate) minDate = date;
     if (date > maxDate) maxDate = date;
   });
@@ -30,7 +31,7 @@ export const groupDataByPeriod = <T,>(
       // For daily, we'd need a different approach as there could be too many days
       // This is a simplified version that just uses the actual dates in the data
       data.forEach(item => {
-        const date = new Date(item[dateField] as string);
+        const date = toStoreTime(item[dateField] as string);
         const period = format(date, 'yyyy-MM-dd');
         if (!periodMap.has(period)) {
           periodMap.set(period, 0);
@@ -41,7 +42,7 @@ export const groupDataByPeriod = <T,>(
     case 'weekly':
       // Similar to daily, we'll use the actual weeks in the data
       data.forEach(item => {
-        const date = new Date(item[dateField] as string);
+        const date = toStoreTime(item[dateField] as string);
         const period = format(date, "yyyy-'W'ww"); // ISO week format
         if (!periodMap.has(period)) {
           periodMap.set(period, 0);
@@ -95,7 +96,7 @@ export const groupDataByPeriod = <T,>(
   
   // Aggregate data by period
   data.forEach(item => {
-    const date = new Date(item[dateField] as string);
+    const date = toStoreTime(item[dateField] as string);
     let period: string;
     
     switch (periodType) {
@@ -1,16 +1,41 @@
 import { supabase } from './supabase';
 import { invalidateReconciliationCache } from '../db/operations/stockReconciliation';
+import { CostingMethod } from './pnl/costLedger';
+import { TaxMode, TaxSettings } from './pnl/taxCalculations';
+import { ExpiryAlertSettings, RFMSettings } from '../types';
+import { DEFAULT_RFM_SETTINGS, normalizeRFMSettings } from './customer/rfmSettings';
+import { DEFAULT_STORE_TIMEZONE, isValidTimezone, setStoreTimezone } from '../utils/dateUtils';
 
 // Interface for application settings
 export interface AppSettings {
   exclude_on_hold_orders: boolean;
   last_order_processing_time?: Date | null;
+  costing_method: CostingMethod;
+  price_change_alert_percent: number;
+  tax_mode: TaxMode;
+  gst_rate: number;
+  purchase_prices_include_tax: boolean;
+  store_timezone: string;
+  expiry_alert_horizons: number[];
+  expiry_alert_lookback_days: number;
+  expiry_max_markdown_percent: number;
+  rfm_settings: RFMSettings;
 }
 
 // Default settings
 const DEFAULT_SETTINGS: AppSettings = {
   exclude_on_hold_orders: true,
-  last_order_processing_time: null
+  last_order_processing_time: null,
+  costing_method: 'fifo',
+  price_change_alert_percent: 10,
+  tax_mode: 'inclusive',
+  gst_rate: 15,
+  purchase_prices_include_tax: false,
+  store_timezone: DEFAULT_STORE_TIMEZONE,
+  expiry_alert_horizons: [30, 60, 90],
+  expiry_alert_lookback_days: 90,
+  expiry_max_markdown_percent: 50,
+  rfm_settings: DEFAULT_RFM_SETTINGS
 };
 
 /**
@@ -125,6 +150,129 @@ export class SettingsService {
     console.log(`Updated exclude on-hold orders setting to: ${exclude}`);
   }
 
+  /**
+   * Get the method used to cost sold stock
+   */
+  async getCostingMethod(): Promise<CostingMethod> {
+    const settings = await this.getSettings();
+    return settings.costing_method;
+  }
+  
+  /**
+   * Update the method used to cost sold stock
+   */
+  async setCostingMethod(method: CostingMethod): Promise<void> {
+    await this.updateSettings({ costing_method: method });
+    console.log(`Updated costing method to: ${method}`);
+  }
+
+  /**
+   * Get the percentage change that flags a supplier price jump
+   */
+  async getPriceChangeAlertPercent(): Promise<number> {
+    const settings = await this.getSettings();
+    return settings.price_change_alert_percent;
+  }
+  
+  /**
+   * Update the percentage change that flags a supplier price jump
+   */
+  async setPriceChangeAlertPercent(percent: number): Promise<void> {
+    await this.updateSettings({ price_change_alert_percent: percent });
+    console.log(`Updated price change alert threshold to: ${percent}%`);
+  }
+
+  /**
+   * Get the IANA timezone the store operates in
+   */
+  async getTimezone(): Promise<string> {
+    const settings = await this.getSettings();
+    return isValidTimezone(settings.store_timezone) ? settings.store_timezone : DEFAULT_STORE_TIMEZONE;
+  }
+  
+  /**
+   * Update the store timezone and apply it to date handling straight away
+   */
+  async setTimezone(timezone: string): Promise<void> {
+    if (!isValidTimezone(timezone)) {
+      throw new Error(`Invalid timezone: ${timezone}`);
+    }
+    
+    await this.updateSettings({ store_timezone: timezone });
+    setStoreTimezone(timezone);
+    
+    console.log(`Updated store timezone to: ${timezone}`);
+  }
+
+  /**
+   * Get the GST settings used for reporting
+   */
+  async getTaxSettings(): Promise<TaxSettings> {
+    const settings = await this.getSettings();
+    return {
+      taxMode: settings.tax_mode,
+      gstRate: Number(settings.gst_rate) || 0,
+      purchasePricesIncludeTax: settings.purchase_prices_include_tax
+    };
+  }
+  
+  /**
+   * Update the GST settings used for reporting
+   */
+  async setTaxSettings(taxSettings: TaxSettings): Promise<void> {
+    await this.updateSettings({
+      tax_mode: taxSettings.taxMode,
+      gst_rate: taxSettings.gstRate,
+      purchase_prices_include_tax: taxSettings.purchasePricesIncludeTax
+    });
+    console.log(`Updated tax mode to: ${taxSettings.taxMode} (GST ${taxSettings.gstRate}%)`);
+  }
+
+  /**
+   * Get the horizons, sales lookback and markdown limit used for expiry alerts
+   */
+  async getExpiryAlertSettings(): Promise<ExpiryAlertSettings> {
+    const settings = await this.getSettings();
+    const horizons = (settings.expiry_alert_horizons || [])
+      .map(Number)
+      .filter(days => days > 0)
+      .sort((a, b) => a - b);
+    
+    return {
+      horizons: horizons.length > 0 ? horizons : DEFAULT_SETTINGS.expiry_alert_horizons,
+      lookback_days: Number(settings.expiry_alert_lookback_days) || DEFAULT_SETTINGS.expiry_alert_lookback_days,
+      max_markdown_percent: Number(settings.expiry_max_markdown_percent) || 0
+    };
+  }
+  
+  /**
+   * Update the expiry alert settings
+   */
+  async setExpiryAlertSettings(alertSettings: ExpiryAlertSettings): Promise<void> {
+    await this.updateSettings({
+      expiry_alert_horizons: alertSettings.horizons,
+      expiry_alert_lookback_days: alertSettings.lookback_days,
+      expiry_max_markdown_percent: alertSettings.max_markdown_percent
+    });
+    console.log(`Updated expiry alert horizons to: ${alertSettings.horizons.join(', ')} days`);
+  }
+
+  /**
+   * Get the scoring methods, segment rules and analysis window used for RFM
+   */
+  async getRFMSettings(): Promise<RFMSettings> {
+    const settings = await this.getSettings();
+    return normalizeRFMSettings(settings.rfm_settings);
+  }
+  
+  /**
+   * Update the RFM settings, they apply from the next RFM calculation
+   */
+  async setRFMSettings(rfmSettings: RFMSettings): Promise<void> {
+    await this.updateSettings({ rfm_settings: normalizeRFMSettings(rfmSettings) });
+    console.log(`Updated RFM settings with ${rfmSettings.segments.length} segments`);
+  }
+
   /**
    * Get the last order processing time
    */
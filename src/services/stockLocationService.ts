@@ -0,0 +1,49 @@
+import { StockLocation } from '../types';
+import { SupabaseService } from './supabaseService';
+import { supabase } from './supabase';
+
+/**
+ * Stock locations service for Supabase
+ */
+export class StockLocationsService extends SupabaseService<StockLocation> {
+  constructor() {
+    super('stock_locations');
+  }
+
+  /**
+   * Get locations with the default first, then by name
+   */
+  async getLocations(): Promise<StockLocation[]> {
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .select('*')
+      .order('is_default', { ascending: false })
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching stock locations:', error);
+      throw error;
+    }
+
+    return data as StockLocation[];
+  }
+
+  /**
+   * Clear the default flag on every location except one
+   */
+  async clearDefaultExcept(id: number): Promise<void> {
+    const { error } = await supabase
+      .from(this.tableName)
+      .update({ is_default: false, updated_at: new Date() })
+      .eq('is_default', true)
+      .neq('id', id);
+
+    if (error) {
+      console.error('Error clearing default stock location:', error);
+      throw error;
+    }
+  }
+}
+
+// Export an instance of the service
+export const stockLocationsService = new StockLocationsService();
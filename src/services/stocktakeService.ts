@@ -0,0 +1,76 @@
+import { StocktakeSession, StocktakeLine } from '../types';
+import { SupabaseService } from './supabaseService';
+import { supabase } from './supabase';
+
+/**
+ * Stocktake sessions service for Supabase
+ */
+export class StocktakeSessionsService extends SupabaseService<StocktakeSession> {
+  constructor() {
+    super('stocktake_sessions');
+  }
+
+  /**
+   * Get sessions, most recent first
+   */
+  async getRecentSessions(limit: number = 100): Promise<StocktakeSession[]> {
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .select('*')
+      .order('started_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching stocktake sessions:', error);
+      throw error;
+    }
+
+    return data as StocktakeSession[];
+  }
+}
+
+/**
+ * Stocktake lines service for Supabase
+ */
+export class StocktakeLinesService extends SupabaseService<StocktakeLine> {
+  constructor() {
+    super('stocktake_lines');
+  }
+
+  /**
+   * Get the lines of a session in SKU order
+   */
+  async getBySession(sessionId: number): Promise<StocktakeLine[]> {
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .select('*')
+      .eq('session_id', sessionId)
+      .order('sku', { ascending: true });
+
+    if (error) {
+      console.error(`Error fetching lines for stocktake ${sessionId}:`, error);
+      throw error;
+    }
+
+    return data as StocktakeLine[];
+  }
+
+  /**
+   * Delete every line of a session
+   */
+  async deleteBySession(sessionId: number): Promise<void> {
+    const { error } = await supabase
+      .from(this.tableName)
+      .delete()
+      .eq('session_id', sessionId);
+
+    if (error) {
+      console.error(`Error deleting lines for stocktake ${sessionId}:`, error);
+      throw error;
+    }
+  }
+}
+
+// Export instances of the services
+export const stocktakeSessionsService = new StocktakeSessionsService();
+export const stocktakeLinesService = new StocktakeLinesService();
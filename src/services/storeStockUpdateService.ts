@@ -0,0 +1,51 @@
+import { StoreStockUpdate } from '../types';
+import { SupabaseService } from './supabaseService';
+import { supabase } from './supabase';
+
+/**
+ * Store stock update log service for Supabase
+ */
+export class StoreStockUpdatesService extends SupabaseService<StoreStockUpdate> {
+  constructor() {
+    super('store_stock_updates');
+  }
+
+  /**
+   * Get updates written for a SKU, most recent first
+   */
+  async getBySku(sku: string): Promise<StoreStockUpdate[]> {
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .select('*')
+      .eq('sku', sku)
+      .order('applied_at', { ascending: false });
+
+    if (error) {
+      console.error(`Error fetching store stock updates for ${sku}:`, error);
+      throw error;
+    }
+
+    return data as StoreStockUpdate[];
+  }
+
+  /**
+   * Get updates written for a stocktake session, most recent first
+   */
+  async getBySession(sessionId: number): Promise<StoreStockUpdate[]> {
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .select('*')
+      .eq('stocktake_session_id', sessionId)
+      .order('applied_at', { ascending: false });
+
+    if (error) {
+      console.error(`Error fetching store stock updates for stocktake ${sessionId}:`, error);
+      throw error;
+    }
+
+    return data as StoreStockUpdate[];
+  }
+}
+
+// Export an instance of the service
+export const storeStockUpdatesService = new StoreStockUpdatesService();
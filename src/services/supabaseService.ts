@@ -1,5 +1,26 @@
 import { supabase } from './supabase';
 
+// Supabase returns at most this many rows per request
+export const PAGE_SIZE = 1000;
+
+/**
+ * Read every row of a query a page at a time
+ * The query must be ordered on something unique, e.g. ending with the ID, so no row is skipped or read twice
+ */
+export async function fetchAllPages<T>(
+  readPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await readPage(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
 /**
  * Base Supabase service with common operations
  */
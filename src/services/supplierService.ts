@@ -1,4 +1,4 @@
-import { SupplierPriceImport, SupplierPriceItem } from '../types';
+import { SupplierPriceHistory } from '../types';
 import { SupabaseService } from './supabaseService';
 import { supabase } from './supabase';
 
@@ -7,6 +7,8 @@ interface Supplier {
   name: string;
   email: string;
   phone: string;
+  lead_time_days?: number;
+  moq?: number;
   created_at?: Date;
 }
 
@@ -128,7 +130,35 @@ export class SupplierImportItemsService extends SupabaseService<{ id?: number; i
   }
 }
 
+/**
+ * Supplier price history service for Supabase
+ */
+export class SupplierPriceHistoryService extends SupabaseService<SupplierPriceHistory> {
+  constructor() {
+    super('supplier_price_history');
+  }
+
+  /**
+   * Get the price history for a SKU, oldest first
+   */
+  async getHistoryBySku(sku: string): Promise<SupplierPriceHistory[]> {
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .select('*')
+      .eq('sku', sku)
+      .order('changed_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching supplier price history by SKU:', error);
+      throw error;
+    }
+
+    return data as SupplierPriceHistory[];
+  }
+}
+
 // Export instances of the services
 export const suppliersService = new SuppliersService();
 export const supplierImportsService = new SupplierImportsService();
-export const supplierImportItemsService = new SupplierImportItemsService(); 
\ No newline at end of file
+export const supplierImportItemsService = new SupplierImportItemsService(); 
+export const supplierPriceHistoryService = new SupplierPriceHistoryService();
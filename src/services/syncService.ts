@@ -50,37 +50,14 @@ export class SyncService extends SupabaseService<SyncRecord> {
   }
 
   /**
-   * Get current date in NZ timezone
+   * Get the current moment for sync timestamps
+   * Timestamps are stored as UTC and shown in the store timezone when displayed
    * @private
    */
-  private getNZDate(): Date {
-    debugSync('getNZDate - start');
-    
-    // Create date with NZ timezone offset (UTC+12 or UTC+13 during daylight saving)
+  private getCurrentDate(): Date {
     const now = new Date();
-    debugSync('getNZDate - current date', now);
-    
-    // Determine if NZ is currently in daylight saving time
-    // NZ DST typically runs from late September to early April
-    const isDST = now.getMonth() > 8 || now.getMonth() < 4;
-    debugSync('getNZDate - DST check', { month: now.getMonth(), isDST });
-    
-    // Apply NZ offset (UTC+12 or UTC+13 during DST)
-    const nzOffset = isDST ? 13 : 12;
-    debugSync('getNZDate - offset calculation', { isDST, nzOffset });
-    
-    // Create a date with the NZ offset and validate it
-    const nzDate = new Date(now.getTime() + (nzOffset * 60 * 60 * 1000));
-    debugSync('getNZDate - adjusted date', nzDate);
-    
-    if (isNaN(nzDate.getTime())) {
-      console.error('Failed to create valid NZ date');
-      debugSync('getNZDate - invalid date, using fallback', new Date());
-      return new Date(); // Fallback to current system date
-    }
-    
-    debugSync('getNZDate - success', nzDate);
-    return nzDate;
+    debugSync('getCurrentDate', now);
+    return now;
   }
 
   /**
@@ -120,10 +97,10 @@ export class SyncService extends SupabaseService<SyncRecord> {
       const timestamp = fromSupabaseDate(data.timestamp);
       debugSync('getLastSyncByType - parsed timestamp', timestamp);
       
-      // If we couldn't parse the timestamp, use current NZ date
+      // If we couldn't parse the timestamp, use the current date
       if (!timestamp) {
         debugSync('getLastSyncByType - invalid timestamp, using current date', data.timestamp);
-        const currentDate = this.getNZDate();
+        const currentDate = this.getCurrentDate();
         return {
           ...data,
           timestamp: currentDate
@@ -133,7 +110,7 @@ export class SyncService extends SupabaseService<SyncRecord> {
       // Additional validation to ensure we have a valid Date object
       if (isNaN(timestamp.getTime())) {
         debugSync('getLastSyncByType - invalid timestamp after parsing', timestamp);
-        const currentDate = this.getNZDate();
+        const currentDate = this.getCurrentDate();
         return {
           ...data,
           timestamp: currentDate
@@ -152,7 +129,7 @@ export class SyncService extends SupabaseService<SyncRecord> {
       // Return a valid record with current date rather than failing
       const result = {
         ...data,
-        timestamp: this.getNZDate()
+        timestamp: this.getCurrentDate()
       };
       debugSync('getLastSyncByType - fallback result', result);
       return result;
@@ -162,11 +139,11 @@ export class SyncService extends SupabaseService<SyncRecord> {
   /**
    * Update the last sync timestamp for a type
    */
-  async updateLastSync(type: string, timestamp: Date = this.getNZDate()): Promise<SyncRecord> {
+  async updateLastSync(type: string, timestamp: Date = this.getCurrentDate()): Promise<SyncRecord> {
     debugSync('updateLastSync - start', { type, timestamp });
     
     // Validate the input timestamp
-    const validTimestamp = validateDate(timestamp) || this.getNZDate();
+    const validTimestamp = validateDate(timestamp) || this.getCurrentDate();
     debugSync('updateLastSync - validated timestamp', validTimestamp);
     
     // Convert to ISO string for Supabase
@@ -205,7 +182,7 @@ export class SyncService extends SupabaseService<SyncRecord> {
       const parsedTimestamp = data?.timestamp ? fromSupabaseDate(data.timestamp) : null;
       debugSync('updateLastSync - parsed response timestamp', parsedTimestamp);
       
-      const finalTimestamp = validateDate(parsedTimestamp) || this.getNZDate();
+      const finalTimestamp = validateDate(parsedTimestamp) || this.getCurrentDate();
       debugSync('updateLastSync - final validated timestamp', finalTimestamp);
       
       const result = {
@@ -224,7 +201,7 @@ export class SyncService extends SupabaseService<SyncRecord> {
         .insert({ 
           type, 
           timestamp: isoTimestamp,
-          created_at: this.getNZDate().toISOString()
+          created_at: this.getCurrentDate().toISOString()
         })
         .select()
         .single();
@@ -239,7 +216,7 @@ export class SyncService extends SupabaseService<SyncRecord> {
       const parsedTimestamp = data?.timestamp ? fromSupabaseDate(data.timestamp) : null;
       debugSync('updateLastSync - parsed response timestamp', parsedTimestamp);
       
-      const finalTimestamp = validateDate(parsedTimestamp) || this.getNZDate();
+      const finalTimestamp = validateDate(parsedTimestamp) || this.getCurrentDate();
       debugSync('updateLastSync - final validated timestamp', finalTimestamp);
       
       const result = {
@@ -0,0 +1,49 @@
+import { ChildProcess, spawn } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+
+// Runs scripts/fake_woocommerce_server.js on a free port for tests that talk to the store over HTTP
+
+const SCRIPT = fileURLToPath(new URL('../../scripts/fake_woocommerce_server.js', import.meta.url));
+
+export interface FakeWooCommerce {
+  url: string;
+  // Call the fake's control endpoints, e.g. POST /__fake/products
+  control: <T = unknown>(method: string, path: string, body?: unknown) => Promise<T>;
+  stop: () => void;
+}
+
+export const startFakeWooCommerce = (env: Record<string, string> = {}): Promise<FakeWooCommerce> =>
+  new Promise((resolve, reject) => {
+    const child: ChildProcess = spawn(process.execPath, [SCRIPT], {
+      env: { ...process.env, ...env, PORT: '0' },
+      stdio: ['ignore', 'pipe', 'inherit']
+    });
+    let output = '';
+
+    child.on('error', reject);
+    child.on('exit', code => reject(new Error(`Fake WooCommerce server exited with ${code}: ${output}`)));
+    child.stdout?.on('data', chunk => {
+      output += chunk;
+      const match = output.match(/listening on (http:\/\/localhost:\d+)/);
+      if (!match) return;
+
+      const url = match[1];
+      child.stdout?.removeAllListeners('data');
+      child.stdout?.resume();
+      resolve({
+        url,
+        control: async (method, path, body) => {
+          const response = await fetch(`${url}${path}`, {
+            method,
+            headers: { 'Content-Type': 'application/json' },
+            body: body === undefined ? undefined : JSON.stringify(body)
+          });
+          return response.json();
+        },
+        stop: () => {
+          child.removeAllListeners('exit');
+          child.kill();
+        }
+      });
+    });
+  });
@@ -0,0 +1,329 @@
+import { PGlite } from '@electric-sql/pglite';
+import readme from '../../README.md?raw';
+
+// In-memory Postgres behind a small stand-in for the Supabase client, so tests can run
+// the README's SQL functions and the query builder calls the app makes against fixture rows
+
+type Row = Record<string, unknown>;
+type Filter = { sql: string; values: unknown[] };
+
+interface QueryError {
+  message: string;
+  code?: string;
+}
+
+interface QueryResult {
+  data: unknown;
+  error: QueryError | null;
+  count?: number | null;
+}
+
+export const db = new PGlite();
+
+const NUMERIC_TYPE_ID = 1700;
+
+// PostgREST's max rows, reads past it have to page with range()
+const MAX_ROWS = 1000;
+
+// Rows come back the way PostgREST sends them as JSON, numbers for NUMERIC and ISO strings for timestamps
+const toJsonRows = (result: { rows: Row[]; fields: { name: string; dataTypeID: number }[] }): Row[] => {
+  const numericFields = result.fields.filter(field => field.dataTypeID === NUMERIC_TYPE_ID).map(field => field.name);
+  return result.rows.map(row => {
+    const converted: Row = {};
+    Object.entries(row).forEach(([key, value]) => {
+      if (value instanceof Date) converted[key] = value.toISOString();
+      else if (numericFields.includes(key) && value !== null) converted[key] = Number(value);
+      else converted[key] = value;
+    });
+    return converted;
+  });
+};
+
+// Objects and arrays are stored in JSON columns
+const toParam = (value: unknown): unknown => {
+  if (value === undefined) return null;
+  if (value !== null && typeof value === 'object' && !(value instanceof Date)) return JSON.stringify(value);
+  return value;
+};
+
+const OR_OPERATORS: Record<string, string> = { eq: '=', neq: '<>', lt: '<', lte: '<=', gt: '>', gte: '>=' };
+
+const quote = (identifier: string) => `"${identifier.replace(/"/g, '""')}"`;
+
+const toColumns = (columns: string) =>
+  columns.trim() === '*' ? '*' : columns.split(',').map(column => quote(column.trim())).join(', ');
+
+class FakeQuery implements PromiseLike<QueryResult> {
+  private operation: 'select' | 'insert' | 'upsert' | 'update' | 'delete' = 'select';
+  private columns = '*';
+  private returning: string | null = null;
+  private rows: Row[] = [];
+  private values: Row = {};
+  private conflictColumns = 'id';
+  private filters: Filter[] = [];
+  private orders: string[] = [];
+  private limitCount: number | null = null;
+  private offsetCount = 0;
+  private resultMode: 'many' | 'single' | 'maybeSingle' = 'many';
+  private countMode = false;
+  private headOnly = false;
+
+  constructor(private table: string) {}
+
+  select(columns = '*', options: { count?: string; head?: boolean } = {}) {
+    if (this.operation === 'select') {
+      this.columns = columns;
+    } else {
+      this.returning = columns;
+    }
+    this.countMode = !!options.count;
+    this.headOnly = !!options.head;
+    return this;
+  }
+
+  insert(rows: Row | Row[]) {
+    this.operation = 'insert';
+    this.rows = Array.isArray(rows) ? rows : [rows];
+    return this;
+  }
+
+  upsert(rows: Row | Row[], options: { onConflict?: string } = {}) {
+    this.operation = 'upsert';
+    this.rows = Array.isArray(rows) ? rows : [rows];
+    this.conflictColumns = options.onConflict || 'id';
+    return this;
+  }
+
+  update(values: Row) {
+    this.operation = 'update';
+    this.values = values;
+    return this;
+  }
+
+  delete() {
+    this.operation = 'delete';
+    return this;
+  }
+
+  private filter(column: string, operator: string, value: unknown) {
+    if (value === null && (operator === '=' || operator === '<>')) {
+      this.filters.push({ sql: `${quote(column)} IS ${operator === '=' ? '' : 'NOT '}NULL`, values: [] });
+    } else {
+      this.filters.push({ sql: `${quote(column)} ${operator} $?`, values: [toParam(value)] });
+    }
+    return this;
+  }
+
+  eq(column: string, value: unknown) { return this.filter(column, '=', value); }
+  neq(column: string, value: unknown) { return this.filter(column, '<>', value); }
+  lt(column: string, value: unknown) { return this.filter(column, '<', value); }
+  lte(column: string, value: unknown) { return this.filter(column, '<=', value); }
+  gt(column: string, value: unknown) { return this.filter(column, '>', value); }
+  gte(column: string, value: unknown) { return this.filter(column, '>=', value); }
+
+  is(column: string, value: null | boolean) {
+    this.filters.push({ sql: `${quote(column)} IS ${value === null ? 'NULL' : String(value).toUpperCase()}`, values: [] });
+    return this;
+  }
+
+  in(column: string, values: unknown[]) {
+    if (values.length === 0) {
+      this.filters.push({ sql: 'FALSE', values: [] });
+    } else {
+      this.filters.push({ sql: `${quote(column)} IN (${values.map(() => '$?').join(', ')})`, values: values.map(toParam) });
+    }
+    return this;
+  }
+
+  // JSON containment, the value is JSON text or an object
+  contains(column: string, value: unknown) {
+    this.filters.push({ sql: `${quote(column)} @> $?::jsonb`, values: [typeof value === 'string' ? value : JSON.stringify(value)] });
+    return this;
+  }
+
+  // PostgREST's or filter, e.g. 'date_completed.gte.2025-01-01,date_created.gte.2025-01-01'
+  or(expression: string) {
+    const conditions = expression.split(',').map(condition => {
+      const [column, operator, ...value] = condition.split('.');
+      return { sql: `${quote(column)} ${OR_OPERATORS[operator]} $?`, value: value.join('.') };
+    });
+    this.filters.push({
+      sql: `(${conditions.map(condition => condition.sql).join(' OR ')})`,
+      values: conditions.map(condition => condition.value)
+    });
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean; nullsFirst?: boolean } = {}) {
+    const direction = options.ascending === false ? 'DESC' : 'ASC';
+    const nulls = options.nullsFirst === undefined ? '' : options.nullsFirst ? ' NULLS FIRST' : ' NULLS LAST';
+    this.orders.push(`${quote(column)} ${direction}${nulls}`);
+    return this;
+  }
+
+  limit(count: number) {
+    this.limitCount = count;
+    return this;
+  }
+
+  range(from: number, to: number) {
+    this.offsetCount = from;
+    this.limitCount = to - from + 1;
+    return this;
+  }
+
+  single() {
+    this.resultMode = 'single';
+    return this;
+  }
+
+  maybeSingle() {
+    this.resultMode = 'maybeSingle';
+    return this;
+  }
+
+  private buildWhere(params: unknown[]): string {
+    if (this.filters.length === 0) return '';
+    const clauses = this.filters.map(filter => {
+      let values = [...filter.values];
+      return filter.sql.replace(/\$\?/g, () => {
+        params.push(values[0]);
+        values = values.slice(1);
+        return `$${params.length}`;
+      });
+    });
+    return ` WHERE ${clauses.join(' AND ')}`;
+  }
+
+  private buildSql(): { sql: string; params: unknown[] } {
+    const params: unknown[] = [];
+    const table = quote(this.table);
+    const returning = this.returning ? ` RETURNING ${toColumns(this.returning)}` : '';
+
+    if (this.operation === 'insert' || this.operation === 'upsert') {
+      const columns = Array.from(new Set(this.rows.flatMap(row => Object.keys(row))));
+      const tuples = this.rows.map(row => `(${columns.map(column => {
+        params.push(toParam(row[column]));
+        return `$${params.length}`;
+      }).join(', ')})`);
+      let sql = `INSERT INTO ${table} (${columns.map(quote).join(', ')}) VALUES ${tuples.join(', ')}`;
+      if (this.operation === 'upsert') {
+        const conflict = this.conflictColumns.split(',').map(column => column.trim());
+        const updates = columns.filter(column => !conflict.includes(column));
+        sql += ` ON CONFLICT (${conflict.map(quote).join(', ')}) DO ${updates.length > 0
+          ? `UPDATE SET ${updates.map(column => `${quote(column)} = EXCLUDED.${quote(column)}`).join(', ')}`
+          : 'NOTHING'}`;
+      }
+      return { sql: sql + returning, params };
+    }
+
+    if (this.operation === 'update') {
+      const sets = Object.entries(this.values).map(([column, value]) => {
+        params.push(toParam(value));
+        return `${quote(column)} = $${params.length}`;
+      });
+      return { sql: `UPDATE ${table} SET ${sets.join(', ')}${this.buildWhere(params)}${returning}`, params };
+    }
+
+    if (this.operation === 'delete') {
+      return { sql: `DELETE FROM ${table}${this.buildWhere(params)}${returning}`, params };
+    }
+
+    let sql = `SELECT ${toColumns(this.columns)} FROM ${table}${this.buildWhere(params)}`;
+    if (this.orders.length > 0) sql += ` ORDER BY ${this.orders.join(', ')}`;
+    sql += ` LIMIT ${Math.min(this.limitCount ?? MAX_ROWS, MAX_ROWS)}`;
+    if (this.offsetCount > 0) sql += ` OFFSET ${this.offsetCount}`;
+    return { sql, params };
+  }
+
+  private async execute(): Promise<QueryResult> {
+    try {
+      const { sql, params } = this.buildSql();
+      const result = await db.query<Row>(sql, params);
+      const rows = toJsonRows(result);
+
+      if (this.operation !== 'select' && !this.returning) {
+        return { data: null, error: null };
+      }
+      if (this.countMode && this.headOnly) {
+        return { data: null, error: null, count: rows.length };
+      }
+      if (this.resultMode === 'many') {
+        return { data: rows, error: null, ...(this.countMode && { count: rows.length }) };
+      }
+      if (rows.length > 1) {
+        return { data: null, error: { message: 'Results contain more than one row', code: 'PGRST116' } };
+      }
+      if (rows.length === 0) {
+        return this.resultMode === 'maybeSingle'
+          ? { data: null, error: null }
+          : { data: null, error: { message: 'Results contain 0 rows', code: 'PGRST116' } };
+      }
+      return { data: rows[0], error: null };
+    } catch (error) {
+      return { data: null, error: { message: error instanceof Error ? error.message : String(error) } };
+    }
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return this.execute().then(onfulfilled, onrejected);
+  }
+}
+
+// Postgres function call with named arguments, paged like a table select
+class FakeRpc implements PromiseLike<QueryResult> {
+  private limitCount: number | null = null;
+  private offsetCount = 0;
+
+  constructor(private name: string, private args: Row) {}
+
+  range(from: number, to: number) {
+    this.offsetCount = from;
+    this.limitCount = to - from + 1;
+    return this;
+  }
+
+  private async execute(): Promise<QueryResult> {
+    try {
+      const entries = Object.entries(this.args);
+      const namedArgs = entries.map(([name], i) => `${quote(name)} => $${i + 1}`).join(', ');
+      let sql = `SELECT * FROM ${quote(this.name)}(${namedArgs})`;
+      sql += ` LIMIT ${Math.min(this.limitCount ?? MAX_ROWS, MAX_ROWS)}`;
+      if (this.offsetCount > 0) sql += ` OFFSET ${this.offsetCount}`;
+
+      const result = await db.query<Row>(sql, entries.map(([, value]) => toParam(value)));
+      const rows = toJsonRows(result);
+      // Scalar functions come back as a single value, like PostgREST does
+      const scalar = result.fields.length === 1 && result.fields[0].name === this.name;
+      return { data: scalar ? rows[0]?.[this.name] ?? null : rows, error: null };
+    } catch (error) {
+      return { data: null, error: { message: error instanceof Error ? error.message : String(error) } };
+    }
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return this.execute().then(onfulfilled, onrejected);
+  }
+}
+
+export const fakeSupabase = {
+  from: (table: string) => new FakeQuery(table),
+  rpc: (name: string, args: Row = {}) => new FakeRpc(name, args)
+};
+
+// SQL blocks of the README, so tests run the same definitions users paste into Supabase
+// The last block containing the text wins, later sections replace earlier definitions
+export const readmeSql = (contains: string): string => {
+  const block = Array.from(readme.matchAll(/```sql\n([\s\S]*?)```/g))
+    .map(match => match[1])
+    .filter(sql => sql.includes(contains))
+    .pop();
+  if (!block) throw new Error(`No SQL block in the README contains ${contains}`);
+  return block;
+};
@@ -15,6 +15,10 @@ export interface Customer {
   customer_segment?: string;
   last_sync_date?: Date;
   metadata?: Record<string, any>;
+  // Synthetic profile for guest orders, keyed on billing email with a negative id
+  is_guest?: boolean;
+  // Latest predicted lifetime value, attached for analytics and not stored on the customer
+  clv?: CustomerCLV;
   created_at?: Date;
   updated_at?: Date;
 }
@@ -30,6 +34,97 @@ export interface CustomerRFM {
   calculation_date: Date;
 }
 
+// Predicted purchases, churn and 12-month value from the BG/NBD and Gamma-Gamma models
+// Recency and age are in weeks, frequency counts repeat purchase days
+export interface CustomerCLV {
+  customer_id: number;
+  frequency: number;
+  recency: number;
+  age: number;
+  monetary_value: number;
+  predicted_purchases: number;
+  probability_alive: number;
+  churn_probability: number;
+  predicted_order_value: number;
+  predicted_clv: number;
+  calculation_date: Date;
+}
+
+// Parameters of one model fit, Gamma-Gamma is left empty when too few customers purchased again
+export interface CustomerCLVModel {
+  id?: number;
+  r: number;
+  alpha: number;
+  a: number;
+  b: number;
+  p: number | null;
+  q: number | null;
+  v: number | null;
+  customers: number;
+  repeat_customers: number;
+  calculation_date: Date;
+}
+
+export interface CustomerCLVSummary {
+  customers: number;
+  averagePredictedCLV: number;
+  predictedRevenue: number;
+  averageChurnProbability: number;
+  likelyChurnedCustomers: number;
+  calculationDate?: Date;
+}
+
+export type RFMDimension = 'recency' | 'frequency' | 'monetary';
+
+// Quintiles split customers into fifths by value, custom breakpoints score fixed values
+export type RFMScoringMethod = 'quintile' | 'custom';
+
+export interface RFMDimensionSettings {
+  method: RFMScoringMethod;
+  // Four ascending breakpoints between scores 1 and 5,
+  // days since the last order for recency, orders for frequency and spend for monetary
+  breakpoints: number[];
+}
+
+// A segment is assigned when every score falls within its ranges, rules are checked in order
+export interface RFMSegmentRule {
+  name: string;
+  color: string;
+  description?: string;
+  recency: [number, number];
+  frequency: [number, number];
+  monetary: [number, number];
+}
+
+export interface RFMSettings {
+  recency: RFMDimensionSettings;
+  frequency: RFMDimensionSettings;
+  monetary: RFMDimensionSettings;
+  segments: RFMSegmentRule[];
+  // Days of order history to score, 0 scores all of it
+  analysis_window_days: number;
+}
+
+// One RFM calculation, kept so segments can be compared over time
+export interface RFMSnapshot {
+  calculation_date: string;
+  customers: number;
+}
+
+export interface RFMSegmentTransition {
+  from: string;
+  to: string;
+  count: number;
+}
+
+// Customers moving between segments from one snapshot to another
+export interface RFMSegmentMigration {
+  fromDate: string;
+  toDate: string;
+  segments: string[];
+  transitions: RFMSegmentTransition[];
+}
+
 export interface CustomerAcquisition {
   id?: number;
   customer_id: number;
@@ -43,6 +138,48 @@ export interface CustomerAcquisition {
   updated_at?: Date;
 }
 
+// Level marketing attribution is reported at
+export type AttributionGrouping = 'source' | 'medium' | 'campaign';
+
+// Customers acquired through one source, medium and campaign, with the spend allocated to them
+// Unallocated rows are spend that matched no acquired customers, where an empty medium or campaign means any
+export interface MarketingAttributionRow {
+  source: string;
+  medium: string;
+  campaign: string;
+  unallocated: boolean;
+  customers: number;
+  spend: number;
+  first_order_revenue: number;
+  // Customers acquired at least 90, 180 and 365 days ago and their revenue within that window
+  customers_90: number;
+  revenue_90: number;
+  customers_180: number;
+  revenue_180: number;
+  customers_365: number;
+  revenue_365: number;
+}
+
+// Acquisition cost and return of one marketing channel
+export interface MarketingChannelMetrics {
+  channel: string;
+  source: string;
+  medium?: string;
+  campaign?: string;
+  customers: number;
+  spend: number;
+  unallocated_spend: number;
+  cac: number | null;
+  first_order_revenue: number;
+  first_order_roas: number | null;
+  ltv_90: number | null;
+  ltv_180: number | null;
+  ltv_365: number | null;
+  ltv_cac_90: number | null;
+  ltv_cac_180: number | null;
+  ltv_cac_365: number | null;
+}
+
 export interface CustomerSegment {
   name: string;
   count: number;
@@ -216,6 +353,7 @@ export interface CustomerAnalyticsData {
   rfmData: RFMData;
   averageOrderValue: number;
   customerLifetimeValue: number;
+  predictedCLV?: CustomerCLVSummary;
   topSpendingCustomers: Customer[];
   mostFrequentCustomers: Customer[];
   acquisitionSources: {
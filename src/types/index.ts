@@ -33,10 +33,16 @@ export interface ProductExpiry {
   quantity: number;
   stock_quantity?: number;
   notes?: string;
+  archived_at?: Date | null;
+  archive_reason?: ExpiryArchiveReason | null;
+  // Set when a batch is restored so automatic archiving leaves it alone
+  restored_at?: Date | null;
   created_at: Date;
   updated_at: Date;
 }
 
+export type ExpiryArchiveReason = 'sold_out' | 'written_off' | 'expired' | 'manual';
+
 export interface Product {
   // Database fields (these are stored in the database)
   id: number;
@@ -71,12 +77,44 @@ export interface OrderItem {
   cost_price?: number;
   profit?: number;
   margin?: number;
+  refunded_quantity?: number;
+  refunded_total?: number;
+  restocked_quantity?: number;
   meta_data?: Array<{
     key: string;
     value: string;
   }>;
 }
 
+export interface OrderRefundItem {
+  id: number;
+  name?: string;
+  product_id: number;
+  variation_id?: number;
+  sku?: string;
+  // WooCommerce reports refunded quantities and totals as negative values
+  quantity: number;
+  total: string;
+  refunded_item_id?: number;
+  restock?: boolean;
+}
+
+export interface OrderRefund {
+  id: number;
+  date_created: Date | null;
+  amount: string;
+  reason?: string;
+  line_items: OrderRefundItem[];
+}
+
+// Billing details WooCommerce sends with each order, the email identifies guest customers
+export interface OrderBilling {
+  email?: string;
+  first_name?: string;
+  last_name?: string;
+  [key: string]: unknown;
+}
+
 export interface Order {
   id: number;
   number: string;
@@ -94,15 +132,23 @@ export interface Order {
   shipping_total?: string;
   discount_total?: string;
   customer_id?: number;
+  billing?: OrderBilling;
+  // Marketing attribution read from the order meta data when it is saved
+  utm_source?: string | null;
+  utm_medium?: string | null;
+  utm_campaign?: string | null;
   customer_note?: string;
   payment_method?: string;
   payment_method_title?: string;
   shipping_lines?: any[];
   fee_lines?: any[];
   coupon_lines?: any[];
+  refunds?: OrderRefund[];
   created_at?: Date;
   profit?: number;
   margin?: number;
+  refund_total?: number;
+  net_total?: number;
 }
 
 export interface InventoryItem {
@@ -152,6 +198,56 @@ export interface PnLSummary {
   periodEnd: string;
 }
 
+export interface GstReturnSummary {
+  periodStart: string;
+  periodEnd: string;
+  gstRate: number;
+  totalSales: number;
+  salesOutputTax: number;
+  additionalRevenueOutputTax: number;
+  outputTax: number;
+  totalDeductibleExpenses: number;
+  expenseInputTax: number;
+  totalPurchases: number;
+  purchaseInputTax: number;
+  inputTax: number;
+  // Positive is payable, negative is a refund due
+  netGst: number;
+}
+
+// Stock movement and value of a SKU over a period at cost
+export interface InventoryValuationLine {
+  sku: string;
+  product_name?: string;
+  opening_quantity: number;
+  opening_value: number;
+  purchases_quantity: number;
+  purchases_value: number;
+  cogs_quantity: number;
+  cogs_value: number;
+  adjustments_quantity: number;
+  adjustments_value: number;
+  closing_quantity: number;
+  closing_value: number;
+}
+
+export interface InventoryValuationReport {
+  periodStart: string;
+  periodEnd: string;
+  costingMethod: 'fifo' | 'weighted_average';
+  lines: InventoryValuationLine[];
+  totals: Omit<InventoryValuationLine, 'sku' | 'product_name'>;
+}
+
+// On hand quantity and cost value of a SKU at a point in time
+export interface StockOnHandLine {
+  sku: string;
+  product_name?: string;
+  quantity: number;
+  unit_cost: number;
+  value: number;
+}
+
 export interface ApiCredentials {
   key: string;
   secret: string;
@@ -164,12 +260,40 @@ export interface Expense {
   category: string;
   amount: number;
   description: string;
-  period?: 'daily' | 'weekly' | 'monthly' | 'yearly';
+  // Legacy expenses with a period type repeat for every period in the range, null is a one-off expense
+  period?: 'daily' | 'weekly' | 'monthly' | 'yearly' | null;
   reference?: string;
   payment_method?: string;
   tax_deductible?: boolean;
   tags?: string[];
+  // Marketing channel the spend paid for, used for acquisition cost and ROAS
+  marketing_source?: string | null;
+  marketing_medium?: string | null;
+  marketing_campaign?: string | null;
+  // Set on expenses generated from a recurring expense, these are not stored
+  recurring_expense_id?: number;
+  created_at?: Date;
+}
+
+export type RecurringExpenseFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export interface RecurringExpense {
+  id?: number;
+  description: string;
+  category: string;
+  amount: number;
+  frequency: RecurringExpenseFrequency;
+  start_date: Date;
+  end_date?: Date | null;
+  // Day the expense falls on for monthly and yearly expenses, defaults to the start date's day
+  day_of_month?: number | null;
+  // occurrence charges the full amount on each due date, accrual spreads it evenly over each day
+  recognition: 'occurrence' | 'accrual';
+  reference?: string;
+  payment_method?: string;
+  tax_deductible?: boolean;
   created_at?: Date;
+  updated_at?: Date;
 }
 
 export interface ExpenseCategory {
@@ -179,6 +303,7 @@ export interface ExpenseCategory {
   color?: string;
   is_taxdeductible?: boolean;
   budget_monthly?: number;
+  budget_annual?: number;
   created_at?: Date;
 }
 
@@ -212,6 +337,7 @@ export interface AdditionalRevenueCategory {
   color?: string;
   is_taxable?: boolean;
   budget_monthly?: number;
+  budget_annual?: number;
   created_at?: Date;
 }
 
@@ -233,6 +359,112 @@ export interface SupplierPriceItem {
   supplier_name: string;
 }
 
+export interface OrderWebhookEvent {
+  id?: number;
+  topic: 'order.created' | 'order.updated' | 'order.deleted' | 'order.restored';
+  order_id: number;
+  payload: Record<string, unknown>;
+  received_at: Date;
+  processed_at?: Date | null;
+}
+
+export interface SupplierPriceHistory {
+  id?: number;
+  sku: string;
+  supplier_name: string;
+  supplier_price: number;
+  previous_price?: number | null;
+  source: 'import' | 'manual';
+  import_id?: number | null;
+  changed_at: Date;
+}
+
+export interface SupplierPriceChange {
+  sku: string;
+  name?: string;
+  previous_price: number | null;
+  new_price: number;
+  change: number;
+  change_percent: number | null;
+  exceeds_threshold: boolean;
+}
+
+export type ReportPackFormat = 'pdf' | 'xlsx';
+
+// Period a scheduled pack covers, relative to the day it runs
+export type ReportPackPeriod = 'last_week' | 'last_month' | 'last_quarter' | 'last_year';
+
+export interface ReportPackSchedule {
+  id?: number;
+  name: string;
+  frequency: 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+  // ISO weekday (1-7) for weekly packs, day of the month otherwise
+  run_day: number;
+  period: ReportPackPeriod;
+  formats: ReportPackFormat[];
+  active: boolean;
+  last_run_at?: Date | null;
+  next_run_at?: Date | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface ReportPackFile {
+  format: ReportPackFormat;
+  path: string;
+  size: number;
+}
+
+export interface ReportPackRun {
+  id?: number;
+  schedule_id?: number | null;
+  name: string;
+  period_start: Date;
+  period_end: Date;
+  files: ReportPackFile[];
+  generated_at: Date;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// Budgets are set on expense and additional revenue categories
+export type BudgetCategoryType = 'expense' | 'revenue';
+
+// over_budget applies to expenses, under_target to revenue
+export type BudgetStatus = 'on_track' | 'at_risk' | 'over_budget' | 'under_target';
+
+export interface BudgetMonthVariance {
+  month: string; // yyyy-MM
+  budget: number;
+  actual: number;
+  variance: number;
+}
+
+export interface BudgetVariance {
+  categoryType: BudgetCategoryType;
+  categoryName: string;
+  color?: string;
+  monthlyBudget: number;
+  annualBudget: number;
+  // Budget and actual for the selected range, budgets are prorated for part months
+  budget: number;
+  actual: number;
+  // Positive when favourable (under budget for expenses, over target for revenue)
+  variance: number;
+  variancePercent: number;
+  months: BudgetMonthVariance[];
+  // Current month and year to date burn rate projections
+  monthToDate: number;
+  projectedMonth: number;
+  yearToDate: number;
+  dailyBurnRate: number;
+  projectedAnnual: number;
+  status: BudgetStatus;
+}
+
+// Report sections that load on their own, so one failing does not blank every report
+export type ReportSection = 'writeOffs' | 'gstReturn' | 'budgetVariance' | 'inventoryValuation';
+
 export interface ReportData {
   orders: Order[];
   products: Product[];
@@ -243,9 +475,15 @@ export interface ReportData {
   expenseData: any[];
   additionalRevenueReport: any[];
   profitabilityData: any[];
+  gstReturn: GstReturnSummary | null;
+  budgetVariance: BudgetVariance[];
+  inventoryValuation: InventoryValuationReport | null;
+  // Error message of each section that failed to load
+  sectionErrors: Partial<Record<ReportSection, string>>;
   totalRevenue: number;
   totalAdditionalRevenue: number;
   totalExpenses: number;
+  totalWriteOffs: number;
   totalProfit: number;
 }
 
@@ -258,11 +496,88 @@ export interface Supplier {
   address?: string;
   website?: string;
   payment_terms?: string;
+  // Days between placing an order and receiving it
+  lead_time_days?: number;
+  // Minimum order quantity per SKU
+  moq?: number;
   notes?: string;
   created_at?: Date;
   updated_at?: Date;
 }
 
+export interface ReorderOptions {
+  // Days of sales used to work out velocity
+  lookback_days: number;
+  // Days of sales held as safety stock
+  safety_days: number;
+  // Days of sales a reorder should cover beyond the reorder point
+  cover_days: number;
+  // Lead time for suppliers without one set
+  default_lead_time_days: number;
+}
+
+export interface ReorderSuggestion {
+  sku: string;
+  product_name: string;
+  supplier_name: string;
+  supplier_id?: number;
+  stock_quantity: number;
+  // Ordered but not yet received
+  on_order: number;
+  daily_velocity: number;
+  lead_time_days: number;
+  safety_stock: number;
+  reorder_point: number;
+  moq?: number;
+  suggested_quantity: number;
+  unit_price: number;
+}
+
+export interface ExpiryAlertSettings {
+  // Days ahead to look for expiring batches, e.g. 30, 60 and 90
+  horizons: number[];
+  // Days of sales used to work out velocity
+  lookback_days: number;
+  max_markdown_percent: number;
+}
+
+export interface ExpiryAlert {
+  product_expiry_id: number;
+  sku: string;
+  product_name: string;
+  batch_number?: string;
+  expiry_date: Date;
+  days_to_expiry: number;
+  // Smallest configured horizon the batch falls within
+  horizon: number;
+  quantity: number;
+  unit_cost: number;
+  cost_at_risk: number;
+  daily_velocity: number;
+  // Units expected to sell before expiry at the current price, after earlier batches
+  projected_sales: number;
+  projected_unsold: number;
+  unsold_cost_at_risk: number;
+  unit_price: number;
+  suggested_markdown_percent: number;
+  suggested_price: number;
+}
+
+export interface ExpiryAlertHorizonSummary {
+  horizon: number;
+  batch_count: number;
+  quantity: number;
+  cost_at_risk: number;
+  unsold_cost_at_risk: number;
+}
+
+export interface ExpiryAlertDigest {
+  generated_at: Date;
+  settings: ExpiryAlertSettings;
+  horizons: ExpiryAlertHorizonSummary[];
+  alerts: ExpiryAlert[];
+}
+
 export interface PurchaseOrder {
   id?: number;
   date: Date;
@@ -5,11 +5,13 @@ export interface StockMovement {
   variation_id?: number;
   movement_date: Date;
   quantity: number;
-  movement_type: 'initial' | 'sale' | 'adjustment' | 'purchase';
+  movement_type: MovementType;
   reference_id?: string;
-  reason?: 'expiry' | 'damage' | 'theft' | 'correction' | 'other';
+  reason?: MovementReason;
   notes?: string;
   batch_number?: string;
+  // Null for movements at the default location
+  location_id?: number | null;
   created_at?: Date;
   created_by?: string;
   expiry_date?: Date;
@@ -18,6 +20,43 @@ export interface StockMovement {
   product_name?: string;
 }
 
+// Quantity of an expiry batch consumed by a stock movement
+export interface StockMovementBatch {
+  id?: number;
+  stock_movement_id: number;
+  // Null once the batch has been deleted
+  product_expiry_id: number | null;
+  sku: string;
+  batch_number?: string;
+  expiry_date: Date;
+  // Negative when a sale reversal put the stock back
+  quantity: number;
+  movement_type: MovementType;
+  movement_date: Date;
+  reference_id?: string;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// Stock written off at cost, booked as a loss in the P&L
+export interface StockWriteOff {
+  id?: number;
+  sku: string;
+  product_name?: string;
+  product_expiry_id?: number | null;
+  batch_number?: string;
+  expiry_date?: Date;
+  quantity: number;
+  unit_cost: number;
+  cost_value: number;
+  reason: MovementReason;
+  stock_movement_id?: number;
+  write_off_date: Date;
+  notes?: string;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
 export interface StockReconciliation {
   id?: number;
   sku: string;
@@ -27,6 +66,8 @@ export interface StockReconciliation {
   expected_quantity: number;
   actual_quantity: number;
   discrepancy: number;
+  // Set when the count was for one location rather than the whole stock pool
+  location_id?: number | null;
   notes?: string;
   created_at?: Date;
   created_by?: string;
@@ -50,5 +91,171 @@ export interface StockReconciliationSummary {
   last_reconciled?: Date;
 }
 
-export type MovementReason = 'expiry' | 'damage' | 'theft' | 'correction' | 'other';
-export type MovementType = 'initial' | 'sale' | 'adjustment' | 'purchase'; 
\ No newline at end of file
+export type ReconciliationDiscrepancyFilter = 'all' | 'with_discrepancy' | 'no_discrepancy';
+
+export type ReconciliationSortField = Exclude<keyof StockReconciliationSummary, 'product_id' | 'variation_id'>;
+
+export interface ReconciliationSummaryQuery {
+  search?: string;
+  discrepancy?: ReconciliationDiscrepancyFilter;
+  sortBy?: ReconciliationSortField;
+  sortDirection?: 'asc' | 'desc';
+  // 1-based page number
+  page?: number;
+  // Leave out to get every row
+  pageSize?: number;
+}
+
+export interface ReconciliationSummaryPage {
+  summaries: StockReconciliationSummary[];
+  totalCount: number;
+}
+
+export type StocktakeStatus = 'counting' | 'review' | 'completed' | 'cancelled';
+
+// How the SKUs in a stocktake were chosen
+export type StocktakeScope = 'all' | 'search' | 'skus';
+
+// A stock count over a set of SKUs with expected quantities frozen when it opens
+export interface StocktakeSession {
+  id?: number;
+  name: string;
+  location?: string;
+  // Stock location counted, expected quantities and corrections are for this location only
+  location_id?: number | null;
+  scope: StocktakeScope;
+  // Search term or SKU list the lines were chosen with
+  scope_value?: string;
+  // Hides expected quantities while counting
+  blind: boolean;
+  status: StocktakeStatus;
+  notes?: string;
+  started_at: Date;
+  counting_closed_at?: Date | null;
+  completed_at?: Date | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export type NewStocktakeSession = Pick<StocktakeSession, 'name' | 'location' | 'location_id' | 'scope' | 'scope_value' | 'blind' | 'notes'>;
+
+export type StocktakeLineStatus = 'pending' | 'approved';
+
+export interface StocktakeLine {
+  id?: number;
+  session_id: number;
+  sku: string;
+  product_id?: number;
+  variation_id?: number;
+  product_name: string;
+  expected_quantity: number;
+  // Null until the SKU has been counted
+  counted_quantity: number | null;
+  counted_at?: Date | null;
+  status: StocktakeLineStatus;
+  stock_reconciliation_id?: number | null;
+  stock_movement_id?: number | null;
+  approved_at?: Date | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// Counted line with its variance valued at cost
+export interface StocktakeVariance {
+  line: StocktakeLine;
+  variance: number;
+  unit_cost: number;
+  variance_value: number;
+}
+
+// Where a stock level written to WooCommerce came from
+export type StoreStockUpdateSource = 'reconciliation' | 'stocktake';
+
+export type StoreStockUpdateStatus = 'success' | 'failed';
+
+// Dry-run of a stock level change in WooCommerce
+export interface StoreStockPreview {
+  sku: string;
+  product_name: string;
+  product_id?: number;
+  variation_id?: number;
+  // Live quantity in the store, null when it could not be read
+  store_quantity: number | null;
+  // Corrected quantity from the stock movement ledger
+  new_quantity: number;
+  change: number;
+  // Why the SKU cannot be updated
+  problem?: string;
+}
+
+// Log entry for each stock level written to WooCommerce
+export interface StoreStockUpdate {
+  id?: number;
+  sku: string;
+  product_id?: number;
+  variation_id?: number;
+  previous_quantity: number | null;
+  new_quantity: number;
+  source: StoreStockUpdateSource;
+  stocktake_session_id?: number | null;
+  status: StoreStockUpdateStatus;
+  error?: string | null;
+  applied_at: Date;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface StoreStockApplyResult {
+  updated: StoreStockUpdate[];
+  failed: StoreStockUpdate[];
+}
+
+// Cancellation marks the positive sale movement that reverses a cancelled, refunded or failed order
+export type MovementReason = 'expiry' | 'damage' | 'theft' | 'correction' | 'return' | 'cancellation' | 'other';
+// Transfers move stock between locations in pairs that net to zero
+export type MovementType = 'initial' | 'sale' | 'adjustment' | 'purchase' | 'transfer';
+
+export type StockLocationType = 'warehouse' | 'retail' | 'consignment' | 'other';
+
+// A place stock is held, movements without a location belong to the default one
+export interface StockLocation {
+  id?: number;
+  name: string;
+  type: StockLocationType;
+  is_default: boolean;
+  active: boolean;
+  notes?: string;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// Expected stock of a SKU at one location from the movement ledger
+export interface LocationStockSummary {
+  sku: string;
+  product_name: string;
+  location_id: number;
+  initial_stock: number;
+  total_purchases: number;
+  // Sales are negative
+  total_sales: number;
+  transfers_in: number;
+  transfers_out: number;
+  // Returns and other adjustments that are not losses
+  total_adjustments: number;
+  // Net of count corrections, theft, damage and expiry, negative when stock went missing
+  shrinkage: number;
+  expected_stock: number;
+  // Latest count at this location and how far it was from the expected stock then
+  last_counted?: Date;
+  last_counted_quantity?: number;
+  last_count_discrepancy?: number;
+}
+
+// Shrinkage of all SKUs at a location
+export interface LocationShrinkage {
+  location_id: number;
+  location_name: string;
+  shrinkage_units: number;
+  shrinkage_value: number;
+  movement_count: number;
+}
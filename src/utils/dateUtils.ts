@@ -1,15 +1,84 @@
-import { format, formatDistanceToNow } from 'date-fns';
-import { formatInTimeZone, toZonedTime } from 'date-fns-tz';
+import { formatDistanceToNow } from 'date-fns';
+import { formatInTimeZone, toZonedTime, fromZonedTime, getTimezoneOffset } from 'date-fns-tz';
 
-// New Zealand timezone
-const NZ_TIMEZONE = 'Pacific/Auckland';
+// Store timezone used until the setting has been loaded
+export const DEFAULT_STORE_TIMEZONE = 'Pacific/Auckland';
+
+let storeTimezone = DEFAULT_STORE_TIMEZONE;
+
+/**
+ * Check that a timezone is a valid IANA timezone name (e.g. Australia/Sydney)
+ */
+export const isValidTimezone = (timezone: string): boolean => {
+  if (!timezone) return false;
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Get the IANA timezone the store operates in
+ */
+export const getStoreTimezone = (): string => {
+  return storeTimezone;
+};
 
 /**
- * Format a date to New Zealand format (dd/MM/yyyy h:mm a)
- * This properly converts to NZ timezone
+ * Set the IANA timezone the store operates in, invalid names are ignored
  */
-export const formatNZDate = (date: Date): string => {
-  return formatInTimeZone(date, NZ_TIMEZONE, 'dd/MM/yyyy h:mm a');
+export const setStoreTimezone = (timezone: string): void => {
+  if (!isValidTimezone(timezone)) {
+    console.warn(`Ignoring invalid store timezone: ${timezone}`);
+    return;
+  }
+  storeTimezone = timezone;
+};
+
+/**
+ * Format a date with a date-fns pattern in the store timezone
+ */
+export const formatInStoreTimezone = (date: Date | string | number, pattern: string): string => {
+  return formatInTimeZone(date, storeTimezone, pattern);
+};
+
+/**
+ * Get a Date whose local fields show the store wall-clock time
+ * Use for bucketing by day, hour or weekday with date-fns helpers
+ */
+export const toStoreTime = (date: Date | string | number): Date => {
+  return toZonedTime(date, storeTimezone);
+};
+
+/**
+ * Get the moment a store wall-clock time happened
+ */
+export const fromStoreTime = (date: Date | string | number): Date => {
+  return fromZonedTime(date, storeTimezone);
+};
+
+/**
+ * Get the short name of the store timezone at a date (e.g. GMT+13)
+ */
+export const getStoreTimezoneAbbreviation = (date: Date = new Date()): string => {
+  return formatInTimeZone(date, storeTimezone, 'zzz');
+};
+
+/**
+ * Get the store timezone offset from UTC in hours at a date
+ */
+export const getStoreTimezoneOffset = (date: Date = new Date()): number => {
+  return getTimezoneOffset(storeTimezone, date) / (60 * 60 * 1000);
+};
+
+/**
+ * Format a date in the store timezone (dd/MM/yyyy h:mm a)
+ */
+export const formatStoreDate = (date: Date): string => {
+  return formatInStoreTimezone(date, 'dd/MM/yyyy h:mm a');
 };
 
 /**
@@ -21,22 +90,15 @@ export const formatRelativeTime = (date: Date): string => {
 };
 
 /**
- * Format a date to New Zealand date only format (dd/MM/yyyy)
+ * Format a date in the store timezone, date only (dd/MM/yyyy)
  */
-export const formatNZDateOnly = (date: Date): string => {
-  return formatInTimeZone(date, NZ_TIMEZONE, 'dd/MM/yyyy');
+export const formatStoreDateOnly = (date: Date): string => {
+  return formatInStoreTimezone(date, 'dd/MM/yyyy');
 };
 
 /**
- * Format a date to New Zealand time only format (h:mm a)
+ * Format a date in the store timezone, time only (h:mm a)
  */
-export const formatNZTimeOnly = (date: Date): string => {
-  return formatInTimeZone(date, NZ_TIMEZONE, 'h:mm a');
+export const formatStoreTimeOnly = (date: Date): string => {
+  return formatInStoreTimezone(date, 'h:mm a');
 };
-
-/**
- * Get current date in New Zealand timezone
- */
-export const getCurrentNZDate = (): Date => {
-  return toZonedTime(new Date(), NZ_TIMEZONE);
-}; 
\ No newline at end of file